@@ -1,19 +1,61 @@
 import { Pool } from 'pg';
 import dotenv from 'dotenv';
+import { migrateUp } from './src/db/migrator';
 
 dotenv.config();
 
+/**
+ * The test suite runs against its own database, rebuilt from the migrations on every run.
+ * TEST_DATABASE_URL wins; otherwise the database named in DATABASE_URL gets a `_test` suffix.
+ */
+const resolveTestDatabaseUrl = (): URL => {
+  const configuredUrl = process.env.TEST_DATABASE_URL || process.env.DATABASE_URL;
+  if (!configuredUrl) {
+    throw new Error('TEST_DATABASE_URL or DATABASE_URL must be set to run the test suite.');
+  }
+
+  const url = new URL(configuredUrl);
+  if (!process.env.TEST_DATABASE_URL) {
+    url.pathname = `${url.pathname.replace(/^\//, '') || 'postgres'}_test`;
+  }
+
+  const databaseName = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  if (!databaseName.endsWith('_test')) {
+    // Guard against dropping a real database through a misconfigured URL.
+    throw new Error(`Refusing to rebuild "${databaseName}": test database names must end in "_test".`);
+  }
+
+  return url;
+};
+
 module.exports = async () => {
-  const pool = new Pool({
-    connectionString: process.env.DATABASE_URL,
-  });
+  let pool: Pool | undefined;
 
   try {
-    await pool.query('SELECT 1'); // Test the connection
+    const testUrl = resolveTestDatabaseUrl();
+    const databaseName = decodeURIComponent(testUrl.pathname.replace(/^\//, ''));
+
+    const adminUrl = new URL(testUrl.toString());
+    adminUrl.pathname = '/postgres';
+    const adminPool = new Pool({ connectionString: adminUrl.toString() });
+    try {
+      const quotedName = `"${databaseName.replace(/"/g, '""')}"`;
+      await adminPool.query(`DROP DATABASE IF EXISTS ${quotedName} WITH (FORCE);`);
+      await adminPool.query(`CREATE DATABASE ${quotedName};`);
+    } finally {
+      await adminPool.end();
+    }
+
+    // Test workers inherit this, so getPool() connects to the fresh database.
+    process.env.DATABASE_URL = testUrl.toString();
+
+    pool = new Pool({ connectionString: testUrl.toString() });
+    const applied = await migrateUp(pool);
     (global as any).__DB_POOL__ = pool;
-    console.log('[GlobalSetup] Database pool created and connected.');
+    console.log(`[GlobalSetup] Test database "${databaseName}" created with ${applied.length} migration(s).`);
   } catch (error) {
-    console.error('[GlobalSetup] Failed to connect to the database:', error);
+    console.error('[GlobalSetup] Failed to prepare the test database:', error);
+    await pool?.end();
     process.exit(1);
   }
 };
@@ -0,0 +1,12 @@
+DROP TABLE IF EXISTS quest_participants;
+DROP TABLE IF EXISTS quests;
+DROP TABLE IF EXISTS votes;
+DROP TABLE IF EXISTS proposals;
+DROP TABLE IF EXISTS treasury_transactions;
+DROP TABLE IF EXISTS feed_group_members;
+DROP TABLE IF EXISTS feed_groups;
+DROP TABLE IF EXISTS user_achievements;
+DROP TABLE IF EXISTS achievements;
+DROP TABLE IF EXISTS user_activities;
+DROP TABLE IF EXISTS user_follows;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,144 @@
+-- Initial Lunoa schema.
+-- Captures the tables the services already query: users and their social graph,
+-- feed groups with governance and treasury, quests and participation.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email VARCHAR(255) UNIQUE,
+  password_hash TEXT,
+  wallet_address TEXT UNIQUE,
+  aptos_address VARCHAR(66),
+  username VARCHAR(50) UNIQUE,
+  bio TEXT,
+  avatar_url TEXT,
+  website TEXT,
+  location TEXT,
+  reputation_score INTEGER NOT NULL DEFAULT 0,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE user_follows (
+  follower_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX idx_user_follows_following_id ON user_follows (following_id);
+
+CREATE TABLE user_activities (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  activity_type VARCHAR(50) NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_activities_user_id_created_at ON user_activities (user_id, created_at DESC);
+
+CREATE TABLE achievements (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  icon_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- quests.service awards achievement 1 on a user's first verified quest.
+INSERT INTO achievements (id, name, description)
+VALUES (1, 'First Quest Completed', 'Awarded when your first quest completion is verified.');
+
+SELECT setval('achievements_id_seq', (SELECT MAX(id) FROM achievements));
+
+CREATE TABLE user_achievements (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  achievement_id INTEGER NOT NULL REFERENCES achievements(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+CREATE TABLE feed_groups (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  treasury_balance NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE feed_group_members (
+  group_id INTEGER NOT NULL REFERENCES feed_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'member',
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX idx_feed_group_members_user_id ON feed_group_members (user_id);
+
+CREATE TABLE treasury_transactions (
+  id SERIAL PRIMARY KEY,
+  group_id INTEGER NOT NULL REFERENCES feed_groups(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('deposit', 'withdrawal')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_treasury_transactions_group_id ON treasury_transactions (group_id, created_at DESC);
+
+CREATE TABLE proposals (
+  id SERIAL PRIMARY KEY,
+  group_id INTEGER NOT NULL REFERENCES feed_groups(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(200) NOT NULL,
+  description TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_proposals_group_id ON proposals (group_id);
+
+CREATE TABLE votes (
+  id SERIAL PRIMARY KEY,
+  proposal_id INTEGER NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vote_option BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (proposal_id, voter_id)
+);
+
+CREATE TABLE quests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id INTEGER NOT NULL REFERENCES feed_groups(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  reward NUMERIC NOT NULL DEFAULT 0,
+  currency VARCHAR(10) NOT NULL DEFAULT 'Lunoa',
+  type VARCHAR(20) NOT NULL DEFAULT 'social',
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_quests_group_id_status ON quests (group_id, status);
+
+CREATE TABLE quest_participants (
+  quest_id UUID NOT NULL REFERENCES quests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'joined',
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (quest_id, user_id)
+);
+
+CREATE INDEX idx_quest_participants_user_id_status ON quest_participants (user_id, status);
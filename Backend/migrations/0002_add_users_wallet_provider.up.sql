@@ -0,0 +1,2 @@
+-- auth.controller.connectWallet records which wallet the user connected with.
+ALTER TABLE users ADD COLUMN wallet_provider VARCHAR(255);
@@ -0,0 +1,10 @@
+DROP INDEX IF EXISTS idx_proposals_open_expires_at;
+
+ALTER TABLE proposals
+  DROP CONSTRAINT IF EXISTS proposals_status_check,
+  DROP COLUMN IF EXISTS final_tally,
+  DROP COLUMN IF EXISTS closed_at;
+
+ALTER TABLE feed_groups
+  DROP COLUMN IF EXISTS proposal_pass_threshold_percent,
+  DROP COLUMN IF EXISTS proposal_quorum_percent;
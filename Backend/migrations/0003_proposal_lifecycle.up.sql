@@ -0,0 +1,14 @@
+-- Per-group governance settings and the final outcome of closed proposals.
+
+ALTER TABLE feed_groups
+  ADD COLUMN proposal_quorum_percent INTEGER NOT NULL DEFAULT 20
+    CHECK (proposal_quorum_percent BETWEEN 0 AND 100),
+  ADD COLUMN proposal_pass_threshold_percent INTEGER NOT NULL DEFAULT 50
+    CHECK (proposal_pass_threshold_percent BETWEEN 0 AND 99);
+
+ALTER TABLE proposals
+  ADD COLUMN closed_at TIMESTAMPTZ,
+  ADD COLUMN final_tally JSONB,
+  ADD CONSTRAINT proposals_status_check CHECK (status IN ('open', 'passed', 'failed', 'closed'));
+
+CREATE INDEX idx_proposals_open_expires_at ON proposals (expires_at) WHERE status = 'open';
@@ -0,0 +1,20 @@
+DROP INDEX IF EXISTS idx_treasury_transactions_proposal_id;
+
+ALTER TABLE treasury_transactions
+  DROP COLUMN IF EXISTS quest_id,
+  DROP COLUMN IF EXISTS recipient_user_id,
+  DROP COLUMN IF EXISTS proposal_id;
+
+ALTER TABLE quests
+  DROP COLUMN IF EXISTS reward_pool;
+
+ALTER TABLE proposals
+  DROP CONSTRAINT IF EXISTS proposals_action_matches_type,
+  DROP COLUMN IF EXISTS executed_at,
+  DROP COLUMN IF EXISTS execution_error,
+  DROP COLUMN IF EXISTS execution_status,
+  DROP COLUMN IF EXISTS action,
+  DROP COLUMN IF EXISTS proposal_type;
+
+ALTER TABLE feed_groups
+  DROP CONSTRAINT IF EXISTS feed_groups_treasury_balance_non_negative;
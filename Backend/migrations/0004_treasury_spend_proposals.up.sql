@@ -0,0 +1,25 @@
+-- Proposals can carry a treasury action that executes when they pass.
+
+ALTER TABLE feed_groups
+  ADD CONSTRAINT feed_groups_treasury_balance_non_negative CHECK (treasury_balance >= 0);
+
+ALTER TABLE proposals
+  ADD COLUMN proposal_type VARCHAR(20) NOT NULL DEFAULT 'text'
+    CHECK (proposal_type IN ('text', 'treasury_spend')),
+  ADD COLUMN action JSONB,
+  ADD COLUMN execution_status VARCHAR(20)
+    CHECK (execution_status IN ('pending', 'executed', 'failed', 'cancelled')),
+  ADD COLUMN execution_error TEXT,
+  ADD COLUMN executed_at TIMESTAMPTZ,
+  ADD CONSTRAINT proposals_action_matches_type CHECK ((proposal_type = 'treasury_spend') = (action IS NOT NULL));
+
+ALTER TABLE quests
+  ADD COLUMN reward_pool NUMERIC NOT NULL DEFAULT 0 CHECK (reward_pool >= 0);
+
+-- Audit trail: every withdrawal points back at the proposal that authorised it.
+ALTER TABLE treasury_transactions
+  ADD COLUMN proposal_id INTEGER REFERENCES proposals(id) ON DELETE SET NULL,
+  ADD COLUMN recipient_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN quest_id UUID REFERENCES quests(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_treasury_transactions_proposal_id ON treasury_transactions (proposal_id) WHERE proposal_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Votes that cannot be represented as yes/no are dropped.
+DELETE FROM votes WHERE vote_option IS NULL;
+
+ALTER TABLE votes
+  DROP CONSTRAINT IF EXISTS votes_single_choice,
+  DROP COLUMN IF EXISTS updated_at,
+  DROP COLUMN IF EXISTS weight,
+  DROP COLUMN IF EXISTS rankings,
+  DROP COLUMN IF EXISTS option_index,
+  ALTER COLUMN vote_option SET NOT NULL;
+
+ALTER TABLE proposals
+  DROP CONSTRAINT IF EXISTS proposals_options_match_mode,
+  DROP COLUMN IF EXISTS vote_weighting,
+  DROP COLUMN IF EXISTS options,
+  DROP COLUMN IF EXISTS voting_mode;
@@ -0,0 +1,19 @@
+-- Multiple-choice and ranked-choice proposals, weighted votes, and changeable votes.
+
+ALTER TABLE proposals
+  ADD COLUMN voting_mode VARCHAR(20) NOT NULL DEFAULT 'binary'
+    CHECK (voting_mode IN ('binary', 'multiple_choice', 'ranked_choice')),
+  ADD COLUMN options JSONB,
+  ADD COLUMN vote_weighting VARCHAR(20) NOT NULL DEFAULT 'equal'
+    CHECK (vote_weighting IN ('equal', 'role', 'reputation', 'token')),
+  ADD CONSTRAINT proposals_options_match_mode CHECK ((voting_mode = 'binary') = (options IS NULL));
+
+-- A vote stores exactly one kind of choice: yes/no, a single option, or a ranking of options.
+-- The weight is captured when the vote is cast or changed.
+ALTER TABLE votes
+  ALTER COLUMN vote_option DROP NOT NULL,
+  ADD COLUMN option_index INTEGER CHECK (option_index >= 0),
+  ADD COLUMN rankings INTEGER[],
+  ADD COLUMN weight NUMERIC NOT NULL DEFAULT 1 CHECK (weight >= 0),
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD CONSTRAINT votes_single_choice CHECK (num_nonnulls(vote_option, option_index, rankings) = 1);
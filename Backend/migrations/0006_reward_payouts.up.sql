@@ -0,0 +1,26 @@
+-- Outbox of quest rewards waiting to be paid on-chain.
+-- A payout only reaches 'submitted' once its transaction hash is recorded, so a payout
+-- left in 'processing' by a crashed worker was never sent and can safely be retried.
+CREATE TABLE reward_payouts (
+  id SERIAL PRIMARY KEY,
+  quest_id UUID REFERENCES quests(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'submitted', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  tx_hash VARCHAR(66),
+  tx_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (quest_id, user_id),
+  CHECK (status NOT IN ('submitted', 'sent') OR tx_hash IS NOT NULL)
+);
+
+CREATE INDEX idx_reward_payouts_due ON reward_payouts (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_reward_payouts_in_flight ON reward_payouts (status) WHERE status IN ('processing', 'submitted');
+CREATE INDEX idx_reward_payouts_user_id ON reward_payouts (user_id, created_at DESC);
@@ -0,0 +1,7 @@
+-- The postgis extension is left installed; dropping it could break objects outside this schema.
+DROP INDEX IF EXISTS idx_quests_location_geometry;
+DROP INDEX IF EXISTS idx_quests_location;
+
+ALTER TABLE quests
+  DROP COLUMN IF EXISTS location,
+  DROP CONSTRAINT IF EXISTS quests_coordinates_valid;
@@ -0,0 +1,16 @@
+-- Quest coordinates as PostGIS points, for radius, bounding-box and clustering queries.
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+ALTER TABLE quests
+  ADD CONSTRAINT quests_coordinates_valid CHECK (
+    (latitude IS NULL) = (longitude IS NULL)
+    AND (latitude IS NULL OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180))
+  ),
+  -- Derived from latitude/longitude, which remain the columns the API reads and writes.
+  ADD COLUMN location GEOGRAPHY(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL THEN ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography END
+  ) STORED;
+
+-- Radius searches measure on the sphere; bounding boxes and clusters work on the map plane.
+CREATE INDEX idx_quests_location ON quests USING GIST (location);
+CREATE INDEX idx_quests_location_geometry ON quests USING GIST ((location::geometry));
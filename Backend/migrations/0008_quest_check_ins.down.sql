@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS quest_check_ins;
+
+ALTER TABLE quests
+  DROP COLUMN IF EXISTS check_in_auto_verify,
+  DROP COLUMN IF EXISTS geofence_radius_m;
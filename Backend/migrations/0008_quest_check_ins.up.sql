@@ -0,0 +1,31 @@
+-- Location-based quests are completed by checking in inside the quest's geofence.
+ALTER TABLE quests
+  ADD COLUMN geofence_radius_m INTEGER NOT NULL DEFAULT 100 CHECK (geofence_radius_m BETWEEN 10 AND 10000),
+  -- When set, a check-in that passes every check verifies the participant without the creator.
+  ADD COLUMN check_in_auto_verify BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Every check-in attempt is kept as evidence, including rejected ones.
+CREATE TABLE quest_check_ins (
+  id SERIAL PRIMARY KEY,
+  quest_id UUID NOT NULL REFERENCES quests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  accuracy_m DOUBLE PRECISION NOT NULL CHECK (accuracy_m >= 0),
+  -- When the device took the fix, as reported by the client.
+  recorded_at TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  distance_m DOUBLE PRECISION NOT NULL,
+  geofence_radius_m INTEGER NOT NULL,
+  -- Implied speed from the user's previous check-in, if there was one.
+  previous_check_in_id INTEGER REFERENCES quest_check_ins(id) ON DELETE SET NULL,
+  speed_mps DOUBLE PRECISION,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('passed', 'flagged', 'rejected')),
+  flags TEXT[] NOT NULL DEFAULT '{}',
+  auto_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  ip_address VARCHAR(45),
+  user_agent TEXT
+);
+
+CREATE INDEX idx_quest_check_ins_quest_id_status ON quest_check_ins (quest_id, status);
+CREATE INDEX idx_quest_check_ins_user_id_recorded_at ON quest_check_ins (user_id, recorded_at DESC);
@@ -0,0 +1,7 @@
+DROP TABLE IF EXISTS quest_submissions;
+
+-- Participants left 'rejected' by a review go back to being able to submit.
+UPDATE quest_participants SET status = 'joined' WHERE status = 'rejected';
+
+ALTER TABLE quests
+  DROP COLUMN IF EXISTS required_evidence;
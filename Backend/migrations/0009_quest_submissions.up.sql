@@ -0,0 +1,27 @@
+-- Participants complete quests by submitting the evidence the quest asks for, and the
+-- creator approves or rejects each submission. Rejected participants may resubmit.
+ALTER TABLE quests
+  ADD COLUMN required_evidence TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (required_evidence <@ ARRAY['photo', 'text', 'url', 'vibe_nft']);
+
+CREATE TABLE quest_submissions (
+  id SERIAL PRIMARY KEY,
+  quest_id UUID NOT NULL REFERENCES quests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- 1 for the participant's first submission on the quest, 2 after one rejection, and so on.
+  attempt INTEGER NOT NULL CHECK (attempt > 0),
+  evidence JSONB NOT NULL DEFAULT '{}',
+  check_in_id INTEGER REFERENCES quest_check_ins(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  -- NULL on an approved submission means it was verified automatically.
+  reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  review_reason TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (quest_id, user_id, attempt),
+  CONSTRAINT quest_submissions_rejection_has_reason CHECK (status <> 'rejected' OR review_reason IS NOT NULL)
+);
+
+-- At most one submission per participant awaits review.
+CREATE UNIQUE INDEX idx_quest_submissions_pending ON quest_submissions (quest_id, user_id) WHERE status = 'pending';
+CREATE INDEX idx_quest_submissions_quest_id_status ON quest_submissions (quest_id, status);
@@ -0,0 +1,17 @@
+DROP TABLE IF EXISTS notifications;
+
+DROP INDEX IF EXISTS idx_quest_participants_deadline_at;
+DROP INDEX IF EXISTS idx_quests_expires_at_active;
+
+-- Participants who missed a deadline go back to having joined.
+UPDATE quest_participants SET status = 'joined' WHERE status = 'expired';
+
+ALTER TABLE quest_participants
+  DROP COLUMN IF EXISTS deadline_at;
+
+ALTER TABLE quests
+  DROP CONSTRAINT IF EXISTS quests_join_window_valid,
+  DROP COLUMN IF EXISTS completion_window_minutes,
+  DROP COLUMN IF EXISTS join_closes_at,
+  DROP COLUMN IF EXISTS join_opens_at,
+  DROP COLUMN IF EXISTS max_participants;
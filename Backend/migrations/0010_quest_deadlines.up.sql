@@ -0,0 +1,30 @@
+-- Quests can cap their participants, limit when people may join and give each participant
+-- a deadline to complete by. A background job expires quests and missed deadlines and
+-- notifies the participants affected.
+ALTER TABLE quests
+  ADD COLUMN max_participants INTEGER CHECK (max_participants > 0),
+  ADD COLUMN join_opens_at TIMESTAMPTZ,
+  ADD COLUMN join_closes_at TIMESTAMPTZ,
+  -- Each participant has this long from joining to submit, but never past expires_at.
+  ADD COLUMN completion_window_minutes INTEGER CHECK (completion_window_minutes > 0),
+  ADD CONSTRAINT quests_join_window_valid CHECK (join_opens_at < join_closes_at);
+
+-- Fixed when the participant joins. NULL means no deadline.
+ALTER TABLE quest_participants
+  ADD COLUMN deadline_at TIMESTAMPTZ;
+
+CREATE INDEX idx_quests_expires_at_active ON quests (expires_at) WHERE status = 'active';
+CREATE INDEX idx_quest_participants_deadline_at ON quest_participants (deadline_at) WHERE status IN ('joined', 'rejected');
+
+CREATE TABLE notifications (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(40) NOT NULL,
+  -- What the notification is about, e.g. the quest's ID and title.
+  data JSONB NOT NULL DEFAULT '{}',
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_id_created_at ON notifications (user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications (user_id) WHERE read_at IS NULL;
@@ -0,0 +1,9 @@
+DROP TABLE IF EXISTS quest_escrows;
+
+ALTER TABLE quests
+  DROP COLUMN IF EXISTS max_winners;
+
+DROP TABLE IF EXISTS wallet_transactions;
+
+ALTER TABLE users
+  DROP COLUMN IF EXISTS wallet_balance;
@@ -0,0 +1,44 @@
+-- Quest rewards are backed by an escrow locked when the quest is created: reward × max
+-- winners, taken from the creator's wallet or the group's treasury. Payouts draw it down
+-- and whatever is left returns to the funder when the quest is cancelled or expires.
+-- Quests created before this have no escrow and pay out as they always did.
+
+-- An off-chain $Lunoa balance per user, kept like the group treasury: a running balance
+-- plus a ledger of every movement.
+ALTER TABLE users
+  ADD COLUMN wallet_balance NUMERIC NOT NULL DEFAULT 0 CHECK (wallet_balance >= 0);
+
+CREATE TABLE wallet_transactions (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('deposit', 'escrow_lock', 'escrow_refund')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  quest_id UUID REFERENCES quests(id) ON DELETE SET NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_wallet_transactions_user_id ON wallet_transactions (user_id, created_at DESC);
+
+ALTER TABLE quests
+  -- How many participants the escrow pays. Defaults to max_participants.
+  ADD COLUMN max_winners INTEGER CHECK (max_winners > 0);
+
+CREATE TABLE quest_escrows (
+  id SERIAL PRIMARY KEY,
+  -- Kept when the quest is deleted, as the record of where its funds went.
+  quest_id UUID UNIQUE REFERENCES quests(id) ON DELETE SET NULL,
+  funding_source VARCHAR(20) NOT NULL CHECK (funding_source IN ('creator', 'treasury')),
+  -- Refunds go to this user's wallet or this group's treasury, by funding_source.
+  funder_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  group_id INTEGER REFERENCES feed_groups(id) ON DELETE SET NULL,
+  amount_locked NUMERIC NOT NULL CHECK (amount_locked > 0),
+  amount_paid NUMERIC NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  amount_refunded NUMERIC NOT NULL DEFAULT 0 CHECK (amount_refunded >= 0),
+  -- Closed once the quest is over and nothing is held back for submissions awaiting review.
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  CONSTRAINT quest_escrows_not_overdrawn CHECK (amount_paid + amount_refunded <= amount_locked)
+);
@@ -0,0 +1,9 @@
+DROP TABLE IF EXISTS quest_prerequisites;
+
+-- Step check-ins have no quest-level meaning without their steps.
+DELETE FROM quest_check_ins WHERE step_id IS NOT NULL;
+ALTER TABLE quest_check_ins
+  DROP COLUMN IF EXISTS step_id;
+
+DROP TABLE IF EXISTS quest_step_progress;
+DROP TABLE IF EXISTS quest_steps;
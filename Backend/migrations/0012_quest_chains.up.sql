@@ -0,0 +1,56 @@
+-- A quest can be a chain of ordered steps, each verified its own way. Participants work
+-- through the steps in order and the quest completes once every step is verified.
+CREATE TABLE quest_steps (
+  id SERIAL PRIMARY KEY,
+  quest_id UUID NOT NULL REFERENCES quests(id) ON DELETE CASCADE,
+  -- 1 for the first step, 2 for the second, and so on.
+  position INTEGER NOT NULL CHECK (position > 0),
+  title VARCHAR(100) NOT NULL,
+  description TEXT,
+  -- review: the creator approves the step's evidence. check_in: checking in inside the
+  -- step's geofence verifies it, a flagged check-in goes to review. auto: submitting the
+  -- required evidence verifies it.
+  verification_method VARCHAR(20) NOT NULL CHECK (verification_method IN ('review', 'check_in', 'auto')),
+  required_evidence TEXT[] NOT NULL DEFAULT '{}' CHECK (required_evidence <@ ARRAY['photo', 'text', 'url']),
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  geofence_radius_m INTEGER NOT NULL DEFAULT 100 CHECK (geofence_radius_m BETWEEN 10 AND 10000),
+  UNIQUE (quest_id, position),
+  CONSTRAINT quest_steps_check_in_has_location CHECK (
+    verification_method <> 'check_in' OR (latitude IS NOT NULL AND longitude IS NOT NULL)
+  )
+);
+
+-- One row per participant and step they have submitted; steps without one are pending.
+CREATE TABLE quest_step_progress (
+  step_id INTEGER NOT NULL REFERENCES quest_steps(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('submitted', 'verified', 'rejected')),
+  evidence JSONB NOT NULL DEFAULT '{}',
+  check_in_id INTEGER REFERENCES quest_check_ins(id) ON DELETE SET NULL,
+  reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  review_reason TEXT,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ,
+  PRIMARY KEY (step_id, user_id),
+  CONSTRAINT quest_step_progress_rejection_has_reason CHECK (status <> 'rejected' OR review_reason IS NOT NULL)
+);
+
+CREATE INDEX idx_quest_step_progress_user_id ON quest_step_progress (user_id);
+
+-- Check-ins made for a step rather than for the quest itself.
+ALTER TABLE quest_check_ins
+  ADD COLUMN step_id INTEGER REFERENCES quest_steps(id) ON DELETE CASCADE;
+
+-- What a user must have done before joining a quest: completed another quest of the
+-- group, or earned an achievement.
+CREATE TABLE quest_prerequisites (
+  id SERIAL PRIMARY KEY,
+  quest_id UUID NOT NULL REFERENCES quests(id) ON DELETE CASCADE,
+  required_quest_id UUID REFERENCES quests(id) ON DELETE CASCADE,
+  required_achievement_id INTEGER REFERENCES achievements(id) ON DELETE CASCADE,
+  CONSTRAINT quest_prerequisites_one_requirement CHECK (num_nonnulls(required_quest_id, required_achievement_id) = 1),
+  CONSTRAINT quest_prerequisites_not_self CHECK (required_quest_id <> quest_id)
+);
+
+CREATE INDEX idx_quest_prerequisites_quest_id ON quest_prerequisites (quest_id);
@@ -0,0 +1,11 @@
+ALTER TABLE users
+  DROP COLUMN IF EXISTS is_admin;
+
+DROP INDEX IF EXISTS idx_user_activities_user_id_activity_type;
+
+-- Awards of the other achievements stay; those seeded here go, with whoever earned them.
+DELETE FROM achievements WHERE name IN ('Quest Veteran', 'Explorer', 'Social Butterfly');
+
+ALTER TABLE achievements
+  DROP COLUMN IF EXISTS updated_at,
+  DROP COLUMN IF EXISTS rule;
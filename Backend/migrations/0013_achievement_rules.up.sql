@@ -0,0 +1,39 @@
+-- Achievements are awarded by rules evaluated against user_activities rather than by code.
+-- A rule counts a user's activities of one type, optionally only those whose metadata
+-- contains "where", or only distinct values of one metadata key, and awards the
+-- achievement once the count reaches its threshold, e.g.
+--   {"activity": "quest_verified", "threshold": 5, "distinct": "groupId"}
+-- Achievements without a rule are never awarded automatically.
+ALTER TABLE achievements
+  ADD COLUMN rule JSONB CHECK (
+    rule IS NULL OR (
+      jsonb_typeof(rule->'activity') = 'string'
+      AND jsonb_typeof(rule->'threshold') = 'number'
+      AND (NOT rule ? 'distinct' OR jsonb_typeof(rule->'distinct') = 'string')
+      AND (NOT rule ? 'where' OR jsonb_typeof(rule->'where') = 'object')
+    )
+  ),
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- The achievement quests.service used to award by hand on a user's first verified quest.
+UPDATE achievements SET rule = '{"activity": "quest_verified", "threshold": 1}' WHERE id = 1;
+
+INSERT INTO achievements (name, description, rule) VALUES
+  ('Quest Veteran', 'Awarded when 10 of your quest completions are verified.', '{"activity": "quest_verified", "threshold": 10}'),
+  ('Explorer', 'Awarded for completing quests in 5 different groups.', '{"activity": "quest_verified", "threshold": 5, "distinct": "groupId"}'),
+  ('Social Butterfly', 'Awarded for following 20 users.', '{"activity": "user_followed", "threshold": 20, "distinct": "followingId"}')
+ON CONFLICT (name) DO NOTHING;
+
+-- Rules count by group, which quest_verified activities did not record until now.
+UPDATE user_activities a
+SET metadata = a.metadata || jsonb_build_object('groupId', q.group_id)
+FROM quests q
+WHERE a.activity_type = 'quest_verified'
+  AND NOT a.metadata ? 'groupId'
+  AND q.id::text = a.metadata->>'questId';
+
+CREATE INDEX idx_user_activities_user_id_activity_type ON user_activities (user_id, activity_type);
+
+-- Admins manage achievement definitions. Granted directly in the database.
+ALTER TABLE users
+  ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+DELETE FROM quest_prerequisites WHERE min_reputation IS NOT NULL;
+ALTER TABLE quest_prerequisites
+  DROP CONSTRAINT quest_prerequisites_one_requirement,
+  DROP COLUMN IF EXISTS min_reputation,
+  ADD CONSTRAINT quest_prerequisites_one_requirement
+    CHECK (num_nonnulls(required_quest_id, required_achievement_id) = 1);
+
+DROP TABLE IF EXISTS reputation_events;
@@ -0,0 +1,28 @@
+-- Reputation is a ledger of scored events, like the wallet. users.reputation_score is
+-- their running total, except that older events count for less: a job periodically
+-- records 'decay' events that bring the total to the events' decayed worth.
+CREATE TABLE reputation_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type VARCHAR(40) NOT NULL CHECK (event_type IN (
+    'quest_verified', 'submission_rejected', 'proposal_passed', 'followed', 'unfollowed',
+    'content_reported', 'initial_score', 'decay'
+  )),
+  delta INTEGER NOT NULL CHECK (delta <> 0),
+  -- What the event was about, e.g. the quest's or the follower's ID.
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_reputation_events_user_id ON reputation_events (user_id, created_at DESC, id DESC);
+
+-- Keep whatever scores were set by hand, as events that decay like any other.
+INSERT INTO reputation_events (user_id, event_type, delta)
+SELECT id, 'initial_score', reputation_score FROM users WHERE reputation_score <> 0;
+
+-- A quest prerequisite may also be a minimum reputation score.
+ALTER TABLE quest_prerequisites
+  ADD COLUMN min_reputation INTEGER,
+  DROP CONSTRAINT quest_prerequisites_one_requirement,
+  ADD CONSTRAINT quest_prerequisites_one_requirement
+    CHECK (num_nonnulls(required_quest_id, required_achievement_id, min_reputation) = 1);
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_reputation_events_quest_id;
+DROP INDEX IF EXISTS idx_reputation_events_group_id;
+DROP INDEX IF EXISTS idx_reputation_events_created_at;
@@ -0,0 +1,5 @@
+-- Leaderboards rank the reputation users earned in a rolling window, within a group or
+-- around the quests of an area.
+CREATE INDEX idx_reputation_events_created_at ON reputation_events (created_at);
+CREATE INDEX idx_reputation_events_group_id ON reputation_events ((metadata->>'groupId'), created_at);
+CREATE INDEX idx_reputation_events_quest_id ON reputation_events ((metadata->>'questId'), created_at);
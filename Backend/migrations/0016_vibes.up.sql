@@ -0,0 +1,33 @@
+-- Vibe NFTs as minted: what was pinned, the mint transaction and the token, and where and
+-- for what the Vibe was captured.
+CREATE TABLE vibes (
+  id SERIAL PRIMARY KEY,
+  creator_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  collection_name VARCHAR(128) NOT NULL,
+  recipient_address VARCHAR(66) NOT NULL,
+  -- Null if the chain did not report the minted token's address.
+  token_address VARCHAR(66),
+  tx_hash VARCHAR(66) NOT NULL UNIQUE,
+  metadata_cid TEXT NOT NULL,
+  image_cid TEXT NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  location GEOGRAPHY(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL THEN ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography END
+  ) STORED,
+  quest_id UUID REFERENCES quests(id) ON DELETE SET NULL,
+  group_id INTEGER REFERENCES feed_groups(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT vibes_coordinates_valid CHECK (
+    (latitude IS NULL) = (longitude IS NULL)
+    AND (latitude IS NULL OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180))
+  )
+);
+
+CREATE INDEX idx_vibes_creator_id ON vibes (creator_id, created_at DESC);
+CREATE INDEX idx_vibes_quest_id ON vibes (quest_id, created_at DESC);
+CREATE INDEX idx_vibes_group_id ON vibes (group_id, created_at DESC);
+CREATE INDEX idx_vibes_created_at ON vibes (created_at DESC);
+CREATE INDEX idx_vibes_location_geometry ON vibes USING GIST ((location::geometry));
@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS vibe_reports;
+DROP TABLE IF EXISTS vibe_comments;
+DROP TABLE IF EXISTS vibe_likes;
+
+ALTER TABLE vibes
+  DROP COLUMN IF EXISTS comments_locked;
@@ -0,0 +1,43 @@
+-- Likes, threaded comments and reports on Vibes.
+ALTER TABLE vibes
+  -- Set by the Vibe's creator to stop new comments.
+  ADD COLUMN comments_locked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE vibe_likes (
+  vibe_id INTEGER NOT NULL REFERENCES vibes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (vibe_id, user_id)
+);
+
+-- Deleted comments keep their place in the thread, without their body.
+CREATE TABLE vibe_comments (
+  id SERIAL PRIMARY KEY,
+  vibe_id INTEGER NOT NULL REFERENCES vibes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  parent_id INTEGER REFERENCES vibe_comments(id) ON DELETE CASCADE,
+  body TEXT CHECK (char_length(body) BETWEEN 1 AND 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+  CONSTRAINT vibe_comments_body_until_deleted CHECK ((body IS NULL) = (deleted_at IS NOT NULL))
+);
+
+CREATE INDEX idx_vibe_comments_vibe_id ON vibe_comments (vibe_id, created_at DESC);
+CREATE INDEX idx_vibe_comments_parent_id ON vibe_comments (parent_id);
+-- Rate limits count a user's recent comments.
+CREATE INDEX idx_vibe_comments_user_id ON vibe_comments (user_id, created_at DESC);
+
+-- A report is about a Vibe, or about one of its comments when comment_id is set.
+CREATE TABLE vibe_reports (
+  id SERIAL PRIMARY KEY,
+  vibe_id INTEGER NOT NULL REFERENCES vibes(id) ON DELETE CASCADE,
+  comment_id INTEGER REFERENCES vibe_comments(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'other')),
+  details TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Each user reports a piece of content once.
+CREATE UNIQUE INDEX idx_vibe_reports_reporter ON vibe_reports (reporter_id, vibe_id, COALESCE(comment_id, 0));
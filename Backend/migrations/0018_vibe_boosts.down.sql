@@ -0,0 +1,9 @@
+DROP TABLE IF EXISTS vibe_boosts;
+
+DELETE FROM wallet_transactions WHERE transaction_type IN ('boost', 'boost_payout');
+
+ALTER TABLE wallet_transactions
+  DROP COLUMN IF EXISTS vibe_id,
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN ('deposit', 'escrow_lock', 'escrow_refund'));
@@ -0,0 +1,29 @@
+-- Boosts: $Lunoa paid to a Vibe, split between its creator, its group's treasury and the platform.
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN ('deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout')),
+  ADD COLUMN vibe_id INTEGER REFERENCES vibes(id) ON DELETE SET NULL;
+
+-- Kept when the Vibe or a user is deleted, as the record of where the funds went.
+CREATE TABLE vibe_boosts (
+  id SERIAL PRIMARY KEY,
+  vibe_id INTEGER REFERENCES vibes(id) ON DELETE SET NULL,
+  booster_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  creator_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  creator_amount NUMERIC NOT NULL CHECK (creator_amount >= 0),
+  -- The group the Vibe is posted to, if any; otherwise its share goes to the creator.
+  group_id INTEGER REFERENCES feed_groups(id) ON DELETE SET NULL,
+  group_amount NUMERIC NOT NULL CHECK (group_amount >= 0),
+  -- Kept by the platform; no wallet is credited.
+  platform_fee NUMERIC NOT NULL CHECK (platform_fee >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT vibe_boosts_split_complete CHECK (creator_amount + group_amount + platform_fee = amount)
+);
+
+CREATE INDEX idx_vibe_boosts_vibe_id ON vibe_boosts (vibe_id, created_at DESC);
+-- Anti-spam limits look at a user's recent boosts.
+CREATE INDEX idx_vibe_boosts_booster_id ON vibe_boosts (booster_id, created_at DESC);
+-- Trending scores sum recent boosts.
+CREATE INDEX idx_vibe_boosts_created_at ON vibe_boosts (created_at);
@@ -0,0 +1,11 @@
+DROP TABLE IF EXISTS marketplace_sales;
+DROP TABLE IF EXISTS marketplace_listings;
+
+ALTER TABLE vibes DROP COLUMN IF EXISTS owner_address;
+
+DELETE FROM wallet_transactions WHERE transaction_type IN ('purchase_escrow', 'purchase_refund', 'sale_proceeds', 'royalty');
+
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN ('deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout'));
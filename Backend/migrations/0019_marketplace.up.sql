@@ -0,0 +1,65 @@
+-- Marketplace: fixed-price listings of Vibe NFTs and their sales, mirrored from the
+-- marketplace contract's events. A buyer's payment is held in escrow in their wallet
+-- ledger until the sale commits on-chain, then split between the seller and, as a
+-- royalty, the Vibe's creator.
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN (
+      'deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout',
+      'purchase_escrow', 'purchase_refund', 'sale_proceeds', 'royalty'
+    ));
+
+-- Who holds the NFT now; the recipient it was minted to until it is first sold.
+ALTER TABLE vibes ADD COLUMN owner_address VARCHAR(66);
+UPDATE vibes SET owner_address = recipient_address;
+ALTER TABLE vibes ALTER COLUMN owner_address SET NOT NULL;
+CREATE INDEX idx_vibes_owner_address ON vibes (lower(owner_address));
+
+CREATE TABLE marketplace_listings (
+  id SERIAL PRIMARY KEY,
+  -- The listing's ID in the marketplace contract.
+  chain_listing_id BIGINT NOT NULL UNIQUE,
+  vibe_id INTEGER NOT NULL REFERENCES vibes(id) ON DELETE CASCADE,
+  seller_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  seller_address VARCHAR(66) NOT NULL,
+  price NUMERIC NOT NULL CHECK (price > 0),
+  -- 'pending_sale' while a purchase is waiting for its transaction.
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'pending_sale', 'sold', 'cancelled')),
+  tx_hash VARCHAR(66) NOT NULL,
+  cancel_tx_hash VARCHAR(66),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A Vibe is listed at most once at a time.
+CREATE UNIQUE INDEX idx_marketplace_listings_open_vibe ON marketplace_listings (vibe_id) WHERE status IN ('active', 'pending_sale');
+CREATE INDEX idx_marketplace_listings_status ON marketplace_listings (status, created_at DESC);
+CREATE INDEX idx_marketplace_listings_seller_id ON marketplace_listings (seller_id, created_at DESC);
+
+-- A sale is recorded as 'submitted' with its transaction hash before it is sent, so a
+-- crash leaves a sale that reconciliation can settle by hash: completed pays the seller
+-- and the creator, failed refunds the buyer.
+CREATE TABLE marketplace_sales (
+  id SERIAL PRIMARY KEY,
+  listing_id INTEGER NOT NULL REFERENCES marketplace_listings(id) ON DELETE CASCADE,
+  buyer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  buyer_address VARCHAR(66) NOT NULL,
+  price NUMERIC NOT NULL CHECK (price > 0),
+  -- The creator's cut, at the collection's royalty rate when the sale was made.
+  royalty_amount NUMERIC NOT NULL DEFAULT 0 CHECK (royalty_amount >= 0 AND royalty_amount <= price),
+  royalty_recipient_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'completed', 'failed')),
+  tx_hash VARCHAR(66) NOT NULL UNIQUE,
+  tx_expires_at TIMESTAMPTZ NOT NULL,
+  failure_reason TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only one purchase of a listing can be in flight.
+CREATE UNIQUE INDEX idx_marketplace_sales_in_flight ON marketplace_sales (listing_id) WHERE status = 'submitted';
+CREATE INDEX idx_marketplace_sales_listing_id ON marketplace_sales (listing_id, created_at DESC);
+CREATE INDEX idx_marketplace_sales_buyer_id ON marketplace_sales (buyer_id, created_at DESC);
@@ -0,0 +1,22 @@
+ALTER TABLE marketplace_sales DROP COLUMN IF EXISTS bid_id;
+
+DROP TABLE IF EXISTS marketplace_bids;
+DROP TABLE IF EXISTS marketplace_auctions;
+
+DELETE FROM marketplace_listings WHERE listing_type = 'auction';
+
+ALTER TABLE marketplace_listings
+  DROP COLUMN IF EXISTS listing_type,
+  DROP CONSTRAINT marketplace_listings_status_check,
+  ADD CONSTRAINT marketplace_listings_status_check
+    CHECK (status IN ('active', 'pending_sale', 'sold', 'cancelled'));
+
+DELETE FROM wallet_transactions WHERE transaction_type IN ('bid_escrow', 'bid_refund');
+
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN (
+      'deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout',
+      'purchase_escrow', 'purchase_refund', 'sale_proceeds', 'royalty'
+    ));
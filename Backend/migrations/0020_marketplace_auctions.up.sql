@@ -0,0 +1,53 @@
+-- Auctions: English auctions of Vibe NFTs. An auction is a marketplace listing whose
+-- price is the starting bid. Bidding happens off-chain: the leading bid is held in
+-- escrow in the bidder's wallet ledger and refunded when it is outbid. When the auction
+-- closes, the winning bid completes the on-chain listing like a purchase.
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN (
+      'deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout',
+      'purchase_escrow', 'purchase_refund', 'sale_proceeds', 'royalty',
+      'bid_escrow', 'bid_refund'
+    ));
+
+-- 'expired' auctions closed without a winning bid.
+ALTER TABLE marketplace_listings
+  ADD COLUMN listing_type VARCHAR(20) NOT NULL DEFAULT 'fixed_price' CHECK (listing_type IN ('fixed_price', 'auction')),
+  DROP CONSTRAINT marketplace_listings_status_check,
+  ADD CONSTRAINT marketplace_listings_status_check
+    CHECK (status IN ('active', 'pending_sale', 'sold', 'cancelled', 'expired'));
+
+CREATE TABLE marketplace_auctions (
+  listing_id INTEGER PRIMARY KEY REFERENCES marketplace_listings(id) ON DELETE CASCADE,
+  -- The lowest bid that wins; a lower leading bid is refunded when the auction closes.
+  reserve_price NUMERIC NOT NULL CHECK (reserve_price > 0),
+  -- How much each bid must beat the leading one by.
+  min_increment NUMERIC NOT NULL CHECK (min_increment > 0),
+  -- Pushed back by bids placed just before it.
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_marketplace_auctions_ends_at ON marketplace_auctions (ends_at);
+
+-- Only the 'leading' bid holds its amount in escrow. 'outbid' and 'refunded' bids got
+-- it back; a 'won' bid paid for the sale.
+CREATE TABLE marketplace_bids (
+  id SERIAL PRIMARY KEY,
+  listing_id INTEGER NOT NULL REFERENCES marketplace_auctions(listing_id) ON DELETE CASCADE,
+  bidder_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Where the NFT goes if the bid wins.
+  bidder_address VARCHAR(66) NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'leading' CHECK (status IN ('leading', 'outbid', 'won', 'refunded')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_marketplace_bids_leading ON marketplace_bids (listing_id) WHERE status = 'leading';
+CREATE INDEX idx_marketplace_bids_listing_id ON marketplace_bids (listing_id, created_at DESC);
+CREATE INDEX idx_marketplace_bids_bidder_id ON marketplace_bids (bidder_id, created_at DESC);
+
+-- The winning bid an auction's sale was made from; its escrow paid for the sale.
+ALTER TABLE marketplace_sales ADD COLUMN bid_id INTEGER UNIQUE REFERENCES marketplace_bids(id) ON DELETE SET NULL;
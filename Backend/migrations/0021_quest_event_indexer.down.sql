@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS chain_quest_cursors;
+DROP TABLE IF EXISTS chain_quest_events;
+
+DELETE FROM quests WHERE chain_quest_id IS NOT NULL;
+ALTER TABLE quests DROP COLUMN IF EXISTS chain_quest_id;
@@ -0,0 +1,35 @@
+-- Quests created on-chain by calling the quest contract directly, mirrored into quests by
+-- an indexer that polls the contract's event handles. Every event read is kept, so an
+-- on-chain quest's rows can be rebuilt from its events, including after the chain rolls
+-- some of them back.
+
+-- The quest's ID in the quest contract. Set only on quests the indexer created.
+ALTER TABLE quests ADD COLUMN chain_quest_id BIGINT UNIQUE;
+
+CREATE TABLE chain_quest_events (
+  -- Each event handle emits one type of event and numbers its events from 0.
+  event_type VARCHAR(20) NOT NULL
+    CHECK (event_type IN ('quest_created', 'quest_joined', 'quest_completed', 'quest_canceled')),
+  sequence_number BIGINT NOT NULL CHECK (sequence_number >= 0),
+  -- The ledger version of the transaction that emitted the event.
+  version BIGINT NOT NULL,
+  chain_quest_id BIGINT NOT NULL,
+  -- The creator, participant or completer, lowercased.
+  account_address VARCHAR(66) NOT NULL,
+  -- The rest of the event, e.g. a created quest's title and reward.
+  data JSONB NOT NULL DEFAULT '{}',
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (event_type, sequence_number)
+);
+
+CREATE INDEX idx_chain_quest_events_chain_quest_id ON chain_quest_events (chain_quest_id);
+
+-- How far the indexer has read each event handle.
+CREATE TABLE chain_quest_cursors (
+  event_type VARCHAR(20) PRIMARY KEY,
+  -- The sequence number of the next event to read.
+  next_sequence_number BIGINT NOT NULL DEFAULT 0 CHECK (next_sequence_number >= 0),
+  -- How many events the handle had emitted when it was last polled.
+  chain_event_count BIGINT NOT NULL DEFAULT 0,
+  synced_at TIMESTAMPTZ
+);
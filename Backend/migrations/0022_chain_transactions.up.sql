@@ -0,0 +1,58 @@
+-- Every transaction the backend submits on-chain, recorded with its hash before it is
+-- sent and settled in the background, so a request never waits for a transaction and
+-- its outcome can always be looked up.
+CREATE TABLE chain_transactions (
+  id SERIAL PRIMARY KEY,
+  tx_hash VARCHAR(66) NOT NULL UNIQUE,
+  purpose VARCHAR(30) NOT NULL
+    CHECK (purpose IN ('vibe_mint', 'quest_reward', 'marketplace_listing', 'marketplace_cancellation', 'marketplace_sale')),
+  -- The row the transaction acts for: a Vibe, reward payout, listing or sale.
+  entity_type VARCHAR(30) NOT NULL
+    CHECK (entity_type IN ('vibe', 'reward_payout', 'marketplace_listing', 'marketplace_sale')),
+  entity_id INTEGER NOT NULL,
+  -- Who the transaction was sent for, e.g. a Vibe's creator or a payout's recipient.
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- The service account's sequence number it was signed with. Unknown for transactions
+  -- sent before they were tracked.
+  sequence_number BIGINT,
+  -- Known once the transaction is committed.
+  gas_used BIGINT,
+  -- 'expired' transactions were never committed and never can be.
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'success', 'failed', 'expired')),
+  expires_at TIMESTAMPTZ,
+  committed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chain_transactions_pending ON chain_transactions (updated_at) WHERE status = 'pending';
+CREATE INDEX idx_chain_transactions_user_id ON chain_transactions (user_id, created_at DESC);
+CREATE INDEX idx_chain_transactions_entity ON chain_transactions (entity_type, entity_id);
+
+-- The transactions sent before tracking began, as far as their rows tell.
+INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, status, committed_at, created_at)
+SELECT tx_hash, 'vibe_mint', 'vibe', id, creator_id, 'success', created_at, created_at FROM vibes
+ON CONFLICT (tx_hash) DO NOTHING;
+
+INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, status, expires_at, committed_at, created_at)
+SELECT tx_hash, 'quest_reward', 'reward_payout', id, user_id, CASE WHEN status = 'sent' THEN 'success' ELSE 'pending' END,
+  tx_expires_at, sent_at, updated_at
+FROM reward_payouts WHERE tx_hash IS NOT NULL
+ON CONFLICT (tx_hash) DO NOTHING;
+
+INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, status, committed_at, created_at)
+SELECT tx_hash, 'marketplace_listing', 'marketplace_listing', id, seller_id, 'success', created_at, created_at FROM marketplace_listings
+ON CONFLICT (tx_hash) DO NOTHING;
+
+INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, status, committed_at, created_at)
+SELECT cancel_tx_hash, 'marketplace_cancellation', 'marketplace_listing', id, seller_id, 'success', updated_at, updated_at
+FROM marketplace_listings WHERE cancel_tx_hash IS NOT NULL
+ON CONFLICT (tx_hash) DO NOTHING;
+
+INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, status, expires_at, committed_at, created_at)
+SELECT tx_hash, 'marketplace_sale', 'marketplace_sale', id, buyer_id,
+  CASE status WHEN 'completed' THEN 'success' WHEN 'failed' THEN 'failed' ELSE 'pending' END,
+  tx_expires_at, completed_at, created_at
+FROM marketplace_sales
+ON CONFLICT (tx_hash) DO NOTHING;
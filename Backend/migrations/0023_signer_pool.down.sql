@@ -0,0 +1,5 @@
+DROP INDEX IF EXISTS idx_chain_transactions_sender;
+
+ALTER TABLE chain_transactions
+  DROP COLUMN IF EXISTS gas_unit_price,
+  DROP COLUMN IF EXISTS sender;
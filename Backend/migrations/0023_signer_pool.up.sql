@@ -0,0 +1,8 @@
+-- Transactions are signed by a pool of accounts, so each records which one sent it along
+-- with the gas price it offered. Resending a transaction offers more than the attempt
+-- before it. Both are unknown for transactions sent before they were recorded.
+ALTER TABLE chain_transactions
+  ADD COLUMN sender VARCHAR(66),
+  ADD COLUMN gas_unit_price BIGINT;
+
+CREATE INDEX idx_chain_transactions_sender ON chain_transactions (sender, sequence_number);
@@ -0,0 +1,70 @@
+-- Takes back what the up migration and the treasury transfers since moved, so balances keep
+-- matching their ledgers. Refuses to run once that money has been spent.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM (SELECT user_id, SUM(amount) AS total FROM wallet_transactions WHERE transaction_type = 'treasury_transfer' GROUP BY user_id) transfers
+    JOIN users u ON u.id = transfers.user_id
+    WHERE u.wallet_balance < transfers.total
+  ) THEN
+    RAISE EXCEPTION 'Cannot revert 0024: wallets have already spent treasury transfers credited to them.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT t.group_id, SUM(t.amount) AS total FROM treasury_transactions t
+      JOIN quests q ON q.id = t.quest_id
+      WHERE t.transaction_type = 'deposit' AND t.description LIKE 'Refund of the reward pool of quest %'
+      GROUP BY t.group_id
+    ) refunds
+    JOIN feed_groups fg ON fg.id = refunds.group_id
+    WHERE fg.treasury_balance < refunds.total
+  ) THEN
+    RAISE EXCEPTION 'Cannot revert 0024: treasuries have already spent the reward pools refunded to them.';
+  END IF;
+END $$;
+
+UPDATE users u
+SET wallet_balance = u.wallet_balance - transfers.total
+FROM (SELECT user_id, SUM(amount) AS total FROM wallet_transactions WHERE transaction_type = 'treasury_transfer' GROUP BY user_id) transfers
+WHERE u.id = transfers.user_id;
+
+DELETE FROM wallet_transactions WHERE transaction_type = 'treasury_transfer';
+
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN (
+      'deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout',
+      'purchase_escrow', 'purchase_refund', 'sale_proceeds', 'royalty',
+      'bid_escrow', 'bid_refund'
+    ));
+
+-- The up migration's refunds are the treasury deposits it described as such.
+ALTER TABLE quests
+  ADD COLUMN reward_pool NUMERIC NOT NULL DEFAULT 0 CHECK (reward_pool >= 0);
+
+UPDATE quests q
+SET reward_pool = refunds.total
+FROM (
+  SELECT quest_id, SUM(amount) AS total FROM treasury_transactions
+  WHERE transaction_type = 'deposit' AND description LIKE 'Refund of the reward pool of quest %' AND quest_id IS NOT NULL
+  GROUP BY quest_id
+) refunds
+WHERE q.id = refunds.quest_id;
+
+UPDATE feed_groups fg
+SET treasury_balance = fg.treasury_balance - refunds.total
+FROM (
+  SELECT t.group_id, SUM(t.amount) AS total FROM treasury_transactions t
+  JOIN quests q ON q.id = t.quest_id
+  WHERE t.transaction_type = 'deposit' AND t.description LIKE 'Refund of the reward pool of quest %'
+  GROUP BY t.group_id
+) refunds
+WHERE fg.id = refunds.group_id;
+
+DELETE FROM treasury_transactions t
+USING quests q
+WHERE q.id = t.quest_id AND t.transaction_type = 'deposit' AND t.description LIKE 'Refund of the reward pool of quest %';
@@ -0,0 +1,23 @@
+-- Treasury transfers are credited to the recipient's wallet, and quest funding tops up the
+-- quest's reward escrow instead of a reward_pool nothing paid out of.
+ALTER TABLE wallet_transactions
+  DROP CONSTRAINT wallet_transactions_transaction_type_check,
+  ADD CONSTRAINT wallet_transactions_transaction_type_check
+    CHECK (transaction_type IN (
+      'deposit', 'escrow_lock', 'escrow_refund', 'boost', 'boost_payout',
+      'purchase_escrow', 'purchase_refund', 'sale_proceeds', 'royalty',
+      'bid_escrow', 'bid_refund', 'treasury_transfer'
+    ));
+
+-- What was sent to reward pools goes back to the treasuries it came from.
+INSERT INTO treasury_transactions (group_id, user_id, transaction_type, amount, description, quest_id)
+SELECT q.group_id, q.creator_id, 'deposit', q.reward_pool, 'Refund of the reward pool of quest "' || q.title || '"', q.id
+FROM quests q
+WHERE q.reward_pool > 0;
+
+UPDATE feed_groups fg
+SET treasury_balance = fg.treasury_balance + pools.total
+FROM (SELECT group_id, SUM(reward_pool) AS total FROM quests WHERE reward_pool > 0 GROUP BY group_id) pools
+WHERE fg.id = pools.group_id;
+
+ALTER TABLE quests DROP COLUMN reward_pool;
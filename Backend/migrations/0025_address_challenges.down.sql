@@ -0,0 +1,3 @@
+ALTER TABLE users DROP COLUMN IF EXISTS aptos_address_verified_at;
+
+DROP TABLE IF EXISTS address_challenges;
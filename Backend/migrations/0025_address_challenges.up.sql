@@ -0,0 +1,14 @@
+-- Members link an Aptos address by signing a one-time nonce with its key. Addresses set
+-- before then are unproven: they still receive rewards and purchases, but cannot list
+-- Vibes or weigh token votes until verified.
+CREATE TABLE address_challenges (
+  nonce VARCHAR(64) PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  address VARCHAR(66) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_address_challenges_user ON address_challenges (user_id);
+
+ALTER TABLE users ADD COLUMN aptos_address_verified_at TIMESTAMPTZ;
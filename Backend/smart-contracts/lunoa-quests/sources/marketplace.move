@@ -0,0 +1,203 @@
+// Lunoa Vibe Marketplace Smart Contract
+//
+// This contract records fixed-price listings of Vibe NFTs and moves a sold NFT
+// to its buyer. Listings are created, cancelled and sold by the platform's
+// operator account, which holds the buyer's payment in escrow off-chain until
+// the sale is committed here. Auctions are listings whose bidding happens
+// off-chain; the winning bid completes them at its price.
+
+module LunoaQuests::marketplace {
+    #[test_only]
+    friend LunoaQuests::marketplace_tests;
+    use std::string::{Self, String};
+    use std::signer;
+    use aptos_framework::account;
+    use aptos_framework::event;
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::table::{Self, Table};
+    use LunoaQuests::vibe_nft::{Self, VibeNft};
+
+    /// Only the operator may manage listings
+    const ENOT_OPERATOR: u64 = 1;
+    /// The listing does not exist
+    const ELISTING_NOT_FOUND: u64 = 2;
+    /// The listing is not active
+    const ELISTING_NOT_ACTIVE: u64 = 3;
+    /// The seller does not own the token
+    const ENOT_TOKEN_OWNER: u64 = 4;
+    /// The token was minted before Vibes could be traded
+    const ENOT_TRADABLE: u64 = 5;
+    /// The price must be positive
+    const EINVALID_PRICE: u64 = 6;
+    /// The seller cannot buy their own listing
+    const ESELLER_CANNOT_BUY: u64 = 7;
+    /// An auction cannot sell below its listed starting price
+    const EPRICE_TOO_LOW: u64 = 8;
+
+    /// A fixed-price listing of a Vibe NFT.
+    struct Listing has store, drop {
+        token: Object<VibeNft>,
+        seller: address,
+        price: u64,
+        status: String, // "active", "sold", "cancelled"
+    }
+
+    /// Resource to store all listings in a central table.
+    struct Marketplace has key {
+        operator: address,
+        listings: Table<u64, Listing>,
+        next_listing_id: u64,
+        listing_created_events: event::EventHandle<ListingCreatedEvent>,
+        listing_cancelled_events: event::EventHandle<ListingCancelledEvent>,
+        listing_sold_events: event::EventHandle<ListingSoldEvent>,
+    }
+
+    /// Event emitted when a Vibe NFT is listed for sale.
+    struct ListingCreatedEvent has store, drop {
+        listing_id: u64,
+        token: address,
+        seller: address,
+        price: u64,
+    }
+
+    /// Event emitted when a listing is withdrawn.
+    struct ListingCancelledEvent has store, drop {
+        listing_id: u64,
+        token: address,
+        seller: address,
+    }
+
+    /// Event emitted when a listed Vibe NFT is sold and moved to its buyer.
+    struct ListingSoldEvent has store, drop {
+        listing_id: u64,
+        token: address,
+        seller: address,
+        buyer: address,
+        price: u64,
+    }
+
+    /// The module initializer is called once when the module is published.
+    /// It creates the central Marketplace resource, operated by the publisher.
+    fun init_module(sender: &signer) {
+        move_to(sender, Marketplace {
+            operator: signer::address_of(sender),
+            listings: table::new(),
+            next_listing_id: 0,
+            listing_created_events: account::new_event_handle<ListingCreatedEvent>(sender),
+            listing_cancelled_events: account::new_event_handle<ListingCancelledEvent>(sender),
+            listing_sold_events: account::new_event_handle<ListingSoldEvent>(sender),
+        });
+    }
+
+    fun borrow_operated(operator: &signer): &mut Marketplace acquires Marketplace {
+        let marketplace = borrow_global_mut<Marketplace>(@LunoaQuests);
+        assert!(signer::address_of(operator) == marketplace.operator, ENOT_OPERATOR);
+        marketplace
+    }
+
+    /// Lists a Vibe NFT owned by the seller at a fixed price.
+    public entry fun create_listing(operator: &signer, token: Object<VibeNft>, seller: address, price: u64) acquires Marketplace {
+        let marketplace = borrow_operated(operator);
+
+        assert!(price > 0, EINVALID_PRICE);
+        assert!(object::is_owner(token, seller), ENOT_TOKEN_OWNER);
+        assert!(vibe_nft::is_tradable(token), ENOT_TRADABLE);
+
+        let listing_id = marketplace.next_listing_id;
+        table::add(&mut marketplace.listings, listing_id, Listing {
+            token: token,
+            seller: seller,
+            price: price,
+            status: string::utf8(b"active"),
+        });
+        marketplace.next_listing_id = marketplace.next_listing_id + 1;
+
+        event::emit_event(
+            &mut marketplace.listing_created_events,
+            ListingCreatedEvent {
+                listing_id: listing_id,
+                token: object::object_address(&token),
+                seller: seller,
+                price: price,
+            }
+        );
+    }
+
+    /// Withdraws an active listing.
+    public entry fun cancel_listing(operator: &signer, listing_id: u64) acquires Marketplace {
+        let marketplace = borrow_operated(operator);
+        assert!(table::contains(&marketplace.listings, listing_id), ELISTING_NOT_FOUND);
+
+        let listing = table::borrow_mut(&mut marketplace.listings, listing_id);
+        assert!(listing.status == string::utf8(b"active"), ELISTING_NOT_ACTIVE);
+        listing.status = string::utf8(b"cancelled");
+
+        event::emit_event(
+            &mut marketplace.listing_cancelled_events,
+            ListingCancelledEvent {
+                listing_id: listing_id,
+                token: object::object_address(&listing.token),
+                seller: listing.seller,
+            }
+        );
+    }
+
+    /// Completes the sale of an active listing by moving the NFT to the buyer.
+    /// The operator has taken the buyer's payment into escrow before sending this.
+    public entry fun complete_sale(operator: &signer, listing_id: u64, buyer: address) acquires Marketplace {
+        let marketplace = borrow_operated(operator);
+        sell(marketplace, listing_id, buyer);
+    }
+
+    /// Completes an auction of an active listing at its winning bid, which cannot be
+    /// below the starting price the listing was created at. The operator has held the
+    /// winning bid in escrow since it was placed.
+    public entry fun complete_auction_sale(operator: &signer, listing_id: u64, buyer: address, price: u64) acquires Marketplace {
+        let marketplace = borrow_operated(operator);
+        assert!(table::contains(&marketplace.listings, listing_id), ELISTING_NOT_FOUND);
+
+        let listing = table::borrow_mut(&mut marketplace.listings, listing_id);
+        assert!(price >= listing.price, EPRICE_TOO_LOW);
+        listing.price = price;
+        sell(marketplace, listing_id, buyer);
+    }
+
+    fun sell(marketplace: &mut Marketplace, listing_id: u64, buyer: address) {
+        assert!(table::contains(&marketplace.listings, listing_id), ELISTING_NOT_FOUND);
+
+        let listing = table::borrow_mut(&mut marketplace.listings, listing_id);
+        assert!(listing.status == string::utf8(b"active"), ELISTING_NOT_ACTIVE);
+        assert!(listing.seller != buyer, ESELLER_CANNOT_BUY);
+        // The seller may have moved the NFT since listing it.
+        assert!(object::is_owner(listing.token, listing.seller), ENOT_TOKEN_OWNER);
+
+        vibe_nft::transfer(listing.token, buyer);
+        listing.status = string::utf8(b"sold");
+
+        event::emit_event(
+            &mut marketplace.listing_sold_events,
+            ListingSoldEvent {
+                listing_id: listing_id,
+                token: object::object_address(&listing.token),
+                seller: listing.seller,
+                buyer: buyer,
+                price: listing.price,
+            }
+        );
+    }
+
+    #[view]
+    /// A listing's token, seller, price and status.
+    public fun get_listing(listing_id: u64): (address, address, u64, String) acquires Marketplace {
+        let marketplace = borrow_global<Marketplace>(@LunoaQuests);
+        assert!(table::contains(&marketplace.listings, listing_id), ELISTING_NOT_FOUND);
+
+        let listing = table::borrow(&marketplace.listings, listing_id);
+        (object::object_address(&listing.token), listing.seller, listing.price, listing.status)
+    }
+
+    #[test_only]
+    public(friend) fun test_init(sender: &signer) {
+        init_module(sender)
+    }
+}
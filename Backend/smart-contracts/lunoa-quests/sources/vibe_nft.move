@@ -9,9 +9,11 @@
 // following the Aptos Object model.
 
 module LunoaQuests::vibe_nft {
+    friend LunoaQuests::marketplace;
+
     use std::string::String;
     use std::signer;
-    use aptos_framework::object::{Self, Object};
+    use aptos_framework::object::{Self, Object, TransferRef};
     use aptos_token_objects::collection;
     use aptos_token_objects::royalty;
     use aptos_token_objects::token;
@@ -19,6 +21,8 @@ module LunoaQuests::vibe_nft {
 
     /// The collection does not exist
     const ECOLLECTION_DOES_NOT_EXIST: u64 = 1;
+    /// The token was minted before Vibes could be traded
+    const ENOT_TRADABLE: u64 = 2;
 
     #[resource_group_member(group = aptos_framework::object::ObjectGroup)]
     /// Represents a collection of Vibe NFTs.
@@ -28,18 +32,49 @@ module LunoaQuests::vibe_nft {
     /// Represents a single Vibe NFT.
     struct VibeNft has key {}
 
+    #[resource_group_member(group = aptos_framework::object::ObjectGroup)]
+    /// Lets the marketplace move a Vibe NFT to its buyer. Kept apart from VibeNft so
+    /// tokens minted before it existed stay valid; those cannot be traded.
+    struct VibeTransferRef has key {
+        transfer_ref: TransferRef,
+    }
+
     /// Create a new collection for Vibe NFTs.
     public entry fun create_vibe_collection(
         creator: &signer,
         description: String,
         name: String,
         uri: String,
+    ) {
+        create_collection(creator, description, name, uri, option::none<royalty::Royalty>());
+    }
+
+    /// Create a new collection for Vibe NFTs whose sales pay a royalty of
+    /// royalty_numerator / royalty_denominator of the price.
+    public entry fun create_vibe_collection_with_royalty(
+        creator: &signer,
+        description: String,
+        name: String,
+        uri: String,
+        royalty_numerator: u64,
+        royalty_denominator: u64,
+    ) {
+        let royalty = royalty::create(royalty_numerator, royalty_denominator, signer::address_of(creator));
+        create_collection(creator, description, name, uri, option::some(royalty));
+    }
+
+    fun create_collection(
+        creator: &signer,
+        description: String,
+        name: String,
+        uri: String,
+        royalty: option::Option<royalty::Royalty>,
     ) {
         let constructor_ref = collection::create_unlimited_collection(
             creator,
             description,
             name,
-            option::none<royalty::Royalty>(),
+            royalty,
             uri,
         );
         let collection_signer = object::generate_signer(&constructor_ref);
@@ -55,6 +90,17 @@ module LunoaQuests::vibe_nft {
         uri: String,
         recipient: address,
     ) {
+        mint(creator, collection_name, description, name, uri, recipient);
+    }
+
+    fun mint(
+        creator: &signer,
+        collection_name: String,
+        description: String,
+        name: String,
+        uri: String,
+        recipient: address,
+    ): Object<VibeNft> {
         let creator_addr = signer::address_of(creator);
         let collection_object_addr = collection::create_collection_address(&creator_addr, &collection_name);
         assert!(exists<VibeCollection>(collection_object_addr), ECOLLECTION_DOES_NOT_EXIST);
@@ -68,12 +114,55 @@ module LunoaQuests::vibe_nft {
             uri,
         );
 
-        // Attach our VibeNft resource to the token object
+        // Attach our VibeNft resource to the token object, with the ref the marketplace moves it by
         let token_signer = object::generate_signer(&token_constructor_ref);
         move_to(&token_signer, VibeNft {});
+        move_to(&token_signer, VibeTransferRef {
+            transfer_ref: object::generate_transfer_ref(&token_constructor_ref),
+        });
 
         // Transfer the token to the recipient
         let token_object: Object<VibeNft> = object::object_from_constructor_ref(&token_constructor_ref);
         object::transfer(creator, token_object, recipient);
+        token_object
+    }
+
+    #[view]
+    /// The royalty a collection's sales pay, as (numerator, denominator); (0, 1) if it has none.
+    public fun collection_royalty(creator: address, collection_name: String): (u64, u64) {
+        let collection_addr = collection::create_collection_address(&creator, &collection_name);
+        assert!(exists<VibeCollection>(collection_addr), ECOLLECTION_DOES_NOT_EXIST);
+
+        let maybe_royalty = royalty::get(object::address_to_object<VibeCollection>(collection_addr));
+        if (option::is_none(&maybe_royalty)) {
+            return (0, 1)
+        };
+        let royalty = option::extract(&mut maybe_royalty);
+        (royalty::numerator(&royalty), royalty::denominator(&royalty))
+    }
+
+    /// Whether a Vibe NFT can be moved by the marketplace.
+    public fun is_tradable(token: Object<VibeNft>): bool {
+        exists<VibeTransferRef>(object::object_address(&token))
+    }
+
+    /// Moves a Vibe NFT to a new owner on behalf of the marketplace, which has checked the sale.
+    public(friend) fun transfer(token: Object<VibeNft>, to: address) acquires VibeTransferRef {
+        let token_addr = object::object_address(&token);
+        assert!(exists<VibeTransferRef>(token_addr), ENOT_TRADABLE);
+
+        let refs = borrow_global<VibeTransferRef>(token_addr);
+        let linear_ref = object::generate_linear_transfer_ref(&refs.transfer_ref);
+        object::transfer_with_ref(linear_ref, to);
+    }
+
+    #[test_only]
+    public fun mint_for_test(
+        creator: &signer,
+        collection_name: String,
+        name: String,
+        recipient: address,
+    ): Object<VibeNft> {
+        mint(creator, collection_name, std::string::utf8(b"Test NFT Description"), name, std::string::utf8(b"https://example.com/nft"), recipient)
     }
 }
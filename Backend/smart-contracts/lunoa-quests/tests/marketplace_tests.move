@@ -0,0 +1,109 @@
+#[test_only]
+module LunoaQuests::marketplace_tests {
+    use std::signer;
+    use std::string::{Self, String};
+    use aptos_framework::account;
+    use aptos_framework::object::{Self, Object};
+    use LunoaQuests::marketplace;
+    use LunoaQuests::vibe_nft::{Self, VibeNft};
+
+    fun setup(contract_owner: &signer, seller: &signer, buyer: &signer): Object<VibeNft> {
+        account::create_account_for_test(signer::address_of(contract_owner));
+        account::create_account_for_test(signer::address_of(seller));
+        account::create_account_for_test(signer::address_of(buyer));
+        marketplace::test_init(contract_owner);
+
+        let collection_name = string::utf8(b"Test Collection");
+        vibe_nft::create_vibe_collection_with_royalty(
+            contract_owner,
+            string::utf8(b"Test Description"),
+            collection_name,
+            string::utf8(b"https://example.com/collection"),
+            5,
+            100,
+        );
+        vibe_nft::mint_for_test(contract_owner, collection_name, string::utf8(b"Test NFT"), signer::address_of(seller))
+    }
+
+    fun status(listing_id: u64): String {
+        let (_, _, _, status) = marketplace::get_listing(listing_id);
+        status
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    fun test_sale_moves_token_to_buyer(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+        let buyer_addr = signer::address_of(buyer);
+
+        marketplace::create_listing(contract_owner, token, signer::address_of(seller), 1000);
+        let (token_addr, listed_by, price, _) = marketplace::get_listing(0);
+        assert!(token_addr == object::object_address(&token), 1);
+        assert!(listed_by == signer::address_of(seller), 2);
+        assert!(price == 1000, 3);
+
+        marketplace::complete_sale(contract_owner, 0, buyer_addr);
+
+        assert!(object::owner(token) == buyer_addr, 4);
+        assert!(status(0) == string::utf8(b"sold"), 5);
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    fun test_cancel_listing(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+
+        marketplace::create_listing(contract_owner, token, signer::address_of(seller), 1000);
+        marketplace::cancel_listing(contract_owner, 0);
+
+        assert!(status(0) == string::utf8(b"cancelled"), 1);
+        assert!(object::owner(token) == signer::address_of(seller), 2);
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    #[expected_failure(abort_code = 3, location = LunoaQuests::marketplace)] // ELISTING_NOT_ACTIVE
+    fun test_cannot_buy_cancelled_listing(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+
+        marketplace::create_listing(contract_owner, token, signer::address_of(seller), 1000);
+        marketplace::cancel_listing(contract_owner, 0);
+        marketplace::complete_sale(contract_owner, 0, signer::address_of(buyer));
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    #[expected_failure(abort_code = 4, location = LunoaQuests::marketplace)] // ENOT_TOKEN_OWNER
+    fun test_cannot_list_token_of_someone_else(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+
+        marketplace::create_listing(contract_owner, token, signer::address_of(buyer), 1000);
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    #[expected_failure(abort_code = 1, location = LunoaQuests::marketplace)] // ENOT_OPERATOR
+    fun test_only_operator_can_list(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+
+        marketplace::create_listing(seller, token, signer::address_of(seller), 1000);
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    fun test_auction_sale_records_winning_bid(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+        let buyer_addr = signer::address_of(buyer);
+
+        marketplace::create_listing(contract_owner, token, signer::address_of(seller), 1000);
+        marketplace::complete_auction_sale(contract_owner, 0, buyer_addr, 1500);
+
+        let (_, _, price, status) = marketplace::get_listing(0);
+        assert!(price == 1500, 1);
+        assert!(status == string::utf8(b"sold"), 2);
+        assert!(object::owner(token) == buyer_addr, 3);
+    }
+
+    #[test(contract_owner = @LunoaQuests, seller = @0x123, buyer = @0x456)]
+    #[expected_failure(abort_code = 8, location = LunoaQuests::marketplace)] // EPRICE_TOO_LOW
+    fun test_auction_cannot_sell_below_starting_price(contract_owner: &signer, seller: &signer, buyer: &signer) {
+        let token = setup(contract_owner, seller, buyer);
+
+        marketplace::create_listing(contract_owner, token, signer::address_of(seller), 1000);
+        marketplace::complete_auction_sale(contract_owner, 0, signer::address_of(buyer), 999);
+    }
+}
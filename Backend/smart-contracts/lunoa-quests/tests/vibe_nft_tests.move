@@ -63,4 +63,32 @@ module LunoaQuests::vibe_nft_tests {
 
         assert!(object::owner(token_obj) == recipient_addr, 1);
     }
+
+    #[test(creator = @0x123)]
+    fun test_collection_royalty(creator: &signer) {
+        let creator_addr = signer::address_of(creator);
+        account::create_account_for_test(creator_addr);
+
+        let plain_name = string::utf8(b"Plain Collection");
+        let royalty_name = string::utf8(b"Royalty Collection");
+        vibe_nft::create_vibe_collection(
+            creator,
+            string::utf8(b"Test Description"),
+            plain_name,
+            string::utf8(b"https://example.com/collection"),
+        );
+        vibe_nft::create_vibe_collection_with_royalty(
+            creator,
+            string::utf8(b"Test Description"),
+            royalty_name,
+            string::utf8(b"https://example.com/collection"),
+            5,
+            100,
+        );
+
+        let (numerator, denominator) = vibe_nft::collection_royalty(creator_addr, plain_name);
+        assert!(numerator == 0 && denominator == 1, 1);
+        let (numerator, denominator) = vibe_nft::collection_royalty(creator_addr, royalty_name);
+        assert!(numerator == 5 && denominator == 100, 2);
+    }
 }
@@ -0,0 +1,180 @@
+import request from 'supertest';
+import { Request, Response, NextFunction } from 'express';
+import { getPool } from '../../../config/database';
+import { loadConfig, setConfig } from '../../../config/index';
+import { protect } from '../../../middleware/auth.middleware';
+import swaggerSpec from '../../../config/swagger';
+import { app } from '../../../app';
+
+// --- Mock Dependencies ---
+jest.mock('../../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+jest.mock('../../../middleware/auth.middleware');
+// --- End Mock Dependencies ---
+
+const mockedGetPool = getPool as jest.Mock;
+const mockedProtect = protect as jest.Mock;
+
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery, release: jest.fn() };
+const mockPool = { query: mockQuery, connect: jest.fn().mockResolvedValue(mockClient) };
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+interface DocumentedRoute {
+  method: typeof HTTP_METHODS[number];
+  path: string;
+  secured: boolean;
+}
+
+const documentedRoutes: DocumentedRoute[] = Object.entries((swaggerSpec as any).paths as Record<string, any>)
+  .flatMap(([path, operations]) => HTTP_METHODS
+    .filter((method) => operations[method])
+    .map((method) => ({ method, path, secured: Boolean(operations[method].security?.length) })));
+
+// Swagger path templates use {param}; substitute a value every route accepts.
+const toUrl = (path: string) => path.replace(/\{[^}]+\}/g, '1');
+
+// Express answers unmatched routes with its own HTML 404 page, never JSON.
+const isUnrouted = (res: request.Response) => res.status === 404 && !res.headers['content-type']?.includes('application/json');
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockedGetPool.mockReturnValue(mockPool);
+  mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+  mockedProtect.mockImplementation((req: Request, res: Response) => {
+    res.status(401).json({ message: 'Not authorized, no token' });
+  });
+});
+
+describe('API contract - every Swagger path is routed', () => {
+  it('should document at least the quest, proposal and treasury discovery routes', () => {
+    const paths = documentedRoutes.map((route) => `${route.method.toUpperCase()} ${route.path}`);
+    expect(paths).toEqual(expect.arrayContaining([
+      'GET /api/v1/quests',
+      'GET /api/v1/proposals',
+      'GET /api/v1/treasury',
+      'GET /api/v1/feed-groups/{groupId}/quests',
+    ]));
+  });
+
+  it.each(documentedRoutes.map((route) => [route.method.toUpperCase(), route.path, route] as const))(
+    '%s %s is mounted',
+    async (_method, path, route) => {
+      const res = await request(app)[route.method](toUrl(path)).send({});
+
+      expect(isUnrouted(res)).toBe(false);
+      if (route.secured) {
+        expect(res.status).toBe(401);
+      }
+    }
+  );
+});
+
+describe('API contract - nested group routes receive :groupId', () => {
+  beforeEach(() => {
+    mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+      req.user = { userId: 'user-1' };
+      next();
+    });
+  });
+
+  it.each([
+    ['/api/v1/feed-groups/42/quests'],
+    ['/api/v1/feed-groups/42/treasury'],
+  ])('GET %s checks membership of group 42', async (url) => {
+    const res = await request(app).get(url);
+
+    expect(res.status).toBe(403);
+    expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('feed_group_members'), [42, 'user-1']);
+  });
+
+  it('POST /api/v1/feed-groups/42/proposals looks up group 42', async () => {
+    const res = await request(app)
+      .post('/api/v1/feed-groups/42/proposals')
+      .send({ title: 'Fund the picnic', description: 'Use treasury funds', durationDays: 3 });
+
+    expect(res.status).toBe(404);
+    expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM feed_groups'), [42]);
+  });
+});
+
+describe('API contract - malformed proposal input answers 400', () => {
+  beforeEach(() => {
+    mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+      req.user = { userId: 'user-1' };
+      next();
+    });
+  });
+
+  it.each([[-3], ['abc'], [1.5], [1.5e9]])('POST /api/v1/feed-groups/42/proposals rejects a duration of %p days', async (durationDays) => {
+    const res = await request(app)
+      .post('/api/v1/feed-groups/42/proposals')
+      .send({ title: 'Fund the picnic', description: 'Use treasury funds', durationDays });
+
+    expect(res.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['/api/v1/feed-groups/abc/proposals/7/vote'],
+    ['/api/v1/feed-groups/42/proposals/abc/vote'],
+  ])('POST %s rejects the non-numeric ID', async (url) => {
+    const res = await request(app).post(url).send({ voteOption: true });
+
+    expect(res.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('API contract - admin-only routes', () => {
+  beforeEach(() => {
+    mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+      req.user = { userId: 'user-1' };
+      next();
+    });
+  });
+
+  it('POST /api/v1/wallet/deposit credits nothing for a member who is not an admin', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ is_admin: false }] });
+
+    const res = await request(app).post('/api/v1/wallet/deposit').send({ amount: 1000 });
+
+    expect(res.status).toBe(403);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('is_admin'), ['user-1']);
+  });
+});
+
+describe('API contract - disabled features answer 503', () => {
+  beforeEach(() => {
+    setConfig(loadConfig({ NODE_ENV: 'test', ENABLE_BLOCKCHAIN: 'false', ENABLE_IPFS: 'false' }));
+    mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+      req.user = { userId: 'user-1' };
+      next();
+    });
+  });
+
+  afterAll(() => {
+    setConfig(undefined);
+  });
+
+  it.each([
+    ['/api/v1/media/upload'],
+    ['/api/v1/vibes'],
+  ])('POST %s', async (url) => {
+    const res = await request(app).post(url).send({});
+
+    expect(res.status).toBe(503);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('POST /api/v1/feed-groups/42/proposals rejects token-weighted votes', async () => {
+    const res = await request(app)
+      .post('/api/v1/feed-groups/42/proposals')
+      .send({ title: 'Fund the picnic', description: 'Use treasury funds', durationDays: 3, voteWeighting: 'token' });
+
+    expect(res.status).toBe(503);
+  });
+});
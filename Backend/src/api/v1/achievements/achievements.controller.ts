@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import * as achievementsService from '../../../services/achievements.service';
+import logger from '../../../config/logger';
+import { achievementSchema, updateAchievementSchema } from './achievements.model';
+
+const parseAchievementId = (id: string) => {
+  const achievementId = parseInt(id, 10);
+  return isNaN(achievementId) || achievementId < 1 ? null : achievementId;
+};
+
+/**
+ * @route   GET /api/v1/achievements
+ * @desc    List every achievement with its rule and how many users hold it
+ * @access  Public
+ */
+export const getAchievements = async (req: Request, res: Response) => {
+  try {
+    const achievements = await achievementsService.listAchievements();
+    res.status(200).json(achievements);
+  } catch (error) {
+    logger.error('Error fetching achievements:', error);
+    res.status(500).json({ message: 'Failed to fetch achievements.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/achievements
+ * @desc    Define an achievement
+ * @access  Admin
+ */
+export const createAchievement = async (req: Request, res: Response) => {
+  const { error, value } = achievementSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const achievement = await achievementsService.createAchievement(value);
+    logger.info(`Achievement "${achievement.name}" defined by admin ${req.user?.userId}.`);
+    res.status(201).json(achievement);
+  } catch (error: any) {
+    if (error.message === 'ACHIEVEMENT_NAME_TAKEN') {
+      return res.status(409).json({ message: 'An achievement with this name already exists.' });
+    }
+    logger.error('Error creating achievement:', error);
+    res.status(500).json({ message: 'Failed to create achievement.' });
+  }
+};
+
+/**
+ * @route   PATCH /api/v1/achievements/:id
+ * @desc    Change an achievement's definition
+ * @access  Admin
+ */
+export const updateAchievement = async (req: Request, res: Response) => {
+  const achievementId = parseAchievementId(req.params.id);
+  if (!achievementId) {
+    return res.status(400).json({ message: 'Invalid achievement ID.' });
+  }
+
+  const { error, value } = updateAchievementSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const achievement = await achievementsService.updateAchievement(achievementId, value);
+    if (!achievement) {
+      return res.status(404).json({ message: 'Achievement not found.' });
+    }
+    res.status(200).json(achievement);
+  } catch (error: any) {
+    if (error.message === 'ACHIEVEMENT_NAME_TAKEN') {
+      return res.status(409).json({ message: 'An achievement with this name already exists.' });
+    }
+    logger.error(`Error updating achievement ${achievementId}:`, error);
+    res.status(500).json({ message: 'Failed to update achievement.' });
+  }
+};
+
+/**
+ * @route   DELETE /api/v1/achievements/:id
+ * @desc    Delete an achievement, taking it from everyone who holds it
+ * @access  Admin
+ */
+export const deleteAchievement = async (req: Request, res: Response) => {
+  const achievementId = parseAchievementId(req.params.id);
+  if (!achievementId) {
+    return res.status(400).json({ message: 'Invalid achievement ID.' });
+  }
+
+  try {
+    const deleted = await achievementsService.deleteAchievement(achievementId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Achievement not found.' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    logger.error(`Error deleting achievement ${achievementId}:`, error);
+    res.status(500).json({ message: 'Failed to delete achievement.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/achievements/:id/backfill
+ * @desc    Award an achievement to every user whose past activities earn it
+ * @access  Admin
+ */
+export const backfillAchievement = async (req: Request, res: Response) => {
+  const achievementId = parseAchievementId(req.params.id);
+  if (!achievementId) {
+    return res.status(400).json({ message: 'Invalid achievement ID.' });
+  }
+
+  try {
+    const awards = await achievementsService.backfillAchievements(achievementId);
+    res.status(200).json({ awarded: awards.length });
+  } catch (error) {
+    logger.error(`Error backfilling achievement ${achievementId}:`, error);
+    res.status(500).json({ message: 'Failed to backfill achievement.' });
+  }
+};
@@ -0,0 +1,25 @@
+import Joi from 'joi';
+import { ACTIVITY_TYPES } from '../../../services/achievements.service';
+
+const ruleSchema = Joi.object({
+  activity: Joi.string().valid(...ACTIVITY_TYPES).required(),
+  threshold: Joi.number().integer().min(1).required(),
+  // A metadata key, e.g. groupId or followingId.
+  distinct: Joi.string().pattern(/^\w+$/).max(50),
+  where: Joi.object().pattern(/^\w+$/, Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean())).min(1),
+});
+
+const achievementKeys = {
+  name: Joi.string().trim().min(3).max(100),
+  description: Joi.string().max(500).allow(null, ''),
+  icon_url: Joi.string().uri().allow(null),
+  // Null for achievements only ever awarded by hand.
+  rule: ruleSchema.allow(null),
+};
+
+export const achievementSchema = Joi.object({
+  ...achievementKeys,
+  name: achievementKeys.name.required(),
+});
+
+export const updateAchievementSchema = Joi.object(achievementKeys).min(1);
@@ -0,0 +1,137 @@
+import { Router } from 'express';
+import { protect } from '../../../middleware/auth.middleware';
+import { requireAdmin } from '../../../middleware/requireAdmin';
+import { backfillAchievement, createAchievement, deleteAchievement, getAchievements, updateAchievement } from './achievements.controller';
+
+// Mounted under /api/v1/achievements.
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/achievements:
+ *   get:
+ *     summary: List every achievement
+ *     description: Each achievement has its rule, if it is awarded automatically, and the number of users who hold it.
+ *     tags: [Achievements]
+ *     responses:
+ *       200:
+ *         description: A list of achievements.
+ *   post:
+ *     summary: Define an achievement
+ *     description: >
+ *       Admins only. Users who already qualify under the rule are not awarded until the
+ *       achievement is backfilled.
+ *     tags: [Achievements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Achievement'
+ *     responses:
+ *       201:
+ *         description: Achievement defined.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ *       409:
+ *         description: An achievement with this name already exists.
+ */
+router.get('/', getAchievements);
+router.post('/', protect, requireAdmin, createAchievement);
+
+/**
+ * @swagger
+ * /api/v1/achievements/{id}:
+ *   patch:
+ *     summary: Change an achievement's definition
+ *     description: Admins only. Awards already made stand, even if the new rule would not have made them.
+ *     tags: [Achievements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the achievement.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Achievement'
+ *     responses:
+ *       200:
+ *         description: Achievement updated.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ *       404:
+ *         description: Achievement not found.
+ *       409:
+ *         description: An achievement with this name already exists.
+ *   delete:
+ *     summary: Delete an achievement
+ *     description: Admins only. Takes the achievement from everyone who holds it.
+ *     tags: [Achievements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the achievement.
+ *     responses:
+ *       204:
+ *         description: Achievement deleted.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ *       404:
+ *         description: Achievement not found.
+ */
+router.patch('/:id', protect, requireAdmin, updateAchievement);
+router.delete('/:id', protect, requireAdmin, deleteAchievement);
+
+/**
+ * @swagger
+ * /api/v1/achievements/{id}/backfill:
+ *   post:
+ *     summary: Award an achievement for past activity
+ *     description: >
+ *       Admins only. Awards the achievement to every user whose past activities meet its
+ *       rule and who does not hold it yet. Safe to repeat.
+ *     tags: [Achievements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the achievement.
+ *     responses:
+ *       200:
+ *         description: How many users were newly awarded the achievement.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ */
+router.post('/:id/backfill', protect, requireAdmin, backfillAchievement);
+
+export default router;
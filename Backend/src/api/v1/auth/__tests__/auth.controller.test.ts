@@ -30,22 +30,14 @@ describe('Auth Controller - PUT /profile', () => {
     mockQuery.mockClear();
   });
 
-  it('should update user profile with a valid aptosAddress', async () => {
-    const mockAptosAddress = '0x' + 'a'.repeat(64);
-
-    // Mock the database query for the update
-    mockQuery.mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 });
-
+  it('should not link an aptosAddress, which must be proven through its challenge', async () => {
     const response = await request(app)
       .put('/profile') // Use the direct route
-      .send({ aptosAddress: mockAptosAddress });
-
-    expect(response.status).toBe(200);
-    expect(response.body.message).toBe('Profile updated successfully.');
-    expect(mockQuery).toHaveBeenCalledWith(
-      expect.stringContaining('UPDATE users SET aptos_address = $1'),
-      [mockAptosAddress, '1']
-    );
+      .send({ aptosAddress: '0x' + 'a'.repeat(64) });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('aptosAddress');
+    expect(mockQuery).not.toHaveBeenCalled();
   });
 
   it('should return 400 for an invalid aptosAddress', async () => {
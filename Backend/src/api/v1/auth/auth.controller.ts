@@ -4,6 +4,7 @@ import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { getPool } from '../../../config/database';
 import logger from '../../../config/logger';
+import * as addressVerificationService from '../../../services/addressVerification.service';
 
 const registerSchema = Joi.object({
   email: Joi.string().email().required(),
@@ -101,12 +102,6 @@ export const login = async (req: Request, res: Response) => {
   }
 };
 
-// Database schema requirement: 
-// The 'users' table must have a nullable, unique 'wallet_address' TEXT column.
-// The 'email' and 'password_hash' columns should also be nullable.
-
-
-
 const connectWalletSchema = Joi.object({
   walletAddress: Joi.string().required(),
   walletProvider: Joi.string().valid('petra', 'martian', 'other').required(),
@@ -122,7 +117,6 @@ export const connectWallet = async (req: Request, res: Response) => {
 
   try {
     // 3. Find or create user
-    // DB Schema Change Required: ALTER TABLE users ADD COLUMN wallet_provider VARCHAR(255);
     let userResult = await getPool().query('SELECT * FROM users WHERE wallet_address = $1', [walletAddress]);
     let user = userResult.rows[0];
 
@@ -216,7 +210,6 @@ const updateProfileSchema = Joi.object({
   avatarUrl: Joi.string().uri({ allowRelative: false }).allow('').optional(),
   website: Joi.string().uri({ allowRelative: false }).allow('').optional(),
   location: Joi.string().allow('').optional(),
-  aptosAddress: Joi.string().length(66).pattern(/^0x[a-fA-F0-9]{64}$/).optional(),
 }).min(1);
 
 export const updateProfile = async (req: Request, res: Response) => {
@@ -230,7 +223,7 @@ export const updateProfile = async (req: Request, res: Response) => {
     return res.status(400).json({ message: error.details[0].message });
   }
 
-  const { email, password, bio, avatarUrl, website, location, aptosAddress } = value;
+  const { email, password, bio, avatarUrl, website, location } = value;
 
   try {
     if (email) {
@@ -276,11 +269,6 @@ export const updateProfile = async (req: Request, res: Response) => {
       values.push(location);
     }
 
-    if (aptosAddress) {
-      updates.push(`aptos_address = $${queryIndex++}`);
-      values.push(aptosAddress);
-    }
-
     if (updates.length === 0) {
       return res.status(400).json({ message: 'No update fields provided.' });
     }
@@ -303,6 +291,80 @@ export const updateProfile = async (req: Request, res: Response) => {
   }
 };
 
+const APTOS_ADDRESS = Joi.string().length(66).pattern(/^0x[a-fA-F0-9]{64}$/);
+
+const addressChallengeSchema = Joi.object({
+  aptosAddress: APTOS_ADDRESS.required(),
+});
+
+/**
+ * @route   POST /api/v1/auth/address/challenge
+ * @desc    Issue a nonce the caller signs to prove they own an Aptos address
+ * @access  Private
+ */
+export const requestAddressChallenge = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized' });
+  }
+
+  const { error, value } = addressChallengeSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const challenge = await addressVerificationService.createAddressChallenge(userId, value.aptosAddress);
+    res.status(201).json(challenge);
+  } catch (err) {
+    logger.error(`Error issuing an address challenge for user ID ${userId}:`, err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+const addressProofSchema = Joi.object({
+  nonce: Joi.string().required(),
+  publicKey: Joi.string().required(),
+  signature: Joi.string().required(),
+  signedMessage: Joi.string().required(),
+});
+
+/**
+ * @route   POST /api/v1/auth/address/verify
+ * @desc    Link an Aptos address to the caller once they have signed its challenge
+ * @access  Private
+ */
+export const verifyAddress = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized' });
+  }
+
+  const { error, value } = addressProofSchema.validate(req.body);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const aptosAddress = await addressVerificationService.verifyAddressChallenge(userId, value);
+    res.status(200).json({ message: 'Aptos address verified.', aptosAddress });
+  } catch (err: any) {
+    switch (err.message) {
+      case 'CHALLENGE_NOT_FOUND':
+        return res.status(404).json({ message: 'Challenge not found. Request a new one.' });
+      case 'CHALLENGE_EXPIRED':
+        return res.status(400).json({ message: 'The challenge has expired. Request a new one.' });
+      case 'ADDRESS_MISMATCH':
+        return res.status(401).json({ message: 'The public key does not belong to the challenged address.' });
+      case 'INVALID_SIGNATURE':
+        return res.status(401).json({ message: 'Invalid signature.' });
+      default:
+        logger.error(`Error verifying an Aptos address for user ID ${userId}:`, err);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+  }
+};
+
 export const deleteProfile = async (req: Request, res: Response) => {
   const userId = req.user?.userId;
   if (!userId) {
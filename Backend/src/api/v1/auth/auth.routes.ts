@@ -1,5 +1,8 @@
 import { Router } from 'express';
-import { register, login, getProfile, updateProfile, deleteProfile, connectWallet, verifyToken, refreshToken, logout } from './auth.controller';
+import {
+  register, login, getProfile, updateProfile, deleteProfile, connectWallet, verifyToken, refreshToken, logout,
+  requestAddressChallenge, verifyAddress,
+} from './auth.controller';
 import { protect } from '../../../middleware/auth.middleware';
 import { verifyWalletSignature } from '../../../middleware/verifyWalletSignature';
 
@@ -254,6 +257,101 @@ router.route('/profile')
   .put(protect, updateProfile)
   .delete(protect, deleteProfile);
 
+/**
+ * @swagger
+ * /api/v1/auth/address/challenge:
+ *   post:
+ *     summary: Request a challenge to prove ownership of an Aptos address
+ *     description: >
+ *       Returns a one-time message for the caller's wallet to sign with the address's key,
+ *       valid for 10 minutes. Answer it with POST /api/v1/auth/address/verify to link the
+ *       address to the caller's profile.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - aptosAddress
+ *             properties:
+ *               aptosAddress:
+ *                 type: string
+ *                 pattern: '^0x[a-fA-F0-9]{64}$'
+ *     responses:
+ *       201:
+ *         description: The challenge.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 address:
+ *                   type: string
+ *                 nonce:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *                   description: The text to sign.
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid address.
+ *       401:
+ *         description: Not authorized.
+ */
+router.post('/address/challenge', protect, requestAddressChallenge);
+
+/**
+ * @swagger
+ * /api/v1/auth/address/verify:
+ *   post:
+ *     summary: Link an Aptos address by answering its challenge
+ *     description: >
+ *       The public key must be the Ed25519 key the address was derived from, and the
+ *       signed message must contain the challenge's message; wallets may wrap it in a
+ *       longer one. A challenge can be answered once. Only a verified address can list
+ *       Vibes on the marketplace or weigh token-weighted votes.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nonce
+ *               - publicKey
+ *               - signature
+ *               - signedMessage
+ *             properties:
+ *               nonce:
+ *                 type: string
+ *               publicKey:
+ *                 type: string
+ *               signature:
+ *                 type: string
+ *               signedMessage:
+ *                 type: string
+ *                 description: The exact text the wallet signed.
+ *     responses:
+ *       200:
+ *         description: The address is verified and linked to the caller.
+ *       400:
+ *         description: Invalid input data, or the challenge has expired.
+ *       401:
+ *         description: Not authorized, or the key or signature does not prove ownership.
+ *       404:
+ *         description: No such challenge of the caller's.
+ */
+router.post('/address/verify', protect, verifyAddress);
+
 
 
 
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import * as chainTransactionsService from '../../../services/chainTransactions.service';
+import * as signersService from '../../../services/signers.service';
+import logger from '../../../config/logger';
+import { transactionHashSchema, transactionsQuerySchema } from './blockchain.model';
+
+/**
+ * @route   GET /api/v1/blockchain/transaction/:hash
+ * @desc    Get a transaction the backend submitted for the caller, e.g. to follow a Vibe's mint
+ * @access  Private
+ */
+export const getTransaction = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value: hash } = transactionHashSchema.validate(req.params.hash);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const transaction = await chainTransactionsService.getTransactionByHash(hash, userId);
+    if (!transaction) {
+      return res.status(404).json({ message: 'Transaction not found.' });
+    }
+    res.status(200).json(transaction);
+  } catch (error) {
+    logger.error(`Error fetching transaction ${hash} for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch transaction.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/blockchain/transactions
+ * @desc    List the transactions the backend submitted for the caller, newest first
+ * @access  Private
+ */
+export const getMyTransactions = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = transactionsQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const transactions = await chainTransactionsService.getUserTransactions(userId, value);
+    res.status(200).json(transactions);
+  } catch (error) {
+    logger.error(`Error fetching transactions of user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch transactions.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/blockchain/signers
+ * @desc    Get the gas balance and sequence of every account transactions are signed with
+ * @access  Admin
+ */
+export const getSigners = async (req: Request, res: Response) => {
+  try {
+    const signers = await signersService.getSignerReports();
+    res.status(200).json(signers);
+  } catch (error) {
+    logger.error('Error fetching the signers:', error);
+    res.status(500).json({ message: 'Failed to fetch the signers.' });
+  }
+};
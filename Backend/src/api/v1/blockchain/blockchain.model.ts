@@ -0,0 +1,15 @@
+import Joi from 'joi';
+import { CHAIN_TRANSACTION_STATUSES, TRANSACTION_PURPOSES } from '../../../services/chainTransactions.service';
+
+export const MAX_TRANSACTIONS_PAGE = 100;
+
+export const transactionHashSchema = Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/).messages({
+  'string.pattern.base': 'Transaction hash must be 0x followed by 64 hex digits.',
+});
+
+export const transactionsQuerySchema = Joi.object({
+  purpose: Joi.string().valid(...TRANSACTION_PURPOSES),
+  status: Joi.string().valid(...CHAIN_TRANSACTION_STATUSES),
+  limit: Joi.number().integer().min(1).max(MAX_TRANSACTIONS_PAGE).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+});
@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { protect } from '../../../middleware/auth.middleware';
+import { requireAdmin } from '../../../middleware/requireAdmin';
+import { requireFeature } from '../../../middleware/requireFeature';
+import { getMyTransactions, getSigners, getTransaction } from './blockchain.controller';
+
+// Mounted under /api/v1/blockchain.
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/blockchain/transactions:
+ *   get:
+ *     summary: List the caller's transactions
+ *     description: >
+ *       Every transaction the backend submitted on-chain for the caller: their Vibe mints,
+ *       reward payouts, marketplace listings and purchases. pending transactions are
+ *       waiting to be committed; expired ones never were and never can be.
+ *     tags: [Blockchain]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: purpose
+ *         schema:
+ *           type: string
+ *           enum: [vibe_mint, quest_reward, marketplace_listing, marketplace_cancellation, marketplace_sale]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, success, failed, expired]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The caller's transactions, newest first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ChainTransaction'
+ *       400:
+ *         description: Invalid filter or page.
+ *       401:
+ *         description: Not authorized.
+ */
+router.get('/transactions', protect, getMyTransactions);
+
+/**
+ * @swagger
+ * /api/v1/blockchain/transaction/{hash}:
+ *   get:
+ *     summary: Get a transaction by its hash
+ *     description: >
+ *       Follows a transaction the backend submitted, e.g. the mint of a Vibe just created.
+ *       Users see the transactions sent for them; admins see every one.
+ *     tags: [Blockchain]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: hash
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[0-9a-fA-F]{64}$'
+ *     responses:
+ *       200:
+ *         description: The transaction.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChainTransaction'
+ *       400:
+ *         description: Invalid transaction hash.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Transaction not found.
+ */
+router.get('/transaction/:hash', protect, getTransaction);
+
+/**
+ * @swagger
+ * /api/v1/blockchain/signers:
+ *   get:
+ *     summary: Get the accounts transactions are signed with
+ *     description: >
+ *       The service account first, then the rest of the signer pool, with the APT each has
+ *       left for gas and where it is in its sequence. Admins are notified when one runs
+ *       below SIGNER_MIN_BALANCE.
+ *     tags: [Blockchain]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The signers.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Signer'
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ *       503:
+ *         description: Blockchain integration is disabled.
+ */
+router.get('/signers', protect, requireAdmin, requireFeature('blockchain'), getSigners);
+
+export default router;
@@ -2,12 +2,14 @@ import { Request, Response } from 'express';
 import * as feedGroupService from '../../../services/feedGroups.service';
 import logger from '../../../config/logger';
 
+const isPercent = (value: unknown, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+
 /**
  * Handles the creation of a new feed group.
  */
 export const createFeedGroup = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const creatorId = req.user?.id;
+  const creatorId = req.user?.userId;
 
   if (!creatorId) {
     return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
@@ -46,7 +48,7 @@ export const getAllFeedGroups = async (req: Request, res: Response) => {
  * Handles fetching a single feed group by its ID.
  */
 export const getFeedGroupById = async (req: Request, res: Response) => {
-  const { id } = req.params;
+  const { groupId: id } = req.params;
 
   try {
     const group = await feedGroupService.getGroupById(parseInt(id, 10));
@@ -66,15 +68,22 @@ export const getFeedGroupById = async (req: Request, res: Response) => {
  * Handles updating a feed group.
  */
 export const updateFeedGroup = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const userId = req.user?.id;
-  const { id } = req.params;
-  const { name, description } = req.body;
+  const userId = req.user?.userId;
+  const { groupId: id } = req.params;
+  const { name, description, proposalQuorumPercent, proposalPassThresholdPercent } = req.body;
 
   if (!userId) {
     return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
   }
 
+  if (proposalQuorumPercent !== undefined && !isPercent(proposalQuorumPercent, 100)) {
+    return res.status(400).json({ message: 'proposalQuorumPercent must be an integer between 0 and 100.' });
+  }
+
+  if (proposalPassThresholdPercent !== undefined && !isPercent(proposalPassThresholdPercent, 99)) {
+    return res.status(400).json({ message: 'proposalPassThresholdPercent must be an integer between 0 and 99.' });
+  }
+
   try {
     const existingGroup = await feedGroupService.getGroupById(parseInt(id, 10));
 
@@ -86,7 +95,12 @@ export const updateFeedGroup = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Forbidden: You are not the creator of this group.' });
     }
 
-    const updatedGroup = await feedGroupService.updateGroup(parseInt(id, 10), { name, description });
+    const updatedGroup = await feedGroupService.updateGroup(parseInt(id, 10), {
+      name,
+      description,
+      proposalQuorumPercent,
+      proposalPassThresholdPercent,
+    });
 
     res.status(200).json(updatedGroup);
   } catch (error) {
@@ -99,9 +113,8 @@ export const updateFeedGroup = async (req: Request, res: Response) => {
  * Handles deleting a feed group.
  */
 export const deleteFeedGroup = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const userId = req.user?.id;
-  const { id } = req.params;
+  const userId = req.user?.userId;
+  const { groupId: id } = req.params;
 
   if (!userId) {
     return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
@@ -131,9 +144,8 @@ export const deleteFeedGroup = async (req: Request, res: Response) => {
  * Handles a user joining a feed group.
  */
 export const joinFeedGroup = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const userId = req.user?.id;
-  const { id } = req.params;
+  const userId = req.user?.userId;
+  const { groupId: id } = req.params;
   const groupId = parseInt(id, 10);
 
   if (!userId) {
@@ -173,9 +185,8 @@ export const joinFeedGroup = async (req: Request, res: Response) => {
  * Handles a user leaving a feed group.
  */
 export const leaveFeedGroup = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const userId = req.user?.id;
-  const { id } = req.params;
+  const userId = req.user?.userId;
+  const { groupId: id } = req.params;
   const groupId = parseInt(id, 10);
 
   if (!userId) {
@@ -209,9 +220,8 @@ export const leaveFeedGroup = async (req: Request, res: Response) => {
  * Handles updating a member's role within a group.
  */
 export const updateMemberRole = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const requesterId = req.user?.id;
-  const { id: groupIdString, memberId: targetUserId } = req.params;
+  const requesterId = req.user?.userId;
+  const { groupId: groupIdString, memberId: targetUserId } = req.params;
   const { role: newRole } = req.body;
   const groupId = parseInt(groupIdString, 10);
 
@@ -255,7 +265,7 @@ export const updateMemberRole = async (req: Request, res: Response) => {
 };
 
 export const getFeedGroupMembers = async (req: Request, res: Response) => {
-  const { id } = req.params;
+  const { groupId: id } = req.params;
   const groupId = parseInt(id, 10);
 
   try {
@@ -4,80 +4,279 @@ import { protect } from '../../../middleware/auth.middleware';
 import proposalsRouter from '../proposals/proposals.routes';
 import treasuryRouter from '../treasury/treasury.routes';
 import questsRouter from '../quests/quests.routes';
+import leaderboardRouter from '../leaderboards/leaderboards.routes';
 
-
-const router = Router();
+// Every route below addresses a group as :groupId so nested routers
+// (created with mergeParams) read the same parameter name.
+const router = Router({ mergeParams: true });
 
 /**
- * @route   POST /api/v1/feed-groups
- * @desc    Create a new feed group
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups:
+ *   post:
+ *     summary: Create a new feed group
+ *     tags: [Feed Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - description
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Feed group created successfully.
+ *       400:
+ *         description: Name and description are required.
+ *       401:
+ *         description: Not authorized.
  */
 router.post('/', protect, createFeedGroup);
 
 /**
- * @route   GET /api/v1/feed-groups
- * @desc    Get all feed groups
- * @access  Public
+ * @swagger
+ * /api/v1/feed-groups:
+ *   get:
+ *     summary: Get all feed groups
+ *     tags: [Feed Groups]
+ *     responses:
+ *       200:
+ *         description: A list of feed groups.
  */
 router.get('/', getAllFeedGroups);
 
 /**
- * @route   GET /api/v1/feed-groups/:id
- * @desc    Get a single feed group by ID
- * @access  Public
+ * @swagger
+ * /api/v1/feed-groups/{groupId}:
+ *   get:
+ *     summary: Get a single feed group by ID
+ *     tags: [Feed Groups]
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     responses:
+ *       200:
+ *         description: Feed group details.
+ *       404:
+ *         description: Feed group not found.
  */
-router.get('/:id', getFeedGroupById);
+router.get('/:groupId', getFeedGroupById);
 
 /**
- * @route   PUT /api/v1/feed-groups/:id
- * @desc    Update a feed group
- * @access  Private (only creator)
+ * @swagger
+ * /api/v1/feed-groups/{groupId}:
+ *   put:
+ *     summary: Update a feed group (creator only)
+ *     tags: [Feed Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               proposalQuorumPercent:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 description: Share of members, in percent, that must vote for a proposal to be decided.
+ *               proposalPassThresholdPercent:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 99
+ *                 description: Share of votes cast, in percent, that "yes" must exceed for a proposal to pass.
+ *     responses:
+ *       200:
+ *         description: Feed group updated successfully.
+ *       400:
+ *         description: Invalid governance settings.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Feed group not found.
  */
-router.put('/:id', protect, updateFeedGroup);
+router.put('/:groupId', protect, updateFeedGroup);
 
 /**
- * @route   DELETE /api/v1/feed-groups/:id
- * @desc    Delete a feed group
- * @access  Private (only creator)
+ * @swagger
+ * /api/v1/feed-groups/{groupId}:
+ *   delete:
+ *     summary: Delete a feed group (creator only)
+ *     tags: [Feed Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     responses:
+ *       204:
+ *         description: Feed group deleted successfully.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Feed group not found.
  */
-router.delete('/:id', protect, deleteFeedGroup);
+router.delete('/:groupId', protect, deleteFeedGroup);
 
 /**
- * @route   POST /api/v1/feed-groups/:id/join
- * @desc    Join a feed group
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/join:
+ *   post:
+ *     summary: Join a feed group
+ *     tags: [Feed Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     responses:
+ *       200:
+ *         description: Successfully joined the group.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Feed group not found.
+ *       409:
+ *         description: Already a member of this group.
  */
-router.post('/:id/join', protect, joinFeedGroup);
+router.post('/:groupId/join', protect, joinFeedGroup);
 
 /**
- * @route   POST /api/v1/feed-groups/:id/leave
- * @desc    Leave a feed group
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/leave:
+ *   post:
+ *     summary: Leave a feed group
+ *     tags: [Feed Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     responses:
+ *       200:
+ *         description: Successfully left the group.
+ *       400:
+ *         description: Not a member of this group.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Feed group not found.
  */
-router.post('/:id/leave', protect, leaveFeedGroup);
+router.post('/:groupId/leave', protect, leaveFeedGroup);
 
 /**
- * @route   GET /api/v1/feed-groups/:id/members
- * @desc    Get all members of a feed group
- * @access  Public
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/members:
+ *   get:
+ *     summary: Get all members of a feed group
+ *     tags: [Feed Groups]
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     responses:
+ *       200:
+ *         description: A list of group members.
+ *       404:
+ *         description: Feed group not found.
  */
-router.get('/:id/members', getFeedGroupMembers);
+router.get('/:groupId/members', getFeedGroupMembers);
 
 /**
- * @route   PATCH /api/v1/feed-groups/:id/members/:memberId
- * @desc    Update a member's role in a group
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/members/{memberId}:
+ *   patch:
+ *     summary: Update a member's role in a group (creator only)
+ *     tags: [Feed Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The user ID of the member.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Member role updated.
+ *       400:
+ *         description: Role is required.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Group or member not found.
  */
-router.patch('/:id/members/:memberId', protect, updateMemberRole);
+router.patch('/:groupId/members/:memberId', protect, updateMemberRole);
 
-// Delegate proposal-related routes to the proposals router
+// Group-scoped sub-resources. Each router is created with mergeParams so it can read :groupId.
 router.use('/:groupId/proposals', proposalsRouter);
-
-// Delegate treasury-related routes to the treasury router
 router.use('/:groupId/treasury', treasuryRouter);
-
-// Delegate quest-related routes to the quests router
 router.use('/:groupId/quests', questsRouter);
+router.use('/:groupId/leaderboard', leaderboardRouter);
 
 export default router;
@@ -4,7 +4,17 @@ import mediaRoutes from './media/media.routes';
 import usersRoutes from './users/users.routes';
 
 import vibesRoutes from './vibes/vibes.routes';
+import marketplaceRoutes from './marketplace/marketplace.routes';
 import feedGroupsRoutes from './feed-groups/feedGroups.routes';
+import { questsDiscoveryRouter } from './quests/quests.routes';
+import { proposalsDiscoveryRouter } from './proposals/proposals.routes';
+import { treasuryDiscoveryRouter } from './treasury/treasury.routes';
+import payoutsRoutes from './payouts/payouts.routes';
+import notificationsRoutes from './notifications/notifications.routes';
+import walletRoutes from './wallet/wallet.routes';
+import achievementsRoutes from './achievements/achievements.routes';
+import { leaderboardsRouter } from './leaderboards/leaderboards.routes';
+import blockchainRoutes from './blockchain/blockchain.routes';
 
 const router = Router();
 
@@ -13,6 +23,34 @@ router.use('/users', usersRoutes);
 
 router.use('/media', mediaRoutes);
 router.use('/vibes', vibesRoutes);
+
+// Fixed-price listings and sales of Vibe NFTs.
+router.use('/marketplace', marketplaceRoutes);
+
+// Group-scoped quests, proposals and treasury live under /feed-groups/:groupId/...
 router.use('/feed-groups', feedGroupsRoutes);
 
+// Cross-group discovery over the groups the caller belongs to.
+router.use('/quests', questsDiscoveryRouter);
+router.use('/proposals', proposalsDiscoveryRouter);
+router.use('/treasury', treasuryDiscoveryRouter);
+
+// The caller's own quest reward payouts.
+router.use('/payouts', payoutsRoutes);
+
+// The caller's notifications, e.g. about expired quests.
+router.use('/notifications', notificationsRoutes);
+
+// The caller's wallet, which funds the reward escrows of the quests they create.
+router.use('/wallet', walletRoutes);
+
+// Achievement definitions, managed by admins and awarded by rules over user activities.
+router.use('/achievements', achievementsRoutes);
+
+// Users ranked by the reputation they earned; group leaderboards live under /feed-groups/:groupId/leaderboard.
+router.use('/leaderboards', leaderboardsRouter);
+
+// The transactions submitted on-chain for the caller, e.g. their Vibe mints and reward payouts.
+router.use('/blockchain', blockchainRoutes);
+
 export default router;
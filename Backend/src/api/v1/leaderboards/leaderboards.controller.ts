@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import * as leaderboardsService from '../../../services/leaderboards.service';
+import * as feedGroupService from '../../../services/feedGroups.service';
+import logger from '../../../config/logger';
+import { DEFAULT_AREA_RADIUS_M, areaLeaderboardQuerySchema, leaderboardQuerySchema } from './leaderboards.model';
+
+/**
+ * @route   GET /api/v1/leaderboards
+ * @desc    Rank every user by the reputation they earned in a window
+ * @access  Private
+ */
+export const getGlobalLeaderboard = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = leaderboardQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const leaderboard = await leaderboardsService.getLeaderboard({ type: 'global' }, value.window, userId, value.limit, value.offset);
+    res.status(200).json(leaderboard);
+  } catch (error) {
+    logger.error('Error fetching the global leaderboard:', error);
+    res.status(500).json({ message: 'Failed to fetch leaderboard.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/leaderboards/area
+ * @desc    Rank users by the reputation they earned on the quests of an area, e.g. a city
+ * @access  Private
+ */
+export const getAreaLeaderboard = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = areaLeaderboardQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  const scope: leaderboardsService.LeaderboardScope = value.bbox
+    ? { type: 'area', bbox: value.bbox }
+    : { type: 'area', latitude: value.lat, longitude: value.lon, radius: value.radius ?? DEFAULT_AREA_RADIUS_M };
+
+  try {
+    const leaderboard = await leaderboardsService.getLeaderboard(scope, value.window, userId, value.limit, value.offset);
+    res.status(200).json(leaderboard);
+  } catch (error) {
+    logger.error('Error fetching an area leaderboard:', error);
+    res.status(500).json({ message: 'Failed to fetch leaderboard.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/feed-groups/:groupId/leaderboard
+ * @desc    Rank users by the reputation they earned in a group
+ * @access  Private (group members)
+ */
+export const getGroupLeaderboard = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const groupId = parseInt(req.params.groupId, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  const { error, value } = leaderboardQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const leaderboard = await leaderboardsService.getLeaderboard({ type: 'group', groupId }, value.window, userId, value.limit, value.offset);
+    res.status(200).json(leaderboard);
+  } catch (error) {
+    logger.error(`Error fetching the leaderboard of group ${groupId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch leaderboard.' });
+  }
+};
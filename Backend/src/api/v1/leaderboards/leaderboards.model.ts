@@ -0,0 +1,28 @@
+import Joi from 'joi';
+import { LEADERBOARD_WINDOWS } from '../../../services/leaderboards.service';
+import { MAX_SEARCH_RADIUS_M, boundingBox, latitude, longitude } from '../quests/quests.model';
+
+// Roughly a city.
+export const DEFAULT_AREA_RADIUS_M = 25_000;
+export const MAX_LEADERBOARD_PAGE = 100;
+
+const pageKeys = {
+  window: Joi.string().valid(...LEADERBOARD_WINDOWS).default('weekly'),
+  limit: Joi.number().integer().min(1).max(MAX_LEADERBOARD_PAGE).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+};
+
+export const leaderboardQuerySchema = Joi.object(pageKeys);
+
+export const areaLeaderboardQuerySchema = Joi.object({
+  ...pageKeys,
+  // The area is a radius around (lat, lon), or a box.
+  lat: latitude,
+  lon: longitude,
+  radius: Joi.number().positive().max(MAX_SEARCH_RADIUS_M),
+  bbox: boundingBox(),
+})
+  .and('lat', 'lon')
+  .with('radius', 'lat')
+  .xor('lat', 'bbox')
+  .messages({ 'object.xor': 'Pass either lat and lon, or bbox.', 'object.missing': 'Pass either lat and lon, or bbox.' });
@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { getAreaLeaderboard, getGlobalLeaderboard, getGroupLeaderboard } from './leaderboards.controller';
+import { protect } from '../../../middleware/auth.middleware';
+
+// Mounted under /api/v1/feed-groups/:groupId/leaderboard.
+const router = Router({ mergeParams: true });
+
+// Mounted under /api/v1/leaderboards for the global and area leaderboards.
+export const leaderboardsRouter = Router();
+
+/**
+ * @swagger
+ * /api/v1/leaderboards:
+ *   get:
+ *     summary: Rank every user by the reputation they earned
+ *     description: >
+ *       Rankings are recomputed at most every LEADERBOARD_CACHE_TTL_MS. The caller's own
+ *       entry is returned even when it is not on the requested page.
+ *     tags: [Leaderboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/LeaderboardWindow'
+ *       - $ref: '#/components/parameters/LeaderboardLimit'
+ *       - $ref: '#/components/parameters/LeaderboardOffset'
+ *     responses:
+ *       200:
+ *         description: A page of the leaderboard.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Leaderboard'
+ *       400:
+ *         description: Invalid query parameters.
+ *       401:
+ *         description: Not authorized.
+ */
+leaderboardsRouter.get('/', protect, getGlobalLeaderboard);
+
+/**
+ * @swagger
+ * /api/v1/leaderboards/area:
+ *   get:
+ *     summary: Rank users by the reputation they earned on the quests of an area, e.g. a city
+ *     description: The area is a radius around (lat, lon), or a box. Only quests with a location count.
+ *     tags: [Leaderboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: lat
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: lon
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: radius
+ *         schema:
+ *           type: number
+ *           default: 25000
+ *           maximum: 100000
+ *         description: In metres, around (lat, lon).
+ *       - in: query
+ *         name: bbox
+ *         schema:
+ *           type: string
+ *         description: '"west,south,east,north" in degrees, instead of lat and lon.'
+ *       - $ref: '#/components/parameters/LeaderboardWindow'
+ *       - $ref: '#/components/parameters/LeaderboardLimit'
+ *       - $ref: '#/components/parameters/LeaderboardOffset'
+ *     responses:
+ *       200:
+ *         description: A page of the leaderboard.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Leaderboard'
+ *       400:
+ *         description: Invalid query parameters.
+ *       401:
+ *         description: Not authorized.
+ */
+leaderboardsRouter.get('/area', protect, getAreaLeaderboard);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/leaderboard:
+ *   get:
+ *     summary: Rank users by the reputation they earned in a group
+ *     tags: [Leaderboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - $ref: '#/components/parameters/LeaderboardWindow'
+ *       - $ref: '#/components/parameters/LeaderboardLimit'
+ *       - $ref: '#/components/parameters/LeaderboardOffset'
+ *     responses:
+ *       200:
+ *         description: A page of the leaderboard.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Leaderboard'
+ *       400:
+ *         description: Invalid group ID or query parameters.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Not a member of this group.
+ */
+router.get('/', protect, getGroupLeaderboard);
+
+export default router;
@@ -0,0 +1,402 @@
+import { Request, Response } from 'express';
+import * as marketplaceService from '../../../services/marketplace.service';
+import logger from '../../../config/logger';
+import {
+  bidsQuerySchema,
+  createAuctionSchema,
+  createListingSchema,
+  listingsQuerySchema,
+  placeBidSchema,
+  purchasesQuerySchema,
+  salesQuerySchema,
+} from './marketplace.model';
+
+const parseId = (value: string): number | null => {
+  const id = parseInt(value, 10);
+  return isNaN(id) || id < 1 ? null : id;
+};
+
+// Maps the errors the marketplace service throws to responses; false if it is none of them.
+const sendMarketplaceError = (res: Response, error: any): boolean => {
+  switch (error.message) {
+    case 'VIBE_NOT_FOUND':
+      res.status(404).json({ message: 'Vibe not found.' });
+      return true;
+    case 'LISTING_NOT_FOUND':
+      res.status(404).json({ message: 'Listing not found.' });
+      return true;
+    case 'NOT_VIBE_OWNER':
+      res.status(403).json({ message: 'Forbidden: You do not hold this Vibe NFT.' });
+      return true;
+    case 'ADDRESS_NOT_VERIFIED':
+      res.status(403).json({ message: 'Forbidden: Verify your Aptos address through /api/v1/auth/address/challenge before listing.' });
+      return true;
+    case 'FORBIDDEN':
+      res.status(403).json({ message: 'Forbidden: Only the seller can withdraw this listing.' });
+      return true;
+    case 'VIBE_NOT_TRADABLE':
+      res.status(409).json({ message: 'This Vibe NFT cannot be traded.' });
+      return true;
+    case 'ALREADY_LISTED':
+      res.status(409).json({ message: 'This Vibe is already listed.' });
+      return true;
+    case 'LISTING_NOT_ACTIVE':
+      res.status(409).json({ message: 'This listing is not for sale.' });
+      return true;
+    case 'LISTING_IS_AUCTION':
+      res.status(409).json({ message: 'This listing is an auction; bid on it instead.' });
+      return true;
+    case 'NOT_AN_AUCTION':
+      res.status(409).json({ message: 'This listing is not an auction.' });
+      return true;
+    case 'AUCTION_CLOSED':
+      res.status(409).json({ message: 'This auction has ended.' });
+      return true;
+    case 'AUCTION_HAS_BIDS':
+      res.status(409).json({ message: 'An auction cannot be withdrawn once it has bids.' });
+      return true;
+    case 'INSUFFICIENT_FUNDS':
+      res.status(409).json({ message: 'Your wallet balance cannot cover the price.' });
+      return true;
+    case 'PRICE_TOO_SMALL':
+      res.status(400).json({ message: 'The price is smaller than the smallest unit of $Lunoa.' });
+      return true;
+    case 'CANNOT_BUY_OWN_LISTING':
+      res.status(400).json({ message: 'You cannot buy your own listing.' });
+      return true;
+    case 'CANNOT_BID_ON_OWN_AUCTION':
+      res.status(400).json({ message: 'You cannot bid on your own auction.' });
+      return true;
+    case 'BID_TOO_LOW':
+      res.status(400).json({ message: 'The bid must reach the starting price and beat the leading bid by the minimum increment.' });
+      return true;
+    case 'APTOS_ADDRESS_REQUIRED':
+      res.status(400).json({ message: 'Link an Aptos address to receive the Vibe NFT.' });
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/listings
+ * @desc    Browse listings, newest, by price or by when their auctions end
+ * @access  Public
+ */
+export const getListings = async (req: Request, res: Response) => {
+  const { error, value } = listingsQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const listings = await marketplaceService.listListings({
+      status: value.status === 'all' ? undefined : value.status,
+      type: value.type,
+      vibeId: value.vibe_id,
+      sellerId: value.seller_id,
+      sort: value.sort,
+      limit: value.limit,
+      offset: value.offset,
+    });
+    res.status(200).json(listings);
+  } catch (error) {
+    logger.error('Error fetching marketplace listings:', error);
+    res.status(500).json({ message: 'Failed to fetch listings.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/marketplace/listings
+ * @desc    List a Vibe NFT you hold for sale at a fixed price
+ * @access  Private (Owner only)
+ */
+export const createListing = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = createListingSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const listing = await marketplaceService.createListing(value.vibeId, userId, value.price);
+    res.status(201).json(listing);
+  } catch (error: any) {
+    if (sendMarketplaceError(res, error)) {
+      return;
+    }
+    logger.error(`Error listing Vibe ${value.vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to create listing.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/marketplace/auctions
+ * @desc    Put a Vibe NFT you hold up for auction
+ * @access  Private (Owner only)
+ */
+export const createAuction = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = createAuctionSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const { vibeId, ...terms } = value;
+    const listing = await marketplaceService.createAuction(vibeId, userId, terms);
+    res.status(201).json(listing);
+  } catch (error: any) {
+    if (sendMarketplaceError(res, error)) {
+      return;
+    }
+    logger.error(`Error auctioning Vibe ${value.vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to create auction.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/listings/:id
+ * @desc    Get a listing
+ * @access  Public
+ */
+export const getListing = async (req: Request, res: Response) => {
+  const listingId = parseId(req.params.id);
+  if (!listingId) {
+    return res.status(400).json({ message: 'Invalid listing ID.' });
+  }
+
+  try {
+    const listing = await marketplaceService.getListing(listingId);
+    if (!listing) {
+      return res.status(404).json({ message: 'Listing not found.' });
+    }
+    res.status(200).json(listing);
+  } catch (error) {
+    logger.error(`Error fetching listing ${listingId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch listing.' });
+  }
+};
+
+/**
+ * @route   DELETE /api/v1/marketplace/listings/:id
+ * @desc    Withdraw your listing
+ * @access  Private (Seller only)
+ */
+export const cancelListing = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const listingId = parseId(req.params.id);
+  if (!listingId) {
+    return res.status(400).json({ message: 'Invalid listing ID.' });
+  }
+
+  try {
+    const listing = await marketplaceService.cancelListing(listingId, userId);
+    res.status(200).json(listing);
+  } catch (error: any) {
+    if (sendMarketplaceError(res, error)) {
+      return;
+    }
+    logger.error(`Error cancelling listing ${listingId}:`, error);
+    res.status(500).json({ message: 'Failed to cancel listing.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/marketplace/listings/:id/purchase
+ * @desc    Buy a listed Vibe NFT with $Lunoa from your wallet
+ * @access  Private
+ */
+export const purchaseListing = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const listingId = parseId(req.params.id);
+  if (!listingId) {
+    return res.status(400).json({ message: 'Invalid listing ID.' });
+  }
+
+  try {
+    const sale = await marketplaceService.purchaseListing(listingId, userId);
+    // A sale still in flight is settled in the background.
+    res.status(sale.status === 'submitted' ? 202 : 201).json(sale);
+  } catch (error: any) {
+    if (sendMarketplaceError(res, error)) {
+      return;
+    }
+    logger.error(`Error purchasing listing ${listingId}:`, error);
+    res.status(500).json({ message: 'Failed to purchase listing.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/marketplace/listings/:id/bids
+ * @desc    Bid on an auction with $Lunoa from your wallet
+ * @access  Private
+ */
+export const placeBid = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const listingId = parseId(req.params.id);
+  if (!listingId) {
+    return res.status(400).json({ message: 'Invalid listing ID.' });
+  }
+
+  const { error, value } = placeBidSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const bid = await marketplaceService.placeBid(listingId, userId, value.amount);
+    res.status(201).json(bid);
+  } catch (error: any) {
+    if (sendMarketplaceError(res, error)) {
+      return;
+    }
+    logger.error(`Error bidding on listing ${listingId}:`, error);
+    res.status(500).json({ message: 'Failed to place bid.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/listings/:id/bids
+ * @desc    List an auction's bids, newest first
+ * @access  Public
+ */
+export const getListingBids = async (req: Request, res: Response) => {
+  const listingId = parseId(req.params.id);
+  if (!listingId) {
+    return res.status(400).json({ message: 'Invalid listing ID.' });
+  }
+
+  const { error, value } = bidsQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const listing = await marketplaceService.getListing(listingId);
+    if (!listing) {
+      return res.status(404).json({ message: 'Listing not found.' });
+    }
+    const bids = await marketplaceService.getAuctionBids(listingId, value.limit, value.offset);
+    res.status(200).json(bids);
+  } catch (error) {
+    logger.error(`Error fetching bids on listing ${listingId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch bids.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/bids/:id
+ * @desc    Get a bid
+ * @access  Public
+ */
+export const getBid = async (req: Request, res: Response) => {
+  const bidId = parseId(req.params.id);
+  if (!bidId) {
+    return res.status(400).json({ message: 'Invalid bid ID.' });
+  }
+
+  try {
+    const bid = await marketplaceService.getBid(bidId);
+    if (!bid) {
+      return res.status(404).json({ message: 'Bid not found.' });
+    }
+    res.status(200).json(bid);
+  } catch (error) {
+    logger.error(`Error fetching bid ${bidId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch bid.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/sales
+ * @desc    List completed sales, newest first, optionally of one Vibe
+ * @access  Public
+ */
+export const getSales = async (req: Request, res: Response) => {
+  const { error, value } = salesQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const sales = await marketplaceService.getSaleHistory(value.vibe_id, value.limit, value.offset);
+    res.status(200).json(sales);
+  } catch (error) {
+    logger.error('Error fetching marketplace sales:', error);
+    res.status(500).json({ message: 'Failed to fetch sales.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/purchases
+ * @desc    List the caller's purchases, newest first
+ * @access  Private
+ */
+export const getMyPurchases = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = purchasesQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const purchases = await marketplaceService.getUserPurchases(userId, value.limit, value.offset);
+    res.status(200).json(purchases);
+  } catch (error) {
+    logger.error(`Error fetching purchases of user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch purchases.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/marketplace/purchases/:saleId
+ * @desc    Get one of the caller's purchases, e.g. to follow one still in flight
+ * @access  Private
+ */
+export const getMyPurchase = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const saleId = parseId(req.params.saleId);
+  if (!saleId) {
+    return res.status(400).json({ message: 'Invalid sale ID.' });
+  }
+
+  try {
+    const sale = await marketplaceService.getUserPurchase(saleId, userId);
+    if (!sale) {
+      return res.status(404).json({ message: 'Purchase not found.' });
+    }
+    res.status(200).json(sale);
+  } catch (error) {
+    logger.error(`Error fetching purchase ${saleId} of user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch purchase.' });
+  }
+};
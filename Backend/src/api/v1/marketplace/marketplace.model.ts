@@ -0,0 +1,50 @@
+import Joi from 'joi';
+import { LISTING_SORTS, LISTING_STATUSES, LISTING_TYPES } from '../../../services/marketplace.service';
+
+export const MAX_MARKETPLACE_PAGE = 100;
+export const MAX_AUCTION_HOURS = 14 * 24;
+
+// In $Lunoa, rounded to the coin's decimals.
+const amount = Joi.number().positive().max(1000000000);
+
+const pageKeys = {
+  limit: Joi.number().integer().min(1).max(MAX_MARKETPLACE_PAGE).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+};
+
+export const listingsQuerySchema = Joi.object({
+  ...pageKeys,
+  // Listings for sale by default; 'all' for every status.
+  status: Joi.string().valid(...LISTING_STATUSES, 'all').default('active'),
+  type: Joi.string().valid(...LISTING_TYPES),
+  vibe_id: Joi.number().integer().positive(),
+  seller_id: Joi.string().uuid(),
+  sort: Joi.string().valid(...LISTING_SORTS).default('newest'),
+});
+
+export const createListingSchema = Joi.object({
+  vibeId: Joi.number().integer().positive().required(),
+  price: amount.required(),
+});
+
+export const createAuctionSchema = Joi.object({
+  vibeId: Joi.number().integer().positive().required(),
+  startingPrice: amount.required(),
+  // The starting price if omitted.
+  reservePrice: amount.min(Joi.ref('startingPrice')),
+  minIncrement: amount.required(),
+  durationHours: Joi.number().integer().min(1).max(MAX_AUCTION_HOURS).required(),
+});
+
+export const placeBidSchema = Joi.object({
+  amount: amount.required(),
+});
+
+export const bidsQuerySchema = Joi.object(pageKeys);
+
+export const salesQuerySchema = Joi.object({
+  ...pageKeys,
+  vibe_id: Joi.number().integer().positive(),
+});
+
+export const purchasesQuerySchema = Joi.object(pageKeys);
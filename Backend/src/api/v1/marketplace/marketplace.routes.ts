@@ -0,0 +1,515 @@
+import { Router } from 'express';
+import {
+  cancelListing,
+  createAuction,
+  createListing,
+  getBid,
+  getListing,
+  getListingBids,
+  getListings,
+  getMyPurchase,
+  getMyPurchases,
+  getSales,
+  placeBid,
+  purchaseListing,
+} from './marketplace.controller';
+import { protect } from '../../../middleware/auth.middleware';
+import { requireFeature } from '../../../middleware/requireFeature';
+
+// Mounted under /api/v1/marketplace.
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/marketplace/listings:
+ *   get:
+ *     summary: Browse marketplace listings
+ *     tags: [Marketplace]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, pending_sale, sold, cancelled, expired, all]
+ *           default: active
+ *         description: Listings for sale by default.
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [fixed_price, auction]
+ *       - in: query
+ *         name: vibe_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: seller_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, price_asc, price_desc, ending_soon]
+ *           default: newest
+ *         description: ending_soon puts the auctions ending first first.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The listings.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MarketplaceListing'
+ *       400:
+ *         description: Invalid query parameters.
+ *   post:
+ *     summary: List a Vibe NFT the caller holds for sale at a fixed price
+ *     description: >
+ *       The listing is created by the marketplace contract and recorded from the event it
+ *       emits. The caller's Aptos or wallet address must hold the NFT, and a Vibe can only
+ *       be listed once at a time.
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [vibeId, price]
+ *             properties:
+ *               vibeId:
+ *                 type: integer
+ *               price:
+ *                 type: number
+ *                 description: In $Lunoa.
+ *     responses:
+ *       201:
+ *         description: The listing.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceListing'
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller does not hold the Vibe NFT, or has not verified the Aptos address holding it.
+ *       404:
+ *         description: Vibe not found.
+ *       409:
+ *         description: The Vibe is already listed, or its NFT cannot be traded.
+ *       503:
+ *         description: The blockchain is disabled on this server.
+ */
+router.get('/listings', getListings);
+router.post('/listings', protect, requireFeature('blockchain'), createListing);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/auctions:
+ *   post:
+ *     summary: Put a Vibe NFT the caller holds up for auction
+ *     description: >
+ *       The NFT is listed on-chain at the starting price. Bids are held in escrow in the
+ *       bidders' wallets, and a bid placed in the last minutes extends the auction. When it
+ *       ends, the highest bid wins if it meets the reserve price, which bidders are not
+ *       shown; the sale then completes like a purchase. Otherwise the auction expires and
+ *       the bid is refunded.
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [vibeId, startingPrice, minIncrement, durationHours]
+ *             properties:
+ *               vibeId:
+ *                 type: integer
+ *               startingPrice:
+ *                 type: number
+ *                 description: The lowest first bid, in $Lunoa.
+ *               reservePrice:
+ *                 type: number
+ *                 description: The lowest winning bid, at least the starting price. The starting price if omitted.
+ *               minIncrement:
+ *                 type: number
+ *                 description: How much each bid must beat the leading one by.
+ *               durationHours:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 336
+ *     responses:
+ *       201:
+ *         description: The auction's listing.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceListing'
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller does not hold the Vibe NFT, or has not verified the Aptos address holding it.
+ *       404:
+ *         description: Vibe not found.
+ *       409:
+ *         description: The Vibe is already listed, or its NFT cannot be traded.
+ *       503:
+ *         description: The blockchain is disabled on this server.
+ */
+router.post('/auctions', protect, requireFeature('blockchain'), createAuction);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/listings/{id}:
+ *   get:
+ *     summary: Get a listing
+ *     tags: [Marketplace]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The listing.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceListing'
+ *       400:
+ *         description: Invalid listing ID.
+ *       404:
+ *         description: Listing not found.
+ *   delete:
+ *     summary: Withdraw the caller's listing
+ *     description: >
+ *       A listing with a purchase in flight cannot be withdrawn until the purchase settles,
+ *       nor an auction once it has bids.
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The cancelled listing.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceListing'
+ *       400:
+ *         description: Invalid listing ID.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not the seller.
+ *       404:
+ *         description: Listing not found.
+ *       409:
+ *         description: The listing is not for sale, or is an auction with bids.
+ *       503:
+ *         description: The blockchain is disabled on this server.
+ */
+router.get('/listings/:id', getListing);
+router.delete('/listings/:id', protect, requireFeature('blockchain'), cancelListing);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/listings/{id}/purchase:
+ *   post:
+ *     summary: Buy a listed Vibe NFT with $Lunoa from the caller's wallet
+ *     description: >
+ *       The price is held in escrow while the sale is sent on-chain. Once it commits, the
+ *       NFT moves to the caller's Aptos address and the price is paid to the seller, less
+ *       a royalty at the collection's rate for the Vibe's creator. If it fails, the price
+ *       is refunded and the listing is for sale again.
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       201:
+ *         description: The sale, completed or failed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceSale'
+ *       202:
+ *         description: The sale, still in flight; it is settled in the background.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceSale'
+ *       400:
+ *         description: Invalid listing ID, the caller's own listing, or the caller has no Aptos address.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Listing not found.
+ *       409:
+ *         description: >
+ *           The listing is not for sale or is an auction, or the caller's wallet balance
+ *           cannot cover the price.
+ *       503:
+ *         description: The blockchain is disabled on this server.
+ */
+router.post('/listings/:id/purchase', protect, requireFeature('blockchain'), purchaseListing);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/listings/{id}/bids:
+ *   get:
+ *     summary: List an auction's bids, newest first
+ *     tags: [Marketplace]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The bids.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MarketplaceBid'
+ *       400:
+ *         description: Invalid listing ID or query parameters.
+ *       404:
+ *         description: Listing not found.
+ *   post:
+ *     summary: Bid on an auction with $Lunoa from the caller's wallet
+ *     description: >
+ *       The bid is held in escrow and the bid it beats is refunded, its bidder notified.
+ *       The first bid must reach the starting price; each later one must beat the leading
+ *       bid by the auction's increment. A bid placed in the auction's last minutes extends
+ *       it. The NFT goes to the caller's Aptos address if the bid wins.
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: In $Lunoa.
+ *     responses:
+ *       201:
+ *         description: The bid, now leading.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceBid'
+ *       400:
+ *         description: >
+ *           Invalid input, a bid too low, the caller's own auction, or the caller has no
+ *           Aptos address.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Listing not found.
+ *       409:
+ *         description: >
+ *           The listing is not an auction or has ended, or the caller's wallet balance
+ *           cannot cover the bid.
+ *       503:
+ *         description: The blockchain is disabled on this server.
+ */
+router.get('/listings/:id/bids', getListingBids);
+router.post('/listings/:id/bids', protect, requireFeature('blockchain'), placeBid);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/bids/{id}:
+ *   get:
+ *     summary: Get a bid
+ *     tags: [Marketplace]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The bid.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceBid'
+ *       400:
+ *         description: Invalid bid ID.
+ *       404:
+ *         description: Bid not found.
+ */
+router.get('/bids/:id', getBid);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/sales:
+ *   get:
+ *     summary: List completed sales, newest first
+ *     tags: [Marketplace]
+ *     parameters:
+ *       - in: query
+ *         name: vibe_id
+ *         schema:
+ *           type: integer
+ *         description: Only this Vibe's sale history.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The sales.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MarketplaceSale'
+ *       400:
+ *         description: Invalid query parameters.
+ */
+router.get('/sales', getSales);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/purchases:
+ *   get:
+ *     summary: List the caller's purchases, newest first
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The purchases, in every status.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MarketplaceSale'
+ *       400:
+ *         description: Invalid query parameters.
+ *       401:
+ *         description: Not authorized.
+ */
+router.get('/purchases', protect, getMyPurchases);
+
+/**
+ * @swagger
+ * /api/v1/marketplace/purchases/{saleId}:
+ *   get:
+ *     summary: Get one of the caller's purchases
+ *     tags: [Marketplace]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: saleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The purchase, with its failure reason if it failed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarketplaceSale'
+ *       400:
+ *         description: Invalid sale ID.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Purchase not found.
+ */
+router.get('/purchases/:saleId', protect, getMyPurchase);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { uploadMedia } from './media.controller';
+import { requireFeature } from '../../../middleware/requireFeature';
 
 
 const router = Router();
@@ -17,6 +18,6 @@ const upload = multer({
 // The 'upload.single('media')' middleware processes a single file from the 'media' field in the form data.
 // The 'protect' middleware ensures that only authenticated users can upload files.
 // The 'upload.single('media')' middleware processes a single file from the 'media' field in the form data.
-router.post('/upload', upload.single('media'), uploadMedia);
+router.post('/upload', requireFeature('ipfs'), upload.single('media'), uploadMedia);
 
 export default router;
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import Joi from 'joi';
+import * as notificationsService from '../../../services/notifications.service';
+import logger from '../../../config/logger';
+
+const notificationsQuerySchema = Joi.object({
+  unread: Joi.boolean().default(false),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+});
+
+const markReadSchema = Joi.object({
+  // Marks every notification read if omitted.
+  ids: Joi.array().items(Joi.number().integer().positive()).min(1).max(100),
+});
+
+/**
+ * @route   GET /api/v1/notifications
+ * @desc    List the caller's notifications
+ * @access  Private
+ */
+export const getMyNotifications = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  const { error, value } = notificationsQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const notifications = await notificationsService.getUserNotifications(userId, value.unread, value.limit);
+    res.status(200).json(notifications);
+  } catch (dbError) {
+    logger.error(`Error fetching notifications for user ${userId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch notifications.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/notifications/read
+ * @desc    Mark some or all of the caller's notifications read
+ * @access  Private
+ */
+export const markMyNotificationsRead = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  const { error, value } = markReadSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const marked = await notificationsService.markNotificationsRead(userId, value.ids);
+    res.status(200).json({ marked });
+  } catch (dbError) {
+    logger.error(`Error marking notifications read for user ${userId}:`, dbError);
+    res.status(500).json({ message: 'Failed to mark notifications read.' });
+  }
+};
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { protect } from '../../../middleware/auth.middleware';
+import { getMyNotifications, markMyNotificationsRead } from './notifications.controller';
+
+// Mounted under /api/v1/notifications.
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/notifications:
+ *   get:
+ *     summary: List the caller's notifications
+ *     description: >
+ *       quest_expired tells a participant that a quest they had not finished has expired;
+ *       its data says whether their submission is still awaiting review. quest_deadline_passed
+ *       tells them their own deadline to complete a quest has passed. auction_outbid tells a
+ *       bidder their bid on a Vibe auction was beaten and refunded; auction_won tells them
+ *       their bid won an auction, and its data names the sale that delivers the NFT.
+ *       signer_balance_low tells admins an account the backend signs transactions with is
+ *       running out of APT to pay gas with.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Only return notifications not yet read.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: A list of notifications, newest first.
+ *       400:
+ *         description: Invalid query.
+ *       401:
+ *         description: Not authorized.
+ */
+router.get('/', protect, getMyNotifications);
+
+/**
+ * @swagger
+ * /api/v1/notifications/read:
+ *   post:
+ *     summary: Mark the caller's notifications read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: The notifications to mark. Marks all of them if omitted.
+ *     responses:
+ *       200:
+ *         description: How many notifications were newly marked read.
+ *       400:
+ *         description: Invalid notification IDs.
+ *       401:
+ *         description: Not authorized.
+ */
+router.post('/read', protect, markMyNotificationsRead);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import * as payoutsService from '../../../services/payouts.service';
+import logger from '../../../config/logger';
+
+/**
+ * @route   GET /api/v1/payouts
+ * @desc    List the caller's quest reward payouts
+ * @access  Private
+ */
+export const getMyPayouts = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { status } = req.query;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  if (status !== undefined && !payoutsService.PAYOUT_STATUSES.includes(status as payoutsService.PayoutStatus)) {
+    return res.status(400).json({ message: `Status must be one of: ${payoutsService.PAYOUT_STATUSES.join(', ')}.` });
+  }
+
+  try {
+    const payouts = await payoutsService.getUserPayouts(userId, status as payoutsService.PayoutStatus | undefined);
+    res.status(200).json(payouts);
+  } catch (error) {
+    logger.error(`Error fetching payouts for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch payouts.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/payouts/:payoutId
+ * @desc    Get one of the caller's payouts, including its transaction hash once submitted
+ * @access  Private
+ */
+export const getMyPayout = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const payoutId = parseInt(req.params.payoutId, 10);
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  if (isNaN(payoutId)) {
+    return res.status(400).json({ message: 'Invalid Payout ID.' });
+  }
+
+  try {
+    const payout = await payoutsService.getUserPayout(payoutId, userId);
+    if (!payout) {
+      return res.status(404).json({ message: 'Payout not found.' });
+    }
+
+    res.status(200).json(payout);
+  } catch (error) {
+    logger.error(`Error fetching payout ${payoutId} for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch payout.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/payouts/:payoutId/retry
+ * @desc    Queue a failed payout again, e.g. after linking an Aptos address
+ * @access  Private
+ */
+export const retryMyPayout = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const payoutId = parseInt(req.params.payoutId, 10);
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  if (isNaN(payoutId)) {
+    return res.status(400).json({ message: 'Invalid Payout ID.' });
+  }
+
+  try {
+    const payout = await payoutsService.retryPayout(payoutId, userId);
+    res.status(200).json(payout);
+  } catch (error: any) {
+    switch (error.message) {
+      case 'PAYOUT_NOT_FOUND':
+        return res.status(404).json({ message: 'Payout not found.' });
+      case 'PAYOUT_NOT_FAILED':
+        return res.status(409).json({ message: 'Only failed payouts can be retried.' });
+      default:
+        logger.error(`Error retrying payout ${payoutId} for user ${userId}:`, error);
+        return res.status(500).json({ message: 'Failed to retry payout.' });
+    }
+  }
+};
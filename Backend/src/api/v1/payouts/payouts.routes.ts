@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { protect } from '../../../middleware/auth.middleware';
+import { getMyPayouts, getMyPayout, retryMyPayout } from './payouts.controller';
+
+// Mounted under /api/v1/payouts.
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/payouts:
+ *   get:
+ *     summary: List the caller's quest reward payouts
+ *     description: >
+ *       Rewards are paid on-chain in the background after a quest completion is verified.
+ *       pending payouts are waiting for an attempt, processing and submitted payouts are
+ *       in flight, sent payouts are confirmed on-chain and failed payouts ran out of retries.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processing, submitted, sent, failed]
+ *         description: Filter by payout status.
+ *     responses:
+ *       200:
+ *         description: A list of payouts, newest first.
+ *       400:
+ *         description: Invalid status.
+ *       401:
+ *         description: Not authorized.
+ */
+router.get('/', protect, getMyPayouts);
+
+/**
+ * @swagger
+ * /api/v1/payouts/{payoutId}:
+ *   get:
+ *     summary: Get one of the caller's payouts
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payoutId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the payout.
+ *     responses:
+ *       200:
+ *         description: The payout, with its transaction hash once submitted and the last error if an attempt failed.
+ *       400:
+ *         description: Invalid payout ID.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Payout not found.
+ */
+router.get('/:payoutId', protect, getMyPayout);
+
+/**
+ * @swagger
+ * /api/v1/payouts/{payoutId}/retry:
+ *   post:
+ *     summary: Retry a failed payout
+ *     description: Queues a failed payout again, for example after the caller links an Aptos address.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payoutId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the payout.
+ *     responses:
+ *       200:
+ *         description: Payout queued again.
+ *       400:
+ *         description: Invalid payout ID.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Payout not found.
+ *       409:
+ *         description: The payout has not failed.
+ */
+router.post('/:payoutId/retry', protect, retryMyPayout);
+
+export default router;
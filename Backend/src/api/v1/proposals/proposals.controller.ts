@@ -1,16 +1,36 @@
 import { Request, Response } from 'express';
 import * as proposalsService from '../../../services/proposals.service';
 import * as feedGroupService from '../../../services/feedGroups.service';
+import * as treasuryService from '../../../services/treasury.service';
 import logger from '../../../config/logger';
+import { isFeatureEnabled } from '../../../config/index';
+import { VOTE_WEIGHTINGS, VOTING_MODES, VoteWeighting, VotingMode } from '../../../utils/voteTally';
+
+const MAX_PROPOSAL_OPTIONS = 10;
+const MAX_PROPOSAL_DURATION_DAYS = 365;
+
+const isValidOptionList = (options: unknown): options is string[] =>
+  Array.isArray(options)
+  && options.length >= 2
+  && options.length <= MAX_PROPOSAL_OPTIONS
+  && options.every((option) => typeof option === 'string' && option.trim().length > 0)
+  && new Set(options.map((option: string) => option.trim())).size === options.length;
 
 /**
  * Handles the creation of a new governance proposal.
  */
 export const createProposal = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const creatorId = req.user?.id;
-  const { id: groupIdString } = req.params;
-  const { title, description, durationDays } = req.body;
+  const creatorId = req.user?.userId;
+  const { groupId: groupIdString } = req.params;
+  const {
+    title,
+    description,
+    durationDays,
+    votingMode = 'binary',
+    options,
+    voteWeighting = 'equal',
+    action: actionInput,
+  } = req.body;
 
   if (!creatorId) {
     return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
@@ -20,11 +40,50 @@ export const createProposal = async (req: Request, res: Response) => {
     return res.status(400).json({ message: 'Group ID, title, description, and duration are required.' });
   }
 
+  if (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MAX_PROPOSAL_DURATION_DAYS) {
+    return res.status(400).json({ message: `Duration must be a whole number of days between 1 and ${MAX_PROPOSAL_DURATION_DAYS}.` });
+  }
+
   const groupIdNum = parseInt(groupIdString, 10);
   if (isNaN(groupIdNum)) {
     return res.status(400).json({ message: 'Invalid Group ID.' });
   }
 
+  if (!VOTING_MODES.includes(votingMode)) {
+    return res.status(400).json({ message: `Voting mode must be one of: ${VOTING_MODES.join(', ')}.` });
+  }
+
+  if (!VOTE_WEIGHTINGS.includes(voteWeighting)) {
+    return res.status(400).json({ message: `Vote weighting must be one of: ${VOTE_WEIGHTINGS.join(', ')}.` });
+  }
+
+  if (voteWeighting === 'token' && !isFeatureEnabled('blockchain')) {
+    return res.status(503).json({ message: 'Token-weighted voting is unavailable: blockchain is disabled on this server.' });
+  }
+
+  if (votingMode !== 'binary' && !isValidOptionList(options)) {
+    return res.status(400).json({ message: `Between 2 and ${MAX_PROPOSAL_OPTIONS} distinct, non-empty options are required for ${votingMode} proposals.` });
+  }
+
+  if (votingMode === 'binary' && options !== undefined) {
+    return res.status(400).json({ message: 'Binary proposals are voted yes or no and do not take options.' });
+  }
+
+  let action: treasuryService.TreasuryAction | undefined;
+  if (actionInput !== undefined && actionInput !== null) {
+    if (votingMode !== 'binary') {
+      return res.status(400).json({ message: 'Treasury-spend proposals must use binary voting.' });
+    }
+
+    const parsed = treasuryService.parseTreasuryAction(actionInput);
+    if (!parsed) {
+      return res.status(400).json({
+        message: `Action must have a positive amount and a type of ${treasuryService.TREASURY_ACTION_TYPES.join(' or ')} with its target.`,
+      });
+    }
+    action = parsed;
+  }
+
   try {
     // 1. Verify the group exists
     const group = await feedGroupService.getGroupById(groupIdNum);
@@ -38,36 +97,59 @@ export const createProposal = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Forbidden: You must be a member of the group to create a proposal.' });
     }
 
-    // 3. Create the proposal
-    const proposalData = { groupId: groupIdNum, creatorId, title, description, durationDays };
+    // 3. A treasury spend must target a member or a quest of this group
+    if (action) {
+      await treasuryService.validateTreasuryAction(groupIdNum, action);
+    }
+
+    // 4. Create the proposal
+    const proposalData: proposalsService.CreateProposalPayload = {
+      groupId: groupIdNum,
+      creatorId,
+      title,
+      description,
+      durationDays,
+      votingMode: votingMode as VotingMode,
+      options: votingMode === 'binary' ? undefined : options.map((option: string) => option.trim()),
+      voteWeighting: voteWeighting as VoteWeighting,
+      action,
+    };
     const newProposal = await proposalsService.createProposal(proposalData);
 
     res.status(201).json(newProposal);
-  } catch (error) {
+  } catch (error: any) {
+    switch (error.message) {
+      case 'RECIPIENT_NOT_MEMBER':
+        return res.status(400).json({ message: 'The transfer recipient must be a member of the group.' });
+      case 'QUEST_NOT_FOUND':
+        return res.status(400).json({ message: 'The quest to fund does not belong to this group.' });
+      case 'QUEST_NOT_FUNDABLE':
+        return res.status(400).json({ message: 'Only a quest whose reward escrow this group\'s treasury funds, and which is still active, can be funded.' });
+    }
     logger.error(`Error creating proposal for group ${groupIdNum}:`, error);
     res.status(500).json({ message: 'Failed to create proposal.' });
   }
 };
 
 /**
- * Handles casting a vote on a proposal.
+ * Handles casting, or changing, a vote on a proposal.
+ * The body depends on the proposal's voting mode: voteOption (boolean) for binary,
+ * optionIndex for multiple choice, and rankings (option indexes, most preferred first)
+ * for ranked choice.
  */
 export const castVote = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const voterId = req.user?.id;
+  const voterId = req.user?.userId;
   const { groupId: groupIdString, proposalId: proposalIdString } = req.params;
-  const { voteOption } = req.body; // Expects a boolean: true for 'yes', false for 'no'
 
   if (!voterId) {
     return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
   }
 
-  if (typeof voteOption !== 'boolean') {
-    return res.status(400).json({ message: 'Vote option is required and must be a boolean.' });
-  }
-
   const groupId = parseInt(groupIdString, 10);
   const proposalId = parseInt(proposalIdString, 10);
+  if (isNaN(groupId) || isNaN(proposalId)) {
+    return res.status(400).json({ message: 'Invalid Group ID or Proposal ID.' });
+  }
 
   try {
     // 1. Verify the proposal exists and is open for voting
@@ -75,12 +157,17 @@ export const castVote = async (req: Request, res: Response) => {
     if (!proposal) {
       return res.status(404).json({ message: 'Proposal not found.' });
     }
-    if (proposal.status !== 'open') {
-      return res.status(403).json({ message: 'Voting on this proposal is closed.' });
-    }
     if (proposal.group_id !== groupId) {
         return res.status(400).json({ message: 'Proposal does not belong to the specified group.' });
     }
+    if (proposalsService.isExpired(proposal)) {
+      // The scheduler has not reached it yet; settle it now instead of accepting a late vote.
+      await proposalsService.finalizeProposal(proposalId);
+      return res.status(403).json({ message: 'Voting on this proposal is closed.' });
+    }
+    if (proposal.status !== 'open') {
+      return res.status(403).json({ message: 'Voting on this proposal is closed.' });
+    }
 
     // 2. Authorization: Check if the voter is a member of the group
     const isMember = await feedGroupService.isMember(groupId, voterId);
@@ -88,16 +175,121 @@ export const castVote = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Forbidden: You must be a member of the group to vote.' });
     }
 
-    // 3. Cast the vote
-    const newVote = await proposalsService.castVote(proposalId, voterId, voteOption);
-    res.status(201).json(newVote);
+    // 3. Check the choice fits the proposal's voting mode
+    const choice = proposalsService.parseVoteChoice(proposal, req.body);
+    if (!choice) {
+      const expected = {
+        binary: 'voteOption must be a boolean',
+        multiple_choice: 'optionIndex must be the index of one of the options',
+        ranked_choice: 'rankings must list distinct option indexes, most preferred first',
+      }[proposal.voting_mode];
+      return res.status(400).json({ message: `Invalid vote: ${expected}.` });
+    }
+
+    // 4. Cast or change the vote
+    const { vote, created } = await proposalsService.castVote(proposal, voterId, choice);
+    res.status(created ? 201 : 200).json(vote);
 
   } catch (error: any) {
-    // Handle unique constraint violation (user already voted)
-    if (error.code === '23505') { // PostgreSQL unique violation error code
-      return res.status(409).json({ message: 'You have already voted on this proposal.' });
+    switch (error.message) {
+      case 'VOTING_CLOSED':
+        return res.status(403).json({ message: 'Voting on this proposal is closed.' });
+      case 'NO_VOTING_POWER':
+        return res.status(403).json({ message: 'You hold no voting power for this proposal.' });
+      case 'BLOCKCHAIN_DISABLED':
+        return res.status(503).json({ message: 'Token-weighted voting is unavailable: blockchain is disabled on this server.' });
     }
     logger.error(`Error casting vote on proposal ${proposalId} by user ${voterId || 'unauthenticated'}:`, error);
     res.status(500).json({ message: 'Failed to cast vote.' });
   }
 };
+
+/**
+ * Handles listing a group's proposals with their live tallies.
+ */
+export const getGroupProposals = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { groupId: groupIdString } = req.params;
+  const { status } = req.query;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (status !== undefined && !proposalsService.PROPOSAL_STATUSES.includes(status as proposalsService.ProposalStatus)) {
+    return res.status(400).json({ message: `Status must be one of: ${proposalsService.PROPOSAL_STATUSES.join(', ')}.` });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You must be a member of the group to view its proposals.' });
+    }
+
+    const proposals = await proposalsService.getGroupProposals(groupId, status as proposalsService.ProposalStatus | undefined);
+    res.status(200).json(proposals);
+  } catch (error) {
+    logger.error(`Error fetching proposals for group ${groupId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch proposals.' });
+  }
+};
+
+/**
+ * Handles fetching a single proposal with its live tally.
+ */
+export const getProposal = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { groupId: groupIdString, proposalId: proposalIdString } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  const groupId = parseInt(groupIdString, 10);
+  const proposalId = parseInt(proposalIdString, 10);
+  if (isNaN(groupId) || isNaN(proposalId)) {
+    return res.status(400).json({ message: 'Invalid Group ID or Proposal ID.' });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You must be a member of the group to view its proposals.' });
+    }
+
+    const proposal = await proposalsService.getProposalWithTally(groupId, proposalId);
+    if (!proposal) {
+      return res.status(404).json({ message: 'Proposal not found.' });
+    }
+
+    res.status(200).json(proposal);
+  } catch (error) {
+    logger.error(`Error fetching proposal ${proposalId} in group ${groupId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch proposal.' });
+  }
+};
+
+/**
+ * Handles listing proposals across every group the caller belongs to.
+ */
+export const discoverProposals = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { status } = req.query;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  try {
+    const proposals = await proposalsService.getProposalsForMember(userId, typeof status === 'string' ? status : undefined);
+    res.status(200).json(proposals);
+  } catch (error) {
+    logger.error(`Error discovering proposals for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch proposals.' });
+  }
+};
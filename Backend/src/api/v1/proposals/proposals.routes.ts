@@ -1,20 +1,255 @@
 import { Router } from 'express';
-import { createProposal, castVote } from './proposals.controller';
+import { createProposal, castVote, discoverProposals, getGroupProposals, getProposal } from './proposals.controller';
 import { protect } from '../../../middleware/auth.middleware';
 
+// Mounted under /api/v1/feed-groups/:groupId/proposals.
 const router = Router({ mergeParams: true });
 
+// Mounted under /api/v1/proposals for cross-group discovery.
+export const proposalsDiscoveryRouter = Router();
+
 /**
- * @route   POST /api/v1/feed-groups/:groupId/proposals
- * @desc    Create a new proposal in a group
- * @access  Private
+ * @swagger
+ * /api/v1/proposals:
+ *   get:
+ *     summary: Get proposals from every group the caller belongs to
+ *     tags: [Proposals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, closed, passed, failed]
+ *         description: Filter by proposal status.
+ *     responses:
+ *       200:
+ *         description: A list of proposals.
+ *       401:
+ *         description: Not authorized.
+ */
+proposalsDiscoveryRouter.get('/', protect, discoverProposals);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/proposals:
+ *   post:
+ *     summary: Create a new proposal in a group
+ *     tags: [Proposals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - description
+ *               - durationDays
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               durationDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *               votingMode:
+ *                 type: string
+ *                 enum: [binary, multiple_choice, ranked_choice]
+ *                 default: binary
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 minItems: 2
+ *                 maxItems: 10
+ *                 description: Required for multiple_choice and ranked_choice proposals.
+ *               voteWeighting:
+ *                 type: string
+ *                 enum: [equal, role, reputation, token]
+ *                 default: equal
+ *                 description: >
+ *                   How much each vote counts. role uses the member's group role, reputation
+ *                   the member's reputation score, and token the $Lunoa holdings of their
+ *                   verified Aptos address at the close.
+ *               action:
+ *                 type: object
+ *                 description: >
+ *                   Makes this a treasury-spend proposal. Only binary proposals can carry an action. The action executes against the
+ *                   group treasury when the proposal passes, and fails without overdrawing it
+ *                   if the balance no longer covers the amount.
+ *                 required:
+ *                   - type
+ *                   - amount
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [transfer, fund_quest]
+ *                   amount:
+ *                     type: number
+ *                   recipientUserId:
+ *                     type: string
+ *                     description: Group member whose wallet receives a transfer.
+ *                   questId:
+ *                     type: string
+ *                     description: >
+ *                       Group quest whose reward escrow is topped up. The quest's escrow must be
+ *                       active and funded by this group's treasury.
+ *     responses:
+ *       201:
+ *         description: Proposal created successfully.
+ *       400:
+ *         description: Invalid input or action target.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Feed group not found.
+ *       503:
+ *         description: Token-weighted voting requested while blockchain is disabled.
  */
 router.post('/', protect, createProposal);
 
 /**
- * @route   POST /api/v1/feed-groups/:groupId/proposals/:proposalId/vote
- * @desc    Cast a vote on a proposal
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/proposals:
+ *   get:
+ *     summary: List a group's proposals with live tallies
+ *     description: Proposals whose voting period has ended are closed before the list is returned.
+ *     tags: [Proposals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, closed, passed, failed]
+ *         description: Filter by proposal status.
+ *     responses:
+ *       200:
+ *         description: A list of proposals, each with per-option results, quorum and pass state.
+ *       400:
+ *         description: Invalid group ID or status.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ */
+router.get('/', protect, getGroupProposals);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/proposals/{proposalId}:
+ *   get:
+ *     summary: Get a proposal with its live tally
+ *     description: Closed proposals report the tally they were decided on.
+ *     tags: [Proposals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: proposalId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the proposal.
+ *     responses:
+ *       200:
+ *         description: The proposal and its tally, with per-option results and, for ranked-choice proposals, each runoff round.
+ *       400:
+ *         description: Invalid group or proposal ID.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Proposal not found.
+ */
+router.get('/:proposalId', protect, getProposal);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/proposals/{proposalId}/vote:
+ *   post:
+ *     summary: Cast or change a vote on a proposal
+ *     description: >
+ *       Members can change their vote until the proposal closes. Send the field that
+ *       matches the proposal's voting mode.
+ *     tags: [Proposals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: proposalId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the proposal.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               voteOption:
+ *                 type: boolean
+ *                 description: Binary proposals. true for yes, false for no.
+ *               optionIndex:
+ *                 type: integer
+ *                 description: Multiple-choice proposals. Index of the chosen option.
+ *               rankings:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Ranked-choice proposals. Option indexes, most preferred first.
+ *     responses:
+ *       200:
+ *         description: Vote changed.
+ *       201:
+ *         description: Vote cast successfully.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden, voting closed, or no voting power.
+ *       404:
+ *         description: Proposal not found.
+ *       503:
+ *         description: The proposal is token-weighted and blockchain is disabled.
  */
 router.post('/:proposalId/vote', protect, castVote);
 
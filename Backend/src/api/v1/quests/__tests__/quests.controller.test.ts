@@ -1,7 +1,6 @@
 import request from 'supertest';
 import express, { Request, Response, NextFunction } from 'express';
 import { getPool } from '../../../../config/database';
-import AptosService from '../../blockchain/aptos.service';
 import { protect } from '../../../../middleware/auth.middleware';
 import apiV1 from '../..'; // Import the main v1 router
 import * as feedGroupService from '../../../../services/feedGroups.service';
@@ -10,9 +9,6 @@ import * as feedGroupService from '../../../../services/feedGroups.service';
 jest.mock('../../../../config/database', () => ({
   getPool: jest.fn(),
 }));
-jest.mock('../../blockchain/aptos.service', () => ({
-  distributeQuestRewards: jest.fn().mockResolvedValue('fake_transaction_hash'),
-}));
 jest.mock('../../../../middleware/auth.middleware');
 jest.mock('../../../../services/feedGroups.service', () => ({
   isMember: jest.fn(),
@@ -26,7 +22,6 @@ app.use('/api/v1', apiV1); // Mount the entire v1 API
 
 const mockedGetPool = getPool as jest.Mock;
 const mockedProtect = protect as jest.Mock;
-const mockedAptosService = AptosService as jest.Mocked<typeof AptosService>;
 const mockedFeedGroupService = feedGroupService as jest.Mocked<typeof feedGroupService>;
 
 const mockPool = {
@@ -129,13 +124,12 @@ describe.skip('POST /api/v1/quests/:id/verify', () => {
   const participantId = '202';
   const verifierId = '1';
 
-  it('should successfully verify quest, award achievement, and distribute rewards', async () => {
+  it('should successfully verify quest, award achievement, and queue the reward payout', async () => {
     mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
       req.user = { userId: verifierId };
       next();
     });
 
-    const aptosAddress = '0x' + 'a'.repeat(64);
     const mockClient = { query: jest.fn(), release: jest.fn() };
     mockPool.connect.mockResolvedValue(mockClient);
 
@@ -152,14 +146,12 @@ describe.skip('POST /api/v1/quests/:id/verify', () => {
       .mockResolvedValueOnce({ rowCount: 1 }) // INSERT achievement activity
       .mockResolvedValueOnce({ rows: [], rowCount: 0 }); // COMMIT
 
-    mockPool.query.mockResolvedValueOnce({ rows: [{ aptos_address: aptosAddress }], rowCount: 1 });
-
     const response = await request(app).post(`/api/v1/quests/${questId}/verify`).send({ participantId });
 
     expect(response.status).toBe(200);
     expect(response.body.message).toBe('Quest completion verified successfully.');
     expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
-    expect(mockedAptosService.distributeQuestRewards).toHaveBeenCalledWith(aptosAddress, 500000);
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO reward_payouts'), [questId, participantId, 500000]);
   });
 
   it('should return 403 if the verifier is not the quest creator', async () => {
@@ -375,6 +367,7 @@ describe('Group-Specific Quests: /api/v1/feed-groups/:groupId/quests', () => {
       reward: 200,
       currency: 'Lunoa' as const,
       type: 'social' as const,
+      max_winners: 3,
       expires_at: new Date(Date.now() + 86400000).toISOString(),
     };
 
@@ -384,7 +377,9 @@ describe('Group-Specific Quests: /api/v1/feed-groups/:groupId/quests', () => {
         next();
       });
       mockedFeedGroupService.isMember.mockResolvedValue(true);
-      mockPool.query.mockResolvedValue({ rows: [{ id: questId, ...newQuestData }] });
+      // The quest, the creator's wallet debit and its escrow all go through one client.
+      mockPool.connect.mockResolvedValue({ query: mockPool.query, release: jest.fn() });
+      mockPool.query.mockResolvedValue({ rows: [{ id: questId, ...newQuestData }], rowCount: 1 });
 
       const response = await request(app)
         .post(`/api/v1/feed-groups/${groupId}/quests`)
@@ -409,6 +404,82 @@ describe('Group-Specific Quests: /api/v1/feed-groups/:groupId/quests', () => {
       expect(response.status).toBe(403);
       expect(response.body.message).toBe('Forbidden: You are not a member of this group.');
     });
+
+    it('should return 400 if a quest without max_participants has no max_winners', async () => {
+      mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+        req.user = { userId: creatorId };
+        next();
+      });
+      const { max_winners, ...withoutWinners } = newQuestData;
+
+      const response = await request(app)
+        .post(`/api/v1/feed-groups/${groupId}/quests`)
+        .send(withoutWinners);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('max_winners');
+      expect(mockedFeedGroupService.isMember).not.toHaveBeenCalled();
+      expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /:id', () => {
+    beforeEach(() => {
+      mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+        req.user = { userId: creatorId };
+        next();
+      });
+      mockedFeedGroupService.isMember.mockResolvedValue(true);
+    });
+
+    it('should update the fields a creator may change', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ creator_id: creatorId, chain_quest_id: null }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ id: questId, title: 'Renamed quest' }], rowCount: 1 });
+
+      const response = await request(app).put(`/api/v1/feed-groups/${groupId}/quests/${questId}`).send({ title: 'Renamed quest' });
+
+      expect(response.status).toBe(200);
+      expect(mockPool.query).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE quests SET "title" = $1'), ['Renamed quest', questId]);
+    });
+
+    it.each([
+      ['reward', { reward: 1000 }],
+      ['max_winners', { max_winners: 50 }],
+      ['status', { status: 'active' }],
+      ['reward_pool', { reward_pool: 10 }],
+      ['chain_quest_id', { chain_quest_id: '3' }],
+    ])('should return 400 for an update of %s, which the escrow fixes', async (_, update) => {
+      const response = await request(app).put(`/api/v1/feed-groups/${groupId}/quests/${questId}`).send(update);
+
+      expect(response.status).toBe(400);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for a quest created on-chain', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ creator_id: creatorId, chain_quest_id: '4' }], rowCount: 1 });
+
+      const response = await request(app).put(`/api/v1/feed-groups/${groupId}/quests/${questId}`).send({ title: 'Renamed quest' });
+
+      expect(response.status).toBe(409);
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('DELETE /:id', () => {
+    it('should return 409 for a quest created on-chain', async () => {
+      mockedProtect.mockImplementation((req: Request, res: Response, next: NextFunction) => {
+        req.user = { userId: creatorId };
+        next();
+      });
+      mockedFeedGroupService.isMember.mockResolvedValue(true);
+      mockPool.query.mockResolvedValueOnce({ rows: [{ creator_id: creatorId, chain_quest_id: '4' }], rowCount: 1 });
+
+      const response = await request(app).delete(`/api/v1/feed-groups/${groupId}/quests/${questId}`);
+
+      expect(response.status).toBe(409);
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('POST /:questId/join', () => {
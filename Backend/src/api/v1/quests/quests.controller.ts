@@ -1,10 +1,59 @@
 import { Request, Response } from 'express';
-import { Quest, questSchema } from './quests.model';
+import {
+  DEFAULT_SEARCH_RADIUS_M, Quest, checkInSchema, checkInsQuerySchema, completeQuestSchema, nearbyQuestsQuerySchema,
+  questClustersQuerySchema, questSchema, questUpdateSchema, reviewStepSchema, reviewSubmissionSchema, submissionsQuerySchema, submitStepSchema,
+} from './quests.model';
 import logger from '../../../config/logger';
 import { getPool } from '../../../config/database';
-import AptosService from '../blockchain/aptos.service';
 import * as feedGroupService from '../../../services/feedGroups.service';
 import * as questsService from '../../../services/quests.service';
+import * as checkInsService from '../../../services/checkIns.service';
+import * as submissionsService from '../../../services/submissions.service';
+import * as escrowService from '../../../services/escrow.service';
+import * as questStepsService from '../../../services/questSteps.service';
+import * as questIndexerService from '../../../services/questIndexer.service';
+
+const QUEST_ON_CHAIN_MESSAGE = 'This quest was created on-chain; it is managed through the quest contract.';
+
+// Answers the evidence errors shared by completions and check-ins. Returns false for any other error.
+const respondToEvidenceError = (error: Error, res: Response): boolean => {
+  switch (error.message) {
+    case 'MISSING_EVIDENCE':
+      res.status(400).json({ message: 'This quest requires evidence that was not provided. See its required_evidence.' });
+      return true;
+    case 'VIBE_NFT_NOT_FOUND':
+      res.status(400).json({ message: 'The Vibe NFT mint transaction was not found on-chain or did not succeed.' });
+      return true;
+    case 'EVIDENCE_ALREADY_USED':
+      res.status(409).json({ message: 'This Vibe NFT has already been submitted as evidence.' });
+      return true;
+    case 'BLOCKCHAIN_DISABLED':
+      res.status(503).json({ message: 'Vibe NFT evidence cannot be checked: blockchain is disabled on this server.' });
+      return true;
+    default:
+      return false;
+  }
+};
+
+// Answers the errors for joining or submitting too late, early or to a full quest, with the
+// error code so clients can tell them apart. Returns false for any other error.
+const respondToDeadlineError = (error: Error, res: Response): boolean => {
+  const responses: Record<string, [number, string]> = {
+    QUEST_EXPIRED: [410, 'This quest has expired.'],
+    COMPLETION_DEADLINE_PASSED: [410, 'Your deadline to complete this quest has passed.'],
+    JOIN_WINDOW_NOT_OPEN: [409, 'This quest is not open for joining yet.'],
+    JOIN_WINDOW_CLOSED: [409, 'This quest is no longer open for joining.'],
+    QUEST_FULL: [409, 'This quest has reached its maximum number of participants.'],
+  };
+  const response = responses[error.message];
+  if (!response) {
+    return false;
+  }
+  res.status(response[0]).json({ code: error.message, message: response[1] });
+  return true;
+};
+
+const STEPS_REQUIRED_MESSAGE = 'This quest is a chain: complete it step by step through /steps/{stepId}/submit.';
 
 /**
  * Create a new quest.
@@ -37,9 +86,22 @@ export const createQuest = async (req: Request, res: Response) => {
     const newQuest = await questsService.createQuest({ groupId, creatorId: creator_id, ...value });
     logger.info('New quest created:', newQuest);
     res.status(201).json(newQuest);
-  } catch (dbError) {
-    logger.error('Error creating quest in database:', dbError);
-    res.status(500).json({ message: 'Failed to create quest.' });
+  } catch (dbError: any) {
+    switch (dbError.message) {
+      case 'INSUFFICIENT_FUNDS':
+        return res.status(409).json({
+          message: value.funding_source === 'treasury'
+            ? 'The group treasury cannot cover the reward budget (reward × max_winners).'
+            : 'Your wallet balance cannot cover the reward budget (reward × max_winners).',
+        });
+      case 'TREASURY_FUNDING_FORBIDDEN':
+        return res.status(403).json({ message: 'Forbidden: Only the group creator and admins can fund quests from the treasury.' });
+      case 'INVALID_PREREQUISITE':
+        return res.status(400).json({ message: 'Every prerequisite must be a quest of this group or an existing achievement.' });
+      default:
+        logger.error('Error creating quest in database:', dbError);
+        return res.status(500).json({ message: 'Failed to create quest.' });
+    }
   }
 };
 
@@ -77,6 +139,27 @@ export const getAllQuests = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get quests across every group the caller belongs to.
+ */
+export const discoverQuests = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { type, status, creator_id } = req.query;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const filters = { type, status, creator_id } as any;
+    const quests = await questsService.getQuestsForMember(userId, filters);
+    res.status(200).json(quests);
+  } catch (dbError) {
+    logger.error(`Error discovering quests for user ${userId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch quests.' });
+  }
+};
+
 /**
  * Get a specific quest by its ID.
  */
@@ -134,13 +217,18 @@ export const updateQuest = async (req: Request, res: Response) => {
     return res.status(400).json({ message: 'No update data provided.' });
   }
 
+  const { error, value } = questUpdateSchema.validate(body);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
   try {
     const isMember = await feedGroupService.isMember(groupId, authenticatedUserId);
     if (!isMember) {
       return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
     }
 
-    const updatedQuest = await questsService.updateQuest(questId, groupId, authenticatedUserId, body);
+    const updatedQuest = await questsService.updateQuest(questId, groupId, authenticatedUserId, value);
 
     if (!updatedQuest) {
       return res.status(404).json({ message: 'Quest not found in this group.' });
@@ -153,6 +241,9 @@ export const updateQuest = async (req: Request, res: Response) => {
     if (dbError.message === 'FORBIDDEN') {
       return res.status(403).json({ message: 'Forbidden: You can only update your own quests.' });
     }
+    if (dbError.message === 'QUEST_ON_CHAIN') {
+      return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+    }
     logger.error(`Error updating quest ${questId}:`, dbError);
     res.status(500).json({ message: 'Failed to update quest.' });
   }
@@ -198,11 +289,95 @@ export const deleteQuest = async (req: Request, res: Response) => {
     if (dbError.message === 'FORBIDDEN') {
       return res.status(403).json({ message: 'Forbidden: You can only delete your own quests.' });
     }
+    if (dbError.message === 'QUEST_ON_CHAIN') {
+      return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+    }
     logger.error(`Error deleting quest ${questId} from group ${groupId}:`, dbError);
     res.status(500).json({ message: 'Failed to delete quest.' });
   }
 };
 
+/**
+ * Cancel a quest and refund what is left of its escrow.
+ */
+export const cancelQuest = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const { quest, refunded } = await questsService.cancelQuest(questId, groupId, userId);
+    res.status(200).json({ message: 'Quest cancelled.', data: quest, refunded });
+
+  } catch (dbError: any) {
+    switch (dbError.message) {
+      case 'QUEST_NOT_FOUND':
+        return res.status(404).json({ message: 'Quest not found in this group.' });
+      case 'FORBIDDEN':
+        return res.status(403).json({ message: 'Forbidden: You can only cancel your own quests.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+      case 'QUEST_NOT_ACTIVE':
+        return res.status(409).json({ message: 'Only active quests can be cancelled.' });
+      default:
+        logger.error(`Error cancelling quest ${questId} in group ${groupId}:`, dbError);
+        return res.status(500).json({ message: 'Failed to cancel quest.' });
+    }
+  }
+};
+
+/**
+ * Get a quest's reward escrow.
+ */
+export const getQuestEscrow = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const quest = await questsService.getQuestById(questId, groupId);
+    if (!quest) {
+      return res.status(404).json({ message: 'Quest not found in this group.' });
+    }
+
+    const escrow = await escrowService.getQuestEscrow(questId);
+    if (!escrow) {
+      return res.status(404).json({ message: 'This quest has no escrow.' });
+    }
+    res.status(200).json(escrow);
+
+  } catch (dbError) {
+    logger.error(`Error fetching the escrow of quest ${questId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch quest escrow.' });
+  }
+};
+
 /**
  * Join a quest.
  */
@@ -232,13 +407,25 @@ export const joinQuest = async (req: Request, res: Response) => {
     res.status(200).json({ message: 'Successfully joined quest', data: participantRecord });
 
   } catch (dbError: any) {
+    if (respondToDeadlineError(dbError, res)) {
+      return;
+    }
     switch (dbError.message) {
       case 'NOT_FOUND':
         return res.status(404).json({ message: 'Quest not found in this group.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
       case 'CANNOT_JOIN_OWN_QUEST':
         return res.status(400).json({ message: 'You cannot join your own quest.' });
+      case 'QUEST_NOT_ACTIVE':
+        return res.status(409).json({ message: 'This quest is no longer active.' });
       case 'ALREADY_JOINED':
         return res.status(409).json({ message: 'You have already joined this quest.' });
+      case 'PREREQUISITES_NOT_MET':
+        return res.status(403).json({
+          code: dbError.message,
+          message: 'You do not meet this quest\'s prerequisites. See /prerequisites for what is missing.',
+        });
       default:
         logger.error(`Error joining quest ${questId} in group ${groupId}:`, dbError);
         return res.status(500).json({ message: 'Failed to join quest.' });
@@ -251,6 +438,7 @@ export const joinQuest = async (req: Request, res: Response) => {
  */
 export const completeQuest = async (req: Request, res: Response) => {
   const { groupId: groupIdString, id: questId } = req.params;
+  const { error, value } = completeQuestSchema.validate(req.body ?? {});
   const userId = req.user?.userId;
 
   const groupId = parseInt(groupIdString, 10);
@@ -262,6 +450,10 @@ export const completeQuest = async (req: Request, res: Response) => {
     return res.status(401).json({ message: 'Not authorized.' });
   }
 
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
   try {
     // Verify the user is a member of the group first
     const isMember = await feedGroupService.isMember(groupId, userId);
@@ -269,17 +461,28 @@ export const completeQuest = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
     }
 
-    const updatedParticipant = await questsService.completeQuest(questId, groupId, userId);
+    const updatedParticipant = await questsService.completeQuest(questId, groupId, userId, value.evidence);
 
     logger.info(`User ${userId} marked quest ${questId} in group ${groupId} as completed.`);
     res.status(200).json({ message: 'Quest marked as completed. Awaiting verification.', data: updatedParticipant });
 
   } catch (dbError: any) {
+    if (respondToEvidenceError(dbError, res) || respondToDeadlineError(dbError, res)) {
+      return;
+    }
     switch (dbError.message) {
       case 'NOT_A_PARTICIPANT':
         return res.status(404).json({ message: 'You are not a participant in this quest or it does not exist in this group.' });
       case 'ALREADY_SUBMITTED':
         return res.status(409).json({ message: 'Quest completion has already been submitted.' });
+      case 'CHECK_IN_REQUIRED':
+        return res.status(400).json({ message: 'Location-based quests are completed by checking in at the quest location.' });
+      case 'STEPS_REQUIRED':
+        return res.status(400).json({ message: STEPS_REQUIRED_MESSAGE });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+      case 'QUEST_NOT_ACTIVE':
+        return res.status(409).json({ message: 'This quest is no longer active.' });
       default:
         logger.error(`Error completing quest ${questId} for user ${userId} in group ${groupId}:`, dbError);
         return res.status(500).json({ message: 'Failed to complete quest.' });
@@ -287,6 +490,255 @@ export const completeQuest = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Check in at a location-based quest's location to complete it.
+ */
+export const checkInToQuest = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const { error, value } = checkInSchema.validate(req.body);
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const { checkIn, submission, payout } = await checkInsService.checkInToQuest(questId, groupId, userId, {
+      latitude: value.latitude,
+      longitude: value.longitude,
+      accuracy: value.accuracy,
+      recordedAt: value.timestamp,
+      evidence: value.evidence,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    logger.info(`User ${userId} checked in to quest ${questId}: ${checkIn.status}${checkIn.flags.length ? ` (${checkIn.flags.join(', ')})` : ''}.`);
+
+    if (checkIn.status === 'rejected') {
+      return res.status(422).json({ message: 'Check-in rejected: you are not at the quest location.', data: checkIn });
+    }
+
+    let message = 'Check-in accepted. Awaiting verification.';
+    if (checkIn.auto_verified) {
+      message = payout ? 'Check-in verified and reward payout queued.' : 'Check-in verified.';
+    } else if (checkIn.status === 'flagged') {
+      message = 'Check-in flagged for review. Awaiting verification.';
+    }
+    res.status(201).json({ message, data: checkIn, submission, payout });
+
+  } catch (dbError: any) {
+    if (respondToEvidenceError(dbError, res) || respondToDeadlineError(dbError, res)) {
+      return;
+    }
+    switch (dbError.message) {
+      case 'QUEST_NOT_FOUND':
+        return res.status(404).json({ message: 'Quest not found in this group.' });
+      case 'NOT_A_PARTICIPANT':
+        return res.status(404).json({ message: 'You are not a participant in this quest.' });
+      case 'NOT_LOCATION_BASED':
+        return res.status(400).json({ message: 'Only location-based quests accept check-ins.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+      case 'STEPS_REQUIRED':
+        return res.status(400).json({ message: STEPS_REQUIRED_MESSAGE });
+      case 'QUEST_NOT_ACTIVE':
+        return res.status(409).json({ message: 'This quest is no longer active.' });
+      case 'QUEST_HAS_NO_LOCATION':
+        return res.status(409).json({ message: 'This quest has no location to check in at.' });
+      case 'ESCROW_EXHAUSTED':
+        return res.status(409).json({ message: 'The quest\'s escrow has already paid out its max_winners rewards.' });
+      case 'ALREADY_SUBMITTED':
+        return res.status(409).json({ message: 'Quest completion has already been submitted.' });
+      default:
+        logger.error(`Error checking in to quest ${questId} for user ${userId} in group ${groupId}:`, dbError);
+        return res.status(500).json({ message: 'Failed to check in.' });
+    }
+  }
+};
+
+/**
+ * Get a quest's check-ins: all of them for the quest's creator, the caller's own otherwise.
+ */
+export const getQuestCheckIns = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const { error, value } = checkInsQuerySchema.validate(req.query);
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const checkIns = await checkInsService.getQuestCheckIns(questId, groupId, userId, value.status);
+    res.status(200).json(checkIns);
+
+  } catch (dbError: any) {
+    if (dbError.message === 'QUEST_NOT_FOUND') {
+      return res.status(404).json({ message: 'Quest not found in this group.' });
+    }
+    logger.error(`Error fetching check-ins for quest ${questId} in group ${groupId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch check-ins.' });
+  }
+};
+
+/**
+ * Get a quest's submissions: all of them for the quest's creator, the caller's own otherwise.
+ */
+export const getQuestSubmissions = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const { error, value } = submissionsQuerySchema.validate(req.query);
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const submissions = await submissionsService.getQuestSubmissions(questId, groupId, userId, value.status);
+    res.status(200).json(submissions);
+
+  } catch (dbError: any) {
+    if (dbError.message === 'QUEST_NOT_FOUND') {
+      return res.status(404).json({ message: 'Quest not found in this group.' });
+    }
+    logger.error(`Error fetching submissions for quest ${questId} in group ${groupId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch submissions.' });
+  }
+};
+
+/**
+ * Approve or reject a submission.
+ */
+export const reviewQuestSubmission = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId, submissionId: submissionIdString } = req.params;
+  const { error, value } = reviewSubmissionSchema.validate(req.body);
+  const reviewerId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  const submissionId = parseInt(submissionIdString, 10);
+  if (isNaN(groupId) || isNaN(submissionId)) {
+    return res.status(400).json({ message: 'Invalid Group ID or Submission ID.' });
+  }
+
+  if (!reviewerId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, reviewerId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const { submission, payout } = await questsService.reviewSubmission(questId, groupId, submissionId, reviewerId, value.decision, value.reason);
+
+    logger.info(`Submission ${submissionId} for quest ${questId} was ${submission.status} by ${reviewerId}.`);
+    let message = 'Submission rejected. The participant may submit again.';
+    if (value.decision === 'approve') {
+      message = payout ? 'Submission approved and reward payout queued.' : 'Submission approved.';
+    }
+    res.status(200).json({ message, data: submission, payout });
+
+  } catch (dbError: any) {
+    switch (dbError.message) {
+      case 'QUEST_NOT_FOUND':
+        return res.status(404).json({ message: 'Quest not found in this group.' });
+      case 'FORBIDDEN':
+        return res.status(403).json({ message: 'Forbidden: Only the quest creator can review submissions.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+      case 'SUBMISSION_NOT_FOUND':
+        return res.status(404).json({ message: 'Submission not found for this quest.' });
+      case 'ESCROW_EXHAUSTED':
+        return res.status(409).json({ message: 'The quest\'s escrow has already paid out its max_winners rewards.' });
+      case 'SUBMISSION_ALREADY_REVIEWED':
+        return res.status(409).json({ message: 'This submission has already been reviewed.' });
+      default:
+        logger.error(`Error reviewing submission ${submissionId} for quest ${questId}:`, dbError);
+        return res.status(500).json({ message: 'Failed to review submission.' });
+    }
+  }
+};
+
+/**
+ * Get the submissions awaiting review across every quest the caller created.
+ */
+export const getReviewQueue = async (req: Request, res: Response) => {
+  const reviewerId = req.user?.userId;
+
+  if (!reviewerId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const submissions = await submissionsService.getReviewQueue(reviewerId);
+    res.status(200).json(submissions);
+  } catch (dbError) {
+    logger.error(`Error fetching the review queue for user ${reviewerId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch the review queue.' });
+  }
+};
+
+/**
+ * Get how far the on-chain quest indexer is behind the chain.
+ */
+export const getQuestIndexerStatus = async (req: Request, res: Response) => {
+  try {
+    const status = await questIndexerService.getQuestIndexerStatus();
+    res.status(200).json(status);
+  } catch (dbError) {
+    logger.error('Error fetching the quest indexer status:', dbError);
+    res.status(500).json({ message: 'Failed to fetch the quest indexer status.' });
+  }
+};
+
 /**
  * Verify quest completion.
  */
@@ -325,10 +777,16 @@ export const verifyQuestCompletion = async (req: Request, res: Response) => {
         return res.status(404).json({ message: 'Quest not found in this group.' });
       case 'FORBIDDEN':
         return res.status(403).json({ message: 'Forbidden: Only the quest creator can verify completion.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
       case 'PARTICIPANT_NOT_FOUND':
         return res.status(404).json({ message: 'Participant not found for this quest.' });
       case 'INVALID_STATUS':
         return res.status(400).json({ message: 'Cannot verify completion for a participant whose status is not submitted.' });
+      case 'STEPS_REQUIRED':
+        return res.status(400).json({ message: 'This quest is a chain: review its steps through /steps/{stepId}/review.' });
+      case 'ESCROW_EXHAUSTED':
+        return res.status(409).json({ message: 'The quest\'s escrow has already paid out its max_winners rewards.' });
       default:
         logger.error(`Error verifying quest ${questId} for user ${participantId}:`, error);
         return res.status(500).json({ message: 'Failed to verify quest completion.' });
@@ -337,12 +795,223 @@ export const verifyQuestCompletion = async (req: Request, res: Response) => {
 };
 
 /**
- * Get a list of participants for a specific quest.
+ * Get a quest's prerequisites and whether the caller meets each one.
+ */
+export const getQuestPrerequisites = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const prerequisites = await questsService.getQuestPrerequisites(questId, groupId, userId);
+    res.status(200).json(prerequisites);
+
+  } catch (dbError: any) {
+    if (dbError.message === 'QUEST_NOT_FOUND') {
+      return res.status(404).json({ message: 'Quest not found in this group.' });
+    }
+    logger.error(`Error fetching prerequisites for quest ${questId} in group ${groupId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch quest prerequisites.' });
+  }
+};
+
+/**
+ * Get a chain quest's steps in order, with the caller's progress on each.
+ */
+export const getQuestSteps = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId } = req.params;
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const steps = await questStepsService.getQuestSteps(questId, groupId, userId);
+    res.status(200).json(steps);
+
+  } catch (dbError: any) {
+    if (dbError.message === 'QUEST_NOT_FOUND') {
+      return res.status(404).json({ message: 'Quest not found in this group.' });
+    }
+    logger.error(`Error fetching steps for quest ${questId} in group ${groupId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch quest steps.' });
+  }
+};
+
+/**
+ * Submit evidence or a check-in for one step of a chain quest.
+ */
+export const submitQuestStep = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId, stepId: stepIdString } = req.params;
+  const { error, value } = submitStepSchema.validate(req.body ?? {});
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  const stepId = parseInt(stepIdString, 10);
+  if (isNaN(groupId) || isNaN(stepId)) {
+    return res.status(400).json({ message: 'Invalid Group ID or Step ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const location = value.location && {
+      latitude: value.location.latitude,
+      longitude: value.location.longitude,
+      accuracy: value.location.accuracy,
+      recordedAt: value.location.timestamp,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    };
+    const { progress, checkIn, questCompleted, payout } = await questStepsService.submitQuestStep(questId, groupId, stepId, userId, {
+      evidence: value.evidence,
+      location,
+    });
+
+    if (!progress) {
+      return res.status(422).json({ message: 'Check-in rejected: you are not at the step\'s location.', checkIn });
+    }
+
+    let message = 'Step submitted. Awaiting review.';
+    if (questCompleted) {
+      message = payout ? 'Final step verified: quest completed and reward payout queued.' : 'Final step verified: quest completed.';
+    } else if (progress.status === 'verified') {
+      message = 'Step verified.';
+    }
+    logger.info(`User ${userId} submitted step ${stepId} of quest ${questId}: ${progress.status}.`);
+    res.status(201).json({ message, data: progress, checkIn, questCompleted, payout });
+
+  } catch (dbError: any) {
+    if (respondToEvidenceError(dbError, res) || respondToDeadlineError(dbError, res)) {
+      return;
+    }
+    switch (dbError.message) {
+      case 'STEP_NOT_FOUND':
+        return res.status(404).json({ message: 'Step not found for this quest.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+      case 'NOT_A_PARTICIPANT':
+        return res.status(404).json({ message: 'You are not a participant in this quest.' });
+      case 'QUEST_NOT_ACTIVE':
+        return res.status(409).json({ message: 'This quest is no longer active.' });
+      case 'STEP_LOCKED':
+        return res.status(409).json({ code: dbError.message, message: 'Every earlier step must be verified first.' });
+      case 'STEP_ALREADY_SUBMITTED':
+        return res.status(409).json({ message: 'This step has already been submitted.' });
+      case 'LOCATION_REQUIRED':
+        return res.status(400).json({ message: 'This step is completed by checking in: a location is required.' });
+      case 'ESCROW_EXHAUSTED':
+        return res.status(409).json({ message: 'The quest\'s escrow has already paid out its max_winners rewards.' });
+      default:
+        logger.error(`Error submitting step ${stepId} of quest ${questId} for user ${userId}:`, dbError);
+        return res.status(500).json({ message: 'Failed to submit step.' });
+    }
+  }
+};
+
+/**
+ * Approve or reject a participant's step awaiting review.
+ */
+export const reviewQuestStep = async (req: Request, res: Response) => {
+  const { groupId: groupIdString, id: questId, stepId: stepIdString } = req.params;
+  const { error, value } = reviewStepSchema.validate(req.body);
+  const reviewerId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  const stepId = parseInt(stepIdString, 10);
+  if (isNaN(groupId) || isNaN(stepId)) {
+    return res.status(400).json({ message: 'Invalid Group ID or Step ID.' });
+  }
+
+  if (!reviewerId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, reviewerId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const { progress, questCompleted, payout } = await questStepsService.reviewQuestStep(
+      questId, groupId, stepId, value.participantId, reviewerId, value.decision, value.reason
+    );
+
+    let message = 'Step rejected. The participant may submit it again.';
+    if (questCompleted) {
+      message = payout ? 'Final step approved: quest completed and reward payout queued.' : 'Final step approved: quest completed.';
+    } else if (value.decision === 'approve') {
+      message = 'Step approved.';
+    }
+    logger.info(`Step ${stepId} of quest ${questId} for user ${value.participantId} was ${progress.status} by ${reviewerId}.`);
+    res.status(200).json({ message, data: progress, questCompleted, payout });
+
+  } catch (dbError: any) {
+    switch (dbError.message) {
+      case 'QUEST_NOT_FOUND':
+        return res.status(404).json({ message: 'Quest not found in this group.' });
+      case 'FORBIDDEN':
+        return res.status(403).json({ message: 'Forbidden: Only the quest creator can review steps.' });
+      case 'QUEST_ON_CHAIN':
+        return res.status(409).json({ message: QUEST_ON_CHAIN_MESSAGE });
+      case 'STEP_NOT_FOUND':
+        return res.status(404).json({ message: 'Step not found for this quest.' });
+      case 'STEP_NOT_SUBMITTED':
+        return res.status(409).json({ message: 'This participant has no submission awaiting review for this step.' });
+      case 'ESCROW_EXHAUSTED':
+        return res.status(409).json({ message: 'The quest\'s escrow has already paid out its max_winners rewards.' });
+      default:
+        logger.error(`Error reviewing step ${stepId} of quest ${questId}:`, dbError);
+        return res.status(500).json({ message: 'Failed to review step.' });
+    }
+  }
+};
+
+/**
+ * Get a list of participants for a specific quest, with their progress on each step of a chain quest.
  */
 export const getQuestParticipants = async (req: Request, res: Response) => {
   const { groupId: groupIdString, id: questId } = req.params;
-  // @ts-ignore
-  const userId = req.user?.id;
+  const userId = req.user?.userId;
 
   const groupId = parseInt(groupIdString, 10);
   if (isNaN(groupId)) {
@@ -371,7 +1040,13 @@ export const getQuestParticipants = async (req: Request, res: Response) => {
         u.id AS "userId",
         u.username,
         qp.joined_at AS "joinedAt",
-        qp.status
+        qp.status,
+        COALESCE((
+          SELECT json_agg(json_build_object('stepId', s.id, 'position', s.position, 'title', s.title, 'status', COALESCE(sp.status, 'pending')) ORDER BY s.position)
+          FROM quest_steps s
+          LEFT JOIN quest_step_progress sp ON sp.step_id = s.id AND sp.user_id = qp.user_id
+          WHERE s.quest_id = qp.quest_id
+        ), '[]') AS steps
       FROM quest_participants qp
       JOIN users u ON qp.user_id = u.id
       WHERE qp.quest_id = $1
@@ -389,13 +1064,12 @@ export const getQuestParticipants = async (req: Request, res: Response) => {
 };
 
 /**
- * Get quests near a specific location.
+ * Get active location-based quests near a point, nearest first, within a radius or a bounding box.
  */
 export const getNearbyQuests = async (req: Request, res: Response) => {
   const { groupId: groupIdString } = req.params;
-  const { lat, lon, radius } = req.query; // lat, lon as strings
-  // @ts-ignore
-  const userId = req.user?.id;
+  const { error, value } = nearbyQuestsQuerySchema.validate(req.query);
+  const userId = req.user?.userId;
 
   const groupId = parseInt(groupIdString, 10);
   if (isNaN(groupId)) {
@@ -406,15 +1080,10 @@ export const getNearbyQuests = async (req: Request, res: Response) => {
     return res.status(401).json({ message: 'Not authorized.' });
   }
 
-  if (!lat || !lon) {
-    return res.status(400).json({ message: 'Latitude and longitude are required.' });
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
   }
 
-  // Note: This is a simplified implementation.
-  // A full implementation would use a geospatial query (e.g., with PostGIS)
-  // to filter quests based on the user's location and a radius.
-  // Here, we fetch all active, location-based quests and let the client filter.
-
   try {
     // Verify the user is a member of the group
     const isMember = await feedGroupService.isMember(groupId, userId);
@@ -422,19 +1091,55 @@ export const getNearbyQuests = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
     }
 
-    const query = `
-      SELECT
-        id, title, description, reward, currency, type, status, latitude, longitude, expires_at AS "expiresAt"
-      FROM quests
-      WHERE type = 'location_based' AND status = 'active' AND group_id = $1;
-    `;
-    const result = await getPool().query(query, [groupId]);
+    const quests = await questsService.findNearbyQuests(groupId, {
+      latitude: value.lat,
+      longitude: value.lon,
+      radius: value.radius ?? DEFAULT_SEARCH_RADIUS_M,
+      bbox: value.bbox,
+      limit: value.limit,
+    });
 
-    logger.info(`Fetched ${result.rows.length} active location-based quests for group ${groupId}.`);
-    res.status(200).json(result.rows);
+    logger.info(`Found ${quests.length} nearby location-based quests for group ${groupId}.`);
+    res.status(200).json(quests);
 
   } catch (dbError) {
     logger.error(`Error fetching nearby quests for group ${groupId}:`, dbError);
     res.status(500).json({ message: 'Failed to fetch nearby quests.' });
   }
 };
+
+/**
+ * Get active location-based quests in a map viewport, clustered for the given zoom level.
+ */
+export const getQuestClusters = async (req: Request, res: Response) => {
+  const { groupId: groupIdString } = req.params;
+  const { error, value } = questClustersQuerySchema.validate(req.query);
+  const userId = req.user?.userId;
+
+  const groupId = parseInt(groupIdString, 10);
+  if (isNaN(groupId)) {
+    return res.status(400).json({ message: 'Invalid Group ID.' });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const isMember = await feedGroupService.isMember(groupId, userId);
+    if (!isMember) {
+      return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+    }
+
+    const clusters = await questsService.clusterQuests(groupId, value.bbox, value.zoom);
+    res.status(200).json(clusters);
+
+  } catch (dbError) {
+    logger.error(`Error clustering quests for group ${groupId}:`, dbError);
+    res.status(500).json({ message: 'Failed to fetch quest clusters.' });
+  }
+};
@@ -1,4 +1,9 @@
 import Joi from 'joi';
+import { CHECK_IN_STATUSES, MAX_GEOFENCE_RADIUS_M, MIN_GEOFENCE_RADIUS_M } from '../../../utils/checkInRules';
+import { ESCROW_FUNDING_SOURCES } from '../../../services/escrow.service';
+import { STEP_EVIDENCE_TYPES, STEP_VERIFICATION_METHODS } from '../../../services/questSteps.service';
+import { EVIDENCE_TYPES, SUBMISSION_STATUSES } from '../../../services/submissions.service';
+import { MAX_MERCATOR_LATITUDE, MAX_ZOOM, MIN_ZOOM, parseBoundingBox } from '../../../utils/geo';
 
 export interface Quest {
   id: string;
@@ -8,16 +13,176 @@ export interface Quest {
   reward: number;
   currency: 'Lunoa' | 'USDC';
   type: 'social' | 'location_based';
-  status: 'active' | 'completed' | 'expired';
+  status: 'active' | 'completed' | 'expired' | 'cancelled';
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_m: number;
+  check_in_auto_verify: boolean;
+  required_evidence: ('photo' | 'text' | 'url' | 'vibe_nft')[];
+  max_participants: number | null;
+  max_winners: number | null;
+  join_opens_at: string | null;
+  join_closes_at: string | null;
+  completion_window_minutes: number | null;
   created_at: string;
   expires_at: string;
+  chain_quest_id: string | null;
 }
 
+export const DEFAULT_SEARCH_RADIUS_M = 5000;
+export const MAX_SEARCH_RADIUS_M = 100_000;
+export const MAX_NEARBY_RESULTS = 200;
+export const MAX_COMPLETION_WINDOW_MINUTES = 365 * 24 * 60;
+export const MAX_QUEST_STEPS = 20;
+export const MAX_QUEST_PREREQUISITES = 10;
+
+export const latitude = Joi.number().min(-90).max(90);
+export const longitude = Joi.number().min(-180).max(180);
+const geofenceRadius = Joi.number().integer().min(MIN_GEOFENCE_RADIUS_M).max(MAX_GEOFENCE_RADIUS_M);
+
+const questStepSchema = Joi.object({
+  title: Joi.string().min(3).max(100).required(),
+  description: Joi.string().max(1000),
+  verification_method: Joi.string().valid(...STEP_VERIFICATION_METHODS).required(),
+  required_evidence: Joi.array().items(Joi.string().valid(...STEP_EVIDENCE_TYPES)).unique(),
+  // Check-in steps are checked in to at their own location.
+  latitude: latitude.when('verification_method', { is: 'check_in', then: Joi.required() }),
+  longitude: longitude.when('verification_method', { is: 'check_in', then: Joi.required() }),
+  geofence_radius_m: geofenceRadius,
+}).and('latitude', 'longitude');
+
+const questPrerequisiteSchema = Joi.object({
+  // A quest of the same group the user must have been verified on.
+  quest_id: Joi.string().uuid(),
+  achievement_id: Joi.number().integer().positive(),
+  // The reputation score the user must have.
+  min_reputation: Joi.number().integer().min(1),
+}).xor('quest_id', 'achievement_id', 'min_reputation');
+
 export const questSchema = Joi.object({
   title: Joi.string().min(3).max(100).required(),
   description: Joi.string().min(10).max(1000).required(),
-  reward: Joi.number().positive().required(),
+  // Paid on-chain in whole tokens, from an escrow of reward × max_winners.
+  reward: Joi.number().integer().positive().required(),
   currency: Joi.string().valid('Lunoa', 'USDC').required(),
   type: Joi.string().valid('social', 'location_based').required(),
+  // Location-based quests need a place on the map; other quests may have one.
+  latitude: latitude.when('type', { is: 'location_based', then: Joi.required() }),
+  longitude: longitude.when('type', { is: 'location_based', then: Joi.required() }),
+  // Participants check in within this many metres of the quest's location.
+  geofence_radius_m: geofenceRadius,
+  check_in_auto_verify: Joi.boolean(),
+  // What participants must submit as proof of completion.
+  required_evidence: Joi.array().items(Joi.string().valid(...EVIDENCE_TYPES)).unique(),
+  max_participants: Joi.number().integer().min(1),
+  // reward × max_winners is locked in escrow when the quest is created. Required without max_participants.
+  max_winners: Joi.number().integer().min(1).when('max_participants', {
+    is: Joi.exist(),
+    then: Joi.number().max(Joi.ref('max_participants')),
+    otherwise: Joi.required(),
+  }).messages({ 'any.required': '{{#label}} is required when max_participants is not set' }),
+  funding_source: Joi.string().valid(...ESCROW_FUNDING_SOURCES).default('creator'),
+  // People may join from join_opens_at until join_closes_at; either end may be left open.
+  join_opens_at: Joi.date().iso().less(Joi.ref('expires_at')),
+  join_closes_at: Joi.date().iso().greater('now').max(Joi.ref('expires_at'))
+    .when('join_opens_at', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('join_opens_at')) }),
+  // How long each participant has from joining to submit. Never runs past expires_at.
+  completion_window_minutes: Joi.number().integer().min(1).max(MAX_COMPLETION_WINDOW_MINUTES),
   expires_at: Joi.date().iso().greater('now').required(),
+  // Makes the quest a chain: participants complete these steps, in order, instead of the quest itself.
+  steps: Joi.array().items(questStepSchema).min(1).max(MAX_QUEST_STEPS),
+  // Users must meet every one of these to join.
+  prerequisites: Joi.array().items(questPrerequisiteSchema).unique().max(MAX_QUEST_PREREQUISITES),
+}).and('latitude', 'longitude');
+
+// What a creator may change once a quest exists. The reward, max_winners and currency are
+// fixed by the escrow locked at creation, and the status only moves through cancelling,
+// expiry and the quest contract.
+export const questUpdateSchema = Joi.object({
+  title: Joi.string().min(3).max(100),
+  description: Joi.string().min(10).max(1000),
+  type: Joi.string().valid('social', 'location_based'),
+  latitude,
+  longitude,
+  geofence_radius_m: geofenceRadius,
+  check_in_auto_verify: Joi.boolean(),
+  required_evidence: Joi.array().items(Joi.string().valid(...EVIDENCE_TYPES)).unique(),
+  max_participants: Joi.number().integer().min(1),
+  join_opens_at: Joi.date().iso(),
+  join_closes_at: Joi.date().iso().greater('now'),
+  completion_window_minutes: Joi.number().integer().min(1).max(MAX_COMPLETION_WINDOW_MINUTES),
+  expires_at: Joi.date().iso().greater('now'),
+}).min(1).and('latitude', 'longitude');
+
+// "west,south,east,north" in degrees, converted to a BoundingBox.
+export const boundingBox = (maxLatitude?: number) => Joi.string().custom((value, helpers) =>
+  parseBoundingBox(value, maxLatitude) ?? helpers.error('any.invalid')
+).messages({ 'any.invalid': '{{#label}} must be "west,south,east,north" in degrees, with west < east and south < north' });
+
+export const nearbyQuestsQuerySchema = Joi.object({
+  lat: latitude.required(),
+  lon: longitude.required(),
+  // Search within a radius of (lat, lon), or within a box; either way results are sorted by distance from (lat, lon).
+  radius: Joi.number().positive().max(MAX_SEARCH_RADIUS_M),
+  bbox: boundingBox(),
+  limit: Joi.number().integer().min(1).max(MAX_NEARBY_RESULTS).default(50),
+}).oxor('radius', 'bbox').messages({ 'object.oxor': 'Pass either radius or bbox, not both.' });
+
+export const questClustersQuerySchema = Joi.object({
+  bbox: boundingBox(MAX_MERCATOR_LATITUDE).required(),
+  zoom: Joi.number().integer().min(MIN_ZOOM).max(MAX_ZOOM).required(),
+});
+
+// IPFS content identifiers: CIDv0 (base58, "Qm...") or base32 CIDv1 ("b...").
+export const IPFS_CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/;
+
+export const evidenceSchema = Joi.object({
+  // Uploaded first through /api/v1/media/upload.
+  photo: Joi.object({ ipfsHash: Joi.string().pattern(IPFS_CID, 'IPFS CID').required() }),
+  text: Joi.string().trim().min(1).max(2000),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).max(2048),
+  // The hash of the transaction that minted the Vibe NFT.
+  vibeNft: Joi.object({ transactionHash: Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/, 'transaction hash').required() }),
+});
+
+export const completeQuestSchema = Joi.object({
+  evidence: evidenceSchema.default({}),
+});
+
+const locationFixKeys = {
+  latitude: latitude.required(),
+  longitude: longitude.required(),
+  // Radius of the fix's 68% confidence circle in metres, as reported by the device.
+  accuracy: Joi.number().min(0).required(),
+  // When the device took the fix.
+  timestamp: Joi.date().iso().required(),
+};
+
+export const checkInSchema = Joi.object({
+  ...locationFixKeys,
+  evidence: evidenceSchema,
+});
+
+export const submitStepSchema = Joi.object({
+  evidence: evidenceSchema.default({}),
+  // Required for check-in steps.
+  location: Joi.object(locationFixKeys),
+});
+
+export const checkInsQuerySchema = Joi.object({
+  status: Joi.string().valid(...CHECK_IN_STATUSES),
+});
+
+export const submissionsQuerySchema = Joi.object({
+  status: Joi.string().valid(...SUBMISSION_STATUSES),
+});
+
+export const reviewSubmissionSchema = Joi.object({
+  decision: Joi.string().valid('approve', 'reject').required(),
+  // Shown to the participant. Required when rejecting.
+  reason: Joi.string().trim().max(500).when('decision', { is: 'reject', then: Joi.required() }),
+});
+
+export const reviewStepSchema = reviewSubmissionSchema.keys({
+  participantId: Joi.string().uuid().required(),
 });
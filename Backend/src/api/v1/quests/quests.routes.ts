@@ -1,11 +1,91 @@
 import { Router } from 'express';
-import { createQuest, getAllQuests, getQuestById, updateQuest, deleteQuest, joinQuest, completeQuest, verifyQuestCompletion, getQuestParticipants, getNearbyQuests } from './quests.controller';
+import { createQuest, getAllQuests, getQuestById, updateQuest, deleteQuest, cancelQuest, getQuestEscrow, joinQuest, completeQuest, verifyQuestCompletion, getQuestParticipants, getNearbyQuests, getQuestClusters, discoverQuests, checkInToQuest, getQuestCheckIns, getQuestSubmissions, reviewQuestSubmission, getReviewQueue, getQuestIndexerStatus, getQuestPrerequisites, getQuestSteps, submitQuestStep, reviewQuestStep } from './quests.controller';
 import { protect } from '../../../middleware/auth.middleware';
+import { requireAdmin } from '../../../middleware/requireAdmin';
 
-// This router is intended to be mounted under a route that includes a :groupId parameter.
-// For example: app.use('/api/v1/feed-groups/:groupId/quests', questRoutes);
+// Mounted under /api/v1/feed-groups/:groupId/quests.
 const router = Router({ mergeParams: true });
 
+// Mounted under /api/v1/quests for cross-group discovery.
+export const questsDiscoveryRouter = Router();
+
+/**
+ * @swagger
+ * /api/v1/quests:
+ *   get:
+ *     summary: Get quests from every group the caller belongs to
+ *     tags: [Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [social, location_based]
+ *         description: Filter by quest type.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, expired]
+ *         description: Filter by quest status.
+ *       - in: query
+ *         name: creator_id
+ *         schema:
+ *           type: string
+ *         description: Filter by quest creator.
+ *     responses:
+ *       200:
+ *         description: A list of quests.
+ *       401:
+ *         description: Not authorized.
+ */
+questsDiscoveryRouter.get('/', protect, discoverQuests);
+
+/**
+ * @swagger
+ * /api/v1/quests/review-queue:
+ *   get:
+ *     summary: Get the submissions awaiting the caller's review
+ *     description: Pending submissions across every quest the caller created, oldest first.
+ *     tags: [Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A list of pending submissions with their quest and evidence.
+ *       401:
+ *         description: Not authorized.
+ */
+questsDiscoveryRouter.get('/review-queue', protect, getReviewQueue);
+
+/**
+ * @swagger
+ * /api/v1/quests/chain-sync:
+ *   get:
+ *     summary: Get how far the on-chain quest indexer is behind
+ *     description: >
+ *       Quests created directly on the quest contract are indexed from its events into the
+ *       group set by CHAIN_QUEST_GROUP_ID. Reports, per event handle, how many events have
+ *       been indexed and how many the chain had emitted when it was last polled.
+ *     tags: [Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The indexer's sync status.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QuestIndexerStatus'
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ */
+questsDiscoveryRouter.get('/chain-sync', protect, requireAdmin, getQuestIndexerStatus);
+
 /**
  * @swagger
  * tags:
@@ -18,6 +98,12 @@ const router = Router({ mergeParams: true });
  * /api/v1/feed-groups/{groupId}/quests:
  *   post:
  *     summary: Create a new quest in a group
+ *     description: >
+ *       Locks the quest's reward budget, reward × max_winners, in escrow from the creator's
+ *       wallet or the group treasury. Rewards are paid from the escrow and whatever is left
+ *       is refunded when the quest is cancelled, expires or is deleted. Passing steps makes
+ *       the quest a chain that participants complete step by step; prerequisites limit who
+ *       may join.
  *     tags: [Group Quests]
  *     security:
  *       - bearerAuth: []
@@ -36,13 +122,15 @@ const router = Router({ mergeParams: true });
  *             $ref: '#/components/schemas/QuestCreate'
  *     responses:
  *       201:
- *         description: Quest created successfully.
+ *         description: Quest created successfully, with its escrow, steps and prerequisites.
  *       400:
- *         description: Invalid input.
+ *         description: Invalid input, or a prerequisite is not a quest of this group or an existing achievement.
  *       401:
  *         description: Not authorized.
  *       403:
- *         description: Forbidden.
+ *         description: Forbidden, or the caller may not fund quests from the treasury.
+ *       409:
+ *         description: The wallet or treasury cannot cover the reward budget.
  */
 router.post('/', protect, createQuest);
 
@@ -88,6 +176,10 @@ router.get('/', protect, getAllQuests);
  * /api/v1/feed-groups/{groupId}/quests/nearby:
  *   get:
  *     summary: Get nearby quests in a group
+ *     description: >
+ *       Returns active location-based quests within a radius of the given point, or
+ *       inside a bounding box, sorted by their distance from the point. Pass either
+ *       radius or bbox; without either, the radius defaults to 5000 meters.
  *     tags: [Group Quests]
  *     security:
  *       - bearerAuth: []
@@ -114,10 +206,24 @@ router.get('/', protect, getAllQuests);
  *         name: radius
  *         schema:
  *           type: number
+ *           maximum: 100000
  *         description: Radius in meters.
+ *       - in: query
+ *         name: bbox
+ *         schema:
+ *           type: string
+ *           example: '-0.15,51.49,-0.10,51.52'
+ *         description: Bounding box as west,south,east,north in degrees.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *         description: Maximum number of quests to return.
  *     responses:
  *       200:
- *         description: A list of nearby quests.
+ *         description: A list of nearby quests, each with its distance in meters.
  *       400:
  *         description: Invalid input.
  *       401:
@@ -127,6 +233,51 @@ router.get('/', protect, getAllQuests);
  */
 router.get('/nearby', protect, getNearbyQuests);
 
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/clusters:
+ *   get:
+ *     summary: Get clustered quest markers for a map viewport
+ *     description: >
+ *       Groups the active location-based quests inside the viewport into clusters of
+ *       nearby markers for the given zoom level. A cluster of one includes its quest's ID.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: query
+ *         name: bbox
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: '-0.15,51.49,-0.10,51.52'
+ *         description: Viewport as west,south,east,north in degrees. Latitudes must lie within ±85.0511.
+ *       - in: query
+ *         name: zoom
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 22
+ *         description: Map zoom level.
+ *     responses:
+ *       200:
+ *         description: A list of clusters with their marker count, centroid and bounds.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ */
+router.get('/clusters', protect, getQuestClusters);
+
 /**
  * @swagger
  * /api/v1/feed-groups/{groupId}/quests/{id}:
@@ -198,6 +349,8 @@ router.get('/:id', protect, getQuestById);
  *         description: Forbidden.
  *       404:
  *         description: Quest not found.
+ *       409:
+ *         description: The quest was created on-chain and is managed there.
  */
 router.put('/:id', protect, updateQuest);
 
@@ -231,14 +384,93 @@ router.put('/:id', protect, updateQuest);
  *         description: Forbidden.
  *       404:
  *         description: Quest not found.
+ *       409:
+ *         description: The quest was created on-chain and is managed there.
  */
 router.delete('/:id', protect, deleteQuest);
 
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/cancel:
+ *   post:
+ *     summary: Cancel a quest in a group
+ *     description: >
+ *       Stops the quest and refunds what is left of its escrow to whoever funded it.
+ *       Rewards for submissions still awaiting review stay in escrow until they are reviewed.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *     responses:
+ *       200:
+ *         description: Quest cancelled, with the amount refunded.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest not found.
+ *       409:
+ *         description: The quest is not active, or was created on-chain and is cancelled there.
+ */
+router.post('/:id/cancel', protect, cancelQuest);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/escrow:
+ *   get:
+ *     summary: Get a quest's reward escrow
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *     responses:
+ *       200:
+ *         description: The amounts locked, paid, refunded and remaining, and who funded it.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest not found, or it predates escrows.
+ */
+router.get('/:id/escrow', protect, getQuestEscrow);
+
 /**
  * @swagger
  * /api/v1/feed-groups/{groupId}/quests/{id}/join:
  *   post:
  *     summary: Join a quest in a group
+ *     description: >
+ *       Joining is refused once the quest has expired, outside its join window or when it
+ *       has reached max_participants. The new participant's deadline_at is the end of the
+ *       quest's completion window or its expiry, whichever comes first. These refusals
+ *       carry a code of QUEST_EXPIRED, JOIN_WINDOW_NOT_OPEN, JOIN_WINDOW_CLOSED or QUEST_FULL.
+ *       Users who do not meet every prerequisite are refused with code PREREQUISITES_NOT_MET.
  *     tags: [Group Quests]
  *     security:
  *       - bearerAuth: []
@@ -263,11 +495,13 @@ router.delete('/:id', protect, deleteQuest);
  *       401:
  *         description: Not authorized.
  *       403:
- *         description: Forbidden.
+ *         description: Forbidden, or the caller does not meet the quest's prerequisites (code PREREQUISITES_NOT_MET).
  *       404:
  *         description: Quest not found.
  *       409:
- *         description: Already joined this quest.
+ *         description: Already joined, the quest is not active, outside the join window, the quest is full, or it was created on-chain and is joined there.
+ *       410:
+ *         description: The quest has expired.
  */
 router.post('/:id/join', protect, joinQuest);
 
@@ -276,6 +510,11 @@ router.post('/:id/join', protect, joinQuest);
  * /api/v1/feed-groups/{groupId}/quests/{id}/complete:
  *   post:
  *     summary: Mark a quest as completed in a group
+ *     description: >
+ *       Submits the evidence the quest requires for the creator to review. Participants
+ *       whose previous submission was rejected may submit again, until the quest expires
+ *       or their deadline_at passes. Location-based quests are completed by checking in
+ *       instead, and chain quests step by step.
  *     tags: [Group Quests]
  *     security:
  *       - bearerAuth: []
@@ -292,9 +531,19 @@ router.post('/:id/join', protect, joinQuest);
  *         schema:
  *           type: string
  *         description: The ID of the quest.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               evidence:
+ *                 $ref: '#/components/schemas/SubmissionEvidence'
  *     responses:
  *       200:
  *         description: Quest marked as completed.
+ *       400:
+ *         description: Missing or invalid evidence, or the quest needs a check-in or is completed step by step.
  *       401:
  *         description: Not authorized.
  *       403:
@@ -302,15 +551,240 @@ router.post('/:id/join', protect, joinQuest);
  *       404:
  *         description: Participant not found.
  *       409:
- *         description: Quest already submitted.
+ *         description: Quest already submitted or no longer active, the Vibe NFT was already used as evidence, or the quest was created on-chain and is completed there.
+ *       410:
+ *         description: The quest has expired (code QUEST_EXPIRED) or the caller's deadline has passed (code COMPLETION_DEADLINE_PASSED).
+ *       503:
+ *         description: Vibe NFT evidence cannot be checked because blockchain is disabled.
  */
 router.post('/:id/complete', protect, completeQuest);
 
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/check-ins:
+ *   post:
+ *     summary: Check in at a location-based quest
+ *     description: >
+ *       Completes a location-based quest by submitting a GPS fix. Fixes inside the quest's
+ *       geofence that pass the plausibility checks (accuracy, timestamp freshness and
+ *       travel speed since the caller's previous check-in) await verification, or are
+ *       verified immediately if the quest enables auto-verification. Fixes that fail a
+ *       plausibility check are flagged for the creator to review. Fixes outside the
+ *       geofence are rejected. Every attempt is stored.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               accuracy:
+ *                 type: number
+ *                 description: Accuracy radius of the fix in meters.
+ *               timestamp:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the device took the fix.
+ *               evidence:
+ *                 $ref: '#/components/schemas/SubmissionEvidence'
+ *             required:
+ *               - latitude
+ *               - longitude
+ *               - accuracy
+ *               - timestamp
+ *     responses:
+ *       201:
+ *         description: Check-in accepted, flagged for review, or verified.
+ *       400:
+ *         description: Invalid input, or the quest is not location-based or is completed step by step.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest or participant not found.
+ *       409:
+ *         description: The quest is not active, completion was already submitted, the escrow has paid all its max_winners, or the quest was created on-chain and is completed there.
+ *       410:
+ *         description: The quest has expired (code QUEST_EXPIRED) or the caller's deadline has passed (code COMPLETION_DEADLINE_PASSED).
+ *       422:
+ *         description: Check-in rejected because it is outside the geofence.
+ */
+router.post('/:id/check-ins', protect, checkInToQuest);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/check-ins:
+ *   get:
+ *     summary: Get check-ins for a quest
+ *     description: The quest's creator sees every check-in; other members see their own.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [passed, flagged, rejected]
+ *         description: Filter by check-in status.
+ *     responses:
+ *       200:
+ *         description: A list of check-ins with their distance, flags and evidence.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest not found.
+ */
+router.get('/:id/check-ins', protect, getQuestCheckIns);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/submissions:
+ *   get:
+ *     summary: Get submissions for a quest
+ *     description: The quest's creator sees every submission; other members see their own.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         description: Filter by submission status.
+ *     responses:
+ *       200:
+ *         description: A list of submissions with their evidence and review.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest not found.
+ */
+router.get('/:id/submissions', protect, getQuestSubmissions);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/submissions/{submissionId}/review:
+ *   post:
+ *     summary: Approve or reject a submission
+ *     description: >
+ *       Approving verifies the participant and queues their reward. Rejecting records
+ *       the reason and lets the participant submit again.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the submission.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approve, reject]
+ *               reason:
+ *                 type: string
+ *                 description: Shown to the participant. Required when rejecting.
+ *             required:
+ *               - decision
+ *     responses:
+ *       200:
+ *         description: Submission reviewed, with the queued payout if it was approved.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Only the quest creator can review submissions.
+ *       404:
+ *         description: Quest or submission not found.
+ *       409:
+ *         description: Submission already reviewed, the quest's escrow has paid all its max_winners, or the quest was created on-chain.
+ */
+router.post('/:id/submissions/:submissionId/review', protect, reviewQuestSubmission);
+
 /**
  * @swagger
  * /api/v1/feed-groups/{groupId}/quests/{id}/verify:
  *   post:
  *     summary: Verify a quest completion in a group
+ *     description: >
+ *       Approves the participant's pending submission and queues their reward for
+ *       on-chain payout. Track it with GET /api/v1/payouts.
  *     tags: [Group Quests]
  *     security:
  *       - bearerAuth: []
@@ -341,23 +815,235 @@ router.post('/:id/complete', protect, completeQuest);
  *               - participantId
  *     responses:
  *       200:
- *         description: Quest completion verified.
+ *         description: Quest completion verified, with the queued payout if the quest has a reward.
  *       400:
- *         description: Invalid input.
+ *         description: Invalid input, or the quest is a chain whose steps are reviewed instead.
  *       401:
  *         description: Not authorized.
  *       403:
  *         description: Forbidden.
  *       404:
  *         description: Quest or participant not found.
+ *       409:
+ *         description: The quest's escrow has paid all its max_winners, or the quest was created on-chain.
  */
 router.post('/:id/verify', protect, verifyQuestCompletion);
 
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/prerequisites:
+ *   get:
+ *     summary: Get a quest's prerequisites
+ *     description: Each prerequisite says whether the caller meets it.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *     responses:
+ *       200:
+ *         description: A list of prerequisites with a met flag.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest not found.
+ */
+router.get('/:id/prerequisites', protect, getQuestPrerequisites);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/steps:
+ *   get:
+ *     summary: Get a chain quest's steps
+ *     description: The steps in order, each with the caller's progress_status on it. Empty for other quests.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *     responses:
+ *       200:
+ *         description: A list of steps.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Quest not found.
+ */
+router.get('/:id/steps', protect, getQuestSteps);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/steps/{stepId}/submit:
+ *   post:
+ *     summary: Submit one step of a chain quest
+ *     description: >
+ *       Steps are done in order; each needs every earlier step verified. auto steps are
+ *       verified once their evidence is complete. check_in steps take a GPS fix, checked
+ *       like a quest check-in against the step's geofence: a passing fix verifies the step
+ *       and a flagged one awaits review. review steps await the quest's creator. Verifying
+ *       the last step verifies the participant and queues the quest's reward.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *       - in: path
+ *         name: stepId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the step.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               evidence:
+ *                 $ref: '#/components/schemas/SubmissionEvidence'
+ *               location:
+ *                 type: object
+ *                 description: Required for check_in steps.
+ *                 properties:
+ *                   latitude:
+ *                     type: number
+ *                   longitude:
+ *                     type: number
+ *                   accuracy:
+ *                     type: number
+ *                   timestamp:
+ *                     type: string
+ *                     format: date-time
+ *     responses:
+ *       201:
+ *         description: Step submitted or verified, with questCompleted and the queued payout if it was the last.
+ *       400:
+ *         description: Invalid input, missing evidence, or a check_in step without a location.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
+ *       404:
+ *         description: Step or participant not found.
+ *       409:
+ *         description: >
+ *           The quest is not active, an earlier step is not verified yet (code STEP_LOCKED),
+ *           the step was already submitted, the escrow has paid all its max_winners, or the quest
+ *           was created on-chain and is completed there.
+ *       410:
+ *         description: The quest has expired (code QUEST_EXPIRED) or the caller's deadline has passed (code COMPLETION_DEADLINE_PASSED).
+ *       422:
+ *         description: Check-in rejected because it is outside the step's geofence.
+ */
+router.post('/:id/steps/:stepId/submit', protect, submitQuestStep);
+
+/**
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/quests/{id}/steps/{stepId}/review:
+ *   post:
+ *     summary: Approve or reject a participant's step
+ *     description: >
+ *       Rejecting lets the participant submit the step again. Approving the last step
+ *       verifies the participant and queues the quest's reward.
+ *     tags: [Group Quests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the quest.
+ *       - in: path
+ *         name: stepId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the step.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               participantId:
+ *                 type: string
+ *               decision:
+ *                 type: string
+ *                 enum: [approve, reject]
+ *               reason:
+ *                 type: string
+ *                 description: Shown to the participant. Required when rejecting.
+ *             required:
+ *               - participantId
+ *               - decision
+ *     responses:
+ *       200:
+ *         description: Step reviewed, with questCompleted and the queued payout if it was the last.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Only the quest creator can review steps.
+ *       404:
+ *         description: Quest or step not found.
+ *       409:
+ *         description: The participant has nothing awaiting review for this step, the escrow has paid all its max_winners, or the quest was created on-chain.
+ */
+router.post('/:id/steps/:stepId/review', protect, reviewQuestStep);
+
 /**
  * @swagger
  * /api/v1/feed-groups/{groupId}/quests/{id}/participants:
  *   get:
  *     summary: Get participants for a quest in a group
+ *     description: Each participant has a steps array with their progress on each step of a chain quest.
  *     tags: [Group Quests]
  *     security:
  *       - bearerAuth: []
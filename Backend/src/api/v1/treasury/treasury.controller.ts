@@ -9,8 +9,7 @@ import logger from '../../../config/logger';
  * @access  Private (requires authentication and group membership)
  */
 export const depositToTreasury = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const userId = req.user?.id;
+  const userId = req.user?.userId;
   const { groupId: groupIdString } = req.params;
   const { amount, description } = req.body;
 
@@ -52,8 +51,7 @@ export const depositToTreasury = async (req: Request, res: Response) => {
  * @access  Private (requires group membership)
  */
 export const getTreasuryDetails = async (req: Request, res: Response) => {
-  // @ts-ignore
-  const userId = req.user?.id;
+  const userId = req.user?.userId;
   const { groupId: groupIdString } = req.params;
 
   if (!userId) {
@@ -84,3 +82,24 @@ export const getTreasuryDetails = async (req: Request, res: Response) => {
     res.status(500).json({ message: 'Failed to retrieve treasury details.' });
   }
 };
+
+/**
+ * @route   GET /api/v1/treasury
+ * @desc    Get the treasury balance of every group the caller belongs to
+ * @access  Private
+ */
+export const getMemberTreasuries = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  try {
+    const treasuries = await treasuryService.getTreasuriesForMember(userId);
+    res.status(200).json(treasuries);
+  } catch (error) {
+    logger.error(`Error in getMemberTreasuries controller for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to retrieve treasuries.' });
+  }
+};
@@ -1,20 +1,91 @@
 import { Router } from 'express';
 import { protect } from '../../../middleware/auth.middleware';
-import { depositToTreasury, getTreasuryDetails } from './treasury.controller';
+import { depositToTreasury, getTreasuryDetails, getMemberTreasuries } from './treasury.controller';
 
+// Mounted under /api/v1/feed-groups/:groupId/treasury.
 const router = Router({ mergeParams: true });
 
+// Mounted under /api/v1/treasury for cross-group discovery.
+export const treasuryDiscoveryRouter = Router();
+
+/**
+ * @swagger
+ * /api/v1/treasury:
+ *   get:
+ *     summary: Get the treasury balance of every group the caller belongs to
+ *     tags: [Treasury]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: A list of group treasury balances.
+ *       401:
+ *         description: Not authorized.
+ */
+treasuryDiscoveryRouter.get('/', protect, getMemberTreasuries);
+
 /**
- * @route   POST /api/v1/feed-groups/:groupId/treasury/deposit
- * @desc    Deposit funds into the group's treasury
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/treasury/deposit:
+ *   post:
+ *     summary: Deposit funds into the group's treasury
+ *     tags: [Treasury]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Deposit recorded.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
  */
 router.post('/deposit', protect, depositToTreasury);
 
 /**
- * @route   GET /api/v1/feed-groups/:groupId/treasury
- * @desc    Get treasury details for a group
- * @access  Private
+ * @swagger
+ * /api/v1/feed-groups/{groupId}/treasury:
+ *   get:
+ *     summary: Get the treasury balance and transaction history for a group
+ *     tags: [Treasury]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: The ID of the group.
+ *     responses:
+ *       200:
+ *         description: Treasury balance and transactions. Withdrawals carry the proposal_id of the proposal that authorised them.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Forbidden.
  */
 router.get('/', protect, getTreasuryDetails);
 
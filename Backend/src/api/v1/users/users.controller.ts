@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { getPool } from '../../../config/database';
 import logger from '../../../config/logger';
 import Joi from 'joi';
+import { recordActivity } from '../../../services/achievements.service';
+import * as reputationService from '../../../services/reputation.service';
 
 /**
  * Get a user's public profile by their ID.
@@ -108,25 +110,18 @@ export const getUserAchievements = async (req: Request, res: Response) => {
 };
 
 /**
- * Get a user's reputation score by their ID.
+ * Get a user's reputation score by their ID, with its level and the next level up.
  */
 export const getUserReputation = async (req: Request, res: Response) => {
   const { id } = req.params;
 
   try {
-    const result = await getPool().query('SELECT reputation_score FROM users WHERE id = $1', [id]);
+    const reputation = await reputationService.getReputation(id);
 
-    if (result.rows.length === 0) {
+    if (!reputation) {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    // TODO: The 'level' could be calculated based on the score in a more advanced implementation.
-    const reputation = {
-      userId: id,
-      reputationScore: result.rows[0].reputation_score,
-      level: 'Trusted', // Placeholder level
-    };
-
     res.status(200).json(reputation);
 
   } catch (error) {
@@ -135,6 +130,37 @@ export const getUserReputation = async (req: Request, res: Response) => {
   }
 };
 
+const reputationHistoryQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  before: Joi.number().integer().min(1).optional(),
+});
+
+/**
+ * Get the events that made a user's reputation score, newest first.
+ */
+export const getUserReputationHistory = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const { error, value } = reputationHistoryQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const history = await reputationService.getReputationHistory(id, value.limit, value.before);
+
+    if (!history) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.status(200).json(history);
+
+  } catch (error) {
+    logger.error(`Error fetching reputation history for user ${id}:`, error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
 const userSettingsSchema = Joi.object({
   notifications: Joi.object({
     push: Joi.boolean().optional(),
@@ -223,6 +249,10 @@ export const toggleFollowUser = async (req: Request, res: Response) => {
   const { id: userToFollowId } = req.params;
   const authenticatedUserId = req.user?.userId;
 
+  if (!authenticatedUserId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
   if (userToFollowId === authenticatedUserId) {
     return res.status(400).json({ message: 'You cannot follow yourself.' });
   }
@@ -242,6 +272,7 @@ export const toggleFollowUser = async (req: Request, res: Response) => {
         [authenticatedUserId, userToFollowId]
       );
       // TODO: Optionally, log the unfollow activity.
+      await reputationService.recordReputationEvent(client, userToFollowId, 'unfollowed', { followerId: authenticatedUserId });
       await client.query('COMMIT');
       logger.info(`User ${authenticatedUserId} unfollowed user ${userToFollowId}`);
       res.status(200).json({ message: 'Successfully unfollowed user.' });
@@ -251,11 +282,8 @@ export const toggleFollowUser = async (req: Request, res: Response) => {
         [authenticatedUserId, userToFollowId]
       );
 
-      const activityMetadata = { followingId: userToFollowId };
-      await client.query(
-        "INSERT INTO user_activities (user_id, activity_type, metadata) VALUES ($1, 'user_followed', $2)",
-        [authenticatedUserId, activityMetadata]
-      );
+      await recordActivity(client, authenticatedUserId, 'user_followed', { followingId: userToFollowId });
+      await reputationService.recordReputationEvent(client, userToFollowId, 'followed', { followerId: authenticatedUserId });
 
       await client.query('COMMIT');
       logger.info(`User ${authenticatedUserId} followed user ${userToFollowId}`);
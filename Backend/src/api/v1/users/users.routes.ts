@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { getUserById, getUserStats, getUserAchievements, getUserReputation, updateUserSettings, getUserActivity, toggleFollowUser, getUserFollowers, getUserFollowing } from './users.controller';
+import { getUserById, getUserStats, getUserAchievements, getUserReputation, getUserReputationHistory, updateUserSettings, getUserActivity, toggleFollowUser, getUserFollowers, getUserFollowing } from './users.controller';
 import { protect } from '../../../middleware/auth.middleware';
 
 const router = Router();
@@ -111,6 +111,7 @@ router.get('/:id/achievements', getUserAchievements);
  * /api/v1/users/{id}/reputation:
  *   get:
  *     summary: Get a user's reputation score
+ *     description: Levels run Untrusted (below 0), Newcomer (0), Contributor (50), Trusted (200), Veteran (500) and Legend (1000).
  *     tags: [Users]
  *     parameters:
  *       - in: path
@@ -127,17 +128,90 @@ router.get('/:id/achievements', getUserAchievements);
  *             schema:
  *               type: object
  *               properties:
- *                 user_id:
+ *                 userId:
  *                   type: string
- *                 reputation_score:
+ *                 reputationScore:
  *                   type: integer
  *                 level:
  *                   type: string
+ *                 nextLevel:
+ *                   type: object
+ *                   nullable: true
+ *                   description: The level above, or null at the top.
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     minScore:
+ *                       type: integer
+ *       404:
+ *         description: User not found.
  *       500:
  *         description: Internal server error.
  */
 router.get('/:id/reputation', getUserReputation);
 
+/**
+ * @swagger
+ * /api/v1/users/{id}/reputation/history:
+ *   get:
+ *     summary: Get the events that made a user's reputation score
+ *     description: Newest first. Verified quests, passed proposals and new followers raise the score; rejected submissions, reports and unfollows lower it. Older events are worth less over time, which 'decay' events record.
+ *     tags: [Users]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The user's ID
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: integer
+ *         description: Only return events older than this event ID, to page back.
+ *     responses:
+ *       200:
+ *         description: The reputation events.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   event_type:
+ *                     type: string
+ *                     enum: [quest_verified, submission_rejected, proposal_passed, followed, unfollowed, content_reported, initial_score, decay]
+ *                   delta:
+ *                     type: integer
+ *                   metadata:
+ *                     type: object
+ *                   created_at:
+ *                     type: string
+ *                     format: date-time
+ *                   score_after:
+ *                     type: integer
+ *                     description: The score once this event was counted.
+ *                   description:
+ *                     type: string
+ *       400:
+ *         description: Invalid query parameters.
+ *       404:
+ *         description: User not found.
+ *       500:
+ *         description: Internal server error.
+ */
+router.get('/:id/reputation/history', getUserReputationHistory);
+
 /**
  * @swagger
  * /api/v1/users/{id}/settings:
@@ -1,56 +1,490 @@
 import { Request, Response } from 'express';
-import { uploadJsonToIpfs } from '../../../services/ipfs.service';
-import { mintVibeNft } from '../../../services/aptos.service';
-// import { mintVibeNft } from '../../../services/aptos.service'; // To be implemented
-
-interface MintRequestBody {
-  name: string;
-  description: string;
-  imageIpfsHash: string;
-  collectionName: string; // e.g., "Lunoa Vibes"
-  recipientAddress: string; // The address to receive the NFT
-}
+import * as vibesService from '../../../services/vibes.service';
+import * as vibeInteractionsService from '../../../services/vibeInteractions.service';
+import * as boostsService from '../../../services/boosts.service';
+import { getConfig } from '../../../config/index';
+import logger from '../../../config/logger';
+import {
+  boostSchema,
+  boostsQuerySchema,
+  commentSchema,
+  commentsQuerySchema,
+  createVibeSchema,
+  editCommentSchema,
+  reportSchema,
+  trendingVibesQuerySchema,
+  updateVibeSchema,
+  userVibesQuerySchema,
+  vibesQuerySchema,
+} from './vibes.model';
 
+const parseId = (value: string): number | null => {
+  const id = parseInt(value, 10);
+  return isNaN(id) || id < 1 ? null : id;
+};
+
+// Maps the errors the interaction services throw to responses; false if it is none of them.
+const sendInteractionError = (res: Response, error: any): boolean => {
+  switch (error.message) {
+    case 'VIBE_NOT_FOUND':
+      res.status(404).json({ message: 'Vibe not found.' });
+      return true;
+    case 'COMMENT_NOT_FOUND':
+      res.status(404).json({ message: 'Comment not found.' });
+      return true;
+    case 'FORBIDDEN':
+      res.status(403).json({ message: 'Forbidden: You cannot change this.' });
+      return true;
+    case 'COMMENTS_LOCKED':
+      res.status(403).json({ message: 'Comments on this Vibe are locked.' });
+      return true;
+    case 'COMMENT_RATE_LIMITED':
+      res.status(429).json({ message: 'You are commenting too often. Please try again later.' });
+      return true;
+    case 'DUPLICATE_COMMENT':
+      res.status(409).json({ message: 'You already posted this comment.' });
+      return true;
+    case 'CANNOT_REPORT_OWN_CONTENT':
+      res.status(400).json({ message: 'You cannot report your own content.' });
+      return true;
+    case 'ALREADY_REPORTED':
+      res.status(409).json({ message: 'You already reported this.' });
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * @route   POST /api/v1/vibes
+ * @desc    Pin a Vibe's metadata, record it and send its mint, answering before the mint commits
+ * @access  Private
+ */
 export const createAndMintVibe = async (req: Request, res: Response) => {
-  const { name, description, imageIpfsHash, collectionName, recipientAddress } = req.body as MintRequestBody;
-
-  if (!name || !description || !imageIpfsHash || !collectionName || !recipientAddress) {
-    return res.status(400).json({ message: 'Name, description, imageIpfsHash, collectionName, and recipientAddress are required.' });
-  }
-
-  try {
-    // 1. Create the NFT metadata JSON object
-    const nftMetadata = {
-      name,
-      description,
-      image: `ipfs://${imageIpfsHash}`,
-      attributes: [
-        { trait_type: 'Vibe', value: 'Positive' },
-        { trait_type: 'MintedAt', value: new Date().toISOString() },
-      ],
-    };
-
-    // 2. Upload the metadata JSON to IPFS
-    const metadataIpfsHash = await uploadJsonToIpfs(nftMetadata, `${name}-metadata.json`);
-    const tokenUri = `ipfs://${metadataIpfsHash}`;
-
-        // 3. Call the smart contract to mint the NFT
-    const transaction = await mintVibeNft({
-      collectionName,
-      description,
-      name,
-      uri: tokenUri,
-      recipient: recipientAddress,
-    });
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const { error, value } = createVibeSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const { vibe, tokenUri, transaction } = await vibesService.createVibe({ creatorId: userId, ...value });
 
-        res.status(201).json({
-      message: 'Vibe NFT minted successfully!',
-      metadataIpfsHash,
+    res.status(202).json({
+      message: 'Vibe NFT mint submitted.',
+      metadataIpfsHash: vibe.metadata_cid,
       tokenUri,
-      transactionHash: transaction.hash,
+      transactionHash: vibe.tx_hash,
+      transaction,
+      vibe,
     });
+  } catch (error: any) {
+    switch (error.message) {
+      case 'QUEST_NOT_FOUND':
+        return res.status(404).json({ message: 'Quest not found.' });
+      case 'GROUP_NOT_FOUND':
+        return res.status(404).json({ message: 'Feed group not found.' });
+      case 'QUEST_NOT_IN_GROUP':
+        return res.status(400).json({ message: 'The quest is not in this group.' });
+      case 'NOT_A_MEMBER':
+        return res.status(403).json({ message: 'Forbidden: You are not a member of this group.' });
+      default:
+        logger.error('Error creating and minting Vibe NFT:', error);
+        res.status(500).json({ message: 'Failed to create and mint Vibe NFT.' });
+    }
+  }
+};
+
+/**
+ * @route   GET /api/v1/vibes
+ * @desc    List Vibes, newest first, optionally by creator, quest, group or area
+ * @access  Public
+ */
+export const getVibes = async (req: Request, res: Response) => {
+  const { error, value } = vibesQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const vibes = await vibesService.listVibes({
+      creatorId: value.creator_id,
+      questId: value.quest_id,
+      groupId: value.group_id,
+      bbox: value.bbox,
+      limit: value.limit,
+      offset: value.offset,
+    });
+    res.status(200).json(vibes);
+  } catch (error) {
+    logger.error('Error fetching Vibes:', error);
+    res.status(500).json({ message: 'Failed to fetch Vibes.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/vibes/trending
+ * @desc    List the Vibes with the most likes, comments and boosts lately
+ * @access  Public
+ */
+export const getTrendingVibes = async (req: Request, res: Response) => {
+  const { error, value } = trendingVibesQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const vibes = await vibesService.listTrendingVibes(value.limit, value.offset);
+    res.status(200).json(vibes);
+  } catch (error) {
+    logger.error('Error fetching trending Vibes:', error);
+    res.status(500).json({ message: 'Failed to fetch trending Vibes.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/vibes/:id
+ * @desc    Get a Vibe
+ * @access  Public
+ */
+export const getVibeById = async (req: Request, res: Response) => {
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  try {
+    const vibe = await vibesService.getVibeById(vibeId);
+    if (!vibe) {
+      return res.status(404).json({ message: 'Vibe not found.' });
+    }
+    res.status(200).json(vibe);
+  } catch (error) {
+    logger.error(`Error fetching Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch Vibe.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/vibes/user/:userId
+ * @desc    List the Vibes a user created, newest first
+ * @access  Public
+ */
+export const getUserVibes = async (req: Request, res: Response) => {
+  const { userId } = req.params;
+
+  const { error, value } = userVibesQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const vibes = await vibesService.listUserVibes(userId, value.limit, value.offset);
+    if (!vibes) {
+      return res.status(404).json({ message: 'User not found.' });
+    }
+    res.status(200).json(vibes);
+  } catch (error) {
+    logger.error(`Error fetching Vibes of user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch Vibes.' });
+  }
+};
+
+/**
+ * @route   PATCH /api/v1/vibes/:id
+ * @desc    Lock or unlock a Vibe's comments
+ * @access  Private (Creator only)
+ */
+export const updateVibe = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  const { error, value } = updateVibeSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const vibe = await vibesService.setCommentsLocked(vibeId, userId, value.commentsLocked);
+    if (!vibe) {
+      return res.status(404).json({ message: 'Vibe not found.' });
+    }
+    res.status(200).json(vibe);
+  } catch (error: any) {
+    if (error.message === 'FORBIDDEN') {
+      return res.status(403).json({ message: 'Forbidden: Only the creator can update this Vibe.' });
+    }
+    logger.error(`Error updating Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to update Vibe.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/vibes/:id/like
+ * @desc    Like a Vibe, or take the like back
+ * @access  Private
+ */
+export const toggleVibeLike = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  try {
+    const result = await vibeInteractionsService.toggleLike(vibeId, userId);
+    res.status(200).json(result);
+  } catch (error: any) {
+    if (sendInteractionError(res, error)) {
+      return;
+    }
+    logger.error(`Error toggling like on Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to like Vibe.' });
+  }
+};
+
+/**
+ * @route   GET /api/v1/vibes/:id/comments
+ * @desc    List a Vibe's comment threads, newest first
+ * @access  Public
+ */
+export const getVibeComments = async (req: Request, res: Response) => {
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  const { error, value } = commentsQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const comments = await vibeInteractionsService.getComments(vibeId, value.limit, value.offset);
+    if (!comments) {
+      return res.status(404).json({ message: 'Vibe not found.' });
+    }
+    res.status(200).json(comments);
+  } catch (error) {
+    logger.error(`Error fetching comments on Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch comments.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/vibes/:id/comments
+ * @desc    Comment on a Vibe, or reply to a comment
+ * @access  Private
+ */
+export const addVibeComment = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  const { error, value } = commentSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const comment = await vibeInteractionsService.addComment(vibeId, userId, value.body, value.parentId);
+    res.status(201).json(comment);
+  } catch (error: any) {
+    if (sendInteractionError(res, error)) {
+      return;
+    }
+    logger.error(`Error commenting on Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to add comment.' });
+  }
+};
+
+/**
+ * @route   PATCH /api/v1/vibes/:id/comments/:commentId
+ * @desc    Edit your comment
+ * @access  Private (Author only)
+ */
+export const editVibeComment = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  const commentId = parseId(req.params.commentId);
+  if (!vibeId || !commentId) {
+    return res.status(400).json({ message: 'Invalid Vibe or comment ID.' });
+  }
+
+  const { error, value } = editCommentSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const comment = await vibeInteractionsService.editComment(vibeId, commentId, userId, value.body);
+    res.status(200).json(comment);
+  } catch (error: any) {
+    if (sendInteractionError(res, error)) {
+      return;
+    }
+    logger.error(`Error editing comment ${commentId} on Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to edit comment.' });
+  }
+};
+
+/**
+ * @route   DELETE /api/v1/vibes/:id/comments/:commentId
+ * @desc    Delete a comment
+ * @access  Private (Author or the Vibe's creator)
+ */
+export const deleteVibeComment = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  const commentId = parseId(req.params.commentId);
+  if (!vibeId || !commentId) {
+    return res.status(400).json({ message: 'Invalid Vibe or comment ID.' });
+  }
+
+  try {
+    await vibeInteractionsService.deleteComment(vibeId, commentId, userId);
+    res.status(204).send();
+  } catch (error: any) {
+    if (sendInteractionError(res, error)) {
+      return;
+    }
+    logger.error(`Error deleting comment ${commentId} on Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to delete comment.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/vibes/:id/reports
+ * @desc    Report a Vibe or one of its comments
+ * @access  Private
+ */
+export const reportVibeContent = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  const { error, value } = reportSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const report = await vibeInteractionsService.reportContent(vibeId, userId, value.reason, value.details, value.commentId);
+    res.status(201).json(report);
+  } catch (error: any) {
+    if (sendInteractionError(res, error)) {
+      return;
+    }
+    logger.error(`Error reporting content on Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to submit report.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/vibes/:id/boost
+ * @desc    Boost a Vibe with $Lunoa from your wallet
+ * @access  Private
+ */
+export const boostVibe = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  const { error, value } = boostSchema.validate(req.body ?? {});
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const boost = await boostsService.boostVibe(vibeId, userId, value.amount);
+    res.status(201).json(boost);
+  } catch (error: any) {
+    const { minAmount, maxPerDay, reciprocalWindowHours } = getConfig().boosts;
+    switch (error.message) {
+      case 'VIBE_NOT_FOUND':
+        return res.status(404).json({ message: 'Vibe not found.' });
+      case 'BOOST_TOO_SMALL':
+        return res.status(400).json({ message: `A boost must be at least ${minAmount}.` });
+      case 'CANNOT_BOOST_OWN_VIBE':
+        return res.status(400).json({ message: 'You cannot boost your own Vibe.' });
+      case 'INSUFFICIENT_FUNDS':
+        return res.status(409).json({ message: 'Your wallet balance cannot cover the boost.' });
+      case 'RECIPROCAL_BOOST':
+        return res.status(403).json({ message: `You cannot boost a user who boosted you in the last ${reciprocalWindowHours} hours.` });
+      case 'BOOST_LIMIT_REACHED':
+        return res.status(429).json({ message: `You can boost at most ${maxPerDay} times a day.` });
+      default:
+        logger.error(`Error boosting Vibe ${vibeId}:`, error);
+        res.status(500).json({ message: 'Failed to boost Vibe.' });
+    }
+  }
+};
+
+/**
+ * @route   GET /api/v1/vibes/:id/boosts
+ * @desc    List a Vibe's boosts, newest first
+ * @access  Public
+ */
+export const getVibeBoosts = async (req: Request, res: Response) => {
+  const vibeId = parseId(req.params.id);
+  if (!vibeId) {
+    return res.status(400).json({ message: 'Invalid Vibe ID.' });
+  }
+
+  const { error, value } = boostsQuerySchema.validate(req.query);
+  if (error) {
+    return res.status(400).json({ message: error.details[0].message });
+  }
+
+  try {
+    const boosts = await boostsService.getVibeBoosts(vibeId, value.limit, value.offset);
+    if (!boosts) {
+      return res.status(404).json({ message: 'Vibe not found.' });
+    }
+    res.status(200).json(boosts);
   } catch (error) {
-    console.error('Error creating and minting Vibe NFT:', error);
-    res.status(500).json({ message: 'Failed to create and mint Vibe NFT.' });
+    logger.error(`Error fetching boosts of Vibe ${vibeId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch boosts.' });
   }
 };
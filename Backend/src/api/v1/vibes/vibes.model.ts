@@ -0,0 +1,70 @@
+import Joi from 'joi';
+import { IPFS_CID, boundingBox, latitude, longitude } from '../quests/quests.model';
+import { REPORT_REASONS } from '../../../services/vibeInteractions.service';
+
+export const MAX_VIBES_PAGE = 100;
+
+export const createVibeSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().trim().min(1).max(1000).required(),
+  // Uploaded first through /api/v1/media/upload.
+  imageIpfsHash: Joi.string().pattern(IPFS_CID, 'IPFS CID').required(),
+  collectionName: Joi.string().trim().min(1).max(128).required(), // e.g., "Lunoa Vibes"
+  recipientAddress: Joi.string().pattern(/^0x[0-9a-fA-F]{1,64}$/, 'Aptos address').required(), // The address to receive the NFT
+  // Where the Vibe was captured.
+  latitude,
+  longitude,
+  // The quest it was captured for, and the group it is posted to; the quest's group by default.
+  questId: Joi.string().uuid(),
+  groupId: Joi.number().integer().positive(),
+}).and('latitude', 'longitude');
+
+const pageKeys = {
+  limit: Joi.number().integer().min(1).max(MAX_VIBES_PAGE).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+};
+
+export const vibesQuerySchema = Joi.object({
+  ...pageKeys,
+  creator_id: Joi.string().uuid(),
+  quest_id: Joi.string().uuid(),
+  group_id: Joi.number().integer().positive(),
+  bbox: boundingBox(),
+});
+
+export const userVibesQuerySchema = Joi.object(pageKeys);
+
+export const updateVibeSchema = Joi.object({
+  // Only the creator may lock or unlock a Vibe's comments.
+  commentsLocked: Joi.boolean().required(),
+});
+
+export const commentsQuerySchema = Joi.object(pageKeys);
+
+const commentBody = Joi.string().trim().min(1).max(1000).required();
+
+export const commentSchema = Joi.object({
+  body: commentBody,
+  // The comment this replies to, if any.
+  parentId: Joi.number().integer().positive(),
+});
+
+export const editCommentSchema = Joi.object({
+  body: commentBody,
+});
+
+export const reportSchema = Joi.object({
+  reason: Joi.string().valid(...REPORT_REASONS).required(),
+  details: Joi.string().trim().max(1000),
+  // Reports the comment rather than the Vibe.
+  commentId: Joi.number().integer().positive(),
+});
+
+export const trendingVibesQuerySchema = Joi.object(pageKeys);
+
+export const boostSchema = Joi.object({
+  // In $Lunoa, rounded to the coin's decimals; at least BOOST_MIN_AMOUNT.
+  amount: Joi.number().positive().max(1000000).required(),
+});
+
+export const boostsQuerySchema = Joi.object(pageKeys);
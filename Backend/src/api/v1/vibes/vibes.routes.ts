@@ -1,12 +1,649 @@
 import { Router } from 'express';
-import { createAndMintVibe } from './vibes.controller';
+import {
+  addVibeComment,
+  boostVibe,
+  createAndMintVibe,
+  deleteVibeComment,
+  editVibeComment,
+  getUserVibes,
+  getTrendingVibes,
+  getVibeBoosts,
+  getVibeById,
+  getVibeComments,
+  getVibes,
+  reportVibeContent,
+  toggleVibeLike,
+  updateVibe,
+} from './vibes.controller';
 import { protect } from '../../../middleware/auth.middleware';
+import { requireFeature } from '../../../middleware/requireFeature';
 
 
 const router = Router();
 
-// Define the route for creating and minting a new Vibe NFT
-// This endpoint is protected and requires user authentication.
-router.post('/', protect, createAndMintVibe);
+/**
+ * @swagger
+ * /api/v1/vibes:
+ *   post:
+ *     summary: Mint a Vibe NFT
+ *     description: >
+ *       Pins the Vibe's metadata to IPFS, records it and sends its mint to the recipient,
+ *       answering without waiting for the mint to commit. Follow the mint at
+ *       /api/v1/blockchain/transaction/{hash}; the Vibe's token_address is set once it
+ *       commits. A Vibe captured for a quest is posted to the quest's group; posting to a
+ *       group requires membership.
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, description, imageIpfsHash, collectionName, recipientAddress]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *               imageIpfsHash:
+ *                 type: string
+ *                 description: The CID of an image uploaded through /api/v1/media/upload.
+ *               collectionName:
+ *                 type: string
+ *                 example: Lunoa Vibes
+ *               recipientAddress:
+ *                 type: string
+ *                 description: The Aptos address to receive the NFT.
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               questId:
+ *                 type: string
+ *                 format: uuid
+ *               groupId:
+ *                 type: integer
+ *     responses:
+ *       202:
+ *         description: The Vibe was recorded and its mint sent.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 metadataIpfsHash:
+ *                   type: string
+ *                 tokenUri:
+ *                   type: string
+ *                 transactionHash:
+ *                   type: string
+ *                 transaction:
+ *                   $ref: '#/components/schemas/ChainTransaction'
+ *                 vibe:
+ *                   $ref: '#/components/schemas/Vibe'
+ *       400:
+ *         description: Invalid input, or the quest is not in the given group.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Not a member of the group.
+ *       404:
+ *         description: Quest or feed group not found.
+ *       503:
+ *         description: IPFS or the blockchain is disabled.
+ */
+router.post('/', protect, requireFeature('ipfs', 'blockchain'), createAndMintVibe);
+
+/**
+ * @swagger
+ * /api/v1/vibes:
+ *   get:
+ *     summary: List Vibes, newest first
+ *     tags: [Vibes]
+ *     parameters:
+ *       - in: query
+ *         name: creator_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: quest_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: group_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: bbox
+ *         schema:
+ *           type: string
+ *         description: Only Vibes captured within "west,south,east,north", in degrees.
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: A list of Vibes.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Vibe'
+ *       400:
+ *         description: Invalid query parameters.
+ */
+router.get('/', getVibes);
+
+/**
+ * @swagger
+ * /api/v1/vibes/trending:
+ *   get:
+ *     summary: List trending Vibes
+ *     description: >
+ *       Ranks Vibes by their engagement over the last 7 days: a point per like, two per comment
+ *       and one per $Lunoa boosted. Vibes without any are left out.
+ *     tags: [Vibes]
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The trending Vibes, most engaging first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Vibe'
+ *       400:
+ *         description: Invalid query parameters.
+ */
+router.get('/trending', getTrendingVibes);
+
+/**
+ * @swagger
+ * /api/v1/vibes/user/{userId}:
+ *   get:
+ *     summary: List the Vibes a user created, newest first
+ *     tags: [Vibes]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: A list of Vibes.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Vibe'
+ *       400:
+ *         description: Invalid query parameters.
+ *       404:
+ *         description: User not found.
+ */
+router.get('/user/:userId', getUserVibes);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}:
+ *   get:
+ *     summary: Get a Vibe
+ *     tags: [Vibes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The Vibe.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Vibe'
+ *       400:
+ *         description: Invalid Vibe ID.
+ *       404:
+ *         description: Vibe not found.
+ */
+router.get('/:id', getVibeById);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}:
+ *   patch:
+ *     summary: Lock or unlock a Vibe's comments
+ *     description: Only the Vibe's creator can update it. While locked, no one can comment or edit a comment.
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [commentsLocked]
+ *             properties:
+ *               commentsLocked:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: The updated Vibe.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Vibe'
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Not the Vibe's creator.
+ *       404:
+ *         description: Vibe not found.
+ */
+router.patch('/:id', protect, updateVibe);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}/like:
+ *   post:
+ *     summary: Like a Vibe, or take the like back
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Whether you now like the Vibe, and how many users do.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 liked:
+ *                   type: boolean
+ *                 likeCount:
+ *                   type: integer
+ *       400:
+ *         description: Invalid Vibe ID.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Vibe not found.
+ */
+router.post('/:id/like', protect, toggleVibeLike);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}/comments:
+ *   get:
+ *     summary: List a Vibe's comment threads
+ *     description: >
+ *       Pages through the top-level comments, newest first, each with all its replies, oldest
+ *       first. A deleted comment keeps its place in the thread with a null body.
+ *     tags: [Vibes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The comment threads.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/VibeComment'
+ *       400:
+ *         description: Invalid Vibe ID or query parameters.
+ *       404:
+ *         description: Vibe not found.
+ *   post:
+ *     summary: Comment on a Vibe, or reply to a comment
+ *     description: >
+ *       Users can post a limited number of comments a minute and an hour
+ *       (COMMENT_LIMIT_PER_MINUTE, COMMENT_LIMIT_PER_HOUR), and not the same comment on a Vibe
+ *       twice within an hour.
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [body]
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 1000
+ *               parentId:
+ *                 type: integer
+ *                 description: The comment this replies to.
+ *     responses:
+ *       201:
+ *         description: The comment.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VibeComment'
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Comments on the Vibe are locked.
+ *       404:
+ *         description: Vibe or parent comment not found.
+ *       409:
+ *         description: You already posted this comment.
+ *       429:
+ *         description: Too many comments.
+ */
+router.get('/:id/comments', getVibeComments);
+router.post('/:id/comments', protect, addVibeComment);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}/comments/{commentId}:
+ *   patch:
+ *     summary: Edit your comment
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [body]
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: The edited comment.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VibeComment'
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Not your comment, or comments on the Vibe are locked.
+ *       404:
+ *         description: Vibe or comment not found.
+ *   delete:
+ *     summary: Delete a comment
+ *     description: The comment's author or the Vibe's creator can delete it. Its replies stay.
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: The comment was deleted.
+ *       400:
+ *         description: Invalid Vibe or comment ID.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: Neither the comment's author nor the Vibe's creator.
+ *       404:
+ *         description: Vibe or comment not found.
+ */
+router.patch('/:id/comments/:commentId', protect, editVibeComment);
+router.delete('/:id/comments/:commentId', protect, deleteVibeComment);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}/reports:
+ *   post:
+ *     summary: Report a Vibe or one of its comments
+ *     description: Each report lowers the reputation of whoever posted the content.
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [spam, harassment, inappropriate, other]
+ *               details:
+ *                 type: string
+ *                 maxLength: 1000
+ *               commentId:
+ *                 type: integer
+ *                 description: Reports this comment rather than the Vibe.
+ *     responses:
+ *       201:
+ *         description: The report.
+ *       400:
+ *         description: Invalid input, or the content is your own.
+ *       401:
+ *         description: Not authorized.
+ *       404:
+ *         description: Vibe or comment not found.
+ *       409:
+ *         description: You already reported this.
+ */
+router.post('/:id/reports', protect, reportVibeContent);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}/boost:
+ *   post:
+ *     summary: Boost a Vibe
+ *     description: >
+ *       Pays $Lunoa from the caller's wallet, split between the Vibe's creator, the treasury of
+ *       the group it is posted to and a platform fee (BOOST_CREATOR_PERCENT, BOOST_GROUP_PERCENT,
+ *       BOOST_PLATFORM_FEE_PERCENT). A Vibe not posted to a group pays the group's share to its
+ *       creator. No one can boost a Vibe they created or that was minted to their wallet, or
+ *       boost a user who boosted them in the last BOOST_RECIPROCAL_WINDOW_HOURS, and each
+ *       user can boost BOOST_LIMIT_PER_DAY times a day.
+ *     tags: [Vibes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: At least BOOST_MIN_AMOUNT.
+ *     responses:
+ *       201:
+ *         description: The boost, with how it was split.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VibeBoost'
+ *       400:
+ *         description: Invalid input, an amount under the minimum, or the caller's own Vibe.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The Vibe's creator boosted the caller too recently.
+ *       404:
+ *         description: Vibe not found.
+ *       409:
+ *         description: The caller's wallet balance cannot cover the boost.
+ *       429:
+ *         description: The caller reached the daily boost limit.
+ */
+router.post('/:id/boost', protect, boostVibe);
+
+/**
+ * @swagger
+ * /api/v1/vibes/{id}/boosts:
+ *   get:
+ *     summary: List a Vibe's boosts, newest first
+ *     tags: [Vibes]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: The boosts.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/VibeBoost'
+ *       400:
+ *         description: Invalid Vibe ID or query parameters.
+ *       404:
+ *         description: Vibe not found.
+ */
+router.get('/:id/boosts', getVibeBoosts);
 
 export default router;
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import * as walletService from '../../../services/wallet.service';
+import logger from '../../../config/logger';
+
+/**
+ * @route   GET /api/v1/wallet
+ * @desc    Get the caller's wallet balance and transaction history
+ * @access  Private
+ */
+export const getMyWallet = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  try {
+    const wallet = await walletService.getWallet(userId);
+    res.status(200).json(wallet);
+  } catch (error) {
+    logger.error(`Error fetching the wallet of user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to fetch wallet.' });
+  }
+};
+
+/**
+ * @route   POST /api/v1/wallet/deposit
+ * @desc    Deposit funds into the caller's wallet
+ * @access  Admin
+ */
+export const depositToMyWallet = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const { amount, description } = req.body ?? {};
+
+  if (!userId) {
+    return res.status(401).json({ message: 'Unauthorized: User not logged in.' });
+  }
+
+  if (!amount || typeof amount !== 'number' || amount <= 0) {
+    return res.status(400).json({ message: 'A valid positive amount is required.' });
+  }
+
+  try {
+    const transaction = await walletService.depositToWallet(userId, amount, description);
+    res.status(201).json(transaction);
+  } catch (error) {
+    logger.error(`Error in depositToMyWallet controller for user ${userId}:`, error);
+    res.status(500).json({ message: 'Failed to process deposit.' });
+  }
+};
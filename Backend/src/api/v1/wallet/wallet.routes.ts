@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { protect } from '../../../middleware/auth.middleware';
+import { requireAdmin } from '../../../middleware/requireAdmin';
+import { depositToMyWallet, getMyWallet } from './wallet.controller';
+
+// Mounted under /api/v1/wallet.
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/wallet:
+ *   get:
+ *     summary: Get the caller's wallet balance and transaction history
+ *     description: >
+ *       The wallet funds the reward escrows of the quests the caller creates. escrow_lock
+ *       transactions are budgets locked at creation; escrow_refund transactions return what
+ *       a cancelled, expired or deleted quest did not pay out. boost transactions pay for
+ *       boosting a Vibe; boost_payout transactions are the caller's share of boosts of their Vibes.
+ *       purchase_escrow transactions hold the price of a Vibe NFT bought on the marketplace
+ *       until the sale commits on-chain, and purchase_refund transactions return it if the
+ *       sale fails. bid_escrow transactions hold the caller's leading bid in an auction;
+ *       bid_refund transactions return it once outbid, or if the auction ends without
+ *       selling to it. sale_proceeds transactions pay for Vibe NFTs the caller sold; royalty
+ *       transactions are the caller's cut of resales of the Vibes they created.
+ *       treasury_transfer transactions are paid to the caller from a group treasury by a
+ *       passed proposal.
+ *     tags: [Wallet]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The balance and transactions, newest first.
+ *       401:
+ *         description: Not authorized.
+ */
+router.get('/', protect, getMyWallet);
+
+/**
+ * @swagger
+ * /api/v1/wallet/deposit:
+ *   post:
+ *     summary: Deposit funds into the caller's wallet
+ *     description: >
+ *       Admins only. Nothing backs the deposit on-chain, so members cannot credit themselves.
+ *     tags: [Wallet]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Deposit recorded.
+ *       400:
+ *         description: Invalid input.
+ *       401:
+ *         description: Not authorized.
+ *       403:
+ *         description: The caller is not an admin.
+ */
+router.post('/deposit', protect, requireAdmin, depositToMyWallet);
+
+export default router;
@@ -0,0 +1,96 @@
+import { ConfigError, loadConfig } from '../index';
+
+const production = {
+  NODE_ENV: 'production',
+  DATABASE_URL: 'postgres://lunoa:secret@db:5432/lunoa',
+  JWT_SECRET: 'jwt',
+  JWT_REFRESH_SECRET: 'refresh',
+  APTOS_NETWORK: 'testnet',
+  APTOS_CONTRACT_ADDRESS: '0x1538d7aa',
+  APTOS_SERVICE_ACCOUNT_PRIVATE_KEY: 'ed25519-priv-0x01',
+  PINATA_API_KEY: 'key',
+  PINATA_API_SECRET: 'secret',
+};
+
+const errorsFor = (env: NodeJS.ProcessEnv): string[] => {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return error.details;
+    }
+    throw error;
+  }
+  return [];
+};
+
+describe('loadConfig', () => {
+  it('should load a complete production environment with typed values', () => {
+    const config = loadConfig({ ...production, PORT: '8080', PAYOUT_BATCH_SIZE: '25' });
+
+    expect(config).toEqual(expect.objectContaining({ env: 'production', port: 8080 }));
+    expect(config.features).toEqual({ blockchain: true, ipfs: true });
+    expect(config.chain.adapter).toBe('aptos');
+    expect(config.chain.aptos).toEqual(expect.objectContaining({ network: 'testnet', lunoaCoinDecimals: 8 }));
+    expect(config.pinata).toEqual({ apiKey: 'key', apiSecret: 'secret' });
+    expect(config.payouts.batchSize).toBe(25);
+  });
+
+  it('should list every missing variable at once', () => {
+    expect(errorsFor({ NODE_ENV: 'production' })).toEqual(expect.arrayContaining([
+      '"DATABASE_URL" is required',
+      '"JWT_SECRET" is required',
+      '"APTOS_NETWORK" is required',
+      '"PINATA_API_KEY" is required',
+    ]));
+  });
+
+  it('should reject malformed values', () => {
+    expect(errorsFor({ ...production, PORT: 'eighty', APTOS_CONTRACT_ADDRESS: 'lunoa' })).toHaveLength(2);
+  });
+
+  it('should require the boost splits to add up to 100', () => {
+    expect(errorsFor({ ...production, BOOST_CREATOR_PERCENT: '90' })).toEqual([
+      '"BOOST_CREATOR_PERCENT", "BOOST_GROUP_PERCENT" and "BOOST_PLATFORM_FEE_PERCENT" must add up to 100',
+    ]);
+    expect(loadConfig({ ...production, BOOST_GROUP_PERCENT: '10', BOOST_PLATFORM_FEE_PERCENT: '10' }).boosts)
+      .toEqual(expect.objectContaining({ creatorPercent: 80, groupPercent: 10, platformFeePercent: 10 }));
+  });
+
+  it('should read the signer pool as a comma-separated list of keys', () => {
+    const { aptos } = loadConfig({ ...production, APTOS_SIGNER_PRIVATE_KEYS: 'ed25519-priv-0x02, ed25519-priv-0x03,' }).chain;
+
+    expect(aptos).toEqual(expect.objectContaining({
+      signerPrivateKeys: ['ed25519-priv-0x02', 'ed25519-priv-0x03'],
+      gasPriceBumpPercent: 25,
+      maxGasUnitPrice: 10000,
+    }));
+    expect(loadConfig(production).chain.aptos!.signerPrivateKeys).toEqual([]);
+  });
+
+  it('should treat blank variables as unset', () => {
+    expect(errorsFor({ ...production, JWT_SECRET: '  ' })).toEqual(['"JWT_SECRET" is required']);
+  });
+
+  it('should not need credentials for disabled features', () => {
+    const { APTOS_NETWORK, APTOS_CONTRACT_ADDRESS, APTOS_SERVICE_ACCOUNT_PRIVATE_KEY, PINATA_API_KEY, PINATA_API_SECRET, ...rest } = production;
+
+    const config = loadConfig({ ...rest, ENABLE_BLOCKCHAIN: 'false', ENABLE_IPFS: 'false' });
+
+    expect(config.features).toEqual({ blockchain: false, ipfs: false });
+    expect(config.pinata).toBeUndefined();
+  });
+
+  it('should not need Aptos credentials for the in-memory chain', () => {
+    const { APTOS_NETWORK, APTOS_CONTRACT_ADDRESS, APTOS_SERVICE_ACCOUNT_PRIVATE_KEY, ...rest } = production;
+
+    expect(loadConfig({ ...rest, CHAIN_ADAPTER: 'memory' }).chain.adapter).toBe('memory');
+  });
+
+  it('should run tests offline with nothing configured', () => {
+    const config = loadConfig({ NODE_ENV: 'test' });
+
+    expect(config.features).toEqual({ blockchain: true, ipfs: false });
+    expect(config.chain.adapter).toBe('memory');
+  });
+});
@@ -1,19 +1,291 @@
 import dotenv from 'dotenv';
+import Joi from 'joi';
 
 dotenv.config();
 
-const config = {
-  // Aptos Configuration
-  aptosNetwork: process.env.APTOS_NETWORK,
-  aptosContractAddress: process.env.APTOS_CONTRACT_ADDRESS,
-  aptosServiceAccountPrivateKey: process.env.APTOS_SERVICE_ACCOUNT_PRIVATE_KEY,
-
-  port: process.env.PORT || 5000,
-  databaseUrl: process.env.DATABASE_URL,
-  jwtSecret: process.env.JWT_SECRET,
-  jwtRefreshSecret: process.env.JWT_REFRESH_SECRET,
-  pinataApiKey: process.env.PINATA_API_KEY,
-  pinataApiSecret: process.env.PINATA_API_SECRET,
+export const FEATURES = ['blockchain', 'ipfs'] as const;
+export type Feature = typeof FEATURES[number];
+
+export interface AptosSettings {
+  network?: string;
+  contractAddress?: string;
+  serviceAccountPrivateKey?: string;
+  // More accounts to send quest rewards with alongside the service account, for throughput.
+  signerPrivateKeys: string[];
+  // Each further attempt at sending the same thing raises the gas unit price by this much, in percent.
+  gasPriceBumpPercent: number;
+  // The gas unit price is never raised above this, in octas.
+  maxGasUnitPrice: number;
+  // Fully qualified Move type of the $Lunoa coin, e.g. 0x1::lunoa::LunoaCoin
+  lunoaCoinType?: string;
+  lunoaCoinDecimals: number;
+}
+
+export interface PinataSettings {
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface AppConfig {
+  env: 'development' | 'production' | 'test';
+  port: number;
+  databaseUrl?: string;
+  jwtSecret?: string;
+  jwtRefreshSecret?: string;
+  // Optional integrations. A disabled feature's endpoints answer 503.
+  features: Record<Feature, boolean>;
+  chain: {
+    adapter: 'aptos' | 'memory';
+    aptos: AptosSettings;
+    // Admins are alerted when a signer has less APT than this left to pay gas with.
+    minSignerBalance: number;
+  };
+  pinata?: PinataSettings;
+  jobs: {
+    proposalExpiryIntervalMs: number;
+    questExpiryIntervalMs: number;
+    payoutWorkerIntervalMs: number;
+    reputationDecayIntervalMs: number;
+    marketplaceSyncIntervalMs: number;
+    questIndexerIntervalMs: number;
+    transactionTrackerIntervalMs: number;
+    signerMonitorIntervalMs: number;
+  };
+  questIndexer: {
+    // The group quests created on-chain are listed in. The indexer stays off until it is set.
+    groupId?: number;
+    // How many events of each handle one run reads.
+    batchSize: number;
+  };
+  payouts: {
+    batchSize: number;
+    maxAttempts: number;
+  };
+  vibes: {
+    // How many times a Vibe's mint is sent before it is left expired.
+    maxMintAttempts: number;
+  };
+  reputation: {
+    // Every event's effect on a score halves after this many days.
+    halfLifeDays: number;
+  };
+  leaderboards: {
+    // How long a computed ranking is served before it is computed again.
+    cacheTtlMs: number;
+  };
+  comments: {
+    // How many Vibe comments a user may post per minute and per hour.
+    maxPerMinute: number;
+    maxPerHour: number;
+  };
+  boosts: {
+    // How each boost is split, in percent; they add up to 100. Without a group, the
+    // group's share goes to the creator.
+    creatorPercent: number;
+    groupPercent: number;
+    platformFeePercent: number;
+    minAmount: number;
+    // How many boosts a user may make per day.
+    maxPerDay: number;
+    // A user may not boost someone who boosted them within this many hours, so two
+    // accounts cannot pass funds back and forth to inflate each other's Vibes.
+    reciprocalWindowHours: number;
+  };
+  auctions: {
+    // A bid this close to an auction's end pushes the end back to this long after the
+    // bid, so an auction cannot be won by bidding in its last moments.
+    extensionSeconds: number;
+  };
+}
+
+const requiredOutsideTests = (schema: Joi.StringSchema) =>
+  schema.when('NODE_ENV', { is: 'test', then: Joi.optional(), otherwise: Joi.required() });
+
+// Aptos credentials only matter when the blockchain feature uses the real chain.
+const requiredForAptos = (schema: Joi.StringSchema) =>
+  schema.when('ENABLE_BLOCKCHAIN', { is: true, then: Joi.any().when('CHAIN_ADAPTER', { is: 'aptos', then: Joi.required() }) });
+
+// Validates and converts the raw environment. Unknown variables are ignored.
+const envSchema = Joi.object({
+  NODE_ENV: Joi.string().valid('development', 'production', 'test').default('development'),
+  PORT: Joi.number().port().default(3000),
+  DATABASE_URL: requiredOutsideTests(Joi.string().uri({ scheme: ['postgres', 'postgresql'] })),
+  JWT_SECRET: requiredOutsideTests(Joi.string()),
+  JWT_REFRESH_SECRET: requiredOutsideTests(Joi.string()),
+
+  // Tests run offline: no real chain and no IPFS unless asked for.
+  ENABLE_BLOCKCHAIN: Joi.boolean().default(true),
+  ENABLE_IPFS: Joi.boolean()
+    .when('NODE_ENV', { is: 'test', then: Joi.boolean().default(false), otherwise: Joi.boolean().default(true) }),
+  CHAIN_ADAPTER: Joi.string().valid('aptos', 'memory')
+    .when('NODE_ENV', { is: 'test', then: Joi.any().default('memory'), otherwise: Joi.any().default('aptos') }),
+
+  APTOS_NETWORK: requiredForAptos(Joi.string().valid('mainnet', 'testnet', 'devnet', 'local', 'custom')),
+  APTOS_CONTRACT_ADDRESS: requiredForAptos(Joi.string().pattern(/^0x[0-9a-fA-F]{1,64}$/, 'Aptos address')),
+  APTOS_SERVICE_ACCOUNT_PRIVATE_KEY: requiredForAptos(Joi.string()),
+  // Comma-separated.
+  APTOS_SIGNER_PRIVATE_KEYS: Joi.string(),
+  GAS_PRICE_BUMP_PERCENT: Joi.number().min(0).default(25),
+  MAX_GAS_UNIT_PRICE: Joi.number().integer().min(100).default(10000),
+  SIGNER_MIN_BALANCE: Joi.number().min(0).default(1),
+  LUNOA_COIN_TYPE: Joi.string().pattern(/^0x[0-9a-fA-F]+::\w+::\w+$/, 'Move type'),
+  LUNOA_COIN_DECIMALS: Joi.number().integer().min(0).max(18).default(8),
+
+  PINATA_API_KEY: Joi.string().when('ENABLE_IPFS', { is: true, then: Joi.required() }),
+  PINATA_API_SECRET: Joi.string().when('ENABLE_IPFS', { is: true, then: Joi.required() }),
+
+  PROPOSAL_EXPIRY_INTERVAL_MS: Joi.number().integer().min(1000).default(60000),
+  QUEST_EXPIRY_INTERVAL_MS: Joi.number().integer().min(1000).default(60000),
+  PAYOUT_WORKER_INTERVAL_MS: Joi.number().integer().min(1000).default(15000),
+  PAYOUT_BATCH_SIZE: Joi.number().integer().min(1).default(10),
+  PAYOUT_MAX_ATTEMPTS: Joi.number().integer().min(1).default(8),
+  REPUTATION_DECAY_INTERVAL_MS: Joi.number().integer().min(1000).default(3600000),
+  MARKETPLACE_SYNC_INTERVAL_MS: Joi.number().integer().min(1000).default(15000),
+  QUEST_INDEXER_INTERVAL_MS: Joi.number().integer().min(1000).default(15000),
+  TRANSACTION_TRACKER_INTERVAL_MS: Joi.number().integer().min(1000).default(10000),
+  SIGNER_MONITOR_INTERVAL_MS: Joi.number().integer().min(1000).default(300000),
+  VIBE_MINT_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
+  QUEST_INDEXER_BATCH_SIZE: Joi.number().integer().min(1).max(100).default(100),
+  CHAIN_QUEST_GROUP_ID: Joi.number().integer().positive(),
+  REPUTATION_HALF_LIFE_DAYS: Joi.number().integer().min(1).default(180),
+  LEADERBOARD_CACHE_TTL_MS: Joi.number().integer().min(0).default(60000),
+  COMMENT_LIMIT_PER_MINUTE: Joi.number().integer().min(1).default(5),
+  COMMENT_LIMIT_PER_HOUR: Joi.number().integer().min(1).default(60),
+  BOOST_CREATOR_PERCENT: Joi.number().min(0).max(100).default(80),
+  BOOST_GROUP_PERCENT: Joi.number().min(0).max(100).default(15),
+  BOOST_PLATFORM_FEE_PERCENT: Joi.number().min(0).max(100).default(5),
+  BOOST_MIN_AMOUNT: Joi.number().positive().default(1),
+  BOOST_LIMIT_PER_DAY: Joi.number().integer().min(1).default(20),
+  BOOST_RECIPROCAL_WINDOW_HOURS: Joi.number().integer().min(0).default(24),
+  AUCTION_EXTENSION_SECONDS: Joi.number().integer().min(0).default(300),
+})
+  .custom((env, helpers) =>
+    Math.abs(env.BOOST_CREATOR_PERCENT + env.BOOST_GROUP_PERCENT + env.BOOST_PLATFORM_FEE_PERCENT - 100) < 1e-9
+      ? env
+      : helpers.message({ custom: '"BOOST_CREATOR_PERCENT", "BOOST_GROUP_PERCENT" and "BOOST_PLATFORM_FEE_PERCENT" must add up to 100' }))
+  .unknown(true);
+
+/**
+ * Thrown when the environment does not describe a runnable configuration.
+ * The message lists every problem, one per line.
+ */
+export class ConfigError extends Error {
+  constructor(public readonly details: string[]) {
+    super(`Invalid configuration:\n  - ${details.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Empty values in .env files mean "not set".
+const withoutBlanks = (env: NodeJS.ProcessEnv) =>
+  Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value.trim() !== ''));
+
+/**
+ * Builds the application configuration from environment variables.
+ * @param env The variables to read. Defaults to process.env.
+ * @throws ConfigError listing every missing or malformed variable.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const { value, error } = envSchema.validate(withoutBlanks(env), { abortEarly: false });
+  if (error) {
+    throw new ConfigError(error.details.map((detail) => detail.message));
+  }
+
+  return {
+    env: value.NODE_ENV,
+    port: value.PORT,
+    databaseUrl: value.DATABASE_URL,
+    jwtSecret: value.JWT_SECRET,
+    jwtRefreshSecret: value.JWT_REFRESH_SECRET,
+    features: {
+      blockchain: value.ENABLE_BLOCKCHAIN,
+      ipfs: value.ENABLE_IPFS,
+    },
+    chain: {
+      adapter: value.CHAIN_ADAPTER,
+      aptos: {
+        network: value.APTOS_NETWORK,
+        contractAddress: value.APTOS_CONTRACT_ADDRESS,
+        serviceAccountPrivateKey: value.APTOS_SERVICE_ACCOUNT_PRIVATE_KEY,
+        signerPrivateKeys: value.APTOS_SIGNER_PRIVATE_KEYS
+          ? value.APTOS_SIGNER_PRIVATE_KEYS.split(',').map((key: string) => key.trim()).filter(Boolean)
+          : [],
+        gasPriceBumpPercent: value.GAS_PRICE_BUMP_PERCENT,
+        maxGasUnitPrice: value.MAX_GAS_UNIT_PRICE,
+        lunoaCoinType: value.LUNOA_COIN_TYPE,
+        lunoaCoinDecimals: value.LUNOA_COIN_DECIMALS,
+      },
+      minSignerBalance: value.SIGNER_MIN_BALANCE,
+    },
+    pinata: value.PINATA_API_KEY && value.PINATA_API_SECRET
+      ? { apiKey: value.PINATA_API_KEY, apiSecret: value.PINATA_API_SECRET }
+      : undefined,
+    jobs: {
+      proposalExpiryIntervalMs: value.PROPOSAL_EXPIRY_INTERVAL_MS,
+      questExpiryIntervalMs: value.QUEST_EXPIRY_INTERVAL_MS,
+      payoutWorkerIntervalMs: value.PAYOUT_WORKER_INTERVAL_MS,
+      reputationDecayIntervalMs: value.REPUTATION_DECAY_INTERVAL_MS,
+      marketplaceSyncIntervalMs: value.MARKETPLACE_SYNC_INTERVAL_MS,
+      questIndexerIntervalMs: value.QUEST_INDEXER_INTERVAL_MS,
+      transactionTrackerIntervalMs: value.TRANSACTION_TRACKER_INTERVAL_MS,
+      signerMonitorIntervalMs: value.SIGNER_MONITOR_INTERVAL_MS,
+    },
+    questIndexer: {
+      groupId: value.CHAIN_QUEST_GROUP_ID,
+      batchSize: value.QUEST_INDEXER_BATCH_SIZE,
+    },
+    payouts: {
+      batchSize: value.PAYOUT_BATCH_SIZE,
+      maxAttempts: value.PAYOUT_MAX_ATTEMPTS,
+    },
+    vibes: {
+      maxMintAttempts: value.VIBE_MINT_MAX_ATTEMPTS,
+    },
+    reputation: {
+      halfLifeDays: value.REPUTATION_HALF_LIFE_DAYS,
+    },
+    leaderboards: {
+      cacheTtlMs: value.LEADERBOARD_CACHE_TTL_MS,
+    },
+    comments: {
+      maxPerMinute: value.COMMENT_LIMIT_PER_MINUTE,
+      maxPerHour: value.COMMENT_LIMIT_PER_HOUR,
+    },
+    boosts: {
+      creatorPercent: value.BOOST_CREATOR_PERCENT,
+      groupPercent: value.BOOST_GROUP_PERCENT,
+      platformFeePercent: value.BOOST_PLATFORM_FEE_PERCENT,
+      minAmount: value.BOOST_MIN_AMOUNT,
+      maxPerDay: value.BOOST_LIMIT_PER_DAY,
+      reciprocalWindowHours: value.BOOST_RECIPROCAL_WINDOW_HOURS,
+    },
+    auctions: {
+      extensionSeconds: value.AUCTION_EXTENSION_SECONDS,
+    },
+  };
+};
+
+let config: AppConfig | undefined;
+
+/**
+ * Returns the application configuration, loading it from the environment on first use.
+ */
+export const getConfig = (): AppConfig => {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+};
+
+/**
+ * Replaces the application configuration, e.g. with a fixture in tests.
+ * Pass undefined to reload from the environment on next use.
+ */
+export const setConfig = (next: AppConfig | undefined): void => {
+  config = next;
 };
 
-export default config;
+/**
+ * Whether an optional integration is turned on.
+ */
+export const isFeatureEnabled = (feature: Feature): boolean => getConfig().features[feature];
@@ -21,6 +21,38 @@ const swaggerOptions: swaggerJSDoc.Options = {
         name: 'Quests',
         description: 'Quest management related endpoints',
       },
+      {
+        name: 'Feed Groups',
+        description: 'Feed group management related endpoints',
+      },
+      {
+        name: 'Proposals',
+        description: 'Group governance related endpoints',
+      },
+      {
+        name: 'Treasury',
+        description: 'Group treasury related endpoints',
+      },
+      {
+        name: 'Achievements',
+        description: 'Achievement definitions and the rules that award them',
+      },
+      {
+        name: 'Leaderboards',
+        description: 'Users ranked by the reputation they earned, globally, in an area or in a group',
+      },
+      {
+        name: 'Vibes',
+        description: 'Vibe NFTs: moments captured on quests, minted on-chain',
+      },
+      {
+        name: 'Marketplace',
+        description: 'Fixed-price listings and auctions of Vibe NFTs, with royalties for their creators',
+      },
+      {
+        name: 'Blockchain',
+        description: 'The transactions the backend submits on-chain and their status',
+      },
     ],
     servers: [
       {
@@ -36,6 +68,24 @@ const swaggerOptions: swaggerJSDoc.Options = {
           bearerFormat: 'JWT',
         },
       },
+      parameters: {
+        LeaderboardWindow: {
+          in: 'query',
+          name: 'window',
+          schema: { type: 'string', enum: ['weekly', 'monthly', 'all_time'], default: 'weekly' },
+          description: 'Count the reputation earned in the last 7 days, the last 30 days or ever.',
+        },
+        LeaderboardLimit: {
+          in: 'query',
+          name: 'limit',
+          schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+        },
+        LeaderboardOffset: {
+          in: 'query',
+          name: 'offset',
+          schema: { type: 'integer', minimum: 0, default: 0 },
+        },
+      },
       schemas: {
         User: {
           type: 'object',
@@ -54,6 +104,215 @@ const swaggerOptions: swaggerJSDoc.Options = {
             },
           },
         },
+        SubmissionEvidence: {
+          type: 'object',
+          description: 'Proof of completion. Include every type the quest lists in required_evidence.',
+          properties: {
+            photo: {
+              type: 'object',
+              properties: { ipfsHash: { type: 'string', description: 'Returned by POST /api/v1/media/upload.' } },
+            },
+            text: { type: 'string', maxLength: 2000 },
+            url: { type: 'string', format: 'uri' },
+            vibeNft: {
+              type: 'object',
+              properties: { transactionHash: { type: 'string', description: 'Hash of the Vibe NFT mint transaction.' } },
+            },
+          },
+        },
+        Achievement: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', readOnly: true },
+            name: { type: 'string', minLength: 3, maxLength: 100 },
+            description: { type: 'string', nullable: true },
+            icon_url: { type: 'string', format: 'uri', nullable: true },
+            rule: {
+              type: 'object',
+              nullable: true,
+              description: 'Awards the achievement once the user has threshold activities of this type. Achievements without a rule are never awarded automatically.',
+              properties: {
+                activity: { type: 'string', enum: ['quest_verified', 'user_followed', 'vibe_liked', 'vibe_unliked', 'vibe_commented', 'vibe_comment_edited', 'vibe_comment_deleted', 'vibe_reported', 'vibe_boosted'] },
+                threshold: { type: 'integer', minimum: 1 },
+                distinct: { type: 'string', description: 'Count distinct values of this metadata key instead, e.g. groupId or followingId.' },
+                where: { type: 'object', description: 'Only count activities whose metadata has these values.' },
+              },
+              required: ['activity', 'threshold'],
+            },
+          },
+        },
+        Leaderboard: {
+          type: 'object',
+          properties: {
+            window: { type: 'string', enum: ['weekly', 'monthly', 'all_time'] },
+            total: { type: 'integer', description: 'How many users are ranked.' },
+            entries: { type: 'array', items: { $ref: '#/components/schemas/LeaderboardEntry' } },
+            caller: {
+              allOf: [{ $ref: '#/components/schemas/LeaderboardEntry' }],
+              nullable: true,
+              description: "The caller's own entry, wherever they rank, or null if they have not scored.",
+            },
+          },
+        },
+        LeaderboardEntry: {
+          type: 'object',
+          properties: {
+            rank: { type: 'integer', description: 'Tied users share a rank.' },
+            user_id: { type: 'string' },
+            username: { type: 'string', nullable: true },
+            avatar_url: { type: 'string', nullable: true },
+            score: { type: 'integer', description: 'Reputation earned in the window, before decay.' },
+            quests_verified: { type: 'integer', description: 'Breaks ties in score.' },
+          },
+        },
+        Vibe: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            creator_id: { type: 'string' },
+            creator_username: { type: 'string', nullable: true },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            collection_name: { type: 'string' },
+            recipient_address: { type: 'string', description: 'The address the NFT was minted to.' },
+            owner_address: { type: 'string', description: 'The address holding the NFT now.' },
+            token_address: { type: 'string', nullable: true, description: 'The minted token object, once the mint commits, if the chain reported it.' },
+            tx_hash: { type: 'string', description: 'The mint transaction.' },
+            mint_status: { type: 'string', enum: ['pending', 'success', 'failed', 'expired'], description: 'The status of the mint transaction.' },
+            metadata_cid: { type: 'string' },
+            image_cid: { type: 'string' },
+            latitude: { type: 'number', nullable: true },
+            longitude: { type: 'number', nullable: true },
+            quest_id: { type: 'string', nullable: true },
+            group_id: { type: 'integer', nullable: true },
+            comments_locked: { type: 'boolean', description: 'No one can comment or edit a comment while locked.' },
+            like_count: { type: 'integer' },
+            comment_count: { type: 'integer', description: 'Comments not deleted.' },
+            boost_total: { type: 'string', description: 'The $Lunoa boosted to it in all.' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        VibeComment: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            vibe_id: { type: 'integer' },
+            parent_id: { type: 'integer', nullable: true, description: 'The comment this replies to.' },
+            user_id: { type: 'string' },
+            username: { type: 'string', nullable: true },
+            body: { type: 'string', nullable: true, description: 'Null once deleted.' },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+            deleted_at: { type: 'string', format: 'date-time', nullable: true },
+            replies: { type: 'array', items: { $ref: '#/components/schemas/VibeComment' }, description: 'Only when listing threads.' },
+          },
+        },
+        VibeBoost: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            vibe_id: { type: 'integer', nullable: true },
+            booster_id: { type: 'string', nullable: true },
+            booster_username: { type: 'string', nullable: true },
+            amount: { type: 'string' },
+            creator_id: { type: 'string', nullable: true },
+            creator_amount: { type: 'string', description: "Paid to the creator's wallet." },
+            group_id: { type: 'integer', nullable: true },
+            group_amount: { type: 'string', description: "Paid to the group's treasury." },
+            platform_fee: { type: 'string' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        MarketplaceListing: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            chain_listing_id: { type: 'string', description: "The listing's ID in the marketplace contract." },
+            vibe_id: { type: 'integer' },
+            vibe_name: { type: 'string' },
+            vibe_image_cid: { type: 'string' },
+            seller_id: { type: 'string', nullable: true },
+            seller_username: { type: 'string', nullable: true },
+            seller_address: { type: 'string' },
+            price: { type: 'string', description: 'In $Lunoa; the starting bid of an auction.' },
+            listing_type: { type: 'string', enum: ['fixed_price', 'auction'] },
+            status: {
+              type: 'string',
+              enum: ['active', 'pending_sale', 'sold', 'cancelled', 'expired'],
+              description: 'pending_sale while a sale waits for its transaction; expired auctions ended without a winning bid.',
+            },
+            tx_hash: { type: 'string', description: 'The listing transaction.' },
+            cancel_tx_hash: { type: 'string', nullable: true, description: 'The transaction withdrawing a cancelled listing or expired auction.' },
+            auction_ends_at: { type: 'string', format: 'date-time', nullable: true, description: 'Pushed back by late bids.' },
+            auction_min_increment: { type: 'string', nullable: true, description: 'How much each bid must beat the leading one by.' },
+            highest_bid: { type: 'string', nullable: true },
+            bid_count: { type: 'integer' },
+            reserve_met: { type: 'boolean', nullable: true, description: 'Whether the highest bid meets the hidden reserve price.' },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        MarketplaceSale: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            listing_id: { type: 'integer' },
+            vibe_id: { type: 'integer' },
+            seller_id: { type: 'string', nullable: true },
+            buyer_id: { type: 'string', nullable: true },
+            buyer_username: { type: 'string', nullable: true },
+            buyer_address: { type: 'string' },
+            price: { type: 'string', description: 'In $Lunoa, held in escrow until the sale completes.' },
+            royalty_amount: { type: 'string', description: "The Vibe creator's cut, at the collection's royalty rate." },
+            royalty_recipient_id: { type: 'string', nullable: true },
+            bid_id: { type: 'integer', nullable: true, description: 'The winning bid, for the sale of an auction.' },
+            status: {
+              type: 'string',
+              enum: ['submitted', 'completed', 'failed'],
+              description: 'submitted while the transaction is in flight; failed sales are refunded.',
+            },
+            tx_hash: { type: 'string' },
+            failure_reason: { type: 'string', nullable: true },
+            completed_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        MarketplaceBid: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            listing_id: { type: 'integer' },
+            vibe_id: { type: 'integer' },
+            bidder_id: { type: 'string', nullable: true },
+            bidder_username: { type: 'string', nullable: true },
+            bidder_address: { type: 'string', description: 'Where the NFT goes if the bid wins.' },
+            amount: { type: 'string', description: 'In $Lunoa.' },
+            status: {
+              type: 'string',
+              enum: ['leading', 'outbid', 'won', 'refunded'],
+              description: 'Only the leading bid holds its amount in escrow; outbid and refunded bids got it back.',
+            },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        QuestStep: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', readOnly: true },
+            position: { type: 'integer', readOnly: true, description: 'Steps are done in this order, starting at 1.' },
+            title: { type: 'string', maxLength: 100 },
+            description: { type: 'string', nullable: true },
+            verification_method: {
+              type: 'string',
+              enum: ['review', 'check_in', 'auto'],
+              description: 'review steps await the quest creator, check_in steps a GPS fix inside the geofence, auto steps only their evidence.',
+            },
+            required_evidence: { type: 'array', items: { type: 'string', enum: ['photo', 'text', 'url'] } },
+            latitude: { type: 'number', nullable: true, description: 'Required for check_in steps.' },
+            longitude: { type: 'number', nullable: true, description: 'Required for check_in steps.' },
+            geofence_radius_m: { type: 'integer', minimum: 10, maximum: 10000, default: 100 },
+          },
+        },
         Quest: {
           type: 'object',
           properties: {
@@ -61,12 +320,134 @@ const swaggerOptions: swaggerJSDoc.Options = {
             title: { type: 'string' },
             description: { type: 'string' },
             creator_id: { type: 'string' },
-            reward: { type: 'number' },
+            reward: { type: 'integer', minimum: 1, description: 'Paid on-chain in whole tokens.' },
             currency: { type: 'string', enum: ['Lunoa', 'USDC'] },
             type: { type: 'string', enum: ['social', 'location_based'] },
-            status: { type: 'string', enum: ['active', 'completed', 'expired'] },
+            status: { type: 'string', enum: ['active', 'completed', 'expired', 'cancelled'] },
+            latitude: { type: 'number', nullable: true, description: 'Required for location_based quests.' },
+            longitude: { type: 'number', nullable: true, description: 'Required for location_based quests.' },
+            geofence_radius_m: { type: 'integer', minimum: 10, maximum: 10000, default: 100, description: 'Check-ins must be within this many meters of the quest location.' },
+            check_in_auto_verify: { type: 'boolean', default: false, description: 'Verify participants whose check-in passes every check without waiting for the creator.' },
+            required_evidence: {
+              type: 'array',
+              items: { type: 'string', enum: ['photo', 'text', 'url', 'vibe_nft'] },
+              description: 'Evidence participants must submit to complete the quest.',
+            },
+            max_participants: { type: 'integer', minimum: 1, nullable: true, description: 'Joining is refused once this many people take part. Unlimited if null.' },
+            max_winners: { type: 'integer', minimum: 1, nullable: true, description: 'How many participants are rewarded. reward × max_winners is locked in escrow at creation. Defaults to max_participants and is required without it.' },
+            funding_source: { type: 'string', enum: ['creator', 'treasury'], default: 'creator', writeOnly: true, description: "Pay the escrow from the creator's wallet or, for group creators and admins, the group treasury." },
+            join_opens_at: { type: 'string', format: 'date-time', nullable: true, description: 'People may join from this time. Open from creation if null.' },
+            join_closes_at: { type: 'string', format: 'date-time', nullable: true, description: 'People may join until this time, at most expires_at. Open until expiry if null.' },
+            completion_window_minutes: { type: 'integer', minimum: 1, nullable: true, description: 'How long each participant has from joining to submit, capped at expires_at.' },
+            steps: {
+              type: 'array',
+              writeOnly: true,
+              maxItems: 20,
+              description: 'Makes the quest a chain completed step by step, in order. Fetch them with GET .../steps.',
+              items: { $ref: '#/components/schemas/QuestStep' },
+            },
+            prerequisites: {
+              type: 'array',
+              writeOnly: true,
+              maxItems: 10,
+              description: 'Quests people must have been verified on, achievements they must hold, or the reputation score they must have, to join. Each item sets exactly one.',
+              items: {
+                type: 'object',
+                properties: {
+                  quest_id: { type: 'string', description: 'A quest of the same group.' },
+                  achievement_id: { type: 'integer' },
+                  min_reputation: { type: 'integer', minimum: 1 },
+                },
+              },
+            },
             created_at: { type: 'string', format: 'date-time' },
             expires_at: { type: 'string', format: 'date-time' },
+            chain_quest_id: {
+              type: 'string',
+              nullable: true,
+              readOnly: true,
+              description: "The quest's ID in the quest contract, for quests created on-chain. They are joined, completed and cancelled on-chain, not through the API.",
+            },
+          },
+        },
+        QuestUpdate: {
+          type: 'object',
+          minProperties: 1,
+          additionalProperties: false,
+          description: 'The fields a creator may change after creation. reward, max_winners, currency and status are fixed by the escrow locked at creation.',
+          properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+            type: { type: 'string', enum: ['social', 'location_based'] },
+            latitude: { type: 'number', description: 'Set together with longitude.' },
+            longitude: { type: 'number', description: 'Set together with latitude.' },
+            geofence_radius_m: { type: 'integer', minimum: 10, maximum: 10000 },
+            check_in_auto_verify: { type: 'boolean' },
+            required_evidence: { type: 'array', items: { type: 'string', enum: ['photo', 'text', 'url', 'vibe_nft'] } },
+            max_participants: { type: 'integer', minimum: 1 },
+            join_opens_at: { type: 'string', format: 'date-time' },
+            join_closes_at: { type: 'string', format: 'date-time' },
+            completion_window_minutes: { type: 'integer', minimum: 1 },
+            expires_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        ChainTransaction: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            tx_hash: { type: 'string' },
+            purpose: { type: 'string', enum: ['vibe_mint', 'quest_reward', 'marketplace_listing', 'marketplace_cancellation', 'marketplace_sale'] },
+            entity_type: {
+              type: 'string',
+              enum: ['vibe', 'reward_payout', 'marketplace_listing', 'marketplace_sale'],
+              description: 'The kind of row the transaction acts for.',
+            },
+            entity_id: { type: 'integer' },
+            user_id: { type: 'string', nullable: true, description: 'Who the transaction was sent for.' },
+            sender: { type: 'string', nullable: true, description: 'The signer that sent it.' },
+            sequence_number: { type: 'string', nullable: true, description: "The sender's sequence number it was signed with." },
+            gas_unit_price: { type: 'string', nullable: true, description: 'The gas unit price it offered, in octas. Each resubmission offers more.' },
+            gas_used: { type: 'string', nullable: true, description: 'Set once the transaction is committed.' },
+            status: {
+              type: 'string',
+              enum: ['pending', 'success', 'failed', 'expired'],
+              description: 'expired transactions were never committed and never can be.',
+            },
+            expires_at: { type: 'string', format: 'date-time', nullable: true },
+            committed_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        Signer: {
+          type: 'object',
+          properties: {
+            address: { type: 'string' },
+            balance: { type: 'number', description: 'APT left to pay gas with.' },
+            low: { type: 'boolean', description: 'Whether the balance is below SIGNER_MIN_BALANCE.' },
+            nextSequenceNumber: { type: 'integer', nullable: true, description: 'The next new sequence number it will sign with. Null until it first signs.' },
+            inFlight: { type: 'integer', description: 'Transactions signed and not known to have executed or expired.' },
+          },
+        },
+        QuestIndexerStatus: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean', description: 'Whether on-chain quests are being indexed.' },
+            behind: { type: 'integer', description: 'Events emitted on-chain but not indexed yet, as of the last poll.' },
+            lag_seconds: { type: 'number', nullable: true, description: 'Seconds since the least recently synced event handle was synced. Null until every handle has been.' },
+            handles: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  event_type: { type: 'string', enum: ['quest_created', 'quest_joined', 'quest_completed', 'quest_canceled'] },
+                  indexed: { type: 'integer' },
+                  on_chain: { type: 'integer' },
+                  behind: { type: 'integer' },
+                  synced_at: { type: 'string', format: 'date-time', nullable: true },
+                },
+              },
+            },
           },
         },
       },
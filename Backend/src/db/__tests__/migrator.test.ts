@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadMigrations, MIGRATIONS_DIR } from '../migrator';
+
+describe('Migrator - loadMigrations', () => {
+  let dir: string;
+
+  const write = (file: string, sql: string) => fs.writeFileSync(path.join(dir, file), sql);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lunoa-migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should pair up and down files and sort them by numeric version', () => {
+    write('0010_add_index.up.sql', 'CREATE INDEX a ON b (c);');
+    write('0010_add_index.down.sql', 'DROP INDEX a;');
+    write('0002_create_table.up.sql', 'CREATE TABLE b (c INT);');
+    write('0002_create_table.down.sql', 'DROP TABLE b;');
+    write('README.md', 'not a migration');
+
+    const migrations = loadMigrations(dir);
+
+    expect(migrations.map((m) => m.version)).toEqual(['0002', '0010']);
+    expect(migrations[0]).toMatchObject({ name: 'create_table', up: 'CREATE TABLE b (c INT);', down: 'DROP TABLE b;' });
+    expect(migrations[0].checksum).toHaveLength(64);
+  });
+
+  it('should throw if a migration is missing its down file', () => {
+    write('0001_initial.up.sql', 'SELECT 1;');
+
+    expect(() => loadMigrations(dir)).toThrow('must have both an .up.sql and a .down.sql file');
+  });
+
+  it('should throw if the up and down files disagree on the name', () => {
+    write('0001_initial.up.sql', 'SELECT 1;');
+    write('0001_first.down.sql', 'SELECT 1;');
+
+    expect(() => loadMigrations(dir)).toThrow('mismatched file names');
+  });
+
+  it('should load the repository migrations without gaps in the up/down pairs', () => {
+    const migrations = loadMigrations(MIGRATIONS_DIR);
+
+    expect(migrations.length).toBeGreaterThan(0);
+    expect(new Set(migrations.map((m) => m.version)).size).toBe(migrations.length);
+  });
+});
@@ -0,0 +1,38 @@
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+import { backfillAchievements } from '../services/achievements.service';
+
+const USAGE = 'Usage: npm run backfill-achievements -- [achievementId]';
+
+/**
+ * Command-line entry point that awards the achievements users have earned by their past
+ * activities, e.g. after deploying new rules. Safe to run repeatedly.
+ *   [achievementId]  Only evaluate this achievement. Defaults to all of them.
+ */
+const run = async (arg: string | undefined) => {
+  const achievementId = arg ? parseInt(arg, 10) : undefined;
+  if (achievementId !== undefined && (isNaN(achievementId) || achievementId < 1)) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const pool = getPool();
+  try {
+    const awards = await backfillAchievements(achievementId);
+    const perAchievement = new Map<number, number>();
+    for (const award of awards) {
+      perAchievement.set(award.achievement_id, (perAchievement.get(award.achievement_id) ?? 0) + 1);
+    }
+    for (const [id, count] of perAchievement) {
+      console.log(`achievement ${id}: awarded to ${count} user(s)`);
+    }
+  } finally {
+    await pool.end();
+  }
+};
+
+run(process.argv[2]).catch((error) => {
+  logger.error('Achievement backfill failed:', error);
+  process.exit(1);
+});
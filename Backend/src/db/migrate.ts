@@ -0,0 +1,53 @@
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+import { getMigrationStatus, migrateDown, migrateUp } from './migrator';
+
+const USAGE = 'Usage: npm run migrate -- <up [version] | down [steps] | status>';
+
+/**
+ * Command-line entry point for the migration runner.
+ *   up [version]  Apply pending migrations, optionally stopping at a version.
+ *   down [steps]  Revert the latest applied migration(s). Defaults to one.
+ *   status        List every migration and whether it has been applied.
+ */
+const run = async (command: string | undefined, arg: string | undefined) => {
+  const pool = getPool();
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(pool, { to: arg });
+        logger.info(applied.length ? `Applied ${applied.length} migration(s).` : 'Database is already up to date.');
+        break;
+      }
+      case 'down': {
+        const steps = arg ? parseInt(arg, 10) : 1;
+        if (isNaN(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${arg}`);
+        }
+        const reverted = await migrateDown(pool, { steps });
+        logger.info(reverted.length ? `Reverted ${reverted.length} migration(s).` : 'No applied migrations to revert.');
+        break;
+      }
+      case 'status': {
+        const statuses = await getMigrationStatus(pool);
+        for (const status of statuses) {
+          const appliedAt = status.appliedAt ? ` (${status.appliedAt.toISOString()})` : '';
+          const drift = status.checksumMismatch ? ' [changed since applied]' : '';
+          console.log(`${status.version}_${status.name}: ${status.state}${appliedAt}${drift}`);
+        }
+        break;
+      }
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    await pool.end();
+  }
+};
+
+run(process.argv[2], process.argv[3]).catch((error) => {
+  logger.error('Migration command failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import logger from '../config/logger';
+
+// Resolves to Backend/migrations from both src/db (ts-node) and dist/db (compiled).
+export const MIGRATIONS_DIR = path.resolve(__dirname, '../../migrations');
+
+// Arbitrary key for pg_advisory_lock so two migrators never run concurrently.
+const MIGRATION_LOCK_KEY = 727274;
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: 'applied' | 'pending' | 'missing';
+  appliedAt?: Date;
+  checksumMismatch: boolean;
+}
+
+const checksumOf = (sql: string): string => crypto.createHash('sha256').update(sql).digest('hex');
+
+/**
+ * Reads every `<version>_<name>.(up|down).sql` pair from the migrations directory.
+ * @param dir The directory to read migrations from.
+ * @returns The migrations sorted by version, ascending.
+ */
+export const loadMigrations = (dir: string = MIGRATIONS_DIR): Migration[] => {
+  const byVersion = new Map<string, Partial<Migration>>();
+
+  for (const file of fs.readdirSync(dir)) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const [, version, name, direction] = match;
+    const existing = byVersion.get(version) || { version, name };
+    if (existing.name !== name) {
+      throw new Error(`Migration ${version} has mismatched file names: "${existing.name}" and "${name}".`);
+    }
+
+    const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+    if (direction === 'up') {
+      existing.up = sql;
+      existing.checksum = checksumOf(sql);
+    } else {
+      existing.down = sql;
+    }
+    byVersion.set(version, existing);
+  }
+
+  const migrations = Array.from(byVersion.values()).map((migration) => {
+    if (migration.up === undefined || migration.down === undefined) {
+      throw new Error(`Migration ${migration.version}_${migration.name} must have both an .up.sql and a .down.sql file.`);
+    }
+    return migration as Migration;
+  });
+
+  return migrations.sort((a, b) => Number(a.version) - Number(b.version));
+};
+
+const ensureMigrationsTable = async (client: PoolClient) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(32) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+};
+
+const getAppliedMigrations = async (client: PoolClient): Promise<AppliedMigration[]> => {
+  const { rows } = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version::bigint ASC;');
+  return rows;
+};
+
+/**
+ * Runs `work` while holding the migration advisory lock and the ledger table in place.
+ */
+const withMigrationLock = async <T>(pool: Pool, work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await work(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+};
+
+/**
+ * Applies every pending migration in version order, each in its own transaction.
+ * @param pool The database pool to migrate.
+ * @param options.to Optional version to stop at (inclusive).
+ * @returns The migrations that were applied.
+ */
+export const migrateUp = async (pool: Pool, options: { to?: string } = {}, migrations: Migration[] = loadMigrations()): Promise<Migration[]> => {
+  return withMigrationLock(pool, async (client) => {
+    const applied = new Set((await getAppliedMigrations(client)).map((m) => m.version));
+    const target = options.to !== undefined ? Number(options.to) : Infinity;
+    const pending = migrations.filter((m) => !applied.has(m.version) && Number(m.version) <= target);
+
+    for (const migration of pending) {
+      logger.info(`Applying migration ${migration.version}_${migration.name}`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3);',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error(`Migration ${migration.version}_${migration.name} failed:`, error);
+        throw error;
+      }
+    }
+
+    return pending;
+  });
+};
+
+/**
+ * Reverts the most recently applied migrations, newest first.
+ * @param pool The database pool to migrate.
+ * @param options.steps How many migrations to revert (defaults to 1).
+ * @returns The migrations that were reverted.
+ */
+export const migrateDown = async (pool: Pool, options: { steps?: number } = {}, migrations: Migration[] = loadMigrations()): Promise<Migration[]> => {
+  const steps = options.steps ?? 1;
+
+  return withMigrationLock(pool, async (client) => {
+    const applied = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const entry of applied) {
+      const migration = migrations.find((m) => m.version === entry.version);
+      if (!migration) {
+        throw new Error(`Cannot revert migration ${entry.version}_${entry.name}: its files are missing.`);
+      }
+
+      logger.info(`Reverting migration ${migration.version}_${migration.name}`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1;', [migration.version]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error(`Reverting migration ${migration.version}_${migration.name} failed:`, error);
+        throw error;
+      }
+      reverted.push(migration);
+    }
+
+    return reverted;
+  });
+};
+
+/**
+ * Compares the migration files on disk with the schema_migrations ledger.
+ * @param pool The database pool to inspect.
+ * @returns One entry per known version, flagging applied migrations whose SQL changed since.
+ */
+export const getMigrationStatus = async (pool: Pool, migrations: Migration[] = loadMigrations()): Promise<MigrationStatus[]> => {
+  return withMigrationLock(pool, async (client) => {
+    const applied = await getAppliedMigrations(client);
+    const appliedByVersion = new Map(applied.map((m) => [m.version, m]));
+
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const entry = appliedByVersion.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: entry ? 'applied' : 'pending',
+        appliedAt: entry?.applied_at,
+        checksumMismatch: entry ? entry.checksum !== migration.checksum : false,
+      };
+    });
+
+    for (const entry of applied) {
+      if (!migrations.some((m) => m.version === entry.version)) {
+        statuses.push({ version: entry.version, name: entry.name, state: 'missing', appliedAt: entry.applied_at, checksumMismatch: false });
+      }
+    }
+
+    return statuses.sort((a, b) => Number(a.version) - Number(b.version));
+  });
+};
@@ -1,16 +1,32 @@
 import { app } from './app';
+import { AppConfig, ConfigError, getConfig } from './config/index';
 import logger from './config/logger';
 import { getPool } from './config/database';
+import { startBackgroundJobs } from './jobs';
 
-const port = process.env.PORT || 3000;
+// Fail fast, with every problem listed, rather than on the first request that needs a setting.
+const loadConfigOrExit = (): AppConfig => {
+  try {
+    return getConfig();
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      logger.error(err.message);
+      process.exit(1);
+    }
+    throw err;
+  }
+};
+
+const config = loadConfigOrExit();
 
-const server = app.listen(port, async () => {
+const server = app.listen(config.port, async () => {
   try {
     // Test DB connection on startup
-        const client = await getPool().connect();
+    const client = await getPool().connect();
     logger.info('Database connection test successful.');
     client.release();
-    logger.info(`Server is running at http://localhost:${port}`);
+    startBackgroundJobs(config);
+    logger.info(`Server is running at http://localhost:${config.port}`);
   } catch (err) {
     logger.error('Failed to connect to the database on startup.', err);
     process.exit(1);
@@ -18,4 +34,3 @@ const server = app.listen(port, async () => {
 });
 
 export { server };
-                
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { AppConfig, getConfig } from '../config/index';
+import logger from '../config/logger';
+import { createMarketplaceSyncJob } from './marketplaceSync.job';
+import { createPayoutWorkerJob } from './payoutWorker.job';
+import { createProposalExpiryJob } from './proposalExpiry.job';
+import { createQuestExpiryJob } from './questExpiry.job';
+import { createQuestIndexerJob } from './questIndexer.job';
+import { createReputationDecayJob } from './reputationDecay.job';
+import { scheduleJob, stopAllJobs } from './scheduler';
+import { createSignerMonitorJob } from './signerMonitor.job';
+import { createTransactionTrackerJob } from './transactionTracker.job';
+
+/**
+ * Starts the background jobs that run alongside the API server.
+ * @param config The application configuration. Defaults to the loaded one.
+ */
+export const startBackgroundJobs = (config: AppConfig = getConfig()): void => {
+  scheduleJob(createProposalExpiryJob(config.jobs.proposalExpiryIntervalMs));
+  scheduleJob(createQuestExpiryJob(config.jobs.questExpiryIntervalMs));
+  scheduleJob(createReputationDecayJob(config.jobs.reputationDecayIntervalMs, config.reputation.halfLifeDays));
+
+  if (config.features.blockchain) {
+    scheduleJob(createPayoutWorkerJob(config.jobs.payoutWorkerIntervalMs));
+    scheduleJob(createMarketplaceSyncJob(config.jobs.marketplaceSyncIntervalMs));
+    scheduleJob(createTransactionTrackerJob(config.jobs.transactionTrackerIntervalMs));
+    scheduleJob(createSignerMonitorJob(config.jobs.signerMonitorIntervalMs));
+    if (config.questIndexer.groupId !== undefined) {
+      scheduleJob(createQuestIndexerJob(config.jobs.questIndexerIntervalMs));
+    } else {
+      logger.warn('CHAIN_QUEST_GROUP_ID is not set; quests created directly on-chain will not be indexed.');
+    }
+  } else {
+    logger.warn('Blockchain is disabled; quest reward payouts will stay queued and marketplace purchases in flight unsettled until it is enabled.');
+  }
+};
+
+export { stopAllJobs };
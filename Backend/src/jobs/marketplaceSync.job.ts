@@ -0,0 +1,20 @@
+import logger from '../config/logger';
+import { closeEndedAuctions, reconcileSubmittedSales } from '../services/marketplace.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Settles marketplace purchases whose transactions were still in flight when the buyer
+ * was answered, paying the seller or refunding the buyer, and closes auctions that have
+ * ended.
+ */
+export const createMarketplaceSyncJob = (intervalMs: number): ScheduledJob => ({
+  name: 'marketplace-sync',
+  intervalMs,
+  run: async () => {
+    const settled = await reconcileSubmittedSales();
+    const closed = await closeEndedAuctions();
+    if (settled > 0 || closed > 0) {
+      logger.info(`Marketplace sync: ${settled} sale(s) settled, ${closed} auction(s) closed`);
+    }
+  },
+});
@@ -0,0 +1,17 @@
+import logger from '../config/logger';
+import { processRewardPayouts } from '../services/payouts.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Sends queued quest reward payouts on-chain and settles the ones already submitted.
+ */
+export const createPayoutWorkerJob = (intervalMs: number): ScheduledJob => ({
+  name: 'payout-worker',
+  intervalMs,
+  run: async () => {
+    const { released, reconciled, processed } = await processRewardPayouts();
+    if (released + reconciled + processed > 0) {
+      logger.info(`Payout worker: ${processed} sent, ${reconciled} reconciled, ${released} stale claim(s) released`);
+    }
+  },
+});
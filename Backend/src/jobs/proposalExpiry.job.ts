@@ -0,0 +1,17 @@
+import logger from '../config/logger';
+import { closeExpiredProposals } from '../services/proposals.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Closes proposals whose voting period has ended and records their outcome.
+ */
+export const createProposalExpiryJob = (intervalMs: number): ScheduledJob => ({
+  name: 'proposal-expiry',
+  intervalMs,
+  run: async () => {
+    const closed = await closeExpiredProposals();
+    if (closed.length > 0) {
+      logger.info(`Closed ${closed.length} expired proposal(s): ${closed.map((p) => `${p.id}=${p.status}`).join(', ')}`);
+    }
+  },
+});
@@ -0,0 +1,17 @@
+import logger from '../config/logger';
+import { expireQuests } from '../services/quests.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Expires quests and participants whose deadlines have passed, and notifies the participants.
+ */
+export const createQuestExpiryJob = (intervalMs: number): ScheduledJob => ({
+  name: 'quest-expiry',
+  intervalMs,
+  run: async () => {
+    const { quests, participants, notifications } = await expireQuests();
+    if (quests.length + participants > 0) {
+      logger.info(`Expired ${quests.length} quest(s) and ${participants} participant(s); sent ${notifications} notification(s)`);
+    }
+  },
+});
@@ -0,0 +1,18 @@
+import logger from '../config/logger';
+import { syncQuestEvents } from '../services/questIndexer.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Reads the quest contract's new events and mirrors the quests created, joined, completed
+ * or cancelled on-chain into the database.
+ */
+export const createQuestIndexerJob = (intervalMs: number): ScheduledJob => ({
+  name: 'quest-indexer',
+  intervalMs,
+  run: async () => {
+    const { indexed, rolledBack, questsSynced } = await syncQuestEvents();
+    if (indexed > 0 || rolledBack > 0) {
+      logger.info(`Quest indexer: ${indexed} event(s) indexed, ${rolledBack} rolled back, ${questsSynced} quest(s) synced`);
+    }
+  },
+});
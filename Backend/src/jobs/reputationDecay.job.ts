@@ -0,0 +1,17 @@
+import logger from '../config/logger';
+import { decayReputations } from '../services/reputation.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Decays reputation scores towards what their events are worth now.
+ */
+export const createReputationDecayJob = (intervalMs: number, halfLifeDays: number): ScheduledJob => ({
+  name: 'reputation-decay',
+  intervalMs,
+  run: async () => {
+    const changed = await decayReputations(halfLifeDays);
+    if (changed > 0) {
+      logger.info(`Decayed ${changed} reputation score(s)`);
+    }
+  },
+});
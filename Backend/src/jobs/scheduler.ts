@@ -0,0 +1,51 @@
+import logger from '../config/logger';
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Runs a job on a fixed interval. A tick that fires while the previous run
+ * is still in progress is skipped rather than overlapped.
+ * @param job The job to schedule. Names must be unique.
+ */
+export const scheduleJob = (job: ScheduledJob): void => {
+  if (timers.has(job.name)) {
+    throw new Error(`Job '${job.name}' is already scheduled.`);
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      logger.error(`Scheduled job '${job.name}' failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, job.intervalMs);
+  // Jobs should never be the only thing keeping the process alive.
+  timer.unref();
+  timers.set(job.name, timer);
+  logger.info(`Scheduled job '${job.name}' every ${job.intervalMs}ms`);
+};
+
+/**
+ * Stops every scheduled job.
+ */
+export const stopAllJobs = (): void => {
+  for (const timer of timers.values()) {
+    clearInterval(timer);
+  }
+  timers.clear();
+};
@@ -0,0 +1,13 @@
+import { checkSignerBalances } from '../services/signers.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Alerts admins when an account transactions are signed with runs low on APT for gas.
+ */
+export const createSignerMonitorJob = (intervalMs: number): ScheduledJob => ({
+  name: 'signer-monitor',
+  intervalMs,
+  run: async () => {
+    await checkSignerBalances();
+  },
+});
@@ -0,0 +1,21 @@
+import logger from '../config/logger';
+import { reconcilePendingTransactions } from '../services/chainTransactions.service';
+import { resendExpiredMints } from '../services/vibes.service';
+import { ScheduledJob } from './scheduler';
+
+/**
+ * Settles the transactions the backend submitted without waiting for them, recording
+ * their outcome and the gas they used, and the tokens of committed Vibe mints. Vibe
+ * mints that expired are sent again.
+ */
+export const createTransactionTrackerJob = (intervalMs: number): ScheduledJob => ({
+  name: 'transaction-tracker',
+  intervalMs,
+  run: async () => {
+    const settled = await reconcilePendingTransactions();
+    const resent = await resendExpiredMints();
+    if (settled > 0 || resent > 0) {
+      logger.info(`Transaction tracker: ${settled} transaction(s) settled, ${resent} Vibe mint(s) resent`);
+    }
+  },
+});
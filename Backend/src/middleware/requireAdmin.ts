@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+
+/**
+ * Answers 403 unless the authenticated user is an admin. Mount after protect.
+ */
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const { rows } = await getPool().query('SELECT is_admin FROM users WHERE id = $1', [userId]);
+    if (!rows[0]?.is_admin) {
+      return res.status(403).json({ message: 'Forbidden: admins only.' });
+    }
+    next();
+  } catch (error) {
+    logger.error(`Error checking whether user ${userId} is an admin:`, error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from 'express';
+import { Feature, isFeatureEnabled } from '../config/index';
+
+/**
+ * Answers 503 when the given optional integration is turned off on this server.
+ * @param features The features the route needs.
+ */
+export const requireFeature = (...features: Feature[]) => (req: Request, res: Response, next: NextFunction) => {
+  const disabled = features.filter((feature) => !isFeatureEnabled(feature));
+  if (disabled.length > 0) {
+    return res.status(503).json({ message: `This endpoint is unavailable: ${disabled.join(' and ')} is disabled on this server.` });
+  }
+  next();
+};
@@ -0,0 +1,98 @@
+import { getPool } from '../../config/database';
+import * as achievementsService from '../achievements.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+describe('Achievements Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordActivity', () => {
+    it('should log the activity, then award only that user\'s achievements for that activity', async () => {
+      const awards = [{ user_id: 'user1', achievement_id: 3 }];
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 }) // Insert activity
+        .mockResolvedValueOnce({ rows: awards }); // Award achievements
+
+      const result = await achievementsService.recordActivity({ query: mockQuery } as any, 'user1', 'user_followed', { followingId: 'user2' });
+
+      expect(result).toEqual(awards);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user1', 'user_followed', { followingId: 'user2' }]);
+      const [awardSql, awardParams] = mockQuery.mock.calls[1];
+      expect(awardSql).toContain('ON CONFLICT (user_id, achievement_id) DO NOTHING');
+      expect(awardParams).toEqual(['user1', 'user_followed', null]);
+    });
+  });
+
+  describe('backfillAchievements', () => {
+    it('should evaluate every user against the given achievement', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ user_id: 'user1', achievement_id: 4 }, { user_id: 'user2', achievement_id: 4 }] });
+
+      const awards = await achievementsService.backfillAchievements(4);
+
+      expect(awards).toHaveLength(2);
+      expect(mockQuery.mock.calls[0][1]).toEqual([null, null, 4]);
+    });
+
+    it('should evaluate every achievement when none is given', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await achievementsService.backfillAchievements();
+
+      expect(mockQuery.mock.calls[0][1]).toEqual([null, null, null]);
+    });
+  });
+
+  describe('createAchievement', () => {
+    it('should store the definition with its rule', async () => {
+      const rule = { activity: 'quest_verified' as const, threshold: 5, distinct: 'groupId' };
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 5, name: 'Explorer', rule }] });
+
+      const achievement = await achievementsService.createAchievement({ name: 'Explorer', rule });
+
+      expect(achievement).toEqual(expect.objectContaining({ id: 5, rule }));
+      expect(mockQuery.mock.calls[0][1]).toEqual(['Explorer', null, null, rule]);
+    });
+
+    it('should throw ACHIEVEMENT_NAME_TAKEN when the name is in use', async () => {
+      mockQuery.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(achievementsService.createAchievement({ name: 'Explorer' })).rejects.toThrow('ACHIEVEMENT_NAME_TAKEN');
+    });
+  });
+
+  describe('updateAchievement', () => {
+    it('should only change the given fields', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 5, name: 'Explorer', rule: null }] });
+
+      await achievementsService.updateAchievement(5, { rule: null, description: 'By hand only' });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('SET description = $2, rule = $3, updated_at = NOW()');
+      expect(params).toEqual([5, 'By hand only', null]);
+    });
+
+    it('should return null when the achievement does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(achievementsService.updateAchievement(99, { name: 'Gone' })).resolves.toBeNull();
+    });
+  });
+
+  describe('deleteAchievement', () => {
+    it('should report whether the achievement existed', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 }).mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(achievementsService.deleteAchievement(5)).resolves.toBe(true);
+      await expect(achievementsService.deleteAchievement(5)).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { Ed25519PrivateKey } from '@aptos-labs/ts-sdk';
+import { getPool } from '../../config/database';
+import * as addressVerificationService from '../addressVerification.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+describe('Address Verification Service', () => {
+  const privateKey = Ed25519PrivateKey.generate();
+  const publicKey = privateKey.publicKey();
+  const address = publicKey.authKey().derivedAddress().toStringLong();
+
+  // Issues a challenge for the key's address and answers its lookup as the database would.
+  const issueChallenge = async (expiresAt?: Date) => {
+    mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+    const challenge = await addressVerificationService.createAddressChallenge('user1', address);
+    mockQuery.mockResolvedValueOnce({ rows: [{ address: challenge.address, expires_at: expiresAt ?? challenge.expiresAt }] });
+    return challenge;
+  };
+
+  // Signs the challenge the way a wallet does, wrapped in its own envelope.
+  const prove = (message: string, key = privateKey) => {
+    const signedMessage = `APTOS\nmessage: ${message}\nnonce: 1`;
+    return { publicKey: key.publicKey().toString(), signature: key.sign(signedMessage).toString(), signedMessage };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  describe('createAddressChallenge', () => {
+    it('should record a one-time nonce for the address and ask for it to be signed', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      const challenge = await addressVerificationService.createAddressChallenge('user1', address);
+
+      expect(challenge.nonce).toMatch(/^[0-9a-f]{32}$/);
+      expect(challenge.message).toContain(address);
+      expect(challenge.message).toContain(challenge.nonce);
+      expect(challenge.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO address_challenges'), [challenge.nonce, 'user1', address, challenge.expiresAt]);
+    });
+  });
+
+  describe('verifyAddressChallenge', () => {
+    it('should link the address once the challenge is signed with its key', async () => {
+      const challenge = await issueChallenge();
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const verified = await addressVerificationService.verifyAddressChallenge('user1', { nonce: challenge.nonce, ...prove(challenge.message) });
+
+      expect(verified).toBe(address);
+      expect(statementsMatching('DELETE FROM address_challenges WHERE nonce')[0][1]).toEqual([challenge.nonce, 'user1']);
+      expect(statementsMatching('SET aptos_address = NULL')[0][1]).toEqual([address, 'user1']);
+      expect(statementsMatching('aptos_address_verified_at = NOW()')[0][1]).toEqual([address, 'user1']);
+      expect(statementsMatching('COMMIT')).toHaveLength(1);
+    });
+
+    it('should throw CHALLENGE_NOT_FOUND for a nonce that is not the caller\'s or was used', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(addressVerificationService.verifyAddressChallenge('user1', { nonce: 'used', ...prove('anything') }))
+        .rejects.toThrow('CHALLENGE_NOT_FOUND');
+    });
+
+    it('should throw CHALLENGE_EXPIRED for a challenge signed too late', async () => {
+      const challenge = await issueChallenge(new Date(Date.now() - 1000));
+
+      await expect(addressVerificationService.verifyAddressChallenge('user1', { nonce: challenge.nonce, ...prove(challenge.message) }))
+        .rejects.toThrow('CHALLENGE_EXPIRED');
+    });
+
+    it('should throw ADDRESS_MISMATCH for a key the address was not derived from', async () => {
+      const challenge = await issueChallenge();
+
+      await expect(addressVerificationService.verifyAddressChallenge('user1', { nonce: challenge.nonce, ...prove(challenge.message, Ed25519PrivateKey.generate()) }))
+        .rejects.toThrow('ADDRESS_MISMATCH');
+    });
+
+    it.each([
+      ['a message without the challenge', () => prove('Welcome to Lunoa!')],
+      ['a signature over another message', (message: string) => ({ ...prove(message), signature: privateKey.sign('something else').toString() })],
+      ['a malformed signature', (message: string) => ({ ...prove(message), signature: '0x1234' })],
+    ])('should throw INVALID_SIGNATURE for %s and link nothing', async (_, answer) => {
+      const challenge = await issueChallenge();
+
+      await expect(addressVerificationService.verifyAddressChallenge('user1', { nonce: challenge.nonce, ...answer(challenge.message) }))
+        .rejects.toThrow('INVALID_SIGNATURE');
+      expect(statementsMatching('UPDATE users')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { getPool } from '../../config/database';
+import { loadConfig, setConfig } from '../../config/index';
+import * as boostsService from '../boosts.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+interface Scenario {
+  vibe?: { name: string; creator_id: string; group_id: number | null; minted_to_booster: boolean } | null;
+  balanceCovers?: boolean;
+  recent?: { today: string; reciprocal: string };
+}
+
+const routeQueries = ({
+  vibe = { name: 'Sunset', creator_id: 'creator', group_id: 4, minted_to_booster: false },
+  balanceCovers = true,
+  recent = { today: '0', reciprocal: '0' },
+}: Scenario = {}) => {
+  mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes('FROM vibes v')) {
+      return { rows: vibe ? [vibe] : [] };
+    }
+    if (sql.includes('wallet_balance = wallet_balance - $1')) {
+      return { rowCount: balanceCovers ? 1 : 0 };
+    }
+    if (sql.includes('AS reciprocal')) {
+      return { rows: [recent] };
+    }
+    if (sql.includes('INSERT INTO vibe_boosts')) {
+      return { rows: [{ id: 1, vibe_id: params[0], amount: String(params[2]) }] };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+};
+
+describe('Boosts Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setConfig(loadConfig({ NODE_ENV: 'test' }));
+  });
+
+  describe('boostVibe', () => {
+    it('should split the boost between the creator, the group treasury and the platform', async () => {
+      routeQueries();
+
+      const boost = await boostsService.boostVibe(3, 'booster', 100);
+
+      expect(boost).toEqual({ id: 1, vibe_id: 3, amount: '100' });
+      expect(statementsMatching('wallet_balance = wallet_balance - $1')[0][1]).toEqual([100, 'booster']);
+      const ledger = statementsMatching('INSERT INTO wallet_transactions').map(([, params]) => params.slice(0, 3));
+      expect(ledger).toEqual([['booster', 'boost', 100], ['creator', 'boost_payout', 80]]);
+      expect(statementsMatching('UPDATE feed_groups SET treasury_balance')[0][1]).toEqual([15, 4]);
+      expect(statementsMatching('INSERT INTO vibe_boosts')[0][1]).toEqual([3, 'booster', 100, 'creator', 80, 4, 15, 5]);
+      expect(statementsMatching('INSERT INTO user_activities')[0][1].slice(0, 2)).toEqual(['booster', 'vibe_boosted']);
+      expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should pay the group\'s share to the creator of a Vibe without a group', async () => {
+      routeQueries({ vibe: { name: 'Sunset', creator_id: 'creator', group_id: null, minted_to_booster: false } });
+
+      await boostsService.boostVibe(3, 'booster', 100);
+
+      expect(statementsMatching('treasury')).toHaveLength(0);
+      expect(statementsMatching('INSERT INTO vibe_boosts')[0][1]).toEqual([3, 'booster', 100, 'creator', 95, null, 0, 5]);
+    });
+
+    it('should use the configured splits and limits', async () => {
+      setConfig(loadConfig({
+        NODE_ENV: 'test', BOOST_CREATOR_PERCENT: '70', BOOST_GROUP_PERCENT: '20', BOOST_PLATFORM_FEE_PERCENT: '10', BOOST_LIMIT_PER_DAY: '3',
+      }));
+      routeQueries({ recent: { today: '2', reciprocal: '0' } });
+
+      await boostsService.boostVibe(3, 'booster', 10);
+
+      expect(statementsMatching('INSERT INTO vibe_boosts')[0][1]).toEqual([3, 'booster', 10, 'creator', 7, 4, 2, 1]);
+      expect(statementsMatching('AS reciprocal')[0][1]).toEqual(['booster', 'creator', 24]);
+    });
+
+    it.each([
+      ['VIBE_NOT_FOUND', { vibe: null }, 'booster', 100],
+      ['BOOST_TOO_SMALL', {}, 'booster', 0.5],
+      ['CANNOT_BOOST_OWN_VIBE', {}, 'creator', 100],
+      ['CANNOT_BOOST_OWN_VIBE', { vibe: { name: 'Sunset', creator_id: 'creator', group_id: 4, minted_to_booster: true } }, 'booster', 100],
+      ['INSUFFICIENT_FUNDS', { balanceCovers: false }, 'booster', 100],
+      ['BOOST_LIMIT_REACHED', { recent: { today: '20', reciprocal: '0' } }, 'booster', 100],
+      ['RECIPROCAL_BOOST', { recent: { today: '0', reciprocal: '1' } }, 'booster', 100],
+    ])('should throw %s and pay no one', async (code, scenario, boosterId, amount) => {
+      routeQueries(scenario as Scenario);
+
+      await expect(boostsService.boostVibe(3, boosterId, amount)).rejects.toThrow(code);
+      expect(statementsMatching('wallet_balance = wallet_balance + $1')).toHaveLength(0);
+      expect(statementsMatching('INSERT INTO vibe_boosts')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('getVibeBoosts', () => {
+    it('should page through a Vibe\'s boosts, newest first', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{}] }).mockResolvedValueOnce({ rows: [{ id: 2 }, { id: 1 }] });
+
+      const boosts = await boostsService.getVibeBoosts(3, 20, 40);
+
+      expect(boosts).toEqual([{ id: 2 }, { id: 1 }]);
+      expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY b.created_at DESC, b.id DESC');
+      expect(mockQuery.mock.calls[1][1]).toEqual([3, 20, 40]);
+    });
+
+    it('should return null if the Vibe does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await boostsService.getVibeBoosts(3, 20, 0)).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
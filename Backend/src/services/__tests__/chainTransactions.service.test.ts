@@ -0,0 +1,150 @@
+import { getPool } from '../../config/database';
+import { createInMemoryAdapter, setChainAdapter } from '../chain';
+import * as chainTransactionsService from '../chainTransactions.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery, release: jest.fn() };
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: jest.fn().mockResolvedValue(mockClient) });
+
+const chain = createInMemoryAdapter({ autoConfirm: false });
+setChainAdapter(chain);
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+const payload = { collectionName: 'Lunoa Vibes', description: 'd', name: 'n', uri: 'ipfs://x', recipient: '0xabc' };
+
+const pendingRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  tx_hash: '0xunseen',
+  purpose: 'vibe_mint',
+  entity_type: 'vibe',
+  entity_id: 9,
+  user_id: 'user1',
+  status: 'pending',
+  expires_at: new Date(Date.now() + 60_000),
+  ...overrides,
+});
+
+describe('Chain Transactions Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chain.reset();
+  });
+
+  describe('recordPreparedTransaction', () => {
+    it('should record the transaction as pending with its sender, sequence number, gas price and expiry', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1 }] });
+      const prepared = await chain.prepareQuestReward('0xabc', 10);
+
+      const transaction = await chainTransactionsService.recordPreparedTransaction(getPool(), prepared, {
+        purpose: 'quest_reward', entityId: 7, userId: 'user1',
+      });
+
+      expect(transaction).toEqual({ id: 1 });
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        prepared.hash, 'quest_reward', 'reward_payout', 7, 'user1', prepared.sender, '0', prepared.gasUnitPrice, prepared.expiresAt,
+      ]);
+    });
+  });
+
+  describe('recordCommittedTransaction', () => {
+    it('should record the transaction as succeeded with the gas it used', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 2 }] });
+
+      await chainTransactionsService.recordCommittedTransaction(getPool(), { hash: '0xlisted', sender: '0xa11ce', sequenceNumber: '3', gasUnitPrice: 100, gasUsed: 12 }, {
+        purpose: 'marketplace_cancellation', entityId: 4, userId: 'seller1',
+      });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("'success', NOW()");
+      expect(params).toEqual(['0xlisted', 'marketplace_cancellation', 'marketplace_listing', 4, 'seller1', '0xa11ce', '3', 100, 12]);
+    });
+  });
+
+  describe('getTransactionByHash', () => {
+    it('should look the hash up lowercased, for its user or an admin', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await chainTransactionsService.getTransactionByHash('0xABC', 'user1')).toBeNull();
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('t.user_id = $2 OR EXISTS');
+      expect(params).toEqual(['0xabc', 'user1']);
+    });
+  });
+
+  describe('getUserTransactions', () => {
+    it('should apply every filter and page through the newest first', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      const transactions = await chainTransactionsService.getUserTransactions('user1', { purpose: 'vibe_mint', status: 'pending', limit: 20, offset: 40 });
+
+      expect(transactions).toEqual([{ id: 1 }]);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('WHERE user_id = $1 AND purpose = $2 AND status = $3');
+      expect(sql).toContain('ORDER BY created_at DESC, id DESC LIMIT $4 OFFSET $5');
+      expect(params).toEqual(['user1', 'vibe_mint', 'pending', 20, 40]);
+    });
+  });
+
+  describe('reconcilePendingTransactions', () => {
+    const routeQueries = (pending: unknown[]) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes("WHERE status = 'pending' ORDER BY")) {
+          return { rows: pending };
+        }
+        if (sql.includes('UPDATE chain_transactions')) {
+          return { rows: [], rowCount: 1 };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+    };
+
+    it('should record a committed mint with its gas and set the Vibe\'s token', async () => {
+      const mint = await chain.prepareVibeMint(payload);
+      await mint.submit();
+      chain.settleTransaction(mint.hash, 'success');
+      routeQueries([pendingRow({ tx_hash: mint.hash })]);
+
+      expect(await chainTransactionsService.reconcilePendingTransactions()).toBe(1);
+
+      expect(statementsMatching('SET status = $2, gas_used = $3')[0][1]).toEqual([1, 'success', expect.any(Number)]);
+      const tokenAddress = await chain.getMintedTokenAddress(mint.hash);
+      expect(statementsMatching('UPDATE vibes SET token_address')[0][1]).toEqual([9, tokenAddress]);
+    });
+
+    it('should record a failed transaction without touching what it was for', async () => {
+      const mint = await chain.prepareVibeMint(payload);
+      await mint.submit();
+      chain.settleTransaction(mint.hash, 'failed');
+      routeQueries([pendingRow({ tx_hash: mint.hash })]);
+
+      expect(await chainTransactionsService.reconcilePendingTransactions()).toBe(1);
+
+      expect(statementsMatching('SET status = $2, gas_used = $3')[0][1]).toEqual([1, 'failed', expect.any(Number)]);
+      expect(statementsMatching('UPDATE vibes')).toHaveLength(0);
+    });
+
+    it('should expire transactions the chain has not seen by their expiry and wait on the rest', async () => {
+      const pending = await chain.prepareQuestReward('0xabc', 10);
+      await pending.submit();
+      routeQueries([
+        pendingRow({ id: 1, tx_hash: pending.hash, purpose: 'quest_reward' }),
+        pendingRow({ id: 2, tx_hash: '0xlost', expires_at: new Date(Date.now() - 60_000) }),
+        pendingRow({ id: 3, tx_hash: '0xrecent' }),
+      ]);
+
+      expect(await chainTransactionsService.reconcilePendingTransactions()).toBe(1);
+
+      expect(statementsMatching("SET status = 'expired'").map(([, params]) => params)).toEqual([[2]]);
+      expect(statementsMatching('SET status = $2, gas_used = $3')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { getPool } from '../../config/database';
+import * as checkInsService from '../checkIns.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const quest = (overrides: Record<string, unknown> = {}) => ({
+  type: 'location_based',
+  status: 'active',
+  latitude: 51.5007,
+  longitude: -0.1246,
+  geofence_radius_m: 100,
+  check_in_auto_verify: false,
+  required_evidence: [],
+  reward: '100',
+  ...overrides,
+});
+
+const atQuest = { latitude: 51.5007, longitude: -0.1246, accuracy: 10, recordedAt: new Date() };
+
+// Answers the check-in's queries by statement, so each test only describes the rows it cares about.
+const routeQueries = ({ questRow = quest() as unknown, participantStatus = 'joined', deadlineAt = null as Date | null, previous = [] as unknown[] } = {}) => {
+  mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes('FROM quests WHERE id = $1')) {
+      return { rows: questRow ? [questRow] : [] };
+    }
+    if (sql.includes('FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE')) {
+      return { rows: participantStatus ? [{ status: participantStatus, deadline_at: deadlineAt }] : [] };
+    }
+    if (sql.includes('FROM quest_check_ins WHERE user_id = $1')) {
+      return { rows: previous };
+    }
+    if (sql.includes('INSERT INTO quest_check_ins')) {
+      return { rows: [{ id: 3, status: params[10], flags: params[11], auto_verified: params[12] }] };
+    }
+    if (sql.includes('INSERT INTO quest_submissions')) {
+      return { rows: [{ id: 5, status: params[4], check_in_id: params[3] }] };
+    }
+    if (sql.includes('INSERT INTO reward_payouts')) {
+      return { rows: [{ id: 1, amount: '100', status: 'pending' }] };
+    }
+    return { rows: [] };
+  });
+};
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+describe('Check-ins Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('checkInToQuest', () => {
+    it('should submit the participant for verification when the check-in passes', async () => {
+      routeQueries();
+
+      const { checkIn, submission, payout } = await checkInsService.checkInToQuest('quest1', 1, 'user1', atQuest);
+
+      expect(checkIn.status).toBe('passed');
+      expect(submission).toEqual(expect.objectContaining({ status: 'pending', check_in_id: 3 }));
+      expect(payout).toBeNull();
+      expect(statementsMatching("SET status = 'submitted'")[0][1]).toEqual(['quest1', 'user1']);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should verify the participant and queue the reward when the quest auto-verifies', async () => {
+      routeQueries({ questRow: quest({ check_in_auto_verify: true }) });
+
+      const { checkIn, submission, payout } = await checkInsService.checkInToQuest('quest1', 1, 'user1', atQuest);
+
+      expect(checkIn.auto_verified).toBe(true);
+      expect(submission!.status).toBe('approved');
+      expect(payout).toEqual(expect.objectContaining({ id: 1 }));
+      expect(statementsMatching("SET status = 'verified'")).toHaveLength(1);
+      expect(statementsMatching('INSERT INTO reward_payouts')[0][1]).toEqual(['quest1', 'user1', 100]);
+    });
+
+    it('should not auto-verify a flagged check-in', async () => {
+      routeQueries({ questRow: quest({ check_in_auto_verify: true }) });
+
+      const { checkIn } = await checkInsService.checkInToQuest('quest1', 1, 'user1', { ...atQuest, accuracy: 500 });
+
+      expect(checkIn.status).toBe('flagged');
+      expect(checkIn.flags).toEqual(['LOW_ACCURACY']);
+      expect(statementsMatching("SET status = 'verified'")).toHaveLength(0);
+      expect(statementsMatching("SET status = 'submitted'")).toHaveLength(1);
+    });
+
+    it('should store a rejected check-in without changing the participant', async () => {
+      routeQueries();
+
+      const { checkIn, submission } = await checkInsService.checkInToQuest('quest1', 1, 'user1', { ...atQuest, latitude: 51.51 });
+
+      expect(checkIn.status).toBe('rejected');
+      expect(submission).toBeNull();
+      expect(statementsMatching('INSERT INTO quest_submissions')).toHaveLength(0);
+      expect(statementsMatching('UPDATE quest_participants')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should let a participant whose submission was rejected check in again', async () => {
+      routeQueries({ participantStatus: 'rejected' });
+
+      const { submission } = await checkInsService.checkInToQuest('quest1', 1, 'user1', atQuest);
+
+      expect(submission!.status).toBe('pending');
+    });
+
+    it('should measure travel from the user\'s previous check-in', async () => {
+      const paris = { id: 2, latitude: 48.8584, longitude: 2.2945, accuracy_m: 10, recorded_at: new Date(Date.now() - 60_000) };
+      routeQueries({ previous: [paris] });
+
+      const { checkIn } = await checkInsService.checkInToQuest('quest1', 1, 'user1', atQuest);
+
+      expect(checkIn.flags).toEqual(['IMPOSSIBLE_TRAVEL']);
+      expect(statementsMatching('INSERT INTO quest_check_ins')[0][1][8]).toBe(2);
+    });
+
+    it.each([
+      ['QUEST_NOT_FOUND', { questRow: null }],
+      ['NOT_LOCATION_BASED', { questRow: quest({ type: 'social' }) }],
+      ['STEPS_REQUIRED', { questRow: quest({ step_count: '2' }) }],
+      ['QUEST_EXPIRED', { questRow: quest({ status: 'expired' }) }],
+      ['QUEST_EXPIRED', { questRow: quest({ expires_at: new Date(Date.now() - 1000) }) }],
+      ['QUEST_NOT_ACTIVE', { questRow: quest({ status: 'completed' }) }],
+      ['QUEST_HAS_NO_LOCATION', { questRow: quest({ latitude: null, longitude: null }) }],
+      ['NOT_A_PARTICIPANT', { participantStatus: '' }],
+      ['ALREADY_SUBMITTED', { participantStatus: 'submitted' }],
+      ['COMPLETION_DEADLINE_PASSED', { deadlineAt: new Date(Date.now() - 1000) }],
+      ['COMPLETION_DEADLINE_PASSED', { participantStatus: 'expired' }],
+      ['MISSING_EVIDENCE', { questRow: quest({ required_evidence: ['photo'] }) }],
+    ])('should throw %s and roll back', async (code, scenario) => {
+      routeQueries(scenario);
+
+      await expect(checkInsService.checkInToQuest('quest1', 1, 'user1', atQuest)).rejects.toThrow(code);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(statementsMatching('INSERT INTO quest_check_ins')).toHaveLength(0);
+    });
+  });
+
+  describe('getQuestCheckIns', () => {
+    it('should show the creator every check-in', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await checkInsService.getQuestCheckIns('quest1', 1, 'creator1', 'flagged');
+
+      expect(mockQuery.mock.calls[1][1]).toEqual(['quest1', 'flagged']);
+    });
+
+    it('should show other members only their own check-ins', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await checkInsService.getQuestCheckIns('quest1', 1, 'user1');
+
+      expect(mockQuery.mock.calls[1][0]).toContain('c.user_id = $2');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['quest1', 'user1']);
+    });
+  });
+});
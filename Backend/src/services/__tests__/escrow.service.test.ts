@@ -0,0 +1,153 @@
+import { getPool } from '../../config/database';
+import * as escrowService from '../escrow.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+const client = { query: mockQuery } as any;
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+const escrowRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  funding_source: 'creator',
+  funder_id: 'user1',
+  group_id: 1,
+  reward: '10',
+  title: 'Quest',
+  amount_locked: '50',
+  amount_paid: '10',
+  amount_refunded: '0',
+  awaiting_review: '0',
+  ...overrides,
+});
+
+describe('Escrow Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('lockQuestEscrow', () => {
+    const request = { questId: 'quest1', groupId: 1, creatorId: 'user1', amount: 30 };
+
+    it('should debit the creator\'s wallet and record the escrow', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('UPDATE users SET wallet_balance')) {
+          return { rowCount: 1 };
+        }
+        if (sql.includes('INSERT INTO quest_escrows')) {
+          return { rows: [{ id: 1, amount_locked: '30' }] };
+        }
+        return { rows: [{ id: 2 }] };
+      });
+
+      const escrow = await escrowService.lockQuestEscrow(client, { ...request, source: 'creator' });
+
+      expect(escrow).toEqual({ id: 1, amount_locked: '30' });
+      expect(statementsMatching('INSERT INTO wallet_transactions')[0][1]).toEqual(['user1', 'escrow_lock', 30, 'quest1', 'Quest reward escrow', null]);
+      expect(statementsMatching('feed_groups')).toHaveLength(0);
+    });
+
+    it('should debit the treasury when a group admin asks for it', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM feed_groups fg')) {
+          return { rows: [{ creator_id: 'owner', role: 'admin' }] };
+        }
+        if (sql.includes('UPDATE feed_groups SET treasury_balance')) {
+          return { rowCount: 1 };
+        }
+        return { rows: [{ id: 1 }] };
+      });
+
+      await escrowService.lockQuestEscrow(client, { ...request, source: 'treasury' });
+
+      expect(statementsMatching('INSERT INTO treasury_transactions')[0][1]).toEqual([1, 'user1', 30, 'quest1']);
+      expect(statementsMatching('wallet_balance')).toHaveLength(0);
+    });
+
+    it('should throw INSUFFICIENT_FUNDS when the treasury cannot cover the rewards', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM feed_groups fg')) {
+          return { rows: [{ creator_id: 'user1', role: null }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      await expect(escrowService.lockQuestEscrow(client, { ...request, source: 'treasury' })).rejects.toThrow('INSUFFICIENT_FUNDS');
+      expect(statementsMatching('INSERT INTO quest_escrows')).toHaveLength(0);
+    });
+
+    it('should throw TREASURY_FUNDING_FORBIDDEN for a plain member', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ creator_id: 'owner', role: 'member' }] });
+
+      await expect(escrowService.lockQuestEscrow(client, { ...request, source: 'treasury' })).rejects.toThrow('TREASURY_FUNDING_FORBIDDEN');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('drawFromEscrow', () => {
+    it('should draw the reward from an escrow that covers it', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 7 }] });
+
+      expect(await escrowService.drawFromEscrow(client, 'quest1', 10)).toBe(true);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw ESCROW_EXHAUSTED when what is left does not cover the reward', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{}], rowCount: 1 });
+
+      await expect(escrowService.drawFromEscrow(client, 'quest1', 10)).rejects.toThrow('ESCROW_EXHAUSTED');
+    });
+
+    it('should let a quest without an escrow pay out as before', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      expect(await escrowService.drawFromEscrow(client, 'quest1', 10)).toBe(false);
+    });
+  });
+
+  describe('refundQuestEscrow', () => {
+    it('should refund what is left to the creator and close the escrow', async () => {
+      mockQuery.mockImplementation(async (sql: string) => (sql.includes('FROM quest_escrows e') ? { rows: [escrowRow()] } : { rows: [{}] }));
+
+      expect(await escrowService.refundQuestEscrow(client, 'quest1')).toBe(40);
+      expect(statementsMatching('INSERT INTO wallet_transactions')[0][1]).toEqual(
+        expect.arrayContaining(['user1', 'escrow_refund', 40, 'quest1'])
+      );
+      expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual([7, 40, true]);
+    });
+
+    it('should hold back one reward per participant awaiting review and keep the escrow open', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        (sql.includes('FROM quest_escrows e') ? { rows: [escrowRow({ awaiting_review: '2', funding_source: 'treasury' })] } : { rows: [{}] }));
+
+      expect(await escrowService.refundQuestEscrow(client, 'quest1')).toBe(20);
+      expect(statementsMatching('UPDATE feed_groups SET treasury_balance')[0][1]).toEqual([20, 1]);
+      expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual([7, 20, false]);
+    });
+
+    it('should refund everything when told not to hold anything back', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        (sql.includes('FROM quest_escrows e') ? { rows: [escrowRow({ awaiting_review: '2' })] } : { rows: [{}] }));
+
+      expect(await escrowService.refundQuestEscrow(client, 'quest1', false)).toBe(40);
+      expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual([7, 40, true]);
+    });
+
+    it('should do nothing for a quest without an active escrow', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      expect(await escrowService.refundQuestEscrow(client, 'quest1')).toBe(0);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
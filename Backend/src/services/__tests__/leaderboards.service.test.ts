@@ -0,0 +1,107 @@
+import { getPool } from '../../config/database';
+import { loadConfig, setConfig } from '../../config/index';
+import * as leaderboardsService from '../leaderboards.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+const entry = (rank: number, userId: string, score: number) => ({
+  rank, user_id: userId, username: userId, avatar_url: null, score, quests_verified: 0,
+});
+
+const ranking = { rows: [entry(1, 'user1', 30), entry(2, 'user2', 20), entry(2, 'user3', 20), entry(4, 'user4', 5)] };
+
+describe('Leaderboards Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    leaderboardsService.clearLeaderboardCache();
+    setConfig(loadConfig({ NODE_ENV: 'test' }));
+  });
+
+  describe('getLeaderboard', () => {
+    it('should return a page of the ranking with the caller\'s entry from beyond it', async () => {
+      mockQuery.mockResolvedValueOnce(ranking);
+
+      const leaderboard = await leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user4', 2, 1);
+
+      expect(leaderboard).toEqual({
+        window: 'weekly',
+        total: 4,
+        entries: [entry(2, 'user2', 20), entry(2, 'user3', 20)],
+        caller: entry(4, 'user4', 5),
+      });
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("e.event_type NOT IN ('decay', 'initial_score')");
+      expect(params).toEqual(['7 days']);
+    });
+
+    it('should return no caller entry for someone who has not scored', async () => {
+      mockQuery.mockResolvedValueOnce(ranking);
+
+      const leaderboard = await leaderboardsService.getLeaderboard({ type: 'global' }, 'all_time', 'newcomer', 20, 0);
+
+      expect(leaderboard.caller).toBeNull();
+      expect(mockQuery.mock.calls[0][1]).toEqual([null]);
+    });
+
+    it('should count only what was earned in the group', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await leaderboardsService.getLeaderboard({ type: 'group', groupId: 3 }, 'monthly', 'user1', 20, 0);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("e.metadata->>'groupId' = $2");
+      expect(params).toEqual(['30 days', '3']);
+    });
+
+    it('should count only what was earned on quests within the area', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await leaderboardsService.getLeaderboard({ type: 'area', latitude: 51.5, longitude: -0.12, radius: 25000 }, 'weekly', 'user1', 20, 0);
+      await leaderboardsService.getLeaderboard(
+        { type: 'area', bbox: { west: -0.2, south: 51.4, east: 0, north: 51.6 } }, 'weekly', 'user1', 20, 0
+      );
+
+      expect(mockQuery.mock.calls[0][0]).toContain('ST_DWithin');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['7 days', -0.12, 51.5, 25000]);
+      expect(mockQuery.mock.calls[1][0]).toContain('ST_MakeEnvelope($2, $3, $4, $5, 4326)');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['7 days', -0.2, 51.4, 0, 51.6]);
+    });
+
+    it('should serve a cached ranking until it expires', async () => {
+      mockQuery.mockResolvedValue(ranking);
+
+      await leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user1', 2, 0);
+      const secondPage = await leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user1', 2, 2);
+      await leaderboardsService.getLeaderboard({ type: 'global' }, 'monthly', 'user1', 2, 0);
+
+      expect(secondPage.entries.map((e) => e.user_id)).toEqual(['user3', 'user4']);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should compute every time when caching is off', async () => {
+      setConfig(loadConfig({ NODE_ENV: 'test', LEADERBOARD_CACHE_TTL_MS: '0' }));
+      mockQuery.mockResolvedValue(ranking);
+
+      await leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user1', 2, 0);
+      await leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user1', 2, 0);
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not keep a ranking that failed to compute', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce(ranking);
+
+      await expect(leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user1', 2, 0)).rejects.toThrow('boom');
+      const leaderboard = await leaderboardsService.getLeaderboard({ type: 'global' }, 'weekly', 'user1', 2, 0);
+
+      expect(leaderboard.total).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,640 @@
+import { getPool } from '../../config/database';
+import { loadConfig, setConfig } from '../../config/index';
+import { InMemoryChainAdapter, createInMemoryAdapter, setChainAdapter } from '../chain';
+import * as marketplaceService from '../marketplace.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+const ledger = () => statementsMatching('INSERT INTO wallet_transactions').map(([, params]) => params.slice(0, 3));
+
+let chain: InMemoryChainAdapter;
+
+const useChain = (autoConfirm = true) => {
+  chain = createInMemoryAdapter({ autoConfirm });
+  setChainAdapter(chain);
+};
+
+// Mints a token to the recipient on the in-memory chain, committing it even when autoConfirm is off.
+const mintOnChain = async (recipient: string) => {
+  const mint = await chain.prepareVibeMint({ collectionName: 'Lunoa Vibes', description: 'd', name: 'n', uri: 'ipfs://x', recipient });
+  await mint.submit();
+  if ((await chain.getTransactionStatus(mint.hash)) === 'pending') {
+    chain.settleTransaction(mint.hash, 'success');
+  }
+  return (await chain.getMintedTokenAddress(mint.hash))!;
+};
+
+// Mints a token to the seller and lists it on the in-memory chain as listing 0.
+const listOnChain = async (seller = '0xseller') => {
+  const tokenAddress = await mintOnChain(seller);
+  await chain.createMarketplaceListing({ tokenAddress, seller, price: 200 });
+  return tokenAddress;
+};
+
+interface PurchaseScenario {
+  listing?: Record<string, unknown> | null;
+  listingStillActive?: boolean;
+  balanceCovers?: boolean;
+}
+
+const listingRow = (overrides: Record<string, unknown> = {}) => ({
+  chain_listing_id: '0',
+  vibe_id: 3,
+  seller_id: 'seller',
+  price: '200',
+  listing_type: 'fixed_price',
+  status: 'active',
+  name: 'Sunset',
+  collection_name: 'Lunoa Vibes',
+  creator_id: 'creator',
+  buyer_address: '0xbuyer',
+  buyer_balance: '500',
+  ...overrides,
+});
+
+// Answers the purchase and settlement queries by statement. Settling returns the sale as
+// it was recorded, with the listing's seller and Vibe.
+const routePurchase = ({ listing = listingRow(), listingStillActive = true, balanceCovers = true }: PurchaseScenario = {}) => {
+  let sale: Record<string, unknown> | undefined;
+  let status = 'submitted';
+  mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes('AS buyer_address')) {
+      return { rows: listing ? [listing] : [] };
+    }
+    if (sql.includes("SET status = 'pending_sale'")) {
+      return { rowCount: listingStillActive ? 1 : 0 };
+    }
+    if (sql.includes('wallet_balance = wallet_balance - $1')) {
+      return { rowCount: balanceCovers ? 1 : 0 };
+    }
+    if (sql.includes('INSERT INTO marketplace_sales')) {
+      sale = {
+        id: 9, listing_id: params[0], buyer_id: params[1], buyer_address: params[2], price: String(params[3]),
+        royalty_amount: String(params[4]), royalty_recipient_id: params[5], tx_hash: params[6],
+        seller_id: 'seller', vibe_id: 3, vibe_name: 'Sunset',
+      };
+      return { rows: [{ id: 9 }] };
+    }
+    if (sql.includes('UPDATE marketplace_sales s')) {
+      if (status !== 'submitted') {
+        return { rows: [] };
+      }
+      status = params[1] as string;
+      return { rows: [sale] };
+    }
+    if (sql.includes('FROM marketplace_sales s')) {
+      return { rows: [{ id: 9, status }] };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+};
+
+describe('Marketplace Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+    setConfig(loadConfig({ NODE_ENV: 'test' }));
+    useChain();
+  });
+
+  describe('createListing', () => {
+    const vibeRow = (overrides: Record<string, unknown> = {}) => ({
+      token_address: '0xtoken',
+      owner_address: '0xseller',
+      owned_by_seller: true,
+      seller_address_verified: true,
+      listed: false,
+      ...overrides,
+    });
+
+    // Answers the Vibe lookup and records the listing as listing 1.
+    const routeListing = (vibe: Record<string, unknown> | null, insertError?: Error) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('AS owned_by_seller')) {
+          return { rows: vibe ? [vibe] : [] };
+        }
+        if (sql.includes('INSERT INTO marketplace_listings')) {
+          if (insertError) {
+            throw insertError;
+          }
+          return { rows: [{ id: 1 }] };
+        }
+        if (sql.includes('WHERE l.id = $1')) {
+          return { rows: [{ id: 1, status: 'active' }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    const mintToSeller = () => mintOnChain('0xseller');
+
+    it('should list the Vibe on-chain and record the listing from its event', async () => {
+      const tokenAddress = await mintToSeller();
+      routeListing(vibeRow({ token_address: tokenAddress }));
+
+      const listing = await marketplaceService.createListing(3, 'seller', 25.123456789);
+
+      expect(listing).toEqual({ id: 1, status: 'active' });
+      const [transaction] = chain.getTransactions().filter((tx) => tx.kind === 'create_listing');
+      expect(chain.getListing(0)).toEqual({ tokenAddress, seller: '0xseller', price: 25.12345679, status: 'active' });
+      expect(statementsMatching('INSERT INTO marketplace_listings')[0][1]).toEqual([0, 3, 'seller', '0xseller', 25.12345679, 'fixed_price', transaction.hash]);
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1]).toEqual([
+        transaction.hash, 'marketplace_listing', 'marketplace_listing', 1, 'seller',
+        transaction.sender, transaction.sequenceNumber, transaction.gasUnitPrice, expect.any(Number),
+      ]);
+      expect(statementsMatching('INSERT INTO marketplace_auctions')).toHaveLength(0);
+      expect(statementsMatching('COMMIT')).toHaveLength(1);
+    });
+
+    it.each([
+      ['VIBE_NOT_FOUND', null, 25],
+      ['NOT_VIBE_OWNER', { owned_by_seller: false, seller_address_verified: false }, 25],
+      ['ADDRESS_NOT_VERIFIED', { seller_address_verified: false }, 25],
+      ['VIBE_NOT_TRADABLE', { token_address: null }, 25],
+      ['ALREADY_LISTED', { listed: true }, 25],
+      ['PRICE_TOO_SMALL', {}, 0.000000001],
+    ])('should throw %s without listing on-chain', async (code, overrides, price) => {
+      routeListing(overrides ? vibeRow(overrides) : null);
+
+      await expect(marketplaceService.createListing(3, 'seller', price)).rejects.toThrow(code);
+      expect(chain.getTransactions()).toHaveLength(0);
+      expect(statementsMatching('INSERT INTO marketplace_listings')).toHaveLength(0);
+    });
+
+    it('should withdraw its on-chain listing if a concurrent listing of the Vibe was recorded first', async () => {
+      const tokenAddress = await mintToSeller();
+      routeListing(vibeRow({ token_address: tokenAddress }), Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(marketplaceService.createListing(3, 'seller', 25)).rejects.toThrow('ALREADY_LISTED');
+      expect(chain.getListing(0)?.status).toBe('cancelled');
+      expect(statementsMatching('ROLLBACK')).toHaveLength(1);
+    });
+
+    describe('createAuction', () => {
+      it('should list the Vibe on-chain at its starting price and record the auction\'s terms', async () => {
+        const tokenAddress = await mintToSeller();
+        routeListing(vibeRow({ token_address: tokenAddress }));
+
+        await marketplaceService.createAuction(3, 'seller', { startingPrice: 10, reservePrice: 50, minIncrement: 2.5, durationHours: 24 });
+
+        expect(chain.getListing(0)?.price).toBe(10);
+        expect(statementsMatching('INSERT INTO marketplace_listings')[0][1][5]).toBe('auction');
+        expect(statementsMatching('INSERT INTO marketplace_auctions')[0][1]).toEqual([1, 50, 2.5, 24]);
+      });
+
+      it('should make the starting price the reserve price when none is given', async () => {
+        const tokenAddress = await mintToSeller();
+        routeListing(vibeRow({ token_address: tokenAddress }));
+
+        await marketplaceService.createAuction(3, 'seller', { startingPrice: 10, minIncrement: 1, durationHours: 1 });
+
+        expect(statementsMatching('INSERT INTO marketplace_auctions')[0][1]).toEqual([1, 10, 1, 1]);
+      });
+
+      it('should throw PRICE_TOO_SMALL for an increment below the smallest unit of $Lunoa', async () => {
+        routeListing(vibeRow());
+
+        await expect(marketplaceService.createAuction(3, 'seller', { startingPrice: 10, minIncrement: 0.000000001, durationHours: 1 }))
+          .rejects.toThrow('PRICE_TOO_SMALL');
+        expect(chain.getTransactions()).toHaveLength(0);
+      });
+    });
+  });
+
+  describe('cancelListing', () => {
+    it('should withdraw the listing on-chain and record the cancellation', async () => {
+      await listOnChain();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 5, chain_listing_id: '0', seller_id: 'seller', status: 'active', bid_count: 0 }] })
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 5, status: 'cancelled' }] });
+
+      const listing = await marketplaceService.cancelListing(5, 'seller');
+
+      expect(listing).toEqual({ id: 5, status: 'cancelled' });
+      expect(chain.getListing(0)?.status).toBe('cancelled');
+      const [transaction] = chain.getTransactions().filter((tx) => tx.kind === 'cancel_listing');
+      expect(statementsMatching("SET status = 'cancelled'")[0][1]).toEqual([5, transaction.hash]);
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1]).toEqual([
+        transaction.hash, 'marketplace_cancellation', 'marketplace_listing', 5, 'seller',
+        transaction.sender, transaction.sequenceNumber, transaction.gasUnitPrice, expect.any(Number),
+      ]);
+    });
+
+    it.each([
+      ['LISTING_NOT_FOUND', null],
+      ['FORBIDDEN', { seller_id: 'someone-else', status: 'active' }],
+      ['LISTING_NOT_ACTIVE', { seller_id: 'seller', status: 'pending_sale' }],
+      ['AUCTION_HAS_BIDS', { seller_id: 'seller', status: 'active', bid_count: 1 }],
+    ])('should throw %s without touching the chain', async (code, listing) => {
+      await listOnChain();
+      mockQuery.mockResolvedValueOnce({ rows: listing ? [{ id: 5, chain_listing_id: '0', ...listing }] : [] });
+
+      await expect(marketplaceService.cancelListing(5, 'seller')).rejects.toThrow(code);
+      expect(chain.getListing(0)?.status).toBe('active');
+    });
+  });
+
+  describe('purchaseListing', () => {
+    it('should escrow the price, then pay the seller and the creator\'s royalty once the sale commits', async () => {
+      await listOnChain();
+      chain.setCollectionRoyalty('Lunoa Vibes', { numerator: 5, denominator: 100 });
+      routePurchase();
+
+      const sale = await marketplaceService.purchaseListing(5, 'buyer');
+
+      expect(sale).toEqual({ id: 9, status: 'completed' });
+      const [transaction] = chain.getTransactions().filter((tx) => tx.kind === 'marketplace_sale');
+      expect(statementsMatching('INSERT INTO marketplace_sales')[0][1]).toEqual([5, 'buyer', '0xbuyer', 200, 10, 'creator', transaction.hash, expect.any(Date)]);
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1])
+        .toEqual([transaction.hash, 'marketplace_sale', 'marketplace_sale', 9, 'buyer', transaction.sender, transaction.sequenceNumber, transaction.gasUnitPrice, expect.any(Date)]);
+      expect(ledger()).toEqual([['buyer', 'purchase_escrow', 200], ['seller', 'sale_proceeds', 190], ['creator', 'royalty', 10]]);
+      expect(statementsMatching("SET status = 'sold'")[0][1]).toEqual([5]);
+      expect(statementsMatching('UPDATE vibes SET owner_address')[0][1]).toEqual([3, '0xbuyer']);
+      expect(chain.getTokenOwner(chain.getListing(0)!.tokenAddress)).toBe('0xbuyer');
+    });
+
+    it('should pay no royalty when the creator sells their own Vibe', async () => {
+      await listOnChain();
+      chain.setCollectionRoyalty('Lunoa Vibes', { numerator: 5, denominator: 100 });
+      routePurchase({ listing: listingRow({ creator_id: 'seller' }) });
+
+      await marketplaceService.purchaseListing(5, 'buyer');
+
+      expect(statementsMatching('INSERT INTO marketplace_sales')[0][1].slice(3, 6)).toEqual([200, 0, null]);
+      expect(ledger()).toEqual([['buyer', 'purchase_escrow', 200], ['seller', 'sale_proceeds', 200]]);
+    });
+
+    it('should refund the buyer and reopen the listing if the sale fails on-chain', async () => {
+      const tokenAddress = await listOnChain();
+      chain.transferToken(tokenAddress, '0xfriend');
+      routePurchase();
+
+      const sale = await marketplaceService.purchaseListing(5, 'buyer');
+
+      expect(sale).toEqual({ id: 9, status: 'failed' });
+      expect(ledger()).toEqual([['buyer', 'purchase_escrow', 200], ['buyer', 'purchase_refund', 200]]);
+      expect(statementsMatching("ELSE 'active' END")[0][1]).toEqual([5]);
+      expect(statementsMatching('UPDATE vibes SET owner_address')).toHaveLength(0);
+    });
+
+    it('should leave the sale submitted, with the price in escrow, while its transaction is in flight', async () => {
+      useChain(false);
+      await listOnChain();
+      routePurchase();
+
+      const sale = await marketplaceService.purchaseListing(5, 'buyer');
+
+      expect(sale).toEqual({ id: 9, status: 'submitted' });
+      expect(ledger()).toEqual([['buyer', 'purchase_escrow', 200]]);
+      expect(statementsMatching('UPDATE marketplace_sales s')).toHaveLength(0);
+    });
+
+    it.each([
+      ['LISTING_NOT_FOUND', { listing: null }, 'buyer'],
+      ['LISTING_IS_AUCTION', { listing: listingRow({ listing_type: 'auction' }) }, 'buyer'],
+      ['CANNOT_BUY_OWN_LISTING', {}, 'seller'],
+      ['LISTING_NOT_ACTIVE', { listing: listingRow({ status: 'pending_sale' }) }, 'buyer'],
+      ['APTOS_ADDRESS_REQUIRED', { listing: listingRow({ buyer_address: null }) }, 'buyer'],
+      ['INSUFFICIENT_FUNDS', { listing: listingRow({ buyer_balance: '150' }) }, 'buyer'],
+      ['LISTING_NOT_ACTIVE', { listingStillActive: false }, 'buyer'],
+      ['INSUFFICIENT_FUNDS', { balanceCovers: false }, 'buyer'],
+    ])('should throw %s and send nothing', async (code, scenario, buyerId) => {
+      await listOnChain();
+      routePurchase(scenario as PurchaseScenario);
+
+      await expect(marketplaceService.purchaseListing(5, buyerId)).rejects.toThrow(code);
+      expect(chain.getTransactions().filter((tx) => tx.kind === 'marketplace_sale')).toHaveLength(0);
+      expect(statementsMatching('INSERT INTO marketplace_sales')).toHaveLength(0);
+      // Nothing is left holding a sequence number the service account's next transaction would wait behind.
+      expect((await chain.prepareMarketplaceSale(0, '0xbuyer')).sequenceNumber).toBe(String(chain.getTransactions().length));
+    });
+  });
+
+  describe('placeBid', () => {
+    const auctionRow = (overrides: Record<string, unknown> = {}) => ({
+      vibe_id: 3,
+      seller_id: 'seller',
+      price: '100',
+      listing_type: 'auction',
+      status: 'active',
+      name: 'Sunset',
+      min_increment: '5',
+      ended: false,
+      bidder_address: '0xbidder',
+      ...overrides,
+    });
+
+    interface BidScenario {
+      auction?: Record<string, unknown> | null;
+      leading?: Record<string, unknown> | null;
+      balanceCovers?: boolean;
+    }
+
+    const routeBid = ({ auction = auctionRow(), leading = null, balanceCovers = true }: BidScenario = {}) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('AS bidder_address')) {
+          return { rows: auction ? [auction] : [] };
+        }
+        if (sql.includes('SELECT id, bidder_id, amount FROM marketplace_bids')) {
+          return { rows: leading ? [leading] : [] };
+        }
+        if (sql.includes('wallet_balance = wallet_balance - $1')) {
+          return { rowCount: balanceCovers ? 1 : 0 };
+        }
+        if (sql.includes('INSERT INTO marketplace_bids')) {
+          return { rows: [{ id: 12 }] };
+        }
+        if (sql.includes('FROM marketplace_bids b')) {
+          return { rows: [{ id: 12, status: 'leading' }] };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+    };
+
+    it('should hold the first bid in escrow and extend an auction about to end', async () => {
+      routeBid();
+
+      const bid = await marketplaceService.placeBid(5, 'bidder', 100);
+
+      expect(bid).toEqual({ id: 12, status: 'leading' });
+      expect(statementsMatching('FOR UPDATE')[0][1]).toEqual([5]);
+      expect(ledger()).toEqual([['bidder', 'bid_escrow', 100]]);
+      expect(statementsMatching('INSERT INTO marketplace_bids')[0][1]).toEqual([5, 'bidder', '0xbidder', 100]);
+      expect(statementsMatching('GREATEST(ends_at')[0][1]).toEqual([5, 300]);
+      expect(statementsMatching('INSERT INTO notifications')).toHaveLength(0);
+    });
+
+    it('should refund and notify the bidder it beats', async () => {
+      routeBid({ leading: { id: 11, bidder_id: 'rival', amount: '100' } });
+
+      await marketplaceService.placeBid(5, 'bidder', 105);
+
+      expect(statementsMatching("SET status = 'outbid'")[0][1]).toEqual([11]);
+      expect(ledger()).toEqual([['rival', 'bid_refund', 100], ['bidder', 'bid_escrow', 105]]);
+      const [[, [userIds, types, data]]] = statementsMatching('INSERT INTO notifications');
+      expect(userIds).toEqual(['rival']);
+      expect(types).toEqual(['auction_outbid']);
+      expect(JSON.parse(data[0])).toMatchObject({ listingId: 5, bidId: 11, amount: '100', leadingBid: 105 });
+    });
+
+    it('should let the leading bidder raise their own bid without notifying them', async () => {
+      routeBid({ leading: { id: 11, bidder_id: 'bidder', amount: '100' } });
+
+      await marketplaceService.placeBid(5, 'bidder', 120);
+
+      expect(ledger()).toEqual([['bidder', 'bid_refund', 100], ['bidder', 'bid_escrow', 120]]);
+      expect(statementsMatching('INSERT INTO notifications')).toHaveLength(0);
+    });
+
+    it.each([
+      ['LISTING_NOT_FOUND', { auction: null }, 100],
+      ['NOT_AN_AUCTION', { auction: auctionRow({ listing_type: 'fixed_price' }) }, 100],
+      ['CANNOT_BID_ON_OWN_AUCTION', { auction: auctionRow({ seller_id: 'bidder' }) }, 100],
+      ['AUCTION_CLOSED', { auction: auctionRow({ ended: true }) }, 100],
+      ['AUCTION_CLOSED', { auction: auctionRow({ status: 'pending_sale' }) }, 100],
+      ['APTOS_ADDRESS_REQUIRED', { auction: auctionRow({ bidder_address: null }) }, 100],
+      ['BID_TOO_LOW', {}, 99.99],
+      ['BID_TOO_LOW', { leading: { id: 11, bidder_id: 'rival', amount: '100' } }, 104.99],
+      ['INSUFFICIENT_FUNDS', { balanceCovers: false }, 100],
+    ])('should throw %s and record no bid', async (code, scenario, amount) => {
+      routeBid(scenario as BidScenario);
+
+      await expect(marketplaceService.placeBid(5, 'bidder', amount)).rejects.toThrow(code);
+      expect(statementsMatching('INSERT INTO marketplace_bids')).toHaveLength(0);
+      expect(statementsMatching('ROLLBACK')).toHaveLength(1);
+    });
+  });
+
+  describe('closeEndedAuctions', () => {
+    const endedAuction = (overrides: Record<string, unknown> = {}) => ({
+      chain_listing_id: '0',
+      vibe_id: 3,
+      seller_id: 'seller',
+      name: 'Sunset',
+      collection_name: 'Lunoa Vibes',
+      creator_id: 'creator',
+      reserve_price: '150',
+      bid_id: 12,
+      bidder_id: 'bidder',
+      bidder_address: '0xbidder',
+      amount: '200',
+      ...overrides,
+    });
+
+    // Answers closing one ended auction, listing 5. `current` is how it stands once locked.
+    const routeClose = (auction: Record<string, unknown>, current: Record<string, unknown> = { status: 'active', ended: true, bid_id: auction.bid_id }) => {
+      let sale: Record<string, unknown> | undefined;
+      let expired = false;
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('SELECT a.listing_id')) {
+          return { rows: [{ listing_id: 5 }] };
+        }
+        if (sql.includes('UPDATE marketplace_listings SET status = $2')) {
+          expired = params[1] === 'expired';
+        }
+        if (sql.includes("THEN 'expired'")) {
+          expired = true;
+        }
+        if (sql.includes('SELECT chain_listing_id, seller_id')) {
+          return { rows: expired ? [{ chain_listing_id: auction.chain_listing_id, seller_id: 'seller' }] : [] };
+        }
+        if (sql.includes('a.reserve_price')) {
+          return { rows: [auction] };
+        }
+        if (sql.includes('AS ended')) {
+          return { rows: [current] };
+        }
+        if (sql.includes('INSERT INTO marketplace_sales')) {
+          sale = {
+            id: 9, listing_id: params[0], buyer_id: params[1], buyer_address: params[2], price: String(params[3]),
+            royalty_amount: String(params[4]), royalty_recipient_id: params[5], bid_id: params[6],
+            seller_id: 'seller', vibe_id: 3, vibe_name: 'Sunset',
+          };
+          return { rows: [{ id: 9 }] };
+        }
+        if (sql.includes('UPDATE marketplace_sales s')) {
+          return { rows: [sale] };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+    };
+
+    // The auction's listing was withdrawn on-chain and the cancellation recorded against it.
+    const expectWithdrawn = () => {
+      expect(chain.getListing(0)?.status).toBe('cancelled');
+      const [transaction] = chain.getTransactions().filter((tx) => tx.kind === 'cancel_listing');
+      expect(statementsMatching('SET cancel_tx_hash')[0][1]).toEqual([5, transaction.hash]);
+      const recorded = statementsMatching('INSERT INTO chain_transactions');
+      expect(recorded[recorded.length - 1][1].slice(0, 5)).toEqual([transaction.hash, 'marketplace_cancellation', 'marketplace_listing', 5, 'seller']);
+    };
+
+    it('should sell to a winning bid at its amount, paying the seller and the creator from its escrow', async () => {
+      await listOnChain();
+      chain.setCollectionRoyalty('Lunoa Vibes', { numerator: 5, denominator: 100 });
+      routeClose(endedAuction());
+
+      expect(await marketplaceService.closeEndedAuctions()).toBe(1);
+
+      const [transaction] = chain.getTransactions().filter((tx) => tx.kind === 'marketplace_sale');
+      expect(transaction).toMatchObject({ status: 'success', recipient: '0xbidder', amount: 200 });
+      expect(statementsMatching('UPDATE marketplace_listings SET status = $2')[0][1]).toEqual([5, 'pending_sale']);
+      expect(statementsMatching("SET status = 'won'")[0][1]).toEqual([12]);
+      expect(statementsMatching('INSERT INTO marketplace_sales')[0][1])
+        .toEqual([5, 'bidder', '0xbidder', 200, 10, 'creator', 12, transaction.hash, expect.any(Date)]);
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1].slice(0, 5)).toEqual([transaction.hash, 'marketplace_sale', 'marketplace_sale', 9, 'bidder']);
+      expect(statementsMatching('INSERT INTO notifications')[0][1].slice(0, 2)).toEqual([['bidder'], ['auction_won']]);
+      // The bid's escrow pays for the sale; the winner is not charged again.
+      expect(ledger()).toEqual([['seller', 'sale_proceeds', 190], ['creator', 'royalty', 10]]);
+      expect(chain.getTokenOwner(chain.getListing(0)!.tokenAddress)).toBe('0xbidder');
+    });
+
+    it('should refund the winning bid and expire the auction if the sale fails on-chain', async () => {
+      const tokenAddress = await listOnChain();
+      chain.transferToken(tokenAddress, '0xfriend');
+      routeClose(endedAuction());
+
+      await marketplaceService.closeEndedAuctions();
+
+      expect(ledger()).toEqual([['bidder', 'bid_refund', 200]]);
+      expect(statementsMatching("SET status = 'refunded'")[0][1]).toEqual([12]);
+      expect(statementsMatching("THEN 'expired'")[0][1]).toEqual([5]);
+      expectWithdrawn();
+    });
+
+    it('should expire the auction and refund a leading bid below the reserve price', async () => {
+      await listOnChain();
+      routeClose(endedAuction({ amount: '120' }));
+
+      expect(await marketplaceService.closeEndedAuctions()).toBe(1);
+
+      expect(statementsMatching('UPDATE marketplace_listings SET status = $2')[0][1]).toEqual([5, 'expired']);
+      expect(statementsMatching("SET status = 'refunded'")[0][1]).toEqual([12]);
+      expect(ledger()).toEqual([['bidder', 'bid_refund', 120]]);
+      expect(chain.getTransactions().filter((tx) => tx.kind === 'marketplace_sale')).toHaveLength(0);
+      expect(statementsMatching('INSERT INTO notifications')).toHaveLength(0);
+      expectWithdrawn();
+    });
+
+    it('should still close the auction if withdrawing it on-chain fails, and withdraw it on the next pass', async () => {
+      routeClose(endedAuction({ amount: '120' }));
+
+      expect(await marketplaceService.closeEndedAuctions()).toBe(1);
+
+      expect(statementsMatching('SET cancel_tx_hash')).toHaveLength(0);
+
+      await listOnChain();
+      mockQuery.mockReset();
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('ORDER BY updated_at')) {
+          return { rows: [{ id: 5 }] };
+        }
+        if (sql.includes('SELECT chain_listing_id, seller_id')) {
+          return { rows: [{ chain_listing_id: '0', seller_id: 'seller' }] };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+
+      expect(await marketplaceService.closeEndedAuctions()).toBe(0);
+
+      expectWithdrawn();
+    });
+
+    it('should expire an auction nobody bid on', async () => {
+      routeClose(endedAuction({ bid_id: null, bidder_id: null, bidder_address: null, amount: null }));
+
+      expect(await marketplaceService.closeEndedAuctions()).toBe(1);
+
+      expect(statementsMatching('UPDATE marketplace_listings SET status = $2')[0][1]).toEqual([5, 'expired']);
+      expect(ledger()).toEqual([]);
+    });
+
+    it.each([
+      ['took a late bid', { status: 'active', ended: true, bid_id: 13 }],
+      ['was extended', { status: 'active', ended: false, bid_id: 12 }],
+      ['was closed meanwhile', { status: 'pending_sale', ended: true, bid_id: 12 }],
+    ])('should leave an auction that %s', async (_, current) => {
+      await listOnChain();
+      routeClose(endedAuction(), current);
+
+      expect(await marketplaceService.closeEndedAuctions()).toBe(0);
+
+      expect(statementsMatching('ROLLBACK')).toHaveLength(1);
+      expect(statementsMatching('INSERT INTO marketplace_sales')).toHaveLength(0);
+      expect(chain.getTransactions().filter((tx) => tx.kind === 'marketplace_sale')).toHaveLength(0);
+      expect((await chain.prepareMarketplaceSale(0, '0xbuyer')).sequenceNumber).toBe(String(chain.getTransactions().length));
+    });
+  });
+
+  describe('reconcileSubmittedSales', () => {
+    it('should settle sales whose transactions committed, failed or expired unseen, and leave the rest', async () => {
+      useChain(false);
+      await listOnChain();
+      const committed = await chain.prepareMarketplaceSale(0, '0xbuyer');
+      await committed.submit();
+      chain.settleTransaction(committed.hash, 'success');
+      const pending = await chain.prepareMarketplaceSale(0, '0xother');
+      await pending.submit();
+
+      const settling = (id: number) => ({
+        id, listing_id: 5, buyer_id: `buyer${id}`, buyer_address: '0xbuyer', price: '200', royalty_amount: '0',
+        royalty_recipient_id: null, seller_id: 'seller', vibe_id: 3, vibe_name: 'Sunset',
+      });
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes("WHERE status = 'submitted' ORDER BY")) {
+          return {
+            rows: [
+              { id: 1, tx_hash: committed.hash, tx_expires_at: committed.expiresAt },
+              { id: 2, tx_hash: pending.hash, tx_expires_at: pending.expiresAt },
+              { id: 3, tx_hash: '0xunseen', tx_expires_at: new Date(Date.now() - 60_000) },
+              { id: 4, tx_hash: '0xrecent', tx_expires_at: new Date(Date.now() + 60_000) },
+            ],
+          };
+        }
+        if (sql.includes('UPDATE marketplace_sales s')) {
+          return { rows: [settling(params[0] as number)] };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+
+      const settled = await marketplaceService.reconcileSubmittedSales();
+
+      expect(settled).toBe(2);
+      expect(statementsMatching('UPDATE marketplace_sales s').map(([, params]) => params.slice(0, 2))).toEqual([[1, 'completed'], [3, 'failed']]);
+      expect(ledger()).toEqual([['seller', 'sale_proceeds', 200], ['buyer3', 'purchase_refund', 200]]);
+    });
+  });
+
+  describe('sale history', () => {
+    it('should list a Vibe\'s completed sales, newest first', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 2 }] });
+
+      expect(await marketplaceService.getSaleHistory(3, 20, 0)).toEqual([{ id: 2 }]);
+      expect(mockQuery.mock.calls[0][0]).toContain("s.status = 'completed'");
+      expect(mockQuery.mock.calls[0][1]).toEqual([3, 20, 0]);
+    });
+
+    it('should list a user\'s purchases in every status', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 2 }, { id: 1 }] });
+
+      expect(await marketplaceService.getUserPurchases('buyer', 20, 40)).toEqual([{ id: 2 }, { id: 1 }]);
+      expect(mockQuery.mock.calls[0][0]).not.toContain("s.status = 'completed'");
+      expect(mockQuery.mock.calls[0][1]).toEqual(['buyer', 20, 40]);
+    });
+  });
+});
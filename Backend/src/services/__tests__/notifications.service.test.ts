@@ -0,0 +1,70 @@
+import { getPool } from '../../config/database';
+import * as notificationsService from '../notifications.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+describe('Notifications Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createNotifications', () => {
+    it('should insert every notification in one statement on the caller\'s transaction', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 2 }) } as any;
+
+      const count = await notificationsService.createNotifications(client, [
+        { userId: 'user1', type: 'quest_expired', data: { questId: 'quest1' } },
+        { userId: 'user2', type: 'quest_deadline_passed', data: { questId: 'quest2' } },
+      ]);
+
+      expect(count).toBe(2);
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][1]).toEqual([
+        ['user1', 'user2'],
+        ['quest_expired', 'quest_deadline_passed'],
+        ['{"questId":"quest1"}', '{"questId":"quest2"}'],
+      ]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should skip the insert when there is nothing to send', async () => {
+      const client = { query: jest.fn() } as any;
+
+      expect(await notificationsService.createNotifications(client, [])).toBe(0);
+      expect(client.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserNotifications', () => {
+    it('should only return unread notifications when asked', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await notificationsService.getUserNotifications('user1', true, 20);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('read_at IS NULL'), ['user1', 20]);
+    });
+  });
+
+  describe('markNotificationsRead', () => {
+    it('should mark only the given notifications', async () => {
+      mockQuery.mockResolvedValue({ rowCount: 2 });
+
+      expect(await notificationsService.markNotificationsRead('user1', [1, 2])).toBe(2);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('id = ANY($2::int[])'), ['user1', [1, 2]]);
+    });
+
+    it('should mark all of them when no IDs are given', async () => {
+      mockQuery.mockResolvedValue({ rowCount: 5 });
+
+      expect(await notificationsService.markNotificationsRead('user1')).toBe(5);
+      expect(mockQuery).toHaveBeenCalledWith(expect.not.stringContaining('ANY'), ['user1']);
+    });
+  });
+});
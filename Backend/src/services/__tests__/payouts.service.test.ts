@@ -0,0 +1,200 @@
+import { getPool } from '../../config/database';
+import { loadConfig, setConfig } from '../../config/index';
+import { createInMemoryAdapter, setChainAdapter } from '../chain';
+import * as payoutsService from '../payouts.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const chain = createInMemoryAdapter();
+setChainAdapter(chain);
+setConfig(loadConfig({ NODE_ENV: 'test', PAYOUT_MAX_ATTEMPTS: '3' }));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+const payout = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  quest_id: 'quest1',
+  user_id: 'user1',
+  amount: '100',
+  status: 'processing',
+  attempts: 1,
+  tx_hash: null,
+  tx_expires_at: null,
+  recipient_address: '0xabc',
+  ...overrides,
+});
+
+// Answers the worker's queries by statement, so each test only describes the rows it cares about.
+const routeQueries = ({ submitted = [] as unknown[], due = [] as unknown[], claimKept = true } = {}) => {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes("status = 'submitted' ORDER BY")) {
+      return { rows: submitted, rowCount: submitted.length };
+    }
+    if (sql.includes("SET status = 'processing'")) {
+      return { rows: due, rowCount: due.length };
+    }
+    if (sql.includes("SET status = 'submitted'")) {
+      return { rows: [], rowCount: claimKept ? 1 : 0 };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+};
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+describe('Payouts Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    chain.reset();
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should double the delay with each attempt up to a cap', () => {
+      expect(payoutsService.getRetryDelayMs(1)).toBe(60_000);
+      expect(payoutsService.getRetryDelayMs(3)).toBe(240_000);
+      expect(payoutsService.getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('enqueueRewardPayout', () => {
+    it('should insert the payout on the caller\'s transaction and ignore duplicates', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [] }) } as any;
+
+      const result = await payoutsService.enqueueRewardPayout(client, { questId: 'quest1', userId: 'user1', amount: 100 });
+
+      expect(result).toBeNull();
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT (quest_id, user_id) DO NOTHING'), ['quest1', 'user1', 100]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processRewardPayouts', () => {
+    it('should pay the recipient and mark the payout sent', async () => {
+      routeQueries({ due: [payout()] });
+
+      const summary = await payoutsService.processRewardPayouts();
+
+      expect(summary.processed).toBe(1);
+      expect(await chain.getLunoaBalance('0xabc')).toBe(100);
+      const [transaction] = chain.getTransactions();
+      expect(statementsMatching("SET status = 'sent'")[0][1]).toEqual([7, transaction.hash]);
+    });
+
+    it('should offer more gas on each attempt at a payout', async () => {
+      routeQueries({ due: [payout(), payout({ id: 8, attempts: 3 })] });
+
+      await payoutsService.processRewardPayouts();
+
+      const [first, third] = chain.getTransactions();
+      expect(third.gasUnitPrice).toBeGreaterThan(first.gasUnitPrice);
+    });
+
+    it('should record the transaction hash and track the transaction before submitting', async () => {
+      const submit = jest.fn().mockResolvedValue(undefined);
+      const expiresAt = new Date();
+      jest.spyOn(chain, 'prepareQuestReward').mockResolvedValue({ hash: '0xhash', sender: '0xa11ce', sequenceNumber: '4', gasUnitPrice: 100, expiresAt, submit, discard: jest.fn() });
+      jest.spyOn(chain, 'waitForTransaction').mockResolvedValue('success');
+      routeQueries({ due: [payout()] });
+
+      await payoutsService.processRewardPayouts();
+
+      const [recordHash] = statementsMatching("SET status = 'submitted'");
+      expect(recordHash[1]).toEqual([7, '0xhash', expiresAt, 1]);
+      const recordOrder = mockQuery.mock.invocationCallOrder[mockQuery.mock.calls.indexOf(recordHash)];
+      expect(recordOrder).toBeLessThan(submit.mock.invocationCallOrder[0]);
+
+      const [track] = statementsMatching('INSERT INTO chain_transactions');
+      expect(track[1]).toEqual(['0xhash', 'quest_reward', 'reward_payout', 7, 'user1', '0xa11ce', '4', 100, expiresAt]);
+      const trackOrder = mockQuery.mock.invocationCallOrder[mockQuery.mock.calls.indexOf(track)];
+      expect(trackOrder).toBeLessThan(submit.mock.invocationCallOrder[0]);
+    });
+
+    it('should not submit when the claim was released while preparing', async () => {
+      routeQueries({ due: [payout()], claimKept: false });
+
+      await payoutsService.processRewardPayouts();
+
+      expect(chain.getTransactions()).toHaveLength(0);
+      // The sequence number it was signed with is free for the next transaction.
+      expect((await chain.prepareQuestReward('0xabc', 100)).sequenceNumber).toBe('0');
+    });
+
+    it('should retry with backoff when the recipient has no address', async () => {
+      routeQueries({ due: [payout({ recipient_address: null })] });
+
+      await payoutsService.processRewardPayouts();
+
+      expect(chain.getTransactions()).toHaveLength(0);
+      const [retry] = statementsMatching('last_error = $3');
+      expect(retry[1]).toEqual([7, 'pending', 'Recipient has no Aptos address.', '60000', 1]);
+    });
+
+    it('should fail the payout once it runs out of attempts', async () => {
+      routeQueries({ due: [payout({ recipient_address: null, attempts: 3 })] });
+
+      await payoutsService.processRewardPayouts();
+
+      expect(statementsMatching('last_error = $3')[0][1][1]).toBe('failed');
+    });
+
+    it('should leave a payout submitted when submission errors, for reconciliation to settle', async () => {
+      const submit = jest.fn().mockRejectedValue(new Error('Failed to submit reward distribution transaction.'));
+      jest.spyOn(chain, 'prepareQuestReward').mockResolvedValue({ hash: '0xhash', sender: '0xa11ce', sequenceNumber: '4', gasUnitPrice: 100, expiresAt: new Date(), submit, discard: jest.fn() });
+      routeQueries({ due: [payout()] });
+
+      await payoutsService.processRewardPayouts();
+
+      expect(statementsMatching('last_error = $3')).toHaveLength(0);
+      expect(statementsMatching("SET status = 'sent'")).toHaveLength(0);
+    });
+  });
+
+  describe('reconcileSubmittedPayouts', () => {
+    const submitted = (expiresInMs: number) =>
+      payout({ status: 'submitted', tx_hash: '0xhash', tx_expires_at: new Date(Date.now() + expiresInMs) });
+
+    it('should mark a committed transaction as sent', async () => {
+      jest.spyOn(chain, 'getTransactionStatus').mockResolvedValue('success');
+      routeQueries({ submitted: [submitted(0)] });
+
+      expect(await payoutsService.reconcileSubmittedPayouts()).toBe(1);
+      expect(statementsMatching("SET status = 'sent'")).toHaveLength(1);
+    });
+
+    it('should keep waiting on an unseen transaction that has not expired', async () => {
+      routeQueries({ submitted: [submitted(60_000)] });
+
+      expect(await payoutsService.reconcileSubmittedPayouts()).toBe(0);
+      expect(statementsMatching('last_error = $3')).toHaveLength(0);
+    });
+
+    it('should retry once an unseen transaction has expired', async () => {
+      routeQueries({ submitted: [submitted(-5 * 60_000)] });
+
+      expect(await payoutsService.reconcileSubmittedPayouts()).toBe(1);
+      expect(statementsMatching('last_error = $3')[0][1][1]).toBe('pending');
+    });
+  });
+
+  describe('retryPayout', () => {
+    it('should reject payouts that have not failed', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [payout({ status: 'sent' })] });
+
+      await expect(payoutsService.retryPayout(7, 'user1')).rejects.toThrow('PAYOUT_NOT_FAILED');
+    });
+
+    it('should report payouts that belong to someone else as not found', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await expect(payoutsService.retryPayout(7, 'user2')).rejects.toThrow('PAYOUT_NOT_FOUND');
+    });
+  });
+});
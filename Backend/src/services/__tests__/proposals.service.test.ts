@@ -0,0 +1,329 @@
+import { getPool } from '../../config/database';
+import { createInMemoryAdapter, setChainAdapter } from '../chain';
+import * as proposalsService from '../proposals.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockRelease = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: mockRelease,
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const chain = createInMemoryAdapter();
+setChainAdapter(chain);
+
+// The proposal row finalizeProposal locks, joined with its group's settings and member count.
+const openRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  group_id: 1,
+  creator_id: 'user1',
+  title: 'Pay',
+  status: 'open',
+  voting_mode: 'binary',
+  options: null,
+  action: null,
+  proposal_quorum_percent: 20,
+  proposal_pass_threshold_percent: 50,
+  eligible_voters: '10',
+  ...overrides,
+});
+
+const yesNoBallots = (yes: number, no: number) => ({
+  rows: [
+    ...Array.from({ length: yes }, () => ({ proposal_id: 7, vote_option: true, option_index: null, rankings: null, weight: '1' })),
+    ...Array.from({ length: no }, () => ({ proposal_id: 7, vote_option: false, option_index: null, rankings: null, weight: '1' })),
+  ],
+});
+
+const transfer = { type: 'transfer', amount: 25, recipientUserId: 'user2' };
+
+describe('Proposals Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isExpired', () => {
+    it('should only report open proposals past their deadline', () => {
+      const past = new Date(Date.now() - 1000);
+      const future = new Date(Date.now() + 60000);
+
+      expect(proposalsService.isExpired({ status: 'open', expires_at: past })).toBe(true);
+      expect(proposalsService.isExpired({ status: 'open', expires_at: future })).toBe(false);
+      expect(proposalsService.isExpired({ status: 'passed', expires_at: past })).toBe(false);
+    });
+  });
+
+  describe('finalizeProposal', () => {
+    it('should record the outcome and final tally of an open proposal', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow()] })
+        .mockResolvedValueOnce(yesNoBallots(4, 1))
+        .mockResolvedValueOnce({ rows: [{ id: 7, group_id: 1, status: 'passed' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] }) // Reputation event
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await proposalsService.finalizeProposal(7);
+
+      expect(result?.status).toBe('passed');
+      expect(result?.tally).toEqual(expect.objectContaining({ yes: 4, no: 1, eligibleVoters: 10 }));
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM votes WHERE proposal_id = ANY($1)'), [[7]]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE proposals'), [7, 'passed', expect.any(String), null, null]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO reputation_events'), ['user1', 'proposal_passed', 5, { proposalId: 7, groupId: 1 }]);
+      expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should count tokens moved between voters once, for whoever holds them at the close', async () => {
+      const proposal = { id: 7, group_id: 1, vote_weighting: 'token' as const };
+      chain.setBalance('0xa', 100);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ aptos_address: '0xa' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, weight: '100', created: true }], rowCount: 1 });
+      await proposalsService.castVote(proposal, 'user1', { voteOption: true });
+
+      // user1 hands the tokens to user2, who votes with them again.
+      chain.setBalance('0xa', 0);
+      chain.setBalance('0xb', 100);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ aptos_address: '0xb' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 2, weight: '100', created: true }], rowCount: 1 });
+      await proposalsService.castVote(proposal, 'user2', { voteOption: false });
+
+      mockQuery.mockClear();
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ vote_weighting: 'token' })] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, address: '0xa' }, { id: 2, address: '0xb' }] })
+        .mockResolvedValueOnce({ rowCount: 2 }) // Re-weighed ballots
+        .mockResolvedValueOnce({ rows: [
+          { proposal_id: 7, vote_option: true, option_index: null, rankings: null, weight: '0' },
+          { proposal_id: 7, vote_option: false, option_index: null, rankings: null, weight: '100' },
+        ] })
+        .mockResolvedValueOnce({ rows: [{ id: 7, group_id: 1, status: 'rejected' }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await proposalsService.finalizeProposal(7);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE votes v SET weight'), [[1, 2], [0, 100]]);
+      expect(result?.status).toBe('rejected');
+      expect(result?.tally).toEqual(expect.objectContaining({ yes: 0, no: 100 }));
+    });
+
+    it('should weigh a wallet shared by several voters once', async () => {
+      chain.setBalance('0xc', 30);
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ vote_weighting: 'token' })] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, address: '0xc' }, { id: 2, address: '0xc' }, { id: 3, address: null }] })
+        .mockResolvedValueOnce({ rowCount: 3 }) // Re-weighed ballots
+        .mockResolvedValueOnce(yesNoBallots(0, 0))
+        .mockResolvedValueOnce({ rows: [{ id: 7, group_id: 1, status: 'rejected' }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await proposalsService.finalizeProposal(7);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE votes v SET weight'), [[1, 2, 3], [30, 0, 0]]);
+    });
+
+    it('should decide a multiple-choice proposal on its leading option', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ voting_mode: 'multiple_choice', options: ['Beach', 'Park'] })] })
+        .mockResolvedValueOnce({
+          rows: [
+            { proposal_id: 7, vote_option: null, option_index: 1, rankings: null, weight: '2' },
+            { proposal_id: 7, vote_option: null, option_index: 0, rankings: null, weight: '1' },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 7, status: 'passed' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] }) // Reputation event
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await proposalsService.finalizeProposal(7);
+
+      expect(result?.tally.winningOption).toBe(1);
+      expect(result?.tally.options.map((option) => option.label)).toEqual(['Beach', 'Park']);
+    });
+
+    it('should execute the treasury action of a passed spend proposal', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ action: transfer, eligible_voters: '3' })] })
+        .mockResolvedValueOnce(yesNoBallots(3, 0))
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rowCount: 1 }) // debit
+        .mockResolvedValueOnce({ rowCount: 1 }) // recipient's wallet
+        .mockResolvedValueOnce({ rows: [{ id: 2 }], rowCount: 1 }) // wallet transaction
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 }) // withdrawal
+        .mockResolvedValueOnce({ rows: [{ id: 7, status: 'passed', execution_status: 'executed' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] }) // Reputation event
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const result = await proposalsService.finalizeProposal(7);
+
+      expect(result?.execution_status).toBe('executed');
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE proposals'), [7, 'passed', expect.any(String), 'executed', null]);
+    });
+
+    it('should record a failed execution without undoing the outcome', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ action: transfer, eligible_voters: '3' })] })
+        .mockResolvedValueOnce(yesNoBallots(3, 0))
+        .mockResolvedValueOnce({}) // SAVEPOINT
+        .mockResolvedValueOnce({ rowCount: 0 }) // debit refused
+        .mockResolvedValueOnce({}) // ROLLBACK TO SAVEPOINT
+        .mockResolvedValueOnce({ rows: [{ id: 7, status: 'passed', execution_status: 'failed' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] }) // Reputation event
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await proposalsService.finalizeProposal(7);
+
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK TO SAVEPOINT execute_action');
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE proposals'), [7, 'passed', expect.any(String), 'failed', 'INSUFFICIENT_FUNDS']);
+      expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should cancel the action of a proposal that did not pass', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ action: transfer, eligible_voters: '3' })] })
+        .mockResolvedValueOnce(yesNoBallots(0, 3))
+        .mockResolvedValueOnce({ rows: [{ id: 7, status: 'failed', execution_status: 'cancelled' }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      await proposalsService.finalizeProposal(7);
+
+      expect(mockQuery).not.toHaveBeenCalledWith('SAVEPOINT execute_action');
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO reputation_events'), expect.anything());
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE proposals'), [7, 'failed', expect.any(String), 'cancelled', null]);
+    });
+
+    it('should roll back and rethrow when the update fails', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockRejectedValueOnce(new Error('DB Error'))
+        .mockResolvedValueOnce({}); // ROLLBACK
+
+      await expect(proposalsService.finalizeProposal(7)).rejects.toThrow('DB Error');
+      expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+  });
+
+  describe('parseVoteChoice', () => {
+    const multiple = { voting_mode: 'multiple_choice' as const, options: ['A', 'B', 'C'] };
+    const ranked = { voting_mode: 'ranked_choice' as const, options: ['A', 'B', 'C'] };
+
+    it('should accept a choice that fits the voting mode', () => {
+      expect(proposalsService.parseVoteChoice({ voting_mode: 'binary', options: null }, { voteOption: false })).toEqual({ voteOption: false });
+      expect(proposalsService.parseVoteChoice(multiple, { optionIndex: 2 })).toEqual({ optionIndex: 2 });
+      expect(proposalsService.parseVoteChoice(ranked, { rankings: [2, 0] })).toEqual({ rankings: [2, 0] });
+    });
+
+    it.each([
+      [{ voting_mode: 'binary' as const, options: null }, { optionIndex: 0 }],
+      [multiple, { optionIndex: 3 }],
+      [multiple, { voteOption: true }],
+      [ranked, { rankings: [] }],
+      [ranked, { rankings: [0, 0] }],
+      [ranked, { rankings: [0, 5] }],
+    ])('should reject a choice that does not fit (%#)', (proposal, body) => {
+      expect(proposalsService.parseVoteChoice(proposal, body)).toBeNull();
+    });
+  });
+
+  describe('getVoteWeight', () => {
+    it('should weight by the member role, defaulting unknown roles to a member', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ role: 'creator' }] }).mockResolvedValueOnce({ rows: [{ role: 'guest' }] });
+
+      expect(await proposalsService.getVoteWeight('role', 1, 'user1')).toBe(3);
+      expect(await proposalsService.getVoteWeight('role', 1, 'user2')).toBe(1);
+    });
+
+    it('should give every member at least one vote under reputation weighting', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ reputation_score: 40 }] }).mockResolvedValueOnce({ rows: [{ reputation_score: 0 }] });
+
+      expect(await proposalsService.getVoteWeight('reputation', 1, 'user1')).toBe(40);
+      expect(await proposalsService.getVoteWeight('reputation', 1, 'user2')).toBe(1);
+    });
+
+    it('should weight by $Lunoa holdings, and give no weight without a verified wallet', async () => {
+      chain.setBalance('0x1', 12);
+      mockQuery.mockResolvedValueOnce({ rows: [{ aptos_address: '0x1' }] }).mockResolvedValueOnce({ rows: [{ aptos_address: null }] });
+
+      expect(await proposalsService.getVoteWeight('token', 1, 'user1')).toBe(12);
+      expect(await proposalsService.getVoteWeight('token', 1, 'user2')).toBe(0);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('aptos_address_verified_at IS NOT NULL'), ['user1']);
+    });
+  });
+
+  describe('castVote', () => {
+    const proposal = { id: 7, group_id: 1, vote_weighting: 'equal' as const };
+
+    it('should report whether the vote was created or changed', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1, weight: '1', created: false }], rowCount: 1 });
+
+      const result = await proposalsService.castVote(proposal, 'user1', { optionIndex: 1 });
+
+      expect(result).toEqual({ vote: { id: 1, weight: '1' }, created: false });
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT (proposal_id, voter_id) DO UPDATE'), [7, 'user1', null, 1, null, 1]);
+    });
+
+    it('should reject votes on proposals that are no longer open', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(proposalsService.castVote(proposal, 'user1', { voteOption: true })).rejects.toThrow('VOTING_CLOSED');
+    });
+
+    it('should reject votes that would carry no weight', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ aptos_address: null }] });
+
+      await expect(proposalsService.castVote({ ...proposal, vote_weighting: 'token' }, 'user1', { voteOption: true }))
+        .rejects.toThrow('NO_VOTING_POWER');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getProposalsForMember', () => {
+    it('should settle the expired proposals of the member\'s groups before listing them', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await proposalsService.getProposalsForMember('user1', 'open');
+
+      const [settle, list] = mockQuery.mock.calls;
+      expect(settle[0]).toContain("status = 'open' AND expires_at <= NOW()");
+      expect(settle[0]).toContain('group_id IN (SELECT group_id FROM feed_group_members WHERE user_id = $1)');
+      expect(settle[1]).toEqual(['user1']);
+      expect(list[1]).toEqual(['user1', 'open']);
+    });
+  });
+
+  describe('closeExpiredProposals', () => {
+    it('should finalize each expired proposal and keep going after a failure', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 7 }] })
+        // Proposal 1: BEGIN fails.
+        .mockRejectedValueOnce(new Error('DB Error'))
+        .mockResolvedValueOnce({}) // ROLLBACK
+        // Proposal 7: closes without quorum.
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rows: [openRow({ eligible_voters: '5' })] })
+        .mockResolvedValueOnce(yesNoBallots(0, 0))
+        .mockResolvedValueOnce({ rows: [{ id: 7, group_id: 1, status: 'closed' }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const closed = await proposalsService.closeExpiredProposals();
+
+      expect(closed.map((p) => [p.id, p.status])).toEqual([[7, 'closed']]);
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getPool } from '../../config/database';
+import { loadConfig, setConfig } from '../../config/index';
+import { AptosEvent, InMemoryChainAdapter, QUEST_EVENT_TYPES, QuestEventType, createInMemoryAdapter, setChainAdapter, toQuestEvent } from '../chain';
+import * as questIndexerService from '../questIndexer.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+// Quest contract events recorded from a testnet fullnode's REST API, by handle.
+const FIXTURES: Record<QuestEventType, AptosEvent[]> = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'questEvents.json'), 'utf8'));
+
+const address = (suffix: string) => `0x${suffix.padStart(64, '0')}`;
+const ALICE = address('a11ce');
+const BOB = address('b0b');
+const DAVE = address('da7e');
+
+const CAROL = address('5e7');
+
+// Dave signed up with a wallet rather than an Aptos address; Carol, the creator of quest 2, has not signed up.
+const SIGNED_UP = [
+  { id: 'alice', aptos_address: ALICE, wallet_address: null },
+  { id: 'bob', aptos_address: BOB, wallet_address: null },
+  { id: 'dave', aptos_address: null, wallet_address: DAVE },
+];
+
+const GROUP_ID = 7;
+
+interface StoredEvent {
+  event_type: string;
+  sequence_number: number;
+  version: string;
+  chain_quest_id: number;
+  account_address: string;
+  data: Record<string, unknown>;
+}
+
+interface MirroredQuest {
+  id: string;
+  group_id: number;
+  creator_id: string;
+  title: string;
+  reward: number;
+  status: string;
+}
+
+// The indexer's tables and the quests it mirrors, kept across runs like the database would.
+let events: StoredEvent[];
+let cursors: Map<string, { next: number; onChain: number; syncedAt: Date | null }>;
+let quests: Map<number, MirroredQuest>;
+let participants: Map<string, Map<string, string>>;
+let users: { id: string; aptos_address: string | null; wallet_address: string | null }[];
+
+// Answers the indexer's statements from the tables above.
+const routeStore = () => {
+  mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.includes('SELECT next_sequence_number FROM chain_quest_cursors')) {
+      const cursor = cursors.get(params[0]);
+      return { rows: cursor ? [{ next_sequence_number: String(cursor.next) }] : [] };
+    }
+    if (sql.includes('INSERT INTO chain_quest_cursors')) {
+      if (!cursors.has(params[0])) {
+        cursors.set(params[0], { next: 0, onChain: 0, syncedAt: null });
+      }
+      return { rows: [] };
+    }
+    if (sql.includes('UPDATE chain_quest_cursors')) {
+      cursors.set(params[0], { next: params[1], onChain: params[2], syncedAt: new Date() });
+      return { rowCount: 1 };
+    }
+    if (sql.includes('SELECT sequence_number, version FROM chain_quest_events')) {
+      const [type, start, end] = params;
+      const rows = events
+        .filter((event) => event.event_type === type && event.sequence_number >= start && event.sequence_number < end)
+        .sort((a, b) => a.sequence_number - b.sequence_number)
+        .map((event) => ({ sequence_number: String(event.sequence_number), version: event.version }));
+      return { rows };
+    }
+    if (sql.includes('DELETE FROM chain_quest_events')) {
+      const [type, from] = params;
+      const removed = events.filter((event) => event.event_type === type && event.sequence_number >= from);
+      events = events.filter((event) => !removed.includes(event));
+      return { rows: removed.map((event) => ({ chain_quest_id: String(event.chain_quest_id) })), rowCount: removed.length };
+    }
+    if (sql.includes('INSERT INTO chain_quest_events')) {
+      const [type, sequenceNumber, version, chainQuestId, account, data] = params;
+      if (events.some((event) => event.event_type === type && event.sequence_number === sequenceNumber)) {
+        return { rowCount: 0 };
+      }
+      events.push({ event_type: type, sequence_number: sequenceNumber, version, chain_quest_id: chainQuestId, account_address: account, data });
+      return { rowCount: 1 };
+    }
+    if (sql.includes('SELECT event_type, account_address, data FROM chain_quest_events')) {
+      const rows = events
+        .filter((event) => event.chain_quest_id === params[0])
+        .sort((a, b) => Number(a.version) - Number(b.version));
+      return { rows };
+    }
+    if (sql.includes('NOT EXISTS (SELECT 1 FROM quests q')) {
+      const rows = events
+        .filter((event) => event.event_type === 'quest_created' && !quests.has(event.chain_quest_id))
+        .filter((event) => users.some((user) => [user.aptos_address, user.wallet_address].includes(event.account_address)))
+        .map((event) => ({ chain_quest_id: String(event.chain_quest_id) }));
+      return { rows };
+    }
+    if (sql.includes('FROM users')) {
+      const addresses: string[] = params[0];
+      return { rows: users.filter((user) => addresses.includes(user.aptos_address!) || addresses.includes(user.wallet_address!)) };
+    }
+    if (sql.includes('INSERT INTO quests')) {
+      const [chainQuestId, groupId, creatorId, title, reward, status] = params;
+      const existing = quests.get(chainQuestId);
+      quests.set(chainQuestId, existing
+        ? { ...existing, status }
+        : { id: `quest-${chainQuestId}`, group_id: groupId, creator_id: creatorId, title, reward, status });
+      return { rows: [{ id: quests.get(chainQuestId)!.id }] };
+    }
+    if (sql.includes('DELETE FROM quests')) {
+      const quest = quests.get(params[0]);
+      if (quest) {
+        quests.delete(params[0]);
+        participants.delete(quest.id);
+      }
+      return { rowCount: quest ? 1 : 0 };
+    }
+    if (sql.includes('DELETE FROM quest_participants')) {
+      const [questId, keep] = params;
+      const current = participants.get(questId) ?? new Map();
+      participants.set(questId, new Map([...current].filter(([userId]) => keep.includes(userId))));
+      return { rowCount: 0 };
+    }
+    if (sql.includes('INSERT INTO quest_participants')) {
+      const [questId, userIds, statuses] = params;
+      const current = participants.get(questId) ?? new Map();
+      userIds.forEach((userId: string, index: number) => current.set(userId, statuses[index]));
+      participants.set(questId, current);
+      return { rowCount: userIds.length };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+};
+
+// Each mirrored quest with its participants' statuses, by on-chain ID.
+const mirrored = () => Object.fromEntries([...quests].map(([chainQuestId, quest]) => [
+  chainQuestId,
+  { ...quest, participants: Object.fromEntries(participants.get(quest.id) ?? []) },
+]));
+
+let chain: InMemoryChainAdapter;
+
+const replayFixtures = () => {
+  for (const type of QUEST_EVENT_TYPES) {
+    chain.replayQuestEvents(FIXTURES[type].map((event) => toQuestEvent(type, event, 8)));
+  }
+};
+
+const configure = (env: Record<string, string> = {}) =>
+  setConfig(loadConfig({ NODE_ENV: 'test', CHAIN_QUEST_GROUP_ID: String(GROUP_ID), ...env }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  configure();
+  chain = createInMemoryAdapter();
+  setChainAdapter(chain);
+  events = [];
+  cursors = new Map();
+  quests = new Map();
+  participants = new Map();
+  users = [...SIGNED_UP];
+  routeStore();
+});
+
+afterAll(() => {
+  setChainAdapter(undefined);
+  setConfig(undefined);
+});
+
+describe('Quest Indexer Service', () => {
+  describe('syncQuestEvents', () => {
+    it('should mirror replayed on-chain quests and their participants into the configured group', async () => {
+      replayFixtures();
+
+      const summary = await questIndexerService.syncQuestEvents();
+
+      expect(summary).toEqual({ indexed: 8, rolledBack: 0, questsSynced: 3 });
+      expect(mirrored()).toEqual({
+        0: {
+          id: 'quest-0', group_id: GROUP_ID, creator_id: 'alice', title: 'Sunrise hike', reward: 50, status: 'active',
+          // Completing on-chain paid Bob's reward there.
+          participants: { bob: 'verified', dave: 'joined' },
+        },
+        1: {
+          id: 'quest-1', group_id: GROUP_ID, creator_id: 'alice', title: 'Harbour cleanup', reward: 25, status: 'cancelled',
+          participants: { bob: 'joined' },
+        },
+      });
+      expect(events).toHaveLength(8);
+      expect(Object.fromEntries([...cursors].map(([type, cursor]) => [type, cursor.next]))).toEqual({
+        quest_created: 3, quest_joined: 3, quest_completed: 1, quest_canceled: 1,
+      });
+    });
+
+    it('should resume from its stored cursors without applying an event twice', async () => {
+      replayFixtures();
+      await questIndexerService.syncQuestEvents();
+      mockQuery.mockClear();
+
+      expect(await questIndexerService.syncQuestEvents()).toEqual({ indexed: 0, rolledBack: 0, questsSynced: 0 });
+      expect(statementsMatching('INSERT INTO chain_quest_events')).toHaveLength(0);
+
+      chain.emitQuestEvent({ type: 'quest_completed', questId: 0, completer: DAVE, rewardPaid: 50 });
+      const getQuestEvents = jest.spyOn(chain, 'getQuestEvents');
+
+      expect(await questIndexerService.syncQuestEvents()).toEqual({ indexed: 1, rolledBack: 0, questsSynced: 1 });
+      expect(getQuestEvents).toHaveBeenCalledWith('quest_completed', 1, 100);
+      expect(mirrored()[0].participants).toEqual({ bob: 'verified', dave: 'verified' });
+      expect(mirrored()[1].participants).toEqual({ bob: 'joined' });
+    });
+
+    it('should list a quest skipped for its creator once they sign up', async () => {
+      replayFixtures();
+      await questIndexerService.syncQuestEvents();
+      expect(mirrored()[2]).toBeUndefined();
+
+      users.push({ id: 'carol', aptos_address: CAROL, wallet_address: null });
+
+      expect(await questIndexerService.syncQuestEvents()).toEqual({ indexed: 0, rolledBack: 0, questsSynced: 1 });
+      expect(mirrored()[2]).toEqual(expect.objectContaining({ creator_id: 'carol', title: 'Rooftop jam', status: 'active' }));
+      expect(await questIndexerService.syncQuestEvents()).toEqual({ indexed: 0, rolledBack: 0, questsSynced: 0 });
+    });
+
+    it('should drop events the chain rolled back and rebuild the quests they touched', async () => {
+      replayFixtures();
+      await questIndexerService.syncQuestEvents();
+
+      // The chain forgets Dave's and Bob's later joins, Bob's completion and the cancellation,
+      // then Dave joins quest 0 again in a new transaction.
+      chain.rollbackQuestEvents('quest_joined', 1);
+      chain.rollbackQuestEvents('quest_completed', 0);
+      chain.rollbackQuestEvents('quest_canceled', 0);
+      chain.emitQuestEvent({ type: 'quest_joined', questId: 0, participant: DAVE });
+
+      const summary = await questIndexerService.syncQuestEvents();
+
+      expect(summary).toEqual({ indexed: 1, rolledBack: 4, questsSynced: 2 });
+      expect(mirrored()).toEqual({
+        0: expect.objectContaining({ status: 'active', participants: { bob: 'joined', dave: 'joined' } }),
+        1: expect.objectContaining({ status: 'active', participants: {} }),
+      });
+      expect(events.find((event) => event.event_type === 'quest_joined' && event.sequence_number === 1)?.version)
+        .not.toBe(FIXTURES.quest_joined[1].version);
+    });
+
+    it('should delete a mirrored quest whose creation was rolled back', async () => {
+      replayFixtures();
+      await questIndexerService.syncQuestEvents();
+
+      chain.rollbackQuestEvents('quest_created', 1);
+      chain.rollbackQuestEvents('quest_joined', 2);
+      chain.rollbackQuestEvents('quest_canceled', 0);
+      await questIndexerService.syncQuestEvents();
+
+      expect(Object.keys(mirrored())).toEqual(['0']);
+      expect(statementsMatching('DELETE FROM quests').map(([, params]) => params)).toContainEqual([1]);
+    });
+
+    it('should look past the newest page for where a deep rollback starts', async () => {
+      configure({ QUEST_INDEXER_BATCH_SIZE: '2' });
+      replayFixtures();
+      await questIndexerService.syncQuestEvents();
+      await questIndexerService.syncQuestEvents();
+      expect(cursors.get('quest_joined')?.next).toBe(3);
+
+      chain.rollbackQuestEvents('quest_joined', 0);
+      chain.emitQuestEvent({ type: 'quest_joined', questId: 0, participant: BOB });
+
+      const summary = await questIndexerService.syncQuestEvents();
+
+      expect(summary.rolledBack).toBe(3);
+      expect(cursors.get('quest_joined')?.next).toBe(1);
+      expect(mirrored()[0].participants).toEqual({ bob: 'verified' });
+      expect(mirrored()[1].participants).toEqual({});
+    });
+
+    it('should write nothing when another run moved the cursor while this one read the chain', async () => {
+      replayFixtures();
+      cursors.set('quest_created', { next: 0, onChain: 0, syncedAt: null });
+      const answer = mockQuery.getMockImplementation()!;
+      mockQuery.mockImplementation(async (sql: string, params: any[]) =>
+        sql.includes('FOR UPDATE') && params[0] === 'quest_created' ? { rows: [{ next_sequence_number: '3' }] } : answer(sql, params));
+
+      const summary = await questIndexerService.syncQuestEvents();
+
+      expect(events.filter((event) => event.event_type === 'quest_created')).toHaveLength(0);
+      expect(statementsMatching('ROLLBACK')).toHaveLength(1);
+      expect(summary.indexed).toBe(5);
+    });
+
+    it('should refuse to run without a group for on-chain quests', async () => {
+      setConfig(loadConfig({ NODE_ENV: 'test' }));
+
+      await expect(questIndexerService.syncQuestEvents()).rejects.toThrow('QUEST_INDEXER_DISABLED');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getQuestIndexerStatus', () => {
+    it('should report how far each handle is behind and how long since the stalest one synced', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { event_type: 'quest_created', next_sequence_number: '3', chain_event_count: '5', synced_at: new Date(), seconds_since_sync: '4.5' },
+          { event_type: 'quest_joined', next_sequence_number: '7', chain_event_count: '7', synced_at: new Date(), seconds_since_sync: '12' },
+          { event_type: 'quest_completed', next_sequence_number: '1', chain_event_count: '1', synced_at: new Date(), seconds_since_sync: '3' },
+          { event_type: 'quest_canceled', next_sequence_number: '0', chain_event_count: '0', synced_at: new Date(), seconds_since_sync: '3' },
+        ],
+      });
+
+      const status = await questIndexerService.getQuestIndexerStatus();
+
+      expect(status).toEqual(expect.objectContaining({ enabled: true, behind: 2, lag_seconds: 12 }));
+      expect(status.handles[0]).toEqual(expect.objectContaining({ event_type: 'quest_created', indexed: 3, on_chain: 5, behind: 2 }));
+    });
+
+    it('should report no lag until every handle has synced', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const status = await questIndexerService.getQuestIndexerStatus();
+
+      expect(status).toEqual(expect.objectContaining({ behind: 0, lag_seconds: null }));
+      expect(status.handles.map((handle) => handle.synced_at)).toEqual([null, null, null, null]);
+    });
+  });
+});
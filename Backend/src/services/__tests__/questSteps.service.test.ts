@@ -0,0 +1,253 @@
+import { getPool } from '../../config/database';
+import * as questStepsService from '../questSteps.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const step = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  quest_id: 'quest1',
+  position: 2,
+  verification_method: 'review',
+  required_evidence: [],
+  latitude: null,
+  longitude: null,
+  geofence_radius_m: 100,
+  quest_status: 'active',
+  expires_at: null,
+  reward: '100',
+  ...overrides,
+});
+
+// How the participant's steps stand once this one is stored, as settleParticipant counts them.
+const tally = (unverified: number, submitted = 0, rejected = 0) => ({
+  unverified: String(unverified),
+  submitted: String(submitted),
+  rejected: String(rejected),
+});
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+describe('Quest Steps Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('submitQuestStep', () => {
+    const routeQueries = ({
+      stepRow = step() as unknown,
+      participant = { status: 'joined', deadline_at: null } as unknown,
+      earlierUnverified = '0',
+      previousStatus = null as string | null,
+      steps = tally(1, 1),
+    } = {}) => {
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('JOIN quests q ON q.id = s.quest_id')) {
+          return { rows: stepRow ? [stepRow] : [] };
+        }
+        if (sql.includes('FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE')) {
+          return { rows: participant ? [participant] : [] };
+        }
+        if (sql.includes('s.position < $3')) {
+          return { rows: [{ count: earlierUnverified }] };
+        }
+        if (sql.includes('SELECT status FROM quest_step_progress')) {
+          return { rows: previousStatus ? [{ status: previousStatus }] : [] };
+        }
+        if (sql.includes('INSERT INTO quest_check_ins')) {
+          return { rows: [{ id: 3, status: params[10], auto_verified: params[12] }] };
+        }
+        if (sql.includes('INSERT INTO quest_step_progress')) {
+          return { rows: [{ step_id: params[0], user_id: params[1], status: params[2], check_in_id: params[4] }] };
+        }
+        if (sql.includes('AS unverified')) {
+          return { rows: [steps] };
+        }
+        if (sql.includes('UPDATE quest_escrows')) {
+          return { rows: [{ id: 1 }] };
+        }
+        if (sql.includes('INSERT INTO reward_payouts')) {
+          return { rows: [{ id: 1, amount: '100', status: 'pending' }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should submit a review step and leave the participant awaiting review', async () => {
+      routeQueries();
+
+      const result = await questStepsService.submitQuestStep('quest1', 1, 7, 'user1', { evidence: { text: 'Done' } });
+
+      expect(result).toEqual(expect.objectContaining({ questCompleted: false, payout: null, checkIn: null }));
+      expect(result.progress).toEqual(expect.objectContaining({ status: 'submitted' }));
+      expect(statementsMatching('UPDATE quest_participants SET status = $3')[0][1]).toEqual(['quest1', 'user1', 'submitted']);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should verify an auto step straight away and keep the participant joined for the next', async () => {
+      routeQueries({ stepRow: step({ verification_method: 'auto', required_evidence: ['text'] }), steps: tally(1) });
+
+      const result = await questStepsService.submitQuestStep('quest1', 1, 7, 'user1', { evidence: { text: 'Done' } });
+
+      expect(result.progress).toEqual(expect.objectContaining({ status: 'verified' }));
+      expect(statementsMatching('UPDATE quest_participants SET status = $3')[0][1]).toEqual(['quest1', 'user1', 'joined']);
+    });
+
+    it('should verify the participant and queue the reward once their last step is verified', async () => {
+      routeQueries({ stepRow: step({ verification_method: 'auto' }), steps: tally(0) });
+
+      const result = await questStepsService.submitQuestStep('quest1', 1, 7, 'user1', {});
+
+      expect(result).toEqual(expect.objectContaining({ questCompleted: true, payout: expect.objectContaining({ id: 1 }) }));
+      expect(statementsMatching("SET status = 'verified'")[0][1]).toEqual(['quest1', 'user1']);
+      expect(statementsMatching('INSERT INTO reward_payouts')[0][1]).toEqual(['quest1', 'user1', 100]);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should verify a check-in step whose check-in passes, against the step\'s geofence', async () => {
+      routeQueries({ stepRow: step({ verification_method: 'check_in', latitude: 51.5007, longitude: -0.1246 }), steps: tally(1) });
+
+      const result = await questStepsService.submitQuestStep('quest1', 1, 7, 'user1', {
+        location: { latitude: 51.5007, longitude: -0.1246, accuracy: 10, recordedAt: new Date() },
+      });
+
+      expect(result.checkIn).toEqual(expect.objectContaining({ status: 'passed', auto_verified: true }));
+      expect(result.progress).toEqual(expect.objectContaining({ status: 'verified', check_in_id: 3 }));
+      expect(statementsMatching('INSERT INTO quest_check_ins')[0][1][15]).toBe(7);
+    });
+
+    it('should store a rejected check-in but leave the step as it was', async () => {
+      routeQueries({ stepRow: step({ verification_method: 'check_in', latitude: 51.5007, longitude: -0.1246 }) });
+
+      const result = await questStepsService.submitQuestStep('quest1', 1, 7, 'user1', {
+        location: { latitude: 48.8584, longitude: 2.2945, accuracy: 10, recordedAt: new Date() },
+      });
+
+      expect(result).toEqual(expect.objectContaining({ progress: null, questCompleted: false }));
+      expect(result.checkIn?.status).toBe('rejected');
+      expect(statementsMatching('INSERT INTO quest_step_progress')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it.each([
+      ['STEP_NOT_FOUND', { stepRow: null }],
+      ['QUEST_EXPIRED', { stepRow: step({ expires_at: new Date(Date.now() - 1000) }) }],
+      ['QUEST_NOT_ACTIVE', { stepRow: step({ quest_status: 'cancelled' }) }],
+      ['NOT_A_PARTICIPANT', { participant: null }],
+      ['COMPLETION_DEADLINE_PASSED', { participant: { status: 'joined', deadline_at: new Date(Date.now() - 1000) } }],
+      ['STEP_LOCKED', { earlierUnverified: '1' }],
+      ['STEP_ALREADY_SUBMITTED', { previousStatus: 'submitted' }],
+      ['STEP_ALREADY_SUBMITTED', { previousStatus: 'verified' }],
+      ['MISSING_EVIDENCE', { stepRow: step({ required_evidence: ['photo'] }) }],
+      ['LOCATION_REQUIRED', { stepRow: step({ verification_method: 'check_in', latitude: 51.5, longitude: -0.12 }) }],
+    ])('should throw %s and roll back', async (code, scenario) => {
+      routeQueries(scenario);
+
+      await expect(questStepsService.submitQuestStep('quest1', 1, 7, 'user1', {})).rejects.toThrow(code);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(statementsMatching('INSERT INTO quest_step_progress')).toHaveLength(0);
+    });
+  });
+
+  describe('reviewQuestStep', () => {
+    const routeQueries = ({ questStatus = 'active', progressStatus = 'submitted', steps = tally(1) } = {}) => {
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('FROM quests WHERE id = $1 AND group_id = $2')) {
+          return { rows: [{ creator_id: 'creator1', status: questStatus, reward: '100' }] };
+        }
+        if (sql.includes('SELECT 1 FROM quest_steps')) {
+          return { rows: [{}] };
+        }
+        if (sql.includes('SELECT status FROM quest_step_progress')) {
+          return { rows: progressStatus ? [{ status: progressStatus }] : [] };
+        }
+        if (sql.includes('UPDATE quest_step_progress')) {
+          return { rows: [{ step_id: params[0], user_id: params[1], status: params[2], review_reason: params[4] }] };
+        }
+        if (sql.includes('AS unverified')) {
+          return { rows: [steps] };
+        }
+        if (sql.includes('UPDATE quest_escrows')) {
+          return { rows: [{ id: 1 }] };
+        }
+        if (sql.includes('INSERT INTO reward_payouts')) {
+          return { rows: [{ id: 1, amount: '100', status: 'pending' }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should verify the step and let the participant carry on', async () => {
+      routeQueries();
+
+      const result = await questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'creator1', 'approve');
+
+      expect(result).toEqual(expect.objectContaining({ questCompleted: false, payout: null }));
+      expect(result.progress).toEqual(expect.objectContaining({ status: 'verified' }));
+      expect(statementsMatching('UPDATE quest_participants SET status = $3')[0][1]).toEqual(['quest1', 'user1', 'joined']);
+      expect(statementsMatching('INSERT INTO reputation_events')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should complete the quest and queue the reward when approving the last step', async () => {
+      routeQueries({ steps: tally(0) });
+
+      const result = await questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'creator1', 'approve');
+
+      expect(result).toEqual(expect.objectContaining({ questCompleted: true, payout: expect.objectContaining({ id: 1 }) }));
+      expect(statementsMatching('FROM quest_escrows e')).toHaveLength(0);
+    });
+
+    it('should record the reason and let the participant resubmit on rejection', async () => {
+      routeQueries({ steps: tally(2, 0, 1) });
+
+      const result = await questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'creator1', 'reject', 'Wrong mural');
+
+      expect(result.progress).toEqual(expect.objectContaining({ status: 'rejected', review_reason: 'Wrong mural' }));
+      expect(statementsMatching('UPDATE quest_participants SET status = $3')[0][1]).toEqual(['quest1', 'user1', 'rejected']);
+      expect(statementsMatching('INSERT INTO reputation_events')[0][1]).toEqual([
+        'user1', 'submission_rejected', -2, { questId: 'quest1', groupId: 1, stepId: 7 },
+      ]);
+    });
+
+    it('should release what was held back once a participant of a cancelled quest is reviewed', async () => {
+      routeQueries({ questStatus: 'cancelled', steps: tally(2, 0, 1) });
+
+      await questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'creator1', 'reject', 'Too late');
+
+      expect(statementsMatching('FROM quest_escrows e')).toHaveLength(1);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should require a reason to reject', async () => {
+      await expect(questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'creator1', 'reject')).rejects.toThrow('REASON_REQUIRED');
+      expect(mockConnect).not.toHaveBeenCalled();
+    });
+
+    it('should throw FORBIDDEN when the reviewer is not the quest\'s creator', async () => {
+      routeQueries();
+
+      await expect(questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'someone', 'approve')).rejects.toThrow('FORBIDDEN');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should throw STEP_NOT_SUBMITTED when nothing awaits review', async () => {
+      routeQueries({ progressStatus: 'verified' });
+
+      await expect(questStepsService.reviewQuestStep('quest1', 1, 7, 'user1', 'creator1', 'approve')).rejects.toThrow('STEP_NOT_SUBMITTED');
+      expect(statementsMatching('UPDATE quest_step_progress')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+});
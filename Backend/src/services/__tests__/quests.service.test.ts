@@ -1,18 +1,12 @@
 import { getPool } from '../../config/database';
-import { AptosService } from '../aptos.service';
+import { getClusterCellSize } from '../../utils/geo';
 import * as questsService from '../quests.service';
 
 // Mock dependencies
-jest.mock('../../db/db', () => ({
+jest.mock('../../config/database', () => ({
   getPool: jest.fn(),
 }));
 
-jest.mock('../aptos.service', () => ({
-  AptosService: {
-    distributeQuestRewards: jest.fn(),
-  },
-}));
-
 const mockQuery = jest.fn();
 const mockConnect = jest.fn(() => ({
   query: mockQuery,
@@ -21,6 +15,9 @@ const mockConnect = jest.fn(() => ({
 
 (getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
 
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
 
 describe('Quests Service', () => {
   beforeEach(() => {
@@ -28,6 +25,24 @@ describe('Quests Service', () => {
   });
 
   describe('createQuest', () => {
+    const basePayload = {
+      title: 'Funded Quest',
+      description: 'Test Desc',
+      groupId: 1,
+      creatorId: 'user1',
+      reward: 100,
+      currency: 'VIBE',
+      type: 'social',
+    };
+
+    // Answers each statement with the result of the first fragment it contains.
+    const routeQueries = (results: Record<string, { rows?: unknown[]; rowCount?: number }>) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        const fragment = Object.keys(results).find((key) => sql.includes(key));
+        return fragment ? { rows: [], ...results[fragment] } : { rows: [] };
+      });
+    };
+
     it('should create and return a new quest', async () => {
       const payload = {
         title: 'Test Quest',
@@ -40,12 +55,134 @@ describe('Quests Service', () => {
         // Add other required fields if necessary
       };
       const expectedQuest = { id: 'quest1', ...payload };
-      mockQuery.mockResolvedValue({ rows: [expectedQuest], rowCount: 1 });
+      const escrow = { id: 1, quest_id: 'quest1', amount_locked: '100' };
+      routeQueries({
+        'INSERT INTO quests': { rows: [expectedQuest] },
+        'UPDATE users SET wallet_balance': { rowCount: 1 },
+        'INSERT INTO wallet_transactions': { rows: [{ id: 1 }] },
+        'INSERT INTO quest_escrows': { rows: [escrow] },
+      });
 
       const result = await questsService.createQuest(payload);
-      expect(result).toEqual(expectedQuest);
-            const queryArgs = [payload.title, payload.description, payload.groupId, payload.creatorId, payload.reward, payload.currency, payload.type];
+      expect(result).toEqual({ ...expectedQuest, escrow, steps: [], prerequisites: [] });
+      const queryArgs = [payload.groupId, payload.creatorId, payload.title, payload.description, payload.reward, payload.currency, payload.type, null, null, 100, false, [], null, 1, null, null, null, undefined];
       expect(mockQuery).toHaveBeenCalledWith(expect.any(String), queryArgs);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should lock the reward of every winner from the creator\'s wallet', async () => {
+      routeQueries({
+        'INSERT INTO quests': { rows: [{ id: 'quest1' }] },
+        'UPDATE users SET wallet_balance': { rowCount: 1 },
+        'INSERT INTO quest_escrows': { rows: [{ id: 1 }] },
+      });
+
+      await questsService.createQuest({ ...basePayload, reward: 10, max_participants: 5, max_winners: 3 });
+
+      expect(statementsMatching('UPDATE users SET wallet_balance')[0][1]).toEqual([30, 'user1']);
+      expect(statementsMatching('INSERT INTO quest_escrows')[0][1]).toEqual(['quest1', 'creator', 'user1', 1, 30]);
+    });
+
+    it('should throw INSUFFICIENT_FUNDS and roll back when the wallet cannot cover the rewards', async () => {
+      routeQueries({
+        'INSERT INTO quests': { rows: [{ id: 'quest1' }] },
+        'UPDATE users SET wallet_balance': { rowCount: 0 },
+      });
+
+      await expect(questsService.createQuest(basePayload)).rejects.toThrow('INSUFFICIENT_FUNDS');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(statementsMatching('INSERT INTO quest_escrows')).toHaveLength(0);
+    });
+
+    it('should throw TREASURY_FUNDING_FORBIDDEN and roll back when a plain member asks for the treasury', async () => {
+      routeQueries({
+        'INSERT INTO quests': { rows: [{ id: 'quest1' }] },
+        'FROM feed_groups fg': { rows: [{ creator_id: 'someone-else', role: 'member' }] },
+      });
+
+      await expect(questsService.createQuest({ ...basePayload, funding_source: 'treasury' })).rejects.toThrow('TREASURY_FUNDING_FORBIDDEN');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(statementsMatching('UPDATE feed_groups SET treasury_balance')).toHaveLength(0);
+    });
+
+    it('should store a chain quest\'s steps in order and its prerequisites', async () => {
+      routeQueries({
+        'INSERT INTO quests': { rows: [{ id: 'quest1' }] },
+        'FROM achievements WHERE': { rows: [{ quests: '1', achievements: '1' }] },
+        'UPDATE users SET wallet_balance': { rowCount: 1 },
+        'INSERT INTO quest_escrows': { rows: [{ id: 1 }] },
+      });
+
+      await questsService.createQuest({
+        ...basePayload,
+        steps: [
+          { title: 'Find the mural', verification_method: 'check_in', latitude: 40.7, longitude: -74 },
+          { title: 'Describe it', verification_method: 'auto', required_evidence: ['text'] },
+        ],
+        prerequisites: [{ quest_id: 'quest0' }, { achievement_id: 3 }, { min_reputation: 50 }],
+      });
+
+      const steps = statementsMatching('INSERT INTO quest_steps');
+      expect(steps.map(([, params]) => params.slice(1, 3))).toEqual([[1, 'Find the mural'], [2, 'Describe it']]);
+      expect(steps[0][1][8]).toBe(100);
+      expect(statementsMatching('INSERT INTO quest_prerequisites')[0][1]).toEqual(['quest1', ['quest0', null, null], [null, 3, null], [null, null, 50]]);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should throw INVALID_PREREQUISITE and roll back when a required quest is not in the group', async () => {
+      routeQueries({
+        'INSERT INTO quests': { rows: [{ id: 'quest1' }] },
+        'FROM achievements WHERE': { rows: [{ quests: '0', achievements: '0' }] },
+      });
+
+      await expect(questsService.createQuest({ ...basePayload, prerequisites: [{ quest_id: 'elsewhere' }] })).rejects.toThrow('INVALID_PREREQUISITE');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(statementsMatching('INSERT INTO quest_prerequisites')).toHaveLength(0);
+    });
+  });
+
+  describe('findNearbyQuests', () => {
+    const search = { latitude: 51.5, longitude: -0.12, radius: 2000, limit: 50 };
+
+    it('should search within the radius, passing longitude before latitude', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await questsService.findNearbyQuests(1, search);
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('ST_DWithin(q.location, origin.point, $4)');
+      expect(sql).toContain('ORDER BY distance');
+      expect(values).toEqual([1, -0.12, 51.5, 2000, 50]);
+    });
+
+    it('should search within the bounding box instead of the radius when one is given', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await questsService.findNearbyQuests(1, { ...search, bbox: { west: -1, south: 51, east: 1, north: 52 } });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).not.toContain('ST_DWithin');
+      expect(sql).toContain('ST_MakeEnvelope($4, $5, $6, $7, 4326)');
+      expect(values).toEqual([1, -0.12, 51.5, -1, 51, 1, 52, 50]);
+    });
+  });
+
+  describe('clusterQuests', () => {
+    it('should snap quests to a grid sized for the zoom level and shape each cluster', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [{ count: 1, latitude: 51.5, longitude: -0.12, west: -0.12, south: 51.5, east: -0.12, north: 51.5, quest_id: 'quest1' }],
+      });
+
+      const clusters = await questsService.clusterQuests(1, { west: -1, south: 51, east: 1, north: 52 }, 10);
+
+      expect(mockQuery.mock.calls[0][1]).toEqual([1, -1, 51, 1, 52, getClusterCellSize(10)]);
+      expect(clusters).toEqual([{
+        count: 1,
+        latitude: 51.5,
+        longitude: -0.12,
+        bounds: { west: -0.12, south: 51.5, east: -0.12, north: 51.5 },
+        questId: 'quest1',
+      }]);
     });
   });
 
@@ -69,10 +206,40 @@ describe('Quests Service', () => {
   describe('deleteQuest', () => {
     it('should return true if quest is deleted by creator', async () => {
       mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'user1' }], rowCount: 1 }); // Verification
+      mockQuery.mockResolvedValueOnce({}); // BEGIN
+      mockQuery.mockResolvedValueOnce({ rows: [] }); // No escrow to refund
       mockQuery.mockResolvedValueOnce({ rowCount: 1 }); // Deletion
 
       const result = await questsService.deleteQuest('quest1', 1, 'user1');
       expect(result).toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should refund everything left in escrow, holding nothing back, before deleting', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT creator_id, chain_quest_id FROM quests')) {
+          return { rows: [{ creator_id: 'user1', chain_quest_id: null }] };
+        }
+        if (sql.includes('FROM quest_escrows e')) {
+          return {
+            rows: [{
+              id: 7, funding_source: 'creator', funder_id: 'user1', group_id: 1, reward: '10', title: 'Quest',
+              amount_locked: '50', amount_paid: '10', amount_refunded: '0', awaiting_review: '2',
+            }],
+          };
+        }
+        if (sql.includes('DELETE FROM quests')) {
+          return { rowCount: 1 };
+        }
+        return { rows: [] };
+      });
+
+      await questsService.deleteQuest('quest1', 1, 'user1');
+
+      expect(statementsMatching('UPDATE users SET wallet_balance')[0][1]).toEqual([40, 'user1']);
+      const statements = mockQuery.mock.calls.map(([sql]) => sql);
+      expect(statements.findIndex((sql) => sql.includes('UPDATE quest_escrows')))
+        .toBeLessThan(statements.findIndex((sql) => sql.includes('DELETE FROM quests')));
     });
 
     it('should throw FORBIDDEN error if not deleted by creator', async () => {
@@ -80,6 +247,13 @@ describe('Quests Service', () => {
       await expect(questsService.deleteQuest('quest1', 1, 'user1')).rejects.toThrow('FORBIDDEN');
     });
 
+    it('should throw QUEST_ON_CHAIN for a quest created on-chain, leaving it to the indexer', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'user1', chain_quest_id: '4' }], rowCount: 1 });
+
+      await expect(questsService.deleteQuest('quest1', 1, 'user1')).rejects.toThrow('QUEST_ON_CHAIN');
+      expect(statementsMatching('DELETE FROM quests')).toHaveLength(0);
+    });
+
     it('should return null if quest to delete is not found', async () => {
       mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 });
       const result = await questsService.deleteQuest('quest1', 1, 'user1');
@@ -87,24 +261,164 @@ describe('Quests Service', () => {
     });
   });
 
+  describe('updateQuest', () => {
+    it('should throw QUEST_ON_CHAIN for a quest created on-chain, leaving it to the indexer', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'user1', chain_quest_id: '4' }], rowCount: 1 });
+
+      await expect(questsService.updateQuest('quest1', 1, 'user1', { title: 'Renamed' })).rejects.toThrow('QUEST_ON_CHAIN');
+      expect(statementsMatching('UPDATE quests')).toHaveLength(0);
+    });
+  });
+
+  describe('cancelQuest', () => {
+    beforeEach(() => {
+      (getPool as jest.Mock).mockReturnValue({ connect: mockConnect });
+    });
+
+    const routeQueries = (questRow: Record<string, unknown> | null) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM quests WHERE id = $1 AND group_id = $2 FOR UPDATE')) {
+          return { rows: questRow ? [questRow] : [] };
+        }
+        if (sql.includes("SET status = 'cancelled'")) {
+          return { rows: [{ id: 'quest1', status: 'cancelled' }] };
+        }
+        if (sql.includes('FROM quest_escrows e')) {
+          return {
+            rows: [{
+              id: 7, funding_source: 'creator', funder_id: 'user1', group_id: 1, reward: '10', title: 'Quest',
+              amount_locked: '30', amount_paid: '0', amount_refunded: '0', awaiting_review: '0',
+            }],
+          };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should cancel the quest and refund its whole escrow when nobody awaits review', async () => {
+      routeQueries({ creator_id: 'user1', status: 'active' });
+
+      const result = await questsService.cancelQuest('quest1', 1, 'user1');
+
+      expect(result).toEqual({ quest: { id: 'quest1', status: 'cancelled' }, refunded: 30 });
+      expect(statementsMatching('UPDATE users SET wallet_balance')[0][1]).toEqual([30, 'user1']);
+      expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual([7, 30, true]);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it.each([
+      ['QUEST_NOT_FOUND', null],
+      ['FORBIDDEN', { creator_id: 'user2', status: 'active' }],
+      ['QUEST_NOT_ACTIVE', { creator_id: 'user1', status: 'expired' }],
+    ])('should throw %s and roll back', async (code, questRow) => {
+      routeQueries(questRow);
+
+      await expect(questsService.cancelQuest('quest1', 1, 'user1')).rejects.toThrow(code);
+      expect(statementsMatching('quest_escrows')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('getCompletionDeadline', () => {
+    const joinedAt = new Date('2030-01-01T00:00:00Z');
+
+    it('should end the completion window after the given minutes', () => {
+      expect(questsService.getCompletionDeadline({ completion_window_minutes: 90, expires_at: null }, joinedAt))
+        .toEqual(new Date('2030-01-01T01:30:00Z'));
+    });
+
+    it('should never run past the quest\'s expiry', () => {
+      const expiresAt = new Date('2030-01-01T01:00:00Z');
+      expect(questsService.getCompletionDeadline({ completion_window_minutes: 90, expires_at: expiresAt }, joinedAt)).toEqual(expiresAt);
+    });
+
+    it('should be null when the quest has neither', () => {
+      expect(questsService.getCompletionDeadline({ completion_window_minutes: null, expires_at: null }, joinedAt)).toBeNull();
+    });
+  });
+
   describe('joinQuest', () => {
+    const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+    const anHourAgo = () => new Date(Date.now() - 60 * 60 * 1000);
+
+    const quest = (overrides: Record<string, unknown> = {}) => ({
+      creator_id: 'user2',
+      status: 'active',
+      expires_at: null,
+      max_participants: null,
+      join_opens_at: null,
+      join_closes_at: null,
+      completion_window_minutes: null,
+      ...overrides,
+    });
+
+    const routeQueries = ({ questRow = quest() as unknown, taken = '0', joined = false, prerequisites = [] as unknown[] } = {}) => {
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('FROM quests WHERE id = $1 AND group_id = $2 FOR UPDATE')) {
+          return { rows: questRow ? [questRow] : [] };
+        }
+        if (sql.includes('FROM quest_prerequisites p')) {
+          return { rows: prerequisites };
+        }
+        if (sql.includes('FROM quest_participants WHERE quest_id = $1')) {
+          return { rows: [{ taken, joined }] };
+        }
+        if (sql.includes('INSERT INTO quest_participants')) {
+          return { rows: [{ quest_id: params[0], user_id: params[1], status: 'joined', deadline_at: params[2] }] };
+        }
+        return { rows: [] };
+      });
+    };
+
     it('should allow a user to join a quest', async () => {
-      mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'user2' }], rowCount: 1 }); // Quest check
-      mockQuery.mockResolvedValueOnce({ rows: [{ quest_id: 'quest1', user_id: 'user1' }], rowCount: 1 }); // Insert
+      routeQueries();
 
       const result = await questsService.joinQuest('quest1', 1, 'user1');
-      expect(result).toBeDefined();
+
+      expect(result).toEqual(expect.objectContaining({ user_id: 'user1', deadline_at: null }));
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
     });
 
-    it('should throw CANNOT_JOIN_OWN_QUEST error if user is the creator', async () => {
-      mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'user1' }], rowCount: 1 });
-      await expect(questsService.joinQuest('quest1', 1, 'user1')).rejects.toThrow('CANNOT_JOIN_OWN_QUEST');
+    it('should give the participant a deadline from the completion window', async () => {
+      routeQueries({ questRow: quest({ completion_window_minutes: 30 }) });
+
+      const { deadline_at: deadlineAt } = await questsService.joinQuest('quest1', 1, 'user1');
+
+      expect(deadlineAt.getTime() - Date.now()).toBeGreaterThan(29 * 60 * 1000);
+      expect(deadlineAt.getTime() - Date.now()).toBeLessThanOrEqual(30 * 60 * 1000);
+    });
+
+    it('should let a participant join while others have lost their place to a missed deadline', async () => {
+      routeQueries({ questRow: quest({ max_participants: 2 }), taken: '1' });
+
+      await expect(questsService.joinQuest('quest1', 1, 'user1')).resolves.toBeDefined();
+    });
+
+    it('should let a user who meets every prerequisite join', async () => {
+      routeQueries({ prerequisites: [{ required_quest_id: 'quest0', met: true }] });
+
+      await expect(questsService.joinQuest('quest1', 1, 'user1')).resolves.toBeDefined();
+      expect(statementsMatching('FROM quest_prerequisites p')[0][1]).toEqual(['quest1', 'user1']);
     });
 
-    it('should throw ALREADY_JOINED error if user has already joined', async () => {
-        mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'user2' }], rowCount: 1 });
-        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 }); // ON CONFLICT DO NOTHING returns 0 rows
-        await expect(questsService.joinQuest('quest1', 1, 'user1')).rejects.toThrow('ALREADY_JOINED');
+    it.each([
+      ['NOT_FOUND', { questRow: null }],
+      ['QUEST_ON_CHAIN', { questRow: quest({ chain_quest_id: '4' }) }],
+      ['CANNOT_JOIN_OWN_QUEST', { questRow: quest({ creator_id: 'user1' }) }],
+      ['QUEST_EXPIRED', { questRow: quest({ status: 'expired' }) }],
+      ['QUEST_EXPIRED', { questRow: quest({ expires_at: anHourAgo() }) }],
+      ['QUEST_NOT_ACTIVE', { questRow: quest({ status: 'completed' }) }],
+      ['JOIN_WINDOW_NOT_OPEN', { questRow: quest({ join_opens_at: inOneHour() }) }],
+      ['JOIN_WINDOW_CLOSED', { questRow: quest({ join_closes_at: anHourAgo() }) }],
+      ['ALREADY_JOINED', { joined: true }],
+      ['QUEST_FULL', { questRow: quest({ max_participants: 2 }), taken: '2' }],
+      ['PREREQUISITES_NOT_MET', { prerequisites: [{ required_quest_id: 'quest0', met: true }, { required_achievement_id: 3, met: false }] }],
+    ])('should throw %s and roll back', async (code, scenario) => {
+      routeQueries(scenario);
+
+      await expect(questsService.joinQuest('quest1', 1, 'user1')).rejects.toThrow(code);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(statementsMatching('INSERT INTO quest_participants')).toHaveLength(0);
     });
   });
 
@@ -114,28 +428,285 @@ describe('Quests Service', () => {
         (getPool as jest.Mock).mockReturnValue({ connect: mockConnect });
     });
 
-    it('should verify a quest and distribute rewards', async () => {
+    it('should verify a quest and queue its reward payout in the same transaction', async () => {
+        const payout = { id: 1, quest_id: 'quest1', user_id: 'participant1', amount: '100', status: 'pending' };
         mockQuery
-            .mockResolvedValueOnce({ rows: [{ creator_id: 'verifier1', reward_amount: '100' }] }) // Quest check
+            .mockResolvedValueOnce({}) // BEGIN
+            .mockResolvedValueOnce({ rows: [{ creator_id: 'verifier1', status: 'active', reward_amount: '100' }] }) // Quest check
             .mockResolvedValueOnce({ rows: [{ status: 'submitted' }] }) // Participant check
             .mockResolvedValueOnce({ rowCount: 1 }) // Update participant
             .mockResolvedValueOnce({ rowCount: 1 }) // Insert activity
-            .mockResolvedValueOnce({ rows: [{ count: '1' }] }) // Check verified count
-            .mockResolvedValueOnce({ rowCount: 1 }) // Insert achievement
-            .mockResolvedValueOnce({ rows: [{ aptos_address: '0x123' }] }); // Get user for reward
+            .mockResolvedValueOnce({ rows: [{ user_id: 'participant1', achievement_id: 1 }] }) // Award achievements
+            .mockResolvedValueOnce({ rows: [{ id: 1 }] }) // Reputation event
+            .mockResolvedValueOnce({ rows: [{ id: 1 }] }) // Draw from escrow
+            .mockResolvedValueOnce({ rows: [payout] }); // Queue payout
 
         const result = await questsService.verifyQuestCompletion('quest1', 1, 'participant1', 'verifier1');
 
-        expect(result.success).toBe(true);
-        expect(AptosService.distributeQuestRewards).toHaveBeenCalledWith('0x123', 100);
+        expect(result).toEqual(expect.objectContaining({ success: true, payout }));
+        const statements = mockQuery.mock.calls.map(([sql]) => sql);
+        const payoutIndex = statements.findIndex((sql) => sql.includes('INSERT INTO reward_payouts'));
+        expect(payoutIndex).toBeGreaterThan(0);
+        expect(statements.indexOf('COMMIT')).toBeGreaterThan(payoutIndex);
+        expect(mockQuery.mock.calls[payoutIndex][1]).toEqual(['quest1', 'participant1', 100]);
+        expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual(['quest1', 100]);
+        expect(statementsMatching('FROM quest_escrows e')).toHaveLength(0);
+        expect(statementsMatching('INSERT INTO user_activities')[0][1]).toEqual([
+            'participant1', 'quest_verified', { questId: 'quest1', groupId: 1, participantId: 'participant1', verifierId: 'verifier1' },
+        ]);
+        expect(statementsMatching('INSERT INTO user_achievements')[0][1]).toEqual(['participant1', 'quest_verified', null]);
+        expect(statementsMatching('INSERT INTO reputation_events')[0][1]).toEqual([
+            'participant1', 'quest_verified', 10, expect.objectContaining({ questId: 'quest1' }),
+        ]);
+    });
+
+    it('should throw ESCROW_EXHAUSTED and roll back when the escrow cannot cover the reward', async () => {
+        mockQuery.mockImplementation(async (sql: string) => {
+            if (sql.includes('FROM quests WHERE id = $1')) {
+                return { rows: [{ creator_id: 'verifier1', status: 'active', reward_amount: '100' }] };
+            }
+            if (sql.includes('FROM quest_participants WHERE quest_id')) {
+                return { rows: [{ status: 'submitted' }] };
+            }
+            if (sql.includes('SELECT 1 FROM quest_escrows')) {
+                return { rows: [{}], rowCount: 1 };
+            }
+            return { rows: [] };
+        });
+
+        await expect(questsService.verifyQuestCompletion('quest1', 1, 'participant1', 'verifier1')).rejects.toThrow('ESCROW_EXHAUSTED');
+        expect(statementsMatching('reward_payouts')).toHaveLength(0);
+        expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should release what was held back once a participant of a cancelled quest is verified', async () => {
+        mockQuery.mockImplementation(async (sql: string) => {
+            if (sql.includes('FROM quests WHERE id = $1')) {
+                return { rows: [{ creator_id: 'verifier1', status: 'cancelled', reward_amount: '0' }] };
+            }
+            if (sql.includes('FROM quest_participants WHERE quest_id')) {
+                return { rows: [{ status: 'submitted' }] };
+            }
+            return { rows: [] };
+        });
+
+        await questsService.verifyQuestCompletion('quest1', 1, 'participant1', 'verifier1');
+
+        expect(statementsMatching('FROM quest_escrows e')).toHaveLength(1);
+        expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should not queue a payout for a quest without a reward', async () => {
+        mockQuery
+            .mockResolvedValueOnce({}) // BEGIN
+            .mockResolvedValueOnce({ rows: [{ creator_id: 'verifier1', reward_amount: '0' }] })
+            .mockResolvedValueOnce({ rows: [{ status: 'submitted' }] })
+            .mockResolvedValueOnce({ rowCount: 1 })
+            .mockResolvedValueOnce({ rowCount: 1 })
+            .mockResolvedValueOnce({ rows: [] });
+
+        const result = await questsService.verifyQuestCompletion('quest1', 1, 'participant1', 'verifier1');
+
+        expect(result.payout).toBeNull();
+        expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('reward_payouts'), expect.anything());
         expect(mockQuery).toHaveBeenCalledWith('COMMIT');
     });
 
     it('should throw FORBIDDEN if verifier is not the creator', async () => {
+        mockQuery.mockResolvedValueOnce({}); // BEGIN
         mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'anotherUser', reward_amount: '100' }] });
 
         await expect(questsService.verifyQuestCompletion('quest1', 1, 'participant1', 'verifier1')).rejects.toThrow('FORBIDDEN');
         expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
     });
+
+    it('should throw STEPS_REQUIRED for a chain quest, whose steps are reviewed instead', async () => {
+        mockQuery.mockResolvedValueOnce({}); // BEGIN
+        mockQuery.mockResolvedValueOnce({ rows: [{ creator_id: 'verifier1', status: 'active', reward_amount: '100', step_count: '3' }] });
+
+        await expect(questsService.verifyQuestCompletion('quest1', 1, 'participant1', 'verifier1')).rejects.toThrow('STEPS_REQUIRED');
+        expect(statementsMatching('UPDATE quest_participants')).toHaveLength(0);
+        expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('completeQuest', () => {
+    beforeEach(() => {
+      (getPool as jest.Mock).mockReturnValue({ connect: mockConnect });
+    });
+
+    const routeQueries = (participant: Record<string, unknown> | null) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM quest_participants qp')) {
+          return { rows: participant ? [participant] : [] };
+        }
+        if (sql.includes('INSERT INTO quest_submissions')) {
+          return { rows: [{ id: 5, attempt: 2, status: 'pending' }] };
+        }
+        if (sql.includes('UPDATE quest_participants')) {
+          return { rows: [{ quest_id: 'quest1', user_id: 'user1', status: 'submitted' }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should record the evidence and submit the participant for review', async () => {
+      routeQueries({ status: 'rejected', type: 'social', required_evidence: ['text'], quest_status: 'active' });
+
+      const result = await questsService.completeQuest('quest1', 1, 'user1', { text: 'Second try' });
+
+      expect(result).toEqual(expect.objectContaining({ status: 'submitted', submission: expect.objectContaining({ id: 5 }) }));
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it.each([
+      ['CHECK_IN_REQUIRED', { status: 'joined', type: 'location_based', required_evidence: [] }],
+      ['STEPS_REQUIRED', { status: 'joined', type: 'social', required_evidence: [], quest_status: 'active', step_count: '2' }],
+      ['ALREADY_SUBMITTED', { status: 'submitted', type: 'social', required_evidence: [] }],
+      ['MISSING_EVIDENCE', { status: 'joined', type: 'social', required_evidence: ['photo'], quest_status: 'active' }],
+      ['QUEST_NOT_ACTIVE', { status: 'joined', type: 'social', required_evidence: [], quest_status: 'cancelled' }],
+      ['QUEST_EXPIRED', { status: 'joined', type: 'social', required_evidence: [], quest_status: 'expired' }],
+      ['QUEST_EXPIRED', { status: 'rejected', type: 'social', required_evidence: [], quest_status: 'active', expires_at: new Date(Date.now() - 1000) }],
+      ['COMPLETION_DEADLINE_PASSED', { status: 'joined', type: 'social', required_evidence: [], quest_status: 'active', deadline_at: new Date(Date.now() - 1000) }],
+      ['NOT_A_PARTICIPANT', null],
+    ])('should throw %s and roll back', async (code, participant) => {
+      routeQueries(participant);
+
+      await expect(questsService.completeQuest('quest1', 1, 'user1', {})).rejects.toThrow(code);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('reviewSubmission', () => {
+    beforeEach(() => {
+      (getPool as jest.Mock).mockReturnValue({ connect: mockConnect });
+    });
+
+    const routeQueries = ({ creatorId = 'creator1', submissionStatus = 'pending', reward = '100' } = {}) => {
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('SELECT creator_id, status, reward, chain_quest_id FROM quests')) {
+          return { rows: [{ creator_id: creatorId, status: 'active', reward, chain_quest_id: null }] };
+        }
+        if (sql.includes('FROM quest_submissions WHERE id = $1')) {
+          return { rows: submissionStatus ? [{ user_id: 'user1', status: submissionStatus }] : [] };
+        }
+        if (sql.includes('UPDATE quest_submissions')) {
+          return { rows: [{ id: 5, status: params[1], review_reason: params[3] }] };
+        }
+        if (sql.includes('SELECT COUNT(*)')) {
+          return { rows: [{ count: '3' }] };
+        }
+        if (sql.includes('INSERT INTO reward_payouts')) {
+          return { rows: [{ id: 1, amount: '100' }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should verify the participant and queue the reward on approval', async () => {
+      routeQueries();
+
+      const { submission, payout } = await questsService.reviewSubmission('quest1', 1, 5, 'creator1', 'approve');
+
+      expect(submission.status).toBe('approved');
+      expect(payout).toEqual({ id: 1, amount: '100' });
+      expect(statementsMatching("SET status = 'verified'")).toHaveLength(1);
+    });
+
+    it('should pay and draw the reward exactly as it was escrowed', async () => {
+      routeQueries({ reward: '2.5' });
+
+      await questsService.reviewSubmission('quest1', 1, 5, 'creator1', 'approve');
+
+      expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual(['quest1', 2.5]);
+      expect(statementsMatching('INSERT INTO reward_payouts')[0][1]).toEqual(['quest1', 'user1', 2.5]);
+    });
+
+    it('should record the reason and let the participant resubmit on rejection', async () => {
+      routeQueries();
+
+      const { submission, payout } = await questsService.reviewSubmission('quest1', 1, 5, 'creator1', 'reject', 'The photo is blurry.');
+
+      expect(submission).toEqual(expect.objectContaining({ status: 'rejected', review_reason: 'The photo is blurry.' }));
+      expect(payout).toBeNull();
+      expect(statementsMatching("SET status = 'rejected'")[0][1]).toEqual(['quest1', 'user1']);
+      expect(statementsMatching('reward_payouts')).toHaveLength(0);
+      expect(statementsMatching('INSERT INTO reputation_events')[0][1]).toEqual([
+        'user1', 'submission_rejected', -2, { questId: 'quest1', groupId: 1, submissionId: 5 },
+      ]);
+    });
+
+    it('should require a reason to reject', async () => {
+      await expect(questsService.reviewSubmission('quest1', 1, 5, 'creator1', 'reject')).rejects.toThrow('REASON_REQUIRED');
+      expect(mockConnect).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['FORBIDDEN', { creatorId: 'someoneElse' }],
+      ['SUBMISSION_NOT_FOUND', { submissionStatus: '' }],
+      ['SUBMISSION_ALREADY_REVIEWED', { submissionStatus: 'approved' }],
+    ])('should throw %s and roll back', async (code, scenario) => {
+      routeQueries(scenario);
+
+      await expect(questsService.reviewSubmission('quest1', 1, 5, 'creator1', 'approve')).rejects.toThrow(code);
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('expireQuests', () => {
+    beforeEach(() => {
+      (getPool as jest.Mock).mockReturnValue({ connect: mockConnect });
+    });
+
+    it('should expire quests and late participants and notify them', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('UPDATE quests SET status')) {
+          return { rows: [{ id: 'quest1', group_id: 1, title: 'Expired quest' }], rowCount: 1 };
+        }
+        if (sql.includes('UPDATE quest_participants qp')) {
+          return {
+            rows: [
+              { quest_id: 'quest1', user_id: 'user1', group_id: 1, title: 'Expired quest', deadline_at: null },
+              { quest_id: 'quest2', user_id: 'user2', group_id: 1, title: 'Timed quest', deadline_at: new Date('2030-01-01T00:00:00Z') },
+            ],
+            rowCount: 2,
+          };
+        }
+        if (sql.includes('FROM quest_escrows e')) {
+          return {
+            rows: [{
+              id: 7, funding_source: 'treasury', funder_id: 'creator1', group_id: 1, reward: '10', title: 'Expired quest',
+              amount_locked: '50', amount_paid: '10', amount_refunded: '0', awaiting_review: '1',
+            }],
+          };
+        }
+        if (sql.includes("qp.status = 'submitted'")) {
+          return { rows: [{ quest_id: 'quest1', user_id: 'user3', group_id: 1, title: 'Expired quest' }] };
+        }
+        if (sql.includes('INSERT INTO notifications')) {
+          return { rows: [], rowCount: 3 };
+        }
+        return { rows: [] };
+      });
+
+      const summary = await questsService.expireQuests();
+
+      // One reward stays in escrow for the participant awaiting review; the rest goes back to the treasury.
+      expect(summary).toEqual({ quests: ['quest1'], participants: 2, notifications: 3, refunded: 30 });
+      expect(statementsMatching('UPDATE feed_groups SET treasury_balance')[0][1]).toEqual([30, 1]);
+      expect(statementsMatching('UPDATE quest_escrows')[0][1]).toEqual([7, 30, false]);
+      const [userIds, types, data] = statementsMatching('INSERT INTO notifications')[0][1];
+      expect(userIds).toEqual(['user1', 'user2', 'user3']);
+      expect(types).toEqual(['quest_expired', 'quest_deadline_passed', 'quest_expired']);
+      expect(JSON.parse(data[2])).toEqual(expect.objectContaining({ questId: 'quest1', awaitingReview: true }));
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should not notify anyone when nothing has expired', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      expect(await questsService.expireQuests()).toEqual({ quests: [], participants: 0, notifications: 0, refunded: 0 });
+      expect(statementsMatching('notifications')).toHaveLength(0);
+    });
   });
 });
@@ -0,0 +1,103 @@
+import { getPool } from '../../config/database';
+import * as reputationService from '../reputation.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+describe('Reputation Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordReputationEvent', () => {
+    it('should record the event and move the score by its delta in one statement', async () => {
+      const event = { id: 1, user_id: 'user1', event_type: 'quest_verified', delta: 10 };
+      mockQuery.mockResolvedValueOnce({ rows: [event] });
+
+      const result = await reputationService.recordReputationEvent({ query: mockQuery } as any, 'user1', 'quest_verified', { questId: 'quest1' });
+
+      expect(result).toEqual(event);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO reputation_events');
+      expect(sql).toContain('reputation_score = reputation_score + $3');
+      expect(params).toEqual(['user1', 'quest_verified', 10, { questId: 'quest1' }]);
+    });
+
+    it('should take score away for negative events', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{}] });
+
+      await reputationService.recordReputationEvent({ query: mockQuery } as any, 'user1', 'content_reported');
+
+      expect(mockQuery.mock.calls[0][1]).toEqual(['user1', 'content_reported', -5, {}]);
+    });
+  });
+
+  describe('decayReputations', () => {
+    it('should decay scores by the half-life and report how many changed', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 3 });
+
+      const changed = await reputationService.decayReputations(180);
+
+      expect(changed).toBe(3);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain("event_type <> 'decay'");
+      expect(sql).toContain("SELECT id, 'decay', delta");
+      expect(params).toEqual([180]);
+    });
+  });
+
+  describe('getReputation', () => {
+    it('should return the score with its level and the next level up', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ reputation_score: 120 }] });
+
+      const reputation = await reputationService.getReputation('user1');
+
+      expect(reputation).toEqual({
+        userId: 'user1',
+        reputationScore: 120,
+        level: 'Contributor',
+        nextLevel: { name: 'Trusted', minScore: 200 },
+      });
+    });
+
+    it('should return null if the user does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await reputationService.getReputation('ghost')).toBeNull();
+    });
+  });
+
+  describe('getReputationHistory', () => {
+    it('should explain each event, paging back from the given event', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{}] }) // User check
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 9, event_type: 'decay', delta: -1, score_after: 14 },
+            { id: 8, event_type: 'followed', delta: 1, score_after: 15 },
+          ],
+        });
+
+      const history = await reputationService.getReputationHistory('user1', 2, 10);
+
+      expect(history?.map((event) => event.description)).toEqual([
+        'Older events count for less as time passes.',
+        'Someone followed you.',
+      ]);
+      expect(mockQuery.mock.calls[1][1]).toEqual(['user1', 2, 10]);
+    });
+
+    it('should return null if the user does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await reputationService.getReputationHistory('ghost', 50)).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { getPool } from '../../config/database';
+import { createInMemoryAdapter, setChainAdapter } from '../chain';
+import * as signersService from '../signers.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery, release: jest.fn() };
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: jest.fn().mockResolvedValue(mockClient) });
+
+const chain = createInMemoryAdapter({ signers: ['0xa11ce', '0xb0b'] });
+setChainAdapter(chain);
+
+const notificationInserts = () =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO notifications')).map(([, params]) => params);
+
+describe('Signers Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chain.reset();
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('FROM users') ? { rows: [{ id: 'admin1' }, { id: 'admin2' }] } : { rows: [], rowCount: 1 });
+  });
+
+  describe('getSignerReports', () => {
+    it('should flag the signers below the minimum balance', async () => {
+      chain.setGasBalance('0xb0b', 0.2);
+
+      const reports = await signersService.getSignerReports();
+
+      expect(reports).toEqual([
+        expect.objectContaining({ address: '0xa11ce', balance: 100, low: false }),
+        expect.objectContaining({ address: '0xb0b', balance: 0.2, low: true }),
+      ]);
+    });
+  });
+
+  describe('checkSignerBalances', () => {
+    it('should alert every admin once about a low signer, and again only after it was topped up', async () => {
+      chain.setGasBalance('0xb0b', 0.2);
+
+      expect(await signersService.checkSignerBalances()).toEqual(['0xb0b']);
+      expect(notificationInserts()).toEqual([[
+        ['admin1', 'admin2'],
+        ['signer_balance_low', 'signer_balance_low'],
+        Array(2).fill(JSON.stringify({ address: '0xb0b', balance: 0.2, min_balance: 1 })),
+      ]]);
+      expect(mockClient.release).toHaveBeenCalled();
+
+      expect(await signersService.checkSignerBalances()).toEqual([]);
+
+      chain.setGasBalance('0xb0b', 5);
+      expect(await signersService.checkSignerBalances()).toEqual([]);
+
+      chain.setGasBalance('0xb0b', 0.1);
+      expect(await signersService.checkSignerBalances()).toEqual(['0xb0b']);
+      expect(notificationInserts()).toHaveLength(2);
+    });
+
+    it('should not touch the database while every signer has enough', async () => {
+      expect(await signersService.checkSignerBalances()).toEqual([]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { getPool } from '../../config/database';
+import { createInMemoryAdapter, setChainAdapter } from '../chain';
+import * as submissionsService from '../submissions.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery } as any;
+const chain = createInMemoryAdapter();
+setChainAdapter(chain);
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+const photo = { ipfsHash: 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG' };
+
+describe('Submissions Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chain.reset();
+  });
+
+  describe('getMissingEvidence', () => {
+    it('should list the required evidence types a submission lacks', () => {
+      expect(submissionsService.getMissingEvidence(['photo', 'text', 'vibe_nft'], { text: 'Done!' })).toEqual(['photo', 'vibe_nft']);
+      expect(submissionsService.getMissingEvidence([], {})).toEqual([]);
+    });
+  });
+
+  describe('createSubmission', () => {
+    it('should number the submission after the participant\'s earlier attempts', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 1, attempt: 2, status: 'pending' }] });
+
+      await submissionsService.createSubmission(mockClient, { questId: 'quest1', userId: 'user1', requiredEvidence: ['photo'], evidence: { photo } });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('COALESCE(MAX(attempt), 0) + 1');
+      expect(values).toEqual(['quest1', 'user1', { photo }, null, 'pending', null]);
+    });
+
+    it('should record automatically verified submissions as approved', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 1 }] });
+
+      await submissionsService.createSubmission(mockClient, { questId: 'quest1', userId: 'user1', requiredEvidence: [], evidence: {}, checkInId: 3, approved: true });
+
+      const values = mockQuery.mock.calls[0][1];
+      expect(values.slice(3, 5)).toEqual([3, 'approved']);
+      expect(values[5]).toBeInstanceOf(Date);
+    });
+
+    it('should reject a submission missing required evidence', async () => {
+      await expect(submissionsService.createSubmission(mockClient, { questId: 'quest1', userId: 'user1', requiredEvidence: ['photo'], evidence: { text: 'Trust me' } }))
+        .rejects.toThrow('MISSING_EVIDENCE');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    describe('with Vibe NFT evidence', () => {
+      const submit = (transactionHash: string) => submissionsService.createSubmission(mockClient, {
+        questId: 'quest1',
+        userId: 'user1',
+        requiredEvidence: ['vibe_nft'],
+        evidence: { vibeNft: { transactionHash } },
+      });
+
+      it('should accept a committed mint that no one else has submitted', async () => {
+        const { hash, submit: submitMint } = await chain.prepareVibeMint({
+          collectionName: 'Lunoa Vibes', description: 'At the venue', name: 'Vibe', uri: 'ipfs://x', recipient: '0xabc',
+        });
+        await submitMint();
+        mockQuery
+          .mockResolvedValueOnce({ rows: [] }) // Reuse check
+          .mockResolvedValueOnce({ rows: [{ id: 1 }] }); // Insert
+
+        await expect(submit(hash)).resolves.toEqual({ id: 1 });
+        expect(mockQuery.mock.calls[0][1]).toEqual([hash, 'quest1', 'user1']);
+      });
+
+      it('should reject a mint the chain has not seen', async () => {
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        await expect(submit(`0x${'1'.repeat(64)}`)).rejects.toThrow('VIBE_NFT_NOT_FOUND');
+      });
+
+      it('should reject a mint already submitted by someone else', async () => {
+        mockQuery.mockResolvedValue({ rows: [{ '?column?': 1 }] });
+
+        await expect(submit(`0x${'1'.repeat(64)}`)).rejects.toThrow('EVIDENCE_ALREADY_USED');
+      });
+    });
+  });
+
+  describe('getQuestSubmissions', () => {
+    it('should show other members only their own submissions', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ creator_id: 'creator1' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await submissionsService.getQuestSubmissions('quest1', 1, 'user1', 'rejected');
+
+      expect(mockQuery.mock.calls[1][1]).toEqual(['quest1', 'user1', 'rejected']);
+    });
+
+    it('should report a quest outside the group as not found', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await expect(submissionsService.getQuestSubmissions('quest1', 1, 'user1')).rejects.toThrow('QUEST_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { getPool } from '../../config/database';
+import * as treasuryService from '../treasury.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery } as any;
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery });
+
+const proposal = { id: 9, group_id: 1, creator_id: 'user1', title: 'Pay the DJ' };
+
+describe('Treasury Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseTreasuryAction', () => {
+    it('should accept well-formed transfer and fund_quest actions', () => {
+      expect(treasuryService.parseTreasuryAction({ type: 'transfer', amount: 5, recipientUserId: 'user2' }))
+        .toEqual({ type: 'transfer', amount: 5, recipientUserId: 'user2' });
+      expect(treasuryService.parseTreasuryAction({ type: 'fund_quest', amount: 5, questId: 'quest1', extra: true }))
+        .toEqual({ type: 'fund_quest', amount: 5, questId: 'quest1' });
+    });
+
+    it.each([
+      [null],
+      [{ type: 'transfer', amount: 0, recipientUserId: 'user2' }],
+      [{ type: 'transfer', amount: '5', recipientUserId: 'user2' }],
+      [{ type: 'transfer', amount: 5 }],
+      [{ type: 'fund_quest', amount: 5, recipientUserId: 'user2' }],
+      [{ type: 'burn', amount: 5 }],
+    ])('should reject %j', (input) => {
+      expect(treasuryService.parseTreasuryAction(input)).toBeNull();
+    });
+  });
+
+  describe('validateTreasuryAction', () => {
+    it('should reject transfers to non-members', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(treasuryService.validateTreasuryAction(1, { type: 'transfer', amount: 5, recipientUserId: 'user2' }))
+        .rejects.toThrow('RECIPIENT_NOT_MEMBER');
+    });
+
+    it('should reject funding a quest outside the group', async () => {
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(treasuryService.validateTreasuryAction(1, { type: 'fund_quest', amount: 5, questId: 'quest1' }))
+        .rejects.toThrow('QUEST_NOT_FOUND');
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('FROM quests'), ['quest1', 1]);
+    });
+
+    it.each([
+      ['has no escrow', { funding_source: null, escrow_group_id: null, escrow_status: null }],
+      ['is funded by its creator', { funding_source: 'creator', escrow_group_id: 1, escrow_status: 'active' }],
+      ['has a closed escrow', { funding_source: 'treasury', escrow_group_id: 1, escrow_status: 'closed' }],
+    ])('should reject funding a quest that %s', async (_, escrow) => {
+      mockQuery.mockResolvedValue({ rows: [escrow], rowCount: 1 });
+
+      await expect(treasuryService.validateTreasuryAction(1, { type: 'fund_quest', amount: 5, questId: 'quest1' }))
+        .rejects.toThrow('QUEST_NOT_FUNDABLE');
+    });
+
+    it('should accept funding a quest whose escrow the group\'s treasury funds', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ funding_source: 'treasury', escrow_group_id: 1, escrow_status: 'active' }], rowCount: 1 });
+
+      await expect(treasuryService.validateTreasuryAction(1, { type: 'fund_quest', amount: 5, questId: 'quest1' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('executeTreasuryAction', () => {
+    it('should debit the treasury, credit the recipient\'s wallet and record a withdrawal linked to the proposal', async () => {
+      const withdrawal = { id: 3, transaction_type: 'withdrawal', proposal_id: 9 };
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 }) // debit
+        .mockResolvedValueOnce({ rowCount: 1 }) // wallet balance
+        .mockResolvedValueOnce({ rows: [{ id: 5 }], rowCount: 1 }) // wallet transaction
+        .mockResolvedValueOnce({ rows: [withdrawal], rowCount: 1 });
+
+      const result = await treasuryService.executeTreasuryAction(mockClient, {
+        ...proposal,
+        action: { type: 'transfer', amount: 25, recipientUserId: 'user2' },
+      });
+
+      expect(result).toEqual(withdrawal);
+      expect(mockQuery).toHaveBeenNthCalledWith(1, expect.stringContaining('treasury_balance >= $1'), [25, 1]);
+      expect(mockQuery).toHaveBeenNthCalledWith(2, expect.stringContaining('SET wallet_balance = wallet_balance + $1'), [25, 'user2']);
+      expect(mockQuery).toHaveBeenNthCalledWith(3, expect.stringContaining('INSERT INTO wallet_transactions'),
+        ['user2', 'treasury_transfer', 25, null, 'Proposal #9: Pay the DJ', null]);
+      expect(mockQuery).toHaveBeenNthCalledWith(4, expect.stringContaining('INSERT INTO treasury_transactions'),
+        [1, 'user1', 25, 'Proposal #9: Pay the DJ', 9, 'user2', null]);
+    });
+
+    it('should refuse to overdraw the treasury', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(treasuryService.executeTreasuryAction(mockClient, {
+        ...proposal,
+        action: { type: 'transfer', amount: 1000, recipientUserId: 'user2' },
+      })).rejects.toThrow('INSUFFICIENT_FUNDS');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add the amount to the escrow of a funded quest', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 }) // debit
+        .mockResolvedValueOnce({ rows: [{ id: 2 }], rowCount: 1 }) // escrow
+        .mockResolvedValueOnce({ rows: [{ id: 4 }], rowCount: 1 });
+
+      await treasuryService.executeTreasuryAction(mockClient, {
+        ...proposal,
+        action: { type: 'fund_quest', amount: 10, questId: 'quest1' },
+      });
+
+      expect(mockQuery).toHaveBeenNthCalledWith(2, expect.stringContaining('amount_locked = amount_locked + $3'), ['quest1', 1, 10]);
+      expect(mockQuery).toHaveBeenNthCalledWith(3, expect.any(String), [1, 'user1', 10, 'Proposal #9: Pay the DJ', 9, null, 'quest1']);
+    });
+
+    it('should fail when the quest\'s escrow can no longer be topped up', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rowCount: 1 }) // debit
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await expect(treasuryService.executeTreasuryAction(mockClient, {
+        ...proposal,
+        action: { type: 'fund_quest', amount: 10, questId: 'quest1' },
+      })).rejects.toThrow('QUEST_NOT_FUNDABLE');
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+  });
+});
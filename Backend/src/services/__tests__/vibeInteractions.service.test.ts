@@ -0,0 +1,238 @@
+import { getPool } from '../../config/database';
+import { loadConfig, setConfig } from '../../config/index';
+import * as vibeInteractionsService from '../vibeInteractions.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+const activities = () => statementsMatching('INSERT INTO user_activities').map(([, params]) => params[1]);
+
+interface Scenario {
+  vibe?: { creator_id: string; comments_locked: boolean } | null;
+  comment?: { user_id: string } | null;
+  recent?: { last_minute: string; last_hour: string; duplicates: string };
+  liked?: boolean;
+  reported?: boolean;
+}
+
+const routeQueries = ({
+  vibe = { creator_id: 'creator', comments_locked: false },
+  comment = { user_id: 'author' },
+  recent = { last_minute: '0', last_hour: '0', duplicates: '0' },
+  liked = false,
+  reported = false,
+}: Scenario = {}) => {
+  mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+    if (sql.includes('FROM vibes WHERE id = $1')) {
+      return { rows: vibe ? [vibe] : [] };
+    }
+    if (sql.includes('DELETE FROM vibe_likes')) {
+      return { rowCount: liked ? 1 : 0 };
+    }
+    if (sql.includes('COUNT(*)::integer AS count FROM vibe_likes')) {
+      return { rows: [{ count: liked ? 2 : 3 }] };
+    }
+    if (sql.includes('FROM vibe_comments WHERE id = $1')) {
+      return { rows: comment ? [comment] : [] };
+    }
+    if (sql.includes('AS last_minute')) {
+      return { rows: [recent] };
+    }
+    if (sql.includes('INSERT INTO vibe_comments')) {
+      return { rows: [{ id: 11, vibe_id: params[0], user_id: params[1], parent_id: params[2], body: params[3] }] };
+    }
+    if (sql.includes('UPDATE vibe_comments SET body = $2')) {
+      return { rows: [{ id: params[0], body: params[1] }] };
+    }
+    if (sql.includes('INSERT INTO vibe_reports')) {
+      return { rows: reported ? [] : [{ id: 5, vibe_id: params[0], comment_id: params[1], reporter_id: params[2] }] };
+    }
+    if (sql.includes('INSERT INTO reputation_events')) {
+      return { rows: [{}] };
+    }
+    return { rows: [] };
+  });
+};
+
+describe('Vibe Interactions Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setConfig(loadConfig({ NODE_ENV: 'test' }));
+  });
+
+  describe('toggleLike', () => {
+    it('should like a Vibe the user has not liked yet', async () => {
+      routeQueries();
+
+      const result = await vibeInteractionsService.toggleLike(3, 'user1');
+
+      expect(result).toEqual({ liked: true, likeCount: 3 });
+      expect(statementsMatching('INSERT INTO vibe_likes')[0][1]).toEqual([3, 'user1']);
+      expect(activities()).toEqual(['vibe_liked']);
+      expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should take back a like', async () => {
+      routeQueries({ liked: true });
+
+      const result = await vibeInteractionsService.toggleLike(3, 'user1');
+
+      expect(result).toEqual({ liked: false, likeCount: 2 });
+      expect(statementsMatching('INSERT INTO vibe_likes')).toHaveLength(0);
+      expect(activities()).toEqual(['vibe_unliked']);
+    });
+
+    it('should throw VIBE_NOT_FOUND and roll back', async () => {
+      routeQueries({ vibe: null });
+
+      await expect(vibeInteractionsService.toggleLike(3, 'user1')).rejects.toThrow('VIBE_NOT_FOUND');
+      expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('getComments', () => {
+    it('should nest replies under their comments and list threads newest first', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{}] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 1, parent_id: null, body: 'first' },
+            { id: 2, parent_id: null, body: null },
+            { id: 3, parent_id: 2, body: 'reply' },
+            { id: 4, parent_id: 3, body: 'reply to reply' },
+          ],
+        });
+
+      const threads = await vibeInteractionsService.getComments(3, 20, 0);
+
+      expect(threads!.map((thread) => thread.id)).toEqual([2, 1]);
+      expect(threads![0].replies[0]).toEqual(expect.objectContaining({ id: 3, replies: [expect.objectContaining({ id: 4 })] }));
+      expect(mockQuery.mock.calls[1][1]).toEqual([3, 20, 0]);
+    });
+
+    it('should return null if the Vibe does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await vibeInteractionsService.getComments(3, 20, 0)).toBeNull();
+    });
+  });
+
+  describe('addComment', () => {
+    it('should post a reply and record the activity', async () => {
+      routeQueries();
+
+      const comment = await vibeInteractionsService.addComment(3, 'user1', 'Nice!', 7);
+
+      expect(comment).toEqual(expect.objectContaining({ id: 11, parent_id: 7, body: 'Nice!' }));
+      expect(statementsMatching('FROM vibe_comments WHERE id = $1')[0][1]).toEqual([7, 3]);
+      expect(activities()).toEqual(['vibe_commented']);
+    });
+
+    it.each([
+      ['COMMENTS_LOCKED', { vibe: { creator_id: 'creator', comments_locked: true } }],
+      ['COMMENT_NOT_FOUND', { comment: null }],
+      ['COMMENT_RATE_LIMITED', { recent: { last_minute: '5', last_hour: '5', duplicates: '0' } }],
+      ['COMMENT_RATE_LIMITED', { recent: { last_minute: '0', last_hour: '60', duplicates: '0' } }],
+      ['DUPLICATE_COMMENT', { recent: { last_minute: '1', last_hour: '1', duplicates: '1' } }],
+    ])('should throw %s without posting', async (code, scenario) => {
+      routeQueries(scenario as Scenario);
+
+      await expect(vibeInteractionsService.addComment(3, 'user1', 'Nice!', 7)).rejects.toThrow(code);
+      expect(statementsMatching('INSERT INTO vibe_comments')).toHaveLength(0);
+    });
+
+    it('should apply the configured limits', async () => {
+      setConfig(loadConfig({ NODE_ENV: 'test', COMMENT_LIMIT_PER_MINUTE: '10' }));
+      routeQueries({ recent: { last_minute: '5', last_hour: '5', duplicates: '0' } });
+
+      await expect(vibeInteractionsService.addComment(3, 'user1', 'Nice!')).resolves.toBeDefined();
+    });
+  });
+
+  describe('editComment', () => {
+    it('should let the author edit their comment', async () => {
+      routeQueries();
+
+      const comment = await vibeInteractionsService.editComment(3, 11, 'author', 'Edited');
+
+      expect(comment).toEqual({ id: 11, body: 'Edited' });
+      expect(activities()).toEqual(['vibe_comment_edited']);
+    });
+
+    it.each([
+      ['FORBIDDEN', {}, 'creator'],
+      ['COMMENTS_LOCKED', { vibe: { creator_id: 'creator', comments_locked: true } }, 'author'],
+      ['COMMENT_NOT_FOUND', { comment: null }, 'author'],
+    ])('should throw %s', async (code, scenario, userId) => {
+      routeQueries(scenario as Scenario);
+
+      await expect(vibeInteractionsService.editComment(3, 11, userId, 'Edited')).rejects.toThrow(code);
+      expect(statementsMatching('UPDATE vibe_comments')).toHaveLength(0);
+    });
+  });
+
+  describe('deleteComment', () => {
+    it.each(['author', 'creator'])('should let the %s delete a comment, keeping its place', async (userId) => {
+      routeQueries();
+
+      await vibeInteractionsService.deleteComment(3, 11, userId);
+
+      expect(statementsMatching('SET body = NULL, deleted_at = NOW()')[0][1]).toEqual([11]);
+      expect(activities()).toEqual(['vibe_comment_deleted']);
+    });
+
+    it('should not let anyone else delete a comment', async () => {
+      routeQueries();
+
+      await expect(vibeInteractionsService.deleteComment(3, 11, 'user1')).rejects.toThrow('FORBIDDEN');
+      expect(statementsMatching('SET body = NULL')).toHaveLength(0);
+    });
+  });
+
+  describe('reportContent', () => {
+    it('should report a Vibe and take reputation from its creator', async () => {
+      routeQueries();
+
+      const report = await vibeInteractionsService.reportContent(3, 'user1', 'spam');
+
+      expect(report.id).toBe(5);
+      expect(statementsMatching('INSERT INTO vibe_reports')[0][1]).toEqual([3, null, 'user1', 'spam', null]);
+      expect(statementsMatching('INSERT INTO reputation_events')[0][1].slice(0, 2)).toEqual(['creator', 'content_reported']);
+      expect(activities()).toEqual(['vibe_reported']);
+    });
+
+    it('should take reputation from the author of a reported comment', async () => {
+      routeQueries();
+
+      await vibeInteractionsService.reportContent(3, 'user1', 'harassment', 'Rude', 11);
+
+      expect(statementsMatching('INSERT INTO reputation_events')[0][1].slice(0, 2)).toEqual(['author', 'content_reported']);
+    });
+
+    it.each([
+      ['CANNOT_REPORT_OWN_CONTENT', {}, 'creator', undefined],
+      ['CANNOT_REPORT_OWN_CONTENT', {}, 'author', 11],
+      ['COMMENT_NOT_FOUND', { comment: null }, 'user1', 11],
+      ['ALREADY_REPORTED', { reported: true }, 'user1', undefined],
+    ])('should throw %s without costing reputation', async (code, scenario, reporterId, commentId) => {
+      routeQueries(scenario as Scenario);
+
+      await expect(vibeInteractionsService.reportContent(3, reporterId, 'spam', undefined, commentId)).rejects.toThrow(code);
+      expect(statementsMatching('INSERT INTO reputation_events')).toHaveLength(0);
+      expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { getPool } from '../../config/database';
+import { createInMemoryAdapter, setChainAdapter } from '../chain';
+import { setIpfsService } from '../ipfs.service';
+import * as vibesService from '../vibes.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockClient = { query: mockQuery, release: jest.fn() };
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: jest.fn().mockResolvedValue(mockClient) });
+
+const chain = createInMemoryAdapter();
+setChainAdapter(chain);
+
+const uploadJson = jest.fn().mockResolvedValue('QmMetadata');
+setIpfsService({ uploadJson, uploadStream: jest.fn() });
+
+const newVibe = {
+  creatorId: 'user1',
+  name: 'Sunset',
+  description: 'On the pier',
+  imageIpfsHash: 'QmImage',
+  collectionName: 'Lunoa Vibes',
+  recipientAddress: '0xabc',
+};
+
+const statementsMatching = (fragment: string) =>
+  mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+
+describe('Vibes Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    chain.reset();
+  });
+
+  describe('createVibe', () => {
+    const routeQueries = ({ questGroup = 1 as number | null, group = { is_member: true } as unknown } = {}) => {
+      mockQuery.mockImplementation(async (sql: string, params: unknown[]) => {
+        if (sql.includes('SELECT group_id FROM quests')) {
+          return { rows: questGroup === null ? [] : [{ group_id: questGroup }] };
+        }
+        if (sql.includes('FROM feed_groups WHERE id = $1')) {
+          return { rows: group ? [group] : [] };
+        }
+        if (sql.includes('INSERT INTO vibes')) {
+          return { rows: [{ id: 9 }] };
+        }
+        if (sql.includes('INSERT INTO chain_transactions')) {
+          return { rows: [{ id: 3, tx_hash: params[0], status: 'pending' }] };
+        }
+        if (sql.includes('WHERE v.id = $1')) {
+          const [, , , , , txHash, , , , , , groupId] = statementsMatching('INSERT INTO vibes')[0][1];
+          return { rows: [{ id: 9, tx_hash: txHash, group_id: groupId, token_address: null, mint_status: 'pending' }] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should pin the metadata, record the Vibe with its mint and send the mint', async () => {
+      routeQueries();
+
+      const { vibe, tokenUri, transaction } = await vibesService.createVibe({ ...newVibe, latitude: 51.5, longitude: -0.12 });
+
+      expect(tokenUri).toBe('ipfs://QmMetadata');
+      expect(uploadJson).toHaveBeenCalledWith(expect.objectContaining({ name: 'Sunset', image: 'ipfs://QmImage' }), 'Sunset-metadata.json');
+      const [mint] = chain.getTransactions();
+      expect(mint).toEqual(expect.objectContaining({ kind: 'mint_vibe_nft', recipient: '0xabc', payload: expect.objectContaining({ uri: tokenUri }) }));
+      expect(statementsMatching('INSERT INTO vibes')[0][1]).toEqual([
+        'user1', 'Sunset', 'On the pier', 'Lunoa Vibes', '0xabc', mint.hash,
+        'QmMetadata', 'QmImage', 51.5, -0.12, null, null,
+      ]);
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1]).toEqual([
+        mint.hash, 'vibe_mint', 'vibe', 9, 'user1', mint.sender, mint.sequenceNumber, mint.gasUnitPrice, expect.any(Date),
+      ]);
+      expect(mockQuery.mock.calls.map(([sql]) => sql).filter((sql) => ['BEGIN', 'COMMIT'].includes(sql))).toEqual(['BEGIN', 'COMMIT']);
+      expect(vibe).toEqual(expect.objectContaining({ id: 9, tx_hash: mint.hash, mint_status: 'pending' }));
+      expect(transaction).toEqual({ id: 3, tx_hash: mint.hash, status: 'pending' });
+      expect(statementsMatching('feed_groups')).toHaveLength(0);
+    });
+
+    it('should answer with the recorded Vibe even if sending its mint fails', async () => {
+      routeQueries();
+      const submit = jest.fn().mockRejectedValue(new Error('Failed to submit minting transaction.'));
+      jest.spyOn(chain, 'prepareVibeMint').mockResolvedValueOnce({ hash: '0xmint', sender: '0xa11ce', sequenceNumber: '0', gasUnitPrice: 100, expiresAt: new Date(), submit, discard: jest.fn() });
+
+      const { vibe } = await vibesService.createVibe(newVibe);
+
+      expect(submit).toHaveBeenCalled();
+      expect(vibe.tx_hash).toBe('0xmint');
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1][0]).toBe('0xmint');
+    });
+
+    it('should post a Vibe captured for a quest to the quest\'s group', async () => {
+      routeQueries({ questGroup: 4 });
+
+      const { vibe } = await vibesService.createVibe({ ...newVibe, questId: 'quest1' });
+
+      expect(vibe.group_id).toBe(4);
+      expect(statementsMatching('FROM feed_groups WHERE id = $1')[0][1]).toEqual([4, 'user1']);
+    });
+
+    it.each([
+      ['QUEST_NOT_FOUND', { questGroup: null }, { questId: 'quest1' }],
+      ['QUEST_NOT_IN_GROUP', { questGroup: 4 }, { questId: 'quest1', groupId: 5 }],
+      ['GROUP_NOT_FOUND', { group: null }, { groupId: 5 }],
+      ['NOT_A_MEMBER', { group: { is_member: false } }, { groupId: 5 }],
+    ])('should throw %s before minting anything', async (code, scenario, links) => {
+      routeQueries(scenario);
+
+      await expect(vibesService.createVibe({ ...newVibe, ...links })).rejects.toThrow(code);
+      expect(uploadJson).not.toHaveBeenCalled();
+      expect(chain.getTransactions()).toHaveLength(0);
+    });
+  });
+
+  describe('resendExpiredMints', () => {
+    const expiredVibe = {
+      id: 9, creator_id: 'user1', name: 'Sunset', description: 'On the pier', collection_name: 'Lunoa Vibes',
+      recipient_address: '0xabc', metadata_cid: 'QmMetadata', tx_hash: '0xexpired', attempts: 2,
+    };
+
+    const routeQueries = (resendRowCount: number) => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes("WHERE t.status = 'expired'")) {
+          return { rows: [expiredVibe] };
+        }
+        if (sql.includes('UPDATE vibes SET tx_hash')) {
+          return { rows: [], rowCount: resendRowCount };
+        }
+        return { rows: [{ id: 1 }], rowCount: 1 };
+      });
+    };
+
+    it('should send an expired mint again at a higher gas price and track the new transaction', async () => {
+      routeQueries(1);
+
+      expect(await vibesService.resendExpiredMints()).toBe(1);
+
+      const [mint] = chain.getTransactions();
+      expect(mint).toMatchObject({ kind: 'mint_vibe_nft', gasUnitPrice: 157, payload: expect.objectContaining({ uri: 'ipfs://QmMetadata' }) });
+      expect(statementsMatching('UPDATE vibes SET tx_hash')[0][1]).toEqual([9, mint.hash, '0xexpired']);
+      expect(statementsMatching('INSERT INTO chain_transactions')[0][1]).toEqual(
+        expect.arrayContaining([mint.hash, 'vibe_mint', 'vibe', 9, 'user1', 157])
+      );
+      expect(statementsMatching("WHERE t.status = 'expired'")[0][1]).toEqual([5, 20]);
+    });
+
+    it('should leave a mint another run has already resent', async () => {
+      routeQueries(0);
+
+      expect(await vibesService.resendExpiredMints()).toBe(0);
+
+      expect(statementsMatching('ROLLBACK')).toHaveLength(1);
+      expect(statementsMatching('INSERT INTO chain_transactions')).toHaveLength(0);
+      expect(chain.getTransactions()).toHaveLength(0);
+      expect((await chain.prepareVibeMint({ ...newVibe, uri: 'ipfs://QmMetadata', recipient: '0xabc' })).sequenceNumber).toBe('0');
+    });
+  });
+
+  describe('listVibes', () => {
+    it('should apply every filter and page through the newest first', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await vibesService.listVibes({
+        creatorId: 'user1', questId: 'quest1', groupId: 2, bbox: { west: -1, south: 50, east: 1, north: 52 }, limit: 20, offset: 40,
+      });
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('v.creator_id = $1 AND v.quest_id = $2 AND v.group_id = $3');
+      expect(sql).toContain('ST_MakeEnvelope($4, $5, $6, $7, 4326)');
+      expect(sql).toContain('ORDER BY v.created_at DESC, v.id DESC LIMIT $8 OFFSET $9');
+      expect(params).toEqual(['user1', 'quest1', 2, -1, 50, 1, 52, 20, 40]);
+    });
+
+    it('should list everything without filters', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      const vibes = await vibesService.listVibes({ limit: 20, offset: 0 });
+
+      expect(vibes).toEqual([{ id: 1 }]);
+      expect(mockQuery.mock.calls[0][0]).not.toMatch(/WHERE v\./);
+      expect(mockQuery.mock.calls[0][1]).toEqual([20, 0]);
+    });
+  });
+
+  describe('listTrendingVibes', () => {
+    it('should rank Vibes by recent likes, comments and boosts', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 2 }, { id: 1 }] });
+
+      const vibes = await vibesService.listTrendingVibes(20, 0);
+
+      expect(vibes).toEqual([{ id: 2 }, { id: 1 }]);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('FROM vibe_boosts WHERE created_at > NOW() - $4::interval');
+      expect(sql).toContain('ORDER BY v.score DESC');
+      expect(params).toEqual([1, 2, 1, '7 days', 20, 0]);
+    });
+  });
+
+  describe('listUserVibes', () => {
+    it('should return null if the user does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await vibesService.listUserVibes('ghost', 20, 0)).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('setCommentsLocked', () => {
+    it('should lock the comments of the creator\'s Vibe', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 9, comments_locked: true }] });
+
+      const vibe = await vibesService.setCommentsLocked(9, 'user1', true);
+
+      expect(vibe).toEqual({ id: 9, comments_locked: true });
+      expect(mockQuery.mock.calls[0][1]).toEqual([9, 'user1', true]);
+    });
+
+    it('should throw FORBIDDEN for anyone but the creator', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{ id: 9 }] });
+
+      await expect(vibesService.setCommentsLocked(9, 'user2', true)).rejects.toThrow('FORBIDDEN');
+    });
+
+    it('should return null if the Vibe does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+
+      expect(await vibesService.setCommentsLocked(9, 'user1', true)).toBeNull();
+    });
+  });
+
+  describe('getVibeById', () => {
+    it('should return null if the Vibe does not exist', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      expect(await vibesService.getVibeById(9)).toBeNull();
+      expect(mockQuery.mock.calls[0][1]).toEqual([9]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { getPool } from '../../config/database';
+import * as walletService from '../wallet.service';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(),
+}));
+
+const mockQuery = jest.fn();
+const mockConnect = jest.fn(() => ({
+  query: mockQuery,
+  release: jest.fn(),
+}));
+
+(getPool as jest.Mock).mockReturnValue({ query: mockQuery, connect: mockConnect });
+
+describe('Wallet Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('debitWallet', () => {
+    it('should throw INSUFFICIENT_FUNDS without recording anything when the balance is too low', async () => {
+      mockQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      await expect(walletService.debitWallet({ query: mockQuery } as any, 'escrow_lock', { userId: 'user1', amount: 50 }))
+        .rejects.toThrow('INSUFFICIENT_FUNDS');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).toContain('wallet_balance >= $1');
+    });
+  });
+
+  describe('depositToWallet', () => {
+    it('should credit the wallet and record the deposit in one transaction', async () => {
+      const transaction = { id: 1, transaction_type: 'deposit', amount: '25' };
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rowCount: 1 }) // Credit
+        .mockResolvedValueOnce({ rows: [transaction] }) // Record
+        .mockResolvedValueOnce({}); // COMMIT
+
+      expect(await walletService.depositToWallet('user1', 25, 'Top-up')).toEqual(transaction);
+      expect(mockQuery.mock.calls[2][1]).toEqual(['user1', 'deposit', 25, null, 'Top-up', null]);
+      expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should roll back if recording the deposit fails', async () => {
+      mockQuery
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({ rowCount: 1 })
+        .mockRejectedValueOnce(new Error('DB Error'));
+
+      await expect(walletService.depositToWallet('user1', 25)).rejects.toThrow('Failed to make deposit.');
+      expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('getWallet', () => {
+    it('should return the balance as a number alongside the transactions', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ wallet_balance: '12.50' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      expect(await walletService.getWallet('user1')).toEqual({ balance: 12.5, transactions: [{ id: 1 }] });
+    });
+  });
+});
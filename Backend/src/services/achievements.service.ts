@@ -0,0 +1,183 @@
+import { Pool, PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+
+// The activities logged to user_activities, which achievement rules count.
+export const ACTIVITY_TYPES = [
+  'quest_verified',
+  'user_followed',
+  'vibe_liked',
+  'vibe_unliked',
+  'vibe_commented',
+  'vibe_comment_edited',
+  'vibe_comment_deleted',
+  'vibe_reported',
+  'vibe_boosted',
+] as const;
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+
+/**
+ * When an achievement is awarded: once the user has `threshold` activities of the given
+ * type. `where` only counts activities whose metadata contains it; `distinct` counts the
+ * distinct values of that metadata key instead, e.g. groupId for "quests in 5 groups".
+ */
+export interface AchievementRule {
+  activity: ActivityType;
+  threshold: number;
+  distinct?: string;
+  where?: Record<string, string | number | boolean>;
+}
+
+export interface Achievement {
+  id: number;
+  name: string;
+  description: string | null;
+  icon_url: string | null;
+  // Achievements without a rule are never awarded automatically.
+  rule: AchievementRule | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AchievementPayload {
+  name: string;
+  description?: string | null;
+  icon_url?: string | null;
+  rule?: AchievementRule | null;
+}
+
+export interface AchievementAward {
+  user_id: string;
+  achievement_id: number;
+}
+
+export interface AwardFilter {
+  userId?: string;
+  activityType?: ActivityType;
+  achievementId?: number;
+}
+
+// Awards every rule-based achievement a user has reached and does not hold yet, for the
+// users, activity type and achievement $1–$3 narrow it to. Holding the award's primary key
+// makes it idempotent: re-evaluating never awards twice.
+const AWARD_QUERY = `
+  INSERT INTO user_achievements (user_id, achievement_id)
+  SELECT act.user_id, a.id
+  FROM achievements a
+  JOIN user_activities act
+    ON act.activity_type = a.rule->>'activity'
+   AND act.metadata @> COALESCE(a.rule->'where', '{}'::jsonb)
+  WHERE a.rule IS NOT NULL
+    AND ($1::uuid IS NULL OR act.user_id = $1)
+    AND ($2::text IS NULL OR a.rule->>'activity' = $2)
+    AND ($3::integer IS NULL OR a.id = $3)
+  GROUP BY act.user_id, a.id
+  HAVING (CASE WHEN a.rule ? 'distinct'
+            THEN COUNT(DISTINCT act.metadata->>(a.rule->>'distinct'))
+            ELSE COUNT(*)
+          END) >= (a.rule->>'threshold')::integer
+  ON CONFLICT (user_id, achievement_id) DO NOTHING
+  RETURNING user_id, achievement_id
+`;
+
+const awardAchievements = async (db: Pool | PoolClient, filter: AwardFilter): Promise<AchievementAward[]> => {
+  const { rows } = await db.query(AWARD_QUERY, [filter.userId ?? null, filter.activityType ?? null, filter.achievementId ?? null]);
+  return rows;
+};
+
+/**
+ * Logs a user's activity and awards the achievements it earns them, on the caller's
+ * transaction, so an award exists exactly when the activity that earned it does.
+ * @returns The achievements newly awarded.
+ */
+export const recordActivity = async (
+  client: PoolClient,
+  userId: string,
+  type: ActivityType,
+  metadata: object
+): Promise<AchievementAward[]> => {
+  await client.query('INSERT INTO user_activities (user_id, activity_type, metadata) VALUES ($1, $2, $3)', [userId, type, metadata]);
+  return awardAchievements(client, { userId, activityType: type });
+};
+
+/**
+ * Awards the achievements users have already earned by their past activities, e.g. after a
+ * rule is added or lowered.
+ * @param achievementId Only evaluate this achievement. Defaults to all of them.
+ * @returns The achievements newly awarded.
+ */
+export const backfillAchievements = async (achievementId?: number): Promise<AchievementAward[]> => {
+  const awards = await awardAchievements(getPool(), { achievementId });
+  logger.info(`Backfilled ${awards.length} achievement award(s)${achievementId ? ` for achievement ${achievementId}` : ''}.`);
+  return awards;
+};
+
+/**
+ * Retrieves every achievement with how many users hold it.
+ */
+export const listAchievements = async () => {
+  const { rows } = await getPool().query(
+    `SELECT a.*, (SELECT COUNT(*) FROM user_achievements ua WHERE ua.achievement_id = a.id)::integer AS holders
+     FROM achievements a
+     ORDER BY a.id`
+  );
+  return rows;
+};
+
+/**
+ * Defines a new achievement. Users who already qualify are not awarded until it is backfilled.
+ * @throws ACHIEVEMENT_NAME_TAKEN
+ */
+export const createAchievement = async (payload: AchievementPayload): Promise<Achievement> => {
+  try {
+    const { rows } = await getPool().query(
+      `INSERT INTO achievements (name, description, icon_url, rule)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [payload.name, payload.description ?? null, payload.icon_url ?? null, payload.rule ?? null]
+    );
+    return rows[0];
+  } catch (error: any) {
+    if (error.code === '23505') {
+      throw new Error('ACHIEVEMENT_NAME_TAKEN');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Changes an achievement's definition. Awards already made stand, even if the new rule
+ * would not have made them.
+ * @returns The updated achievement, or null if not found.
+ * @throws ACHIEVEMENT_NAME_TAKEN
+ */
+export const updateAchievement = async (id: number, payload: Partial<AchievementPayload>): Promise<Achievement | null> => {
+  const columns = (['name', 'description', 'icon_url', 'rule'] as const).filter((column) => payload[column] !== undefined);
+  if (columns.length === 0) {
+    const { rows } = await getPool().query('SELECT * FROM achievements WHERE id = $1', [id]);
+    return rows[0] ?? null;
+  }
+
+  const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+  try {
+    const { rows } = await getPool().query(
+      `UPDATE achievements SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = $1 RETURNING *`,
+      [id, ...columns.map((column) => payload[column])]
+    );
+    return rows[0] ?? null;
+  } catch (error: any) {
+    if (error.code === '23505') {
+      throw new Error('ACHIEVEMENT_NAME_TAKEN');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Deletes an achievement, taking it from everyone who holds it.
+ * @returns True if it existed.
+ */
+export const deleteAchievement = async (id: number): Promise<boolean> => {
+  const { rowCount } = await getPool().query('DELETE FROM achievements WHERE id = $1', [id]);
+  return (rowCount ?? 0) > 0;
+};
@@ -0,0 +1,112 @@
+import { randomBytes } from 'crypto';
+import { AccountAddress, Ed25519PublicKey, Ed25519Signature } from '@aptos-labs/ts-sdk';
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+
+// How long a member has to sign a challenge.
+export const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+export interface AddressChallenge {
+  address: string;
+  nonce: string;
+  // What the member's wallet must sign. Wallets may wrap it in a longer message.
+  message: string;
+  expiresAt: Date;
+}
+
+export interface AddressProof {
+  nonce: string;
+  // The Ed25519 public key the address was derived from.
+  publicKey: string;
+  signature: string;
+  // The exact text the wallet signed, which must contain the challenge's message.
+  signedMessage: string;
+}
+
+const challengeMessage = (address: string, nonce: string) =>
+  `Lunoa asks you to prove you own the Aptos address ${address}.\nNonce: ${nonce}`;
+
+/**
+ * Issues a one-time challenge the member must sign with the key of the address they link.
+ * Only the address's key can answer it, so members cannot claim addresses they do not hold.
+ */
+export const createAddressChallenge = async (userId: string, address: string): Promise<AddressChallenge> => {
+  const normalized = AccountAddress.from(address).toStringLong();
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+  await getPool().query(
+    'INSERT INTO address_challenges (nonce, user_id, address, expires_at) VALUES ($1, $2, $3, $4)',
+    [nonce, userId, normalized, expiresAt]
+  );
+  return { address: normalized, nonce, message: challengeMessage(normalized, nonce), expiresAt };
+};
+
+/**
+ * Links the challenged address to the member once they have signed the challenge with its
+ * key. A challenge can only be answered once. Whoever had linked the address without
+ * proving it loses it. Only Ed25519 accounts whose key was never rotated can be proven.
+ * @returns The verified address.
+ * @throws CHALLENGE_NOT_FOUND, CHALLENGE_EXPIRED, ADDRESS_MISMATCH, INVALID_SIGNATURE
+ */
+export const verifyAddressChallenge = async (userId: string, proof: AddressProof): Promise<string> => {
+  // Consumed whatever the outcome, so a signature cannot be tried against it twice.
+  const { rows } = await getPool().query(
+    'DELETE FROM address_challenges WHERE nonce = $1 AND user_id = $2 RETURNING address, expires_at',
+    [proof.nonce, userId]
+  );
+  const challenge = rows[0];
+  if (!challenge) {
+    throw new Error('CHALLENGE_NOT_FOUND');
+  }
+  if (new Date(challenge.expires_at).getTime() <= Date.now()) {
+    throw new Error('CHALLENGE_EXPIRED');
+  }
+
+  let publicKey: Ed25519PublicKey;
+  try {
+    publicKey = new Ed25519PublicKey(proof.publicKey);
+  } catch {
+    throw new Error('ADDRESS_MISMATCH');
+  }
+  if (publicKey.authKey().derivedAddress().toStringLong() !== challenge.address) {
+    throw new Error('ADDRESS_MISMATCH');
+  }
+
+  let verified = false;
+  if (proof.signedMessage.includes(challengeMessage(challenge.address, proof.nonce))) {
+    try {
+      verified = publicKey.verifySignature({ message: proof.signedMessage, signature: new Ed25519Signature(proof.signature) });
+    } catch {
+      // A malformed signature proves nothing.
+    }
+  }
+  if (!verified) {
+    throw new Error('INVALID_SIGNATURE');
+  }
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE users SET aptos_address = NULL
+       WHERE lower(aptos_address) = $1 AND id <> $2 AND aptos_address_verified_at IS NULL`,
+      [challenge.address, userId]
+    );
+    await client.query(
+      'UPDATE users SET aptos_address = $1, aptos_address_verified_at = NOW() WHERE id = $2',
+      [challenge.address, userId]
+    );
+    // The member's other challenges are no use any more, nor anyone's expired ones.
+    await client.query('DELETE FROM address_challenges WHERE user_id = $1 OR expires_at <= NOW()', [userId]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  logger.info(`User ${userId} proved they own Aptos address ${challenge.address}.`);
+  return challenge.address;
+};
@@ -0,0 +1,146 @@
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import logger from '../config/logger';
+import { splitBoost } from '../utils/boosts';
+import { recordActivity } from './achievements.service';
+import { creditWallet, debitWallet } from './wallet.service';
+
+export interface VibeBoost {
+  id: number;
+  vibe_id: number | null;
+  booster_id: string | null;
+  booster_username: string | null;
+  amount: string;
+  creator_id: string | null;
+  creator_amount: string;
+  group_id: number | null;
+  group_amount: string;
+  platform_fee: string;
+  created_at: Date;
+}
+
+const BOOST_COLUMNS = `b.id, b.vibe_id, b.booster_id, u.username AS booster_username, b.amount, b.creator_id, b.creator_amount,
+  b.group_id, b.group_amount, b.platform_fee, b.created_at`;
+
+/**
+ * Pays $Lunoa from the booster's wallet to boost a Vibe. The amount is split between the
+ * Vibe's creator, the treasury of the group it is posted to and the platform, by the
+ * configured percentages.
+ *
+ * To stop users inflating their own Vibes, no one may boost a Vibe they created or that
+ * was minted to their wallet, nor boost someone who boosted them recently, and each
+ * user may only boost so many times a day.
+ * @returns The boost, with how it was split.
+ * @throws VIBE_NOT_FOUND, BOOST_TOO_SMALL, CANNOT_BOOST_OWN_VIBE, INSUFFICIENT_FUNDS, BOOST_LIMIT_REACHED,
+ *         RECIPROCAL_BOOST
+ */
+export const boostVibe = async (vibeId: number, boosterId: string, amount: number): Promise<VibeBoost> => {
+  const { boosts: settings, chain } = getConfig();
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows: vibes } = await client.query(
+      `SELECT v.name, v.creator_id, v.group_id,
+         EXISTS (
+           SELECT 1 FROM users u
+           WHERE u.id = $2 AND lower(v.recipient_address) IN (lower(u.aptos_address), lower(u.wallet_address))
+         ) AS minted_to_booster
+       FROM vibes v
+       WHERE v.id = $1
+       FOR SHARE OF v`,
+      [vibeId, boosterId]
+    );
+    const vibe = vibes[0];
+    if (!vibe) {
+      throw new Error('VIBE_NOT_FOUND');
+    }
+
+    const split = splitBoost(amount, settings, vibe.group_id !== null, chain.aptos.lunoaCoinDecimals);
+    if (split.amount < settings.minAmount) {
+      throw new Error('BOOST_TOO_SMALL');
+    }
+    if (vibe.creator_id === boosterId || vibe.minted_to_booster) {
+      throw new Error('CANNOT_BOOST_OWN_VIBE');
+    }
+
+    // Debiting locks the booster's row, so their concurrent boosts are counted one at a time.
+    await debitWallet(client, 'boost', { userId: boosterId, amount: split.amount, vibeId, description: `Boost of Vibe "${vibe.name}"` });
+
+    const { rows: [recent] } = await client.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE booster_id = $1 AND created_at > NOW() - INTERVAL '1 day') AS today,
+         COUNT(*) FILTER (WHERE booster_id = $2 AND creator_id = $1 AND created_at > NOW() - make_interval(hours => $3)) AS reciprocal
+       FROM vibe_boosts
+       WHERE booster_id IN ($1, $2)`,
+      [boosterId, vibe.creator_id, settings.reciprocalWindowHours]
+    );
+    if (parseInt(recent.today, 10) >= settings.maxPerDay) {
+      throw new Error('BOOST_LIMIT_REACHED');
+    }
+    if (parseInt(recent.reciprocal, 10) > 0) {
+      throw new Error('RECIPROCAL_BOOST');
+    }
+
+    if (split.creator > 0) {
+      await creditWallet(client, 'boost_payout', {
+        userId: vibe.creator_id,
+        amount: split.creator,
+        vibeId,
+        description: `Boost of your Vibe "${vibe.name}"`,
+      });
+    }
+    if (split.group > 0) {
+      await client.query('UPDATE feed_groups SET treasury_balance = treasury_balance + $1 WHERE id = $2', [split.group, vibe.group_id]);
+      await client.query(
+        `INSERT INTO treasury_transactions (group_id, user_id, transaction_type, amount, description)
+         VALUES ($1, $2, 'deposit', $3, $4)`,
+        [vibe.group_id, boosterId, split.group, `Share of a boost of Vibe "${vibe.name}"`]
+      );
+    }
+
+    const { rows } = await client.query(
+      `WITH inserted AS (
+         INSERT INTO vibe_boosts (vibe_id, booster_id, amount, creator_id, creator_amount, group_id, group_amount, platform_fee)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *
+       )
+       SELECT ${BOOST_COLUMNS} FROM inserted b JOIN users u ON u.id = b.booster_id`,
+      [vibeId, boosterId, split.amount, vibe.creator_id, split.creator, vibe.group_id, split.group, split.platformFee]
+    );
+    await recordActivity(client, boosterId, 'vibe_boosted', { vibeId, creatorId: vibe.creator_id, amount: split.amount });
+
+    await client.query('COMMIT');
+    logger.info(`User ${boosterId} boosted Vibe ${vibeId} with ${split.amount}.`);
+    return rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a Vibe's boosts, newest first.
+ * @returns The boosts, or null if the Vibe does not exist.
+ */
+export const getVibeBoosts = async (vibeId: number, limit: number, offset: number): Promise<VibeBoost[] | null> => {
+  const pool = getPool();
+
+  const vibeResult = await pool.query('SELECT 1 FROM vibes WHERE id = $1', [vibeId]);
+  if (vibeResult.rows.length === 0) {
+    return null;
+  }
+
+  const { rows } = await pool.query(
+    `SELECT ${BOOST_COLUMNS}
+     FROM vibe_boosts b
+     LEFT JOIN users u ON u.id = b.booster_id
+     WHERE b.vibe_id = $1
+     ORDER BY b.created_at DESC, b.id DESC
+     LIMIT $2 OFFSET $3`,
+    [vibeId, limit, offset]
+  );
+  return rows;
+};
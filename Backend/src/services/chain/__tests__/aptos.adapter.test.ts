@@ -0,0 +1,56 @@
+import { U64 } from '@aptos-labs/ts-sdk';
+import { createAptosAdapter } from '../aptos.adapter';
+
+const mockBuildSimple = jest.fn();
+
+// Only the network client is faked; accounts, keys and argument types are the SDK's own.
+jest.mock('@aptos-labs/ts-sdk', () => ({
+  ...jest.requireActual('@aptos-labs/ts-sdk'),
+  Aptos: jest.fn().mockImplementation(() => ({
+    getAccountInfo: jest.fn().mockResolvedValue({ sequence_number: '0' }),
+    getGasPriceEstimation: jest.fn().mockResolvedValue({ gas_estimate: 100 }),
+    transaction: {
+      build: { simple: mockBuildSimple },
+      sign: jest.fn().mockReturnValue({}),
+    },
+  })),
+  generateUserTransactionHash: jest.fn().mockReturnValue('0xhash'),
+}));
+
+const settings = {
+  network: 'testnet',
+  contractAddress: '0xc0ffee',
+  serviceAccountPrivateKey: `0x${'11'.repeat(32)}`,
+  signerPrivateKeys: [],
+  gasPriceBumpPercent: 20,
+  maxGasUnitPrice: 1000,
+  lunoaCoinDecimals: 8,
+};
+
+describe('Aptos adapter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBuildSimple.mockResolvedValue({ rawTransaction: { expiration_timestamp_secs: BigInt(Math.floor(Date.now() / 1000) + 60) } });
+  });
+
+  describe('prepareQuestReward', () => {
+    it('should send the reward in the coin\'s smallest unit', async () => {
+      const adapter = createAptosAdapter(settings);
+
+      await adapter.prepareQuestReward('0x1', 2.5);
+
+      const { data } = mockBuildSimple.mock.calls[0][0];
+      expect(data.function).toBe('0xc0ffee::quests::distribute_reward');
+      expect(data.functionArguments[1]).toBeInstanceOf(U64);
+      expect(data.functionArguments[1].value).toBe(BigInt(250_000_000));
+    });
+
+    it('should follow the configured decimals', async () => {
+      const adapter = createAptosAdapter({ ...settings, lunoaCoinDecimals: 6 });
+
+      await adapter.prepareQuestReward('0x1', 3);
+
+      expect(mockBuildSimple.mock.calls[0][0].data.functionArguments[1].value).toBe(BigInt(3_000_000));
+    });
+  });
+});
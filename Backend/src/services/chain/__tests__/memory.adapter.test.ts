@@ -0,0 +1,227 @@
+import { createInMemoryAdapter } from '../memory.adapter';
+
+describe('In-memory chain adapter', () => {
+  it('should credit a quest reward once it is submitted', async () => {
+    const chain = createInMemoryAdapter();
+
+    const prepared = await chain.prepareQuestReward('0xABC', 50);
+    expect(await chain.getTransactionStatus(prepared.hash)).toBe('not_found');
+    expect(prepared.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    await prepared.submit();
+
+    expect(await chain.waitForTransaction(prepared.hash)).toBe('success');
+    expect(await chain.getLunoaBalance('0xabc')).toBe(50);
+  });
+
+  it('should reject submitting the same transaction twice', async () => {
+    const chain = createInMemoryAdapter();
+    const prepared = await chain.prepareQuestReward('0xabc', 50);
+    await prepared.submit();
+
+    await expect(prepared.submit()).rejects.toThrow('Failed to submit reward distribution transaction.');
+    expect(await chain.getLunoaBalance('0xabc')).toBe(50);
+  });
+
+  it('should hold transactions pending until settled when autoConfirm is off', async () => {
+    const chain = createInMemoryAdapter({ autoConfirm: false });
+    const first = await chain.prepareQuestReward('0xabc', 10);
+    const second = await chain.prepareQuestReward('0xabc', 20);
+    await first.submit();
+    await second.submit();
+
+    expect(await chain.getTransactionStatus(first.hash)).toBe('pending');
+    await expect(chain.waitForTransaction(first.hash)).rejects.toThrow('Failed to confirm transaction.');
+
+    chain.settleTransaction(first.hash, 'success');
+    chain.settleTransaction(second.hash, 'failed');
+
+    expect(await chain.getTransactionStatus(second.hash)).toBe('failed');
+    expect(await chain.getLunoaBalance('0xabc')).toBe(10);
+  });
+
+  it('should mint a Vibe NFT to its recipient once the mint commits', async () => {
+    const chain = createInMemoryAdapter({ autoConfirm: false });
+    const payload = { collectionName: 'Lunoa Vibes', description: 'd', name: 'n', uri: 'ipfs://x', recipient: '0xABC' };
+
+    const prepared = await chain.prepareVibeMint(payload);
+    await prepared.submit();
+    await expect(chain.getMintedTokenAddress(prepared.hash)).rejects.toThrow('Failed to read minted token.');
+
+    chain.settleTransaction(prepared.hash, 'success');
+
+    const tokenAddress = await chain.getMintedTokenAddress(prepared.hash);
+    expect(tokenAddress).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(chain.getTokenOwner(tokenAddress!)).toBe('0xabc');
+    expect(chain.getTransactions()).toEqual([expect.objectContaining({ hash: prepared.hash, kind: 'mint_vibe_nft', status: 'success', payload })]);
+  });
+
+  it('should sign each transaction with the next sequence number and report gas once committed', async () => {
+    const chain = createInMemoryAdapter({ autoConfirm: false });
+    const first = await chain.prepareQuestReward('0xabc', 10);
+    const second = await chain.prepareVibeMint({ collectionName: 'Lunoa Vibes', description: 'd', name: 'n', uri: 'ipfs://x', recipient: '0xabc' });
+    await first.submit();
+
+    expect([first.sequenceNumber, second.sequenceNumber]).toEqual(['0', '1']);
+    expect(await chain.getTransactionReceipt(first.hash)).toEqual({ status: 'pending', gasUsed: null });
+    expect(await chain.getTransactionReceipt(second.hash)).toEqual({ status: 'not_found', gasUsed: null });
+
+    chain.settleTransaction(first.hash, 'failed');
+
+    expect(await chain.getTransactionReceipt(first.hash)).toEqual({ status: 'failed', gasUsed: expect.any(Number) });
+  });
+
+  it('should hand a discarded transaction\'s sequence number to the next one, but not a submitted one\'s', async () => {
+    const chain = createInMemoryAdapter();
+    const dropped = await chain.prepareQuestReward('0xabc', 10);
+    const sent = await chain.prepareQuestReward('0xabc', 20);
+
+    dropped.discard();
+    const next = await chain.prepareQuestReward('0xabc', 30);
+    await sent.submit();
+    sent.discard();
+    const after = await chain.prepareQuestReward('0xabc', 40);
+
+    expect([dropped.sequenceNumber, sent.sequenceNumber, next.sequenceNumber, after.sequenceNumber]).toEqual(['0', '1', '0', '2']);
+  });
+
+  it('should send rewards from the whole pool but everything else from the service account', async () => {
+    const chain = createInMemoryAdapter({ autoConfirm: false, signers: ['0xa11ce', '0xb0b'] });
+    const payload = { collectionName: 'Lunoa Vibes', description: 'd', name: 'n', uri: 'ipfs://x', recipient: '0xabc' };
+
+    const rewards = await Promise.all([chain.prepareQuestReward('0xabc', 10), chain.prepareQuestReward('0xabc', 20)]);
+    const mint = await chain.prepareVibeMint(payload, { attempt: 2 });
+
+    expect(rewards.map((reward) => reward.sender).sort()).toEqual(['0xa11ce', '0xb0b']);
+    expect(rewards.map((reward) => reward.sequenceNumber)).toEqual(['0', '0']);
+    expect(mint).toMatchObject({ sender: '0xa11ce', sequenceNumber: '1', gasUnitPrice: 125 });
+  });
+
+  it('should charge each signer the gas of its committed transactions', async () => {
+    const chain = createInMemoryAdapter({ signers: ['0xa11ce', '0xb0b'] });
+    chain.setGasBalance('0xb0b', 0.5);
+    const reward = await chain.prepareQuestReward('0xabc', 10);
+    await reward.submit();
+
+    const statuses = await chain.getSignerStatuses();
+
+    expect(statuses).toEqual([
+      { address: '0xa11ce', balance: 100 - 7e-6, nextSequenceNumber: 1, inFlight: 1 },
+      { address: '0xb0b', balance: 0.5, nextSequenceNumber: null, inFlight: 0 },
+    ]);
+  });
+
+  it('should number quest events per handle and give re-emitted events a new version', async () => {
+    const chain = createInMemoryAdapter();
+    chain.emitQuestEvent({ type: 'quest_created', questId: 0, creator: '0xabc', title: 'Hike', reward: 5 });
+    const joined = chain.emitQuestEvent({ type: 'quest_joined', questId: 0, participant: '0xdef' });
+
+    expect(joined.sequenceNumber).toBe(0);
+    expect(await chain.getQuestEventCounts()).toEqual({ quest_created: 1, quest_joined: 1, quest_completed: 0, quest_canceled: 0 });
+
+    chain.rollbackQuestEvents('quest_joined', 0);
+    const rejoined = chain.emitQuestEvent({ type: 'quest_joined', questId: 0, participant: '0xdef' });
+
+    expect(await chain.getQuestEvents('quest_joined', 0, 10)).toEqual([rejoined]);
+    expect(rejoined).toMatchObject({ sequenceNumber: 0 });
+    expect(rejoined.version).not.toBe(joined.version);
+  });
+
+  describe('marketplace', () => {
+    const mint = async (chain: ReturnType<typeof createInMemoryAdapter>) => {
+      const prepared = await chain.prepareVibeMint({ collectionName: 'Lunoa Vibes', description: 'd', name: 'n', uri: 'ipfs://x', recipient: '0xSeller' });
+      await prepared.submit();
+      if ((await chain.getTransactionStatus(prepared.hash)) === 'pending') {
+        chain.settleTransaction(prepared.hash, 'success');
+      }
+      return { tokenAddress: await chain.getMintedTokenAddress(prepared.hash) };
+    };
+
+    it('should list a token and move it to the buyer when the sale commits', async () => {
+      const chain = createInMemoryAdapter();
+      const { tokenAddress } = await mint(chain);
+
+      const listed = await chain.createMarketplaceListing({ tokenAddress: tokenAddress!, seller: '0xseller', price: 25 });
+      expect(listed.events).toEqual([{ type: 'listing_created', listingId: 0, tokenAddress, seller: '0xseller', price: 25 }]);
+
+      const sale = await chain.prepareMarketplaceSale(0, '0xbuyer');
+      await sale.submit();
+
+      expect(await chain.waitForTransaction(sale.hash)).toBe('success');
+      expect(await chain.getMarketplaceEvents(sale.hash)).toEqual([
+        { type: 'listing_sold', listingId: 0, tokenAddress, seller: '0xseller', buyer: '0xbuyer', price: 25 },
+      ]);
+      expect(chain.getTokenOwner(tokenAddress!)).toBe('0xbuyer');
+      expect(chain.getListing(0)?.status).toBe('sold');
+    });
+
+    it('should refuse to list a token the seller does not hold', async () => {
+      const chain = createInMemoryAdapter();
+      const { tokenAddress } = await mint(chain);
+
+      await expect(chain.createMarketplaceListing({ tokenAddress: tokenAddress!, seller: '0xother', price: 25 }))
+        .rejects.toThrow('Failed to submit listing transaction.');
+    });
+
+    it('should fail the sale of a cancelled listing or of a token the seller moved', async () => {
+      const chain = createInMemoryAdapter();
+      const { tokenAddress } = await mint(chain);
+      await chain.createMarketplaceListing({ tokenAddress: tokenAddress!, seller: '0xseller', price: 25 });
+      await chain.createMarketplaceListing({ tokenAddress: tokenAddress!, seller: '0xseller', price: 30 });
+
+      const cancelled = await chain.cancelMarketplaceListing(0);
+      expect(cancelled.events).toEqual([{ type: 'listing_cancelled', listingId: 0, tokenAddress, seller: '0xseller' }]);
+      const first = await chain.prepareMarketplaceSale(0, '0xbuyer');
+      await first.submit();
+      expect(await chain.waitForTransaction(first.hash)).toBe('failed');
+
+      chain.transferToken(tokenAddress!, '0xfriend');
+      const second = await chain.prepareMarketplaceSale(1, '0xbuyer');
+      await second.submit();
+      expect(await chain.waitForTransaction(second.hash)).toBe('failed');
+      expect(await chain.getMarketplaceEvents(second.hash)).toEqual([]);
+      expect(chain.getTokenOwner(tokenAddress!)).toBe('0xfriend');
+    });
+
+    it('should sell an auctioned listing at its winning bid, but never below the listed price', async () => {
+      const chain = createInMemoryAdapter();
+      const { tokenAddress } = await mint(chain);
+      await chain.createMarketplaceListing({ tokenAddress: tokenAddress!, seller: '0xseller', price: 25 });
+
+      const low = await chain.prepareAuctionSale(0, '0xbuyer', 24);
+      await low.submit();
+      expect(await chain.waitForTransaction(low.hash)).toBe('failed');
+
+      const sale = await chain.prepareAuctionSale(0, '0xbuyer', 40);
+      await sale.submit();
+      expect(await chain.waitForTransaction(sale.hash)).toBe('success');
+      expect(await chain.getMarketplaceEvents(sale.hash)).toEqual([
+        { type: 'listing_sold', listingId: 0, tokenAddress, seller: '0xseller', buyer: '0xbuyer', price: 40 },
+      ]);
+      expect(chain.getListing(0)).toMatchObject({ price: 40, status: 'sold' });
+    });
+
+    it('should hold a sale pending until settled when autoConfirm is off', async () => {
+      const chain = createInMemoryAdapter({ autoConfirm: false });
+      const { tokenAddress } = await mint(chain);
+      await chain.createMarketplaceListing({ tokenAddress: tokenAddress!, seller: '0xseller', price: 25 });
+      const sale = await chain.prepareMarketplaceSale(0, '0xbuyer');
+      await sale.submit();
+
+      await expect(chain.getMarketplaceEvents(sale.hash)).rejects.toThrow('Failed to read marketplace events.');
+      chain.settleTransaction(sale.hash, 'success');
+
+      expect(await chain.getTransactionStatus(sale.hash)).toBe('success');
+      expect(chain.getTokenOwner(tokenAddress!)).toBe('0xbuyer');
+    });
+
+    it('should report no royalty until a collection\'s royalty is set', async () => {
+      const chain = createInMemoryAdapter();
+      expect(await chain.getCollectionRoyalty('Lunoa Vibes')).toEqual({ numerator: 0, denominator: 1 });
+
+      chain.setCollectionRoyalty('Lunoa Vibes', { numerator: 5, denominator: 100 });
+
+      expect(await chain.getCollectionRoyalty('Lunoa Vibes')).toEqual({ numerator: 5, denominator: 100 });
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { TRANSACTION_TTL_MS, createSequencer, getGasUnitPrice } from '../sequencer';
+
+describe('Transaction sequencer', () => {
+  const onChain = new Map<string, number>();
+  const readSequenceNumber = jest.fn(async (address: string) => onChain.get(address) ?? 0);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    onChain.clear();
+  });
+
+  // Moves the clock past a lease's expiry and the grace allowed for clock drift.
+  const afterExpiry = () => {
+    const now = Date.now() + TRANSACTION_TTL_MS + 60_000;
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  };
+
+  describe('getGasUnitPrice', () => {
+    const settings = { gasPriceBumpPercent: 50, maxGasUnitPrice: 300 };
+
+    it('should offer the estimate first and raise it on every further attempt up to the cap', () => {
+      expect(getGasUnitPrice(100, 1, settings)).toBe(100);
+      expect(getGasUnitPrice(100, 2, settings)).toBe(150);
+      expect(getGasUnitPrice(100, 3, settings)).toBe(225);
+      expect(getGasUnitPrice(100, 4, settings)).toBe(300);
+    });
+  });
+
+  it('should read a signer\'s sequence number once and count on from it locally', async () => {
+    onChain.set('0xa', 12);
+    const sequencer = createSequencer({ readSequenceNumber });
+
+    const leases = [await sequencer.acquire(['0xa']), await sequencer.acquire(['0xa']), await sequencer.acquire(['0xa'])];
+
+    expect(leases.map((lease) => lease.sequenceNumber)).toEqual([12, 13, 14]);
+    expect(readSequenceNumber).toHaveBeenCalledTimes(1);
+    expect(leases[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(sequencer.getSignerState('0xa')).toEqual({ address: '0xa', nextSequenceNumber: 15, inFlight: 3 });
+  });
+
+  it('should hand out distinct numbers to concurrent transactions', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+
+    const leases = await Promise.all(Array.from({ length: 5 }, () => sequencer.acquire(['0xa'])));
+
+    expect(leases.map((lease) => lease.sequenceNumber).sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(readSequenceNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('should spread transactions over the pool by how many each signer has in flight', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+    await sequencer.acquire(['0xa']);
+
+    const leases = await Promise.all([sequencer.acquire(['0xa', '0xb']), sequencer.acquire(['0xa', '0xb']), sequencer.acquire(['0xa', '0xb'])]);
+
+    expect(leases.map((lease) => lease.sender).sort()).toEqual(['0xa', '0xb', '0xb']);
+  });
+
+  it('should reuse a number the chain rejected, after reading the sequence number again', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+    const rejected = await sequencer.acquire(['0xa']);
+    await sequencer.acquire(['0xa']);
+
+    sequencer.release(rejected);
+
+    expect((await sequencer.acquire(['0xa'])).sequenceNumber).toBe(0);
+    expect((await sequencer.acquire(['0xa'])).sequenceNumber).toBe(2);
+    expect(readSequenceNumber).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not leave later transactions stuck behind one that was dropped before it was sent', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+    const dropped = await sequencer.acquire(['0xa']);
+
+    sequencer.release(dropped);
+    const next = await sequencer.acquire(['0xa']);
+
+    // The chain is still at 0, so the next transaction executes at once instead of waiting out the expiry.
+    expect(next.sequenceNumber).toBe(0);
+    expect(sequencer.getSignerState('0xa')).toEqual({ address: '0xa', nextSequenceNumber: 1, inFlight: 1 });
+  });
+
+  it('should skip ahead when the chain has used numbers it did not get from us', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+    const rejected = await sequencer.acquire(['0xa']);
+    onChain.set('0xa', 5);
+
+    sequencer.release(rejected);
+
+    expect((await sequencer.acquire(['0xa'])).sequenceNumber).toBe(5);
+  });
+
+  it('should fill the gap left by a transaction that expired without executing', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+    await sequencer.acquire(['0xa']);
+    await sequencer.acquire(['0xa']);
+    await sequencer.acquire(['0xa']);
+    // The first executed; the second never did, so the third is stuck behind it.
+    onChain.set('0xa', 1);
+
+    afterExpiry();
+
+    expect((await sequencer.acquire(['0xa'])).sequenceNumber).toBe(1);
+    expect((await sequencer.acquire(['0xa'])).sequenceNumber).toBe(2);
+    expect((await sequencer.acquire(['0xa'])).sequenceNumber).toBe(3);
+    expect(sequencer.getSignerState('0xa').inFlight).toBe(3);
+  });
+
+  it('should fail to lease when no signer is given', async () => {
+    const sequencer = createSequencer({ readSequenceNumber });
+
+    await expect(sequencer.acquire([])).rejects.toThrow('No signer to send the transaction with.');
+  });
+});
@@ -0,0 +1,423 @@
+import {
+  Account,
+  AccountAddress,
+  Aptos,
+  AptosApiError,
+  AptosConfig,
+  Ed25519PrivateKey,
+  EntryFunctionArgumentTypes,
+  MoveFunctionId,
+  Network,
+  SimpleEntryFunctionArgumentTypes,
+  TransactionResponseType,
+  U64,
+  generateUserTransactionHash,
+  getAptosFullNode,
+} from '@aptos-labs/ts-sdk';
+import { AptosSettings } from '../../config/index';
+import logger from '../../config/logger';
+import {
+  ChainAdapter,
+  CollectionRoyalty,
+  MarketplaceEvent,
+  MarketplaceTransaction,
+  MintVibeNftPayload,
+  NewMarketplaceListing,
+  PreparedTransaction,
+  QUEST_EVENT_TYPES,
+  QuestEvent,
+  QuestEventType,
+  SignerStatus,
+  TransactionOptions,
+  TransactionReceipt,
+  TransactionStatus,
+} from './chain.adapter';
+import { SequencerLease, createSequencer, getGasUnitPrice } from './sequencer';
+
+// APT is counted in octas, 10^-8 APT.
+const APT_DECIMALS = 8;
+
+// The marketplace contract's event structs, by the kind of event they report.
+const MARKETPLACE_EVENTS = {
+  '::marketplace::ListingCreatedEvent': 'listing_created',
+  '::marketplace::ListingCancelledEvent': 'listing_cancelled',
+  '::marketplace::ListingSoldEvent': 'listing_sold',
+} as const;
+
+// The QuestStore fields holding the quest contract's event handles.
+const QUEST_EVENT_HANDLES: Record<QuestEventType, string> = {
+  quest_created: 'quest_created_events',
+  quest_joined: 'quest_joined_events',
+  quest_completed: 'quest_completed_events',
+  quest_canceled: 'quest_canceled_events',
+};
+
+/**
+ * An event as the fullnode's REST API returns it. Numbers are strings.
+ */
+export interface AptosEvent {
+  version: string;
+  sequence_number: string;
+  type: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Reads a quest event from a handle's REST response.
+ * @param decimals The $Lunoa coin's decimals, to express rewards in whole tokens.
+ */
+export const toQuestEvent = (type: QuestEventType, event: AptosEvent, decimals: number): QuestEvent => {
+  const { data } = event;
+  const base = { sequenceNumber: Number(event.sequence_number), version: event.version, questId: Number(data.quest_id) };
+  switch (type) {
+    case 'quest_created':
+      return { ...base, type, creator: data.creator.toLowerCase(), title: data.title, reward: Number(data.reward) / 10 ** decimals };
+    case 'quest_joined':
+      return { ...base, type, participant: data.participant.toLowerCase() };
+    case 'quest_completed':
+      return { ...base, type, completer: data.completer.toLowerCase(), rewardPaid: Number(data.reward_paid) / 10 ** decimals };
+    case 'quest_canceled':
+      return { ...base, type, creator: data.creator.toLowerCase() };
+  }
+};
+
+/**
+ * Creates the adapter that talks to the Aptos network through the Lunoa contracts,
+ * signing transactions with the service account and the signer pool. Sequence numbers
+ * are managed locally, so transactions are sent without waiting for the ones before them.
+ * @throws If the network, contract address or service account key is missing.
+ */
+export const createAptosAdapter = (settings: AptosSettings): ChainAdapter => {
+  const { network, contractAddress, serviceAccountPrivateKey, signerPrivateKeys, lunoaCoinType, lunoaCoinDecimals } = settings;
+  if (!network || !contractAddress || !serviceAccountPrivateKey) {
+    throw new Error('APTOS_NETWORK, APTOS_CONTRACT_ADDRESS, and APTOS_SERVICE_ACCOUNT_PRIVATE_KEY must be provided in the .env file.');
+  }
+
+  const aptos = new Aptos(new AptosConfig({ network: network as Network }));
+  // Private keys from .env might have a prefix. The SDK expects a pure hex string.
+  const toAccount = (key: string) =>
+    Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(key.startsWith('ed25519-priv-') ? key.substring('ed25519-priv-'.length) : key) });
+  const serviceAccount = toAccount(serviceAccountPrivateKey);
+  const serviceAddress = serviceAccount.accountAddress.toString();
+  logger.info(`Aptos Service Account Address: ${serviceAddress}`);
+
+  const accounts = new Map<string, Account>([serviceAccount, ...signerPrivateKeys.map(toAccount)].map((account) => [account.accountAddress.toString(), account]));
+  const poolAddresses = [...accounts.keys()];
+  if (poolAddresses.length > 1) {
+    logger.info(`Aptos signer pool: ${poolAddresses.join(', ')}`);
+  }
+
+  const sequencer = createSequencer({
+    readSequenceNumber: async (address) => Number((await aptos.getAccountInfo({ accountAddress: address })).sequence_number),
+  });
+
+  // A transaction the node turned down never entered the mempool, so its number is free again.
+  const rejectLease = (lease: SequencerLease, error: unknown) => {
+    if (error instanceof AptosApiError) {
+      sequencer.release(lease);
+    }
+  };
+
+  // Reserves a sequence number of one of the senders and builds the call with it, at the
+  // attempt's gas price and to expire when the lease does.
+  const buildCall = async (
+    senders: string[],
+    fn: MoveFunctionId,
+    functionArguments: (EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes)[],
+    attempt = 1
+  ) => {
+    const lease = await sequencer.acquire(senders);
+    try {
+      const { gas_estimate: estimate } = await aptos.getGasPriceEstimation();
+      const gasUnitPrice = getGasUnitPrice(estimate, attempt, settings);
+      const transaction = await aptos.transaction.build.simple({
+        sender: lease.sender,
+        data: { function: fn, functionArguments },
+        options: { accountSequenceNumber: lease.sequenceNumber, gasUnitPrice, expireTimestamp: Math.floor(lease.expiresAt.getTime() / 1000) },
+      });
+      return { lease, gasUnitPrice, transaction, signer: accounts.get(lease.sender)! };
+    } catch (error) {
+      sequencer.release(lease);
+      throw error;
+    }
+  };
+
+  // The contracts count in the coin's smallest unit; the backend in whole $Lunoa.
+  const toCoinUnits = (amount: number) => new U64(Math.round(amount * 10 ** lunoaCoinDecimals));
+  const fromCoinUnits = (units: string) => Number(units) / 10 ** lunoaCoinDecimals;
+
+  const toMarketplaceEvents = (events: { type: string; data: any }[]): MarketplaceEvent[] =>
+    events.flatMap((event): MarketplaceEvent[] => {
+      const suffix = (Object.keys(MARKETPLACE_EVENTS) as (keyof typeof MARKETPLACE_EVENTS)[]).find((key) => event.type.endsWith(key));
+      if (!suffix) {
+        return [];
+      }
+      const { data } = event;
+      const listing = { listingId: Number(data.listing_id), tokenAddress: data.token, seller: data.seller };
+      switch (MARKETPLACE_EVENTS[suffix]) {
+        case 'listing_created':
+          return [{ type: 'listing_created', ...listing, price: fromCoinUnits(data.price) }];
+        case 'listing_cancelled':
+          return [{ type: 'listing_cancelled', ...listing }];
+        case 'listing_sold':
+          return [{ type: 'listing_sold', ...listing, buyer: data.buyer, price: fromCoinUnits(data.price) }];
+      }
+    });
+
+  // Sends a marketplace call and waits for it, so the events it emitted can be read.
+  const submitMarketplaceCall = async (
+    name: string,
+    functionArguments: EntryFunctionArgumentTypes[],
+    failureMessage: string
+  ): Promise<MarketplaceTransaction> => {
+    const { lease, gasUnitPrice, transaction, signer } = await buildCall(
+      [serviceAddress], `${contractAddress}::marketplace::${name}`, functionArguments
+    );
+
+    let submitted = false;
+    try {
+      const pending = await aptos.signAndSubmitTransaction({ signer, transaction });
+      submitted = true;
+      const committed = await aptos.waitForTransaction({ transactionHash: pending.hash });
+      return {
+        hash: committed.hash,
+        sender: lease.sender,
+        sequenceNumber: String(lease.sequenceNumber),
+        gasUnitPrice,
+        gasUsed: Number(committed.gas_used),
+        events: 'events' in committed ? toMarketplaceEvents(committed.events) : [],
+      };
+    } catch (error) {
+      if (!submitted) {
+        rejectLease(lease, error);
+      }
+      logger.error(`Error calling marketplace::${name} on-chain:`, error);
+      throw new Error(failureMessage);
+    }
+  };
+
+  // Builds and signs a call without submitting it, so its hash can be recorded first.
+  const prepareCall = async (
+    senders: string[],
+    fn: MoveFunctionId,
+    functionArguments: (EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes)[],
+    description: string,
+    { attempt }: TransactionOptions = {}
+  ): Promise<PreparedTransaction> => {
+    const { lease, gasUnitPrice, transaction, signer } = await buildCall(senders, fn, functionArguments, attempt);
+    const senderAuthenticator = aptos.transaction.sign({ signer, transaction });
+    let submitted = false;
+
+    return {
+      hash: generateUserTransactionHash({ transaction, senderAuthenticator }),
+      sender: lease.sender,
+      sequenceNumber: String(lease.sequenceNumber),
+      gasUnitPrice,
+      expiresAt: new Date(Number(transaction.rawTransaction.expiration_timestamp_secs) * 1000),
+      submit: async () => {
+        submitted = true;
+        try {
+          await aptos.transaction.submit.simple({ transaction, senderAuthenticator });
+        } catch (error) {
+          rejectLease(lease, error);
+          logger.error(`Error submitting ${description} on-chain:`, error);
+          throw new Error(`Failed to submit ${description}.`);
+        }
+      },
+      discard: () => {
+        if (!submitted) {
+          sequencer.release(lease);
+        }
+      },
+    };
+  };
+
+  const prepareQuestReward = async (recipientAddress: string, amount: number, options?: TransactionOptions): Promise<PreparedTransaction> =>
+    prepareCall(
+      poolAddresses,
+      `${contractAddress}::quests::distribute_reward`,
+      [AccountAddress.from(recipientAddress), toCoinUnits(amount)],
+      'reward distribution transaction',
+      options
+    );
+
+  const prepareVibeMint = async (
+    { collectionName, description, name, uri, recipient }: MintVibeNftPayload,
+    options?: TransactionOptions
+  ): Promise<PreparedTransaction> =>
+    prepareCall(
+      [serviceAddress],
+      `${contractAddress}::vibe_nft::mint_vibe_nft`,
+      [collectionName, description, name, uri, AccountAddress.from(recipient)],
+      'minting transaction',
+      options
+    );
+
+  const getMintedTokenAddress = async (transactionHash: string): Promise<string | null> => {
+    try {
+      const transaction = await aptos.getTransactionByHash({ transactionHash });
+      // Minting a token object emits the collection's Mint event, which carries the token's address.
+      const mintEvent = 'events' in transaction
+        ? transaction.events.find((event) => event.type.endsWith('::collection::Mint') || event.type.endsWith('::collection::MintEvent'))
+        : undefined;
+      return mintEvent?.data?.token ?? null;
+    } catch (error) {
+      logger.error(`Error reading the token minted in transaction ${transactionHash}:`, error);
+      throw new Error('Failed to read minted token.');
+    }
+  };
+
+  const getCollectionRoyalty = async (collectionName: string): Promise<CollectionRoyalty> => {
+    try {
+      const [numerator, denominator] = await aptos.view<[string, string]>({
+        payload: {
+          function: `${contractAddress}::vibe_nft::collection_royalty`,
+          functionArguments: [serviceAddress, collectionName],
+        },
+      });
+      return { numerator: Number(numerator), denominator: Number(denominator) };
+    } catch (error) {
+      logger.error(`Error reading the royalty of collection ${collectionName}:`, error);
+      throw new Error('Failed to read collection royalty.');
+    }
+  };
+
+  const createMarketplaceListing = async ({ tokenAddress, seller, price }: NewMarketplaceListing): Promise<MarketplaceTransaction> =>
+    submitMarketplaceCall(
+      'create_listing',
+      [AccountAddress.from(tokenAddress), AccountAddress.from(seller), toCoinUnits(price)],
+      'Failed to submit listing transaction.'
+    );
+
+  const cancelMarketplaceListing = async (listingId: number): Promise<MarketplaceTransaction> =>
+    submitMarketplaceCall('cancel_listing', [new U64(listingId)], 'Failed to submit listing cancellation.');
+
+  const prepareSale = (name: string, functionArguments: EntryFunctionArgumentTypes[]): Promise<PreparedTransaction> =>
+    prepareCall([serviceAddress], `${contractAddress}::marketplace::${name}`, functionArguments, 'marketplace sale');
+
+  const prepareMarketplaceSale = async (listingId: number, buyerAddress: string): Promise<PreparedTransaction> =>
+    prepareSale('complete_sale', [new U64(listingId), AccountAddress.from(buyerAddress)]);
+
+  const prepareAuctionSale = async (listingId: number, buyerAddress: string, price: number): Promise<PreparedTransaction> =>
+    prepareSale('complete_auction_sale', [new U64(listingId), AccountAddress.from(buyerAddress), toCoinUnits(price)]);
+
+  const getMarketplaceEvents = async (transactionHash: string): Promise<MarketplaceEvent[]> => {
+    try {
+      const transaction = await aptos.getTransactionByHash({ transactionHash });
+      return 'events' in transaction ? toMarketplaceEvents(transaction.events) : [];
+    } catch (error) {
+      logger.error(`Error reading marketplace events of transaction ${transactionHash}:`, error);
+      throw new Error('Failed to read marketplace events.');
+    }
+  };
+
+  const questStoreType = `${contractAddress}::quests::QuestStore` as const;
+
+  const getQuestEvents = async (type: QuestEventType, start: number, limit: number): Promise<QuestEvent[]> => {
+    try {
+      const { data } = await getAptosFullNode<{}, AptosEvent[]>({
+        aptosConfig: aptos.config,
+        originMethod: 'getQuestEvents',
+        path: `accounts/${contractAddress}/events/${questStoreType}/${QUEST_EVENT_HANDLES[type]}`,
+        params: { start, limit },
+      });
+      return data.map((event) => toQuestEvent(type, event, lunoaCoinDecimals));
+    } catch (error) {
+      logger.error(`Error reading ${type} events from ${start}:`, error);
+      throw new Error('Failed to read quest events.');
+    }
+  };
+
+  const getQuestEventCounts = async (): Promise<Record<QuestEventType, number>> => {
+    try {
+      const store = await aptos.getAccountResource({ accountAddress: contractAddress, resourceType: questStoreType });
+      return Object.fromEntries(
+        QUEST_EVENT_TYPES.map((type) => [type, Number(store[QUEST_EVENT_HANDLES[type]].counter)])
+      ) as Record<QuestEventType, number>;
+    } catch (error) {
+      logger.error('Error reading the quest event counters:', error);
+      throw new Error('Failed to read quest events.');
+    }
+  };
+
+  const getLunoaBalance = async (accountAddress: string): Promise<number> => {
+    if (!lunoaCoinType) {
+      throw new Error('LUNOA_COIN_TYPE must be provided in the .env file to read $Lunoa balances.');
+    }
+
+    try {
+      const amount = await aptos.getAccountCoinAmount({
+        accountAddress: AccountAddress.from(accountAddress),
+        coinType: lunoaCoinType as `${string}::${string}::${string}`,
+      });
+      return Math.floor(amount / 10 ** lunoaCoinDecimals);
+    } catch (error) {
+      logger.error(`Error reading $Lunoa balance of ${accountAddress}:`, error);
+      throw new Error('Failed to read $Lunoa balance.');
+    }
+  };
+
+  const waitForTransaction = async (transactionHash: string): Promise<'success' | 'failed'> => {
+    try {
+      const committed = await aptos.waitForTransaction({ transactionHash, options: { checkSuccess: false } });
+      return committed.success ? 'success' : 'failed';
+    } catch (error) {
+      logger.error(`Error waiting for transaction ${transactionHash}:`, error);
+      throw new Error('Failed to confirm transaction.');
+    }
+  };
+
+  const getTransactionReceipt = async (transactionHash: string): Promise<TransactionReceipt> => {
+    try {
+      const transaction = await aptos.getTransactionByHash({ transactionHash });
+      if (transaction.type === TransactionResponseType.Pending) {
+        return { status: 'pending', gasUsed: null };
+      }
+      return {
+        status: 'success' in transaction && transaction.success ? 'success' : 'failed',
+        gasUsed: 'gas_used' in transaction ? Number(transaction.gas_used) : null,
+      };
+    } catch (error) {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return { status: 'not_found', gasUsed: null };
+      }
+      logger.error(`Error reading transaction ${transactionHash}:`, error);
+      throw new Error('Failed to read transaction status.');
+    }
+  };
+
+  const getTransactionStatus = async (transactionHash: string): Promise<TransactionStatus> =>
+    (await getTransactionReceipt(transactionHash)).status;
+
+  const getSignerStatuses = async (): Promise<SignerStatus[]> => {
+    try {
+      return await Promise.all(poolAddresses.map(async (address) => ({
+        ...sequencer.getSignerState(address),
+        balance: (await aptos.getAccountAPTAmount({ accountAddress: address })) / 10 ** APT_DECIMALS,
+      })));
+    } catch (error) {
+      logger.error('Error reading the signers\' balances:', error);
+      throw new Error('Failed to read signer balances.');
+    }
+  };
+
+  return {
+    name: 'aptos',
+    prepareQuestReward,
+    prepareVibeMint,
+    getMintedTokenAddress,
+    getCollectionRoyalty,
+    createMarketplaceListing,
+    cancelMarketplaceListing,
+    prepareMarketplaceSale,
+    prepareAuctionSale,
+    getMarketplaceEvents,
+    getQuestEvents,
+    getQuestEventCounts,
+    getLunoaBalance,
+    waitForTransaction,
+    getTransactionStatus,
+    getTransactionReceipt,
+    getSignerStatuses,
+  };
+};
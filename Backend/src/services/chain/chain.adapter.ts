@@ -0,0 +1,212 @@
+export type TransactionStatus = 'pending' | 'success' | 'failed' | 'not_found';
+
+/**
+ * A signed transaction whose hash is known before it is sent, so callers can
+ * record the hash first and never lose track of a submission.
+ */
+export interface PreparedTransaction {
+  hash: string;
+  // The account it was signed with, and that account's sequence number it uses.
+  sender: string;
+  sequenceNumber: string;
+  // In octas.
+  gasUnitPrice: number;
+  expiresAt: Date;
+  submit: () => Promise<void>;
+  // Gives back the sequence number of a transaction that will not be submitted, so the
+  // signer's later transactions are not stuck behind it. Does nothing once submitted.
+  discard: () => void;
+}
+
+export interface MintVibeNftPayload {
+  collectionName: string;
+  description: string;
+  name: string;
+  uri: string;
+  recipient: string;
+}
+
+export interface CommittedTransaction {
+  hash: string;
+  sender: string;
+  sequenceNumber: string;
+  gasUnitPrice: number;
+  gasUsed: number;
+}
+
+/**
+ * How to sign a transaction. Each attempt at sending the same thing pays a higher gas
+ * price than the last, so it is not outbid again the way the one that expired was.
+ */
+export interface TransactionOptions {
+  // 1, the default, for the first attempt.
+  attempt?: number;
+}
+
+/**
+ * One of the accounts transactions are signed with, as the sequencer sees it.
+ */
+export interface SignerStatus {
+  address: string;
+  // APT left to pay gas with.
+  balance: number;
+  // The next new sequence number it will sign with; null until it first signs.
+  nextSequenceNumber: number | null;
+  // Transactions signed and not known to have executed or expired.
+  inFlight: number;
+}
+
+/**
+ * Where a transaction is in its lifecycle and, once committed, the gas it used.
+ */
+export interface TransactionReceipt {
+  status: TransactionStatus;
+  gasUsed: number | null;
+}
+
+// A royalty rate: numerator / denominator of a sale's price.
+export interface CollectionRoyalty {
+  numerator: number;
+  denominator: number;
+}
+
+export interface NewMarketplaceListing {
+  tokenAddress: string;
+  seller: string;
+  // In whole $Lunoa.
+  price: number;
+}
+
+/**
+ * What the marketplace contract reports about a listing. Prices are in whole $Lunoa.
+ */
+export type MarketplaceEvent =
+  | { type: 'listing_created'; listingId: number; tokenAddress: string; seller: string; price: number }
+  | { type: 'listing_cancelled'; listingId: number; tokenAddress: string; seller: string }
+  | { type: 'listing_sold'; listingId: number; tokenAddress: string; seller: string; buyer: string; price: number };
+
+export interface MarketplaceTransaction extends CommittedTransaction {
+  events: MarketplaceEvent[];
+}
+
+// The quest contract's event handles, named after the one kind of event each emits.
+export const QUEST_EVENT_TYPES = ['quest_created', 'quest_joined', 'quest_completed', 'quest_canceled'] as const;
+export type QuestEventType = typeof QUEST_EVENT_TYPES[number];
+
+/**
+ * What the quest contract reports. Rewards are in whole $Lunoa and addresses lowercased.
+ */
+export type QuestEventData =
+  | { type: 'quest_created'; questId: number; creator: string; title: string; reward: number }
+  | { type: 'quest_joined'; questId: number; participant: string }
+  | { type: 'quest_completed'; questId: number; completer: string; rewardPaid: number }
+  | { type: 'quest_canceled'; questId: number; creator: string };
+
+/**
+ * A quest event as read from its handle. Each handle numbers its events from 0; the
+ * version is the ledger version of the transaction that emitted it.
+ */
+export type QuestEvent = QuestEventData & { sequenceNumber: number; version: string };
+
+/**
+ * Everything the backend does on-chain. Services depend on this interface rather than
+ * on a particular chain SDK, so the whole API can run against the in-memory adapter.
+ */
+export interface ChainAdapter {
+  readonly name: string;
+
+  /**
+   * Builds and signs a quest reward distribution without submitting it. Rewards can be
+   * sent by any account of the signer pool, so whichever has the fewest transactions in
+   * flight signs it. Everything else is signed by the service account, which the
+   * contracts require as the Vibe collection's creator and the marketplace's operator.
+   * @param recipientAddress The address of the user receiving the reward.
+   * @param amount The amount of the reward.
+   */
+  prepareQuestReward(recipientAddress: string, amount: number, options?: TransactionOptions): Promise<PreparedTransaction>;
+
+  /**
+   * Builds and signs the mint of a Vibe NFT to the recipient without submitting it.
+   */
+  prepareVibeMint(payload: MintVibeNftPayload, options?: TransactionOptions): Promise<PreparedTransaction>;
+
+  /**
+   * Reads the address of the token object a committed mint created.
+   * @returns The address, or null if the chain did not report it.
+   */
+  getMintedTokenAddress(transactionHash: string): Promise<string | null>;
+
+  /**
+   * Reads the royalty rate of a Vibe collection minted by the service account.
+   * A collection without royalty settings pays none.
+   */
+  getCollectionRoyalty(collectionName: string): Promise<CollectionRoyalty>;
+
+  /**
+   * Lists a Vibe NFT for sale on the marketplace and waits for it to be committed.
+   * @throws If the seller does not own the token or it cannot be traded.
+   */
+  createMarketplaceListing(listing: NewMarketplaceListing): Promise<MarketplaceTransaction>;
+
+  /**
+   * Withdraws a marketplace listing and waits for it to be committed.
+   */
+  cancelMarketplaceListing(listingId: number): Promise<MarketplaceTransaction>;
+
+  /**
+   * Builds and signs the sale of a listing to the buyer without submitting it. Once
+   * committed, the NFT belongs to the buyer.
+   */
+  prepareMarketplaceSale(listingId: number, buyerAddress: string): Promise<PreparedTransaction>;
+
+  /**
+   * Builds and signs the sale of an auctioned listing to its winning bidder at the
+   * winning bid, without submitting it. The bid cannot be below the listing's price.
+   */
+  prepareAuctionSale(listingId: number, buyerAddress: string, price: number): Promise<PreparedTransaction>;
+
+  /**
+   * Reads the marketplace events a committed transaction emitted.
+   */
+  getMarketplaceEvents(transactionHash: string): Promise<MarketplaceEvent[]>;
+
+  /**
+   * Reads a page of one of the quest contract's event handles, oldest first.
+   * @param start The sequence number of the first event to read.
+   * @param limit The most events to read.
+   */
+  getQuestEvents(type: QuestEventType, start: number, limit: number): Promise<QuestEvent[]>;
+
+  /**
+   * Reads how many events each of the quest contract's handles has emitted.
+   */
+  getQuestEventCounts(): Promise<Record<QuestEventType, number>>;
+
+  /**
+   * Reads an account's $Lunoa balance in whole tokens.
+   */
+  getLunoaBalance(accountAddress: string): Promise<number>;
+
+  /**
+   * Waits for a submitted transaction to be committed.
+   * @returns 'success' or 'failed' depending on how the transaction executed.
+   */
+  waitForTransaction(transactionHash: string): Promise<'success' | 'failed'>;
+
+  /**
+   * Looks up where a transaction is in its lifecycle.
+   * @returns 'not_found' when the chain has never seen the hash or has dropped it.
+   */
+  getTransactionStatus(transactionHash: string): Promise<TransactionStatus>;
+
+  /**
+   * Looks up a transaction's status along with the gas it used, once committed.
+   */
+  getTransactionReceipt(transactionHash: string): Promise<TransactionReceipt>;
+
+  /**
+   * Reads the gas balance of every account transactions are signed with, the service
+   * account first, along with where each is in its sequence.
+   */
+  getSignerStatuses(): Promise<SignerStatus[]>;
+}
@@ -0,0 +1,47 @@
+import { getConfig, isFeatureEnabled } from '../../config/index';
+import logger from '../../config/logger';
+import { createAptosAdapter } from './aptos.adapter';
+import { ChainAdapter } from './chain.adapter';
+import { createInMemoryAdapter } from './memory.adapter';
+
+export * from './chain.adapter';
+export { createAptosAdapter, toQuestEvent } from './aptos.adapter';
+export type { AptosEvent } from './aptos.adapter';
+export { createInMemoryAdapter } from './memory.adapter';
+export type { InMemoryChainAdapter, InMemoryListing, InMemoryTransaction } from './memory.adapter';
+
+let adapter: ChainAdapter | undefined;
+
+/**
+ * Returns the chain adapter selected by CHAIN_ADAPTER, creating it on first use.
+ * @throws BLOCKCHAIN_DISABLED when the blockchain feature is turned off.
+ */
+export const getChainAdapter = (): ChainAdapter => {
+  if (adapter) {
+    return adapter;
+  }
+  if (!isFeatureEnabled('blockchain')) {
+    throw new Error('BLOCKCHAIN_DISABLED');
+  }
+
+  const { chain } = getConfig();
+  switch (chain.adapter) {
+    case 'memory':
+      logger.warn('Using the in-memory chain adapter. Nothing will be sent on-chain.');
+      adapter = createInMemoryAdapter();
+      break;
+    case 'aptos':
+      adapter = createAptosAdapter(chain.aptos);
+      break;
+    default:
+      throw new Error(`Unknown chain adapter '${chain.adapter}'.`);
+  }
+  return adapter;
+};
+
+/**
+ * Replaces the chain adapter, e.g. with an in-memory chain in tests.
+ */
+export const setChainAdapter = (next: ChainAdapter | undefined): void => {
+  adapter = next;
+};
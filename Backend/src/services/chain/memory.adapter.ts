@@ -0,0 +1,394 @@
+import { createHash } from 'crypto';
+import {
+  ChainAdapter,
+  CollectionRoyalty,
+  MarketplaceEvent,
+  MarketplaceTransaction,
+  MintVibeNftPayload,
+  NewMarketplaceListing,
+  PreparedTransaction,
+  QUEST_EVENT_TYPES,
+  QuestEvent,
+  QuestEventData,
+  QuestEventType,
+  SignerStatus,
+  TransactionOptions,
+  TransactionReceipt,
+  TransactionStatus,
+} from './chain.adapter';
+import { GasSettings, createSequencer, getGasUnitPrice } from './sequencer';
+
+// The gas every committed transaction uses, and the network's gas unit price estimate in octas.
+const GAS_USED = 7;
+const GAS_UNIT_PRICE = 100;
+const GAS_SETTINGS: GasSettings = { gasPriceBumpPercent: 25, maxGasUnitPrice: 10_000 };
+// The APT each signer starts with.
+const INITIAL_GAS_BALANCE = 100;
+const APT_DECIMALS = 8;
+
+export interface InMemoryTransaction {
+  hash: string;
+  sender: string;
+  sequenceNumber: string;
+  gasUnitPrice: number;
+  kind: 'quest_reward' | 'mint_vibe_nft' | 'create_listing' | 'cancel_listing' | 'marketplace_sale';
+  status: 'pending' | 'success' | 'failed';
+  recipient: string;
+  amount?: number;
+  payload?: MintVibeNftPayload;
+  tokenAddress?: string;
+  listingId?: number;
+  // What a committed marketplace transaction emitted.
+  events?: MarketplaceEvent[];
+}
+
+export interface InMemoryListing {
+  tokenAddress: string;
+  seller: string;
+  price: number;
+  status: 'active' | 'sold' | 'cancelled';
+}
+
+export interface InMemoryChainOptions {
+  // When false, submitted transactions stay pending until settleTransaction is called.
+  autoConfirm?: boolean;
+  // The accounts transactions are signed with, the service account first.
+  signers?: string[];
+}
+
+/**
+ * A chain that lives in memory, for running the backend offline and in tests.
+ * Transactions commit as soon as they are submitted unless autoConfirm is off.
+ */
+export interface InMemoryChainAdapter extends ChainAdapter {
+  /** Every submitted transaction, in submission order. */
+  getTransactions(): InMemoryTransaction[];
+  /** Commits or fails a pending transaction. Rewards are credited only on success. */
+  settleTransaction(transactionHash: string, status: 'success' | 'failed'): void;
+  /** Sets an account's $Lunoa balance in whole tokens. */
+  setBalance(accountAddress: string, amount: number): void;
+  /** Sets a signer's APT balance, which committed transactions pay their gas from. */
+  setGasBalance(accountAddress: string, amount: number): void;
+  /** Sets the royalty a collection's sales pay. Collections pay none until set. */
+  setCollectionRoyalty(collectionName: string, royalty: CollectionRoyalty): void;
+  /** The current owner of a minted token, lowercased, or undefined if it was not minted here. */
+  getTokenOwner(tokenAddress: string): string | undefined;
+  /** Moves a token outside the marketplace, as its owner could from their own wallet. */
+  transferToken(tokenAddress: string, to: string): void;
+  /** A marketplace listing, or undefined if it does not exist. */
+  getListing(listingId: number): InMemoryListing | undefined;
+  /** Emits a quest event, as the quest contract would when called directly. */
+  emitQuestEvent(event: QuestEventData): QuestEvent;
+  /** Appends recorded quest events to their handles, e.g. fixtures read from a real chain. */
+  replayQuestEvents(events: QuestEvent[]): void;
+  /** Drops a handle's events from this sequence number on, as a chain rolled back would. */
+  rollbackQuestEvents(type: QuestEventType, sequenceNumber: number): void;
+  /** Forgets every transaction, balance, token, listing, quest event and sequence number. */
+  reset(): void;
+}
+
+/**
+ * Creates an empty in-memory chain.
+ */
+export const createInMemoryAdapter = (options: InMemoryChainOptions = {}): InMemoryChainAdapter => {
+  const { autoConfirm = true, signers = ['0xa11ce'] } = options;
+  const [serviceAccount] = signers;
+  const transactions = new Map<string, InMemoryTransaction>();
+  const balances = new Map<string, number>();
+  const gasBalances = new Map<string, number>();
+  const royalties = new Map<string, CollectionRoyalty>();
+  const tokenOwners = new Map<string, string>();
+  const listings = new Map<number, InMemoryListing>();
+  const questEvents = new Map<QuestEventType, QuestEvent[]>(QUEST_EVENT_TYPES.map((type) => [type, []]));
+  let nonce = 0;
+  // Ledger versions keep growing across rollbacks, so a re-emitted event never looks like the one it replaced.
+  let ledgerVersion = 0;
+
+  const nextHash = () => `0x${createHash('sha256').update(`lunoa-memory-chain-${nonce++}`).digest('hex')}`;
+  const normalize = (address: string) => address.toLowerCase();
+
+  // An account's sequence number is one past the highest of its transactions to execute.
+  const readSequenceNumber = async (address: string) =>
+    [...transactions.values()]
+      .filter((transaction) => transaction.status !== 'pending' && normalize(transaction.sender) === normalize(address))
+      .reduce((next, transaction) => Math.max(next, Number(transaction.sequenceNumber) + 1), 0);
+  let sequencer = createSequencer({ readSequenceNumber });
+
+  // Signs with the next sequence number of one of the senders, at the attempt's gas price.
+  const sign = async (senders: string[], { attempt = 1 }: TransactionOptions = {}) => {
+    const lease = await sequencer.acquire(senders);
+    const hash = nextHash();
+    return {
+      hash,
+      sender: lease.sender,
+      sequenceNumber: String(lease.sequenceNumber),
+      gasUnitPrice: getGasUnitPrice(GAS_UNIT_PRICE, attempt, GAS_SETTINGS),
+      expiresAt: lease.expiresAt,
+      discard: () => {
+        if (!transactions.has(hash)) {
+          sequencer.release(lease);
+        }
+      },
+    };
+  };
+
+  const isOwner = (tokenAddress: string, address: string) => tokenOwners.get(normalize(tokenAddress)) === normalize(address);
+
+  // Whether the sale would execute, as the contract checks it. An auction sells at its
+  // winning bid, which cannot be below the listing's price.
+  const canSell = (listingId: number, buyer: string, price?: number) => {
+    const listing = listings.get(listingId);
+    return listing?.status === 'active'
+      && isOwner(listing.tokenAddress, listing.seller)
+      && normalize(listing.seller) !== normalize(buyer)
+      && (price === undefined || price >= listing.price);
+  };
+
+  const apply = (transaction: InMemoryTransaction) => {
+    if (transaction.status !== 'pending') {
+      const sender = normalize(transaction.sender);
+      gasBalances.set(sender, (gasBalances.get(sender) ?? INITIAL_GAS_BALANCE) - (GAS_USED * transaction.gasUnitPrice) / 10 ** APT_DECIMALS);
+    }
+    if (transaction.status === 'success' && transaction.kind === 'mint_vibe_nft') {
+      tokenOwners.set(transaction.tokenAddress!, normalize(transaction.recipient));
+    }
+    if (transaction.status === 'success' && transaction.kind === 'quest_reward') {
+      const address = normalize(transaction.recipient);
+      balances.set(address, (balances.get(address) ?? 0) + transaction.amount!);
+    }
+    if (transaction.status === 'success' && transaction.kind === 'marketplace_sale') {
+      const listing = listings.get(transaction.listingId!)!;
+      listing.status = 'sold';
+      listing.price = transaction.amount ?? listing.price;
+      tokenOwners.set(normalize(listing.tokenAddress), normalize(transaction.recipient));
+      transaction.events = [{
+        type: 'listing_sold',
+        listingId: transaction.listingId!,
+        tokenAddress: listing.tokenAddress,
+        seller: listing.seller,
+        buyer: transaction.recipient,
+        price: listing.price,
+      }];
+    }
+  };
+
+  const record = (transaction: InMemoryTransaction) => {
+    transactions.set(transaction.hash, transaction);
+    apply(transaction);
+  };
+
+  // Rewards can be sent by any signer; everything else by the service account.
+  const prepareQuestReward = async (recipientAddress: string, amount: number, options?: TransactionOptions): Promise<PreparedTransaction> => {
+    const { discard, ...signed } = await sign(signers, options);
+    return {
+      ...signed,
+      discard,
+      submit: async () => {
+        if (transactions.has(signed.hash)) {
+          throw new Error('Failed to submit reward distribution transaction.');
+        }
+        record({
+          ...signed, kind: 'quest_reward', status: autoConfirm ? 'success' : 'pending', recipient: recipientAddress, amount,
+        });
+      },
+    };
+  };
+
+  const prepareVibeMint = async (payload: MintVibeNftPayload, options?: TransactionOptions): Promise<PreparedTransaction> => {
+    const { discard, ...signed } = await sign([serviceAccount], options);
+    return {
+      ...signed,
+      discard,
+      submit: async () => {
+        if (transactions.has(signed.hash)) {
+          throw new Error('Failed to submit minting transaction.');
+        }
+        record({
+          ...signed,
+          kind: 'mint_vibe_nft',
+          status: autoConfirm ? 'success' : 'pending',
+          recipient: payload.recipient,
+          payload,
+          tokenAddress: nextHash(),
+        });
+      },
+    };
+  };
+
+  const getMintedTokenAddress = async (transactionHash: string): Promise<string | null> => {
+    const transaction = transactions.get(transactionHash);
+    if (!transaction || transaction.status === 'pending') {
+      throw new Error('Failed to read minted token.');
+    }
+    return transaction.status === 'success' ? transaction.tokenAddress ?? null : null;
+  };
+
+  const getCollectionRoyalty = async (collectionName: string): Promise<CollectionRoyalty> =>
+    royalties.get(collectionName) ?? { numerator: 0, denominator: 1 };
+
+  const createMarketplaceListing = async ({ tokenAddress, seller, price }: NewMarketplaceListing): Promise<MarketplaceTransaction> => {
+    if (!isOwner(tokenAddress, seller)) {
+      throw new Error('Failed to submit listing transaction.');
+    }
+    const { expiresAt, discard, ...signed } = await sign([serviceAccount]);
+    const listingId = listings.size;
+    listings.set(listingId, { tokenAddress, seller, price, status: 'active' });
+
+    const events: MarketplaceEvent[] = [{ type: 'listing_created', listingId, tokenAddress, seller, price }];
+    record({ ...signed, kind: 'create_listing', status: 'success', recipient: seller, tokenAddress, listingId, events });
+    return { ...signed, gasUsed: GAS_USED, events };
+  };
+
+  const cancelMarketplaceListing = async (listingId: number): Promise<MarketplaceTransaction> => {
+    const listing = listings.get(listingId);
+    if (listing?.status !== 'active') {
+      throw new Error('Failed to submit listing cancellation.');
+    }
+    const { expiresAt, discard, ...signed } = await sign([serviceAccount]);
+    listing.status = 'cancelled';
+
+    const events: MarketplaceEvent[] = [{ type: 'listing_cancelled', listingId, tokenAddress: listing.tokenAddress, seller: listing.seller }];
+    record({
+      ...signed, kind: 'cancel_listing', status: 'success', recipient: listing.seller, tokenAddress: listing.tokenAddress, listingId, events,
+    });
+    return { ...signed, gasUsed: GAS_USED, events };
+  };
+
+  // Sales of auctions carry the winning bid as their amount.
+  const prepareSale = async (listingId: number, buyerAddress: string, price?: number): Promise<PreparedTransaction> => {
+    const { discard, ...signed } = await sign([serviceAccount]);
+    return {
+      ...signed,
+      discard,
+      submit: async () => {
+        if (transactions.has(signed.hash)) {
+          throw new Error('Failed to submit marketplace sale.');
+        }
+        const status = !autoConfirm ? 'pending' : canSell(listingId, buyerAddress, price) ? 'success' : 'failed';
+        record({ ...signed, kind: 'marketplace_sale', status, recipient: buyerAddress, listingId, amount: price });
+      },
+    };
+  };
+
+  const prepareMarketplaceSale = async (listingId: number, buyerAddress: string): Promise<PreparedTransaction> =>
+    prepareSale(listingId, buyerAddress);
+
+  const prepareAuctionSale = async (listingId: number, buyerAddress: string, price: number): Promise<PreparedTransaction> =>
+    prepareSale(listingId, buyerAddress, price);
+
+  const getMarketplaceEvents = async (transactionHash: string): Promise<MarketplaceEvent[]> => {
+    const transaction = transactions.get(transactionHash);
+    if (!transaction || transaction.status === 'pending') {
+      throw new Error('Failed to read marketplace events.');
+    }
+    return transaction.events ?? [];
+  };
+
+  const getQuestEvents = async (type: QuestEventType, start: number, limit: number): Promise<QuestEvent[]> =>
+    questEvents.get(type)!.slice(start, start + limit);
+
+  const getQuestEventCounts = async (): Promise<Record<QuestEventType, number>> =>
+    Object.fromEntries(QUEST_EVENT_TYPES.map((type) => [type, questEvents.get(type)!.length])) as Record<QuestEventType, number>;
+
+  const getLunoaBalance = async (accountAddress: string): Promise<number> =>
+    Math.floor(balances.get(normalize(accountAddress)) ?? 0);
+
+  const waitForTransaction = async (transactionHash: string): Promise<'success' | 'failed'> => {
+    const transaction = transactions.get(transactionHash);
+    if (!transaction || transaction.status === 'pending') {
+      throw new Error('Failed to confirm transaction.');
+    }
+    return transaction.status;
+  };
+
+  const getTransactionStatus = async (transactionHash: string): Promise<TransactionStatus> =>
+    transactions.get(transactionHash)?.status ?? 'not_found';
+
+  const getTransactionReceipt = async (transactionHash: string): Promise<TransactionReceipt> => {
+    const status = await getTransactionStatus(transactionHash);
+    return { status, gasUsed: status === 'success' || status === 'failed' ? GAS_USED : null };
+  };
+
+  const getSignerStatuses = async (): Promise<SignerStatus[]> =>
+    signers.map((address) => ({
+      ...sequencer.getSignerState(address),
+      balance: gasBalances.get(normalize(address)) ?? INITIAL_GAS_BALANCE,
+    }));
+
+  return {
+    name: 'memory',
+    prepareQuestReward,
+    prepareVibeMint,
+    getMintedTokenAddress,
+    getCollectionRoyalty,
+    createMarketplaceListing,
+    cancelMarketplaceListing,
+    prepareMarketplaceSale,
+    prepareAuctionSale,
+    getMarketplaceEvents,
+    getQuestEvents,
+    getQuestEventCounts,
+    getLunoaBalance,
+    waitForTransaction,
+    getTransactionStatus,
+    getTransactionReceipt,
+    getSignerStatuses,
+    getTransactions: () => [...transactions.values()],
+    settleTransaction: (transactionHash, status) => {
+      const transaction = transactions.get(transactionHash);
+      if (!transaction || transaction.status !== 'pending') {
+        throw new Error(`Transaction ${transactionHash} is not pending.`);
+      }
+      // A sale the contract would reject aborts however it is settled.
+      const executable = transaction.kind !== 'marketplace_sale' || canSell(transaction.listingId!, transaction.recipient, transaction.amount);
+      transaction.status = executable ? status : 'failed';
+      apply(transaction);
+    },
+    setBalance: (accountAddress, amount) => {
+      balances.set(normalize(accountAddress), amount);
+    },
+    setGasBalance: (accountAddress, amount) => {
+      gasBalances.set(normalize(accountAddress), amount);
+    },
+    setCollectionRoyalty: (collectionName, royalty) => {
+      royalties.set(collectionName, royalty);
+    },
+    getTokenOwner: (tokenAddress) => tokenOwners.get(normalize(tokenAddress)),
+    transferToken: (tokenAddress, to) => {
+      tokenOwners.set(normalize(tokenAddress), normalize(to));
+    },
+    getListing: (listingId) => listings.get(listingId),
+    emitQuestEvent: (data) => {
+      const handle = questEvents.get(data.type)!;
+      ledgerVersion += 1;
+      const event = { ...data, sequenceNumber: handle.length, version: String(ledgerVersion) } as QuestEvent;
+      handle.push(event);
+      return event;
+    },
+    replayQuestEvents: (events) => {
+      for (const event of events) {
+        const handle = questEvents.get(event.type)!;
+        if (event.sequenceNumber !== handle.length) {
+          throw new Error(`Expected ${event.type} event ${handle.length}, got ${event.sequenceNumber}.`);
+        }
+        handle.push(event);
+        ledgerVersion = Math.max(ledgerVersion, Number(event.version));
+      }
+    },
+    rollbackQuestEvents: (type, sequenceNumber) => {
+      questEvents.get(type)!.splice(sequenceNumber);
+    },
+    reset: () => {
+      transactions.clear();
+      sequencer = createSequencer({ readSequenceNumber });
+      balances.clear();
+      gasBalances.clear();
+      royalties.clear();
+      tokenOwners.clear();
+      listings.clear();
+      for (const handle of questEvents.values()) {
+        handle.length = 0;
+      }
+    },
+  };
+};
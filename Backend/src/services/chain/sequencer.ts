@@ -0,0 +1,165 @@
+// How long a signed transaction stays valid, matching the Aptos SDK default.
+export const TRANSACTION_TTL_MS = 20_000;
+// Allowance for drift between our clock and the chain's when judging expiry.
+const EXPIRY_GRACE_MS = 30_000;
+
+export interface GasSettings {
+  // Each further attempt at sending the same thing raises the gas unit price by this much, in percent.
+  gasPriceBumpPercent: number;
+  // The gas unit price is never raised above this, in octas.
+  maxGasUnitPrice: number;
+}
+
+/**
+ * A sequence number reserved for one transaction of one signer. A transaction must be
+ * signed to expire at expiresAt, so the number can be reused if it never executes.
+ */
+export interface SequencerLease {
+  sender: string;
+  sequenceNumber: number;
+  expiresAt: Date;
+}
+
+export interface SignerState {
+  address: string;
+  // The next new sequence number to hand out; null until it has been read from the chain.
+  nextSequenceNumber: number | null;
+  // Numbers handed out whose transactions may still execute.
+  inFlight: number;
+}
+
+export interface SequencerOptions {
+  /** Reads an account's sequence number on-chain: the number of its next transaction to execute. */
+  readSequenceNumber: (address: string) => Promise<number>;
+  ttlMs?: number;
+}
+
+/**
+ * Hands out sequence numbers for a pool of signers without asking the chain each time,
+ * so transactions can be signed and sent back to back instead of one commit at a time.
+ */
+export interface TransactionSequencer {
+  /**
+   * Reserves a sequence number of whichever of the senders has the fewest transactions in
+   * flight. A number whose transaction expired without executing is handed out again
+   * before any new one, so the transactions signed after it are not stuck behind the gap.
+   */
+  acquire(senders: string[]): Promise<SequencerLease>;
+  /**
+   * Gives back a number whose transaction the chain rejected, so it is handed out again.
+   * The sender's sequence number is read again before its next lease, in case the
+   * rejection was for a number the chain has already used.
+   */
+  release(lease: SequencerLease): void;
+  getSignerState(address: string): SignerState;
+}
+
+interface Signer {
+  address: string;
+  next: number | null;
+  // Given back or expired without executing, lowest first.
+  gaps: number[];
+  // The expiry of every number handed out that may still execute.
+  inFlight: Map<number, number>;
+  // Acquires waiting on this signer, counted so concurrent ones spread over the pool.
+  waiting: number;
+  stale: boolean;
+  // Acquires run one at a time per signer.
+  queue: Promise<void>;
+}
+
+/**
+ * The gas unit price of an attempt: the network's estimate, raised by the bump for every
+ * attempt after the first and capped at the maximum.
+ * @param attempt 1 for the first attempt.
+ */
+export const getGasUnitPrice = (estimate: number, attempt: number, settings: GasSettings): number =>
+  Math.min(
+    Math.ceil(estimate * (1 + settings.gasPriceBumpPercent / 100) ** Math.max(attempt - 1, 0)),
+    settings.maxGasUnitPrice
+  );
+
+/**
+ * Creates a sequencer that knows nothing yet; each signer's sequence number is read from
+ * the chain on its first lease. Only one process may send transactions for a signer.
+ */
+export const createSequencer = ({ readSequenceNumber, ttlMs = TRANSACTION_TTL_MS }: SequencerOptions): TransactionSequencer => {
+  const signers = new Map<string, Signer>();
+
+  const getSigner = (address: string): Signer => {
+    const key = address.toLowerCase();
+    let signer = signers.get(key);
+    if (!signer) {
+      signer = { address, next: null, gaps: [], inFlight: new Map(), waiting: 0, stale: false, queue: Promise.resolve() };
+      signers.set(key, signer);
+    }
+    return signer;
+  };
+
+  // Numbers below the chain's have executed, whether with our transaction or another.
+  // Numbers above it whose transactions expired never will.
+  const sync = async (signer: Signer) => {
+    const onChain = await readSequenceNumber(signer.address);
+    const now = Date.now();
+    signer.next = Math.max(signer.next ?? onChain, onChain);
+    signer.gaps = signer.gaps.filter((sequenceNumber) => sequenceNumber >= onChain);
+    for (const [sequenceNumber, expiresAt] of signer.inFlight) {
+      if (sequenceNumber < onChain) {
+        signer.inFlight.delete(sequenceNumber);
+      } else if (expiresAt + EXPIRY_GRACE_MS < now) {
+        signer.inFlight.delete(sequenceNumber);
+        signer.gaps.push(sequenceNumber);
+      }
+    }
+    signer.gaps.sort((a, b) => a - b);
+    signer.stale = false;
+  };
+
+  const hasExpired = (signer: Signer) => {
+    const now = Date.now();
+    return [...signer.inFlight.values()].some((expiresAt) => expiresAt + EXPIRY_GRACE_MS < now);
+  };
+
+  const lease = async (signer: Signer): Promise<SequencerLease> => {
+    if (signer.next === null || signer.stale || hasExpired(signer)) {
+      await sync(signer);
+    }
+    const sequenceNumber = signer.gaps.shift() ?? signer.next!++;
+    const expiresAt = Date.now() + ttlMs;
+    signer.inFlight.set(sequenceNumber, expiresAt);
+    return { sender: signer.address, sequenceNumber, expiresAt: new Date(expiresAt) };
+  };
+
+  const acquire = async (senders: string[]): Promise<SequencerLease> => {
+    if (senders.length === 0) {
+      throw new Error('No signer to send the transaction with.');
+    }
+    const load = (signer: Signer) => signer.inFlight.size + signer.waiting;
+    const signer = senders.map(getSigner).reduce((best, candidate) => (load(candidate) < load(best) ? candidate : best));
+
+    signer.waiting += 1;
+    const leased = signer.queue.then(() => lease(signer));
+    signer.queue = leased.then(() => undefined, () => undefined);
+    try {
+      return await leased;
+    } finally {
+      signer.waiting -= 1;
+    }
+  };
+
+  const release = ({ sender, sequenceNumber }: SequencerLease) => {
+    const signer = getSigner(sender);
+    if (signer.inFlight.delete(sequenceNumber)) {
+      signer.gaps.push(sequenceNumber);
+      signer.gaps.sort((a, b) => a - b);
+    }
+    signer.stale = true;
+  };
+
+  const getSignerState = (address: string): SignerState => {
+    const signer = getSigner(address);
+    return { address: signer.address, nextSequenceNumber: signer.next, inFlight: signer.inFlight.size };
+  };
+
+  return { acquire, release, getSignerState };
+};
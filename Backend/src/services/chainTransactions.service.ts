@@ -0,0 +1,206 @@
+import { Pool, PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+import { CommittedTransaction, PreparedTransaction, TransactionReceipt, getChainAdapter } from './chain';
+import { EXPIRY_GRACE_MS } from './payouts.service';
+
+export const TRANSACTION_PURPOSES = ['vibe_mint', 'quest_reward', 'marketplace_listing', 'marketplace_cancellation', 'marketplace_sale'] as const;
+export type TransactionPurpose = typeof TRANSACTION_PURPOSES[number];
+
+export const CHAIN_TRANSACTION_STATUSES = ['pending', 'success', 'failed', 'expired'] as const;
+export type ChainTransactionStatus = typeof CHAIN_TRANSACTION_STATUSES[number];
+
+export type TransactionEntityType = 'vibe' | 'reward_payout' | 'marketplace_listing' | 'marketplace_sale';
+
+// The kind of row each purpose's transactions act for.
+const PURPOSE_ENTITIES: Record<TransactionPurpose, TransactionEntityType> = {
+  vibe_mint: 'vibe',
+  quest_reward: 'reward_payout',
+  marketplace_listing: 'marketplace_listing',
+  marketplace_cancellation: 'marketplace_listing',
+  marketplace_sale: 'marketplace_sale',
+};
+
+/**
+ * A transaction the backend submitted on-chain. 'pending' ones are waiting to be
+ * committed; 'expired' ones never were and never can be.
+ */
+export interface ChainTransaction {
+  id: number;
+  tx_hash: string;
+  purpose: TransactionPurpose;
+  entity_type: TransactionEntityType;
+  entity_id: number;
+  user_id: string | null;
+  // The signer that sent it and its sequence number.
+  sender: string | null;
+  sequence_number: string | null;
+  gas_unit_price: string | null;
+  gas_used: string | null;
+  status: ChainTransactionStatus;
+  expires_at: Date | null;
+  committed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TrackedTransaction {
+  purpose: TransactionPurpose;
+  // The ID of the row the transaction acts for, e.g. the minted Vibe's.
+  entityId: number;
+  // Who it is sent for.
+  userId: string | null;
+}
+
+export interface TransactionFilter {
+  purpose?: TransactionPurpose;
+  status?: ChainTransactionStatus;
+  limit: number;
+  offset: number;
+}
+
+const RECONCILE_BATCH_SIZE = 50;
+
+/**
+ * Records a signed transaction as pending. Call it before submitting the transaction, so
+ * nothing is ever sent without being tracked.
+ */
+export const recordPreparedTransaction = async (
+  db: Pool | PoolClient,
+  prepared: PreparedTransaction,
+  tracked: TrackedTransaction
+): Promise<ChainTransaction> => {
+  const { rows } = await db.query(
+    `INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, sender, sequence_number, gas_unit_price, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING *`,
+    [
+      prepared.hash, tracked.purpose, PURPOSE_ENTITIES[tracked.purpose], tracked.entityId, tracked.userId,
+      prepared.sender, prepared.sequenceNumber, prepared.gasUnitPrice, prepared.expiresAt,
+    ]
+  );
+  return rows[0];
+};
+
+/**
+ * Records a transaction that was waited for and committed.
+ */
+export const recordCommittedTransaction = async (
+  db: Pool | PoolClient,
+  committed: CommittedTransaction,
+  tracked: TrackedTransaction
+): Promise<ChainTransaction> => {
+  const { rows } = await db.query(
+    `INSERT INTO chain_transactions (tx_hash, purpose, entity_type, entity_id, user_id, sender, sequence_number, gas_unit_price, gas_used, status, committed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'success', NOW())
+     RETURNING *`,
+    [
+      committed.hash, tracked.purpose, PURPOSE_ENTITIES[tracked.purpose], tracked.entityId, tracked.userId,
+      committed.sender, committed.sequenceNumber, committed.gasUnitPrice, committed.gasUsed,
+    ]
+  );
+  return rows[0];
+};
+
+/**
+ * Retrieves a transaction by its hash. Users see the transactions sent for them; admins see every one.
+ * @returns The transaction, or null if it was not sent by the backend or is someone else's.
+ */
+export const getTransactionByHash = async (txHash: string, userId: string): Promise<ChainTransaction | null> => {
+  const { rows } = await getPool().query(
+    `SELECT t.* FROM chain_transactions t
+     WHERE t.tx_hash = $1
+       AND (t.user_id = $2 OR EXISTS (SELECT 1 FROM users u WHERE u.id = $2 AND u.is_admin))`,
+    [txHash.toLowerCase(), userId]
+  );
+  return rows[0] ?? null;
+};
+
+/**
+ * Retrieves the transactions sent for a user, newest first.
+ */
+export const getUserTransactions = async (userId: string, filter: TransactionFilter): Promise<ChainTransaction[]> => {
+  const values: unknown[] = [userId];
+  let query = 'SELECT * FROM chain_transactions WHERE user_id = $1';
+  if (filter.purpose) {
+    values.push(filter.purpose);
+    query += ` AND purpose = $${values.length}`;
+  }
+  if (filter.status) {
+    values.push(filter.status);
+    query += ` AND status = $${values.length}`;
+  }
+  values.push(filter.limit, filter.offset);
+  query += ` ORDER BY created_at DESC, id DESC LIMIT $${values.length - 1} OFFSET $${values.length}`;
+
+  const { rows } = await getPool().query(query, values);
+  return rows;
+};
+
+/**
+ * Records a committed transaction's outcome. A committed mint also records the token it
+ * created on its Vibe, which can then be traded.
+ */
+const settleTransaction = async (transaction: ChainTransaction, receipt: TransactionReceipt) => {
+  // Read before locking anything: the token comes from the chain.
+  const tokenAddress = transaction.purpose === 'vibe_mint' && receipt.status === 'success'
+    ? await getChainAdapter().getMintedTokenAddress(transaction.tx_hash)
+    : null;
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const { rowCount } = await client.query(
+      `UPDATE chain_transactions SET status = $2, gas_used = $3, committed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status = 'pending'`,
+      [transaction.id, receipt.status, receipt.gasUsed]
+    );
+    if (rowCount && tokenAddress) {
+      await client.query('UPDATE vibes SET token_address = $2 WHERE id = $1 AND token_address IS NULL', [transaction.entity_id, tokenAddress]);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (receipt.status === 'failed') {
+    logger.warn(`Transaction ${transaction.tx_hash} (${transaction.purpose} of ${transaction.entity_type} ${transaction.entity_id}) failed on-chain.`);
+  }
+};
+
+/**
+ * Settles pending transactions by looking them up on-chain. A transaction the chain has
+ * not seen by its expiry can never execute, so it is marked expired.
+ * @returns The number of transactions that reached a final status.
+ */
+export const reconcilePendingTransactions = async (): Promise<number> => {
+  const { rows } = await getPool().query<ChainTransaction>(
+    "SELECT * FROM chain_transactions WHERE status = 'pending' ORDER BY updated_at LIMIT $1",
+    [RECONCILE_BATCH_SIZE]
+  );
+
+  let settled = 0;
+  for (const transaction of rows) {
+    try {
+      const receipt = await getChainAdapter().getTransactionReceipt(transaction.tx_hash);
+      if (receipt.status === 'success' || receipt.status === 'failed') {
+        await settleTransaction(transaction, receipt);
+      } else if (receipt.status === 'not_found' && transaction.expires_at && transaction.expires_at.getTime() + EXPIRY_GRACE_MS < Date.now()) {
+        await getPool().query(
+          "UPDATE chain_transactions SET status = 'expired', updated_at = NOW() WHERE id = $1 AND status = 'pending'",
+          [transaction.id]
+        );
+        logger.warn(`Transaction ${transaction.tx_hash} (${transaction.purpose} of ${transaction.entity_type} ${transaction.entity_id}) expired before it was committed.`);
+      } else {
+        continue;
+      }
+      settled += 1;
+    } catch (error) {
+      logger.error(`Error reconciling transaction ${transaction.tx_hash}:`, error);
+    }
+  }
+  return settled;
+};
@@ -0,0 +1,236 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { CheckInFlag, CheckInStatus, Geofence, LocationFix, assessCheckIn } from '../utils/checkInRules';
+import { RewardPayout } from './payouts.service';
+import { hasCompletionDeadlinePassed, hasQuestExpired, recordQuestVerification } from './quests.service';
+import { QuestSubmission, SubmissionEvidence, createSubmission, getMissingEvidence } from './submissions.service';
+
+/**
+ * A stored check-in attempt: the participant's fix, what the server made of it, and
+ * where the request came from.
+ */
+export interface QuestCheckIn {
+  id: number;
+  quest_id: string;
+  step_id: number | null;
+  user_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy_m: number;
+  recorded_at: Date;
+  received_at: Date;
+  distance_m: number;
+  geofence_radius_m: number;
+  previous_check_in_id: number | null;
+  speed_mps: number | null;
+  status: CheckInStatus;
+  flags: CheckInFlag[];
+  auto_verified: boolean;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export interface CheckInRequest extends LocationFix {
+  // Any further evidence the quest requires.
+  evidence?: SubmissionEvidence;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface CheckInResult {
+  checkIn: QuestCheckIn;
+  // The submission the check-in completed the quest with, unless it was rejected.
+  submission: QuestSubmission | null;
+  // Set when the check-in verified the participant and the quest has a reward.
+  payout: RewardPayout | null;
+}
+
+export interface CheckInTarget {
+  questId: string;
+  // Set when checking in for one of a chain quest's steps.
+  stepId?: number;
+  geofence: Geofence;
+  // Whether a check-in that passes every check verifies the participant.
+  autoVerify: boolean;
+}
+
+/**
+ * Assesses a participant's fix against a geofence and stores the check-in on the caller's
+ * transaction, whatever its outcome. The user's last fix, on any quest, is the baseline
+ * for the travel-speed check.
+ */
+export const recordCheckIn = async (client: PoolClient, userId: string, target: CheckInTarget, request: CheckInRequest): Promise<QuestCheckIn> => {
+  const previousResult = await client.query(
+    `SELECT id, latitude, longitude, accuracy_m, recorded_at
+     FROM quest_check_ins WHERE user_id = $1
+     ORDER BY received_at DESC, id DESC LIMIT 1`,
+    [userId]
+  );
+  const previous = previousResult.rows[0];
+
+  const assessment = assessCheckIn(
+    request,
+    target.geofence,
+    previous
+      ? { latitude: previous.latitude, longitude: previous.longitude, accuracy: previous.accuracy_m, recordedAt: previous.recorded_at }
+      : null
+  );
+
+  const { rows } = await client.query(
+    `INSERT INTO quest_check_ins (
+       quest_id, user_id, latitude, longitude, accuracy_m, recorded_at, distance_m, geofence_radius_m,
+       previous_check_in_id, speed_mps, status, flags, auto_verified, ip_address, user_agent, step_id
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+     RETURNING *`,
+    [
+      target.questId, userId, request.latitude, request.longitude, request.accuracy, request.recordedAt,
+      assessment.distance, target.geofence.radius, previous?.id ?? null, assessment.speed,
+      assessment.status, assessment.flags, assessment.status === 'passed' && target.autoVerify,
+      request.ipAddress ?? null, request.userAgent ?? null, target.stepId ?? null,
+    ]
+  );
+  return rows[0];
+};
+
+/**
+ * Records a participant's check-in on a location-based quest. A check-in inside the
+ * geofence that passes every plausibility check completes the quest: it verifies the
+ * participant straight away if the quest allows it, and otherwise awaits the creator
+ * like any other submission. A flagged check-in also awaits the creator, who can see
+ * its flags. A rejected check-in changes nothing and the participant may try again.
+ * Every attempt is stored, whatever its outcome.
+ * @throws QUEST_NOT_FOUND, QUEST_ON_CHAIN, NOT_LOCATION_BASED, STEPS_REQUIRED, QUEST_EXPIRED, QUEST_NOT_ACTIVE, QUEST_HAS_NO_LOCATION,
+ *         NOT_A_PARTICIPANT, ALREADY_SUBMITTED, COMPLETION_DEADLINE_PASSED, and the evidence errors of createSubmission
+ */
+export const checkInToQuest = async (questId: string, groupId: number, userId: string, request: CheckInRequest): Promise<CheckInResult> => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const questResult = await client.query(
+      `SELECT type, status, expires_at, latitude, longitude, geofence_radius_m, check_in_auto_verify, required_evidence, reward, chain_quest_id,
+         (SELECT COUNT(*) FROM quest_steps s WHERE s.quest_id = quests.id) AS step_count
+       FROM quests WHERE id = $1 AND group_id = $2`,
+      [questId, groupId]
+    );
+    if (questResult.rows.length === 0) {
+      throw new Error('QUEST_NOT_FOUND');
+    }
+    const quest = questResult.rows[0];
+    // Quests created on the quest contract are completed there.
+    if (quest.chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+    if (quest.type !== 'location_based') {
+      throw new Error('NOT_LOCATION_BASED');
+    }
+    // Chain quests are checked in to step by step.
+    if (parseInt(quest.step_count, 10) > 0) {
+      throw new Error('STEPS_REQUIRED');
+    }
+    if (hasQuestExpired(quest)) {
+      throw new Error('QUEST_EXPIRED');
+    }
+    if (quest.status !== 'active') {
+      throw new Error('QUEST_NOT_ACTIVE');
+    }
+    if (quest.latitude === null || quest.longitude === null) {
+      throw new Error('QUEST_HAS_NO_LOCATION');
+    }
+
+    const participantResult = await client.query(
+      'SELECT status, deadline_at FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE',
+      [questId, userId]
+    );
+    if (participantResult.rows.length === 0) {
+      throw new Error('NOT_A_PARTICIPANT');
+    }
+    const participant = participantResult.rows[0];
+    if (participant.status === 'submitted' || participant.status === 'verified') {
+      throw new Error('ALREADY_SUBMITTED');
+    }
+    if (hasCompletionDeadlinePassed(participant)) {
+      throw new Error('COMPLETION_DEADLINE_PASSED');
+    }
+
+    // Incomplete submissions are turned away before the fix is recorded.
+    if (getMissingEvidence(quest.required_evidence, request.evidence ?? {}).length > 0) {
+      throw new Error('MISSING_EVIDENCE');
+    }
+
+    const checkIn = await recordCheckIn(client, userId, {
+      questId,
+      geofence: { latitude: quest.latitude, longitude: quest.longitude, radius: quest.geofence_radius_m },
+      autoVerify: quest.check_in_auto_verify,
+    }, request);
+
+    if (checkIn.status === 'rejected') {
+      await client.query('COMMIT');
+      return { checkIn, submission: null, payout: null };
+    }
+
+    const submission = await createSubmission(client, {
+      questId,
+      userId,
+      requiredEvidence: quest.required_evidence,
+      evidence: request.evidence ?? {},
+      checkInId: checkIn.id,
+      approved: checkIn.auto_verified,
+    });
+
+    let payout: RewardPayout | null = null;
+    if (checkIn.auto_verified) {
+      payout = await recordQuestVerification(client, questId, userId, Number(quest.reward), { questId, groupId, participantId: userId, checkInId: checkIn.id, submissionId: submission.id });
+    } else {
+      await client.query(
+        "UPDATE quest_participants SET status = 'submitted', updated_at = NOW() WHERE quest_id = $1 AND user_id = $2",
+        [questId, userId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return { checkIn, submission, payout };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a quest's check-ins, newest first. The quest's creator sees everyone's,
+ * e.g. to review flagged ones; participants see only their own.
+ * @param status Optional status to filter by.
+ * @throws QUEST_NOT_FOUND
+ */
+export const getQuestCheckIns = async (questId: string, groupId: number, userId: string, status?: CheckInStatus) => {
+  const pool = getPool();
+
+  const questResult = await pool.query('SELECT creator_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+  if (questResult.rows.length === 0) {
+    throw new Error('QUEST_NOT_FOUND');
+  }
+
+  const params: unknown[] = [questId];
+  let query = `
+    SELECT c.*, u.username
+    FROM quest_check_ins c
+    JOIN users u ON u.id = c.user_id
+    WHERE c.quest_id = $1
+  `;
+  if (questResult.rows[0].creator_id !== userId) {
+    params.push(userId);
+    query += ` AND c.user_id = $${params.length}`;
+  }
+  if (status) {
+    params.push(status);
+    query += ` AND c.status = $${params.length}`;
+  }
+  query += ' ORDER BY c.received_at DESC, c.id DESC';
+
+  const { rows } = await pool.query(query, params);
+  return rows;
+};
@@ -0,0 +1,197 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+import { creditWallet, debitWallet } from './wallet.service';
+
+export const ESCROW_FUNDING_SOURCES = ['creator', 'treasury'] as const;
+export type EscrowFundingSource = typeof ESCROW_FUNDING_SOURCES[number];
+
+// Group roles that may fund a quest from the treasury, besides the group's creator.
+const TREASURY_FUNDING_ROLES = ['creator', 'admin'];
+
+/**
+ * A quest's locked reward budget. What is neither paid nor refunded remains available.
+ */
+export interface QuestEscrow {
+  id: number;
+  quest_id: string | null;
+  funding_source: EscrowFundingSource;
+  funder_id: string | null;
+  group_id: number | null;
+  amount_locked: string;
+  amount_paid: string;
+  amount_refunded: string;
+  status: 'active' | 'closed';
+  created_at: Date;
+  updated_at: Date;
+  closed_at: Date | null;
+}
+
+export interface EscrowRequest {
+  questId: string;
+  groupId: number;
+  // The quest's creator, who pays from their wallet or asks for the treasury to.
+  creatorId: string;
+  source: EscrowFundingSource;
+  amount: number;
+}
+
+/**
+ * Locks a new quest's reward budget on the caller's transaction, debiting the creator's
+ * wallet or the group's treasury. Only the group's creator and admins may spend the treasury.
+ * @throws INSUFFICIENT_FUNDS, TREASURY_FUNDING_FORBIDDEN; the caller must roll back.
+ */
+export const lockQuestEscrow = async (client: PoolClient, request: EscrowRequest): Promise<QuestEscrow> => {
+  const { questId, groupId, creatorId, source, amount } = request;
+
+  if (source === 'creator') {
+    await debitWallet(client, 'escrow_lock', { userId: creatorId, amount, questId, description: 'Quest reward escrow' });
+  } else {
+    const { rows } = await client.query(
+      `SELECT fg.creator_id, m.role
+       FROM feed_groups fg
+       LEFT JOIN feed_group_members m ON m.group_id = fg.id AND m.user_id = $2
+       WHERE fg.id = $1`,
+      [groupId, creatorId]
+    );
+    const group = rows[0];
+    if (!group || (group.creator_id !== creatorId && !TREASURY_FUNDING_ROLES.includes(group.role))) {
+      throw new Error('TREASURY_FUNDING_FORBIDDEN');
+    }
+
+    const { rowCount } = await client.query(
+      'UPDATE feed_groups SET treasury_balance = treasury_balance - $1 WHERE id = $2 AND treasury_balance >= $1',
+      [amount, groupId]
+    );
+    if (!rowCount) {
+      throw new Error('INSUFFICIENT_FUNDS');
+    }
+    await client.query(
+      `INSERT INTO treasury_transactions (group_id, user_id, transaction_type, amount, description, quest_id)
+       VALUES ($1, $2, 'withdrawal', $3, 'Quest reward escrow', $4)`,
+      [groupId, creatorId, amount, questId]
+    );
+  }
+
+  const { rows } = await client.query(
+    `INSERT INTO quest_escrows (quest_id, funding_source, funder_id, group_id, amount_locked)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [questId, source, creatorId, groupId, amount]
+  );
+  return rows[0];
+};
+
+/**
+ * Adds group treasury funds to a quest's escrow on the caller's transaction, so it can pay
+ * more rewards. Only an active escrow the same group's treasury funded can be topped up:
+ * whatever is left of it is refunded to the treasury, never to a creator's wallet.
+ * @throws QUEST_NOT_FUNDABLE; the caller must roll back.
+ */
+export const topUpQuestEscrow = async (client: PoolClient, questId: string, groupId: number, amount: number): Promise<QuestEscrow> => {
+  const { rows } = await client.query(
+    `UPDATE quest_escrows
+     SET amount_locked = amount_locked + $3, updated_at = NOW()
+     WHERE quest_id = $1 AND group_id = $2 AND funding_source = 'treasury' AND status = 'active'
+     RETURNING *`,
+    [questId, groupId, amount]
+  );
+  if (rows.length === 0) {
+    throw new Error('QUEST_NOT_FUNDABLE');
+  }
+  return rows[0];
+};
+
+/**
+ * Takes one reward out of a quest's escrow on the caller's transaction.
+ * @returns False if the quest predates escrows and so has none to draw from.
+ * @throws ESCROW_EXHAUSTED when what is left does not cover the reward; the caller must roll back.
+ */
+export const drawFromEscrow = async (client: PoolClient, questId: string, amount: number): Promise<boolean> => {
+  const { rows } = await client.query(
+    `UPDATE quest_escrows
+     SET amount_paid = amount_paid + $2, updated_at = NOW()
+     WHERE quest_id = $1 AND status = 'active' AND amount_paid + amount_refunded + $2 <= amount_locked
+     RETURNING id`,
+    [questId, amount]
+  );
+  if (rows.length > 0) {
+    return true;
+  }
+
+  const { rowCount } = await client.query('SELECT 1 FROM quest_escrows WHERE quest_id = $1', [questId]);
+  if (rowCount) {
+    throw new Error('ESCROW_EXHAUSTED');
+  }
+  return false;
+};
+
+/**
+ * Returns what a quest that is over no longer needs from its escrow to the funder, on the
+ * caller's transaction, as the contract's cancel_quest does. One reward per participant
+ * still awaiting review is held back until they are reviewed; call this again afterwards.
+ * The escrow closes once nothing is held back.
+ * @param holdBack Whether to hold rewards back for submissions awaiting review. A deleted
+ *                 quest has none to wait for.
+ * @returns The amount refunded.
+ */
+export const refundQuestEscrow = async (client: PoolClient, questId: string, holdBack: boolean = true): Promise<number> => {
+  const { rows } = await client.query(
+    `SELECT e.*, q.reward, q.title,
+       (SELECT COUNT(*) FROM quest_participants qp WHERE qp.quest_id = e.quest_id AND qp.status = 'submitted') AS awaiting_review
+     FROM quest_escrows e
+     JOIN quests q ON q.id = e.quest_id
+     WHERE e.quest_id = $1 AND e.status = 'active'
+     FOR UPDATE OF e`,
+    [questId]
+  );
+  if (rows.length === 0) {
+    return 0;
+  }
+  const escrow = rows[0];
+
+  const reserved = holdBack ? parseFloat(escrow.reward) * parseInt(escrow.awaiting_review, 10) : 0;
+  const remaining = parseFloat(escrow.amount_locked) - parseFloat(escrow.amount_paid) - parseFloat(escrow.amount_refunded);
+  const refund = Math.max(remaining - reserved, 0);
+
+  if (refund > 0) {
+    const description = `Refund of unspent rewards for quest "${escrow.title}"`;
+    if (escrow.funding_source === 'creator' && escrow.funder_id) {
+      await creditWallet(client, 'escrow_refund', { userId: escrow.funder_id, amount: refund, questId, description });
+    } else if (escrow.funding_source === 'treasury' && escrow.group_id !== null) {
+      await client.query('UPDATE feed_groups SET treasury_balance = treasury_balance + $1 WHERE id = $2', [refund, escrow.group_id]);
+      await client.query(
+        `INSERT INTO treasury_transactions (group_id, user_id, transaction_type, amount, description, quest_id)
+         VALUES ($1, $2, 'deposit', $3, $4, $5)`,
+        [escrow.group_id, escrow.funder_id, refund, description, questId]
+      );
+    }
+  }
+
+  await client.query(
+    `UPDATE quest_escrows
+     SET amount_refunded = amount_refunded + $2, updated_at = NOW(),
+         status = CASE WHEN $3::boolean THEN 'closed' ELSE status END,
+         closed_at = CASE WHEN $3::boolean THEN NOW() ELSE closed_at END
+     WHERE id = $1`,
+    [escrow.id, refund, reserved === 0]
+  );
+
+  if (refund > 0) {
+    logger.info(`Refunded ${refund} from the escrow of quest ${questId} to its ${escrow.funding_source === 'creator' ? 'creator' : 'group treasury'}.`);
+  }
+  return refund;
+};
+
+/**
+ * Retrieves a quest's escrow with what remains of it.
+ * @returns The escrow, or null if the quest has none.
+ */
+export const getQuestEscrow = async (questId: string) => {
+  const { rows } = await getPool().query(
+    `SELECT *, amount_locked - amount_paid - amount_refunded AS amount_remaining
+     FROM quest_escrows WHERE quest_id = $1`,
+    [questId]
+  );
+  return rows[0] ?? null;
+};
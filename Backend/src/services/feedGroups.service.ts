@@ -6,6 +6,8 @@ export interface FeedGroup {
   name: string;
   description: string;
   creator_id: string;
+  proposal_quorum_percent: number;
+  proposal_pass_threshold_percent: number;
   created_at: Date;
 }
 
@@ -18,6 +20,8 @@ export interface CreateGroupPayload {
 export interface UpdateGroupPayload {
   name?: string;
   description?: string;
+  proposalQuorumPercent?: number;
+  proposalPassThresholdPercent?: number;
 }
 
 /**
@@ -102,7 +106,7 @@ export const getGroupById = async (id: number): Promise<FeedGroup | null> => {
  * Updates an existing feed group.
  */
 export const updateGroup = async (id: number, groupData: UpdateGroupPayload): Promise<FeedGroup | null> => {
-  const { name, description } = groupData;
+  const { name, description, proposalQuorumPercent, proposalPassThresholdPercent } = groupData;
   const fields: string[] = [];
   const values: any[] = [];
   let queryIndex = 1;
@@ -117,6 +121,16 @@ export const updateGroup = async (id: number, groupData: UpdateGroupPayload): Pr
     values.push(description);
   }
 
+  if (proposalQuorumPercent !== undefined) {
+    fields.push(`proposal_quorum_percent = $${queryIndex++}`);
+    values.push(proposalQuorumPercent);
+  }
+
+  if (proposalPassThresholdPercent !== undefined) {
+    fields.push(`proposal_pass_threshold_percent = $${queryIndex++}`);
+    values.push(proposalPassThresholdPercent);
+  }
+
   if (fields.length === 0) {
     // Nothing to update, just return the current group data
     return getGroupById(id);
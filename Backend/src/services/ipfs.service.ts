@@ -1,49 +1,77 @@
 import pinataSDK from '@pinata/sdk';
 import { Readable } from 'stream';
-import config from '../config/index';
+import { PinataSettings, getConfig, isFeatureEnabled } from '../config/index';
+import logger from '../config/logger';
 
-if (!config.pinataApiKey || !config.pinataApiSecret) {
-  throw new Error('Pinata API Key and Secret must be provided in the environment variables.');
+export interface IpfsService {
+  /**
+   * Pins a JSON document to IPFS.
+   * @returns The IPFS hash (CID) of the document.
+   */
+  uploadJson(json: object, name: string): Promise<string>;
+  /**
+   * Pins a file stream to IPFS.
+   * @returns The IPFS hash (CID) of the file.
+   */
+  uploadStream(stream: Readable, filename: string): Promise<string>;
 }
 
-const pinata = new pinataSDK(config.pinataApiKey, config.pinataApiSecret);
+/**
+ * Creates an IPFS service that pins through Pinata.
+ */
+export const createPinataIpfsService = (settings: PinataSettings): IpfsService => {
+  const pinata = new pinataSDK(settings.apiKey, settings.apiSecret);
+  const options = (name: string) => ({
+    pinataMetadata: { name },
+    pinataOptions: { cidVersion: 0 as const },
+  });
+
+  return {
+    uploadJson: async (json, name) => {
+      try {
+        const result = await pinata.pinJSONToIPFS(json, options(name));
+        return result.IpfsHash;
+      } catch (error) {
+        logger.error('Error uploading JSON to Pinata:', error);
+        throw new Error('Failed to upload JSON to IPFS.');
+      }
+    },
+    uploadStream: async (stream, filename) => {
+      try {
+        const result = await pinata.pinFileToIPFS(stream, options(filename));
+        return result.IpfsHash;
+      } catch (error) {
+        logger.error('Error uploading file to Pinata:', error);
+        throw new Error('Failed to upload file to IPFS.');
+      }
+    },
+  };
+};
+
+let service: IpfsService | undefined;
 
 /**
- * Uploads a file stream to IPFS using Pinata.
- * @param stream The readable stream of the file to upload.
- * @param filename The name for the file on IPFS.
- * @returns The IPFS hash (CID) of the uploaded file.
+ * Returns the IPFS service, creating it from the configuration on first use.
+ * @throws IPFS_DISABLED when the ipfs feature is turned off.
  */
-export const uploadJsonToIpfs = async (json: object, name: string) => {
-  try {
-    const result = await pinata.pinJSONToIPFS(json, {
-      pinataMetadata: {
-        name: name,
-      },
-      pinataOptions: {
-        cidVersion: 0,
-      },
-    });
-    return result.IpfsHash;
-  } catch (error) {
-    console.error('Error uploading JSON to Pinata:', error);
-    throw new Error('Failed to upload JSON to IPFS.');
+export const getIpfsService = (): IpfsService => {
+  if (service) {
+    return service;
+  }
+  if (!isFeatureEnabled('ipfs')) {
+    throw new Error('IPFS_DISABLED');
   }
+  service = createPinataIpfsService(getConfig().pinata!);
+  return service;
 };
 
-export const uploadStreamToIpfs = async (stream: Readable, filename: string) => {
-  try {
-    const result = await pinata.pinFileToIPFS(stream, {
-      pinataMetadata: {
-        name: filename,
-      },
-      pinataOptions: {
-        cidVersion: 0,
-      },
-    });
-    return result.IpfsHash;
-  } catch (error) {
-    console.error('Error uploading file to Pinata:', error);
-    throw new Error('Failed to upload file to IPFS.');
-  }
+/**
+ * Replaces the IPFS service, e.g. with a fake in tests.
+ */
+export const setIpfsService = (next: IpfsService | undefined): void => {
+  service = next;
 };
+
+export const uploadJsonToIpfs = (json: object, name: string) => getIpfsService().uploadJson(json, name);
+
+export const uploadStreamToIpfs = (stream: Readable, filename: string) => getIpfsService().uploadStream(stream, filename);
@@ -0,0 +1,156 @@
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import { BoundingBox } from '../utils/geo';
+
+export const LEADERBOARD_WINDOWS = ['weekly', 'monthly', 'all_time'] as const;
+export type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+// How far back each window reaches. Windows roll: a weekly board always covers the last 7 days.
+const WINDOW_INTERVALS: Record<LeaderboardWindow, string | null> = {
+  weekly: '7 days',
+  monthly: '30 days',
+  all_time: null,
+};
+
+/**
+ * Whose reputation a leaderboard counts: everything, what was earned in one group, or what
+ * was earned on the quests within a radius of a point or within a box.
+ */
+export type LeaderboardScope =
+  | { type: 'global' }
+  | { type: 'group'; groupId: number }
+  | { type: 'area'; latitude: number; longitude: number; radius: number }
+  | { type: 'area'; bbox: BoundingBox };
+
+export interface LeaderboardEntry {
+  // Tied users share a rank.
+  rank: number;
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  score: number;
+  quests_verified: number;
+}
+
+export interface Leaderboard {
+  window: LeaderboardWindow;
+  // How many users are ranked.
+  total: number;
+  entries: LeaderboardEntry[];
+  // The caller's own entry, wherever they rank, or null if they have not scored.
+  caller: LeaderboardEntry | null;
+}
+
+interface Ranking {
+  entries: LeaderboardEntry[];
+  positions: Map<string, number>;
+}
+
+// Rankings are computed whole and cached for a while, so paging through one and looking up
+// the caller's rank cost no further queries. Different areas are cached separately, so the
+// cache is capped and forgets the oldest ranking first.
+const MAX_CACHED_RANKINGS = 200;
+const cache = new Map<string, { expiresAt: number; ranking: Promise<Ranking> }>();
+
+// Narrows reputation events to the scope, with its parameters numbered from `offset`.
+const scopeFilter = (scope: LeaderboardScope, offset: number): { sql: string; params: unknown[] } => {
+  if (scope.type === 'global') {
+    return { sql: 'TRUE', params: [] };
+  }
+  if (scope.type === 'group') {
+    return { sql: `e.metadata->>'groupId' = $${offset}`, params: [String(scope.groupId)] };
+  }
+
+  let area: string;
+  let params: unknown[];
+  if ('bbox' in scope) {
+    const { west, south, east, north } = scope.bbox;
+    area = `q.location::geometry && ST_MakeEnvelope($${offset}, $${offset + 1}, $${offset + 2}, $${offset + 3}, 4326)`;
+    params = [west, south, east, north];
+  } else {
+    area = `ST_DWithin(q.location, ST_SetSRID(ST_MakePoint($${offset}, $${offset + 1}), 4326)::geography, $${offset + 2})`;
+    params = [scope.longitude, scope.latitude, scope.radius];
+  }
+  return { sql: `e.metadata->>'questId' IN (SELECT q.id::text FROM quests q WHERE ${area})`, params };
+};
+
+// Ranks everyone with reputation events in the scope and window by what those events add up
+// to. Decay is left out: leaderboards show what was earned, not what it is still worth. So are
+// the scores carried over from before events were recorded, which were not earned when dated.
+const computeRanking = async (scope: LeaderboardScope, window: LeaderboardWindow): Promise<Ranking> => {
+  const filter = scopeFilter(scope, 2);
+  const { rows } = await getPool().query<LeaderboardEntry>(
+    `WITH scores AS (
+       SELECT e.user_id,
+         SUM(e.delta)::integer AS score,
+         COUNT(*) FILTER (WHERE e.event_type = 'quest_verified')::integer AS quests_verified
+       FROM reputation_events e
+       WHERE e.event_type NOT IN ('decay', 'initial_score')
+         AND ($1::interval IS NULL OR e.created_at >= NOW() - $1::interval)
+         AND ${filter.sql}
+       GROUP BY e.user_id
+     )
+     SELECT RANK() OVER (ORDER BY s.score DESC, s.quests_verified DESC)::integer AS rank,
+       s.user_id, u.username, u.avatar_url, s.score, s.quests_verified
+     FROM scores s
+     JOIN users u ON u.id = s.user_id
+     ORDER BY rank, u.username, s.user_id`,
+    [WINDOW_INTERVALS[window], ...filter.params]
+  );
+  return { entries: rows, positions: new Map(rows.map((entry, index) => [entry.user_id, index])) };
+};
+
+const getRanking = (scope: LeaderboardScope, window: LeaderboardWindow): Promise<Ranking> => {
+  const ttlMs = getConfig().leaderboards.cacheTtlMs;
+  if (ttlMs === 0) {
+    return computeRanking(scope, window);
+  }
+
+  const key = JSON.stringify([scope, window]);
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.ranking;
+  }
+
+  // Requests arriving while a ranking is computed share it. A failed one is not kept.
+  const ranking = computeRanking(scope, window);
+  ranking.catch(() => {
+    if (cache.get(key)?.ranking === ranking) {
+      cache.delete(key);
+    }
+  });
+  cache.delete(key);
+  cache.set(key, { expiresAt: Date.now() + ttlMs, ranking });
+  if (cache.size > MAX_CACHED_RANKINGS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return ranking;
+};
+
+/**
+ * Retrieves a page of a leaderboard, and the caller's own entry even when it is not on the page.
+ * @param callerId The user asking, whose rank is included.
+ */
+export const getLeaderboard = async (
+  scope: LeaderboardScope,
+  window: LeaderboardWindow,
+  callerId: string,
+  limit: number,
+  offset: number
+): Promise<Leaderboard> => {
+  const { entries, positions } = await getRanking(scope, window);
+  const callerPosition = positions.get(callerId);
+  return {
+    window,
+    total: entries.length,
+    entries: entries.slice(offset, offset + limit),
+    caller: callerPosition === undefined ? null : entries[callerPosition],
+  };
+};
+
+/**
+ * Forgets every cached ranking, e.g. between tests.
+ */
+export const clearLeaderboardCache = (): void => {
+  cache.clear();
+};
@@ -0,0 +1,929 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import logger from '../config/logger';
+import { roundToCoinUnits, splitSale } from '../utils/royalties';
+import { MarketplaceEvent, PreparedTransaction, getChainAdapter } from './chain';
+import { recordCommittedTransaction, recordPreparedTransaction } from './chainTransactions.service';
+import { NewNotification, createNotifications } from './notifications.service';
+import { EXPIRY_GRACE_MS } from './payouts.service';
+import { creditWallet, debitWallet } from './wallet.service';
+
+export const LISTING_STATUSES = ['active', 'pending_sale', 'sold', 'cancelled', 'expired'] as const;
+export type ListingStatus = typeof LISTING_STATUSES[number];
+
+export const LISTING_TYPES = ['fixed_price', 'auction'] as const;
+export type ListingType = typeof LISTING_TYPES[number];
+
+export const LISTING_SORTS = ['newest', 'price_asc', 'price_desc', 'ending_soon'] as const;
+export type ListingSort = typeof LISTING_SORTS[number];
+
+export type SaleStatus = 'submitted' | 'completed' | 'failed';
+
+export type BidStatus = 'leading' | 'outbid' | 'won' | 'refunded';
+
+/**
+ * A listing of a Vibe NFT, mirrored from the marketplace contract: sold at its price, or
+ * auctioned with its price as the starting bid. 'active' and 'pending_sale' listings are
+ * open; 'sold', 'cancelled' and 'expired' (an auction without a winning bid) are final.
+ * The auction fields are null for fixed-price listings; the reserve price itself is not
+ * shown, only whether the highest bid meets it.
+ */
+export interface MarketplaceListing {
+  id: number;
+  chain_listing_id: string;
+  vibe_id: number;
+  vibe_name: string;
+  vibe_image_cid: string;
+  seller_id: string | null;
+  seller_username: string | null;
+  seller_address: string;
+  price: string;
+  listing_type: ListingType;
+  status: ListingStatus;
+  tx_hash: string;
+  cancel_tx_hash: string | null;
+  auction_ends_at: Date | null;
+  auction_min_increment: string | null;
+  highest_bid: string | null;
+  bid_count: number;
+  reserve_met: boolean | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A purchase of a listing, or the sale of an auction to its winning bid. The price is
+ * held in escrow while it is 'submitted'; a 'completed' sale paid the seller and the
+ * royalty, a 'failed' one refunded the buyer.
+ */
+export interface MarketplaceSale {
+  id: number;
+  listing_id: number;
+  vibe_id: number;
+  seller_id: string | null;
+  buyer_id: string | null;
+  buyer_username: string | null;
+  buyer_address: string;
+  price: string;
+  royalty_amount: string;
+  royalty_recipient_id: string | null;
+  bid_id: number | null;
+  status: SaleStatus;
+  tx_hash: string;
+  failure_reason: string | null;
+  completed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * A bid on an auction. Only the 'leading' bid holds its amount in escrow.
+ */
+export interface MarketplaceBid {
+  id: number;
+  listing_id: number;
+  vibe_id: number;
+  bidder_id: string | null;
+  bidder_username: string | null;
+  bidder_address: string;
+  amount: string;
+  status: BidStatus;
+  created_at: Date;
+}
+
+export interface AuctionTerms {
+  // In $Lunoa, like the reserve price and the increment.
+  startingPrice: number;
+  // The starting price if omitted.
+  reservePrice?: number;
+  minIncrement: number;
+  durationHours: number;
+}
+
+export interface ListingFilter {
+  status?: ListingStatus;
+  type?: ListingType;
+  vibeId?: number;
+  sellerId?: string;
+  sort: ListingSort;
+  limit: number;
+  offset: number;
+}
+
+// How many submitted sales or ended auctions one pass looks up.
+const RECONCILE_BATCH_SIZE = 50;
+
+// Every listing column, with the Vibe's name and image, the seller's username and how
+// an auction's bidding stands.
+const SELECT_LISTINGS = `
+  SELECT l.id, l.chain_listing_id, l.vibe_id, v.name AS vibe_name, v.image_cid AS vibe_image_cid,
+    l.seller_id, u.username AS seller_username, l.seller_address, l.price, l.listing_type, l.status, l.tx_hash,
+    l.cancel_tx_hash, a.ends_at AS auction_ends_at, a.min_increment AS auction_min_increment, bids.highest_bid,
+    bids.bid_count, CASE WHEN a.listing_id IS NOT NULL THEN COALESCE(bids.highest_bid >= a.reserve_price, false) END AS reserve_met,
+    l.created_at, l.updated_at
+  FROM marketplace_listings l
+  JOIN vibes v ON v.id = l.vibe_id
+  LEFT JOIN users u ON u.id = l.seller_id
+  LEFT JOIN marketplace_auctions a ON a.listing_id = l.id
+  LEFT JOIN LATERAL (
+    SELECT MAX(b.amount) AS highest_bid, COUNT(*)::int AS bid_count FROM marketplace_bids b WHERE b.listing_id = l.id
+  ) bids ON true
+`;
+
+const SELECT_SALES = `
+  SELECT s.id, s.listing_id, l.vibe_id, l.seller_id, s.buyer_id, u.username AS buyer_username, s.buyer_address,
+    s.price, s.royalty_amount, s.royalty_recipient_id, s.bid_id, s.status, s.tx_hash, s.failure_reason, s.completed_at,
+    s.created_at
+  FROM marketplace_sales s
+  JOIN marketplace_listings l ON l.id = s.listing_id
+  LEFT JOIN users u ON u.id = s.buyer_id
+`;
+
+const SELECT_BIDS = `
+  SELECT b.id, b.listing_id, l.vibe_id, b.bidder_id, u.username AS bidder_username, b.bidder_address, b.amount,
+    b.status, b.created_at
+  FROM marketplace_bids b
+  JOIN marketplace_listings l ON l.id = b.listing_id
+  LEFT JOIN users u ON u.id = b.bidder_id
+`;
+
+const LISTING_ORDER: Record<ListingSort, string> = {
+  newest: 'l.created_at DESC, l.id DESC',
+  price_asc: 'l.price ASC, l.id ASC',
+  price_desc: 'l.price DESC, l.id DESC',
+  ending_soon: 'a.ends_at ASC NULLS LAST, l.id ASC',
+};
+
+// A sale as settling reads it, with what paying it out needs.
+interface SettlingSale {
+  listing_id: number;
+  buyer_id: string | null;
+  buyer_address: string;
+  price: string;
+  royalty_amount: string;
+  royalty_recipient_id: string | null;
+  bid_id: number | null;
+  seller_id: string | null;
+  vibe_id: number;
+  vibe_name: string;
+}
+
+const isEvent = <T extends MarketplaceEvent['type']>(type: T) =>
+  (event: MarketplaceEvent): event is Extract<MarketplaceEvent, { type: T }> => event.type === type;
+
+const getSale = async (saleId: number): Promise<MarketplaceSale> => {
+  const { rows } = await getPool().query(`${SELECT_SALES} WHERE s.id = $1`, [saleId]);
+  return rows[0];
+};
+
+// Lists a Vibe NFT the seller holds, on-chain first, and records the listing from the
+// event the contract emitted: an auction with its terms if they are given.
+const openListing = async (
+  vibeId: number,
+  sellerId: string,
+  price: number,
+  auction?: { reservePrice: number; minIncrement: number; durationHours: number }
+): Promise<MarketplaceListing> => {
+  const pool = getPool();
+  const { rows: vibes } = await pool.query(
+    `SELECT v.token_address, v.owner_address,
+       u.id IS NOT NULL AS owned_by_seller, u.aptos_address_verified_at IS NOT NULL AS seller_address_verified,
+       EXISTS (
+         SELECT 1 FROM marketplace_listings l WHERE l.vibe_id = v.id AND l.status IN ('active', 'pending_sale')
+       ) AS listed
+     FROM vibes v
+     LEFT JOIN users u ON u.id = $2 AND lower(u.aptos_address) = lower(v.owner_address)
+     WHERE v.id = $1`,
+    [vibeId, sellerId]
+  );
+  const vibe = vibes[0];
+  if (!vibe) {
+    throw new Error('VIBE_NOT_FOUND');
+  }
+  if (!vibe.owned_by_seller) {
+    throw new Error('NOT_VIBE_OWNER');
+  }
+  // Anyone can claim an address; only its key proves it is theirs to sell from.
+  if (!vibe.seller_address_verified) {
+    throw new Error('ADDRESS_NOT_VERIFIED');
+  }
+  if (!vibe.token_address) {
+    throw new Error('VIBE_NOT_TRADABLE');
+  }
+  if (vibe.listed) {
+    throw new Error('ALREADY_LISTED');
+  }
+
+  const chain = getChainAdapter();
+  const listed = await chain.createMarketplaceListing({ tokenAddress: vibe.token_address, seller: vibe.owner_address, price });
+  const created = listed.events.find(isEvent('listing_created'));
+  if (!created) {
+    throw new Error(`Listing transaction ${listed.hash} reported no listing.`);
+  }
+
+  const client = await pool.connect();
+  let listingId: number;
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query(
+      `INSERT INTO marketplace_listings (chain_listing_id, vibe_id, seller_id, seller_address, price, listing_type, tx_hash)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [created.listingId, vibeId, sellerId, created.seller, created.price, auction ? 'auction' : 'fixed_price', listed.hash]
+    );
+    listingId = rows[0].id;
+    await recordCommittedTransaction(client, listed, { purpose: 'marketplace_listing', entityId: listingId, userId: sellerId });
+    if (auction) {
+      await client.query(
+        `INSERT INTO marketplace_auctions (listing_id, reserve_price, min_increment, ends_at)
+         VALUES ($1, $2, $3, NOW() + make_interval(hours => $4))`,
+        [listingId, auction.reservePrice, auction.minIncrement, auction.durationHours]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    if (error.code !== '23505') {
+      throw error;
+    }
+    // A concurrent listing of the same Vibe was recorded first; withdraw this one.
+    await chain.cancelMarketplaceListing(created.listingId).catch((cancelError) => {
+      logger.error(`Error withdrawing duplicate listing ${created.listingId} of Vibe ${vibeId}:`, cancelError);
+    });
+    throw new Error('ALREADY_LISTED');
+  } finally {
+    client.release();
+  }
+
+  logger.info(`Vibe ${vibeId} ${auction ? 'put up for auction' : 'listed'} by user ${sellerId} at ${created.price} in transaction ${listed.hash}.`);
+  return (await getListing(listingId))!;
+};
+
+/**
+ * Lists a Vibe NFT the seller holds at a fixed price.
+ * @param price In $Lunoa, rounded to the coin's decimals.
+ * @throws VIBE_NOT_FOUND, NOT_VIBE_OWNER, ADDRESS_NOT_VERIFIED, VIBE_NOT_TRADABLE, ALREADY_LISTED, PRICE_TOO_SMALL
+ */
+export const createListing = async (vibeId: number, sellerId: string, price: number): Promise<MarketplaceListing> => {
+  const rounded = roundToCoinUnits(price, getConfig().chain.aptos.lunoaCoinDecimals);
+  if (rounded <= 0) {
+    throw new Error('PRICE_TOO_SMALL');
+  }
+  return openListing(vibeId, sellerId, rounded);
+};
+
+/**
+ * Puts a Vibe NFT the seller holds up for auction. It is listed on-chain at the starting
+ * price, which the winning bid cannot be below.
+ * @throws VIBE_NOT_FOUND, NOT_VIBE_OWNER, ADDRESS_NOT_VERIFIED, VIBE_NOT_TRADABLE, ALREADY_LISTED, PRICE_TOO_SMALL
+ */
+export const createAuction = async (vibeId: number, sellerId: string, terms: AuctionTerms): Promise<MarketplaceListing> => {
+  const { lunoaCoinDecimals } = getConfig().chain.aptos;
+  const startingPrice = roundToCoinUnits(terms.startingPrice, lunoaCoinDecimals);
+  const minIncrement = roundToCoinUnits(terms.minIncrement, lunoaCoinDecimals);
+  if (startingPrice <= 0 || minIncrement <= 0) {
+    throw new Error('PRICE_TOO_SMALL');
+  }
+  const reservePrice = Math.max(roundToCoinUnits(terms.reservePrice ?? startingPrice, lunoaCoinDecimals), startingPrice);
+  return openListing(vibeId, sellerId, startingPrice, { reservePrice, minIncrement, durationHours: terms.durationHours });
+};
+
+/**
+ * Retrieves a listing by its ID.
+ * @returns The listing, or null if not found.
+ */
+export const getListing = async (listingId: number): Promise<MarketplaceListing | null> => {
+  const { rows } = await getPool().query(`${SELECT_LISTINGS} WHERE l.id = $1`, [listingId]);
+  return rows[0] ?? null;
+};
+
+/**
+ * Lists listings, newest, by price or by when their auctions end.
+ */
+export const listListings = async (filter: ListingFilter): Promise<MarketplaceListing[]> => {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filter.status) {
+    values.push(filter.status);
+    conditions.push(`l.status = $${values.length}`);
+  }
+  if (filter.type) {
+    values.push(filter.type);
+    conditions.push(`l.listing_type = $${values.length}`);
+  }
+  if (filter.vibeId) {
+    values.push(filter.vibeId);
+    conditions.push(`l.vibe_id = $${values.length}`);
+  }
+  if (filter.sellerId) {
+    values.push(filter.sellerId);
+    conditions.push(`l.seller_id = $${values.length}`);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  values.push(filter.limit, filter.offset);
+  const { rows } = await getPool().query(
+    `${SELECT_LISTINGS} ${where} ORDER BY ${LISTING_ORDER[filter.sort]} LIMIT $${values.length - 1} OFFSET $${values.length}`,
+    values
+  );
+  return rows;
+};
+
+/**
+ * Withdraws an active listing. Only its seller may. A listing with a purchase in flight
+ * cannot be withdrawn until the purchase settles, nor an auction once it has bids.
+ * @throws LISTING_NOT_FOUND, FORBIDDEN, LISTING_NOT_ACTIVE, AUCTION_HAS_BIDS
+ */
+export const cancelListing = async (listingId: number, userId: string): Promise<MarketplaceListing> => {
+  const listing = await getListing(listingId);
+  if (!listing) {
+    throw new Error('LISTING_NOT_FOUND');
+  }
+  if (listing.seller_id !== userId) {
+    throw new Error('FORBIDDEN');
+  }
+  if (listing.status !== 'active') {
+    throw new Error('LISTING_NOT_ACTIVE');
+  }
+  if (listing.bid_count > 0) {
+    throw new Error('AUCTION_HAS_BIDS');
+  }
+
+  const cancelled = await getChainAdapter().cancelMarketplaceListing(Number(listing.chain_listing_id));
+  if (!cancelled.events.some(isEvent('listing_cancelled'))) {
+    throw new Error(`Cancellation transaction ${cancelled.hash} reported no cancellation.`);
+  }
+
+  // A purchase that started meanwhile will fail on-chain and be refunded.
+  await getPool().query(
+    `UPDATE marketplace_listings SET status = 'cancelled', cancel_tx_hash = $2, updated_at = NOW()
+     WHERE id = $1 AND status IN ('active', 'pending_sale')`,
+    [listingId, cancelled.hash]
+  );
+  await recordCommittedTransaction(getPool(), cancelled, { purpose: 'marketplace_cancellation', entityId: listingId, userId });
+  logger.info(`Listing ${listingId} cancelled by user ${userId} in transaction ${cancelled.hash}.`);
+  return (await getListing(listingId))!;
+};
+
+/**
+ * Withdraws an auction that closed unsold from the marketplace contract, which would
+ * otherwise keep it listed, and records the cancellation as cancelListing does. Auctions
+ * that are not expired or were already withdrawn are left alone, so this is safe to repeat.
+ */
+const withdrawExpiredAuction = async (listingId: number) => {
+  const { rows } = await getPool().query(
+    `SELECT chain_listing_id, seller_id FROM marketplace_listings
+     WHERE id = $1 AND listing_type = 'auction' AND status = 'expired' AND cancel_tx_hash IS NULL`,
+    [listingId]
+  );
+  const listing = rows[0];
+  if (!listing) {
+    return;
+  }
+
+  const cancelled = await getChainAdapter().cancelMarketplaceListing(Number(listing.chain_listing_id));
+  if (!cancelled.events.some(isEvent('listing_cancelled'))) {
+    throw new Error(`Cancellation transaction ${cancelled.hash} reported no cancellation.`);
+  }
+
+  await getPool().query(
+    'UPDATE marketplace_listings SET cancel_tx_hash = $2, updated_at = NOW() WHERE id = $1 AND cancel_tx_hash IS NULL',
+    [listingId, cancelled.hash]
+  );
+  await recordCommittedTransaction(getPool(), cancelled, { purpose: 'marketplace_cancellation', entityId: listingId, userId: listing.seller_id });
+  logger.info(`Unsold auction ${listingId} withdrawn in transaction ${cancelled.hash}.`);
+};
+
+// Withdraws an unsold auction on-chain, leaving it to the next sync if that fails.
+const tryWithdrawExpiredAuction = async (listingId: number) => {
+  try {
+    await withdrawExpiredAuction(listingId);
+  } catch (error) {
+    logger.error(`Error withdrawing unsold auction ${listingId} on-chain, will retry:`, error);
+  }
+};
+
+/**
+ * Finishes a submitted sale once its transaction's outcome is known. A committed sale
+ * pays the escrowed price to the seller, less the royalty, which goes to the Vibe's
+ * creator, and hands the Vibe to the buyer the contract reported. A failed one refunds
+ * the buyer and reopens the listing, or closes an auction's unsold and withdraws it
+ * on-chain. Sales already
+ * settled are left alone, so settling is safe to repeat.
+ */
+const settleSale = async (saleId: number, txHash: string, outcome: 'success' | 'failed', reason?: string) => {
+  // Read before locking anything: the events come from the chain.
+  const events = outcome === 'success' ? await getChainAdapter().getMarketplaceEvents(txHash) : [];
+  const sold = events.find(isEvent('listing_sold'));
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query(
+      `UPDATE marketplace_sales s
+       SET status = $2::VARCHAR, failure_reason = $3,
+           completed_at = CASE WHEN $2::VARCHAR = 'completed' THEN NOW() END, updated_at = NOW()
+       FROM marketplace_listings l
+       JOIN vibes v ON v.id = l.vibe_id
+       WHERE s.id = $1 AND s.status = 'submitted' AND l.id = s.listing_id
+       RETURNING s.*, l.seller_id, l.vibe_id, v.name AS vibe_name`,
+      [saleId, outcome === 'success' ? 'completed' : 'failed', reason ?? null]
+    );
+    const sale: SettlingSale | undefined = rows[0];
+    if (!sale) {
+      await client.query('ROLLBACK');
+      return;
+    }
+
+    if (outcome === 'success') {
+      await paySale(client, sale);
+      await client.query("UPDATE marketplace_listings SET status = 'sold', updated_at = NOW() WHERE id = $1", [sale.listing_id]);
+      await client.query('UPDATE vibes SET owner_address = $2 WHERE id = $1', [sale.vibe_id, sold?.buyer ?? sale.buyer_address]);
+    } else {
+      if (sale.buyer_id) {
+        await creditWallet(client, sale.bid_id ? 'bid_refund' : 'purchase_refund', {
+          userId: sale.buyer_id,
+          amount: Number(sale.price),
+          vibeId: sale.vibe_id,
+          description: `Refund of failed purchase of Vibe "${sale.vibe_name}"`,
+        });
+      }
+      if (sale.bid_id) {
+        await client.query("UPDATE marketplace_bids SET status = 'refunded', updated_at = NOW() WHERE id = $1", [sale.bid_id]);
+      }
+      // An auction's bidding is over, so it cannot reopen.
+      await client.query(
+        `UPDATE marketplace_listings
+         SET status = CASE WHEN listing_type = 'auction' THEN 'expired' ELSE 'active' END, updated_at = NOW()
+         WHERE id = $1 AND status = 'pending_sale'`,
+        [sale.listing_id]
+      );
+    }
+
+    await client.query('COMMIT');
+    if (outcome === 'success') {
+      logger.info(`Marketplace sale ${saleId} completed in transaction ${txHash}.`);
+    } else {
+      logger.warn(`Marketplace sale ${saleId} failed and was refunded: ${reason}`);
+      await tryWithdrawExpiredAuction(sale.listing_id);
+    }
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Releases a completed sale's escrow to the seller and the royalty recipient.
+const paySale = async (client: PoolClient, sale: SettlingSale) => {
+  const royalty = Number(sale.royalty_amount);
+  const proceeds = Number(sale.price) - royalty;
+  if (sale.seller_id && proceeds > 0) {
+    await creditWallet(client, 'sale_proceeds', {
+      userId: sale.seller_id,
+      amount: proceeds,
+      vibeId: sale.vibe_id,
+      description: `Sale of Vibe "${sale.vibe_name}"`,
+    });
+  }
+  if (sale.royalty_recipient_id && royalty > 0) {
+    await creditWallet(client, 'royalty', {
+      userId: sale.royalty_recipient_id,
+      amount: royalty,
+      vibeId: sale.vibe_id,
+      description: `Royalty on the resale of your Vibe "${sale.vibe_name}"`,
+    });
+  }
+};
+
+// Splits a sale's price at the collection's royalty rate. The creator earns none on their own sale.
+const splitListingSale = async (listing: { collection_name: string; creator_id: string; seller_id: string | null }, price: number) => {
+  const payRoyalty = listing.creator_id !== listing.seller_id;
+  const rate = payRoyalty ? await getChainAdapter().getCollectionRoyalty(listing.collection_name) : { numerator: 0, denominator: 1 };
+  return {
+    ...splitSale(price, rate, getConfig().chain.aptos.lunoaCoinDecimals),
+    royaltyRecipientId: payRoyalty ? listing.creator_id : null,
+  };
+};
+
+// Sends a recorded sale and settles it if its outcome is known.
+const sendSale = async (saleId: number, prepared: PreparedTransaction) => {
+  try {
+    await prepared.submit();
+    const outcome = await getChainAdapter().waitForTransaction(prepared.hash);
+    await settleSale(saleId, prepared.hash, outcome, outcome === 'failed' ? `Transaction ${prepared.hash} failed on-chain.` : undefined);
+  } catch (error) {
+    // The transaction may still land; reconciliation will settle it by hash.
+    logger.error(`Error sending marketplace sale ${saleId}, will reconcile transaction ${prepared.hash}:`, error);
+  }
+};
+
+/**
+ * Buys a listed Vibe NFT. The price is taken from the buyer's wallet into escrow and the
+ * sale recorded with its transaction hash before the transaction is sent, so a crash
+ * leaves a 'submitted' sale that reconciliation settles by hash. The royalty is fixed at
+ * the collection's rate when the purchase is made; the creator earns none on their own sale.
+ * @returns The sale: 'completed' or 'failed' if the transaction's outcome is known,
+ *          otherwise 'submitted'.
+ * @throws LISTING_NOT_FOUND, LISTING_IS_AUCTION, CANNOT_BUY_OWN_LISTING, LISTING_NOT_ACTIVE,
+ *         APTOS_ADDRESS_REQUIRED, INSUFFICIENT_FUNDS
+ */
+export const purchaseListing = async (listingId: number, buyerId: string): Promise<MarketplaceSale> => {
+  const { rows: listings } = await getPool().query(
+    `SELECT l.chain_listing_id, l.vibe_id, l.seller_id, l.price, l.listing_type, l.status, v.name, v.collection_name,
+       v.creator_id, u.aptos_address AS buyer_address, u.wallet_balance AS buyer_balance
+     FROM marketplace_listings l
+     JOIN vibes v ON v.id = l.vibe_id
+     LEFT JOIN users u ON u.id = $2
+     WHERE l.id = $1`,
+    [listingId, buyerId]
+  );
+  const listing = listings[0];
+  if (!listing) {
+    throw new Error('LISTING_NOT_FOUND');
+  }
+  if (listing.listing_type === 'auction') {
+    throw new Error('LISTING_IS_AUCTION');
+  }
+  if (listing.seller_id === buyerId) {
+    throw new Error('CANNOT_BUY_OWN_LISTING');
+  }
+  if (listing.status !== 'active') {
+    throw new Error('LISTING_NOT_ACTIVE');
+  }
+  if (!listing.buyer_address) {
+    throw new Error('APTOS_ADDRESS_REQUIRED');
+  }
+
+  const split = await splitListingSale(listing, Number(listing.price));
+  // Checked again when the price is taken; this only spares a sequence number in the common case.
+  if (Number(listing.buyer_balance) < split.price) {
+    throw new Error('INSUFFICIENT_FUNDS');
+  }
+  const prepared = await getChainAdapter().prepareMarketplaceSale(Number(listing.chain_listing_id), listing.buyer_address);
+
+  const client = await getPool().connect();
+  let saleId: number;
+  try {
+    await client.query('BEGIN');
+    const { rowCount } = await client.query(
+      "UPDATE marketplace_listings SET status = 'pending_sale', updated_at = NOW() WHERE id = $1 AND status = 'active'",
+      [listingId]
+    );
+    if (!rowCount) {
+      throw new Error('LISTING_NOT_ACTIVE');
+    }
+    await debitWallet(client, 'purchase_escrow', {
+      userId: buyerId,
+      amount: split.price,
+      vibeId: listing.vibe_id,
+      description: `Purchase of Vibe "${listing.name}"`,
+    });
+    const { rows } = await client.query(
+      `INSERT INTO marketplace_sales (listing_id, buyer_id, buyer_address, price, royalty_amount, royalty_recipient_id, tx_hash, tx_expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [listingId, buyerId, listing.buyer_address, split.price, split.royalty, split.royaltyRecipientId, prepared.hash, prepared.expiresAt]
+    );
+    saleId = rows[0].id;
+    await recordPreparedTransaction(client, prepared, { purpose: 'marketplace_sale', entityId: saleId, userId: buyerId });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    prepared.discard();
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await sendSale(saleId, prepared);
+  return getSale(saleId);
+};
+
+/**
+ * Bids on an auction. The bid is taken from the bidder's wallet into escrow and the bid
+ * it beats is refunded, its bidder notified. The first bid must reach the starting price,
+ * every later one must beat the leading bid by the auction's increment. A bid close to
+ * the auction's end extends it, so there is always time to answer it.
+ * @param amount In $Lunoa, rounded to the coin's decimals.
+ * @throws LISTING_NOT_FOUND, NOT_AN_AUCTION, CANNOT_BID_ON_OWN_AUCTION, AUCTION_CLOSED, APTOS_ADDRESS_REQUIRED,
+ *         BID_TOO_LOW, INSUFFICIENT_FUNDS
+ */
+export const placeBid = async (listingId: number, bidderId: string, amount: number): Promise<MarketplaceBid> => {
+  const { chain, auctions } = getConfig();
+  const bid = roundToCoinUnits(amount, chain.aptos.lunoaCoinDecimals);
+
+  const client = await getPool().connect();
+  let bidId: number;
+  try {
+    await client.query('BEGIN');
+    // Locking the listing places its bids one at a time; what follows reads past the bid before.
+    await client.query('SELECT 1 FROM marketplace_listings WHERE id = $1 FOR UPDATE', [listingId]);
+    const { rows: listings } = await client.query(
+      `SELECT l.vibe_id, l.seller_id, l.price, l.listing_type, l.status, v.name, a.min_increment, a.ends_at <= NOW() AS ended,
+         u.aptos_address AS bidder_address
+       FROM marketplace_listings l
+       JOIN vibes v ON v.id = l.vibe_id
+       LEFT JOIN marketplace_auctions a ON a.listing_id = l.id
+       LEFT JOIN users u ON u.id = $2
+       WHERE l.id = $1`,
+      [listingId, bidderId]
+    );
+    const auction = listings[0];
+    if (!auction) {
+      throw new Error('LISTING_NOT_FOUND');
+    }
+    if (auction.listing_type !== 'auction') {
+      throw new Error('NOT_AN_AUCTION');
+    }
+    if (auction.seller_id === bidderId) {
+      throw new Error('CANNOT_BID_ON_OWN_AUCTION');
+    }
+    if (auction.status !== 'active' || auction.ended) {
+      throw new Error('AUCTION_CLOSED');
+    }
+    if (!auction.bidder_address) {
+      throw new Error('APTOS_ADDRESS_REQUIRED');
+    }
+
+    const { rows: leading } = await client.query(
+      "SELECT id, bidder_id, amount FROM marketplace_bids WHERE listing_id = $1 AND status = 'leading'",
+      [listingId]
+    );
+    const beaten = leading[0];
+    const minimum = beaten
+      ? roundToCoinUnits(Number(beaten.amount) + Number(auction.min_increment), chain.aptos.lunoaCoinDecimals)
+      : Number(auction.price);
+    if (bid < minimum) {
+      throw new Error('BID_TOO_LOW');
+    }
+
+    // Refund first, so a bidder raising their own bid only needs the difference.
+    const notifications: NewNotification[] = [];
+    if (beaten) {
+      await client.query("UPDATE marketplace_bids SET status = 'outbid', updated_at = NOW() WHERE id = $1", [beaten.id]);
+      if (beaten.bidder_id) {
+        await creditWallet(client, 'bid_refund', {
+          userId: beaten.bidder_id,
+          amount: Number(beaten.amount),
+          vibeId: auction.vibe_id,
+          description: `Refund of outbid bid on Vibe "${auction.name}"`,
+        });
+      }
+      if (beaten.bidder_id && beaten.bidder_id !== bidderId) {
+        notifications.push({
+          userId: beaten.bidder_id,
+          type: 'auction_outbid',
+          data: { listingId, vibeId: auction.vibe_id, vibeName: auction.name, bidId: beaten.id, amount: beaten.amount, leadingBid: bid },
+        });
+      }
+    }
+    await debitWallet(client, 'bid_escrow', {
+      userId: bidderId,
+      amount: bid,
+      vibeId: auction.vibe_id,
+      description: `Bid on Vibe "${auction.name}"`,
+    });
+    const { rows } = await client.query(
+      'INSERT INTO marketplace_bids (listing_id, bidder_id, bidder_address, amount) VALUES ($1, $2, $3, $4) RETURNING id',
+      [listingId, bidderId, auction.bidder_address, bid]
+    );
+    bidId = rows[0].id;
+    await client.query(
+      'UPDATE marketplace_auctions SET ends_at = GREATEST(ends_at, NOW() + make_interval(secs => $2)) WHERE listing_id = $1',
+      [listingId, auctions.extensionSeconds]
+    );
+    await createNotifications(client, notifications);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  logger.info(`User ${bidderId} bid ${bid} on auction ${listingId}.`);
+  return (await getBid(bidId))!;
+};
+
+/**
+ * Retrieves a bid by its ID.
+ * @returns The bid, or null if not found.
+ */
+export const getBid = async (bidId: number): Promise<MarketplaceBid | null> => {
+  const { rows } = await getPool().query(`${SELECT_BIDS} WHERE b.id = $1`, [bidId]);
+  return rows[0] ?? null;
+};
+
+/**
+ * Retrieves an auction's bids, newest first.
+ */
+export const getAuctionBids = async (listingId: number, limit: number, offset: number): Promise<MarketplaceBid[]> => {
+  const { rows } = await getPool().query(
+    `${SELECT_BIDS} WHERE b.listing_id = $1 ORDER BY b.created_at DESC, b.id DESC LIMIT $2 OFFSET $3`,
+    [listingId, limit, offset]
+  );
+  return rows;
+};
+
+// Closes an auction that has ended. A leading bid that meets the reserve wins: its escrow
+// pays for the sale, which is sent like a purchase. Otherwise the auction expires, the
+// bid is refunded and the listing is withdrawn on-chain. Returns false if it was closed meanwhile or took a late bid, which the
+// next pass sees.
+const closeAuction = async (listingId: number): Promise<boolean> => {
+  const { rows: auctions } = await getPool().query(
+    `SELECT l.chain_listing_id, l.vibe_id, l.seller_id, v.name, v.collection_name, v.creator_id, a.reserve_price,
+       b.id AS bid_id, b.bidder_id, b.bidder_address, b.amount
+     FROM marketplace_listings l
+     JOIN marketplace_auctions a ON a.listing_id = l.id
+     JOIN vibes v ON v.id = l.vibe_id
+     LEFT JOIN marketplace_bids b ON b.listing_id = l.id AND b.status = 'leading'
+     WHERE l.id = $1 AND l.status = 'active' AND a.ends_at <= NOW()`,
+    [listingId]
+  );
+  const auction = auctions[0];
+  if (!auction) {
+    return false;
+  }
+  const won = auction.bid_id !== null && Number(auction.amount) >= Number(auction.reserve_price);
+  const split = won ? await splitListingSale(auction, Number(auction.amount)) : undefined;
+  const prepared = won
+    ? await getChainAdapter().prepareAuctionSale(Number(auction.chain_listing_id), auction.bidder_address, Number(auction.amount))
+    : undefined;
+
+  const client = await getPool().connect();
+  let saleId: number | undefined;
+  try {
+    await client.query('BEGIN');
+    // Wait out a bid placed just before the end, then check the auction is still as read:
+    // a late bid extends it, and another pass may have closed it meanwhile.
+    await client.query('SELECT 1 FROM marketplace_listings WHERE id = $1 FOR UPDATE', [listingId]);
+    const { rows: current } = await client.query(
+      `SELECT l.status, a.ends_at <= NOW() AS ended,
+         (SELECT b.id FROM marketplace_bids b WHERE b.listing_id = l.id AND b.status = 'leading') AS bid_id
+       FROM marketplace_listings l
+       JOIN marketplace_auctions a ON a.listing_id = l.id
+       WHERE l.id = $1`,
+      [listingId]
+    );
+    if (current[0].status !== 'active' || !current[0].ended || current[0].bid_id !== auction.bid_id) {
+      await client.query('ROLLBACK');
+      prepared?.discard();
+      return false;
+    }
+    await client.query('UPDATE marketplace_listings SET status = $2, updated_at = NOW() WHERE id = $1', [listingId, won ? 'pending_sale' : 'expired']);
+
+    if (split && prepared) {
+      await client.query("UPDATE marketplace_bids SET status = 'won', updated_at = NOW() WHERE id = $1", [auction.bid_id]);
+      const { rows } = await client.query(
+        `INSERT INTO marketplace_sales
+           (listing_id, buyer_id, buyer_address, price, royalty_amount, royalty_recipient_id, bid_id, tx_hash, tx_expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING id`,
+        [listingId, auction.bidder_id, auction.bidder_address, split.price, split.royalty, split.royaltyRecipientId, auction.bid_id, prepared.hash, prepared.expiresAt]
+      );
+      saleId = rows[0].id;
+      await recordPreparedTransaction(client, prepared, { purpose: 'marketplace_sale', entityId: rows[0].id, userId: auction.bidder_id });
+      if (auction.bidder_id) {
+        await createNotifications(client, [{
+          userId: auction.bidder_id,
+          type: 'auction_won',
+          data: { listingId, vibeId: auction.vibe_id, vibeName: auction.name, bidId: auction.bid_id, amount: auction.amount, saleId },
+        }]);
+      }
+    } else if (auction.bid_id) {
+      await client.query("UPDATE marketplace_bids SET status = 'refunded', updated_at = NOW() WHERE id = $1", [auction.bid_id]);
+      if (auction.bidder_id) {
+        await creditWallet(client, 'bid_refund', {
+          userId: auction.bidder_id,
+          amount: Number(auction.amount),
+          vibeId: auction.vibe_id,
+          description: `Refund of bid on Vibe "${auction.name}", which did not meet the reserve price`,
+        });
+      }
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    prepared?.discard();
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (saleId !== undefined && prepared) {
+    logger.info(`Auction ${listingId} won by bid ${auction.bid_id}; sending sale ${saleId}.`);
+    await sendSale(saleId, prepared);
+  } else {
+    logger.info(`Auction ${listingId} ended without a winning bid.`);
+    await tryWithdrawExpiredAuction(listingId);
+  }
+  return true;
+};
+
+/**
+ * Closes auctions that have ended, selling each to its winning bid if it has one. First
+ * withdraws the auctions earlier passes closed unsold but could not withdraw on-chain.
+ * @returns The number of auctions closed.
+ */
+export const closeEndedAuctions = async (): Promise<number> => {
+  const { rows: unwithdrawn } = await getPool().query(
+    `SELECT id FROM marketplace_listings
+     WHERE listing_type = 'auction' AND status = 'expired' AND cancel_tx_hash IS NULL
+     ORDER BY updated_at
+     LIMIT $1`,
+    [RECONCILE_BATCH_SIZE]
+  );
+  for (const { id } of unwithdrawn) {
+    await tryWithdrawExpiredAuction(id);
+  }
+
+  const { rows } = await getPool().query(
+    `SELECT a.listing_id FROM marketplace_auctions a
+     JOIN marketplace_listings l ON l.id = a.listing_id
+     WHERE l.status = 'active' AND a.ends_at <= NOW()
+     ORDER BY a.ends_at
+     LIMIT $1`,
+    [RECONCILE_BATCH_SIZE]
+  );
+
+  let closed = 0;
+  for (const { listing_id: listingId } of rows) {
+    try {
+      if (await closeAuction(listingId)) {
+        closed += 1;
+      }
+    } catch (error) {
+      logger.error(`Error closing auction ${listingId}:`, error);
+    }
+  }
+  return closed;
+};
+
+/**
+ * Settles submitted sales by looking up their transactions on-chain. A transaction the
+ * chain has not seen by its expiry can never execute, so its sale is refunded.
+ * @returns The number of sales that reached a final status.
+ */
+export const reconcileSubmittedSales = async (): Promise<number> => {
+  const { rows } = await getPool().query(
+    "SELECT id, tx_hash, tx_expires_at FROM marketplace_sales WHERE status = 'submitted' ORDER BY updated_at LIMIT $1",
+    [RECONCILE_BATCH_SIZE]
+  );
+
+  let settled = 0;
+  for (const sale of rows) {
+    try {
+      const status = await getChainAdapter().getTransactionStatus(sale.tx_hash);
+      if (status === 'success') {
+        await settleSale(sale.id, sale.tx_hash, 'success');
+      } else if (status === 'failed') {
+        await settleSale(sale.id, sale.tx_hash, 'failed', `Transaction ${sale.tx_hash} failed on-chain.`);
+      } else if (status === 'not_found' && sale.tx_expires_at.getTime() + EXPIRY_GRACE_MS < Date.now()) {
+        await settleSale(sale.id, sale.tx_hash, 'failed', `Transaction ${sale.tx_hash} expired before it was committed.`);
+      } else {
+        continue;
+      }
+      settled += 1;
+    } catch (error) {
+      logger.error(`Error reconciling marketplace sale ${sale.id}:`, error);
+    }
+  }
+  return settled;
+};
+
+/**
+ * Retrieves completed sales, newest first: a Vibe's sale history, or the whole market's.
+ */
+export const getSaleHistory = async (vibeId: number | undefined, limit: number, offset: number): Promise<MarketplaceSale[]> => {
+  const { rows } = await getPool().query(
+    `${SELECT_SALES}
+     WHERE s.status = 'completed' AND ($1::integer IS NULL OR l.vibe_id = $1)
+     ORDER BY s.completed_at DESC, s.id DESC
+     LIMIT $2 OFFSET $3`,
+    [vibeId ?? null, limit, offset]
+  );
+  return rows;
+};
+
+/**
+ * Retrieves a user's purchases in every status, newest first.
+ */
+export const getUserPurchases = async (userId: string, limit: number, offset: number): Promise<MarketplaceSale[]> => {
+  const { rows } = await getPool().query(
+    `${SELECT_SALES} WHERE s.buyer_id = $1 ORDER BY s.created_at DESC, s.id DESC LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+  return rows;
+};
+
+/**
+ * Retrieves one of a user's purchases, e.g. to follow a sale still in flight.
+ * @returns The sale, or null if it does not exist or someone else made it.
+ */
+export const getUserPurchase = async (saleId: number, userId: string): Promise<MarketplaceSale | null> => {
+  const { rows } = await getPool().query(`${SELECT_SALES} WHERE s.id = $1 AND s.buyer_id = $2`, [saleId, userId]);
+  return rows[0] ?? null;
+};
@@ -0,0 +1,75 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+
+export const NOTIFICATION_TYPES = ['quest_expired', 'quest_deadline_passed', 'auction_outbid', 'auction_won', 'signer_balance_low'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export interface Notification {
+  id: number;
+  user_id: string;
+  type: NotificationType;
+  data: Record<string, unknown>;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Stores notifications on the caller's transaction, so they exist exactly when the change
+ * they describe does.
+ * @returns How many were stored.
+ */
+export const createNotifications = async (client: PoolClient, notifications: NewNotification[]): Promise<number> => {
+  if (notifications.length === 0) {
+    return 0;
+  }
+
+  const { rowCount } = await client.query(
+    `INSERT INTO notifications (user_id, type, data)
+     SELECT * FROM UNNEST($1::uuid[], $2::varchar[], $3::jsonb[])`,
+    [
+      notifications.map((notification) => notification.userId),
+      notifications.map((notification) => notification.type),
+      notifications.map((notification) => JSON.stringify(notification.data)),
+    ]
+  );
+  return rowCount ?? 0;
+};
+
+/**
+ * Retrieves a user's notifications, newest first.
+ * @param unreadOnly Leave out the ones already read.
+ * @param limit The most to return.
+ */
+export const getUserNotifications = async (userId: string, unreadOnly: boolean, limit: number): Promise<Notification[]> => {
+  const { rows } = await getPool().query(
+    `SELECT * FROM notifications
+     WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+  return rows;
+};
+
+/**
+ * Marks a user's notifications read.
+ * @param ids The notifications to mark. Marks all of them if omitted.
+ * @returns How many were newly marked.
+ */
+export const markNotificationsRead = async (userId: string, ids?: number[]): Promise<number> => {
+  const params: unknown[] = [userId];
+  let query = 'UPDATE notifications SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL';
+  if (ids) {
+    params.push(ids);
+    query += ' AND id = ANY($2::int[])';
+  }
+
+  const { rowCount } = await getPool().query(query, params);
+  return rowCount ?? 0;
+};
@@ -0,0 +1,293 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import logger from '../config/logger';
+import { getChainAdapter } from './chain';
+import { recordPreparedTransaction } from './chainTransactions.service';
+
+export const PAYOUT_STATUSES = ['pending', 'processing', 'submitted', 'sent', 'failed'] as const;
+export type PayoutStatus = typeof PAYOUT_STATUSES[number];
+
+/**
+ * A quest reward waiting for, or done with, on-chain distribution.
+ * 'processing' and 'submitted' payouts are in flight; 'sent' and 'failed' are final.
+ */
+export interface RewardPayout {
+  id: number;
+  quest_id: string | null;
+  user_id: string;
+  amount: string;
+  status: PayoutStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  locked_at: Date | null;
+  tx_hash: string | null;
+  tx_expires_at: Date | null;
+  last_error: string | null;
+  sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RewardPayoutRequest {
+  questId: string;
+  userId: string;
+  amount: number;
+}
+
+export interface PayoutRunSummary {
+  released: number;
+  reconciled: number;
+  processed: number;
+}
+
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A worker holding a payout this long without recording a hash is presumed dead.
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+// Allowance for drift between our clock and the chain's when judging expiry.
+export const EXPIRY_GRACE_MS = 30_000;
+
+/**
+ * How long to wait before the next attempt: doubling from one minute, capped at six hours.
+ * @param attempts The number of attempts made so far.
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+/**
+ * Queues a reward payout. Call it inside the transaction that earns the reward so the
+ * payout is recorded if, and only if, that transaction commits.
+ * @param client The client running the caller's transaction.
+ * @param payout The quest, recipient and amount.
+ * @returns The queued payout, or null if this quest already paid this user.
+ */
+export const enqueueRewardPayout = async (client: PoolClient, payout: RewardPayoutRequest): Promise<RewardPayout | null> => {
+  const { rows } = await client.query(
+    `INSERT INTO reward_payouts (quest_id, user_id, amount)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (quest_id, user_id) DO NOTHING
+     RETURNING *`,
+    [payout.questId, payout.userId, payout.amount]
+  );
+  return rows[0] || null;
+};
+
+/**
+ * Retrieves a user's payouts, newest first.
+ * @param userId The ID of the recipient.
+ * @param status Optional status to filter by.
+ */
+export const getUserPayouts = async (userId: string, status?: PayoutStatus) => {
+  const params: unknown[] = [userId];
+  let query = `
+    SELECT rp.*, q.title AS quest_title
+    FROM reward_payouts rp
+    LEFT JOIN quests q ON q.id = rp.quest_id
+    WHERE rp.user_id = $1
+  `;
+  if (status) {
+    params.push(status);
+    query += ` AND rp.status = $${params.length}`;
+  }
+  query += ' ORDER BY rp.created_at DESC';
+
+  const { rows } = await getPool().query(query, params);
+  return rows;
+};
+
+/**
+ * Retrieves one of a user's payouts.
+ * @returns The payout, or null if it does not exist or belongs to someone else.
+ */
+export const getUserPayout = async (payoutId: number, userId: string) => {
+  const { rows } = await getPool().query(
+    `SELECT rp.*, q.title AS quest_title
+     FROM reward_payouts rp
+     LEFT JOIN quests q ON q.id = rp.quest_id
+     WHERE rp.id = $1 AND rp.user_id = $2`,
+    [payoutId, userId]
+  );
+  return rows[0] || null;
+};
+
+/**
+ * Puts a failed payout back in the queue, e.g. after the user links a wallet.
+ * Only 'failed' payouts can be retried: they are known never to have been paid.
+ * @throws PAYOUT_NOT_FOUND, PAYOUT_NOT_FAILED
+ */
+export const retryPayout = async (payoutId: number, userId: string): Promise<RewardPayout> => {
+  const { rows } = await getPool().query(
+    `UPDATE reward_payouts
+     SET status = 'pending', attempts = 0, next_attempt_at = NOW(), tx_hash = NULL, tx_expires_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND status = 'failed'
+     RETURNING *`,
+    [payoutId, userId]
+  );
+  if (rows.length > 0) {
+    return rows[0];
+  }
+
+  const existing = await getUserPayout(payoutId, userId);
+  throw new Error(existing ? 'PAYOUT_NOT_FAILED' : 'PAYOUT_NOT_FOUND');
+};
+
+// Sends the payout back to the queue with backoff, or gives up once it is out of attempts.
+// Only call this for payouts whose transaction is known not to have executed. The guard
+// keeps a payout that another worker has already settled from being queued again.
+const scheduleRetry = async (payout: RewardPayout, reason: string) => {
+  const exhausted = payout.attempts >= getConfig().payouts.maxAttempts;
+  await getPool().query(
+    `UPDATE reward_payouts
+     SET status = $2, last_error = $3, tx_hash = NULL, tx_expires_at = NULL, locked_at = NULL,
+         next_attempt_at = NOW() + ($4 || ' milliseconds')::INTERVAL, updated_at = NOW()
+     WHERE id = $1 AND status IN ('processing', 'submitted') AND attempts = $5`,
+    [payout.id, exhausted ? 'failed' : 'pending', reason, String(getRetryDelayMs(payout.attempts)), payout.attempts]
+  );
+  if (exhausted) {
+    logger.error(`Reward payout ${payout.id} failed after ${payout.attempts} attempt(s): ${reason}`);
+  } else {
+    logger.warn(`Reward payout ${payout.id} attempt ${payout.attempts} failed, retrying later: ${reason}`);
+  }
+};
+
+const markSent = async (payout: RewardPayout, txHash: string) => {
+  await getPool().query(
+    `UPDATE reward_payouts
+     SET status = 'sent', sent_at = NOW(), last_error = NULL, locked_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND tx_hash = $2 AND status = 'submitted'`,
+    [payout.id, txHash]
+  );
+  logger.info(`Reward payout ${payout.id} sent in transaction ${txHash}`);
+};
+
+/**
+ * Returns payouts to the queue when the worker that claimed them stopped before
+ * recording a transaction hash. Nothing was submitted for them, so retrying is safe.
+ * @returns The number of payouts released.
+ */
+export const releaseStalePayouts = async (): Promise<number> => {
+  const { rowCount } = await getPool().query(
+    `UPDATE reward_payouts
+     SET status = 'pending', locked_at = NULL, updated_at = NOW()
+     WHERE status = 'processing' AND locked_at < NOW() - ($1 || ' milliseconds')::INTERVAL`,
+    [String(STALE_PROCESSING_MS)]
+  );
+  return rowCount ?? 0;
+};
+
+/**
+ * Settles submitted payouts by looking up their transactions on-chain. A transaction
+ * the chain has not seen by its expiry can never execute, so its payout is retried.
+ * @returns The number of payouts that reached a new status.
+ */
+export const reconcileSubmittedPayouts = async (): Promise<number> => {
+  const { rows } = await getPool().query<RewardPayout>(
+    "SELECT * FROM reward_payouts WHERE status = 'submitted' ORDER BY updated_at LIMIT $1",
+    [getConfig().payouts.batchSize]
+  );
+
+  let settled = 0;
+  for (const payout of rows) {
+    const txHash = payout.tx_hash!;
+    try {
+      const status = await getChainAdapter().getTransactionStatus(txHash);
+      if (status === 'success') {
+        await markSent(payout, txHash);
+      } else if (status === 'failed') {
+        await scheduleRetry(payout, `Transaction ${txHash} failed on-chain.`);
+      } else if (status === 'not_found' && payout.tx_expires_at && payout.tx_expires_at.getTime() + EXPIRY_GRACE_MS < Date.now()) {
+        await scheduleRetry(payout, `Transaction ${txHash} expired before it was committed.`);
+      } else {
+        continue;
+      }
+      settled += 1;
+    } catch (error) {
+      logger.error(`Error reconciling reward payout ${payout.id}:`, error);
+    }
+  }
+  return settled;
+};
+
+// Marks due payouts as 'processing' so no other worker picks them up.
+const claimDuePayouts = async (): Promise<(RewardPayout & { recipient_address: string | null })[]> => {
+  const { rows } = await getPool().query(
+    `UPDATE reward_payouts rp
+     SET status = 'processing', attempts = rp.attempts + 1, locked_at = NOW(), updated_at = NOW()
+     FROM users u
+     WHERE u.id = rp.user_id AND rp.id IN (
+       SELECT id FROM reward_payouts
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING rp.*, u.aptos_address AS recipient_address`,
+    [getConfig().payouts.batchSize]
+  );
+  return rows;
+};
+
+/**
+ * Sends one claimed payout. The transaction hash is recorded before submission, so a
+ * crash at any point leaves either an unsent 'processing' payout or a 'submitted' one
+ * that reconciliation can settle by hash — never a payout that could be sent twice.
+ */
+const sendPayout = async (payout: RewardPayout & { recipient_address: string | null }) => {
+  if (!payout.recipient_address) {
+    await scheduleRetry(payout, 'Recipient has no Aptos address.');
+    return;
+  }
+
+  let prepared;
+  try {
+    // Each attempt offers more gas than the last, in case the last was priced out.
+    prepared = await getChainAdapter().prepareQuestReward(payout.recipient_address, Number(payout.amount), { attempt: payout.attempts });
+  } catch (error: any) {
+    await scheduleRetry(payout, error.message);
+    return;
+  }
+
+  const { rowCount } = await getPool().query(
+    `UPDATE reward_payouts
+     SET status = 'submitted', tx_hash = $2, tx_expires_at = $3, updated_at = NOW()
+     WHERE id = $1 AND status = 'processing' AND attempts = $4`,
+    [payout.id, prepared.hash, prepared.expiresAt, payout.attempts]
+  );
+  if (rowCount === 0) {
+    // Released as stale while we were preparing; another run owns it now.
+    logger.warn(`Reward payout ${payout.id} was reclaimed before submission; skipping.`);
+    prepared.discard();
+    return;
+  }
+
+  try {
+    await recordPreparedTransaction(getPool(), prepared, { purpose: 'quest_reward', entityId: payout.id, userId: payout.user_id });
+    await prepared.submit();
+    const outcome = await getChainAdapter().waitForTransaction(prepared.hash);
+    if (outcome === 'success') {
+      await markSent(payout, prepared.hash);
+    } else {
+      await scheduleRetry(payout, `Transaction ${prepared.hash} failed on-chain.`);
+    }
+  } catch (error) {
+    // The transaction may still land if it was submitted; reconciliation will settle it by hash.
+    prepared.discard();
+    logger.error(`Error sending reward payout ${payout.id}, will reconcile transaction ${prepared.hash}:`, error);
+  }
+};
+
+/**
+ * Runs one pass of the payout worker: releases stale claims, settles submitted
+ * transactions and sends the payouts that are due. Payouts are sent one at a time;
+ * the chain adapter's sequencer gives each the next sequence number of a signer.
+ */
+export const processRewardPayouts = async (): Promise<PayoutRunSummary> => {
+  const released = await releaseStalePayouts();
+  const reconciled = await reconcileSubmittedPayouts();
+  const due = await claimDuePayouts();
+  for (const payout of due) {
+    await sendPayout(payout);
+  }
+  return { released, reconciled, processed: due.length };
+};
@@ -1,5 +1,18 @@
+import { Pool, PoolClient } from 'pg';
 import { getPool } from '../config/database';
 import logger from '../config/logger';
+import { getChainAdapter } from './chain';
+import { recordReputationEvent } from './reputation.service';
+import * as treasuryService from './treasury.service';
+import { Ballot, ProposalTally, VoteWeighting, VotingMode, evaluateOutcome, tallyVotes } from '../utils/voteTally';
+
+export type { ProposalTally };
+export { evaluateOutcome };
+
+export const PROPOSAL_STATUSES = ['open', 'closed', 'passed', 'failed'] as const;
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number];
+export type ProposalType = 'text' | 'treasury_spend';
+export type ExecutionStatus = 'pending' | 'executed' | 'failed' | 'cancelled';
 
 export interface Proposal {
   id: number;
@@ -7,9 +20,23 @@ export interface Proposal {
   creator_id: string;
   title: string;
   description: string;
-  status: 'open' | 'closed' | 'passed' | 'failed';
+  status: ProposalStatus;
+  voting_mode: VotingMode;
+  options: string[] | null;
+  vote_weighting: VoteWeighting;
+  proposal_type: ProposalType;
+  action: treasuryService.TreasuryAction | null;
+  execution_status: ExecutionStatus | null;
+  execution_error: string | null;
+  executed_at: Date | null;
   created_at: Date;
   expires_at: Date;
+  closed_at: Date | null;
+  final_tally: ProposalTally | null;
+}
+
+export interface ProposalWithTally extends Proposal {
+  tally: ProposalTally;
 }
 
 export interface CreateProposalPayload {
@@ -18,29 +45,142 @@ export interface CreateProposalPayload {
   title: string;
   description: string;
   durationDays: number;
+  votingMode?: VotingMode;
+  options?: string[];
+  voteWeighting?: VoteWeighting;
+  action?: treasuryService.TreasuryAction;
 }
 
+/**
+ * A member's choice on a proposal, before it is weighted.
+ */
+export type VoteChoice =
+  | { voteOption: boolean }
+  | { optionIndex: number }
+  | { rankings: number[] };
+
+// Vote weight of each feed group role under 'role' weighting. Unlisted roles count as members.
+export const ROLE_VOTE_WEIGHTS: Record<string, number> = {
+  creator: 3,
+  admin: 2,
+  moderator: 2,
+  member: 1,
+};
+
+// Selects every proposal column plus the group settings needed to tally it live.
+const PROPOSAL_WITH_TALLY_SELECT = `
+  SELECT p.*,
+    fg.proposal_quorum_percent,
+    fg.proposal_pass_threshold_percent,
+    (SELECT COUNT(*) FROM feed_group_members gm WHERE gm.group_id = p.group_id) AS eligible_voters
+  FROM proposals p
+  JOIN feed_groups fg ON fg.id = p.group_id
+`;
+
+/**
+ * Whether a proposal is still marked open even though its voting period has ended.
+ */
+export const isExpired = (proposal: Pick<Proposal, 'status' | 'expires_at'>, now: Date = new Date()): boolean =>
+  proposal.status === 'open' && new Date(proposal.expires_at).getTime() <= now.getTime();
+
+const toBallot = (row: any): Ballot => ({
+  voteOption: row.vote_option,
+  optionIndex: row.option_index,
+  rankings: row.rankings,
+  weight: parseFloat(row.weight),
+});
+
+/**
+ * Loads the ballots cast on a set of proposals.
+ * @param db The pool, or a client inside a transaction.
+ * @param proposalIds The proposals to load ballots for.
+ * @returns The ballots of each proposal, keyed by proposal ID.
+ */
+const loadBallots = async (db: Pool | PoolClient, proposalIds: number[]): Promise<Map<number, Ballot[]>> => {
+  const ballots = new Map<number, Ballot[]>(proposalIds.map((id) => [id, []]));
+  if (proposalIds.length === 0) {
+    return ballots;
+  }
+
+  const { rows } = await db.query(
+    'SELECT proposal_id, vote_option, option_index, rankings, weight FROM votes WHERE proposal_id = ANY($1)',
+    [proposalIds]
+  );
+  for (const row of rows) {
+    ballots.get(row.proposal_id)?.push(toBallot(row));
+  }
+  return ballots;
+};
+
+const tallyRow = (row: any, ballots: Ballot[]): ProposalTally =>
+  tallyVotes(ballots, {
+    votingMode: row.voting_mode,
+    options: row.options,
+    eligibleVoters: parseInt(row.eligible_voters, 10),
+    quorumPercent: row.proposal_quorum_percent,
+    passThresholdPercent: row.proposal_pass_threshold_percent,
+  });
+
+const toProposalWithTally = (row: any, ballots: Ballot[]): ProposalWithTally => {
+  const { proposal_quorum_percent, proposal_pass_threshold_percent, eligible_voters, ...proposal } = row;
+
+  // Closed proposals report the tally they were decided on, not today's membership.
+  const tally = proposal.final_tally ?? tallyRow(row, ballots);
+  return { ...proposal, tally };
+};
+
+const withTallies = async (db: Pool | PoolClient, rows: any[]): Promise<ProposalWithTally[]> => {
+  const openIds = rows.filter((row) => !row.final_tally).map((row) => row.id);
+  const ballots = await loadBallots(db, openIds);
+  return rows.map((row) => toProposalWithTally(row, ballots.get(row.id) ?? []));
+};
+
 /**
  * Creates a new proposal in the database.
  * @param proposalData The data for the new proposal.
  * @returns The newly created proposal.
  */
 export const createProposal = async (proposalData: CreateProposalPayload): Promise<Proposal> => {
-  const { groupId, creatorId, title, description, durationDays } = proposalData;
+  const {
+    groupId,
+    creatorId,
+    title,
+    description,
+    durationDays,
+    votingMode = 'binary',
+    options,
+    voteWeighting = 'equal',
+    action,
+  } = proposalData;
 
   // Calculate expires_at from duration
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + durationDays);
 
   const query = `
-    INSERT INTO proposals (group_id, creator_id, title, description, expires_at)
-    VALUES ($1, $2, $3, $4, $5)
+    INSERT INTO proposals (
+      group_id, creator_id, title, description, expires_at,
+      voting_mode, options, vote_weighting, proposal_type, action, execution_status
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
     RETURNING *;
   `;
 
   try {
     const pool = getPool();
-    const { rows } = await pool.query(query, [groupId, creatorId, title, description, expiresAt]);
+    const { rows } = await pool.query(query, [
+      groupId,
+      creatorId,
+      title,
+      description,
+      expiresAt,
+      votingMode,
+      votingMode === 'binary' ? null : JSON.stringify(options),
+      voteWeighting,
+      action ? 'treasury_spend' : 'text',
+      action ? JSON.stringify(action) : null,
+      action ? 'pending' : null,
+    ]);
     logger.info(`Proposal created successfully with ID: ${rows[0].id} in group ${groupId}`);
     return rows[0];
   } catch (error) {
@@ -67,25 +207,371 @@ export const getProposalById = async (proposalId: number): Promise<Proposal | nu
 };
 
 /**
- * Casts a vote on a proposal.
- * @param proposalId The ID of the proposal being voted on.
+ * Retrieves a proposal in a group together with its live tally.
+ * Proposals whose voting period has ended are closed first.
+ * @param groupId The ID of the group the proposal belongs to.
+ * @param proposalId The ID of the proposal.
+ * @returns The proposal with its tally, or null if not found in the group.
+ */
+export const getProposalWithTally = async (groupId: number, proposalId: number): Promise<ProposalWithTally | null> => {
+  const query = `${PROPOSAL_WITH_TALLY_SELECT} WHERE p.id = $1 AND p.group_id = $2`;
+
+  try {
+    const pool = getPool();
+    const { rows } = await pool.query(query, [proposalId, groupId]);
+    if (!rows[0]) {
+      return null;
+    }
+
+    const [proposal] = await withTallies(pool, rows);
+    if (isExpired(proposal)) {
+      return finalizeProposal(proposalId);
+    }
+    return proposal;
+  } catch (error) {
+    logger.error(`Error retrieving proposal ${proposalId} in group ${groupId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Retrieves the proposals of a group with their live tallies, newest first.
+ * @param groupId The ID of the group.
+ * @param status Optional proposal status to filter by.
+ */
+export const getGroupProposals = async (groupId: number, status?: ProposalStatus): Promise<ProposalWithTally[]> => {
+  const values: any[] = [groupId];
+  let query = `${PROPOSAL_WITH_TALLY_SELECT} WHERE p.group_id = $1`;
+
+  if (status) {
+    query += ' AND p.status = $2';
+    values.push(status);
+  }
+
+  query += ' ORDER BY p.created_at DESC';
+
+  try {
+    // Settle anything that expired since the last scheduled run so statuses are accurate.
+    await closeExpiredProposals(groupId);
+
+    const pool = getPool();
+    const { rows } = await pool.query(query, values);
+    return withTallies(pool, rows);
+  } catch (error) {
+    logger.error(`Error retrieving proposals for group ${groupId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Retrieves proposals from every group the user belongs to.
+ * @param userId The ID of the member.
+ * @param status Optional proposal status to filter by.
+ * @returns A list of proposals with their tallies, newest first.
+ */
+export const getProposalsForMember = async (userId: string, status?: string): Promise<ProposalWithTally[]> => {
+  const values: any[] = [userId];
+  let query = `
+    ${PROPOSAL_WITH_TALLY_SELECT}
+    JOIN feed_group_members m ON m.group_id = p.group_id
+    WHERE m.user_id = $1
+  `;
+
+  if (status) {
+    query += ' AND p.status = $2';
+    values.push(status);
+  }
+
+  query += ' ORDER BY p.created_at DESC';
+
+  try {
+    // Settle anything that expired since the last scheduled run so statuses are accurate.
+    await finalizeExpiredProposals(
+      ' AND group_id IN (SELECT group_id FROM feed_group_members WHERE user_id = $1)',
+      [userId]
+    );
+
+    const pool = getPool();
+    const { rows } = await pool.query(query, values);
+    return withTallies(pool, rows);
+  } catch (error) {
+    logger.error(`Error retrieving proposals across groups for user ${userId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Reads a member's choice from a vote request, checked against the proposal's voting mode.
+ * @param proposal The proposal being voted on.
+ * @param body The request body.
+ * @returns The choice, or null if it is missing or does not fit the proposal.
+ */
+export const parseVoteChoice = (proposal: Pick<Proposal, 'voting_mode' | 'options'>, body: any): VoteChoice | null => {
+  const optionCount = proposal.options?.length ?? 0;
+  const isOption = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < optionCount;
+
+  switch (proposal.voting_mode) {
+    case 'binary':
+      return typeof body?.voteOption === 'boolean' ? { voteOption: body.voteOption } : null;
+    case 'multiple_choice':
+      return isOption(body?.optionIndex) ? { optionIndex: body.optionIndex } : null;
+    case 'ranked_choice': {
+      const rankings = body?.rankings;
+      if (!Array.isArray(rankings) || rankings.length === 0 || !rankings.every(isOption)) {
+        return null;
+      }
+      return new Set(rankings).size === rankings.length ? { rankings } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Works out how much a member's vote counts for under a weighting scheme.
+ * @param weighting The proposal's weighting scheme.
+ * @param groupId The ID of the proposal's group.
+ * @param voterId The ID of the voting member.
+ * @returns The vote's weight. Token-weighted votes are measured in whole $Lunoa, and
+ *          measured again when the proposal closes.
+ */
+export const getVoteWeight = async (weighting: VoteWeighting, groupId: number, voterId: string): Promise<number> => {
+  const pool = getPool();
+
+  switch (weighting) {
+    case 'role': {
+      const { rows } = await pool.query(
+        'SELECT role FROM feed_group_members WHERE group_id = $1 AND user_id = $2',
+        [groupId, voterId]
+      );
+      return ROLE_VOTE_WEIGHTS[rows[0]?.role] ?? ROLE_VOTE_WEIGHTS.member;
+    }
+    case 'reputation': {
+      // Everyone keeps at least one vote, however new they are.
+      const { rows } = await pool.query('SELECT reputation_score FROM users WHERE id = $1', [voterId]);
+      return Math.max(1, rows[0]?.reputation_score ?? 0);
+    }
+    case 'token': {
+      // Only an address the member proved is theirs, or anyone could vote with others' tokens.
+      const { rows } = await pool.query('SELECT aptos_address FROM users WHERE id = $1 AND aptos_address_verified_at IS NOT NULL', [voterId]);
+      if (!rows[0]?.aptos_address) {
+        return 0;
+      }
+      return getChainAdapter().getLunoaBalance(rows[0].aptos_address);
+    }
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Measures every ballot of a token-weighted proposal again, on the caller's transaction,
+ * once voting has ended. Tokens moved to another member after voting would otherwise count
+ * for both; now they count for whoever holds them at the close. An address shared by
+ * several voters counts once, for the one who voted first.
+ */
+const reweighTokenBallots = async (client: PoolClient, proposalId: number): Promise<void> => {
+  const { rows } = await client.query(
+    `SELECT v.id, CASE WHEN u.aptos_address_verified_at IS NOT NULL THEN lower(u.aptos_address) END AS address
+     FROM votes v JOIN users u ON u.id = v.voter_id
+     WHERE v.proposal_id = $1
+     ORDER BY v.created_at, v.id`,
+    [proposalId]
+  );
+
+  const counted = new Set<string>();
+  const weights: number[] = [];
+  for (const { address } of rows) {
+    if (!address || counted.has(address)) {
+      weights.push(0);
+      continue;
+    }
+    counted.add(address);
+    weights.push(await getChainAdapter().getLunoaBalance(address));
+  }
+
+  if (rows.length > 0) {
+    await client.query(
+      `UPDATE votes v SET weight = w.weight
+       FROM UNNEST($1::integer[], $2::numeric[]) AS w (id, weight)
+       WHERE v.id = w.id`,
+      [rows.map((row) => row.id), weights]
+    );
+  }
+};
+
+/**
+ * Casts or changes a member's vote on a proposal. A member can change their vote
+ * as often as they like until the proposal closes; the weight is re-measured each time,
+ * and token weights once more when the proposal closes.
+ * @param proposal The proposal being voted on.
  * @param voterId The ID of the user voting.
- * @param voteOption The vote itself (true for 'yes', false for 'no').
- * @returns The new vote record.
+ * @param choice The member's choice, as returned by parseVoteChoice.
+ * @returns The vote record, and whether it was newly created rather than changed.
+ * @throws Error('NO_VOTING_POWER') if the vote would carry no weight, or Error('VOTING_CLOSED').
  */
-export const castVote = async (proposalId: number, voterId: string, voteOption: boolean): Promise<any> => {
+export const castVote = async (
+  proposal: Pick<Proposal, 'id' | 'group_id' | 'vote_weighting'>,
+  voterId: string,
+  choice: VoteChoice
+): Promise<{ vote: any; created: boolean }> => {
+  const proposalId = proposal.id;
+
+  // Only accept the vote while the proposal is open and inside its voting period.
   const query = `
-    INSERT INTO votes (proposal_id, voter_id, vote_option)
-    VALUES ($1, $2, $3)
-    RETURNING *;
+    INSERT INTO votes (proposal_id, voter_id, vote_option, option_index, rankings, weight)
+    SELECT $1, $2, $3, $4, $5, $6
+    WHERE EXISTS (
+      SELECT 1 FROM proposals WHERE id = $1 AND status = 'open' AND expires_at > NOW()
+    )
+    ON CONFLICT (proposal_id, voter_id) DO UPDATE
+    SET vote_option = EXCLUDED.vote_option,
+        option_index = EXCLUDED.option_index,
+        rankings = EXCLUDED.rankings,
+        weight = EXCLUDED.weight,
+        updated_at = NOW()
+    RETURNING *, (xmax = 0) AS created;
   `;
   try {
+    const weight = await getVoteWeight(proposal.vote_weighting, proposal.group_id, voterId);
+    if (weight <= 0) {
+      throw new Error('NO_VOTING_POWER');
+    }
+
     const pool = getPool();
-    const { rows } = await pool.query(query, [proposalId, voterId, voteOption]);
-    logger.info(`Vote cast successfully by ${voterId} on proposal ${proposalId}`);
-    return rows[0];
+    const { rows } = await pool.query(query, [
+      proposalId,
+      voterId,
+      'voteOption' in choice ? choice.voteOption : null,
+      'optionIndex' in choice ? choice.optionIndex : null,
+      'rankings' in choice ? choice.rankings : null,
+      weight,
+    ]);
+    if (rows.length === 0) {
+      throw new Error('VOTING_CLOSED');
+    }
+
+    const { created, ...vote } = rows[0];
+    logger.info(`Vote ${created ? 'cast' : 'changed'} by ${voterId} on proposal ${proposalId} with weight ${weight}`);
+    return { vote, created };
   } catch (error) {
     logger.error(`Error casting vote for ${voterId} on proposal ${proposalId}:`, error);
     throw error; // Re-throw for controller to handle
   }
 };
+
+/**
+ * Closes an open proposal, recording its final tally and outcome.
+ * The proposal row is locked so concurrent callers decide it only once.
+ * A passed treasury-spend proposal executes its action in the same transaction;
+ * if the action cannot be carried out the proposal still closes as passed and
+ * the failure is recorded on it instead. A passed proposal earns its creator reputation.
+ * Token-weighted ballots are weighed by the holdings at the close.
+ * @param proposalId The ID of the proposal to close.
+ * @returns The proposal with its final tally, or null if it does not exist.
+ */
+export const finalizeProposal = async (proposalId: number): Promise<ProposalWithTally | null> => {
+  const pool = getPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const { rows: proposalRows } = await client.query(
+      `${PROPOSAL_WITH_TALLY_SELECT} WHERE p.id = $1 FOR UPDATE OF p`,
+      [proposalId]
+    );
+    const row = proposalRows[0];
+    if (!row) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    if (row.status !== 'open') {
+      // Another caller already decided it.
+      await client.query('COMMIT');
+      return getProposalWithTally(row.group_id, proposalId);
+    }
+
+    // Voting has ended, so no ballot changes while the holdings are read.
+    if (row.vote_weighting === 'token') {
+      await reweighTokenBallots(client, proposalId);
+    }
+
+    const ballots = await loadBallots(client, [proposalId]);
+    const tally = tallyRow(row, ballots.get(proposalId) ?? []);
+    const outcome = evaluateOutcome(tally);
+
+    let executionStatus: ExecutionStatus | null = null;
+    let executionError: string | null = null;
+    if (row.action) {
+      executionStatus = 'cancelled';
+      if (outcome === 'passed') {
+        await client.query('SAVEPOINT execute_action');
+        try {
+          await treasuryService.executeTreasuryAction(client, row);
+          executionStatus = 'executed';
+        } catch (error: any) {
+          await client.query('ROLLBACK TO SAVEPOINT execute_action');
+          logger.warn(`Treasury action of proposal ${proposalId} could not be executed: ${error.message}`);
+          executionStatus = 'failed';
+          executionError = error.message;
+        }
+      }
+    }
+
+    const { rows: updatedRows } = await client.query(
+      `UPDATE proposals
+       SET status = $2, closed_at = NOW(), final_tally = $3,
+           execution_status = $4::VARCHAR, execution_error = $5,
+           executed_at = CASE WHEN $4::VARCHAR = 'executed' THEN NOW() END
+       WHERE id = $1
+       RETURNING *`,
+      [proposalId, outcome, JSON.stringify(tally), executionStatus, executionError]
+    );
+
+    if (outcome === 'passed') {
+      await recordReputationEvent(client, row.creator_id, 'proposal_passed', { proposalId, groupId: row.group_id });
+    }
+
+    await client.query('COMMIT');
+    logger.info(`Proposal ${proposalId} closed as '${outcome}' (${tally.votesCast} of ${tally.eligibleVoters} members voted)`);
+    return { ...updatedRows[0], tally };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error(`Error finalizing proposal ${proposalId}:`, error);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Closes the open proposals past their voting period that also match the filter, a
+// condition on the proposals table starting with AND.
+const finalizeExpiredProposals = async (filter: string, values: any[]): Promise<ProposalWithTally[]> => {
+  const { rows } = await getPool().query(
+    `SELECT id FROM proposals WHERE status = 'open' AND expires_at <= NOW()${filter} ORDER BY expires_at`,
+    values
+  );
+
+  const closed: ProposalWithTally[] = [];
+  for (const { id } of rows) {
+    try {
+      const proposal = await finalizeProposal(id);
+      if (proposal) {
+        closed.push(proposal);
+      }
+    } catch {
+      // Already logged by finalizeProposal; leave it open for the next run.
+    }
+  }
+  return closed;
+};
+
+/**
+ * Closes every open proposal whose voting period has ended.
+ * @param groupId Optionally restrict to a single group.
+ * @returns The proposals that were closed by this call.
+ */
+export const closeExpiredProposals = async (groupId?: number): Promise<ProposalWithTally[]> =>
+  groupId === undefined ? finalizeExpiredProposals('', []) : finalizeExpiredProposals(' AND group_id = $1', [groupId]);
@@ -0,0 +1,345 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { getConfig, isFeatureEnabled } from '../config/index';
+import logger from '../config/logger';
+import { ChainAdapter, QUEST_EVENT_TYPES, QuestEvent, QuestEventType, getChainAdapter } from './chain';
+
+export interface QuestSyncSummary {
+  // Events read from the chain and stored.
+  indexed: number;
+  // Stored events dropped because the chain no longer has them.
+  rolledBack: number;
+  // On-chain quests whose rows were rebuilt, counted once however many handles touched them.
+  questsSynced: number;
+}
+
+export interface QuestEventHandleStatus {
+  event_type: QuestEventType;
+  // How many of the handle's events have been indexed.
+  indexed: number;
+  // How many events the handle had emitted when it was last polled.
+  on_chain: number;
+  behind: number;
+  synced_at: Date | null;
+}
+
+export interface QuestIndexerStatus {
+  enabled: boolean;
+  // Events emitted on-chain but not indexed yet, over every handle.
+  behind: number;
+  // Seconds since the handle synced longest ago was synced; null until every handle has been.
+  lag_seconds: number | null;
+  handles: QuestEventHandleStatus[];
+}
+
+interface HandleSync {
+  indexed: number;
+  rolledBack: number;
+  chainQuestIds: number[];
+}
+
+// The part of an event that is not its type, sequence number, version, quest or account.
+const toStoredEvent = (event: QuestEvent): { account: string; data: Record<string, unknown> } => {
+  switch (event.type) {
+    case 'quest_created':
+      return { account: event.creator, data: { title: event.title, reward: event.reward } };
+    case 'quest_joined':
+      return { account: event.participant, data: {} };
+    case 'quest_completed':
+      return { account: event.completer, data: { reward_paid: event.rewardPaid } };
+    case 'quest_canceled':
+      return { account: event.creator, data: {} };
+  }
+};
+
+/**
+ * Finds the first stored event of a handle that the chain no longer has, or the cursor if
+ * it still has them all. Handles only ever grow, so once the newest stored event matches
+ * the chain's, every older one does too; only after a mismatch are older pages compared.
+ */
+const findRollbackPoint = async (
+  chain: ChainAdapter,
+  type: QuestEventType,
+  cursor: number,
+  onChain: number,
+  batchSize: number
+): Promise<number> => {
+  let end = cursor;
+  let pageSize = 1;
+  while (end > 0) {
+    const start = Math.max(0, end - pageSize);
+    const [stored, current] = await Promise.all([
+      getPool().query(
+        `SELECT sequence_number, version FROM chain_quest_events
+         WHERE event_type = $1 AND sequence_number >= $2 AND sequence_number < $3 ORDER BY sequence_number`,
+        [type, start, end]
+      ),
+      start < onChain ? chain.getQuestEvents(type, start, Math.min(end, onChain) - start) : Promise.resolve([]),
+    ]);
+
+    const versions = new Map(current.map((event) => [event.sequenceNumber, event.version]));
+    const diverged = stored.rows.find((row) => versions.get(Number(row.sequence_number)) !== String(row.version));
+    if (!diverged) {
+      return end;
+    }
+    if (Number(diverged.sequence_number) > start) {
+      return Number(diverged.sequence_number);
+    }
+    end = start;
+    pageSize = batchSize;
+  }
+  return 0;
+};
+
+/**
+ * Brings an on-chain quest's rows in line with its stored events: the quest itself, listed
+ * in the indexer's group, and its participants. Creators and participants are matched to
+ * users by their Aptos or wallet address. A quest whose creator has no account is not
+ * listed until they sign up (see relistPendingChainQuests), and participants without one
+ * are left out. A quest whose creation was rolled back is deleted.
+ */
+const rebuildChainQuest = async (client: PoolClient, chainQuestId: number, groupId: number): Promise<void> => {
+  const { rows: events } = await client.query(
+    'SELECT event_type, account_address, data FROM chain_quest_events WHERE chain_quest_id = $1 ORDER BY version, sequence_number',
+    [chainQuestId]
+  );
+
+  const created = events.find((event) => event.event_type === 'quest_created');
+  if (!created) {
+    await client.query('DELETE FROM quests WHERE chain_quest_id = $1', [chainQuestId]);
+    return;
+  }
+
+  // Completing a quest on-chain pays its reward there, so completers are verified.
+  const statuses = new Map<string, 'joined' | 'verified'>();
+  for (const event of events) {
+    if (event.event_type === 'quest_joined' && !statuses.has(event.account_address)) {
+      statuses.set(event.account_address, 'joined');
+    } else if (event.event_type === 'quest_completed') {
+      statuses.set(event.account_address, 'verified');
+    }
+  }
+
+  const addresses = [created.account_address, ...statuses.keys()];
+  const { rows: users } = await client.query(
+    `SELECT id, lower(aptos_address) AS aptos_address, lower(wallet_address) AS wallet_address FROM users
+     WHERE lower(aptos_address) = ANY($1::text[]) OR lower(wallet_address) = ANY($1::text[])
+     ORDER BY created_at`,
+    [addresses]
+  );
+  const userIds = new Map<string, string>();
+  for (const user of users) {
+    for (const address of [user.aptos_address, user.wallet_address]) {
+      if (address && !userIds.has(address)) {
+        userIds.set(address, user.id);
+      }
+    }
+  }
+
+  const creatorId = userIds.get(created.account_address);
+  if (!creatorId) {
+    logger.info(`On-chain quest ${chainQuestId} was created by ${created.account_address}, who has no account; not listing it.`);
+    return;
+  }
+
+  const canceled = events.some((event) => event.event_type === 'quest_canceled');
+  const { rows } = await client.query(
+    `INSERT INTO quests (chain_quest_id, group_id, creator_id, title, description, reward, status)
+     VALUES ($1, $2, $3, $4, '', $5, $6)
+     ON CONFLICT (chain_quest_id) DO UPDATE SET status = EXCLUDED.status
+     RETURNING id`,
+    [chainQuestId, groupId, creatorId, String(created.data.title).slice(0, 100), created.data.reward, canceled ? 'cancelled' : 'active']
+  );
+  const questId = rows[0].id;
+
+  // One user may have joined from both of their addresses; a completion from either counts.
+  const participants = new Map<string, 'joined' | 'verified'>();
+  for (const [address, status] of statuses) {
+    const userId = userIds.get(address);
+    if (userId && participants.get(userId) !== 'verified') {
+      participants.set(userId, status);
+    }
+  }
+
+  await client.query(
+    'DELETE FROM quest_participants WHERE quest_id = $1 AND NOT (user_id = ANY($2::uuid[]))',
+    [questId, [...participants.keys()]]
+  );
+  if (participants.size > 0) {
+    await client.query(
+      `INSERT INTO quest_participants (quest_id, user_id, status)
+       SELECT $1::uuid, user_id, status FROM UNNEST($2::uuid[], $3::varchar[]) AS p (user_id, status)
+       ON CONFLICT (quest_id, user_id) DO UPDATE SET status = EXCLUDED.status, updated_at = NOW()
+       WHERE quest_participants.status <> EXCLUDED.status`,
+      [questId, [...participants.keys()], [...participants.values()]]
+    );
+  }
+};
+
+/**
+ * Reads the next page of a handle's events into chain_quest_events and moves its cursor,
+ * first dropping any stored events the chain rolled back, then rebuilds the quests those
+ * events touched. The chain is read before the cursor is locked; if another run moved the
+ * cursor meanwhile, nothing is written.
+ */
+const syncHandle = async (
+  chain: ChainAdapter,
+  type: QuestEventType,
+  onChain: number,
+  groupId: number,
+  batchSize: number
+): Promise<HandleSync> => {
+  const { rows } = await getPool().query('SELECT next_sequence_number FROM chain_quest_cursors WHERE event_type = $1', [type]);
+  const cursor = Number(rows[0]?.next_sequence_number ?? 0);
+
+  const from = await findRollbackPoint(chain, type, cursor, onChain, batchSize);
+  const events = from < onChain ? await chain.getQuestEvents(type, from, batchSize) : [];
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    await client.query('INSERT INTO chain_quest_cursors (event_type) VALUES ($1) ON CONFLICT DO NOTHING', [type]);
+    const locked = await client.query('SELECT next_sequence_number FROM chain_quest_cursors WHERE event_type = $1 FOR UPDATE', [type]);
+    if (Number(locked.rows[0].next_sequence_number) !== cursor) {
+      await client.query('ROLLBACK');
+      return { indexed: 0, rolledBack: 0, chainQuestIds: [] };
+    }
+
+    const touched = new Set<number>();
+    let rolledBack = 0;
+    if (from < cursor) {
+      const removed = await client.query(
+        'DELETE FROM chain_quest_events WHERE event_type = $1 AND sequence_number >= $2 RETURNING chain_quest_id',
+        [type, from]
+      );
+      removed.rows.forEach((row) => touched.add(Number(row.chain_quest_id)));
+      rolledBack = removed.rowCount ?? 0;
+      logger.warn(`The chain rolled back ${type} events from ${from}; dropped ${rolledBack} indexed event(s).`);
+    }
+
+    for (const event of events) {
+      const { account, data } = toStoredEvent(event);
+      await client.query(
+        `INSERT INTO chain_quest_events (event_type, sequence_number, version, chain_quest_id, account_address, data)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (event_type, sequence_number) DO NOTHING`,
+        [type, event.sequenceNumber, event.version, event.questId, account, data]
+      );
+      touched.add(event.questId);
+    }
+
+    await client.query(
+      'UPDATE chain_quest_cursors SET next_sequence_number = $2, chain_event_count = $3, synced_at = NOW() WHERE event_type = $1',
+      [type, from + events.length, onChain]
+    );
+
+    const chainQuestIds = [...touched].sort((a, b) => a - b);
+    for (const chainQuestId of chainQuestIds) {
+      await rebuildChainQuest(client, chainQuestId, groupId);
+    }
+
+    await client.query('COMMIT');
+    return { indexed: events.length, rolledBack, chainQuestIds };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Lists the on-chain quests that were skipped because their creator had no account, once
+ * the creator has signed up with the address they created them from. Their events are
+ * already indexed, so no new event would otherwise bring them back.
+ */
+const relistPendingChainQuests = async (groupId: number, skip: Set<number>): Promise<number[]> => {
+  const { rows } = await getPool().query(
+    `SELECT e.chain_quest_id FROM chain_quest_events e
+     WHERE e.event_type = 'quest_created'
+       AND NOT EXISTS (SELECT 1 FROM quests q WHERE q.chain_quest_id = e.chain_quest_id)
+       AND EXISTS (
+         SELECT 1 FROM users u
+         WHERE lower(u.aptos_address) = e.account_address OR lower(u.wallet_address) = e.account_address
+       )
+     ORDER BY e.chain_quest_id`
+  );
+  const chainQuestIds = rows.map((row) => Number(row.chain_quest_id)).filter((chainQuestId) => !skip.has(chainQuestId));
+  if (chainQuestIds.length === 0) {
+    return [];
+  }
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    for (const chainQuestId of chainQuestIds) {
+      await rebuildChainQuest(client, chainQuestId, groupId);
+    }
+    await client.query('COMMIT');
+    return chainQuestIds;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Reads the quest contract's new events into the database, one page per handle, and
+ * mirrors the quests they touch into the configured group, along with any quest skipped
+ * earlier whose creator has since signed up. Safe to rerun: each handle resumes from its
+ * stored cursor, and events already indexed are never applied twice.
+ * @throws QUEST_INDEXER_DISABLED when no group is configured for on-chain quests.
+ */
+export const syncQuestEvents = async (): Promise<QuestSyncSummary> => {
+  const { groupId, batchSize } = getConfig().questIndexer;
+  if (groupId === undefined) {
+    throw new Error('QUEST_INDEXER_DISABLED');
+  }
+
+  const chain = getChainAdapter();
+  const counts = await chain.getQuestEventCounts();
+
+  const summary: QuestSyncSummary = { indexed: 0, rolledBack: 0, questsSynced: 0 };
+  const synced = new Set<number>();
+  // Creations are read first, so a quest is usually listed before its joins arrive.
+  for (const type of QUEST_EVENT_TYPES) {
+    const { indexed, rolledBack, chainQuestIds } = await syncHandle(chain, type, counts[type], groupId, batchSize);
+    summary.indexed += indexed;
+    summary.rolledBack += rolledBack;
+    chainQuestIds.forEach((chainQuestId) => synced.add(chainQuestId));
+  }
+  const relisted = await relistPendingChainQuests(groupId, synced);
+  relisted.forEach((chainQuestId) => synced.add(chainQuestId));
+  summary.questsSynced = synced.size;
+  return summary;
+};
+
+/**
+ * Reports how far the indexer is behind the chain, as of each handle's last poll.
+ */
+export const getQuestIndexerStatus = async (): Promise<QuestIndexerStatus> => {
+  const { rows } = await getPool().query(
+    `SELECT event_type, next_sequence_number, chain_event_count, synced_at,
+       EXTRACT(EPOCH FROM NOW() - synced_at) AS seconds_since_sync
+     FROM chain_quest_cursors`
+  );
+  const cursors = new Map(rows.map((row) => [row.event_type, row]));
+
+  const handles = QUEST_EVENT_TYPES.map((type): QuestEventHandleStatus => {
+    const cursor = cursors.get(type);
+    const indexed = Number(cursor?.next_sequence_number ?? 0);
+    const onChain = Number(cursor?.chain_event_count ?? 0);
+    return { event_type: type, indexed, on_chain: onChain, behind: Math.max(0, onChain - indexed), synced_at: cursor?.synced_at ?? null };
+  });
+  const secondsSinceSync = QUEST_EVENT_TYPES.map((type) => cursors.get(type)?.seconds_since_sync);
+
+  return {
+    enabled: isFeatureEnabled('blockchain') && getConfig().questIndexer.groupId !== undefined,
+    behind: handles.reduce((sum, handle) => sum + handle.behind, 0),
+    lag_seconds: secondsSinceSync.every((seconds) => seconds != null) ? Math.max(...secondsSinceSync.map(Number)) : null,
+    handles,
+  };
+};
@@ -0,0 +1,344 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { CheckInRequest, QuestCheckIn, recordCheckIn } from './checkIns.service';
+import { refundQuestEscrow } from './escrow.service';
+import { RewardPayout } from './payouts.service';
+import { recordReputationEvent } from './reputation.service';
+import { hasCompletionDeadlinePassed, hasQuestExpired, recordQuestVerification } from './quests.service';
+import { SubmissionEvidence, getMissingEvidence } from './submissions.service';
+
+export const STEP_VERIFICATION_METHODS = ['review', 'check_in', 'auto'] as const;
+export type StepVerificationMethod = typeof STEP_VERIFICATION_METHODS[number];
+
+// Vibe NFTs are evidence for whole quests only.
+export const STEP_EVIDENCE_TYPES = ['photo', 'text', 'url'] as const;
+export type StepEvidenceType = typeof STEP_EVIDENCE_TYPES[number];
+
+export const STEP_PROGRESS_STATUSES = ['pending', 'submitted', 'verified', 'rejected'] as const;
+export type StepProgressStatus = typeof STEP_PROGRESS_STATUSES[number];
+
+/**
+ * One step of a chain quest. Check-in steps have a location; the others may not.
+ */
+export interface QuestStep {
+  id: number;
+  quest_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  verification_method: StepVerificationMethod;
+  required_evidence: StepEvidenceType[];
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_m: number;
+}
+
+export interface NewQuestStep {
+  title: string;
+  description?: string;
+  verification_method: StepVerificationMethod;
+  required_evidence?: StepEvidenceType[];
+  latitude?: number;
+  longitude?: number;
+  geofence_radius_m?: number;
+}
+
+/**
+ * A participant's progress on one step. Steps they have not submitted have none.
+ */
+export interface QuestStepProgress {
+  step_id: number;
+  user_id: string;
+  status: Exclude<StepProgressStatus, 'pending'>;
+  evidence: SubmissionEvidence;
+  check_in_id: number | null;
+  reviewer_id: string | null;
+  review_reason: string | null;
+  submitted_at: Date;
+  reviewed_at: Date | null;
+}
+
+export interface StepSubmission {
+  evidence?: SubmissionEvidence;
+  // The participant's fix, for check-in steps.
+  location?: CheckInRequest;
+}
+
+export interface StepResult {
+  // Null when the step's check-in was rejected, which leaves the step as it was.
+  progress: QuestStepProgress | null;
+  checkIn: QuestCheckIn | null;
+  // Whether this step was the last one the participant needed.
+  questCompleted: boolean;
+  // Set when the quest completed and has a reward.
+  payout: RewardPayout | null;
+}
+
+// Verifies the participant once their last step is, and otherwise sets where they stand:
+// awaiting review while a step does, free to resubmit after a rejection, joined otherwise.
+const settleParticipant = async (
+  client: PoolClient,
+  questId: string,
+  userId: string,
+  reward: number,
+  activityMetadata: object
+): Promise<{ questCompleted: boolean; payout: RewardPayout | null }> => {
+  const { rows } = await client.query(
+    `SELECT
+       COUNT(*) FILTER (WHERE p.status IS DISTINCT FROM 'verified') AS unverified,
+       COUNT(*) FILTER (WHERE p.status = 'submitted') AS submitted,
+       COUNT(*) FILTER (WHERE p.status = 'rejected') AS rejected
+     FROM quest_steps s
+     LEFT JOIN quest_step_progress p ON p.step_id = s.id AND p.user_id = $2
+     WHERE s.quest_id = $1`,
+    [questId, userId]
+  );
+  const { unverified, submitted, rejected } = rows[0];
+
+  if (parseInt(unverified, 10) === 0) {
+    const payout = await recordQuestVerification(client, questId, userId, reward, activityMetadata);
+    return { questCompleted: true, payout };
+  }
+
+  let status = 'joined';
+  if (parseInt(submitted, 10) > 0) {
+    status = 'submitted';
+  } else if (parseInt(rejected, 10) > 0) {
+    status = 'rejected';
+  }
+  await client.query(
+    'UPDATE quest_participants SET status = $3, updated_at = NOW() WHERE quest_id = $1 AND user_id = $2',
+    [questId, userId, status]
+  );
+  return { questCompleted: false, payout: null };
+};
+
+/**
+ * Submits a participant's evidence or check-in for one step of a chain quest. Steps are
+ * done in order: each needs every earlier step verified. An auto step is verified as soon
+ * as its evidence is complete, and a check-in step when the check-in passes every check;
+ * review steps and flagged check-ins await the quest's creator. A rejected check-in is
+ * stored but changes nothing. Verifying the last step verifies the participant and queues
+ * the quest's reward.
+ * @throws STEP_NOT_FOUND, QUEST_ON_CHAIN, QUEST_EXPIRED, QUEST_NOT_ACTIVE, NOT_A_PARTICIPANT, COMPLETION_DEADLINE_PASSED,
+ *         STEP_LOCKED, STEP_ALREADY_SUBMITTED, MISSING_EVIDENCE, LOCATION_REQUIRED, ESCROW_EXHAUSTED
+ */
+export const submitQuestStep = async (
+  questId: string,
+  groupId: number,
+  stepId: number,
+  userId: string,
+  submission: StepSubmission
+): Promise<StepResult> => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const stepResult = await client.query(
+      `SELECT s.*, q.status AS quest_status, q.expires_at, q.reward, q.chain_quest_id
+       FROM quest_steps s
+       JOIN quests q ON q.id = s.quest_id
+       WHERE s.id = $1 AND s.quest_id = $2 AND q.group_id = $3`,
+      [stepId, questId, groupId]
+    );
+    if (stepResult.rows.length === 0) {
+      throw new Error('STEP_NOT_FOUND');
+    }
+    const step = stepResult.rows[0];
+    // Quests created on the quest contract are completed there.
+    if (step.chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+    if (hasQuestExpired({ status: step.quest_status, expires_at: step.expires_at })) {
+      throw new Error('QUEST_EXPIRED');
+    }
+    if (step.quest_status !== 'active') {
+      throw new Error('QUEST_NOT_ACTIVE');
+    }
+
+    const participantResult = await client.query(
+      'SELECT status, deadline_at FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE',
+      [questId, userId]
+    );
+    if (participantResult.rows.length === 0) {
+      throw new Error('NOT_A_PARTICIPANT');
+    }
+    if (hasCompletionDeadlinePassed(participantResult.rows[0])) {
+      throw new Error('COMPLETION_DEADLINE_PASSED');
+    }
+
+    const earlierResult = await client.query(
+      `SELECT COUNT(*) FROM quest_steps s
+       LEFT JOIN quest_step_progress p ON p.step_id = s.id AND p.user_id = $2
+       WHERE s.quest_id = $1 AND s.position < $3 AND p.status IS DISTINCT FROM 'verified'`,
+      [questId, userId, step.position]
+    );
+    if (parseInt(earlierResult.rows[0].count, 10) > 0) {
+      throw new Error('STEP_LOCKED');
+    }
+
+    const progressResult = await client.query(
+      'SELECT status FROM quest_step_progress WHERE step_id = $1 AND user_id = $2',
+      [stepId, userId]
+    );
+    const previousStatus = progressResult.rows[0]?.status;
+    if (previousStatus === 'submitted' || previousStatus === 'verified') {
+      throw new Error('STEP_ALREADY_SUBMITTED');
+    }
+
+    const evidence = submission.evidence ?? {};
+    if (getMissingEvidence(step.required_evidence, evidence).length > 0) {
+      throw new Error('MISSING_EVIDENCE');
+    }
+
+    let checkIn: QuestCheckIn | null = null;
+    let status: 'submitted' | 'verified' = step.verification_method === 'auto' ? 'verified' : 'submitted';
+    if (step.verification_method === 'check_in') {
+      if (!submission.location) {
+        throw new Error('LOCATION_REQUIRED');
+      }
+      checkIn = await recordCheckIn(client, userId, {
+        questId,
+        stepId,
+        geofence: { latitude: step.latitude, longitude: step.longitude, radius: step.geofence_radius_m },
+        autoVerify: true,
+      }, submission.location);
+
+      if (checkIn.status === 'rejected') {
+        await client.query('COMMIT');
+        return { progress: null, checkIn, questCompleted: false, payout: null };
+      }
+      status = checkIn.auto_verified ? 'verified' : 'submitted';
+    }
+
+    const { rows } = await client.query(
+      `INSERT INTO quest_step_progress (step_id, user_id, status, evidence, check_in_id, reviewed_at)
+       VALUES ($1, $2, $3::varchar, $4::jsonb, $5::integer, CASE WHEN $3::varchar = 'verified' THEN NOW() END)
+       ON CONFLICT (step_id, user_id) DO UPDATE
+       SET status = EXCLUDED.status, evidence = EXCLUDED.evidence, check_in_id = EXCLUDED.check_in_id,
+           reviewer_id = NULL, review_reason = NULL, submitted_at = NOW(), reviewed_at = EXCLUDED.reviewed_at
+       RETURNING *`,
+      [stepId, userId, status, evidence, checkIn?.id ?? null]
+    );
+
+    const { questCompleted, payout } = await settleParticipant(
+      client, questId, userId, Number(step.reward), { questId, groupId, participantId: userId, stepId, checkInId: checkIn?.id }
+    );
+
+    await client.query('COMMIT');
+    return { progress: rows[0], checkIn, questCompleted, payout };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Approves or rejects a participant's step awaiting review. Rejecting lets them submit the
+ * step again; approving the last step verifies them and queues the quest's reward.
+ * @param reviewerId The quest's creator.
+ * @param reason Why, shown to the participant. Required to reject.
+ * @throws REASON_REQUIRED, QUEST_NOT_FOUND, FORBIDDEN, QUEST_ON_CHAIN, STEP_NOT_FOUND, STEP_NOT_SUBMITTED, ESCROW_EXHAUSTED
+ */
+export const reviewQuestStep = async (
+  questId: string,
+  groupId: number,
+  stepId: number,
+  participantId: string,
+  reviewerId: string,
+  decision: 'approve' | 'reject',
+  reason?: string
+): Promise<{ progress: QuestStepProgress; questCompleted: boolean; payout: RewardPayout | null }> => {
+  if (decision === 'reject' && !reason) {
+    throw new Error('REASON_REQUIRED');
+  }
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const questResult = await client.query('SELECT creator_id, status, reward, chain_quest_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+    if (questResult.rows.length === 0) {
+      throw new Error('QUEST_NOT_FOUND');
+    }
+    const quest = questResult.rows[0];
+    if (quest.creator_id !== reviewerId) {
+      throw new Error('FORBIDDEN');
+    }
+    if (quest.chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+
+    // Lock the participant first, as submitQuestStep does.
+    await client.query('SELECT 1 FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE', [questId, participantId]);
+
+    const stepResult = await client.query('SELECT 1 FROM quest_steps WHERE id = $1 AND quest_id = $2', [stepId, questId]);
+    if (stepResult.rows.length === 0) {
+      throw new Error('STEP_NOT_FOUND');
+    }
+
+    const progressResult = await client.query(
+      'SELECT status FROM quest_step_progress WHERE step_id = $1 AND user_id = $2 FOR UPDATE',
+      [stepId, participantId]
+    );
+    if (progressResult.rows[0]?.status !== 'submitted') {
+      throw new Error('STEP_NOT_SUBMITTED');
+    }
+
+    const { rows } = await client.query(
+      `UPDATE quest_step_progress
+       SET status = $3, reviewer_id = $4, review_reason = $5, reviewed_at = NOW()
+       WHERE step_id = $1 AND user_id = $2
+       RETURNING *`,
+      [stepId, participantId, decision === 'approve' ? 'verified' : 'rejected', reviewerId, reason ?? null]
+    );
+
+    if (decision === 'reject') {
+      await recordReputationEvent(client, participantId, 'submission_rejected', { questId, groupId, stepId });
+    }
+
+    const { questCompleted, payout } = await settleParticipant(
+      client, questId, participantId, Number(quest.reward), { questId, groupId, participantId, stepId, verifierId: reviewerId }
+    );
+
+    // A quest that is over held a reward back for this participant; release what is no longer needed.
+    if (quest.status !== 'active') {
+      await refundQuestEscrow(client, questId);
+    }
+
+    await client.query('COMMIT');
+    return { progress: rows[0], questCompleted, payout };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a chain quest's steps in order, each with the user's progress on it.
+ * @throws QUEST_NOT_FOUND
+ */
+export const getQuestSteps = async (questId: string, groupId: number, userId: string) => {
+  const pool = getPool();
+
+  const questResult = await pool.query('SELECT 1 FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+  if (questResult.rows.length === 0) {
+    throw new Error('QUEST_NOT_FOUND');
+  }
+
+  const { rows } = await pool.query(
+    `SELECT s.*, COALESCE(p.status, 'pending') AS progress_status, p.review_reason, p.submitted_at, p.reviewed_at
+     FROM quest_steps s
+     LEFT JOIN quest_step_progress p ON p.step_id = s.id AND p.user_id = $2
+     WHERE s.quest_id = $1
+     ORDER BY s.position`,
+    [questId, userId]
+  );
+  return rows;
+};
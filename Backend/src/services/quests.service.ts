@@ -1,6 +1,15 @@
+import { PoolClient } from 'pg';
 import { getPool } from '../config/database';
 import logger from '../config/logger';
-import { AptosService } from './aptos.service';
+import { DEFAULT_GEOFENCE_RADIUS_M } from '../utils/checkInRules';
+import { BoundingBox, getClusterCellSize } from '../utils/geo';
+import { recordActivity } from './achievements.service';
+import { EscrowFundingSource, QuestEscrow, drawFromEscrow, lockQuestEscrow, refundQuestEscrow } from './escrow.service';
+import { NewNotification, createNotifications } from './notifications.service';
+import { RewardPayout, enqueueRewardPayout } from './payouts.service';
+import { recordReputationEvent } from './reputation.service';
+import { NewQuestStep, QuestStep } from './questSteps.service';
+import { EvidenceType, QuestSubmission, SubmissionEvidence, createSubmission } from './submissions.service';
 
 export interface Quest {
   id: string; // Assuming UUID
@@ -11,8 +20,20 @@ export interface Quest {
   status: string;
   reward_amount: number;
   reward_type: string;
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_m: number;
+  check_in_auto_verify: boolean;
+  required_evidence: EvidenceType[];
+  max_participants: number | null;
+  max_winners: number | null;
+  join_opens_at: Date | null;
+  join_closes_at: Date | null;
+  completion_window_minutes: number | null;
   created_at: Date;
   expires_at?: Date;
+  // Set on quests mirrored from the quest contract, which are joined, completed and cancelled on-chain.
+  chain_quest_id: string | null;
 }
 
 export interface CreateQuestPayload {
@@ -23,7 +44,35 @@ export interface CreateQuestPayload {
   reward: number;
   currency: string;
   type: string;
+  latitude?: number;
+  longitude?: number;
+  geofence_radius_m?: number;
+  check_in_auto_verify?: boolean;
+  required_evidence?: EvidenceType[];
+  max_participants?: number;
+  // How many participants the escrow pays. Defaults to max_participants, or one.
+  max_winners?: number;
+  // Who pays for the escrow: the creator's wallet or the group's treasury.
+  funding_source?: EscrowFundingSource;
+  join_opens_at?: Date;
+  join_closes_at?: Date;
+  completion_window_minutes?: number;
   expires_at?: Date;
+  // Makes the quest a chain: participants complete these steps, in order, instead of the quest itself.
+  steps?: NewQuestStep[];
+  prerequisites?: NewQuestPrerequisite[];
+}
+
+/**
+ * Something a user must have done before joining a quest: completed another quest of the
+ * same group, earned an achievement, or reached a reputation score.
+ */
+export type NewQuestPrerequisite = { quest_id: string } | { achievement_id: number } | { min_reputation: number };
+
+export interface QuestPrerequisite {
+  required_quest_id: string | null;
+  required_achievement_id: number | null;
+  min_reputation: number | null;
 }
 
 /**
@@ -52,13 +101,117 @@ export interface GetAllQuestsFilters {
 export interface UpdateQuestPayload {
   title?: string;
   description?: string;
-  reward?: number;
-  currency?: string;
   type?: string;
-  status?: 'active' | 'inactive' | 'completed';
+  latitude?: number | null;
+  longitude?: number | null;
+  geofence_radius_m?: number;
+  check_in_auto_verify?: boolean;
+  required_evidence?: EvidenceType[];
+  max_participants?: number;
+  join_opens_at?: Date;
+  join_closes_at?: Date;
+  completion_window_minutes?: number;
   expires_at?: Date;
 }
 
+export interface NearbyQuestsQuery {
+  latitude: number;
+  longitude: number;
+  // Metres. Ignored when bbox is given.
+  radius: number;
+  bbox?: BoundingBox;
+  limit: number;
+}
+
+/**
+ * Active location-based quests within one map cell. A cluster of one carries its quest's ID.
+ */
+export interface QuestCluster {
+  count: number;
+  latitude: number;
+  longitude: number;
+  bounds: BoundingBox;
+  questId: string | null;
+}
+
+// Every quest column except the derived PostGIS point, which clients see as latitude/longitude.
+const QUEST_COLUMNS = [
+  'id', 'group_id', 'creator_id', 'title', 'description', 'reward', 'currency',
+  'type', 'status', 'latitude', 'longitude', 'geofence_radius_m', 'check_in_auto_verify', 'required_evidence',
+  'max_participants', 'max_winners', 'join_opens_at', 'join_closes_at', 'completion_window_minutes', 'created_at', 'expires_at',
+  'chain_quest_id',
+];
+
+const questColumns = (alias?: string) =>
+  QUEST_COLUMNS.map((column) => (alias ? `${alias}.${column}` : column)).join(', ');
+
+// Counts a quest's steps, for the statements that must send chain quests through them.
+const stepCount = (questTable: string) => `(SELECT COUNT(*) FROM quest_steps s WHERE s.quest_id = ${questTable}.id) AS step_count`;
+
+// A quest's prerequisites, each with whether user $2 meets it.
+const PREREQUISITES_QUERY = `
+  SELECT
+    p.required_quest_id, rq.title AS required_quest_title,
+    p.required_achievement_id, a.name AS required_achievement_name,
+    p.min_reputation,
+    EXISTS (
+      SELECT 1 FROM quest_participants qp WHERE qp.quest_id = p.required_quest_id AND qp.user_id = $2 AND qp.status = 'verified'
+      UNION ALL
+      SELECT 1 FROM user_achievements ua WHERE ua.achievement_id = p.required_achievement_id AND ua.user_id = $2
+      UNION ALL
+      SELECT 1 FROM users u WHERE u.id = $2 AND u.reputation_score >= p.min_reputation
+    ) AS met
+  FROM quest_prerequisites p
+  LEFT JOIN quests rq ON rq.id = p.required_quest_id
+  LEFT JOIN achievements a ON a.id = p.required_achievement_id
+  WHERE p.quest_id = $1
+  ORDER BY p.id
+`;
+
+// Stores a new chain quest's steps, in the given order, on the caller's transaction.
+const addQuestSteps = async (client: PoolClient, questId: string, steps: NewQuestStep[]): Promise<QuestStep[]> => {
+  const created: QuestStep[] = [];
+  for (const [index, step] of steps.entries()) {
+    const { rows } = await client.query(
+      `INSERT INTO quest_steps (quest_id, position, title, description, verification_method, required_evidence, latitude, longitude, geofence_radius_m)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        questId, index + 1, step.title, step.description ?? null, step.verification_method, step.required_evidence ?? [],
+        step.latitude ?? null, step.longitude ?? null, step.geofence_radius_m ?? DEFAULT_GEOFENCE_RADIUS_M,
+      ]
+    );
+    created.push(rows[0]);
+  }
+  return created;
+};
+
+// Stores a new quest's prerequisites on the caller's transaction. Required quests must be in the same group.
+const addQuestPrerequisites = async (client: PoolClient, questId: string, groupId: number, prerequisites: NewQuestPrerequisite[]) => {
+  const requiredQuestIds = prerequisites.map((prerequisite) => ('quest_id' in prerequisite ? prerequisite.quest_id : null));
+  const requiredAchievementIds = prerequisites.map((prerequisite) => ('achievement_id' in prerequisite ? prerequisite.achievement_id : null));
+  const minReputations = prerequisites.map((prerequisite) => ('min_reputation' in prerequisite ? prerequisite.min_reputation : null));
+
+  const { rows } = await client.query(
+    `SELECT
+       (SELECT COUNT(*) FROM quests WHERE id = ANY($1::uuid[]) AND group_id = $2) AS quests,
+       (SELECT COUNT(*) FROM achievements WHERE id = ANY($3::int[])) AS achievements`,
+    [requiredQuestIds, groupId, requiredAchievementIds]
+  );
+  const count = (ids: unknown[]) => ids.filter((id) => id !== null).length;
+  if (parseInt(rows[0].quests, 10) !== count(requiredQuestIds) || parseInt(rows[0].achievements, 10) !== count(requiredAchievementIds)) {
+    throw new Error('INVALID_PREREQUISITE');
+  }
+
+  const { rows: created } = await client.query(
+    `INSERT INTO quest_prerequisites (quest_id, required_quest_id, required_achievement_id, min_reputation)
+     SELECT $1, * FROM UNNEST($2::uuid[], $3::int[], $4::int[])
+     RETURNING required_quest_id, required_achievement_id, min_reputation`,
+    [questId, requiredQuestIds, requiredAchievementIds, minReputations]
+  );
+  return created;
+};
+
 /**
  * Updates a quest, verifying ownership.
  * @param questId The ID of the quest to update.
@@ -81,6 +234,66 @@ export interface UpdateQuestPayload {
  * @param userId The ID of the user joining the quest.
  * @returns The new participant record, or throws an error if unable to join.
  */
+/**
+ * Whether a quest is over. It is as soon as its expiry passes, before the expiry job marks it.
+ */
+export const hasQuestExpired = (quest: { status: string; expires_at?: Date | null }, now: Date = new Date()): boolean =>
+  quest.status === 'expired' || (quest.expires_at != null && quest.expires_at <= now);
+
+/**
+ * Whether a participant's completion deadline has passed, likewise before the job marks them.
+ */
+export const hasCompletionDeadlinePassed = (participant: { status: string; deadline_at?: Date | null }, now: Date = new Date()): boolean =>
+  participant.status === 'expired' || (participant.deadline_at != null && participant.deadline_at <= now);
+
+/**
+ * The deadline for a participant joining now: the end of the quest's completion window or
+ * its expiry, whichever comes first. Null if the quest has neither.
+ */
+export const getCompletionDeadline = (
+  quest: { expires_at?: Date | null; completion_window_minutes?: number | null },
+  joinedAt: Date
+): Date | null => {
+  const deadlines = [
+    quest.completion_window_minutes ? new Date(joinedAt.getTime() + quest.completion_window_minutes * 60_000) : null,
+    quest.expires_at ?? null,
+  ].filter((deadline): deadline is Date => deadline !== null);
+  return deadlines.length > 0 ? new Date(Math.min(...deadlines.map((deadline) => deadline.getTime()))) : null;
+};
+
+/**
+ * Marks a participant's completion verified, logs the activity, awards achievements and
+ * reputation and queues the reward from the quest's escrow, all on the caller's transaction. The caller has checked that the
+ * participant is awaiting verification and holds a lock on their row.
+ * @param client The client running the caller's transaction.
+ * @param activityMetadata Recorded with the 'quest_verified' activity. Include the quest's groupId,
+ *                         which achievement rules count by.
+ * @returns The queued payout, or null if the quest has no reward.
+ * @throws ESCROW_EXHAUSTED when the escrow has already paid its max winners.
+ */
+export const recordQuestVerification = async (
+  client: PoolClient,
+  questId: string,
+  participantId: string,
+  rewardAmount: number,
+  activityMetadata: object
+) => {
+  await client.query("UPDATE quest_participants SET status = 'verified', updated_at = NOW() WHERE quest_id = $1 AND user_id = $2", [questId, participantId]);
+
+  // Achievement rules count these activities.
+  await recordActivity(client, participantId, 'quest_verified', activityMetadata);
+  await recordReputationEvent(client, participantId, 'quest_verified', activityMetadata);
+
+  if (rewardAmount <= 0) {
+    return null;
+  }
+
+  // Queue the reward in the same transaction so it is paid exactly when the verification
+  // sticks, and drawn from the quest's escrow by the same token.
+  await drawFromEscrow(client, questId, rewardAmount);
+  return enqueueRewardPayout(client, { questId, userId: participantId, amount: rewardAmount });
+};
+
 /**
  * Marks a quest as completed by a participant.
  * @param questId The ID of the quest.
@@ -101,17 +314,27 @@ export const verifyQuestCompletion = async (questId: string, groupId: number, pa
   try {
     await client.query('BEGIN');
 
-    const questResult = await client.query('SELECT creator_id, reward_amount FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+    const questResult = await client.query(
+      `SELECT creator_id, status, reward AS reward_amount, chain_quest_id, ${stepCount('quests')} FROM quests WHERE id = $1 AND group_id = $2`,
+      [questId, groupId]
+    );
     if (questResult.rows.length === 0) {
       throw new Error('QUEST_NOT_FOUND');
     }
 
     const { creator_id: questCreatorId, reward_amount } = questResult.rows[0];
-    const rewardAmount = parseInt(reward_amount, 10);
+    const rewardAmount = Number(reward_amount);
 
     if (questCreatorId !== verifierId) {
       throw new Error('FORBIDDEN');
     }
+    if (questResult.rows[0].chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+    // Chain quests are verified step by step.
+    if (parseInt(questResult.rows[0].step_count, 10) > 0) {
+      throw new Error('STEPS_REQUIRED');
+    }
 
     const participantResult = await client.query('SELECT status FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE', [questId, participantId]);
     if (participantResult.rows.length === 0) {
@@ -123,38 +346,23 @@ export const verifyQuestCompletion = async (questId: string, groupId: number, pa
       throw new Error('INVALID_STATUS');
     }
 
-    await client.query("UPDATE quest_participants SET status = 'verified' WHERE quest_id = $1 AND user_id = $2", [questId, participantId]);
+    const payout = await recordQuestVerification(client, questId, participantId, rewardAmount, { questId, groupId, participantId, verifierId });
 
-    // Log activity and check for achievements
-    const activityMetadata = { questId, participantId, verifierId };
-    await client.query("INSERT INTO user_activities (user_id, activity_type, metadata) VALUES ($1, 'quest_verified', $2)", [participantId, activityMetadata]);
+    // Verifying a participant directly approves whatever they submitted.
+    await client.query(
+      `UPDATE quest_submissions SET status = 'approved', reviewer_id = $3, reviewed_at = NOW()
+       WHERE quest_id = $1 AND user_id = $2 AND status = 'pending'`,
+      [questId, participantId, verifierId]
+    );
 
-    const verifiedQuestsResult = await client.query("SELECT COUNT(*) FROM quest_participants WHERE user_id = $1 AND status = 'verified'", [participantId]);
-    const verifiedQuestsCount = parseInt(verifiedQuestsResult.rows[0].count, 10);
-
-    if (verifiedQuestsCount === 1) {
-      const achievementId = 1; // 'First Quest Completed'
-      await client.query('INSERT INTO user_achievements (user_id, achievement_id) VALUES ($1, $2) ON CONFLICT DO NOTHING', [participantId, achievementId]);
+    // A quest that is over held this reward back from its refund; anything else held back can go now.
+    if (questResult.rows[0].status !== 'active') {
+      await refundQuestEscrow(client, questId);
     }
 
     await client.query('COMMIT');
 
-    // Trigger reward distribution post-transaction
-    try {
-      const userResult = await getPool().query('SELECT aptos_address FROM users WHERE id = $1', [participantId]);
-      const participantAddress = userResult.rows[0]?.aptos_address;
-      if (participantAddress && rewardAmount > 0) {
-        logger.info(`Distributing ${rewardAmount} reward to ${participantAddress} for quest ${questId}`);
-        await AptosService.distributeQuestRewards(participantAddress, rewardAmount);
-      } else {
-        logger.warn(`User ${participantId} has no Aptos address or reward is 0. Skipping reward distribution.`);
-      }
-    } catch (rewardError) {
-      logger.error(`Post-commit reward distribution failed for quest ${questId} to user ${participantId}:`, rewardError);
-      // Do not re-throw; the main transaction was successful.
-    }
-
-    return { success: true, message: 'Quest verified and rewards initiated.' };
+    return { success: true, message: payout ? 'Quest verified and reward payout queued.' : 'Quest verified.', payout };
 
   } catch (error) {
     await client.query('ROLLBACK');
@@ -164,108 +372,359 @@ export const verifyQuestCompletion = async (questId: string, groupId: number, pa
   }
 };
 
-export const completeQuest = async (questId: string, groupId: number, userId: string) => {
-  const pool = getPool();
+export const completeQuest = async (questId: string, groupId: number, userId: string, evidence: SubmissionEvidence = {}) => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
 
-  // Check if the user is a participant and the quest belongs to the group
-  const participantQuery = `
-    SELECT qp.status
-    FROM quest_participants qp
-    JOIN quests q ON qp.quest_id = q.id
-    WHERE qp.quest_id = $1 AND qp.user_id = $2 AND q.group_id = $3
-  `;
-  const participantResult = await pool.query(participantQuery, [questId, userId, groupId]);
+    // Check if the user is a participant and the quest belongs to the group
+    const participantQuery = `
+      SELECT qp.status, qp.deadline_at, q.type, q.status AS quest_status, q.expires_at, q.required_evidence, q.chain_quest_id, ${stepCount('q')}
+      FROM quest_participants qp
+      JOIN quests q ON qp.quest_id = q.id
+      WHERE qp.quest_id = $1 AND qp.user_id = $2 AND q.group_id = $3
+      FOR UPDATE OF qp
+    `;
+    const participantResult = await client.query(participantQuery, [questId, userId, groupId]);
 
-  if (participantResult.rows.length === 0) {
-    throw new Error('NOT_A_PARTICIPANT');
-  }
+    if (participantResult.rows.length === 0) {
+      throw new Error('NOT_A_PARTICIPANT');
+    }
 
-  const { status } = participantResult.rows[0];
+    const participant = participantResult.rows[0];
+    const { status, type, required_evidence: requiredEvidence } = participant;
 
-  if (status === 'submitted' || status === 'verified') {
-    throw new Error('ALREADY_SUBMITTED');
-  }
+    // Quests mirrored from the chain are completed on-chain, which pays their reward there.
+    if (participant.chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
 
-  const { rows } = await pool.query(
-    'UPDATE quest_participants SET status = $1, updated_at = NOW() WHERE quest_id = $2 AND user_id = $3 RETURNING *',
-    ['submitted', questId, userId]
-  );
+    // Chain quests are completed step by step.
+    if (parseInt(participant.step_count, 10) > 0) {
+      throw new Error('STEPS_REQUIRED');
+    }
 
-  return rows[0];
-};
+    // Location-based quests are completed by checking in at the quest's location.
+    if (type === 'location_based') {
+      throw new Error('CHECK_IN_REQUIRED');
+    }
 
-export const joinQuest = async (questId: string, groupId: number, userId: string) => {
-  const pool = getPool();
+    // Participants whose last submission was rejected may submit again.
+    if (status === 'submitted' || status === 'verified') {
+      throw new Error('ALREADY_SUBMITTED');
+    }
+    if (hasQuestExpired({ status: participant.quest_status, expires_at: participant.expires_at })) {
+      throw new Error('QUEST_EXPIRED');
+    }
+    if (participant.quest_status !== 'active') {
+      throw new Error('QUEST_NOT_ACTIVE');
+    }
+    if (hasCompletionDeadlinePassed(participant)) {
+      throw new Error('COMPLETION_DEADLINE_PASSED');
+    }
 
-  // Check if the quest exists and if the user is the creator
-  const questResult = await pool.query('SELECT creator_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
-  if (questResult.rows.length === 0) {
-    throw new Error('NOT_FOUND');
+    const submission = await createSubmission(client, { questId, userId, requiredEvidence, evidence });
+
+    const { rows } = await client.query(
+      'UPDATE quest_participants SET status = $1, updated_at = NOW() WHERE quest_id = $2 AND user_id = $3 RETURNING *',
+      ['submitted', questId, userId]
+    );
+
+    await client.query('COMMIT');
+    return { ...rows[0], submission };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
-  if (questResult.rows[0].creator_id === userId) {
-    throw new Error('CANNOT_JOIN_OWN_QUEST');
+};
+
+/**
+ * Approves or rejects a participant's pending submission. Approving verifies the
+ * participant and queues their reward; rejecting lets them submit again.
+ * @param questId The ID of the quest.
+ * @param groupId The ID of the group.
+ * @param submissionId The ID of the submission.
+ * @param reviewerId The user reviewing the submission, who must be the quest's creator.
+ * @param decision Whether to approve or reject.
+ * @param reason Why, shown to the participant. Required to reject.
+ * @returns The reviewed submission, and the queued payout if it was approved.
+ * @throws QUEST_NOT_FOUND, FORBIDDEN, QUEST_ON_CHAIN, SUBMISSION_NOT_FOUND, SUBMISSION_ALREADY_REVIEWED, REASON_REQUIRED
+ */
+export const reviewSubmission = async (
+  questId: string,
+  groupId: number,
+  submissionId: number,
+  reviewerId: string,
+  decision: 'approve' | 'reject',
+  reason?: string
+): Promise<{ submission: QuestSubmission; payout: RewardPayout | null }> => {
+  if (decision === 'reject' && !reason) {
+    throw new Error('REASON_REQUIRED');
   }
 
-  // Attempt to add the user to the quest participants
-  const insertQuery = `
-    INSERT INTO quest_participants (quest_id, user_id, status)
-    VALUES ($1, $2, 'joined')
-    ON CONFLICT (quest_id, user_id) DO NOTHING
-    RETURNING *;
-  `;
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const questResult = await client.query('SELECT creator_id, status, reward, chain_quest_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+    if (questResult.rows.length === 0) {
+      throw new Error('QUEST_NOT_FOUND');
+    }
+    if (questResult.rows[0].creator_id !== reviewerId) {
+      throw new Error('FORBIDDEN');
+    }
+    if (questResult.rows[0].chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+
+    const submissionResult = await client.query(
+      'SELECT user_id, status FROM quest_submissions WHERE id = $1 AND quest_id = $2 FOR UPDATE',
+      [submissionId, questId]
+    );
+    if (submissionResult.rows.length === 0) {
+      throw new Error('SUBMISSION_NOT_FOUND');
+    }
+    const { user_id: participantId, status } = submissionResult.rows[0];
+    if (status !== 'pending') {
+      throw new Error('SUBMISSION_ALREADY_REVIEWED');
+    }
 
+    // Lock the participant too, as verifyQuestCompletion does.
+    await client.query('SELECT 1 FROM quest_participants WHERE quest_id = $1 AND user_id = $2 FOR UPDATE', [questId, participantId]);
+
+    const { rows } = await client.query(
+      `UPDATE quest_submissions
+       SET status = $2, reviewer_id = $3, review_reason = $4, reviewed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [submissionId, decision === 'approve' ? 'approved' : 'rejected', reviewerId, reason ?? null]
+    );
+
+    let payout: RewardPayout | null = null;
+    if (decision === 'approve') {
+      const rewardAmount = Number(questResult.rows[0].reward);
+      payout = await recordQuestVerification(client, questId, participantId, rewardAmount, { questId, groupId, participantId, verifierId: reviewerId, submissionId });
+    } else {
+      await client.query(
+        "UPDATE quest_participants SET status = 'rejected', updated_at = NOW() WHERE quest_id = $1 AND user_id = $2",
+        [questId, participantId]
+      );
+      await recordReputationEvent(client, participantId, 'submission_rejected', { questId, groupId, submissionId });
+    }
+
+    // A quest that is over held a reward back for this submission; release what is no longer needed.
+    if (questResult.rows[0].status !== 'active') {
+      await refundQuestEscrow(client, questId);
+    }
+
+    await client.query('COMMIT');
+    return { submission: rows[0], payout };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Adds a user to a quest's participants and fixes their completion deadline: the end of
+ * the quest's completion window, counted from now, or the quest's expiry if that is sooner.
+ * Participants who missed their deadline no longer count towards the quest's cap, and
+ * only users who meet every prerequisite of the quest may join.
+ * @throws NOT_FOUND, QUEST_ON_CHAIN, CANNOT_JOIN_OWN_QUEST, QUEST_EXPIRED, QUEST_NOT_ACTIVE, JOIN_WINDOW_NOT_OPEN,
+ *         JOIN_WINDOW_CLOSED, ALREADY_JOINED, PREREQUISITES_NOT_MET, QUEST_FULL
+ */
+export const joinQuest = async (questId: string, groupId: number, userId: string) => {
+  const client = await getPool().connect();
   try {
-    const { rows } = await pool.query(insertQuery, [questId, userId]);
-    if (rows.length === 0) {
+    await client.query('BEGIN');
+
+    // Locking the quest makes concurrent joins take turns, so the cap holds.
+    const questResult = await client.query(
+      `SELECT creator_id, status, expires_at, max_participants, join_opens_at, join_closes_at, completion_window_minutes, chain_quest_id
+       FROM quests WHERE id = $1 AND group_id = $2 FOR UPDATE`,
+      [questId, groupId]
+    );
+    if (questResult.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+    const quest = questResult.rows[0];
+    if (quest.chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+    if (quest.creator_id === userId) {
+      throw new Error('CANNOT_JOIN_OWN_QUEST');
+    }
+
+    const now = new Date();
+    if (hasQuestExpired(quest, now)) {
+      throw new Error('QUEST_EXPIRED');
+    }
+    if (quest.status !== 'active') {
+      throw new Error('QUEST_NOT_ACTIVE');
+    }
+    if (quest.join_opens_at && now < quest.join_opens_at) {
+      throw new Error('JOIN_WINDOW_NOT_OPEN');
+    }
+    if (quest.join_closes_at && now >= quest.join_closes_at) {
+      throw new Error('JOIN_WINDOW_CLOSED');
+    }
+
+    const participantsResult = await client.query(
+      `SELECT COUNT(*) FILTER (WHERE status <> 'expired') AS taken, COALESCE(BOOL_OR(user_id = $2), false) AS joined
+       FROM quest_participants WHERE quest_id = $1`,
+      [questId, userId]
+    );
+    const { taken, joined } = participantsResult.rows[0];
+    if (joined) {
       throw new Error('ALREADY_JOINED');
     }
-    return rows[0];
-  } catch (error: any) {
-    // Re-throw specific errors or a generic one
-    if (error.message.includes('quest_participants_quest_id_fkey')) {
-        throw new Error('NOT_FOUND');
+
+    const prerequisitesResult = await client.query(PREREQUISITES_QUERY, [questId, userId]);
+    if (prerequisitesResult.rows.some((prerequisite) => !prerequisite.met)) {
+      throw new Error('PREREQUISITES_NOT_MET');
     }
+    if (quest.max_participants !== null && parseInt(taken, 10) >= quest.max_participants) {
+      throw new Error('QUEST_FULL');
+    }
+
+    const { rows } = await client.query(
+      `INSERT INTO quest_participants (quest_id, user_id, status, deadline_at)
+       VALUES ($1, $2, 'joined', $3)
+       RETURNING *`,
+      [questId, userId, getCompletionDeadline(quest, now)]
+    );
+
+    await client.query('COMMIT');
+    return rows[0];
+
+  } catch (error) {
+    await client.query('ROLLBACK');
     throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a quest's prerequisites, each with whether the user meets it.
+ * @throws QUEST_NOT_FOUND
+ */
+export const getQuestPrerequisites = async (questId: string, groupId: number, userId: string) => {
+  const pool = getPool();
+
+  const questResult = await pool.query('SELECT 1 FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+  if (questResult.rows.length === 0) {
+    throw new Error('QUEST_NOT_FOUND');
   }
+
+  const { rows } = await pool.query(PREREQUISITES_QUERY, [questId, userId]);
+  return rows;
 };
 
 export const deleteQuest = async (questId: string, groupId: number, userId: string): Promise<boolean | null> => {
   // First, verify the user is the creator of the quest
-  const questCheck = await getPool().query('SELECT creator_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+  const questCheck = await getPool().query('SELECT creator_id, chain_quest_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
   if (questCheck.rows.length === 0) {
     return null; // Quest not found
   }
   if (questCheck.rows[0].creator_id !== userId) {
     throw new Error('FORBIDDEN'); // User is not the creator
   }
+  // The indexer owns the rows of quests created on-chain.
+  if (questCheck.rows[0].chain_quest_id != null) {
+    throw new Error('QUEST_ON_CHAIN');
+  }
 
-  const query = 'DELETE FROM quests WHERE id = $1';
-
+  const client = await getPool().connect();
   try {
-    const pool = getPool();
-    const result = await pool.query(query, [questId]);
+    await client.query('BEGIN');
+    // Nobody can be paid once the quest is gone, so everything left in escrow goes back.
+    await refundQuestEscrow(client, questId, false);
+    const result = await client.query('DELETE FROM quests WHERE id = $1', [questId]);
+    await client.query('COMMIT');
     return (result.rowCount ?? 0) > 0;
   } catch (error) {
+    await client.query('ROLLBACK');
     logger.error(`Error deleting quest ${questId}:`, error);
     throw new Error('Failed to delete quest.');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Cancels an active quest, as the contract's cancel_quest does, and refunds its escrow.
+ * Participants can no longer join or submit; those awaiting review can still be verified,
+ * so their rewards stay in escrow until they are reviewed.
+ * @returns The cancelled quest and the amount refunded.
+ * @throws QUEST_NOT_FOUND, FORBIDDEN, QUEST_ON_CHAIN, QUEST_NOT_ACTIVE
+ */
+export const cancelQuest = async (questId: string, groupId: number, userId: string) => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const questResult = await client.query(
+      'SELECT creator_id, status, title, chain_quest_id FROM quests WHERE id = $1 AND group_id = $2 FOR UPDATE',
+      [questId, groupId]
+    );
+    if (questResult.rows.length === 0) {
+      throw new Error('QUEST_NOT_FOUND');
+    }
+    const quest = questResult.rows[0];
+    if (quest.creator_id !== userId) {
+      throw new Error('FORBIDDEN');
+    }
+    if (quest.chain_quest_id != null) {
+      throw new Error('QUEST_ON_CHAIN');
+    }
+    if (quest.status !== 'active') {
+      throw new Error('QUEST_NOT_ACTIVE');
+    }
+
+    const { rows } = await client.query(
+      `UPDATE quests SET status = 'cancelled' WHERE id = $1 RETURNING ${questColumns()}`,
+      [questId]
+    );
+    const refunded = await refundQuestEscrow(client, questId);
+
+    await client.query('COMMIT');
+    logger.info(`Quest ${questId} cancelled by its creator; ${refunded} refunded from escrow.`);
+    return { quest: rows[0] as Quest, refunded };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
 };
 
 export const updateQuest = async (questId: string, groupId: number, userId: string, payload: UpdateQuestPayload): Promise<Quest | null> => {
   // First, verify the user is the creator of the quest
-  const questCheck = await getPool().query('SELECT creator_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+  const questCheck = await getPool().query('SELECT creator_id, chain_quest_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
   if (questCheck.rows.length === 0) {
     return null; // Quest not found
   }
   if (questCheck.rows[0].creator_id !== userId) {
     throw new Error('FORBIDDEN'); // User is not the creator
   }
+  // The indexer owns the rows of quests created on-chain.
+  if (questCheck.rows[0].chain_quest_id != null) {
+    throw new Error('QUEST_ON_CHAIN');
+  }
 
   const fields = Object.keys(payload) as (keyof UpdateQuestPayload)[];
   const values = Object.values(payload);
 
   const setClause = fields.map((field, index) => `"${field}" = $${index + 1}`).join(', ');
-  const query = `UPDATE quests SET ${setClause} WHERE id = $${fields.length + 1} RETURNING *`;
+  const query = `UPDATE quests SET ${setClause} WHERE id = $${fields.length + 1} RETURNING ${questColumns()}`;
 
   try {
     const pool = getPool();
@@ -278,7 +737,7 @@ export const updateQuest = async (questId: string, groupId: number, userId: stri
 };
 
 export const getQuestById = async (questId: string, groupId: number): Promise<Quest | null> => {
-  const query = 'SELECT * FROM quests WHERE id = $1 AND group_id = $2';
+  const query = `SELECT ${questColumns()} FROM quests WHERE id = $1 AND group_id = $2`;
 
   try {
     const pool = getPool();
@@ -299,7 +758,7 @@ export const getQuestById = async (questId: string, groupId: number): Promise<Qu
 export const getAllQuests = async (groupId: number, filters: GetAllQuestsFilters): Promise<Quest[]> => {
   const { type, status, creator_id } = filters;
 
-  let query = 'SELECT * FROM quests WHERE group_id = $1';
+  let query = `SELECT ${questColumns()} FROM quests WHERE group_id = $1`;
   const values: any[] = [groupId];
   const conditions: string[] = [];
   let paramIndex = 2; // Starts at 2 because $1 is group_id
@@ -334,22 +793,263 @@ export const getAllQuests = async (groupId: number, filters: GetAllQuestsFilters
   }
 };
 
-export const createQuest = async (payload: CreateQuestPayload): Promise<Quest> => {
-  const { groupId, creatorId, title, description, reward, currency, type, expires_at } = payload;
+/**
+ * Retrieves quests from every group the user belongs to, with optional filtering.
+ * @param userId The ID of the member.
+ * @param filters Optional filters for the quests.
+ * @returns A list of quests, newest first.
+ */
+export const getQuestsForMember = async (userId: string, filters: GetAllQuestsFilters): Promise<Quest[]> => {
+  const { type, status, creator_id } = filters;
 
-  const query = `
-    INSERT INTO quests (group_id, creator_id, title, description, reward, currency, type, expires_at)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    RETURNING *;
+  let query = `
+    SELECT ${questColumns('q')}
+    FROM quests q
+    JOIN feed_group_members m ON m.group_id = q.group_id
+    WHERE m.user_id = $1
   `;
+  const values: any[] = [userId];
+  let paramIndex = 2; // Starts at 2 because $1 is the member's user_id
+
+  if (type) {
+    query += ` AND q.type = $${paramIndex++}`;
+    values.push(type);
+  }
+
+  if (status) {
+    query += ` AND q.status = $${paramIndex++}`;
+    values.push(status);
+  }
+
+  if (creator_id) {
+    query += ` AND q.creator_id = $${paramIndex++}`;
+    values.push(creator_id);
+  }
+
+  query += ' ORDER BY q.created_at DESC';
 
   try {
     const pool = getPool();
-    const { rows } = await pool.query(query, [groupId, creatorId, title, description, reward, currency, type, expires_at]);
-    logger.info(`Quest "${title}" created successfully in group ${groupId}.`);
-    return rows[0];
+    const { rows } = await pool.query(query, values);
+    return rows;
   } catch (error) {
+    logger.error(`Error fetching quests across groups for user ${userId}:`, error);
+    throw new Error('Failed to fetch quests.');
+  }
+};
+
+/**
+ * Creates a quest, with its steps and prerequisites if it has any, and locks its reward
+ * budget, reward × max winners, in escrow.
+ * @returns The new quest, with its escrow, steps and prerequisites.
+ * @throws INSUFFICIENT_FUNDS, TREASURY_FUNDING_FORBIDDEN, INVALID_PREREQUISITE
+ */
+export const createQuest = async (
+  payload: CreateQuestPayload
+): Promise<Quest & { escrow: QuestEscrow; steps: QuestStep[]; prerequisites: QuestPrerequisite[] }> => {
+  const {
+    groupId, creatorId, title, description, reward, currency, type, latitude, longitude,
+    geofence_radius_m = DEFAULT_GEOFENCE_RADIUS_M, check_in_auto_verify = false, required_evidence = [],
+    max_participants, max_winners = max_participants ?? 1, funding_source = 'creator',
+    join_opens_at, join_closes_at, completion_window_minutes, expires_at, steps = [], prerequisites = [],
+  } = payload;
+
+  const query = `
+    INSERT INTO quests (
+      group_id, creator_id, title, description, reward, currency, type, latitude, longitude,
+      geofence_radius_m, check_in_auto_verify, required_evidence,
+      max_participants, max_winners, join_opens_at, join_closes_at, completion_window_minutes, expires_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+    RETURNING ${questColumns()};
+  `;
+
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const { rows } = await client.query(query, [
+      groupId, creatorId, title, description, reward, currency, type, latitude ?? null, longitude ?? null,
+      geofence_radius_m, check_in_auto_verify, required_evidence,
+      max_participants ?? null, max_winners, join_opens_at ?? null, join_closes_at ?? null, completion_window_minutes ?? null, expires_at,
+    ]);
+    const quest = rows[0];
+
+    const createdSteps = steps.length > 0 ? await addQuestSteps(client, quest.id, steps) : [];
+    const createdPrerequisites = prerequisites.length > 0 ? await addQuestPrerequisites(client, quest.id, groupId, prerequisites) : [];
+    const escrow = await lockQuestEscrow(client, { questId: quest.id, groupId, creatorId, source: funding_source, amount: reward * max_winners });
+
+    await client.query('COMMIT');
+    logger.info(`Quest "${title}" created successfully in group ${groupId}.`);
+    return { ...quest, escrow, steps: createdSteps, prerequisites: createdPrerequisites };
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    if (['INSUFFICIENT_FUNDS', 'TREASURY_FUNDING_FORBIDDEN', 'INVALID_PREREQUISITE'].includes(error.message)) {
+      throw error;
+    }
     logger.error(`Error creating quest in group ${groupId}:`, error);
     throw new Error('Failed to create quest.');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Finds a group's active location-based quests around a point, nearest first.
+ * @param groupId The ID of the group.
+ * @param search The point to measure from, and either a radius around it or a bounding box.
+ * @returns The quests, each with its distance from the point in metres.
+ */
+export const findNearbyQuests = async (groupId: number, search: NearbyQuestsQuery) => {
+  const values: any[] = [groupId, search.longitude, search.latitude];
+  let area: string;
+  if (search.bbox) {
+    const { west, south, east, north } = search.bbox;
+    values.push(west, south, east, north);
+    area = 'q.location::geometry && ST_MakeEnvelope($4, $5, $6, $7, 4326)';
+  } else {
+    values.push(search.radius);
+    area = 'ST_DWithin(q.location, origin.point, $4)';
+  }
+  values.push(search.limit);
+
+  const query = `
+    WITH origin AS (SELECT ST_SetSRID(ST_MakePoint($2, $3), 4326)::geography AS point)
+    SELECT
+      q.id, q.title, q.description, q.reward, q.currency, q.type, q.status, q.latitude, q.longitude,
+      q.expires_at AS "expiresAt", ST_Distance(q.location, origin.point) AS distance
+    FROM quests q, origin
+    WHERE q.group_id = $1 AND q.type = 'location_based' AND q.status = 'active' AND ${area}
+    ORDER BY distance, q.id
+    LIMIT $${values.length};
+  `;
+
+  try {
+    const { rows } = await getPool().query(query, values);
+    return rows;
+  } catch (error) {
+    logger.error(`Error searching nearby quests in group ${groupId}:`, error);
+    throw new Error('Failed to fetch nearby quests.');
+  }
+};
+
+/**
+ * Groups a group's active location-based quests inside a map viewport into clusters,
+ * one per square cell of the Web Mercator grid at the given zoom.
+ * @param groupId The ID of the group.
+ * @param bbox The viewport. Its latitudes must lie within the Web Mercator range.
+ * @param zoom The map zoom level.
+ * @returns The clusters, largest first.
+ */
+export const clusterQuests = async (groupId: number, bbox: BoundingBox, zoom: number): Promise<QuestCluster[]> => {
+  const query = `
+    SELECT
+      COUNT(*)::int AS count,
+      ST_Y(ST_Centroid(ST_Collect(q.location::geometry))) AS latitude,
+      ST_X(ST_Centroid(ST_Collect(q.location::geometry))) AS longitude,
+      ST_XMin(ST_Extent(q.location::geometry)) AS west,
+      ST_YMin(ST_Extent(q.location::geometry)) AS south,
+      ST_XMax(ST_Extent(q.location::geometry)) AS east,
+      ST_YMax(ST_Extent(q.location::geometry)) AS north,
+      CASE WHEN COUNT(*) = 1 THEN MIN(q.id::text) END AS quest_id
+    FROM quests q
+    WHERE q.group_id = $1 AND q.type = 'location_based' AND q.status = 'active'
+      AND q.location::geometry && ST_MakeEnvelope($2, $3, $4, $5, 4326)
+    GROUP BY ST_SnapToGrid(ST_Transform(q.location::geometry, 3857), $6)
+    ORDER BY count DESC, latitude, longitude;
+  `;
+
+  try {
+    const { rows } = await getPool().query(query, [groupId, bbox.west, bbox.south, bbox.east, bbox.north, getClusterCellSize(zoom)]);
+    return rows.map((row) => ({
+      count: row.count,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      bounds: { west: row.west, south: row.south, east: row.east, north: row.north },
+      questId: row.quest_id,
+    }));
+  } catch (error) {
+    logger.error(`Error clustering quests in group ${groupId}:`, error);
+    throw new Error('Failed to cluster quests.');
+  }
+};
+
+export interface QuestExpirySummary {
+  // IDs of the quests that expired.
+  quests: string[];
+  // Participants who had not submitted when the quest or their own deadline passed.
+  participants: number;
+  notifications: number;
+  // Returned from the expired quests' escrows.
+  refunded: number;
+}
+
+/**
+ * Expires active quests past their expiry, then participants who had not submitted by
+ * their deadline, and notifies the participants affected. Expired quests' escrows are
+ * refunded, less the rewards of participants still awaiting review. Participants awaiting review
+ * keep their submission; they are told the quest expired but can still be verified.
+ */
+export const expireQuests = async (): Promise<QuestExpirySummary> => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    const questsResult = await client.query(
+      `UPDATE quests SET status = 'expired'
+       WHERE status = 'active' AND expires_at <= NOW()
+       RETURNING id, group_id, title`
+    );
+    const expiredQuestIds: string[] = questsResult.rows.map((quest) => quest.id);
+
+    const participantsResult = await client.query(
+      `UPDATE quest_participants qp
+       SET status = 'expired', updated_at = NOW()
+       FROM quests q
+       WHERE q.id = qp.quest_id AND qp.status IN ('joined', 'rejected')
+         AND (qp.deadline_at <= NOW() OR q.status = 'expired')
+       RETURNING qp.quest_id, qp.user_id, qp.deadline_at, q.group_id, q.title`
+    );
+
+    // Whoever the quest's expiry cut off hears that it expired; the rest missed their own deadline.
+    const notifications: NewNotification[] = participantsResult.rows.map((participant) => {
+      const quest = { questId: participant.quest_id, groupId: participant.group_id, title: participant.title };
+      return expiredQuestIds.includes(participant.quest_id)
+        ? { userId: participant.user_id, type: 'quest_expired', data: { ...quest, awaitingReview: false } }
+        : { userId: participant.user_id, type: 'quest_deadline_passed', data: { ...quest, deadlineAt: participant.deadline_at } };
+    });
+
+    if (expiredQuestIds.length > 0) {
+      const awaitingReviewResult = await client.query(
+        `SELECT qp.user_id, q.id AS quest_id, q.group_id, q.title
+         FROM quest_participants qp
+         JOIN quests q ON q.id = qp.quest_id
+         WHERE qp.quest_id = ANY($1::uuid[]) AND qp.status = 'submitted'`,
+        [expiredQuestIds]
+      );
+      for (const participant of awaitingReviewResult.rows) {
+        notifications.push({
+          userId: participant.user_id,
+          type: 'quest_expired',
+          data: { questId: participant.quest_id, groupId: participant.group_id, title: participant.title, awaitingReview: true },
+        });
+      }
+    }
+
+    const notified = await createNotifications(client, notifications);
+
+    let refunded = 0;
+    for (const questId of expiredQuestIds) {
+      refunded += await refundQuestEscrow(client, questId);
+    }
+
+    await client.query('COMMIT');
+    return { quests: expiredQuestIds, participants: participantsResult.rowCount ?? 0, notifications: notified, refunded };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
   }
 };
@@ -0,0 +1,132 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { REPUTATION_DELTAS, ReputationEventType, getReputationLevel } from '../utils/reputation';
+
+export type ScoredEventType = keyof typeof REPUTATION_DELTAS;
+
+export interface ReputationEvent {
+  // A BIGSERIAL, which pg returns as a string.
+  id: string;
+  user_id: string;
+  event_type: ReputationEventType;
+  delta: number;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+}
+
+// Why each kind of event changed a score, for the history.
+const EVENT_DESCRIPTIONS: Record<ReputationEventType, string> = {
+  quest_verified: 'A quest completion was verified.',
+  submission_rejected: 'A quest submission was rejected.',
+  proposal_passed: 'A proposal you made passed.',
+  followed: 'Someone followed you.',
+  unfollowed: 'Someone unfollowed you.',
+  content_reported: 'Content you posted was reported.',
+  initial_score: 'Your score before reputation history was kept.',
+  decay: 'Older events count for less as time passes.',
+};
+
+/**
+ * Records a scored event and moves the user's score by its delta, on the caller's
+ * transaction, so the score changes exactly when what earned it does.
+ * @param metadata What the event was about, e.g. the quest's ID.
+ */
+export const recordReputationEvent = async (
+  client: PoolClient,
+  userId: string,
+  type: ScoredEventType,
+  metadata: object = {}
+): Promise<ReputationEvent> => {
+  const { rows } = await client.query(
+    `WITH event AS (
+       INSERT INTO reputation_events (user_id, event_type, delta, metadata)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *
+     ), score AS (
+       UPDATE users SET reputation_score = reputation_score + $3 WHERE id = $1
+     )
+     SELECT * FROM event`,
+    [userId, type, REPUTATION_DELTAS[type], metadata]
+  );
+  return rows[0];
+};
+
+/**
+ * Brings every score to what its events are worth now: each event's delta halves every
+ * halfLifeDays. The difference is recorded as a 'decay' event, so the history still adds
+ * up to the score. Scores move by whole points, so small ones change only every so often.
+ * @returns How many scores changed.
+ */
+export const decayReputations = async (halfLifeDays: number): Promise<number> => {
+  const { rowCount } = await getPool().query(
+    `WITH worth AS (
+       SELECT u.id, u.reputation_score,
+         ROUND(SUM(e.delta * POWER(0.5, GREATEST(EXTRACT(EPOCH FROM NOW() - e.created_at), 0) / ($1::numeric * 86400))))::integer AS decayed
+       FROM users u
+       JOIN reputation_events e ON e.user_id = u.id AND e.event_type <> 'decay'
+       GROUP BY u.id
+     ), adjusted AS (
+       -- Relative to the current score, so events recorded meanwhile are kept.
+       UPDATE users u
+       SET reputation_score = u.reputation_score + (w.decayed - w.reputation_score)
+       FROM worth w
+       WHERE u.id = w.id AND w.decayed <> w.reputation_score
+       RETURNING u.id, w.decayed - w.reputation_score AS delta
+     )
+     INSERT INTO reputation_events (user_id, event_type, delta, metadata)
+     SELECT id, 'decay', delta, jsonb_build_object('halfLifeDays', $1::numeric)
+     FROM adjusted`,
+    [halfLifeDays]
+  );
+  return rowCount ?? 0;
+};
+
+/**
+ * Retrieves a user's score with its level and the next level up.
+ * @returns The reputation, or null if the user does not exist.
+ */
+export const getReputation = async (userId: string) => {
+  const { rows } = await getPool().query('SELECT reputation_score FROM users WHERE id = $1', [userId]);
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const score: number = rows[0].reputation_score;
+  const { level, nextLevel } = getReputationLevel(score);
+  return {
+    userId,
+    reputationScore: score,
+    level: level.name,
+    nextLevel: nextLevel ? { name: nextLevel.name, minScore: nextLevel.minScore } : null,
+  };
+};
+
+/**
+ * Retrieves the events that made a user's score, newest first, each with why it happened
+ * and the score it left.
+ * @param limit The most to return.
+ * @param before Only return events older than this event ID, to page back.
+ * @returns The events, or null if the user does not exist.
+ */
+export const getReputationHistory = async (userId: string, limit: number, before?: number) => {
+  const pool = getPool();
+
+  const userResult = await pool.query('SELECT 1 FROM users WHERE id = $1', [userId]);
+  if (userResult.rows.length === 0) {
+    return null;
+  }
+
+  const { rows } = await pool.query(
+    `SELECT * FROM (
+       SELECT id, event_type, delta, metadata, created_at,
+         SUM(delta) OVER (ORDER BY id)::integer AS score_after
+       FROM reputation_events
+       WHERE user_id = $1
+     ) history
+     WHERE $3::bigint IS NULL OR id < $3
+     ORDER BY id DESC
+     LIMIT $2`,
+    [userId, limit, before ?? null]
+  );
+  return rows.map((event) => ({ ...event, description: EVENT_DESCRIPTIONS[event.event_type as ReputationEventType] }));
+};
@@ -0,0 +1,57 @@
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import logger from '../config/logger';
+import { SignerStatus, getChainAdapter } from './chain';
+import { createNotifications } from './notifications.service';
+
+export interface SignerReport extends SignerStatus {
+  // Whether it has less APT than SIGNER_MIN_BALANCE left to pay gas with.
+  low: boolean;
+}
+
+// Signers admins were alerted about that have not been topped up since.
+const alerted = new Set<string>();
+
+/**
+ * Reads the gas balance and sequence of every account transactions are signed with.
+ */
+export const getSignerReports = async (): Promise<SignerReport[]> => {
+  const { minSignerBalance } = getConfig().chain;
+  const statuses = await getChainAdapter().getSignerStatuses();
+  return statuses.map((status) => ({ ...status, low: status.balance < minSignerBalance }));
+};
+
+/**
+ * Alerts admins about signers running low on APT, before their transactions start
+ * failing for want of gas. A signer is alerted about once each time it runs low.
+ * @returns The addresses of the signers newly found low.
+ */
+export const checkSignerBalances = async (): Promise<string[]> => {
+  const { minSignerBalance } = getConfig().chain;
+  const reports = await getSignerReports();
+  reports.filter((report) => !report.low).forEach((report) => alerted.delete(report.address));
+
+  const newlyLow = reports.filter((report) => report.low && !alerted.has(report.address));
+  if (newlyLow.length === 0) {
+    return [];
+  }
+
+  for (const report of newlyLow) {
+    logger.error(`Signer ${report.address} has ${report.balance} APT left, below the minimum of ${minSignerBalance}. Top it up before its transactions fail.`);
+  }
+
+  const client = await getPool().connect();
+  try {
+    const { rows: admins } = await client.query('SELECT id FROM users WHERE is_admin');
+    await createNotifications(client, admins.flatMap((admin) => newlyLow.map((report) => ({
+      userId: admin.id,
+      type: 'signer_balance_low' as const,
+      data: { address: report.address, balance: report.balance, min_balance: minSignerBalance },
+    }))));
+  } finally {
+    client.release();
+  }
+
+  newlyLow.forEach((report) => alerted.add(report.address));
+  return newlyLow.map((report) => report.address);
+};
@@ -0,0 +1,155 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { getChainAdapter } from './chain';
+
+export const EVIDENCE_TYPES = ['photo', 'text', 'url', 'vibe_nft'] as const;
+export type EvidenceType = typeof EVIDENCE_TYPES[number];
+
+export const SUBMISSION_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+/**
+ * Proof of completion. Photos are uploaded through /api/v1/media/upload first and
+ * referenced by IPFS hash; a Vibe NFT is referenced by the hash of its mint transaction.
+ */
+export interface SubmissionEvidence {
+  photo?: { ipfsHash: string };
+  text?: string;
+  url?: string;
+  vibeNft?: { transactionHash: string };
+}
+
+export interface QuestSubmission {
+  id: number;
+  quest_id: string;
+  user_id: string;
+  attempt: number;
+  evidence: SubmissionEvidence;
+  check_in_id: number | null;
+  status: SubmissionStatus;
+  reviewer_id: string | null;
+  review_reason: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+export interface NewSubmission {
+  questId: string;
+  userId: string;
+  requiredEvidence: EvidenceType[];
+  evidence: SubmissionEvidence;
+  checkInId?: number;
+  // Submissions verified without review are recorded as already approved.
+  approved?: boolean;
+}
+
+const EVIDENCE_KEYS: Record<EvidenceType, keyof SubmissionEvidence> = {
+  photo: 'photo',
+  text: 'text',
+  url: 'url',
+  vibe_nft: 'vibeNft',
+};
+
+/**
+ * The evidence types a quest requires that a submission does not include.
+ */
+export const getMissingEvidence = (required: EvidenceType[], evidence: SubmissionEvidence): EvidenceType[] =>
+  required.filter((type) => evidence[EVIDENCE_KEYS[type]] === undefined);
+
+// A Vibe NFT counts as evidence once its mint has committed, and only for one submission.
+const checkVibeNftEvidence = async (client: PoolClient, { questId, userId, evidence }: NewSubmission) => {
+  const { transactionHash } = evidence.vibeNft!;
+  const { rows } = await client.query(
+    `SELECT 1 FROM quest_submissions
+     WHERE evidence->'vibeNft'->>'transactionHash' = $1 AND NOT (quest_id = $2 AND user_id = $3)
+     LIMIT 1`,
+    [transactionHash, questId, userId]
+  );
+  if (rows.length > 0) {
+    throw new Error('EVIDENCE_ALREADY_USED');
+  }
+
+  const status = await getChainAdapter().getTransactionStatus(transactionHash);
+  if (status !== 'success') {
+    throw new Error('VIBE_NFT_NOT_FOUND');
+  }
+};
+
+/**
+ * Records a participant's submission on the caller's transaction. The caller has checked
+ * that the participant may submit and holds a lock on their row.
+ * Evidence the quest does not ask for is stored but not checked.
+ * @throws MISSING_EVIDENCE, EVIDENCE_ALREADY_USED, VIBE_NFT_NOT_FOUND, BLOCKCHAIN_DISABLED
+ */
+export const createSubmission = async (client: PoolClient, submission: NewSubmission): Promise<QuestSubmission> => {
+  if (getMissingEvidence(submission.requiredEvidence, submission.evidence).length > 0) {
+    throw new Error('MISSING_EVIDENCE');
+  }
+  if (submission.requiredEvidence.includes('vibe_nft')) {
+    await checkVibeNftEvidence(client, submission);
+  }
+
+  const { rows } = await client.query(
+    `INSERT INTO quest_submissions (quest_id, user_id, attempt, evidence, check_in_id, status, reviewed_at)
+     SELECT $1, $2, COALESCE(MAX(attempt), 0) + 1, $3::jsonb, $4::integer, $5, $6::timestamptz
+     FROM quest_submissions WHERE quest_id = $1 AND user_id = $2
+     RETURNING *`,
+    [
+      submission.questId, submission.userId, submission.evidence, submission.checkInId ?? null,
+      submission.approved ? 'approved' : 'pending', submission.approved ? new Date() : null,
+    ]
+  );
+  return rows[0];
+};
+
+/**
+ * Retrieves a quest's submissions, newest first. The quest's creator sees everyone's;
+ * participants see only their own.
+ * @param status Optional status to filter by.
+ * @throws QUEST_NOT_FOUND
+ */
+export const getQuestSubmissions = async (questId: string, groupId: number, userId: string, status?: SubmissionStatus) => {
+  const pool = getPool();
+
+  const questResult = await pool.query('SELECT creator_id FROM quests WHERE id = $1 AND group_id = $2', [questId, groupId]);
+  if (questResult.rows.length === 0) {
+    throw new Error('QUEST_NOT_FOUND');
+  }
+
+  const params: unknown[] = [questId];
+  let query = `
+    SELECT s.*, u.username
+    FROM quest_submissions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.quest_id = $1
+  `;
+  if (questResult.rows[0].creator_id !== userId) {
+    params.push(userId);
+    query += ` AND s.user_id = $${params.length}`;
+  }
+  if (status) {
+    params.push(status);
+    query += ` AND s.status = $${params.length}`;
+  }
+  query += ' ORDER BY s.created_at DESC, s.id DESC';
+
+  const { rows } = await pool.query(query, params);
+  return rows;
+};
+
+/**
+ * Retrieves the submissions awaiting a reviewer across every quest they created, oldest first.
+ * @param reviewerId The ID of the quest creator.
+ */
+export const getReviewQueue = async (reviewerId: string) => {
+  const { rows } = await getPool().query(
+    `SELECT s.*, u.username, q.title AS quest_title, q.group_id, q.required_evidence
+     FROM quest_submissions s
+     JOIN quests q ON q.id = s.quest_id
+     JOIN users u ON u.id = s.user_id
+     WHERE q.creator_id = $1 AND s.status = 'pending'
+     ORDER BY s.created_at ASC, s.id ASC`,
+    [reviewerId]
+  );
+  return rows;
+};
@@ -1,5 +1,8 @@
+import { PoolClient } from 'pg';
 import { getPool } from '../config/database';
 import logger from '../config/logger';
+import { topUpQuestEscrow } from './escrow.service';
+import { creditWallet } from './wallet.service';
 
 export interface DepositPayload {
   groupId: number;
@@ -8,6 +11,133 @@ export interface DepositPayload {
   description?: string;
 }
 
+/**
+ * A spend of group funds carried by a 'treasury_spend' proposal.
+ */
+export type TreasuryAction =
+  | { type: 'transfer'; amount: number; recipientUserId: string }
+  | { type: 'fund_quest'; amount: number; questId: string };
+
+export const TREASURY_ACTION_TYPES = ['transfer', 'fund_quest'] as const;
+
+/**
+ * Checks the shape of a treasury action received from a client.
+ * @param input The untrusted action payload.
+ * @returns A normalised action, or null if the payload is malformed.
+ */
+export const parseTreasuryAction = (input: any): TreasuryAction | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+
+  const { type, amount } = input;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+
+  if (type === 'transfer' && typeof input.recipientUserId === 'string' && input.recipientUserId) {
+    return { type, amount, recipientUserId: input.recipientUserId };
+  }
+  if (type === 'fund_quest' && typeof input.questId === 'string' && input.questId) {
+    return { type, amount, questId: input.questId };
+  }
+  return null;
+};
+
+/**
+ * Verifies that a treasury action targets something inside the group.
+ * Transfers must go to a group member. Funded quests must belong to the group and have an
+ * active escrow funded by its treasury, which is where the funds go.
+ * @param groupId The ID of the group whose treasury would pay.
+ * @param action The action to check.
+ * @throws Error('RECIPIENT_NOT_MEMBER'), Error('QUEST_NOT_FOUND') or Error('QUEST_NOT_FUNDABLE').
+ */
+export const validateTreasuryAction = async (groupId: number, action: TreasuryAction): Promise<void> => {
+  const pool = getPool();
+
+  if (action.type === 'transfer') {
+    const { rowCount } = await pool.query(
+      'SELECT 1 FROM feed_group_members WHERE group_id = $1 AND user_id = $2;',
+      [groupId, action.recipientUserId]
+    );
+    if (!rowCount) {
+      throw new Error('RECIPIENT_NOT_MEMBER');
+    }
+    return;
+  }
+
+  const { rows } = await pool.query(
+    `SELECT e.funding_source, e.group_id AS escrow_group_id, e.status AS escrow_status
+     FROM quests q
+     LEFT JOIN quest_escrows e ON e.quest_id = q.id
+     WHERE q.id = $1 AND q.group_id = $2;`,
+    [action.questId, groupId]
+  );
+  if (rows.length === 0) {
+    throw new Error('QUEST_NOT_FOUND');
+  }
+  const [escrow] = rows;
+  if (escrow.funding_source !== 'treasury' || escrow.escrow_group_id !== groupId || escrow.escrow_status !== 'active') {
+    throw new Error('QUEST_NOT_FUNDABLE');
+  }
+};
+
+/**
+ * Executes the treasury action of a passed proposal on the caller's transaction.
+ * The balance is only debited if it covers the amount, so the treasury can never
+ * be overdrawn, and the resulting withdrawal is linked back to the proposal.
+ * A transfer is credited to the recipient's wallet; a quest's funding is added to its escrow.
+ * @param client A client with an open transaction.
+ * @param proposal The proposal authorising the spend.
+ * @returns The withdrawal transaction record.
+ * @throws Error('INSUFFICIENT_FUNDS') or Error('QUEST_NOT_FUNDABLE'); the caller must roll back.
+ */
+export const executeTreasuryAction = async (
+  client: PoolClient,
+  proposal: { id: number; group_id: number; creator_id: string; title: string; action: TreasuryAction }
+): Promise<any> => {
+  const { action } = proposal;
+  const description = `Proposal #${proposal.id}: ${proposal.title}`;
+
+  const { rowCount } = await client.query(
+    `UPDATE feed_groups
+     SET treasury_balance = treasury_balance - $1
+     WHERE id = $2 AND treasury_balance >= $1;`,
+    [action.amount, proposal.group_id]
+  );
+  if (!rowCount) {
+    throw new Error('INSUFFICIENT_FUNDS');
+  }
+
+  let questId: string | null = null;
+  if (action.type === 'fund_quest') {
+    // The escrow may have closed or been refunded since the proposal was made.
+    await topUpQuestEscrow(client, action.questId, proposal.group_id, action.amount);
+    questId = action.questId;
+  } else {
+    await creditWallet(client, 'treasury_transfer', { userId: action.recipientUserId, amount: action.amount, description });
+  }
+
+  const { rows } = await client.query(
+    `INSERT INTO treasury_transactions
+       (group_id, user_id, transaction_type, amount, description, proposal_id, recipient_user_id, quest_id)
+     VALUES ($1, $2, 'withdrawal', $3, $4, $5, $6, $7)
+     RETURNING *;`,
+    [
+      proposal.group_id,
+      proposal.creator_id,
+      action.amount,
+      description,
+      proposal.id,
+      action.type === 'transfer' ? action.recipientUserId : null,
+      questId,
+    ]
+  );
+
+  logger.info(`Executed ${action.type} of ${action.amount} from group ${proposal.group_id} treasury for proposal ${proposal.id}.`);
+  return rows[0];
+};
+
 /**
  * Handles depositing funds into a group's treasury.
  * This function uses a transaction to ensure data integrity.
@@ -90,3 +220,26 @@ export const getTreasuryTransactions = async (groupId: number): Promise<any[]> =
     throw new Error('Failed to fetch treasury transactions.');
   }
 };
+
+/**
+ * Retrieves the treasury balance of every group the user belongs to.
+ * @param userId The ID of the member.
+ * @returns One entry per group with its current balance.
+ */
+export const getTreasuriesForMember = async (userId: string): Promise<any[]> => {
+  const query = `
+    SELECT fg.id AS group_id, fg.name, fg.treasury_balance
+    FROM feed_groups fg
+    JOIN feed_group_members m ON m.group_id = fg.id
+    WHERE m.user_id = $1
+    ORDER BY fg.name ASC;
+  `;
+  try {
+    const pool = getPool();
+    const { rows } = await pool.query(query, [userId]);
+    return rows.map((row) => ({ ...row, treasury_balance: parseFloat(row.treasury_balance) }));
+  } catch (error) {
+    logger.error(`Error fetching treasuries for user ${userId}:`, error);
+    throw new Error('Failed to fetch treasuries.');
+  }
+};
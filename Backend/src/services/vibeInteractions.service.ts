@@ -0,0 +1,281 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import logger from '../config/logger';
+import { recordActivity } from './achievements.service';
+import { recordReputationEvent } from './reputation.service';
+
+export const REPORT_REASONS = ['spam', 'harassment', 'inappropriate', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// How long the same comment may not be posted twice on a Vibe.
+const DUPLICATE_COMMENT_WINDOW = '1 hour';
+
+export interface VibeComment {
+  id: number;
+  vibe_id: number;
+  parent_id: number | null;
+  user_id: string;
+  username: string | null;
+  // Null once deleted.
+  body: string | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+export interface VibeCommentThread extends VibeComment {
+  replies: VibeCommentThread[];
+}
+
+export interface VibeReport {
+  id: number;
+  vibe_id: number;
+  comment_id: number | null;
+  reporter_id: string;
+  reason: ReportReason;
+  details: string | null;
+  created_at: Date;
+}
+
+const COMMENT_COLUMNS = `c.id, c.vibe_id, c.parent_id, c.user_id, u.username, c.body, c.created_at, c.updated_at, c.deleted_at`;
+
+// Locks the Vibe for the rest of the transaction, so interactions see its current state.
+const lockVibe = async (client: PoolClient, vibeId: number): Promise<{ creator_id: string; comments_locked: boolean }> => {
+  const { rows } = await client.query('SELECT creator_id, comments_locked FROM vibes WHERE id = $1 FOR SHARE', [vibeId]);
+  if (rows.length === 0) {
+    throw new Error('VIBE_NOT_FOUND');
+  }
+  return rows[0];
+};
+
+const inTransaction = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Likes a Vibe, or takes the like back if the user already liked it.
+ * @returns Whether the user now likes the Vibe, and how many users do.
+ * @throws VIBE_NOT_FOUND
+ */
+export const toggleLike = async (vibeId: number, userId: string): Promise<{ liked: boolean; likeCount: number }> =>
+  inTransaction(async (client) => {
+    await lockVibe(client, vibeId);
+
+    const removed = await client.query('DELETE FROM vibe_likes WHERE vibe_id = $1 AND user_id = $2', [vibeId, userId]);
+    const liked = removed.rowCount === 0;
+    if (liked) {
+      await client.query('INSERT INTO vibe_likes (vibe_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING', [vibeId, userId]);
+    }
+    await recordActivity(client, userId, liked ? 'vibe_liked' : 'vibe_unliked', { vibeId });
+
+    const { rows } = await client.query('SELECT COUNT(*)::integer AS count FROM vibe_likes WHERE vibe_id = $1', [vibeId]);
+    return { liked, likeCount: rows[0].count };
+  });
+
+/**
+ * Retrieves a page of a Vibe's threads, newest first, each with all its replies, oldest first.
+ * @returns The threads, or null if the Vibe does not exist.
+ */
+export const getComments = async (vibeId: number, limit: number, offset: number): Promise<VibeCommentThread[] | null> => {
+  const pool = getPool();
+
+  const vibeResult = await pool.query('SELECT 1 FROM vibes WHERE id = $1', [vibeId]);
+  if (vibeResult.rows.length === 0) {
+    return null;
+  }
+
+  const { rows } = await pool.query<VibeComment>(
+    `WITH RECURSIVE roots AS (
+       SELECT id FROM vibe_comments
+       WHERE vibe_id = $1 AND parent_id IS NULL
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2 OFFSET $3
+     ), thread AS (
+       SELECT c.* FROM vibe_comments c JOIN roots r ON r.id = c.id
+       UNION ALL
+       SELECT c.* FROM vibe_comments c JOIN thread t ON c.parent_id = t.id
+     )
+     SELECT ${COMMENT_COLUMNS}
+     FROM thread c
+     JOIN users u ON u.id = c.user_id
+     ORDER BY c.created_at, c.id`,
+    [vibeId, limit, offset]
+  );
+
+  const threads = new Map<number, VibeCommentThread>(rows.map((row) => [row.id, { ...row, replies: [] }]));
+  const roots: VibeCommentThread[] = [];
+  for (const thread of threads.values()) {
+    const parent = thread.parent_id === null ? undefined : threads.get(thread.parent_id);
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+  return roots.reverse();
+};
+
+/**
+ * Comments on a Vibe, or replies to one of its comments.
+ * @throws VIBE_NOT_FOUND, COMMENTS_LOCKED, COMMENT_NOT_FOUND, COMMENT_RATE_LIMITED, DUPLICATE_COMMENT
+ */
+export const addComment = async (vibeId: number, userId: string, body: string, parentId?: number): Promise<VibeComment> =>
+  inTransaction(async (client) => {
+    const vibe = await lockVibe(client, vibeId);
+    if (vibe.comments_locked) {
+      throw new Error('COMMENTS_LOCKED');
+    }
+
+    if (parentId !== undefined) {
+      const { rows } = await client.query(
+        'SELECT 1 FROM vibe_comments WHERE id = $1 AND vibe_id = $2 AND deleted_at IS NULL',
+        [parentId, vibeId]
+      );
+      if (rows.length === 0) {
+        throw new Error('COMMENT_NOT_FOUND');
+      }
+    }
+
+    // Basic anti-spam: a cap on how often a user comments, and no posting the same comment twice.
+    const { maxPerMinute, maxPerHour } = getConfig().comments;
+    const { rows: [recent] } = await client.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 minute') AS last_minute,
+         COUNT(*) AS last_hour,
+         COUNT(*) FILTER (WHERE vibe_id = $2 AND body = $3 AND created_at > NOW() - $4::interval) AS duplicates
+       FROM vibe_comments
+       WHERE user_id = $1 AND created_at > NOW() - INTERVAL '1 hour'`,
+      [userId, vibeId, body, DUPLICATE_COMMENT_WINDOW]
+    );
+    if (parseInt(recent.last_minute, 10) >= maxPerMinute || parseInt(recent.last_hour, 10) >= maxPerHour) {
+      throw new Error('COMMENT_RATE_LIMITED');
+    }
+    if (parseInt(recent.duplicates, 10) > 0) {
+      throw new Error('DUPLICATE_COMMENT');
+    }
+
+    const { rows } = await client.query(
+      `WITH inserted AS (
+         INSERT INTO vibe_comments (vibe_id, user_id, parent_id, body) VALUES ($1, $2, $3, $4) RETURNING *
+       )
+       SELECT ${COMMENT_COLUMNS} FROM inserted c JOIN users u ON u.id = c.user_id`,
+      [vibeId, userId, parentId ?? null, body]
+    );
+    await recordActivity(client, userId, 'vibe_commented', { vibeId, commentId: rows[0].id, parentId: parentId ?? null });
+    return rows[0];
+  });
+
+/**
+ * Changes the body of the user's own comment. Not while the Vibe's comments are locked.
+ * @throws VIBE_NOT_FOUND, COMMENT_NOT_FOUND, FORBIDDEN, COMMENTS_LOCKED
+ */
+export const editComment = async (vibeId: number, commentId: number, userId: string, body: string): Promise<VibeComment> =>
+  inTransaction(async (client) => {
+    const vibe = await lockVibe(client, vibeId);
+
+    const { rows: existing } = await client.query(
+      'SELECT user_id FROM vibe_comments WHERE id = $1 AND vibe_id = $2 AND deleted_at IS NULL FOR UPDATE',
+      [commentId, vibeId]
+    );
+    if (existing.length === 0) {
+      throw new Error('COMMENT_NOT_FOUND');
+    }
+    if (existing[0].user_id !== userId) {
+      throw new Error('FORBIDDEN');
+    }
+    if (vibe.comments_locked) {
+      throw new Error('COMMENTS_LOCKED');
+    }
+
+    const { rows } = await client.query(
+      `WITH updated AS (
+         UPDATE vibe_comments SET body = $2, updated_at = NOW() WHERE id = $1 RETURNING *
+       )
+       SELECT ${COMMENT_COLUMNS} FROM updated c JOIN users u ON u.id = c.user_id`,
+      [commentId, body]
+    );
+    await recordActivity(client, userId, 'vibe_comment_edited', { vibeId, commentId });
+    return rows[0];
+  });
+
+/**
+ * Deletes a comment, leaving its replies in place. Its author or the Vibe's creator may.
+ * @throws VIBE_NOT_FOUND, COMMENT_NOT_FOUND, FORBIDDEN
+ */
+export const deleteComment = async (vibeId: number, commentId: number, userId: string): Promise<void> =>
+  inTransaction(async (client) => {
+    const vibe = await lockVibe(client, vibeId);
+
+    const { rows } = await client.query(
+      'SELECT user_id FROM vibe_comments WHERE id = $1 AND vibe_id = $2 AND deleted_at IS NULL FOR UPDATE',
+      [commentId, vibeId]
+    );
+    if (rows.length === 0) {
+      throw new Error('COMMENT_NOT_FOUND');
+    }
+    if (rows[0].user_id !== userId && vibe.creator_id !== userId) {
+      throw new Error('FORBIDDEN');
+    }
+
+    await client.query('UPDATE vibe_comments SET body = NULL, deleted_at = NOW(), updated_at = NOW() WHERE id = $1', [commentId]);
+    await recordActivity(client, userId, 'vibe_comment_deleted', { vibeId, commentId, authorId: rows[0].user_id });
+  });
+
+/**
+ * Reports a Vibe, or one of its comments, and takes reputation from whoever posted it.
+ * @throws VIBE_NOT_FOUND, COMMENT_NOT_FOUND, CANNOT_REPORT_OWN_CONTENT, ALREADY_REPORTED
+ */
+export const reportContent = async (
+  vibeId: number,
+  reporterId: string,
+  reason: ReportReason,
+  details?: string,
+  commentId?: number
+): Promise<VibeReport> =>
+  inTransaction(async (client) => {
+    const vibe = await lockVibe(client, vibeId);
+
+    let authorId = vibe.creator_id;
+    if (commentId !== undefined) {
+      const { rows } = await client.query(
+        'SELECT user_id FROM vibe_comments WHERE id = $1 AND vibe_id = $2 AND deleted_at IS NULL',
+        [commentId, vibeId]
+      );
+      if (rows.length === 0) {
+        throw new Error('COMMENT_NOT_FOUND');
+      }
+      authorId = rows[0].user_id;
+    }
+    if (authorId === reporterId) {
+      throw new Error('CANNOT_REPORT_OWN_CONTENT');
+    }
+
+    const { rows } = await client.query(
+      `INSERT INTO vibe_reports (vibe_id, comment_id, reporter_id, reason, details)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [vibeId, commentId ?? null, reporterId, reason, details ?? null]
+    );
+    if (rows.length === 0) {
+      throw new Error('ALREADY_REPORTED');
+    }
+
+    const report: VibeReport = rows[0];
+    await recordActivity(client, reporterId, 'vibe_reported', { vibeId, commentId: commentId ?? null, reportId: report.id });
+    await recordReputationEvent(client, authorId, 'content_reported', { vibeId, commentId: commentId ?? null, reportId: report.id });
+    logger.info(`User ${reporterId} reported ${commentId ? `comment ${commentId} on ` : ''}Vibe ${vibeId} for ${reason}.`);
+    return report;
+  });
@@ -0,0 +1,358 @@
+import { getPool } from '../config/database';
+import { getConfig } from '../config/index';
+import logger from '../config/logger';
+import { getChainAdapter } from './chain';
+import { ChainTransaction, ChainTransactionStatus, recordPreparedTransaction } from './chainTransactions.service';
+import { uploadJsonToIpfs } from './ipfs.service';
+import { BoundingBox } from '../utils/geo';
+
+export interface Vibe {
+  id: number;
+  creator_id: string;
+  creator_username: string | null;
+  name: string;
+  description: string;
+  collection_name: string;
+  recipient_address: string;
+  // Who holds the NFT now; the recipient until it is sold on the marketplace.
+  owner_address: string;
+  // Set once the mint is committed, if the chain reported the token.
+  token_address: string | null;
+  tx_hash: string;
+  mint_status: ChainTransactionStatus;
+  metadata_cid: string;
+  image_cid: string;
+  latitude: number | null;
+  longitude: number | null;
+  quest_id: string | null;
+  group_id: number | null;
+  comments_locked: boolean;
+  like_count: number;
+  // Comments not deleted.
+  comment_count: number;
+  // The $Lunoa boosted to it in all.
+  boost_total: string;
+  created_at: Date;
+}
+
+export interface NewVibe {
+  creatorId: string;
+  name: string;
+  description: string;
+  imageIpfsHash: string;
+  collectionName: string;
+  recipientAddress: string;
+  latitude?: number;
+  longitude?: number;
+  // Defaults to the quest's group when a quest is given.
+  questId?: string;
+  groupId?: number;
+}
+
+export interface VibeFilter {
+  creatorId?: string;
+  questId?: string;
+  groupId?: number;
+  bbox?: BoundingBox;
+  limit: number;
+  offset: number;
+}
+
+// Every column but the generated location, with the creator's username and the Vibe's counters.
+const selectVibes = (from = 'vibes') => `
+  SELECT v.id, v.creator_id, u.username AS creator_username, v.name, v.description, v.collection_name,
+    v.recipient_address, v.owner_address, v.token_address, v.tx_hash, v.metadata_cid, v.image_cid, v.latitude, v.longitude,
+    v.quest_id, v.group_id, v.comments_locked,
+    (SELECT t.status FROM chain_transactions t WHERE t.tx_hash = v.tx_hash) AS mint_status,
+    (SELECT COUNT(*) FROM vibe_likes l WHERE l.vibe_id = v.id)::integer AS like_count,
+    (SELECT COUNT(*) FROM vibe_comments c WHERE c.vibe_id = v.id AND c.deleted_at IS NULL)::integer AS comment_count,
+    (SELECT COALESCE(SUM(b.amount), 0) FROM vibe_boosts b WHERE b.vibe_id = v.id) AS boost_total,
+    v.created_at
+  FROM ${from} v
+  JOIN users u ON u.id = v.creator_id
+`;
+
+// Trending scores count the engagement of the last TRENDING_WINDOW: points per like, per
+// comment and per $Lunoa boosted.
+const TRENDING_WINDOW = '7 days';
+const TRENDING_WEIGHTS = { like: 1, comment: 2, boosted: 1 };
+
+const RESEND_BATCH_SIZE = 20;
+
+// A Vibe can be captured for a quest or posted to a group only by a member of that group.
+// Checked before minting, so a Vibe is never minted that could not then be recorded.
+const resolveGroup = async ({ creatorId, questId, groupId }: NewVibe): Promise<number | null> => {
+  const pool = getPool();
+
+  if (questId) {
+    const { rows } = await pool.query('SELECT group_id FROM quests WHERE id = $1', [questId]);
+    if (rows.length === 0) {
+      throw new Error('QUEST_NOT_FOUND');
+    }
+    if (groupId !== undefined && rows[0].group_id !== groupId) {
+      throw new Error('QUEST_NOT_IN_GROUP');
+    }
+    groupId = rows[0].group_id;
+  }
+
+  if (groupId === undefined) {
+    return null;
+  }
+
+  const { rows } = await pool.query(
+    `SELECT EXISTS (SELECT 1 FROM feed_group_members WHERE group_id = $1 AND user_id = $2) AS is_member
+     FROM feed_groups WHERE id = $1`,
+    [groupId, creatorId]
+  );
+  if (rows.length === 0) {
+    throw new Error('GROUP_NOT_FOUND');
+  }
+  if (!rows[0].is_member) {
+    throw new Error('NOT_A_MEMBER');
+  }
+  return groupId;
+};
+
+/**
+ * Pins a Vibe's metadata to IPFS, records the Vibe and sends its mint to the recipient
+ * without waiting for it to commit. The mint is tracked by its transaction, which sets
+ * the Vibe's token once it commits.
+ * @returns The recorded Vibe, the token URI it is minted with and the mint transaction.
+ * @throws QUEST_NOT_FOUND, QUEST_NOT_IN_GROUP, GROUP_NOT_FOUND, NOT_A_MEMBER
+ */
+export const createVibe = async (vibe: NewVibe): Promise<{ vibe: Vibe; tokenUri: string; transaction: ChainTransaction }> => {
+  const groupId = await resolveGroup(vibe);
+  const { creatorId, name, description, imageIpfsHash, collectionName, recipientAddress } = vibe;
+
+  // 1. Create the NFT metadata JSON object
+  const nftMetadata = {
+    name,
+    description,
+    image: `ipfs://${imageIpfsHash}`,
+    attributes: [
+      { trait_type: 'Vibe', value: 'Positive' },
+      { trait_type: 'MintedAt', value: new Date().toISOString() },
+    ],
+  };
+
+  // 2. Upload the metadata JSON to IPFS
+  const metadataIpfsHash = await uploadJsonToIpfs(nftMetadata, `${name}-metadata.json`);
+  const tokenUri = `ipfs://${metadataIpfsHash}`;
+
+  // 3. Sign the mint, so it can be recorded before it is sent
+  const mint = await getChainAdapter().prepareVibeMint({
+    collectionName,
+    description,
+    name,
+    uri: tokenUri,
+    recipient: recipientAddress,
+  });
+
+  // 4. Record the Vibe and its mint together
+  const client = await getPool().connect();
+  let vibeId: number;
+  let transaction: ChainTransaction;
+  try {
+    await client.query('BEGIN');
+    const { rows } = await client.query(
+      `INSERT INTO vibes (creator_id, name, description, collection_name, recipient_address, owner_address,
+         tx_hash, metadata_cid, image_cid, latitude, longitude, quest_id, group_id)
+       VALUES ($1, $2, $3, $4, $5, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id`,
+      [
+        creatorId, name, description, collectionName, recipientAddress, mint.hash,
+        metadataIpfsHash, imageIpfsHash, vibe.latitude ?? null, vibe.longitude ?? null, vibe.questId ?? null, groupId,
+      ]
+    );
+    vibeId = rows[0].id;
+    transaction = await recordPreparedTransaction(client, mint, { purpose: 'vibe_mint', entityId: vibeId, userId: creatorId });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    mint.discard();
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  // 5. Send it; the transaction tracker settles it
+  try {
+    await mint.submit();
+    logger.info(`Vibe ${vibeId} created by user ${creatorId}; minting in transaction ${mint.hash}.`);
+  } catch (error) {
+    // The transaction may still land; the tracker settles it by hash.
+    logger.error(`Error sending the mint of Vibe ${vibeId}, will track transaction ${mint.hash}:`, error);
+  }
+
+  return { vibe: (await getVibeById(vibeId))!, tokenUri, transaction };
+};
+
+/**
+ * Sends the mints of Vibes whose last mint transaction expired before it was committed
+ * again, each attempt at a higher gas price than the last. Gives up on a Vibe after
+ * VIBE_MINT_MAX_ATTEMPTS, leaving its mint expired.
+ * @returns The number of mints sent again.
+ */
+export const resendExpiredMints = async (): Promise<number> => {
+  const { rows } = await getPool().query(
+    `SELECT * FROM (
+       SELECT v.id, v.creator_id, v.name, v.description, v.collection_name, v.recipient_address, v.metadata_cid, v.tx_hash, t.updated_at,
+         (SELECT COUNT(*) FROM chain_transactions a WHERE a.entity_type = 'vibe' AND a.entity_id = v.id)::integer AS attempts
+       FROM vibes v
+       JOIN chain_transactions t ON t.tx_hash = v.tx_hash
+       WHERE t.status = 'expired' AND v.token_address IS NULL
+     ) expired
+     WHERE attempts < $1
+     ORDER BY updated_at
+     LIMIT $2`,
+    [getConfig().vibes.maxMintAttempts, RESEND_BATCH_SIZE]
+  );
+
+  let resent = 0;
+  for (const vibe of rows) {
+    try {
+      const attempt = vibe.attempts + 1;
+      const mint = await getChainAdapter().prepareVibeMint({
+        collectionName: vibe.collection_name,
+        description: vibe.description,
+        name: vibe.name,
+        uri: `ipfs://${vibe.metadata_cid}`,
+        recipient: vibe.recipient_address,
+      }, { attempt });
+
+      const client = await getPool().connect();
+      try {
+        await client.query('BEGIN');
+        const { rowCount } = await client.query('UPDATE vibes SET tx_hash = $2 WHERE id = $1 AND tx_hash = $3', [vibe.id, mint.hash, vibe.tx_hash]);
+        if (rowCount === 0) {
+          // Another run resent it first.
+          await client.query('ROLLBACK');
+          mint.discard();
+          continue;
+        }
+        await recordPreparedTransaction(client, mint, { purpose: 'vibe_mint', entityId: vibe.id, userId: vibe.creator_id });
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        mint.discard();
+        throw error;
+      } finally {
+        client.release();
+      }
+
+      await mint.submit();
+      resent += 1;
+      logger.info(`Mint of Vibe ${vibe.id} expired in transaction ${vibe.tx_hash}; resent as attempt ${attempt} in ${mint.hash}.`);
+    } catch (error) {
+      // A resent mint that is recorded but not sent expires, and is resent again.
+      logger.error(`Error resending the mint of Vibe ${vibe.id}:`, error);
+    }
+  }
+  return resent;
+};
+
+/**
+ * Retrieves a Vibe by its ID.
+ * @returns The Vibe, or null if not found.
+ */
+export const getVibeById = async (id: number): Promise<Vibe | null> => {
+  const { rows } = await getPool().query(`${selectVibes()} WHERE v.id = $1`, [id]);
+  return rows[0] ?? null;
+};
+
+/**
+ * Locks or unlocks a Vibe's comments. Only its creator may.
+ * @returns The updated Vibe, or null if not found.
+ * @throws FORBIDDEN
+ */
+export const setCommentsLocked = async (id: number, userId: string, locked: boolean): Promise<Vibe | null> => {
+  const { rows } = await getPool().query(
+    `WITH updated AS (
+       UPDATE vibes SET comments_locked = $3 WHERE id = $1 AND creator_id = $2 RETURNING *
+     )
+     ${selectVibes('updated')}`,
+    [id, userId, locked]
+  );
+  if (rows.length > 0) {
+    return rows[0];
+  }
+
+  const vibe = await getVibeById(id);
+  if (vibe) {
+    throw new Error('FORBIDDEN');
+  }
+  return null;
+};
+
+/**
+ * Lists Vibes, newest first.
+ */
+export const listVibes = async (filter: VibeFilter): Promise<Vibe[]> => {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  let paramIndex = 1;
+
+  if (filter.creatorId) {
+    conditions.push(`v.creator_id = $${paramIndex++}`);
+    values.push(filter.creatorId);
+  }
+  if (filter.questId) {
+    conditions.push(`v.quest_id = $${paramIndex++}`);
+    values.push(filter.questId);
+  }
+  if (filter.groupId !== undefined) {
+    conditions.push(`v.group_id = $${paramIndex++}`);
+    values.push(filter.groupId);
+  }
+  if (filter.bbox) {
+    const { west, south, east, north } = filter.bbox;
+    conditions.push(`v.location::geometry && ST_MakeEnvelope($${paramIndex++}, $${paramIndex++}, $${paramIndex++}, $${paramIndex++}, 4326)`);
+    values.push(west, south, east, north);
+  }
+
+  let query = selectVibes();
+  if (conditions.length > 0) {
+    query += ` WHERE ${conditions.join(' AND ')}`;
+  }
+  query += ` ORDER BY v.created_at DESC, v.id DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+
+  const { rows } = await getPool().query(query, [...values, filter.limit, filter.offset]);
+  return rows;
+};
+
+/**
+ * Lists the Vibes a user created, newest first.
+ * @returns The Vibes, or null if the user does not exist.
+ */
+export const listUserVibes = async (userId: string, limit: number, offset: number): Promise<Vibe[] | null> => {
+  const userResult = await getPool().query('SELECT 1 FROM users WHERE id = $1', [userId]);
+  if (userResult.rows.length === 0) {
+    return null;
+  }
+  return listVibes({ creatorId: userId, limit, offset });
+};
+
+/**
+ * Lists the Vibes with the most engagement lately, most first. Likes, comments and boosts
+ * over the last week all count towards a Vibe's score; Vibes without any are left out.
+ */
+export const listTrendingVibes = async (limit: number, offset: number): Promise<Vibe[]> => {
+  const { rows } = await getPool().query(
+    `WITH engagement AS (
+       SELECT vibe_id, $1::numeric AS points FROM vibe_likes WHERE created_at > NOW() - $4::interval
+       UNION ALL
+       SELECT vibe_id, $2::numeric FROM vibe_comments WHERE created_at > NOW() - $4::interval AND deleted_at IS NULL
+       UNION ALL
+       SELECT vibe_id, amount * $3::numeric FROM vibe_boosts WHERE created_at > NOW() - $4::interval AND vibe_id IS NOT NULL
+     ), scores AS (
+       SELECT vibe_id, SUM(points) AS score FROM engagement GROUP BY vibe_id
+     ), trending AS (
+       SELECT vibes.*, scores.score FROM vibes JOIN scores ON scores.vibe_id = vibes.id
+     )
+     ${selectVibes('trending')}
+     ORDER BY v.score DESC, v.created_at DESC, v.id DESC
+     LIMIT $5 OFFSET $6`,
+    [TRENDING_WEIGHTS.like, TRENDING_WEIGHTS.comment, TRENDING_WEIGHTS.boosted, TRENDING_WINDOW, limit, offset]
+  );
+  return rows;
+};
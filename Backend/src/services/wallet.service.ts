@@ -0,0 +1,112 @@
+import { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+import logger from '../config/logger';
+
+export type WalletTransactionType =
+  | 'deposit'
+  | 'escrow_lock'
+  | 'escrow_refund'
+  | 'boost'
+  | 'boost_payout'
+  | 'purchase_escrow'
+  | 'purchase_refund'
+  | 'sale_proceeds'
+  | 'royalty'
+  | 'bid_escrow'
+  | 'bid_refund'
+  | 'treasury_transfer';
+
+export interface WalletTransaction {
+  id: number;
+  user_id: string;
+  transaction_type: WalletTransactionType;
+  amount: string;
+  quest_id: string | null;
+  vibe_id: number | null;
+  description: string | null;
+  created_at: Date;
+}
+
+export interface WalletMovement {
+  userId: string;
+  amount: number;
+  questId?: string;
+  vibeId?: number;
+  description?: string;
+}
+
+const recordTransaction = async (client: PoolClient, type: WalletTransactionType, movement: WalletMovement): Promise<WalletTransaction> => {
+  const { rows } = await client.query(
+    `INSERT INTO wallet_transactions (user_id, transaction_type, amount, quest_id, description, vibe_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [movement.userId, type, movement.amount, movement.questId ?? null, movement.description ?? null, movement.vibeId ?? null]
+  );
+  return rows[0];
+};
+
+/**
+ * Takes funds from a user's wallet on the caller's transaction. The balance is only
+ * debited if it covers the amount, so a wallet can never be overdrawn.
+ * @throws Error('INSUFFICIENT_FUNDS'); the caller must roll back.
+ */
+export const debitWallet = async (client: PoolClient, type: 'escrow_lock' | 'boost' | 'purchase_escrow' | 'bid_escrow', movement: WalletMovement): Promise<WalletTransaction> => {
+  const { rowCount } = await client.query(
+    'UPDATE users SET wallet_balance = wallet_balance - $1 WHERE id = $2 AND wallet_balance >= $1',
+    [movement.amount, movement.userId]
+  );
+  if (!rowCount) {
+    throw new Error('INSUFFICIENT_FUNDS');
+  }
+  return recordTransaction(client, type, movement);
+};
+
+/**
+ * Adds funds to a user's wallet on the caller's transaction.
+ */
+export const creditWallet = async (
+  client: PoolClient,
+  type: 'deposit' | 'escrow_refund' | 'boost_payout' | 'purchase_refund' | 'sale_proceeds' | 'royalty' | 'bid_refund' | 'treasury_transfer',
+  movement: WalletMovement
+): Promise<WalletTransaction> => {
+  await client.query('UPDATE users SET wallet_balance = wallet_balance + $1 WHERE id = $2', [movement.amount, movement.userId]);
+  return recordTransaction(client, type, movement);
+};
+
+/**
+ * Deposits funds into a user's wallet.
+ * @returns The deposit transaction.
+ */
+export const depositToWallet = async (userId: string, amount: number, description?: string): Promise<WalletTransaction> => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const transaction = await creditWallet(client, 'deposit', { userId, amount, description });
+    await client.query('COMMIT');
+
+    logger.info(`Deposit of ${amount} to the wallet of user ${userId} successful.`);
+    return transaction;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    logger.error(`Error depositing to the wallet of user ${userId}:`, error);
+    throw new Error('Failed to make deposit.');
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Retrieves a user's wallet balance and transactions, newest first.
+ */
+export const getWallet = async (userId: string) => {
+  const pool = getPool();
+  const [balanceResult, transactionsResult] = await Promise.all([
+    pool.query('SELECT wallet_balance FROM users WHERE id = $1', [userId]),
+    pool.query('SELECT * FROM wallet_transactions WHERE user_id = $1 ORDER BY created_at DESC, id DESC', [userId]),
+  ]);
+
+  return {
+    balance: parseFloat(balanceResult.rows[0]?.wallet_balance ?? '0'),
+    transactions: transactionsResult.rows as WalletTransaction[],
+  };
+};
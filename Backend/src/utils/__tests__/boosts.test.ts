@@ -0,0 +1,24 @@
+import { splitBoost } from '../boosts';
+
+const splits = { creatorPercent: 80, groupPercent: 15, platformFeePercent: 5 };
+
+describe('boosts', () => {
+  describe('splitBoost', () => {
+    it('should split a boost by the configured percentages', () => {
+      expect(splitBoost(100, splits, true, 8)).toEqual({ amount: 100, creator: 80, group: 15, platformFee: 5 });
+    });
+
+    it('should pay the group\'s share to the creator when there is no group', () => {
+      expect(splitBoost(100, splits, false, 8)).toEqual({ amount: 100, creator: 95, group: 0, platformFee: 5 });
+    });
+
+    it('should give the creator what rounding to the coin\'s units leaves over', () => {
+      expect(splitBoost(0.07, splits, true, 2)).toEqual({ amount: 0.07, creator: 0.06, group: 0.01, platformFee: 0 });
+      expect(splitBoost(1.01, splits, true, 2)).toEqual({ amount: 1.01, creator: 0.81, group: 0.15, platformFee: 0.05 });
+    });
+
+    it('should round the amount to the coin\'s decimals', () => {
+      expect(splitBoost(1.234, splits, false, 2).amount).toBe(1.23);
+    });
+  });
+});
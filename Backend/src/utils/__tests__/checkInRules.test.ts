@@ -0,0 +1,70 @@
+import { LocationFix, MAX_CHECK_IN_AGE_MS, assessCheckIn } from '../checkInRules';
+
+const now = new Date('2026-01-01T12:00:00Z');
+const geofence = { latitude: 51.5007, longitude: -0.1246, radius: 100 };
+
+// A fix the given number of metres north of the geofence centre (about 111,195 m per degree).
+const fix = (metresNorth: number, overrides: Partial<LocationFix> = {}): LocationFix => ({
+  latitude: geofence.latitude + metresNorth / 111195,
+  longitude: geofence.longitude,
+  accuracy: 10,
+  recordedAt: now,
+  ...overrides,
+});
+
+describe('checkInRules', () => {
+  describe('assessCheckIn', () => {
+    it('should pass a fresh, accurate fix inside the geofence', () => {
+      const assessment = assessCheckIn(fix(50), geofence, null, now);
+
+      expect(assessment.status).toBe('passed');
+      expect(assessment.flags).toEqual([]);
+      expect(assessment.distance).toBeCloseTo(50, 0);
+      expect(assessment.speed).toBeNull();
+    });
+
+    it('should reject a fix whose accuracy circle lies outside the geofence', () => {
+      const assessment = assessCheckIn(fix(150), geofence, null, now);
+
+      expect(assessment.status).toBe('rejected');
+      expect(assessment.flags).toEqual(['OUTSIDE_GEOFENCE']);
+    });
+
+    it('should flag a fix that is inside the geofence only within its accuracy', () => {
+      expect(assessCheckIn(fix(105), geofence, null, now).flags).toEqual(['GEOFENCE_UNCERTAIN']);
+    });
+
+    it('should flag an imprecise fix', () => {
+      const assessment = assessCheckIn(fix(0, { accuracy: 500 }), geofence, null, now);
+
+      expect(assessment.status).toBe('flagged');
+      expect(assessment.flags).toEqual(['LOW_ACCURACY']);
+    });
+
+    it('should flag fixes that are too old or from the future', () => {
+      const stale = fix(0, { recordedAt: new Date(now.getTime() - MAX_CHECK_IN_AGE_MS - 1) });
+      const future = fix(0, { recordedAt: new Date(now.getTime() + 5 * 60 * 1000) });
+
+      expect(assessCheckIn(stale, geofence, null, now).flags).toEqual(['STALE_TIMESTAMP']);
+      expect(assessCheckIn(future, geofence, null, now).flags).toEqual(['FUTURE_TIMESTAMP']);
+    });
+
+    it('should flag travel from the previous fix faster than an airliner', () => {
+      const paris = { latitude: 48.8584, longitude: 2.2945, accuracy: 10, recordedAt: new Date(now.getTime() - 10 * 60 * 1000) };
+
+      const assessment = assessCheckIn(fix(0), geofence, paris, now);
+
+      expect(assessment.flags).toEqual(['IMPOSSIBLE_TRAVEL']);
+      expect(assessment.speed).toBeGreaterThan(500);
+    });
+
+    it('should allow plausible travel, discounting both fixes\' accuracy', () => {
+      const nearby = fix(2000, { recordedAt: new Date(now.getTime() - 10 * 60 * 1000) });
+
+      const assessment = assessCheckIn(fix(0), geofence, nearby, now);
+
+      expect(assessment.status).toBe('passed');
+      expect(assessment.speed).toBeCloseTo((2000 - 20) / 600, 0);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { MAX_MERCATOR_LATITUDE, distanceMeters, getClusterCellSize, parseBoundingBox } from '../geo';
+
+describe('geo', () => {
+  describe('getClusterCellSize', () => {
+    it('should cover the same screen area at every zoom, halving with each level', () => {
+      expect(getClusterCellSize(0, 256)).toBeCloseTo(40075016.686, 2);
+      expect(getClusterCellSize(11)).toBeCloseTo(getClusterCellSize(10) / 2);
+    });
+  });
+
+  describe('distanceMeters', () => {
+    it('should measure great-circle distances', () => {
+      const bigBen = { latitude: 51.5007, longitude: -0.1246 };
+      const eiffelTower = { latitude: 48.8584, longitude: 2.2945 };
+
+      expect(distanceMeters(bigBen, bigBen)).toBe(0);
+      expect(distanceMeters(bigBen, eiffelTower) / 1000).toBeCloseTo(340.5, 0);
+      expect(distanceMeters(eiffelTower, bigBen)).toBeCloseTo(distanceMeters(bigBen, eiffelTower));
+    });
+  });
+
+  describe('parseBoundingBox', () => {
+    it('should parse west,south,east,north', () => {
+      expect(parseBoundingBox('-0.15, 51.49,-0.1,51.52')).toEqual({ west: -0.15, south: 51.49, east: -0.1, north: 51.52 });
+    });
+
+    it('should reject malformed and out-of-range boxes', () => {
+      expect(parseBoundingBox('1,2,3')).toBeNull();
+      expect(parseBoundingBox('a,2,3,4')).toBeNull();
+      expect(parseBoundingBox('0,,1,1')).toBeNull();
+      expect(parseBoundingBox('-181,0,1,1')).toBeNull();
+      expect(parseBoundingBox('0,0,1,91')).toBeNull();
+    });
+
+    it('should reject boxes whose edges are out of order', () => {
+      expect(parseBoundingBox('1,0,0,1')).toBeNull();
+      expect(parseBoundingBox('0,1,1,1')).toBeNull();
+    });
+
+    it('should honour a tighter latitude limit', () => {
+      expect(parseBoundingBox('0,0,1,89', MAX_MERCATOR_LATITUDE)).toBeNull();
+      expect(parseBoundingBox('0,0,1,85', MAX_MERCATOR_LATITUDE)).not.toBeNull();
+    });
+  });
+});
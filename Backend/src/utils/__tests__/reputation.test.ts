@@ -0,0 +1,20 @@
+import { REPUTATION_LEVELS, getReputationLevel } from '../reputation';
+
+describe('reputation', () => {
+  describe('getReputationLevel', () => {
+    it('should place a score at the highest level it reaches, with the next one up', () => {
+      expect(getReputationLevel(0)).toEqual({ level: REPUTATION_LEVELS[1], nextLevel: REPUTATION_LEVELS[2] });
+      expect(getReputationLevel(49).level.name).toBe('Newcomer');
+      expect(getReputationLevel(50).level.name).toBe('Contributor');
+      expect(getReputationLevel(250)).toEqual({ level: { name: 'Trusted', minScore: 200 }, nextLevel: { name: 'Veteran', minScore: 500 } });
+    });
+
+    it('should make negative scores Untrusted', () => {
+      expect(getReputationLevel(-1)).toEqual({ level: REPUTATION_LEVELS[0], nextLevel: REPUTATION_LEVELS[1] });
+    });
+
+    it('should have no next level at the top', () => {
+      expect(getReputationLevel(5000)).toEqual({ level: { name: 'Legend', minScore: 1000 }, nextLevel: null });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { splitSale } from '../royalties';
+
+describe('royalties', () => {
+  describe('splitSale', () => {
+    it('should pay the royalty rate of the price to the creator and the rest to the seller', () => {
+      expect(splitSale(200, { numerator: 5, denominator: 100 }, 8)).toEqual({ price: 200, royalty: 10, sellerProceeds: 190 });
+    });
+
+    it('should give the seller what rounding to the coin\'s units leaves over', () => {
+      expect(splitSale(0.99, { numerator: 1, denominator: 10 }, 2)).toEqual({ price: 0.99, royalty: 0.09, sellerProceeds: 0.9 });
+    });
+
+    it('should pay no royalty for a collection without one', () => {
+      expect(splitSale(50, { numerator: 0, denominator: 1 }, 8)).toEqual({ price: 50, royalty: 0, sellerProceeds: 50 });
+      expect(splitSale(50, { numerator: 5, denominator: 0 }, 8).royalty).toBe(0);
+    });
+
+    it('should never pay more than the price as royalty', () => {
+      expect(splitSale(50, { numerator: 3, denominator: 2 }, 8)).toEqual({ price: 50, royalty: 50, sellerProceeds: 0 });
+    });
+
+    it('should round the price to the coin\'s decimals', () => {
+      expect(splitSale(1.234, { numerator: 0, denominator: 1 }, 2).price).toBe(1.23);
+    });
+  });
+});
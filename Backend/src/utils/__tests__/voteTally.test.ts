@@ -0,0 +1,150 @@
+import { Ballot, TallyContext, evaluateOutcome, tallyVotes } from '../voteTally';
+
+const yesNo = (yes: number, no: number): Ballot[] => [
+  ...Array.from({ length: yes }, () => ({ voteOption: true, weight: 1 })),
+  ...Array.from({ length: no }, () => ({ voteOption: false, weight: 1 })),
+];
+
+const binary = (eligibleVoters: number, overrides: Partial<TallyContext> = {}): TallyContext => ({
+  votingMode: 'binary',
+  options: null,
+  eligibleVoters,
+  quorumPercent: 20,
+  passThresholdPercent: 50,
+  ...overrides,
+});
+
+const ranked = (options: string[], overrides: Partial<TallyContext> = {}): TallyContext => ({
+  votingMode: 'ranked_choice',
+  options,
+  eligibleVoters: 10,
+  quorumPercent: 0,
+  passThresholdPercent: 50,
+  ...overrides,
+});
+
+describe('voteTally', () => {
+  describe('binary proposals', () => {
+    it('should pass when quorum is met and yes exceeds the threshold', () => {
+      const tally = tallyVotes(yesNo(3, 1), binary(10));
+
+      expect(tally).toEqual(expect.objectContaining({ votesCast: 4, yes: 3, no: 1, quorumReached: true, passing: true, winningOption: 0 }));
+      expect(evaluateOutcome(tally)).toBe('passed');
+    });
+
+    it('should fail a tie at a simple-majority threshold', () => {
+      const tally = tallyVotes(yesNo(2, 2), binary(10));
+
+      expect(tally.passing).toBe(false);
+      expect(evaluateOutcome(tally)).toBe('failed');
+    });
+
+    it('should close without a decision when quorum is not reached', () => {
+      const tally = tallyVotes(yesNo(1, 0), binary(10));
+
+      expect(tally.quorumReached).toBe(false);
+      expect(evaluateOutcome(tally)).toBe('closed');
+    });
+
+    it('should treat quorum exactly at the percentage as reached', () => {
+      expect(tallyVotes(yesNo(2, 0), binary(10)).quorumReached).toBe(true);
+    });
+
+    it('should honour a supermajority threshold', () => {
+      const supermajority = { quorumPercent: 0, passThresholdPercent: 66 };
+
+      expect(tallyVotes(yesNo(2, 1), binary(3, supermajority)).passing).toBe(true);
+      expect(tallyVotes(yesNo(3, 2), binary(5, supermajority)).passing).toBe(false);
+    });
+
+    it('should decide on weight while counting quorum in voters', () => {
+      const ballots = [{ voteOption: true, weight: 3 }, { voteOption: false, weight: 1 }, { voteOption: false, weight: 1 }];
+      const tally = tallyVotes(ballots, binary(25));
+
+      expect(tally).toEqual(expect.objectContaining({ votesCast: 3, totalWeight: 5, yes: 3, no: 2, quorumReached: false, passing: true }));
+      expect(tally.options).toEqual([
+        { index: 0, label: 'yes', votes: 1, weight: 3 },
+        { index: 1, label: 'no', votes: 2, weight: 2 },
+      ]);
+    });
+  });
+
+  describe('multiple-choice proposals', () => {
+    const context: TallyContext = {
+      votingMode: 'multiple_choice',
+      options: ['Beach', 'Park', 'Museum'],
+      eligibleVoters: 10,
+      quorumPercent: 0,
+      passThresholdPercent: 40,
+    };
+
+    it('should report weight per option and pick the leader', () => {
+      const ballots = [0, 0, 1, 2, 0].map((optionIndex) => ({ optionIndex, weight: 1 }));
+      const tally = tallyVotes(ballots, context);
+
+      expect(tally.options.map((option) => option.weight)).toEqual([3, 1, 1]);
+      expect(tally.winningOption).toBe(0);
+      expect(evaluateOutcome(tally)).toBe('passed');
+    });
+
+    it('should not pick a winner when the lead is tied', () => {
+      const ballots = [0, 1].map((optionIndex) => ({ optionIndex, weight: 2 }));
+      const tally = tallyVotes(ballots, context);
+
+      expect(tally.winningOption).toBeNull();
+      expect(evaluateOutcome(tally)).toBe('failed');
+    });
+
+    it('should fail when the leader does not exceed the threshold', () => {
+      const ballots = [0, 0, 1, 1, 2].map((optionIndex, i) => ({ optionIndex, weight: i === 0 ? 1.5 : 1 }));
+
+      expect(tallyVotes(ballots, { ...context, passThresholdPercent: 50 }).passing).toBe(false);
+    });
+  });
+
+  describe('ranked-choice proposals', () => {
+    it('should elect a first-round majority without further rounds', () => {
+      const ballots = [[0, 1], [0, 2], [1, 0]].map((rankings) => ({ rankings, weight: 1 }));
+      const tally = tallyVotes(ballots, ranked(['A', 'B', 'C']));
+
+      expect(tally.rounds).toHaveLength(1);
+      expect(tally.winningOption).toBe(0);
+    });
+
+    it('should transfer votes from eliminated options until one has a majority', () => {
+      // First preferences: A 2, B 2, C 1. C is eliminated and its ballot moves to B.
+      const ballots = [[0], [0], [1], [1], [2, 1]].map((rankings) => ({ rankings, weight: 1 }));
+      const tally = tallyVotes(ballots, ranked(['A', 'B', 'C']));
+
+      expect(tally.options.map((option) => option.votes)).toEqual([2, 2, 1]);
+      expect(tally.rounds?.map((round) => round.eliminated)).toEqual([2, null]);
+      expect(tally.rounds?.[1].results.map((result) => result.weight)).toEqual([2, 3, 0]);
+      expect(tally.winningOption).toBe(1);
+      expect(evaluateOutcome(tally)).toBe('passed');
+    });
+
+    it('should drop exhausted ballots from later rounds', () => {
+      // C is eliminated and its only ballot ranks nothing else.
+      const ballots = [[0], [0], [1], [2]].map((rankings) => ({ rankings, weight: 1 }));
+      const tally = tallyVotes(ballots, ranked(['A', 'B', 'C']));
+
+      expect(tally.winningOption).toBe(0);
+      expect(tally.rounds?.[tally.rounds.length - 1].results.map((result) => result.weight)).toEqual([2, 1, 0]);
+    });
+
+    it('should have no winner when the final two options tie', () => {
+      const ballots = [[0], [1]].map((rankings) => ({ rankings, weight: 1 }));
+      const tally = tallyVotes(ballots, ranked(['A', 'B']));
+
+      expect(tally.winningOption).toBeNull();
+      expect(tally.passing).toBe(false);
+    });
+
+    it('should apply a supermajority threshold to the final round', () => {
+      const ballots = [[0], [0], [1]].map((rankings) => ({ rankings, weight: 1 }));
+
+      expect(tallyVotes(ballots, ranked(['A', 'B'], { passThresholdPercent: 70 })).passing).toBe(false);
+      expect(tallyVotes(ballots, ranked(['A', 'B'], { passThresholdPercent: 60 })).passing).toBe(true);
+    });
+  });
+});
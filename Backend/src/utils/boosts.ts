@@ -0,0 +1,31 @@
+export interface BoostSplits {
+  creatorPercent: number;
+  groupPercent: number;
+  platformFeePercent: number;
+}
+
+export interface BoostSplit {
+  // The amount paid, in whole coin units.
+  amount: number;
+  creator: number;
+  group: number;
+  platformFee: number;
+}
+
+/**
+ * Splits a boost between the Vibe's creator, its group's treasury and the platform.
+ * Shares are rounded down to the coin's smallest unit and the creator gets what rounding
+ * leaves over, so the shares always add up to the amount. Without a group, the group's
+ * share goes to the creator.
+ * @param decimals The coin's decimals; the amount is rounded to them first.
+ */
+export const splitBoost = (amount: number, splits: BoostSplits, hasGroup: boolean, decimals: number): BoostSplit => {
+  const unit = 10 ** decimals;
+  const units = Math.round(amount * unit);
+
+  const group = hasGroup ? Math.floor((units * splits.groupPercent) / 100) : 0;
+  const platformFee = Math.floor((units * splits.platformFeePercent) / 100);
+  const creator = units - group - platformFee;
+
+  return { amount: units / unit, creator: creator / unit, group: group / unit, platformFee: platformFee / unit };
+};
@@ -0,0 +1,107 @@
+import { Coordinates, distanceMeters } from './geo';
+
+export const CHECK_IN_STATUSES = ['passed', 'flagged', 'rejected'] as const;
+export type CheckInStatus = typeof CHECK_IN_STATUSES[number];
+
+/**
+ * Why a check-in was rejected or needs review. OUTSIDE_GEOFENCE rejects the check-in;
+ * every other flag sends it to the quest creator for manual review.
+ */
+export const CHECK_IN_FLAGS = [
+  'OUTSIDE_GEOFENCE',
+  'GEOFENCE_UNCERTAIN',
+  'LOW_ACCURACY',
+  'STALE_TIMESTAMP',
+  'FUTURE_TIMESTAMP',
+  'IMPOSSIBLE_TRAVEL',
+] as const;
+export type CheckInFlag = typeof CHECK_IN_FLAGS[number];
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 100;
+export const MIN_GEOFENCE_RADIUS_M = 10;
+export const MAX_GEOFENCE_RADIUS_M = 10_000;
+
+// Fixes less precise than this are accepted only after review.
+export const MAX_TRUSTED_ACCURACY_M = 100;
+// A fix older than this when it reaches us may have been replayed.
+export const MAX_CHECK_IN_AGE_MS = 5 * 60 * 1000;
+// Tolerance for device clocks running ahead of ours.
+export const MAX_CLOCK_SKEW_MS = 60 * 1000;
+// Roughly the cruising speed of an airliner.
+export const MAX_TRAVEL_SPEED_MPS = 300;
+
+/**
+ * A GPS fix submitted by a participant, or a stored one from an earlier check-in.
+ */
+export interface LocationFix extends Coordinates {
+  accuracy: number;
+  recordedAt: Date;
+}
+
+export interface Geofence extends Coordinates {
+  radius: number;
+}
+
+export interface CheckInAssessment {
+  status: CheckInStatus;
+  flags: CheckInFlag[];
+  // From the centre of the geofence, in metres.
+  distance: number;
+  // Implied by the previous fix, in metres per second.
+  speed: number | null;
+}
+
+/**
+ * Checks a participant's fix against a quest's geofence and for signs of spoofing.
+ * A fix is inside the geofence if its position is; if only its accuracy circle
+ * overlaps the geofence it needs review, and if not even that, it is rejected.
+ * @param fix The submitted fix.
+ * @param geofence The quest's location and radius.
+ * @param previous The participant's previous check-in on any quest, if any.
+ * @param receivedAt When the server received the fix.
+ */
+export const assessCheckIn = (
+  fix: LocationFix,
+  geofence: Geofence,
+  previous: LocationFix | null,
+  receivedAt: Date = new Date()
+): CheckInAssessment => {
+  const flags: CheckInFlag[] = [];
+
+  const distance = distanceMeters(fix, geofence);
+  if (distance - fix.accuracy > geofence.radius) {
+    flags.push('OUTSIDE_GEOFENCE');
+  } else if (distance > geofence.radius) {
+    flags.push('GEOFENCE_UNCERTAIN');
+  }
+
+  if (fix.accuracy > MAX_TRUSTED_ACCURACY_M) {
+    flags.push('LOW_ACCURACY');
+  }
+
+  const age = receivedAt.getTime() - fix.recordedAt.getTime();
+  if (age > MAX_CHECK_IN_AGE_MS) {
+    flags.push('STALE_TIMESTAMP');
+  } else if (-age > MAX_CLOCK_SKEW_MS) {
+    flags.push('FUTURE_TIMESTAMP');
+  }
+
+  let speed: number | null = null;
+  if (previous) {
+    // Give the benefit of the doubt: both fixes may be off by their full accuracy.
+    const travelled = Math.max(distanceMeters(previous, fix) - previous.accuracy - fix.accuracy, 0);
+    const elapsedSeconds = Math.max(Math.abs(fix.recordedAt.getTime() - previous.recordedAt.getTime()) / 1000, 1);
+    speed = travelled / elapsedSeconds;
+    if (speed > MAX_TRAVEL_SPEED_MPS) {
+      flags.push('IMPOSSIBLE_TRAVEL');
+    }
+  }
+
+  let status: CheckInStatus = 'passed';
+  if (flags.includes('OUTSIDE_GEOFENCE')) {
+    status = 'rejected';
+  } else if (flags.length > 0) {
+    status = 'flagged';
+  }
+  return { status, flags, distance, speed };
+};
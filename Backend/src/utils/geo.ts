@@ -0,0 +1,75 @@
+/**
+ * A point on the Earth in degrees.
+ */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * A rectangle of longitude/latitude in degrees, e.g. a map viewport.
+ */
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Mean radius of the Earth, as used by the haversine formula.
+const EARTH_RADIUS_M = 6371008.8;
+
+// Web Mercator stops short of the poles; map viewports never extend past these latitudes.
+export const MAX_MERCATOR_LATITUDE = 85.05112878;
+
+export const MIN_ZOOM = 0;
+export const MAX_ZOOM = 22;
+
+// Quests closer together than this many screen pixels share a cluster.
+export const CLUSTER_CELL_PX = 60;
+
+const TILE_SIZE_PX = 256;
+// Width of the whole Web Mercator (EPSG:3857) plane in metres.
+const WEB_MERCATOR_WIDTH_M = 2 * Math.PI * 6378137;
+
+/**
+ * Side of a square clustering cell, in Web Mercator metres, at a map zoom level.
+ * A cell covers the same number of screen pixels at every zoom.
+ * @param zoom The map zoom level, where 0 shows the whole world on one 256px tile.
+ * @param cellPx The side of a cell in screen pixels.
+ */
+export const getClusterCellSize = (zoom: number, cellPx: number = CLUSTER_CELL_PX): number =>
+  (WEB_MERCATOR_WIDTH_M / (TILE_SIZE_PX * 2 ** zoom)) * cellPx;
+
+/**
+ * Great-circle distance between two points in metres, treating the Earth as a sphere.
+ * Within 0.5% of the spheroidal distance PostGIS reports for geography.
+ */
+export const distanceMeters = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Parses a "west,south,east,north" string into a bounding box.
+ * @returns The box, or null if the string is malformed, out of range or empty.
+ */
+export const parseBoundingBox = (value: string, maxLatitude: number = 90): BoundingBox | null => {
+  const parts = value.split(',').map((part) => (part.trim() === '' ? NaN : Number(part)));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+
+  const [west, south, east, north] = parts;
+  if (west < -180 || east > 180 || south < -maxLatitude || north > maxLatitude) {
+    return null;
+  }
+  if (west >= east || south >= north) {
+    return null;
+  }
+  return { west, south, east, north };
+};
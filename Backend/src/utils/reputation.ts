@@ -0,0 +1,48 @@
+export const REPUTATION_EVENT_TYPES = [
+  'quest_verified',
+  'submission_rejected',
+  'proposal_passed',
+  'followed',
+  'unfollowed',
+  'content_reported',
+  // Scores carried over from before reputation events were recorded.
+  'initial_score',
+  // Adjusts the score to its events' decayed worth; see decayReputations.
+  'decay',
+] as const;
+export type ReputationEventType = typeof REPUTATION_EVENT_TYPES[number];
+
+// How much each event moves the score when it happens. Unfollowing takes back what
+// following gave, so following and unfollowing in a loop earns nothing.
+export const REPUTATION_DELTAS: Record<Exclude<ReputationEventType, 'initial_score' | 'decay'>, number> = {
+  quest_verified: 10,
+  submission_rejected: -2,
+  proposal_passed: 5,
+  followed: 1,
+  unfollowed: -1,
+  content_reported: -5,
+};
+
+export interface ReputationLevel {
+  name: string;
+  // The lowest score at this level.
+  minScore: number;
+}
+
+// In ascending order. Negative scores are Untrusted.
+export const REPUTATION_LEVELS: ReputationLevel[] = [
+  { name: 'Untrusted', minScore: Number.NEGATIVE_INFINITY },
+  { name: 'Newcomer', minScore: 0 },
+  { name: 'Contributor', minScore: 50 },
+  { name: 'Trusted', minScore: 200 },
+  { name: 'Veteran', minScore: 500 },
+  { name: 'Legend', minScore: 1000 },
+];
+
+/**
+ * Maps a score to its level, and the level above it, if any, to show progress towards.
+ */
+export const getReputationLevel = (score: number): { level: ReputationLevel; nextLevel: ReputationLevel | null } => {
+  const index = REPUTATION_LEVELS.filter((level) => score >= level.minScore).length - 1;
+  return { level: REPUTATION_LEVELS[index], nextLevel: REPUTATION_LEVELS[index + 1] ?? null };
+};
@@ -0,0 +1,31 @@
+import { CollectionRoyalty } from '../services/chain/chain.adapter';
+
+export interface SaleSplit {
+  // The price, in whole coin units.
+  price: number;
+  royalty: number;
+  sellerProceeds: number;
+}
+
+/**
+ * Rounds an amount to the coin's smallest unit.
+ */
+export const roundToCoinUnits = (amount: number, decimals: number): number =>
+  Math.round(amount * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Splits a sale's price between the seller and, as a royalty, the Vibe's creator.
+ * The royalty is rounded down to the coin's smallest unit and never exceeds the price;
+ * the seller gets the rest, so the shares always add up to the price.
+ * @param decimals The coin's decimals; the price is rounded to them first.
+ */
+export const splitSale = (price: number, royalty: CollectionRoyalty, decimals: number): SaleSplit => {
+  const unit = 10 ** decimals;
+  const units = Math.round(price * unit);
+
+  const royaltyUnits = royalty.denominator > 0
+    ? Math.min(Math.floor((units * royalty.numerator) / royalty.denominator), units)
+    : 0;
+
+  return { price: units / unit, royalty: royaltyUnits / unit, sellerProceeds: (units - royaltyUnits) / unit };
+};
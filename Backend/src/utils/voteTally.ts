@@ -0,0 +1,192 @@
+export const VOTING_MODES = ['binary', 'multiple_choice', 'ranked_choice'] as const;
+export type VotingMode = typeof VOTING_MODES[number];
+
+export const VOTE_WEIGHTINGS = ['equal', 'role', 'reputation', 'token'] as const;
+export type VoteWeighting = typeof VOTE_WEIGHTINGS[number];
+
+// Binary proposals report their results as these two options, in this order.
+export const BINARY_OPTIONS = ['yes', 'no'];
+
+/**
+ * One member's vote. Exactly one choice is set, matching the proposal's voting mode:
+ * voteOption for binary, optionIndex for multiple choice, rankings (most preferred
+ * first) for ranked choice.
+ */
+export interface Ballot {
+  voteOption?: boolean | null;
+  optionIndex?: number | null;
+  rankings?: number[] | null;
+  weight: number;
+}
+
+export interface OptionResult {
+  index: number;
+  label: string;
+  votes: number;
+  weight: number;
+}
+
+export interface RankedChoiceRound {
+  round: number;
+  results: OptionResult[];
+  eliminated: number | null;
+}
+
+/**
+ * The result of a proposal's votes measured against its group's governance settings.
+ * Quorum counts voters, not weight; the pass threshold is the share of the weight cast
+ * that "yes" (or the winning option) must exceed.
+ */
+export interface ProposalTally {
+  votingMode: VotingMode;
+  votesCast: number;
+  totalWeight: number;
+  eligibleVoters: number;
+  quorumPercent: number;
+  passThresholdPercent: number;
+  quorumReached: boolean;
+  passing: boolean;
+  options: OptionResult[];
+  winningOption: number | null;
+  // Binary proposals only: the weight behind each side.
+  yes?: number;
+  no?: number;
+  // Ranked-choice proposals only: the instant-runoff rounds, first preferences first.
+  rounds?: RankedChoiceRound[];
+}
+
+export interface TallyContext {
+  votingMode: VotingMode;
+  options: string[] | null;
+  eligibleVoters: number;
+  quorumPercent: number;
+  passThresholdPercent: number;
+}
+
+const emptyResults = (labels: string[]): OptionResult[] =>
+  labels.map((label, index) => ({ index, label, votes: 0, weight: 0 }));
+
+const addVote = (results: OptionResult[], index: number, weight: number) => {
+  results[index].votes += 1;
+  results[index].weight += weight;
+};
+
+// The option with strictly the most weight, or null when there is none or it is tied.
+const leaderOf = (results: OptionResult[]): OptionResult | null => {
+  const sorted = [...results].sort((a, b) => b.weight - a.weight);
+  if (!sorted[0] || sorted[0].weight <= 0 || (sorted[1] && sorted[1].weight === sorted[0].weight)) {
+    return null;
+  }
+  return sorted[0];
+};
+
+const exceedsThreshold = (weight: number, total: number, thresholdPercent: number) =>
+  total > 0 && weight * 100 > thresholdPercent * total;
+
+/**
+ * Runs an instant-runoff count. Each round, every ballot counts for its highest-ranked
+ * option still in the race; ballots with no such option are exhausted. The count stops
+ * when an option holds a majority of the live weight, otherwise the option with the
+ * least weight is eliminated (ties eliminate the later option). A tie between the
+ * last two options has no winner.
+ */
+const runInstantRunoff = (labels: string[], ballots: Ballot[]) => {
+  const eliminated = new Set<number>();
+  const rounds: RankedChoiceRound[] = [];
+
+  while (true) {
+    const results = emptyResults(labels);
+    for (const ballot of ballots) {
+      const choice = (ballot.rankings ?? []).find((index) => !eliminated.has(index) && index < labels.length);
+      if (choice !== undefined) {
+        addVote(results, choice, ballot.weight);
+      }
+    }
+
+    const continuing = results.filter((result) => !eliminated.has(result.index));
+    const liveWeight = continuing.reduce((sum, result) => sum + result.weight, 0);
+    const leader = leaderOf(continuing);
+
+    if (leader && leader.weight * 2 > liveWeight) {
+      rounds.push({ round: rounds.length + 1, results, eliminated: null });
+      return { rounds, winner: leader, liveWeight };
+    }
+    // Without a majority, two continuing options are tied; there is no one left to eliminate fairly.
+    if (continuing.length <= 2 || liveWeight === 0) {
+      rounds.push({ round: rounds.length + 1, results, eliminated: null });
+      return { rounds, winner: null, liveWeight };
+    }
+
+    const loser = [...continuing].sort((a, b) => a.weight - b.weight || b.index - a.index)[0];
+    eliminated.add(loser.index);
+    rounds.push({ round: rounds.length + 1, results, eliminated: loser.index });
+  }
+};
+
+/**
+ * Tallies a proposal's ballots for its voting mode.
+ * @param ballots Every vote cast on the proposal.
+ * @param context The proposal's voting mode and options, and its group's settings.
+ * @returns Per-option results and whether the proposal is currently passing.
+ */
+export const tallyVotes = (ballots: Ballot[], context: TallyContext): ProposalTally => {
+  const { votingMode, eligibleVoters, quorumPercent, passThresholdPercent } = context;
+  const labels = votingMode === 'binary' ? BINARY_OPTIONS : context.options ?? [];
+  const votesCast = ballots.length;
+  const totalWeight = ballots.reduce((sum, ballot) => sum + ballot.weight, 0);
+  const options = emptyResults(labels);
+
+  const tally: ProposalTally = {
+    votingMode,
+    votesCast,
+    totalWeight,
+    eligibleVoters,
+    quorumPercent,
+    passThresholdPercent,
+    quorumReached: votesCast * 100 >= quorumPercent * eligibleVoters,
+    passing: false,
+    options,
+    winningOption: null,
+  };
+
+  if (votingMode === 'binary') {
+    for (const ballot of ballots) {
+      addVote(options, ballot.voteOption ? 0 : 1, ballot.weight);
+    }
+    tally.yes = options[0].weight;
+    tally.no = options[1].weight;
+    tally.passing = exceedsThreshold(options[0].weight, totalWeight, passThresholdPercent);
+    tally.winningOption = tally.passing ? 0 : null;
+    return tally;
+  }
+
+  if (votingMode === 'multiple_choice') {
+    for (const ballot of ballots) {
+      if (ballot.optionIndex != null && ballot.optionIndex < labels.length) {
+        addVote(options, ballot.optionIndex, ballot.weight);
+      }
+    }
+    const leader = leaderOf(options);
+    tally.passing = leader !== null && exceedsThreshold(leader.weight, totalWeight, passThresholdPercent);
+    tally.winningOption = tally.passing ? leader!.index : null;
+    return tally;
+  }
+
+  const { rounds, winner, liveWeight } = runInstantRunoff(labels, ballots);
+  tally.options = rounds[0].results;
+  tally.rounds = rounds;
+  tally.passing = winner !== null && exceedsThreshold(winner.weight, liveWeight, passThresholdPercent);
+  tally.winningOption = tally.passing ? winner!.index : null;
+  return tally;
+};
+
+/**
+ * Decides the final status of a proposal from its tally.
+ * A proposal that never reached quorum is 'closed' without a decision.
+ */
+export const evaluateOutcome = (tally: ProposalTally): 'passed' | 'failed' | 'closed' => {
+  if (!tally.quorumReached) {
+    return 'closed';
+  }
+  return tally.passing ? 'passed' : 'failed';
+};